@@ -10,7 +10,41 @@ export interface AuthResponse {
     message: string;
 }
 
-const API_URL = 'http://localhost:3000/api';
+export const API_URL = 'http://localhost:3000/api';
+
+// Exchange the refresh token for a new access token; resolves to null when that is not possible
+export const refreshAccessToken = async (): Promise<string | null> => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) {
+        return null;
+    }
+
+    try {
+        // Create a new instance of ky without the auth interceptors to avoid loops
+        const refreshClient = ky.create({
+            prefixUrl: API_URL,
+            retry: 0
+        });
+
+        // Request new access token
+        const refreshResponse = await refreshClient.post('auth/refresh-token', {
+            json: { refreshToken }
+        });
+
+        if (refreshResponse.ok) {
+            const { accessToken } = await refreshResponse.json<{ accessToken: string }>();
+
+            // Update the token in storage
+            setToken(accessToken);
+            return accessToken;
+        }
+    } catch (error: unknown) {
+        const errorMessage = await getApiErrorMessage(error);
+        console.error('Token refresh failed:', errorMessage);
+    }
+
+    return null;
+};
 
 export const apiClient = ky.create({
     prefixUrl: API_URL,
@@ -27,36 +61,13 @@ export const apiClient = ky.create({
             async (request, _, response) => {
                 // Only attempt refresh if status is 401 (Unauthorized)
                 if (response.status === 401) {
-                    const refreshToken = getRefreshToken();
-
                     // If we have a refresh token, try to get a new access token
-                    if (refreshToken) {
-                        try {
-                            // Create a new instance of ky without the auth interceptors to avoid loops
-                            const refreshClient = ky.create({
-                                prefixUrl: API_URL,
-                                retry: 0
-                            });
-
-                            // Request new access token
-                            const refreshResponse = await refreshClient.post('auth/refresh-token', {
-                                json: { refreshToken }
-                            });
-
-                            if (refreshResponse.ok) {
-                                const { accessToken } = await refreshResponse.json<{ accessToken: string }>();
-
-                                // Update the token in storage
-                                setToken(accessToken);
-
-                                // Retry the original request with the new token
-                                request.headers.set('Authorization', `Bearer ${accessToken}`);
-                                return ky(request);
-                            }
-                        } catch (error: unknown) {
-                            const errorMessage = await getApiErrorMessage(error);
-                            console.error('Token refresh failed:', errorMessage);
-                        }
+                    const accessToken = await refreshAccessToken();
+
+                    if (accessToken) {
+                        // Retry the original request with the new token
+                        request.headers.set('Authorization', `Bearer ${accessToken}`);
+                        return ky(request);
                     }
 
                     clearTokens();
@@ -107,11 +118,11 @@ export const authApi = {
         return response.json<{ accessToken: string }>();
     },
 
-    requestPasswordReset: async (email: string): Promise<{ message: string; resetToken?: string; resetUrl?: string }> => {
+    requestPasswordReset: async (email: string): Promise<{ message: string }> => {
         const response = await apiClient.post('auth/request-password-reset', {
             json: { email }
         });
-        return response.json<{ message: string; resetToken?: string; resetUrl?: string }>();
+        return response.json<{ message: string }>();
     },
 
     resetPassword: async (token: string, password: string): Promise<{ message: string }> => {
@@ -150,6 +161,8 @@ export interface UserEvent {
     entity_id?: string;
     entity_type?: string;
     project_ids?: string[]; // New field
+    read_at?: string | null;
+    archived_at?: string | null;
     createdAt: string;
     updatedAt: string;
     actor?: {
@@ -173,12 +186,26 @@ export interface Project {
     updated_at: string;
 }
 
+// Genealogical date detail stored alongside a date column for approximate or ranged dates
+// ("ABT 1850", "BET 1850 AND 1855"); the date column then holds sort_key. Null means an exact day.
+export interface GenealogicalDate {
+    qualifier: 'exact' | 'about' | 'estimated' | 'calculated' | 'before' | 'after' | 'between';
+    precision: 'day' | 'month' | 'year';
+    start: string;
+    end: string;
+    original?: string | null;
+    sort_key: string;
+}
+
 export interface Event {
     event_id: string;
     person_id: string;
     event_type: string;
     event_date: string;
+    event_date_detail?: GenealogicalDate | null;
     event_location?: string;
+    event_place_id?: string | null;
+    place?: Place | null;
     description?: string;
     created_at: string;
     updated_at: string;
@@ -201,6 +228,14 @@ export interface Document {
     source?: string;
     date_of_original?: string;
     project_id?: string;
+    ocr_status?: DocumentOcrStatus | null;
+    ocr_pages?: DocumentOcrPage[] | null;
+    ocr_attempts?: number;
+    ocr_error?: string | null;
+    ocr_completed_at?: string | null;
+    transcription?: string | null;
+    transcription_updated_by?: string | null;
+    transcription_updated_at?: string | null;
     created_at: string;
     updated_at: string;
     persons?: {
@@ -210,19 +245,36 @@ export interface Document {
         middle_name?: string;
         gender?: string;
         birth_date?: string;
+        birth_date_detail?: GenealogicalDate | null;
         death_date?: string;
+        death_date_detail?: GenealogicalDate | null;
     }[];
 }
 
+export type DocumentOcrStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// Text read from one page of a document, with the OCR engine's mean word confidence (0-100)
+export interface DocumentOcrPage {
+    page: number;
+    text: string;
+    confidence: number | null;
+}
+
 export interface PersonRelationship {
+    relationship_id?: string;
     person_id: string;
     first_name: string;
     last_name: string;
     relationship_qualifier?: string;
     start_date?: string;
+    start_date_detail?: GenealogicalDate | null;
     end_date?: string;
+    end_date_detail?: GenealogicalDate | null;
 }
 
+// Whether a person is always or never shown to people outside the research team, whatever their dates
+export type PrivacyOverride = 'private' | 'public';
+
 export interface Person {
     person_id: string;
     first_name: string;
@@ -231,10 +283,16 @@ export interface Person {
     maiden_name?: string;
     gender?: string;
     birth_date?: string;
+    birth_date_detail?: GenealogicalDate | null;
     birth_location?: string;
+    birth_place_id?: string | null;
     death_date?: string;
+    death_date_detail?: GenealogicalDate | null;
     death_location?: string;
+    death_place_id?: string | null;
     notes?: string;
+    privacy_override?: PrivacyOverride | null;
+    living?: boolean; // Set when the person is shown as a "Living" placeholder
     created_at: string;
     updated_at: string;
     project_persons?: {
@@ -255,6 +313,53 @@ export interface Person {
     };
     relationshipsAsSubject?: Relationship[]; // Keep for now, might be used elsewhere
     relationshipsAsObject?: Relationship[]; // Keep for now, might be used elsewhere
+    names?: PersonName[];
+}
+
+export type PersonNameType = 'birth' | 'married' | 'alias' | 'religious' | 'anglicized';
+
+// Interface for another name a person is recorded under, e.g. an anglicized or married name
+export interface PersonName {
+    name_id: string;
+    person_id: string;
+    name_type: PersonNameType;
+    first_name?: string | null;
+    middle_name?: string | null;
+    last_name?: string | null;
+    start_date?: string | null;
+    start_date_detail?: GenealogicalDate | null;
+    end_date?: string | null;
+    end_date_detail?: GenealogicalDate | null;
+    source_id?: string | null;
+    notes?: string | null;
+    created_at: string;
+    updated_at: string;
+    source?: Pick<Source, 'source_id' | 'title'> | null;
+}
+
+export type NewPersonName = Omit<PersonName, 'name_id' | 'person_id' | 'created_at' | 'updated_at' | 'source'>;
+
+// A person in an ancestor or descendant chart
+export interface PedigreeNode {
+    id: string;
+    name: string;
+    birth_date: string | null;
+    death_date: string | null;
+    gender: string | null;
+    // How the person is related to the one before them in the chart, e.g. 'adoptive'
+    qualifier?: string | null;
+    parents?: PedigreeNode[]; // Ancestor charts, left out past the last generation
+    children?: PedigreeNode[]; // Descendant charts, left out past the last generation
+}
+
+export type AncestorFormat = 'nested' | 'ahnentafel';
+export type DescendantFormat = 'nested' | 'daboville';
+
+// Ancestors or descendants listed with their Ahnentafel (1, 2, 3) or d'Aboville (1, 1.1, 1.2) numbers
+export interface NumberedPedigree<N extends number | string> {
+    format: 'ahnentafel' | 'daboville';
+    generations: number;
+    persons: (Omit<PedigreeNode, 'qualifier' | 'parents' | 'children'> & { number: N; generation: number })[];
 }
 
 export interface ProjectDetail extends Project {
@@ -267,6 +372,7 @@ export interface ProjectDetail extends Project {
         title: string;
         type: string;
         uploaded_at: string;
+        transcription?: string | null;
         // Include an array of associated persons
         persons?: {
             person_id: string;
@@ -327,8 +433,12 @@ export interface ManagerDashboardSummary {
     pendingTasks: {
         id: string;
         description: string;
-        priority: 'high' | 'medium' | 'low';
-        dueDate: string;
+        priority: ResearchTaskPriority;
+        dueDate: string | null;
+        status: ResearchTaskStatus;
+        projectId: string;
+        projectTitle: string | null;
+        assignee: string | null;
     }[];
     projectsByStatus: {
         active: number;
@@ -369,6 +479,108 @@ export const dashboardApi = {
     }
 };
 
+export interface UserEventListParams {
+    page?: number;
+    limit?: number;
+    sortOrder?: 'asc' | 'desc';
+    eventType?: string; // One type or a comma-separated list
+    search?: string;
+    status?: 'all' | 'read' | 'unread';
+    archived?: 'true' | 'false' | 'all';
+}
+
+export interface UserEventList {
+    events: UserEvent[];
+    metadata: {
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+        unread: number;
+    };
+}
+
+export const userEventsApi = {
+    getUserEvents: async (params: UserEventListParams = {}): Promise<UserEventList> => {
+        const searchParams = Object.fromEntries(
+            Object.entries(params).filter(([, value]) => value !== undefined && value !== '')
+        ) as Record<string, string | number>;
+
+        const response = await apiClient.get('user-events', { searchParams });
+        return response.json();
+    },
+
+    getUnreadCount: async (): Promise<{ count: number }> => {
+        const response = await apiClient.get('user-events/unread-count');
+        return response.json();
+    },
+
+    // Mark all notifications read, or only those of the given types
+    markAllRead: async (eventTypes?: string[]): Promise<{ message: string; updated: number }> => {
+        const response = await apiClient.put('user-events/read-all', {
+            json: eventTypes ? { event_types: eventTypes } : {}
+        });
+        return response.json();
+    },
+
+    updateState: async (eventId: string, state: { read?: boolean; archived?: boolean }): Promise<{ message: string; event: UserEvent }> => {
+        const response = await apiClient.put(`user-events/${eventId}/state`, { json: state });
+        return response.json();
+    }
+};
+
+export type MigrationEventType = 'birth' | 'marriage' | 'immigration' | 'death';
+
+// A mapped event; precision is 'place' for a linked place's own coordinates, otherwise the kind of
+// gazetteer place (country, state, county, city) the location text was read as
+export interface MigrationPoint {
+    person_id: string;
+    event_id: string | null;
+    event_type: MigrationEventType;
+    date: string | null;
+    date_detail: GenealogicalDate | null;
+    location: string;
+    latitude: number;
+    longitude: number;
+    precision: 'place' | PlaceType;
+}
+
+export interface MigrationMap {
+    persons: { person_id: string; name: string; lineage: string }[];
+    lineages: { name: string; person_ids: string[] }[];
+    points: MigrationPoint[];
+    links: { parent_id: string; child_id: string; lineage: string }[];
+    unlocated: { person_id: string; event_id: string | null; event_type: MigrationEventType; location: string }[];
+}
+
+export type AuditSeverity = 'error' | 'warning';
+
+// A data quality check run by project audits
+export interface AuditRule {
+    id: string;
+    title: string;
+    description: string;
+    severity: AuditSeverity;
+    issue_count: number;
+}
+
+export interface AuditIssue {
+    rule: string;
+    severity: AuditSeverity;
+    message: string;
+    person_id: string;
+    person_name: string;
+    related_person_ids: string[];
+    entity_type: 'person' | 'relationship' | 'event';
+    entity_id: string;
+}
+
+export interface ProjectAudit {
+    rules: AuditRule[];
+    issues: AuditIssue[]; // Errors first
+    checked_at: string;
+}
+
 export const projectsApi = {
     getProjects: async (params?: {
         search?: string;
@@ -456,12 +668,14 @@ export const projectsApi = {
     getPersonById: async (personId: string, options: {
         includeEvents?: boolean,
         includeDocuments?: boolean,
-        includeRelationships?: boolean
+        includeRelationships?: boolean,
+        includeNames?: boolean
     } = {}): Promise<Person> => {
         const queryParams = new URLSearchParams();
         if (options.includeEvents) queryParams.append('includeEvents', 'true');
         if (options.includeDocuments) queryParams.append('includeDocuments', 'true');
         if (options.includeRelationships) queryParams.append('includeRelationships', 'true');
+        if (options.includeNames) queryParams.append('includeNames', 'true');
 
         const queryString = queryParams.toString() ? `?${queryParams.toString()}` : '';
         const response = await apiClient.get(`persons/${personId}${queryString}`);
@@ -485,6 +699,90 @@ export const projectsApi = {
         return result.person;
     },
 
+    // Find likely duplicate persons in a project, best matches first
+    getProjectDuplicates: async (projectId: string, minScore?: number): Promise<DuplicateMatch[]> => {
+        const searchParams: Record<string, string | number> = { project_id: projectId };
+        if (minScore !== undefined) searchParams.min_score = minScore;
+
+        const response = await apiClient.get('persons/duplicates', { searchParams });
+        return response.json();
+    },
+
+    // Find likely duplicates of a person
+    getPersonDuplicates: async (personId: string, minScore?: number): Promise<DuplicateMatch[]> => {
+        const searchParams: Record<string, number> = {};
+        if (minScore !== undefined) searchParams.min_score = minScore;
+
+        const response = await apiClient.get(`persons/${personId}/duplicates`, { searchParams });
+        return response.json();
+    },
+
+    // Merge a duplicate into a person; fields not chosen are kept from the surviving person
+    mergePersons: async (
+        personId: string,
+        duplicatePersonId: string,
+        fieldChoices: Partial<Record<MergeField, MergeChoice>>
+    ): Promise<{ message: string; person: Person; merge: PersonMerge }> => {
+        const response = await apiClient.post(`persons/${personId}/merge`, {
+            json: { duplicate_person_id: duplicatePersonId, field_choices: fieldChoices }
+        });
+        return response.json();
+    },
+
+    getPersonMerges: async (personId: string): Promise<PersonMerge[]> => {
+        const response = await apiClient.get(`persons/${personId}/merges`);
+        return response.json();
+    },
+
+    // Other names a person is recorded under
+    getPersonNames: async (personId: string): Promise<PersonName[]> => {
+        const response = await apiClient.get(`persons/${personId}/names`);
+        return response.json();
+    },
+
+    addPersonName: async (personId: string, nameData: NewPersonName): Promise<PersonName> => {
+        const response = await apiClient.post(`persons/${personId}/names`, { json: nameData });
+        const result = await response.json<{ message: string; name: PersonName }>();
+        return result.name;
+    },
+
+    updatePersonName: async (personId: string, nameId: string, nameData: Partial<NewPersonName>): Promise<PersonName> => {
+        const response = await apiClient.put(`persons/${personId}/names/${nameId}`, { json: nameData });
+        const result = await response.json<{ message: string; name: PersonName }>();
+        return result.name;
+    },
+
+    deletePersonName: async (personId: string, nameId: string): Promise<{ message: string }> => {
+        const response = await apiClient.delete(`persons/${personId}/names/${nameId}`);
+        return response.json();
+    },
+
+    // Ancestors of a person, as a tree of parents or numbered in Ahnentafel order
+    getPersonAncestors: async <F extends AncestorFormat = 'nested'>(
+        personId: string,
+        options: { generations?: number; format?: F } = {}
+    ): Promise<F extends 'ahnentafel' ? NumberedPedigree<number> : PedigreeNode> => {
+        const searchParams: Record<string, string | number> = {};
+        if (options.generations) searchParams.generations = options.generations;
+        if (options.format) searchParams.format = options.format;
+
+        const response = await apiClient.get(`persons/${personId}/ancestors`, { searchParams });
+        return response.json();
+    },
+
+    // Descendants of a person, as a tree of children or with d'Aboville numbers
+    getPersonDescendants: async <F extends DescendantFormat = 'nested'>(
+        personId: string,
+        options: { generations?: number; format?: F } = {}
+    ): Promise<F extends 'daboville' ? NumberedPedigree<string> : PedigreeNode> => {
+        const searchParams: Record<string, string | number> = {};
+        if (options.generations) searchParams.generations = options.generations;
+        if (options.format) searchParams.format = options.format;
+
+        const response = await apiClient.get(`persons/${personId}/descendants`, { searchParams });
+        return response.json();
+    },
+
     // Get project events
     getProjectEvents: async (
         projectId: string,
@@ -502,30 +800,72 @@ export const projectsApi = {
         return response.json();
     },
 
-    // Add a research note to a project
-    addResearchNote: async (projectId: string, note: string): Promise<{ message: string; event: UserEvent }> => {
-        const response = await apiClient.post('user-events', {
-            json: {
-                event_type: 'research_milestone',
-                message: note,
-                entity_id: projectId,
-                entity_type: 'project'
-            }
-        });
+    // Export the project's family tree as a GEDCOM file
+    exportGedcom: async (projectId: string): Promise<{ blob: Blob; fileName: string }> => {
+        const response = await apiClient.get(`projects/${projectId}/export.ged`);
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const match = /filename="([^"]+)"/.exec(disposition);
+        return {
+            blob: await response.blob(),
+            fileName: match ? match[1] : 'project.ged'
+        };
+    },
+
+    // Get the project's births, marriages, immigrations and deaths with map coordinates
+    getMigrationMap: async (projectId: string): Promise<MigrationMap> => {
+        const response = await apiClient.get(`projects/${projectId}/map`);
         return response.json();
     },
 
-    // Update a research note
-    updateResearchNote: async (noteId: string, message: string): Promise<{ message: string; event: UserEvent }> => {
-        const response = await apiClient.put(`user-events/${noteId}`, {
-            json: { message }
-        });
+    // Check the project's persons and relationships against the data quality rules (managers only)
+    getProjectAudit: async (projectId: string, options: { rules?: string[]; severity?: AuditSeverity } = {}): Promise<ProjectAudit> => {
+        const searchParams: Record<string, string> = {};
+        if (options.rules && options.rules.length > 0) searchParams.rules = options.rules.join(',');
+        if (options.severity) searchParams.severity = options.severity;
+
+        const response = await apiClient.get(`projects/${projectId}/audit`, { searchParams });
         return response.json();
     },
 
-    // Delete a research note
-    deleteResearchNote: async (noteId: string): Promise<{ message: string }> => {
-        const response = await apiClient.delete(`user-events/${noteId}`);
+    // Download the project's family history report; only the options given are sent
+    downloadReport: async (projectId: string, options: FamilyHistoryReportOptions = {}): Promise<{ blob: Blob; fileName: string }> => {
+        const searchParams = Object.fromEntries(
+            Object.entries(options).filter(([, value]) => value !== undefined && value !== '')
+        ) as Record<string, string | number>;
+
+        const response = await apiClient.get(`projects/${projectId}/report`, { searchParams });
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const match = /filename="([^"]+)"/.exec(disposition);
+        return {
+            blob: await response.blob(),
+            fileName: match ? match[1] : `family_history_report.${options.format || 'pdf'}`
+        };
+    },
+
+    // Email the family history report to the project's clients
+    emailReport: async (
+        projectId: string,
+        options: FamilyHistoryReportOptions & { message?: string } = {}
+    ): Promise<{ message: string; recipients: string[] }> => {
+        const response = await apiClient.post(`projects/${projectId}/report/email`, { json: options });
+        return response.json();
+    },
+
+    // Parse a GEDCOM file and summarise what importing it would add to the project
+    previewGedcomImport: async (projectId: string, file: File): Promise<GedcomImportPreview> => {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await apiClient.post(`projects/${projectId}/import/gedcom/preview`, { body: formData });
+        return response.json();
+    },
+
+    // Import a GEDCOM file into the project
+    importGedcom: async (projectId: string, file: File): Promise<GedcomImportResult> => {
+        const formData = new FormData();
+        formData.append('file', file);
+
+        const response = await apiClient.post(`projects/${projectId}/import/gedcom`, { body: formData });
         return response.json();
     }
 };
@@ -559,6 +899,105 @@ export interface ProjectPersonAssociation {
     updated_at?: string;
 }
 
+// GEDCOM import types
+export interface GedcomTagReport {
+    skippedTags: { tag: string; count: number }[];
+    warnings: string[];
+}
+
+export interface GedcomImportPreview extends GedcomTagReport {
+    header: {
+        version: string | null;
+        sourceSystem: string | null;
+    };
+    summary: {
+        persons: number;
+        relationships: number;
+        events: number;
+        documents: number;
+        sources: number;
+    };
+    persons: {
+        xref: string;
+        first_name: string;
+        middle_name: string | null;
+        last_name: string;
+        gender: string | null;
+        birth_date: string | null;
+        death_date: string | null;
+        eventCount: number;
+    }[];
+    relationships: {
+        relationship_type: string;
+        relationship_qualifier: string | null;
+        person1: string;
+        person2: string;
+    }[];
+    documents: {
+        title: string;
+        file_path: string;
+        document_type: string;
+    }[];
+}
+
+export interface GedcomImportResult extends GedcomTagReport {
+    message: string;
+    created: {
+        persons: number;
+        relationships: number;
+        events: number;
+        documents: number;
+    };
+    rejected: { record: string; reason: string }[];
+}
+
+// Family history report types
+export type ReportFormat = 'pdf' | 'html';
+export type ReportNumbering = 'register' | 'ngsq';
+
+export interface FamilyHistoryReportOptions {
+    format?: ReportFormat;
+    numbering?: ReportNumbering;
+    subject_person_id?: string;
+    progenitor_person_id?: string;
+    generations?: number;
+}
+
+// Duplicate detection and merge types
+export interface DuplicateMatch {
+    person: Person;
+    match: Person;
+    score: number;
+    reasons: string[];
+}
+
+export type MergeField = 'first_name' | 'middle_name' | 'last_name' | 'maiden_name' | 'gender'
+    | 'birth_date' | 'birth_location' | 'death_date' | 'death_location' | 'notes';
+export type MergeChoice = 'survivor' | 'duplicate';
+
+export interface PersonMerge {
+    merge_id: string;
+    survivor_person_id: string | null;
+    merged_person_id: string;
+    merged_person_data: Person;
+    survivor_previous_data: Person;
+    field_choices: Partial<Record<MergeField, MergeChoice>>;
+    relinked: {
+        relationships: number;
+        relationships_dropped: number;
+        events: number;
+        documents: number;
+        projects: number;
+        citations: number;
+        names?: number;
+        research_log?: number;
+    };
+    merged_by: string | null;
+    mergedBy?: Pick<User, 'user_id' | 'first_name' | 'last_name'>;
+    created_at: string;
+    updated_at: string;
+}
+
 export interface ApiError extends Error {
     status?: number;
     response?: {
@@ -618,8 +1057,9 @@ export const eventsApi = {
         return response.json();
     },
 
+    // Accepts a place ID or a place name; matches events in that place and the places within it
     getEventsByLocation: async (location: string): Promise<Event[]> => {
-        const response = await apiClient.get(`events/location/${location}`);
+        const response = await apiClient.get(`events/location/${encodeURIComponent(location)}`);
         return response.json();
     },
 
@@ -685,6 +1125,11 @@ export const documentsApi = {
         return response.json();
     },
 
+    recognizeDocument: async (documentId: string): Promise<{ message: string; document: Document }> => {
+        const response = await apiClient.post(`documents/${documentId}/ocr`);
+        return response.json();
+    },
+
     getDocumentsByPersonId: async (personId: string): Promise<Document[]> => {
         const response = await apiClient.get(`documents/person/${personId}`);
         return response.json();
@@ -746,7 +1191,9 @@ export interface Relationship {
     relationship_type: string;
     relationship_qualifier?: string;
     start_date?: string;
+    start_date_detail?: GenealogicalDate | null;
     end_date?: string;
+    end_date_detail?: GenealogicalDate | null;
     notes?: string;
     created_at: string;
     updated_at: string;
@@ -754,6 +1201,129 @@ export interface Relationship {
     person2?: Person; // Nested Person object
 }
 
+// Person named in a kinship result; persons outside the user's projects only show as hidden
+export interface KinshipPerson {
+    person_id?: string;
+    first_name?: string;
+    middle_name?: string | null;
+    last_name?: string;
+    gender?: string;
+    birth_date?: string | null;
+    death_date?: string | null;
+    hidden?: boolean;
+}
+
+// How person1 is related to person2, e.g. "second cousin once removed"
+export interface Kinship {
+    person1: KinshipPerson | null;
+    person2: KinshipPerson | null;
+    related: boolean;
+    relationship: string | null; // What person2 is to person1
+    reciprocal: string | null; // What person1 is to person2
+    kind: 'self' | 'blood' | 'step' | 'spouse' | 'in-law' | null;
+    half?: boolean;
+    generations?: { person1: number; person2: number };
+    cousin?: { degree: number; removed: number } | null;
+    common_ancestors?: KinshipPerson[];
+    through_spouse?: KinshipPerson | null;
+    path?: KinshipPerson[];
+    max_generations: number;
+}
+
+// Interface for a source consulted during research (register, census, book...)
+export interface Source {
+    source_id: string;
+    project_id?: string | null;
+    document_id?: string | null;
+    title: string;
+    author?: string | null;
+    publication_info?: string | null;
+    repository?: string | null;
+    call_number?: string | null;
+    url?: string | null;
+    classification?: 'original' | 'derivative' | 'authored' | null;
+    notes?: string | null;
+    created_at: string;
+    updated_at: string;
+    document?: Pick<Document, 'document_id' | 'title' | 'document_type'> | null;
+}
+
+export type CitedEntityType = 'person' | 'event' | 'relationship';
+
+// Interface for a citation linking a source to a person, event or relationship, or one of its facts
+export interface Citation {
+    citation_id: string;
+    source_id: string;
+    entity_type: CitedEntityType;
+    entity_id: string;
+    field_name?: string | null;
+    page?: string | null;
+    information_quality?: 'primary' | 'secondary' | 'undetermined' | null;
+    evidence_type?: 'direct' | 'indirect' | 'negative' | null;
+    confidence?: number | null;
+    excerpt?: string | null;
+    notes?: string | null;
+    created_at: string;
+    updated_at: string;
+    source?: Source;
+}
+
+export type NewCitation = Omit<Citation, 'citation_id' | 'source_id' | 'created_at' | 'updated_at' | 'source'>;
+
+// Source and citation API service
+export const sourcesApi = {
+    getSourcesByProjectId: async (projectId: string): Promise<Source[]> => {
+        const response = await apiClient.get(`projects/${projectId}/sources`);
+        return response.json();
+    },
+
+    getSourceById: async (sourceId: string): Promise<Source> => {
+        const response = await apiClient.get(`sources/${sourceId}`);
+        return response.json();
+    },
+
+    createSource: async (sourceData: Partial<Source> & { title: string; project_id: string }): Promise<{ message: string; source: Source }> => {
+        const response = await apiClient.post('sources', { json: sourceData });
+        return response.json();
+    },
+
+    updateSource: async (sourceId: string, sourceData: Partial<Source>): Promise<{ message: string; source: Source }> => {
+        const response = await apiClient.put(`sources/${sourceId}`, { json: sourceData });
+        return response.json();
+    },
+
+    deleteSource: async (sourceId: string): Promise<{ message: string }> => {
+        const response = await apiClient.delete(`sources/${sourceId}`);
+        return response.json();
+    },
+
+    getCitations: async (entityType: CitedEntityType, entityId: string): Promise<Citation[]> => {
+        const response = await apiClient.get('sources/citations', { searchParams: { entityType, entityId } });
+        return response.json();
+    },
+
+    // Citations of the person and of their events and relationships
+    getPersonCitations: async (personId: string): Promise<Citation[]> => {
+        const response = await apiClient.get(`persons/${personId}/citations`);
+        return response.json();
+    },
+
+    createCitation: async (sourceId: string, citationData: NewCitation): Promise<{ message: string; citation: Citation }> => {
+        const response = await apiClient.post(`sources/${sourceId}/citations`, { json: citationData });
+        return response.json();
+    },
+
+    updateCitation: async (citationId: string, citationData: Partial<NewCitation>): Promise<{ message: string; citation: Citation }> => {
+        const response = await apiClient.put(`sources/citations/${citationId}`, { json: citationData });
+        return response.json();
+    },
+
+    deleteCitation: async (citationId: string): Promise<{ message: string }> => {
+        const response = await apiClient.delete(`sources/citations/${citationId}`);
+        return response.json();
+    }
+};
+
 // Relationship API service
 export const relationshipsApi = {
     getRelationships: async (params?: Record<string, string | number | boolean>): Promise<{ relationships: Relationship[]; metadata: ApiMetadata }> => {
@@ -772,7 +1342,9 @@ export const relationshipsApi = {
         relationship_type: string;
         relationship_qualifier?: string;
         start_date?: string;
+        start_date_detail?: GenealogicalDate | null;
         end_date?: string;
+        end_date_detail?: GenealogicalDate | null;
         notes?: string;
     }): Promise<{ message: string; relationship: Relationship }> => {
         const response = await apiClient.post('relationships', { json: relationshipData });
@@ -783,7 +1355,9 @@ export const relationshipsApi = {
         relationship_type: string;
         relationship_qualifier?: string;
         start_date?: string;
+        start_date_detail?: GenealogicalDate | null;
         end_date?: string;
+        end_date_detail?: GenealogicalDate | null;
         notes?: string;
     }>): Promise<{ message: string; relationship: Relationship }> => {
         const response = await apiClient.put(`relationships/${relationshipId}`, { json: relationshipData });
@@ -810,6 +1384,13 @@ export const relationshipsApi = {
         return response.json();
     },
 
+    getKinship: async (person1Id: string, person2Id: string, maxGenerations?: number): Promise<Kinship> => {
+        const response = await apiClient.get(`relationships/kinship/${person1Id}/${person2Id}`, {
+            searchParams: maxGenerations ? { maxGenerations } : undefined
+        });
+        return response.json();
+    },
+
     getRelationshipsByProjectId: async (projectId: string, options?: {
         sortBy?: string;
         sortOrder?: 'asc' | 'desc';
@@ -828,6 +1409,554 @@ export const relationshipsApi = {
     }
 };
 
+export type VersionedEntityType = 'person' | 'event' | 'relationship' | 'document';
+
+// Interface for one version in the edit history of a person, event, relationship or document
+export interface EntityVersion {
+    version_id: string;
+    entity_type: VersionedEntityType;
+    entity_id: string;
+    version_number: number;
+    action: 'create' | 'update' | 'delete' | 'revert';
+    changes: Record<string, { from: unknown; to: unknown }>;
+    snapshot: Record<string, unknown>;
+    reverted_to_version?: number | null;
+    changed_by?: string | null;
+    changedBy?: Pick<User, 'user_id' | 'first_name' | 'last_name'> | null;
+    created_at: string;
+}
+
+export interface EntityHistory {
+    versions: EntityVersion[];
+    metadata: {
+        totalCount: number;
+        totalPages: number;
+        currentPage: number;
+        pageSize: number;
+    };
+}
+
+// Edit history API service
+export const historyApi = {
+    getHistory: async (
+        entityType: VersionedEntityType,
+        entityId: string,
+        params: { page?: number; pageSize?: number } = {}
+    ): Promise<EntityHistory> => {
+        const response = await apiClient.get(`history/${entityType}/${entityId}`, { searchParams: params });
+        return response.json();
+    },
+
+    revertToVersion: async (entityType: VersionedEntityType, entityId: string, versionNumber: number): Promise<{ message: string }> => {
+        const response = await apiClient.post(`history/${entityType}/${entityId}/versions/${versionNumber}/revert`);
+        return response.json();
+    }
+};
+
+export type PlaceType = 'country' | 'state' | 'county' | 'city';
+
+export interface PlaceName {
+    place_name_id: string;
+    place_id: string;
+    name: string;
+    parent_id?: string | null;
+    start_date?: string | null;
+    start_date_detail?: GenealogicalDate | null;
+    end_date?: string | null;
+    end_date_detail?: GenealogicalDate | null;
+    notes?: string | null;
+    parent?: Pick<Place, 'place_id' | 'name' | 'full_name'> | null;
+}
+
+export type NewPlaceName = Omit<PlaceName, 'place_name_id' | 'place_id' | 'parent'>;
+
+export interface Place {
+    place_id: string;
+    name: string;
+    place_type: PlaceType;
+    parent_id?: string | null;
+    full_name: string;
+    code?: string | null;
+    latitude?: number | string | null;
+    longitude?: number | string | null;
+    gazetteer_id?: string | null;
+    notes?: string | null;
+    names?: PlaceName[];
+    children?: Place[];
+    name_at_date?: string;
+}
+
+// One level of a place, largest first, for finding or creating it with resolvePlace
+export interface PlaceLevel {
+    place_type: PlaceType;
+    name: string;
+    code?: string;
+}
+
+// Place hierarchy API service
+export const placesApi = {
+    searchPlaces: async (params: { q?: string; type?: PlaceType; parentId?: string; limit?: number } = {}): Promise<Place[]> => {
+        const response = await apiClient.get('places', { searchParams: params });
+        return response.json();
+    },
+
+    getPlaceById: async (placeId: string, date?: string): Promise<Place> => {
+        const response = await apiClient.get(`places/${placeId}`, { searchParams: date ? { date } : {} });
+        return response.json();
+    },
+
+    resolvePlace: async (levels: PlaceLevel[]): Promise<Place> => {
+        const response = await apiClient.post('places/resolve', { json: { levels } });
+        return response.json();
+    },
+
+    createPlace: async (placeData: Partial<Place>): Promise<{ message: string; place: Place }> => {
+        const response = await apiClient.post('places', { json: placeData });
+        return response.json();
+    },
+
+    updatePlace: async (placeId: string, placeData: Partial<Place>): Promise<{ message: string; place: Place }> => {
+        const response = await apiClient.put(`places/${placeId}`, { json: placeData });
+        return response.json();
+    },
+
+    deletePlace: async (placeId: string): Promise<{ message: string }> => {
+        const response = await apiClient.delete(`places/${placeId}`);
+        return response.json();
+    },
+
+    addPlaceName: async (placeId: string, nameData: NewPlaceName): Promise<{ message: string; name: PlaceName }> => {
+        const response = await apiClient.post(`places/${placeId}/names`, { json: nameData });
+        return response.json();
+    },
+
+    updatePlaceName: async (placeId: string, placeNameId: string, nameData: Partial<NewPlaceName>): Promise<{ message: string; name: PlaceName }> => {
+        const response = await apiClient.put(`places/${placeId}/names/${placeNameId}`, { json: nameData });
+        return response.json();
+    },
+
+    deletePlaceName: async (placeId: string, placeNameId: string): Promise<{ message: string }> => {
+        const response = await apiClient.delete(`places/${placeId}/names/${placeNameId}`);
+        return response.json();
+    }
+};
+
+// Notes are the research log entries of projects
+export type SearchEntityType = 'person' | 'event' | 'document' | 'note';
+
+export interface SearchResult {
+    entity_type: SearchEntityType;
+    entity_id: string;
+    title: string;
+    date: string | null;
+    project_ids: string[];
+    // The matching text, in parts, with the matched words marked
+    snippet: Array<{ text: string; match: boolean }>;
+    rank: number;
+}
+
+export interface SearchResponse {
+    results: SearchResult[];
+    facets: {
+        entity_types: Array<{ entity_type: SearchEntityType; count: number }>;
+        projects: Array<{ project_id: string; title: string; count: number }>;
+    };
+    metadata: {
+        totalCount: number;
+        totalPages: number;
+        currentPage: number;
+        pageSize: number;
+    };
+}
+
+// Full-text search API service
+export const searchApi = {
+    search: async (params: {
+        q: string;
+        types?: SearchEntityType[];
+        projectId?: string;
+        page?: number;
+        pageSize?: number;
+    }): Promise<SearchResponse> => {
+        const { types, ...rest } = params;
+        const searchParams = types && types.length > 0 ? { ...rest, types: types.join(',') } : rest;
+        const response = await apiClient.get('search', { searchParams });
+        return response.json();
+    }
+};
+
+// Outcome of a search; null while it is under way
+export type ResearchResult = 'positive' | 'negative' | 'inconclusive';
+export type ResearchTaskPriority = 'low' | 'medium' | 'high';
+export type ResearchTaskStatus = 'open' | 'in_progress' | 'done';
+
+export interface ResearchLogEntry {
+    entry_id: string;
+    project_id: string;
+    title: string;
+    objective?: string | null;
+    repositories_searched: string[];
+    result?: ResearchResult | null;
+    findings?: string | null;
+    searched_on?: string | null;
+    created_by?: string | null;
+    created_at: string;
+    updated_at: string;
+    persons?: Array<Pick<Person, 'person_id' | 'first_name' | 'last_name'>>;
+    documents?: Array<Pick<Document, 'document_id' | 'title' | 'document_type'>>;
+    author?: Pick<User, 'user_id' | 'first_name' | 'last_name'> | null;
+}
+
+export interface NewResearchLogEntry {
+    project_id: string;
+    title: string;
+    objective?: string | null;
+    repositories_searched?: string[];
+    result?: ResearchResult | null;
+    findings?: string | null;
+    searched_on?: string | null;
+    person_ids?: string[];
+    document_ids?: string[];
+}
+
+export interface ResearchTask {
+    task_id: string;
+    project_id: string;
+    entry_id?: string | null;
+    title: string;
+    notes?: string | null;
+    assignee_id?: string | null;
+    due_date?: string | null;
+    priority: ResearchTaskPriority;
+    status: ResearchTaskStatus;
+    completed_at?: string | null;
+    created_at: string;
+    updated_at: string;
+    assignee?: Pick<User, 'user_id' | 'first_name' | 'last_name'> | null;
+}
+
+export interface NewResearchTask {
+    project_id: string;
+    title: string;
+    entry_id?: string | null;
+    notes?: string | null;
+    assignee_id?: string | null;
+    due_date?: string | null;
+    priority?: ResearchTaskPriority;
+    status?: ResearchTaskStatus;
+}
+
+// Research log API service
+export const researchApi = {
+    getProjectResearchLog: async (projectId: string): Promise<{ entries: ResearchLogEntry[]; tasks: ResearchTask[] }> => {
+        const response = await apiClient.get(`projects/${projectId}/research-log`);
+        return response.json();
+    },
+
+    createEntry: async (entryData: NewResearchLogEntry): Promise<{ message: string; entry: ResearchLogEntry }> => {
+        const response = await apiClient.post('research/entries', { json: entryData });
+        return response.json();
+    },
+
+    updateEntry: async (entryId: string, entryData: Partial<Omit<NewResearchLogEntry, 'project_id'>>): Promise<{ message: string; entry: ResearchLogEntry }> => {
+        const response = await apiClient.put(`research/entries/${entryId}`, { json: entryData });
+        return response.json();
+    },
+
+    deleteEntry: async (entryId: string): Promise<{ message: string }> => {
+        const response = await apiClient.delete(`research/entries/${entryId}`);
+        return response.json();
+    },
+
+    createTask: async (taskData: NewResearchTask): Promise<{ message: string; task: ResearchTask }> => {
+        const response = await apiClient.post('research/tasks', { json: taskData });
+        return response.json();
+    },
+
+    updateTask: async (taskId: string, taskData: Partial<Omit<NewResearchTask, 'project_id'>>): Promise<{ message: string; task: ResearchTask }> => {
+        const response = await apiClient.put(`research/tasks/${taskId}`, { json: taskData });
+        return response.json();
+    },
+
+    deleteTask: async (taskId: string): Promise<{ message: string }> => {
+        const response = await apiClient.delete(`research/tasks/${taskId}`);
+        return response.json();
+    }
+};
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+// A read-only link to a project for family members without an account
+export interface ShareLink {
+    share_link_id: string;
+    project_id: string;
+    label: string | null;
+    expires_at: string;
+    revoked_at: string | null;
+    access_count: number;
+    last_accessed_at: string | null;
+    has_password: boolean;
+    status: ShareLinkStatus;
+    documents: { document_id: string; title: string; document_type: string }[];
+    creator?: { user_id: string; first_name: string; last_name: string } | null;
+    created_at: string;
+}
+
+export interface NewShareLink {
+    label?: string;
+    expires_at: string;
+    password?: string;
+    document_ids?: string[];
+}
+
+// Person as seen through a share link; living persons only keep their place in the tree
+export interface SharedPerson extends Pick<Person, 'person_id' | 'first_name' | 'last_name' | 'middle_name' | 'birth_date' | 'birth_date_detail' | 'death_date' | 'death_date_detail'> {
+    gender?: string | null;
+    living: boolean;
+}
+
+// What visitors of a share link see
+export interface SharedProject {
+    link: { label: string | null; expires_at: string };
+    project: { id: string; title: string; description: string | null };
+    persons: SharedPerson[];
+    relationships: Pick<Relationship, 'relationship_id' | 'person1_id' | 'person2_id' | 'relationship_type' | 'relationship_qualifier' | 'start_date' | 'end_date'>[];
+    timeline: ProjectDetail['timeline'];
+    documents: {
+        id: string;
+        title: string;
+        type: string;
+        mime_type: string | null;
+        date_of_original: string | null;
+        persons: { person_id: string; first_name: string; last_name: string }[];
+    }[];
+}
+
+// Visitors of share links have no account, so their requests go without the login token and its refresh
+const publicClient = ky.create({
+    prefixUrl: API_URL,
+    retry: 0
+});
+
+const sharePasswordHeaders = (password?: string): Record<string, string> =>
+    password ? { 'X-Share-Password': password } : {};
+
+// Share link API service
+export const shareLinksApi = {
+    getProjectShareLinks: async (projectId: string): Promise<ShareLink[]> => {
+        const response = await apiClient.get(`projects/${projectId}/share-links`);
+        return response.json();
+    },
+
+    // The token and URL of a link are only returned when it is created
+    createShareLink: async (projectId: string, linkData: NewShareLink): Promise<{ message: string; link: ShareLink & { token: string; url: string } }> => {
+        const response = await apiClient.post(`projects/${projectId}/share-links`, { json: linkData });
+        return response.json();
+    },
+
+    revokeShareLink: async (projectId: string, shareLinkId: string): Promise<{ message: string; link: ShareLink }> => {
+        const response = await apiClient.delete(`projects/${projectId}/share-links/${shareLinkId}`);
+        return response.json();
+    },
+
+    // Open a shared project; a protected link answers 401 until its password is given
+    getSharedProject: async (token: string, password?: string): Promise<SharedProject> => {
+        const response = await publicClient.get(`shared/${token}`, { headers: sharePasswordHeaders(password) });
+        return response.json();
+    },
+
+    getSharedDocumentFile: async (token: string, documentId: string, password?: string): Promise<Blob> => {
+        const response = await publicClient.get(`shared/${token}/documents/${documentId}/file`, { headers: sharePasswordHeaders(password) });
+        return response.blob();
+    }
+};
+
+export interface ServicePackage {
+    package_id: string;
+    name: string;
+    description?: string | null;
+    features: string[];
+    price_cents: number;
+    currency: string;
+    research_hours?: number | null;
+}
+
+export interface Invoice {
+    invoice_id: string;
+    order_id: string;
+    invoice_number: string;
+    description: string;
+    amount_cents: number;
+    currency: string;
+    status: 'paid' | 'void';
+    issued_at: string;
+}
+
+export interface Order {
+    order_id: string;
+    user_id: string;
+    package_id: string;
+    project_id?: string | null;
+    project_title: string;
+    project_description?: string | null;
+    status: 'pending' | 'paid' | 'failed' | 'canceled';
+    amount_cents: number;
+    currency: string;
+    provider: 'stripe' | 'fake';
+    paid_at?: string | null;
+    created_at: string;
+    updated_at: string;
+    servicePackage?: Pick<ServicePackage, 'package_id' | 'name' | 'research_hours'>;
+    project?: Pick<Project, 'id' | 'title' | 'status'> | null;
+    invoice?: Invoice | null;
+}
+
+export const billingApi = {
+    getServicePackages: async (): Promise<{ packages: ServicePackage[] }> => {
+        const response = await apiClient.get('billing/packages');
+        return response.json();
+    },
+
+    checkout: async (data: {
+        package_id: string;
+        project_title?: string;
+        project_description?: string;
+    }): Promise<{ message: string; order: Order; checkoutUrl: string }> => {
+        const response = await apiClient.post('billing/checkout', { json: data });
+        return response.json();
+    },
+
+    getOrders: async (): Promise<{ orders: Order[] }> => {
+        const response = await apiClient.get('billing/orders');
+        return response.json();
+    },
+
+    getOrderById: async (orderId: string): Promise<Order> => {
+        const response = await apiClient.get(`billing/orders/${orderId}`);
+        return response.json();
+    },
+
+    // Only available for orders placed with the local test payment provider
+    completeTestPayment: async (orderId: string, outcome: 'succeeded' | 'failed' | 'canceled'): Promise<{ message: string; order: Order }> => {
+        const response = await apiClient.post(`billing/orders/${orderId}/test-payment`, { json: { outcome } });
+        return response.json();
+    }
+};
+
+export type ConsultationStatus = 'scheduled' | 'completed' | 'canceled';
+
+export interface ConsultationParticipant {
+    user_id: string;
+    first_name: string;
+    last_name: string;
+    email?: string;
+}
+
+export interface Consultation {
+    consultation_id: string;
+    project_id: string;
+    client_id: string;
+    researcher_id: string;
+    slot_id?: string | null;
+    starts_at: string;
+    ends_at: string;
+    status: ConsultationStatus;
+    topic: string;
+    notes?: string | null;
+    canceled_by?: string | null;
+    cancellation_reason?: string | null;
+    sequence: number;
+    created_at: string;
+    updated_at: string;
+    project?: Pick<Project, 'id' | 'title'>;
+    client?: ConsultationParticipant;
+    researcher?: ConsultationParticipant;
+}
+
+export interface AvailabilitySlot {
+    slot_id: string;
+    researcher_id: string;
+    starts_at: string;
+    ends_at: string;
+    researcher?: Omit<ConsultationParticipant, 'email'>;
+    // Only returned to managers: the scheduled consultation booked in the slot
+    consultation?: Consultation | null;
+}
+
+export const consultationsApi = {
+    getAvailableSlots: async (params: { researcher_id?: string; to?: string } = {}): Promise<{ slots: AvailabilitySlot[] }> => {
+        const response = await apiClient.get('consultations/slots/available', { searchParams: params });
+        return response.json();
+    },
+
+    // Managers: availability slots with their bookings
+    getSlots: async (params: { researcher_id?: string; from?: string; to?: string } = {}): Promise<{ slots: AvailabilitySlot[] }> => {
+        const response = await apiClient.get('consultations/slots', { searchParams: params });
+        return response.json();
+    },
+
+    createSlot: async (data: { starts_at: string; ends_at: string }): Promise<{ message: string; slot: AvailabilitySlot }> => {
+        const response = await apiClient.post('consultations/slots', { json: data });
+        return response.json();
+    },
+
+    deleteSlot: async (slotId: string): Promise<{ message: string }> => {
+        const response = await apiClient.delete(`consultations/slots/${slotId}`);
+        return response.json();
+    },
+
+    getConsultations: async (params: {
+        status?: ConsultationStatus;
+        researcher_id?: string;
+        project_id?: string;
+        from?: string;
+        to?: string;
+    } = {}): Promise<{ consultations: Consultation[] }> => {
+        const response = await apiClient.get('consultations', { searchParams: params });
+        return response.json();
+    },
+
+    bookConsultation: async (data: {
+        slot_id: string;
+        project_id: string;
+        topic: string;
+        notes?: string;
+    }): Promise<{ message: string; consultation: Consultation }> => {
+        const response = await apiClient.post('consultations', { json: data });
+        return response.json();
+    },
+
+    rescheduleConsultation: async (consultationId: string, slotId: string): Promise<{ message: string; consultation: Consultation }> => {
+        const response = await apiClient.put(`consultations/${consultationId}/reschedule`, { json: { slot_id: slotId } });
+        return response.json();
+    },
+
+    cancelConsultation: async (consultationId: string, reason?: string): Promise<{ message: string; consultation: Consultation }> => {
+        const response = await apiClient.put(`consultations/${consultationId}/cancel`, { json: { reason } });
+        return response.json();
+    },
+
+    completeConsultation: async (consultationId: string): Promise<{ message: string; consultation: Consultation }> => {
+        const response = await apiClient.put(`consultations/${consultationId}/complete`);
+        return response.json();
+    },
+
+    downloadCalendar: async (consultationId: string): Promise<{ blob: Blob; fileName: string }> => {
+        const response = await apiClient.get(`consultations/${consultationId}/calendar.ics`);
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const match = /filename="([^"]+)"/.exec(disposition);
+        return {
+            blob: await response.blob(),
+            fileName: match ? match[1] : 'consultation.ics'
+        };
+    },
+
+    getCalendarFeedUrl: async (): Promise<{ url: string }> => {
+        const response = await apiClient.get('consultations/calendar-feed');
+        return response.json();
+    }
+};
+
 export const managerApi = {
     // Dashboard
     getDashboardSummary: async (): Promise<ManagerDashboardSummary> => {
@@ -0,0 +1,23 @@
+import { UserEventListParams, VersionedEntityType } from './client';
+
+// React Query cache keys. Keys are nested so that invalidating a prefix,
+// e.g. queryKeys.userEvents.all, refreshes every query below it.
+export const queryKeys = {
+    projects: {
+        all: ['projects'] as const,
+        detail: (projectId: string) => ['projects', projectId] as const
+    },
+    persons: {
+        all: ['persons'] as const,
+        detail: (personId: string) => ['persons', personId] as const
+    },
+    userEvents: {
+        all: ['userEvents'] as const,
+        list: (params: UserEventListParams) => ['userEvents', 'list', params] as const,
+        unreadCount: ['userEvents', 'unreadCount'] as const
+    },
+    history: {
+        entity: (entityType: string, entityId: string) => ['history', entityType, entityId] as const,
+        page: (entityType: VersionedEntityType, entityId: string, page: number) => ['history', entityType, entityId, page] as const
+    }
+};
@@ -0,0 +1,114 @@
+import { Link } from '@tanstack/react-router';
+import React, { useEffect, useState } from 'react';
+import { Order, billingApi } from '../../api/client';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { formatDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import { formatCurrency, formatStatus } from '../../utils/formatUtils';
+
+const ORDER_STATUS_CLASSES: Record<Order['status'], string> = {
+    paid: 'bg-green-100 text-green-800',
+    pending: 'bg-yellow-100 text-yellow-800',
+    failed: 'bg-red-100 text-red-800',
+    canceled: 'bg-gray-100 text-gray-800'
+};
+
+/**
+ * The current user's orders and invoices, shown in account settings
+ */
+const BillingHistory: React.FC = () => {
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchOrders = async () => {
+            try {
+                const response = await billingApi.getOrders();
+                setOrders(response.orders);
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error fetching billing history:', errorMessage);
+                setError(errorMessage);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchOrders();
+    }, []);
+
+    if (isLoading) {
+        return <LoadingSpinner containerClassName="h-24" />;
+    }
+
+    if (error) {
+        return <ErrorAlert message={error} />;
+    }
+
+    if (orders.length === 0) {
+        return (
+            <div className="text-center">
+                <EmptyState message="You have not purchased any research packages yet." className="py-4" />
+                <Link to="/checkout" className="btn-primary">Browse Research Packages</Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead>
+                    <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Date</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Package</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Project</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Amount</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Invoice</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {orders.map(order => (
+                        <tr key={order.order_id}>
+                            <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                                {formatDate(order.paid_at || order.created_at)}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-900 dark:text-white">
+                                {order.servicePackage?.name || 'Research services'}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                                {order.project && order.status === 'paid' ? (
+                                    <Link
+                                        to="/projects/$projectId"
+                                        params={{ projectId: order.project.id }}
+                                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                                    >
+                                        {order.project.title}
+                                    </Link>
+                                ) : (
+                                    <span className="text-gray-500 dark:text-gray-400">{order.project?.title || order.project_title}</span>
+                                )}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right text-gray-900 dark:text-white whitespace-nowrap">
+                                {formatCurrency(order.amount_cents, order.currency)}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                                <span className={`px-2 py-1 text-xs font-medium rounded-full ${ORDER_STATUS_CLASSES[order.status]}`}>
+                                    {formatStatus(order.status)}
+                                </span>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                                {order.invoice ? order.invoice.invoice_number : '—'}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default BillingHistory;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { formatGenealogicalDate, parseGenealogicalDate } from '../../utils/dateUtils';
+
+interface GenealogicalDateInputProps {
+    id?: string;
+    name: string;
+    value: string;
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    required?: boolean;
+    disabled?: boolean;
+    className?: string;
+}
+
+/**
+ * Text input for genealogical dates: exact days (1850-03-12, 12 MAR 1850), partial dates (MAR 1850, 1850)
+ * and qualified dates (ABT 1850, BEF 1901, AFT 1850, BET 1850 AND 1855), with a hint showing how the text was read
+ */
+const GenealogicalDateInput: React.FC<GenealogicalDateInputProps> = ({
+    id,
+    name,
+    value,
+    onChange,
+    required,
+    disabled,
+    className = 'form-input w-full dark:bg-gray-700 dark:text-white'
+}) => {
+    const parsed = value.trim() ? parseGenealogicalDate(value) : null;
+
+    return (
+        <div>
+            <input
+                type="text"
+                id={id}
+                name={name}
+                className={className}
+                value={value}
+                onChange={onChange}
+                required={required}
+                disabled={disabled}
+                placeholder="e.g. 1850-03-12, MAR 1850, ABT 1850"
+                autoComplete="off"
+            />
+            {value.trim() && (
+                <p className={`mt-1 text-xs ${parsed ? 'text-gray-500 dark:text-gray-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {parsed
+                        ? `Read as ${formatGenealogicalDate(parsed.sort_key, parsed)}`
+                        : 'Not a recognised date. Try 1850-03-12, 12 MAR 1850, ABT 1850, BEF 1901 or BET 1850 AND 1855.'}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default GenealogicalDateInput;
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { Place, PlaceLevel, placesApi } from '../../api/client';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import { COUNTRIES, STATES_BY_COUNTRY } from '../../utils/locationData';
+
+interface PlacePickerProps {
+    id?: string;
+    name: string;
+    value: string;
+    placeId?: string | null;
+    onChange: (location: string, placeId: string | null) => void;
+    required?: boolean;
+    disabled?: boolean;
+    className?: string;
+    placeholder?: string;
+}
+
+const EMPTY_LEVELS = { country: '', state: '', county: '', city: '' };
+
+/**
+ * Location input that links the text to a place in the place index, either by picking one of the places
+ * matching what was typed or by choosing its country and state and naming its county and city.
+ * Text that matches no place is kept as typed, unlinked.
+ */
+const PlacePicker: React.FC<PlacePickerProps> = ({
+    id,
+    name,
+    value,
+    placeId,
+    onChange,
+    required,
+    disabled,
+    className = 'form-input w-full dark:bg-gray-700 dark:text-white',
+    placeholder = 'e.g. Boston, Massachusetts, United States'
+}) => {
+    const [isTyping, setIsTyping] = useState(false);
+    const [suggestions, setSuggestions] = useState<Place[]>([]);
+    const [searching, setSearching] = useState(false);
+    const [showLevels, setShowLevels] = useState(false);
+    const [levels, setLevels] = useState(EMPTY_LEVELS);
+    const [resolving, setResolving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isTyping || value.trim().length < 2) {
+            setSuggestions([]);
+            return;
+        }
+
+        const searchPlaces = async () => {
+            setSearching(true);
+            try {
+                setSuggestions(await placesApi.searchPlaces({ q: value.trim(), limit: 8 }));
+            } catch (err) {
+                console.error('Error searching places:', err);
+                setSuggestions([]);
+            } finally {
+                setSearching(false);
+            }
+        };
+
+        const timeoutId = setTimeout(searchPlaces, 300);
+        return () => clearTimeout(timeoutId);
+    }, [value, isTyping]);
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setIsTyping(true);
+        onChange(e.target.value, null);
+    };
+
+    const selectPlace = (place: Place) => {
+        setIsTyping(false);
+        setSuggestions([]);
+        onChange(place.full_name, place.place_id);
+    };
+
+    const handleLevelChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name: level, value: levelValue } = e.target;
+        setLevels(prev => ({
+            ...prev,
+            [level]: levelValue,
+            // A state only makes sense within the country it was picked for
+            ...(level === 'country' ? { state: '' } : {})
+        }));
+    };
+
+    const states = STATES_BY_COUNTRY[levels.country] || [];
+
+    const resolveLevels = async () => {
+        const country = COUNTRIES.find(c => c.code === levels.country);
+        if (!country) {
+            setError('Choose a country');
+            return;
+        }
+
+        const state = states.find(s => s.code === levels.state);
+        const placeLevels: PlaceLevel[] = [{ place_type: 'country', name: country.name, code: country.code }];
+        if (state) {
+            placeLevels.push({ place_type: 'state', name: state.name, code: state.code });
+        } else if (levels.state.trim()) {
+            placeLevels.push({ place_type: 'state', name: levels.state.trim() });
+        }
+        if (levels.county.trim()) placeLevels.push({ place_type: 'county', name: levels.county.trim() });
+        if (levels.city.trim()) placeLevels.push({ place_type: 'city', name: levels.city.trim() });
+
+        setResolving(true);
+        setError(null);
+        try {
+            const place = await placesApi.resolvePlace(placeLevels);
+            selectPlace(place);
+            setShowLevels(false);
+            setLevels(EMPTY_LEVELS);
+        } catch (err: unknown) {
+            setError(await getApiErrorMessage(err));
+        } finally {
+            setResolving(false);
+        }
+    };
+
+    return (
+        <div>
+            <div className="relative">
+                <input
+                    type="text"
+                    id={id}
+                    name={name}
+                    className={className}
+                    value={value}
+                    onChange={handleInputChange}
+                    onBlur={() => setIsTyping(false)}
+                    required={required}
+                    disabled={disabled}
+                    placeholder={placeholder}
+                    autoComplete="off"
+                />
+                {searching && (
+                    <div className="absolute right-3 top-3">
+                        <div className="animate-spin h-4 w-4 border-2 border-primary-500 rounded-full border-t-transparent"></div>
+                    </div>
+                )}
+                {suggestions.length > 0 && (
+                    <ul className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg max-h-60 overflow-y-auto">
+                        {suggestions.map(place => (
+                            <li
+                                key={place.place_id}
+                                className="px-3 py-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700"
+                                // Keep the input focused until the click has picked the place
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={() => selectPlace(place)}
+                            >
+                                <span className="text-sm text-gray-900 dark:text-white">{place.full_name}</span>
+                                <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 capitalize">{place.place_type}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="mt-1 flex items-center justify-between text-xs">
+                <span className="text-gray-500 dark:text-gray-400">
+                    {placeId ? 'Linked to the place index' : value.trim() ? 'Not linked to a place' : ''}
+                </span>
+                {!disabled && (
+                    <button
+                        type="button"
+                        className="text-primary-600 hover:text-primary-800 dark:text-primary-400"
+                        onClick={() => setShowLevels(prev => !prev)}
+                    >
+                        {showLevels ? 'Hide place levels' : 'Choose by country and state'}
+                    </button>
+                )}
+            </div>
+
+            {showLevels && (
+                <div className="mt-2 p-3 border border-gray-200 dark:border-gray-600 rounded-md grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <select
+                        name="country"
+                        aria-label="Country"
+                        className="form-select w-full dark:bg-gray-700 dark:text-white"
+                        value={levels.country}
+                        onChange={handleLevelChange}
+                    >
+                        <option value="">Country</option>
+                        {COUNTRIES.map(country => (
+                            <option key={country.code} value={country.code}>{country.name}</option>
+                        ))}
+                    </select>
+                    {states.length > 0 ? (
+                        <select
+                            name="state"
+                            aria-label="State or province"
+                            className="form-select w-full dark:bg-gray-700 dark:text-white"
+                            value={levels.state}
+                            onChange={handleLevelChange}
+                        >
+                            <option value="">State / Province</option>
+                            {states.map(state => (
+                                <option key={state.code} value={state.code}>{state.name}</option>
+                            ))}
+                        </select>
+                    ) : (
+                        <input
+                            type="text"
+                            name="state"
+                            aria-label="State or province"
+                            className="form-input w-full dark:bg-gray-700 dark:text-white"
+                            value={levels.state}
+                            onChange={handleLevelChange}
+                            placeholder="State / Province"
+                        />
+                    )}
+                    <input
+                        type="text"
+                        name="county"
+                        aria-label="County"
+                        className="form-input w-full dark:bg-gray-700 dark:text-white"
+                        value={levels.county}
+                        onChange={handleLevelChange}
+                        placeholder="County"
+                    />
+                    <input
+                        type="text"
+                        name="city"
+                        aria-label="City or town"
+                        className="form-input w-full dark:bg-gray-700 dark:text-white"
+                        value={levels.city}
+                        onChange={handleLevelChange}
+                        placeholder="City / Town"
+                    />
+                    <div className="sm:col-span-2 flex items-center justify-between">
+                        <span className="text-xs text-red-600 dark:text-red-400">{error}</span>
+                        <button
+                            type="button"
+                            className="btn-secondary text-sm"
+                            onClick={resolveLevels}
+                            disabled={resolving || !levels.country}
+                        >
+                            {resolving ? 'Finding place...' : 'Use this place'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PlacePicker;
@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { AvailabilitySlot, Consultation, Project, consultationsApi } from '../../api/client';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import BaseModal from '../common/BaseModal';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+import SlotPicker from './SlotPicker';
+
+interface BookConsultationModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    projects: Project[];
+    onBooked: (consultation: Consultation) => void;
+}
+
+/**
+ * Book a consultation session with a researcher about one of the client's projects
+ */
+const BookConsultationModal: React.FC<BookConsultationModalProps> = ({
+    isOpen,
+    onClose,
+    projects,
+    onBooked
+}) => {
+    const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+    const [projectId, setProjectId] = useState('');
+    const [slotId, setSlotId] = useState('');
+    const [topic, setTopic] = useState('');
+    const [notes, setNotes] = useState('');
+
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Load the free slots each time the modal opens, so recently booked times are gone
+    useEffect(() => {
+        if (!isOpen) {
+            setSlotId('');
+            setTopic('');
+            setNotes('');
+            setError(null);
+            return;
+        }
+
+        setProjectId(prev => prev || (projects.length > 0 ? projects[0].id : ''));
+
+        const fetchSlots = async () => {
+            setIsLoading(true);
+            try {
+                const response = await consultationsApi.getAvailableSlots();
+                setSlots(response.slots);
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error fetching available slots:', errorMessage);
+                setError(errorMessage);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchSlots();
+    }, [isOpen, projects]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!projectId) {
+            setError('Choose the project you would like to discuss');
+            return;
+        }
+
+        if (!slotId) {
+            setError('Choose a time for the consultation');
+            return;
+        }
+
+        if (!topic.trim()) {
+            setError('Topic is required');
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const { consultation } = await consultationsApi.bookConsultation({
+                slot_id: slotId,
+                project_id: projectId,
+                topic: topic.trim(),
+                ...(notes.trim() ? { notes: notes.trim() } : {})
+            });
+
+            onBooked(consultation);
+            onClose();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error booking consultation:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <BaseModal isOpen={isOpen} onClose={onClose} title="Book a Consultation" size="2xl">
+            {isLoading ? (
+                <LoadingSpinner containerClassName="h-48" size="lg" />
+            ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {error && <ErrorAlert message={error} />}
+
+                    <div>
+                        <label htmlFor="consultation-project" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Project *
+                        </label>
+                        <select
+                            id="consultation-project"
+                            className="form-select w-full dark:bg-gray-700 dark:text-white"
+                            value={projectId}
+                            onChange={(e) => setProjectId(e.target.value)}
+                        >
+                            {projects.map(project => (
+                                <option key={project.id} value={project.id}>{project.title}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Time *</span>
+                        <SlotPicker slots={slots} selectedSlotId={slotId} onSelect={setSlotId} />
+                    </div>
+
+                    <div>
+                        <label htmlFor="consultation-topic" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Topic *
+                        </label>
+                        <input
+                            id="consultation-topic"
+                            type="text"
+                            className="form-input w-full dark:bg-gray-700 dark:text-white"
+                            value={topic}
+                            onChange={(e) => setTopic(e.target.value)}
+                            maxLength={255}
+                            placeholder="e.g. Where to look next for my great-grandfather's arrival"
+                        />
+                    </div>
+
+                    <div>
+                        <label htmlFor="consultation-notes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Notes for the researcher
+                        </label>
+                        <textarea
+                            id="consultation-notes"
+                            className="form-textarea w-full dark:bg-gray-700 dark:text-white"
+                            rows={3}
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            placeholder="Questions you would like answered or documents you will bring"
+                        />
+                    </div>
+
+                    <div className="flex justify-end space-x-2">
+                        <button type="button" className="btn-secondary" onClick={onClose}>
+                            Cancel
+                        </button>
+                        <button type="submit" className="btn-primary" disabled={isSubmitting || slots.length === 0}>
+                            {isSubmitting ? 'Booking...' : 'Book Consultation'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </BaseModal>
+    );
+};
+
+export default BookConsultationModal;
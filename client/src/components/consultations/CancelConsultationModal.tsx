@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Consultation, consultationsApi } from '../../api/client';
+import { formatSessionRange } from '../../utils/consultationUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import BaseModal from '../common/BaseModal';
+import ErrorAlert from '../common/ErrorAlert';
+
+interface CancelConsultationModalProps {
+    consultation: Consultation | null;
+    onClose: () => void;
+    onCanceled: (consultation: Consultation) => void;
+}
+
+/**
+ * Confirm canceling a consultation, with an optional reason shared with the other participant
+ */
+const CancelConsultationModal: React.FC<CancelConsultationModalProps> = ({
+    consultation,
+    onClose,
+    onCanceled
+}) => {
+    const [reason, setReason] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setReason('');
+        setError(null);
+    }, [consultation]);
+
+    const handleConfirm = async () => {
+        if (!consultation) return;
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const response = await consultationsApi.cancelConsultation(
+                consultation.consultation_id,
+                reason.trim() || undefined
+            );
+            onCanceled(response.consultation);
+            onClose();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error canceling consultation:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <BaseModal isOpen={consultation !== null} onClose={onClose} title="Cancel Consultation">
+            <div className="space-y-4">
+                {error && <ErrorAlert message={error} />}
+
+                {consultation && (
+                    <p className="text-gray-600 dark:text-gray-300">
+                        Cancel "{consultation.topic}" on {formatSessionRange(consultation.starts_at, consultation.ends_at)}?
+                    </p>
+                )}
+
+                <div>
+                    <label htmlFor="cancellation-reason" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Reason (optional)
+                    </label>
+                    <textarea
+                        id="cancellation-reason"
+                        className="form-textarea w-full dark:bg-gray-700 dark:text-white"
+                        rows={3}
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        maxLength={1000}
+                    />
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                    <button type="button" className="btn-secondary" onClick={onClose}>
+                        Keep Consultation
+                    </button>
+                    <button
+                        type="button"
+                        className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                        onClick={handleConfirm}
+                        disabled={isSubmitting}
+                    >
+                        {isSubmitting ? 'Canceling...' : 'Cancel Consultation'}
+                    </button>
+                </div>
+            </div>
+        </BaseModal>
+    );
+};
+
+export default CancelConsultationModal;
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Consultation, Project, consultationsApi } from '../../api/client';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+import SuccessAlert from '../common/SuccessAlert';
+import BookConsultationModal from './BookConsultationModal';
+import ConsultationList from './ConsultationList';
+
+interface ClientConsultationsProps {
+    projects: Project[];
+}
+
+/**
+ * Dashboard section where clients book and manage their consultations with a researcher
+ */
+const ClientConsultations: React.FC<ClientConsultationsProps> = ({ projects }) => {
+    const [consultations, setConsultations] = useState<Consultation[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+    const [isBookModalOpen, setIsBookModalOpen] = useState(false);
+    const [feedUrl, setFeedUrl] = useState<string | null>(null);
+
+    const fetchConsultations = async () => {
+        try {
+            const response = await consultationsApi.getConsultations({ status: 'scheduled' });
+            setConsultations(response.consultations);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error fetching consultations:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchConsultations();
+    }, []);
+
+    const showSuccess = (message: string) => {
+        setSuccessMessage(message);
+        setTimeout(() => {
+            setSuccessMessage(null);
+        }, 3000);
+    };
+
+    const handleBooked = () => {
+        showSuccess('Consultation booked. A confirmation has been added to your notifications.');
+        fetchConsultations();
+    };
+
+    const handleUpdated = (updated: Consultation) => {
+        showSuccess(updated.status === 'canceled' ? 'Consultation canceled' : 'Consultation updated');
+        fetchConsultations();
+    };
+
+    const handleShowFeedUrl = async () => {
+        try {
+            const response = await consultationsApi.getCalendarFeedUrl();
+            setFeedUrl(response.url);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error fetching calendar feed URL:', errorMessage);
+            setError(errorMessage);
+        }
+    };
+
+    return (
+        <div className="card bg-white dark:bg-gray-800 shadow-sm rounded-lg p-6">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-medium text-gray-900 dark:text-white">Consultations</h2>
+                <div className="flex items-center gap-4">
+                    <button
+                        type="button"
+                        className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                        onClick={handleShowFeedUrl}
+                    >
+                        Subscribe in calendar
+                    </button>
+                    {projects.length > 0 && (
+                        <button type="button" className="btn-primary" onClick={() => setIsBookModalOpen(true)}>
+                            Book Consultation
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {successMessage && <SuccessAlert message={successMessage} />}
+            {error && <ErrorAlert message={error} />}
+
+            {feedUrl && (
+                <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded-md">
+                    <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+                        Add this address to your calendar app as a subscription to keep your consultations in sync:
+                    </p>
+                    <input
+                        type="text"
+                        readOnly
+                        value={feedUrl}
+                        onFocus={(e) => e.target.select()}
+                        className="form-input w-full text-sm dark:bg-gray-800 dark:text-white"
+                    />
+                </div>
+            )}
+
+            {isLoading ? (
+                <LoadingSpinner containerClassName="h-24" />
+            ) : (
+                <ConsultationList
+                    consultations={consultations}
+                    onUpdated={handleUpdated}
+                    emptyMessage={projects.length > 0
+                        ? 'No upcoming consultations. Book one to talk through your research with a researcher.'
+                        : 'Consultations can be booked once you have a research project.'}
+                />
+            )}
+
+            <BookConsultationModal
+                isOpen={isBookModalOpen}
+                onClose={() => setIsBookModalOpen(false)}
+                projects={projects}
+                onBooked={handleBooked}
+            />
+        </div>
+    );
+};
+
+export default ClientConsultations;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Consultation, consultationsApi } from '../../api/client';
+import { CONSULTATION_STATUS_CLASSES, downloadConsultationCalendar, formatSessionRange } from '../../utils/consultationUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import { formatStatus } from '../../utils/formatUtils';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import CancelConsultationModal from './CancelConsultationModal';
+import RescheduleConsultationModal from './RescheduleConsultationModal';
+
+interface ConsultationListProps {
+    consultations: Consultation[];
+    onUpdated: (consultation: Consultation) => void;
+    // Researchers see who booked each session and can mark it completed
+    isResearcher?: boolean;
+    emptyMessage?: string;
+}
+
+/**
+ * Consultations with their calendar download, reschedule, cancel and complete actions
+ */
+const ConsultationList: React.FC<ConsultationListProps> = ({
+    consultations,
+    onUpdated,
+    isResearcher = false,
+    emptyMessage = 'No upcoming consultations.'
+}) => {
+    const [rescheduling, setRescheduling] = useState<Consultation | null>(null);
+    const [canceling, setCanceling] = useState<Consultation | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleDownload = async (consultation: Consultation) => {
+        setBusyId(consultation.consultation_id);
+        setError(null);
+        try {
+            await downloadConsultationCalendar(consultation.consultation_id);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error downloading calendar file:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleComplete = async (consultation: Consultation) => {
+        setBusyId(consultation.consultation_id);
+        setError(null);
+        try {
+            const response = await consultationsApi.completeConsultation(consultation.consultation_id);
+            onUpdated(response.consultation);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error completing consultation:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (consultations.length === 0) {
+        return <EmptyState message={emptyMessage} />;
+    }
+
+    return (
+        <div className="space-y-4">
+            {error && <ErrorAlert message={error} />}
+
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {consultations.map(consultation => {
+                    const isScheduled = consultation.status === 'scheduled';
+                    const hasStarted = new Date(consultation.starts_at) <= new Date();
+                    const participant = isResearcher ? consultation.client : consultation.researcher;
+                    const isBusy = busyId === consultation.consultation_id;
+
+                    return (
+                        <li key={consultation.consultation_id} className="py-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium text-gray-900 dark:text-white">{consultation.topic}</span>
+                                    <span className={`px-2 py-0.5 text-xs rounded-full ${CONSULTATION_STATUS_CLASSES[consultation.status]}`}>
+                                        {formatStatus(consultation.status)}
+                                    </span>
+                                </div>
+                                <p className="text-sm text-gray-600 dark:text-gray-300">
+                                    {formatSessionRange(consultation.starts_at, consultation.ends_at)}
+                                </p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {consultation.project?.title}
+                                    {participant && ` · ${isResearcher ? 'Client' : 'Researcher'}: ${participant.first_name} ${participant.last_name}`}
+                                </p>
+                                {consultation.status === 'canceled' && consultation.cancellation_reason && (
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                        Reason: {consultation.cancellation_reason}
+                                    </p>
+                                )}
+                            </div>
+
+                            <div className="flex flex-wrap gap-2">
+                                {isScheduled && (
+                                    <button
+                                        type="button"
+                                        className="btn-secondary text-sm"
+                                        onClick={() => handleDownload(consultation)}
+                                        disabled={isBusy}
+                                    >
+                                        Add to Calendar
+                                    </button>
+                                )}
+                                {isScheduled && !hasStarted && (
+                                    <button type="button" className="btn-secondary text-sm" onClick={() => setRescheduling(consultation)}>
+                                        Reschedule
+                                    </button>
+                                )}
+                                {isScheduled && (
+                                    <button
+                                        type="button"
+                                        className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300 px-2"
+                                        onClick={() => setCanceling(consultation)}
+                                    >
+                                        Cancel
+                                    </button>
+                                )}
+                                {isResearcher && isScheduled && hasStarted && (
+                                    <button
+                                        type="button"
+                                        className="btn-primary text-sm"
+                                        onClick={() => handleComplete(consultation)}
+                                        disabled={isBusy}
+                                    >
+                                        Mark Completed
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <RescheduleConsultationModal
+                consultation={rescheduling}
+                onClose={() => setRescheduling(null)}
+                onRescheduled={onUpdated}
+            />
+            <CancelConsultationModal
+                consultation={canceling}
+                onClose={() => setCanceling(null)}
+                onCanceled={onUpdated}
+            />
+        </div>
+    );
+};
+
+export default ConsultationList;
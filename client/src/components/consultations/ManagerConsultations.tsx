@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { AvailabilitySlot, Consultation, consultationsApi } from '../../api/client';
+import { getUser } from '../../utils/auth';
+import { formatSessionRange } from '../../utils/consultationUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+import SuccessAlert from '../common/SuccessAlert';
+import ConsultationList from './ConsultationList';
+
+const DURATION_OPTIONS = [30, 45, 60, 90, 120];
+
+/**
+ * Researcher view of consultations: publish availability and run booked sessions
+ */
+const ManagerConsultations: React.FC = () => {
+    const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+    const [consultations, setConsultations] = useState<Consultation[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    const [date, setDate] = useState('');
+    const [time, setTime] = useState('');
+    const [duration, setDuration] = useState(60);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const fetchData = async () => {
+        const user = getUser();
+
+        try {
+            const [slotsResponse, consultationsResponse] = await Promise.all([
+                consultationsApi.getSlots(user ? { researcher_id: user.user_id } : {}),
+                consultationsApi.getConsultations({ status: 'scheduled' })
+            ]);
+            setSlots(slotsResponse.slots);
+            setConsultations(consultationsResponse.consultations);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error fetching consultations:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchData();
+    }, []);
+
+    const showSuccess = (message: string) => {
+        setSuccessMessage(message);
+        setTimeout(() => {
+            setSuccessMessage(null);
+        }, 3000);
+    };
+
+    const handleAddSlot = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!date || !time) {
+            setError('Choose a date and start time');
+            return;
+        }
+
+        // The inputs are in the researcher's local time; the API stores UTC instants
+        const startsAt = new Date(`${date}T${time}`);
+        const endsAt = new Date(startsAt.getTime() + duration * 60000);
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            await consultationsApi.createSlot({
+                starts_at: startsAt.toISOString(),
+                ends_at: endsAt.toISOString()
+            });
+            setTime('');
+            showSuccess('Availability added');
+            fetchData();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error creating availability slot:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDeleteSlot = async (slotId: string) => {
+        setError(null);
+        try {
+            await consultationsApi.deleteSlot(slotId);
+            setSlots(prev => prev.filter(slot => slot.slot_id !== slotId));
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error deleting availability slot:', errorMessage);
+            setError(errorMessage);
+        }
+    };
+
+    const handleUpdated = (updated: Consultation) => {
+        showSuccess(`Consultation ${updated.status === 'scheduled' ? 'rescheduled' : updated.status}`);
+        fetchData();
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6 space-y-6">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">Consultations</h2>
+
+            {successMessage && <SuccessAlert message={successMessage} />}
+            {error && <ErrorAlert message={error} />}
+
+            {isLoading ? (
+                <LoadingSpinner containerClassName="h-24" />
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    <div>
+                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Upcoming Sessions</h3>
+                        <ConsultationList
+                            consultations={consultations}
+                            onUpdated={handleUpdated}
+                            isResearcher
+                        />
+                    </div>
+
+                    <div>
+                        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">Your Availability</h3>
+                        <form onSubmit={handleAddSlot} className="flex flex-wrap items-end gap-2 mb-4">
+                            <div>
+                                <label htmlFor="slot-date" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Date</label>
+                                <input
+                                    id="slot-date"
+                                    type="date"
+                                    className="form-input dark:bg-gray-700 dark:text-white"
+                                    value={date}
+                                    onChange={(e) => setDate(e.target.value)}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="slot-time" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Start</label>
+                                <input
+                                    id="slot-time"
+                                    type="time"
+                                    step={900}
+                                    className="form-input dark:bg-gray-700 dark:text-white"
+                                    value={time}
+                                    onChange={(e) => setTime(e.target.value)}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="slot-duration" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Length</label>
+                                <select
+                                    id="slot-duration"
+                                    className="form-select dark:bg-gray-700 dark:text-white"
+                                    value={duration}
+                                    onChange={(e) => setDuration(parseInt(e.target.value, 10))}
+                                >
+                                    {DURATION_OPTIONS.map(minutes => (
+                                        <option key={minutes} value={minutes}>{minutes} min</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <button type="submit" className="btn-primary" disabled={isSubmitting}>
+                                {isSubmitting ? 'Adding...' : 'Add Slot'}
+                            </button>
+                        </form>
+
+                        {slots.length === 0 ? (
+                            <EmptyState message="No upcoming availability. Add slots so clients can book consultations." />
+                        ) : (
+                            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                                {slots.map(slot => (
+                                    <li key={slot.slot_id} className="py-2 flex justify-between items-center">
+                                        <div>
+                                            <p className="text-sm text-gray-900 dark:text-white">
+                                                {formatSessionRange(slot.starts_at, slot.ends_at)}
+                                            </p>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                {slot.consultation
+                                                    ? `Booked by ${slot.consultation.client?.first_name ?? 'a client'}: ${slot.consultation.topic}`
+                                                    : 'Open'}
+                                            </p>
+                                        </div>
+                                        {!slot.consultation && (
+                                            <button
+                                                type="button"
+                                                className="text-xs text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                                                onClick={() => handleDeleteSlot(slot.slot_id)}
+                                            >
+                                                Remove
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ManagerConsultations;
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { AvailabilitySlot, Consultation, consultationsApi } from '../../api/client';
+import { formatSessionRange } from '../../utils/consultationUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import BaseModal from '../common/BaseModal';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+import SlotPicker from './SlotPicker';
+
+interface RescheduleConsultationModalProps {
+    consultation: Consultation | null;
+    onClose: () => void;
+    onRescheduled: (consultation: Consultation) => void;
+}
+
+/**
+ * Move a scheduled consultation to another free slot
+ */
+const RescheduleConsultationModal: React.FC<RescheduleConsultationModalProps> = ({
+    consultation,
+    onClose,
+    onRescheduled
+}) => {
+    const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+    const [slotId, setSlotId] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setSlotId('');
+        setError(null);
+
+        if (!consultation) return;
+
+        const fetchSlots = async () => {
+            setIsLoading(true);
+            try {
+                const response = await consultationsApi.getAvailableSlots();
+                setSlots(response.slots);
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error fetching available slots:', errorMessage);
+                setError(errorMessage);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchSlots();
+    }, [consultation]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!consultation || !slotId) {
+            setError('Choose a new time for the consultation');
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const response = await consultationsApi.rescheduleConsultation(consultation.consultation_id, slotId);
+            onRescheduled(response.consultation);
+            onClose();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error rescheduling consultation:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <BaseModal isOpen={consultation !== null} onClose={onClose} title="Reschedule Consultation" size="2xl">
+            {isLoading ? (
+                <LoadingSpinner containerClassName="h-48" size="lg" />
+            ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {error && <ErrorAlert message={error} />}
+
+                    {consultation && (
+                        <p className="text-sm text-gray-600 dark:text-gray-300">
+                            "{consultation.topic}" is booked for {formatSessionRange(consultation.starts_at, consultation.ends_at)}.
+                            Choose a new time:
+                        </p>
+                    )}
+
+                    <SlotPicker slots={slots} selectedSlotId={slotId} onSelect={setSlotId} />
+
+                    <div className="flex justify-end space-x-2">
+                        <button type="button" className="btn-secondary" onClick={onClose}>
+                            Keep Current Time
+                        </button>
+                        <button type="submit" className="btn-primary" disabled={isSubmitting || !slotId}>
+                            {isSubmitting ? 'Rescheduling...' : 'Reschedule'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </BaseModal>
+    );
+};
+
+export default RescheduleConsultationModal;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { AvailabilitySlot } from '../../api/client';
+import { groupSlotsByDay } from '../../utils/consultationUtils';
+import EmptyState from '../common/EmptyState';
+
+interface SlotPickerProps {
+    slots: AvailabilitySlot[];
+    selectedSlotId: string;
+    onSelect: (slotId: string) => void;
+}
+
+/**
+ * Free availability slots grouped by day, one of which can be selected
+ */
+const SlotPicker: React.FC<SlotPickerProps> = ({ slots, selectedSlotId, onSelect }) => {
+    if (slots.length === 0) {
+        return <EmptyState message="No consultation times are available right now. Please check back soon." className="py-4" />;
+    }
+
+    return (
+        <div className="space-y-4 max-h-64 overflow-y-auto pr-1">
+            {groupSlotsByDay(slots).map(group => (
+                <div key={group.day}>
+                    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{group.day}</h4>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {group.slots.map(slot => {
+                            const isSelected = slot.slot_id === selectedSlotId;
+                            const start = new Date(slot.starts_at).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+                            const minutes = Math.round((new Date(slot.ends_at).getTime() - new Date(slot.starts_at).getTime()) / 60000);
+
+                            return (
+                                <button
+                                    key={slot.slot_id}
+                                    type="button"
+                                    onClick={() => onSelect(slot.slot_id)}
+                                    className={`px-3 py-2 text-left text-sm rounded-md border ${isSelected
+                                        ? 'border-primary-600 bg-primary-50 text-primary-700 dark:bg-primary-900 dark:text-primary-200'
+                                        : 'border-gray-300 text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700'
+                                        }`}
+                                >
+                                    <span className="block font-medium">{start}</span>
+                                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                                        {minutes} min{slot.researcher ? ` · ${slot.researcher.first_name} ${slot.researcher.last_name}` : ''}
+                                    </span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default SlotPicker;
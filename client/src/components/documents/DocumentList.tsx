@@ -61,7 +61,8 @@ const DocumentList = ({ documents, isLoading, error, onEditDocument, onDeleteDoc
             result = result.filter(document =>
                 (document.title && document.title.toLowerCase().includes(term)) ||
                 (document.description && document.description.toLowerCase().includes(term)) ||
-                (document.source && document.source.toLowerCase().includes(term))
+                (document.source && document.source.toLowerCase().includes(term)) ||
+                (document.transcription && document.transcription.toLowerCase().includes(term))
             );
         }
 
@@ -122,7 +123,7 @@ const DocumentList = ({ documents, isLoading, error, onEditDocument, onDeleteDoc
                             type="text"
                             id="search"
                             className="focus:ring-primary-500 focus:border-primary-500 block w-full pl-10 sm:text-sm border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white dark:placeholder-gray-400 rounded-md"
-                            placeholder="Search by title, description, or source"
+                            placeholder="Search by title, description, source, or text"
                             value={searchTerm}
                             onChange={(e) => setSearchTerm(e.target.value)}
                         />
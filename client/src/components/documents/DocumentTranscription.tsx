@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Document, documentsApi } from '../../api/client';
+import { formatDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+
+// Pages read with a lower mean word confidence are flagged for proofreading
+const LOW_CONFIDENCE = 70;
+
+// How often to check on a document whose text is still being read
+const POLL_INTERVAL_MS = 10 * 1000;
+
+interface DocumentTranscriptionProps {
+    document: Document;
+    canEdit: boolean;
+    onUpdated: (document: Document) => void;
+}
+
+/**
+ * Transcription of a document, started from the text the OCR engine read and corrected by researchers.
+ * Shows how confident the engine was on each page so poorly read pages can be checked first.
+ */
+const DocumentTranscription: React.FC<DocumentTranscriptionProps> = ({ document, canEdit, onUpdated }) => {
+    // The user's edits; null while they have not changed the saved transcription
+    const [draft, setDraft] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRequesting, setIsRequesting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isSaved, setIsSaved] = useState(false);
+
+    const isReading = document.ocr_status === 'pending' || document.ocr_status === 'processing';
+    const text = draft ?? document.transcription ?? '';
+    const isDirty = draft !== null && draft !== (document.transcription || '');
+
+    // Check back until the OCR engine has read the document
+    useEffect(() => {
+        if (!isReading) return;
+
+        const timeoutId = setTimeout(async () => {
+            try {
+                onUpdated(await documentsApi.getDocumentById(document.document_id));
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error refreshing document:', errorMessage);
+            }
+        }, POLL_INTERVAL_MS);
+
+        return () => clearTimeout(timeoutId);
+    }, [isReading, document, onUpdated]);
+
+    const handleSave = async () => {
+        try {
+            setIsSaving(true);
+            setError(null);
+            const { document: updated } = await documentsApi.updateDocument(document.document_id, { transcription: text });
+            onUpdated({ ...document, ...updated });
+            setDraft(null);
+            setIsSaved(true);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error saving transcription:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleReadAgain = async () => {
+        try {
+            setIsRequesting(true);
+            setError(null);
+            const { document: queued } = await documentsApi.recognizeDocument(document.document_id);
+            onUpdated({ ...document, ...queued });
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error requesting text recognition:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsRequesting(false);
+        }
+    };
+
+    const renderStatus = () => {
+        if (isReading) {
+            return (
+                <p className="flex items-center text-sm text-gray-500 dark:text-gray-400">
+                    <span className="animate-spin h-3 w-3 mr-2 border-2 border-primary-500 rounded-full border-t-transparent"></span>
+                    Reading the text of this document...
+                </p>
+            );
+        }
+
+        if (document.ocr_status === 'failed') {
+            return (
+                <p className="text-sm text-red-600 dark:text-red-400">
+                    The text could not be read{document.ocr_error ? `: ${document.ocr_error}` : '.'}
+                </p>
+            );
+        }
+
+        if (document.ocr_status === 'completed' && document.ocr_completed_at) {
+            return (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Text read {formatDate(document.ocr_completed_at)}
+                    {document.transcription_updated_at && `, corrected ${formatDate(document.transcription_updated_at)}`}
+                </p>
+            );
+        }
+
+        return null;
+    };
+
+    const pages = document.ocr_pages || [];
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-md font-medium text-gray-900 dark:text-white">Transcription</h3>
+                {canEdit && document.ocr_status && !isReading && (
+                    <button
+                        type="button"
+                        onClick={handleReadAgain}
+                        disabled={isRequesting}
+                        className="text-sm text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300 disabled:opacity-50"
+                    >
+                        {isRequesting ? 'Queueing...' : 'Read text again'}
+                    </button>
+                )}
+            </div>
+
+            {renderStatus()}
+
+            {pages.length > 0 && (
+                <div className="flex flex-wrap gap-1 my-2" aria-label="Confidence by page">
+                    {pages.map(page => {
+                        const isLow = page.confidence === null || page.confidence < LOW_CONFIDENCE;
+                        return (
+                            <span
+                                key={page.page}
+                                className={`px-2 py-0.5 rounded-full text-xs font-medium ${isLow
+                                    ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+                                    : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                                    }`}
+                                title={isLow ? 'Check this page against the original' : undefined}
+                            >
+                                Page {page.page}: {page.confidence === null ? 'no text' : `${Math.round(page.confidence)}%`}
+                            </span>
+                        );
+                    })}
+                </div>
+            )}
+
+            <textarea
+                aria-label="Transcription"
+                value={text}
+                onChange={(e) => setDraft(e.target.value)}
+                readOnly={!canEdit}
+                rows={16}
+                className="mt-1 block w-full flex-1 rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-primary-500 focus:ring-primary-500 dark:bg-gray-700 dark:text-white font-mono text-sm"
+                placeholder={isReading ? 'The text will appear here once it has been read.' : 'No transcription yet.'}
+            />
+
+            {error && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+            {canEdit && (
+                <div className="flex items-center justify-end space-x-3 mt-2">
+                    {isSaved && !isDirty && <span className="text-sm text-green-600 dark:text-green-400">Saved</span>}
+                    {isDirty && (
+                        <button type="button" onClick={() => setDraft(null)} className="btn-secondary">
+                            Discard
+                        </button>
+                    )}
+                    <button
+                        type="button"
+                        onClick={handleSave}
+                        disabled={!isDirty || isSaving}
+                        className="btn-primary disabled:opacity-50"
+                    >
+                        {isSaving ? 'Saving...' : 'Save Transcription'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DocumentTranscription;
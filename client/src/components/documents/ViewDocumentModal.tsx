@@ -3,6 +3,8 @@ import { Document, documentsApi } from '../../api/client';
 import ErrorAlert from '../common/ErrorAlert';
 import LoadingSpinner from '../common/LoadingSpinner';
 import BaseModal from '../common/BaseModal'; // Import BaseModal
+import EditHistoryPanel from '../history/EditHistoryPanel';
+import DocumentTranscription from './DocumentTranscription';
 import { formatDate } from '../../utils/dateUtils';
 import { getApiErrorMessage } from '../../utils/errorUtils';
 
@@ -30,6 +32,7 @@ const ViewDocumentModal: React.FC<ViewDocumentModalProps> = ({
     const [document, setDocument] = useState<Document | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
 
     useEffect(() => {
         if (isOpen && documentId) {
@@ -199,13 +202,33 @@ const ViewDocumentModal: React.FC<ViewDocumentModalProps> = ({
                             </div>
                         )}
 
-                        {/* Document viewer */}
-                        <div className="mb-6">
-                            {renderDocumentViewer()}
-                        </div>
+                        {/* Document viewer, with the transcription alongside for documents with text to read */}
+                        {document.ocr_status || document.transcription ? (
+                            <div className="mb-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                <div className="max-h-[32rem] overflow-auto">
+                                    {renderDocumentViewer()}
+                                </div>
+                                <DocumentTranscription
+                                    document={document}
+                                    canEdit={isManager && projectStatus !== 'completed'}
+                                    onUpdated={setDocument}
+                                />
+                            </div>
+                        ) : (
+                            <div className="mb-6">
+                                {renderDocumentViewer()}
+                            </div>
+                        )}
 
-                        {/* Download button */}
-                        <div className="flex justify-end">
+                        {/* History toggle and download button */}
+                        <div className="flex justify-end space-x-2">
+                            <button
+                                type="button"
+                                onClick={() => setShowHistory(!showHistory)}
+                                className="btn-secondary"
+                            >
+                                {showHistory ? 'Hide History' : 'History'}
+                            </button>
                             <a
                                 href={`/api/documents/${documentId}/file?download=true`}
                                 className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 dark:bg-primary-500 dark:hover:bg-primary-600"
@@ -217,6 +240,18 @@ const ViewDocumentModal: React.FC<ViewDocumentModalProps> = ({
                                 Download
                             </a>
                         </div>
+
+                        {showHistory && (
+                            <div className="mt-6 border-t border-gray-200 dark:border-gray-700 pt-4">
+                                <h3 className="text-md font-medium text-gray-900 dark:text-white mb-4">Edit History</h3>
+                                <EditHistoryPanel
+                                    entityType="document"
+                                    entityId={documentId}
+                                    canRevert={isManager && projectStatus !== 'completed'}
+                                    onReverted={fetchDocument}
+                                />
+                            </div>
+                        )}
                     </>
                 )}
             </div>
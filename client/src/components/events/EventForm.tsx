@@ -1,8 +1,12 @@
 import { useEffect, useState } from 'react';
 import { Event, eventsApi } from '../../api/client';
 import ErrorAlert from '../common/ErrorAlert';
+import GenealogicalDateInput from '../common/GenealogicalDateInput';
 import LoadingSpinner from '../common/LoadingSpinner';
+import PlacePicker from '../common/PlacePicker';
+import { toGenealogicalDateFields, toGenealogicalDateText } from '../../utils/dateUtils';
 import { getApiErrorMessage } from '../../utils/errorUtils';
+import { validateDate } from '../../utils/formValidation';
 
 interface EventFormProps {
     personId?: string;
@@ -20,6 +24,7 @@ const EventForm = ({ personId, eventId, projectId, onSuccess, onCancel }: EventF
         event_type: 'birth',
         event_date: '',
         event_location: '',
+        event_place_id: null,
         description: ''
     });
 
@@ -49,10 +54,10 @@ const EventForm = ({ personId, eventId, projectId, onSuccess, onCancel }: EventF
                 try {
                     const event = await eventsApi.getEventById(eventId);
 
-                    // Format date for input field (YYYY-MM-DD)
+                    // Show the date as it was entered (YYYY-MM-DD for exact dates)
                     const formattedEvent = {
                         ...event,
-                        event_date: event.event_date ? new Date(event.event_date).toISOString().split('T')[0] : ''
+                        event_date: toGenealogicalDateText(event.event_date, event.event_date_detail)
                     };
 
                     setFormData(formattedEvent);
@@ -74,19 +79,35 @@ const EventForm = ({ personId, eventId, projectId, onSuccess, onCancel }: EventF
         setFormData(prev => ({ ...prev, [name]: value }));
     };
 
+    const handleLocationChange = (location: string, placeId: string | null) => {
+        setFormData(prev => ({ ...prev, event_location: location, event_place_id: placeId }));
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+
+        const dateError = formData.event_date ? validateDate(formData.event_date, 'Date') : undefined;
+        if (dateError) {
+            setError(dateError);
+            return;
+        }
+
         setIsLoading(true);
         setError(null);
 
         try {
+            // Approximate dates are sent as a sortable date plus the genealogical date detail
+            const eventDate = toGenealogicalDateFields(formData.event_date);
+
             // Create a clean copy of the form data and omit empty optional fields
             const cleanedFormData: Partial<Event> & { projectId?: string } = {
                 person_id: formData.person_id,
                 event_type: formData.event_type,
                 // Conditionally include optional fields if they are not empty strings
-                ...(formData.event_date ? { event_date: formData.event_date } : {}), // Assuming event_date is optional based on type
+                ...(eventDate.date ? { event_date: eventDate.date, event_date_detail: eventDate.detail } : {}), // Assuming event_date is optional based on type
                 ...(formData.event_location ? { event_location: formData.event_location } : {}),
+                // When editing, send a null place so a location typed over a linked one unlinks it
+                ...(formData.event_place_id || eventId ? { event_place_id: formData.event_place_id || null } : {}),
                 ...(formData.description ? { description: formData.description } : {}),
             };
 
@@ -154,11 +175,10 @@ const EventForm = ({ personId, eventId, projectId, onSuccess, onCancel }: EventF
                     <label htmlFor="event_date" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                         Date {(formData.event_type === 'birth' || formData.event_type === 'death') && <span className="text-red-500">*</span>}
                     </label>
-                    <input
-                        type="date"
+                    <GenealogicalDateInput
                         id="event_date"
                         name="event_date"
-                        value={formData.event_date}
+                        value={formData.event_date || ''}
                         onChange={handleChange}
                         required={formData.event_type === 'birth' || formData.event_type === 'death'}
                         className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-primary-500 focus:ring-primary-500 dark:bg-gray-700 dark:text-white"
@@ -169,15 +189,14 @@ const EventForm = ({ personId, eventId, projectId, onSuccess, onCancel }: EventF
                     <label htmlFor="event_location" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                         Location {(formData.event_type === 'marriage' || formData.event_type === 'divorce') && <span className="text-red-500">*</span>}
                     </label>
-                    <input
-                        type="text"
+                    <PlacePicker
                         id="event_location"
                         name="event_location"
                         value={formData.event_location || ''}
-                        onChange={handleChange}
+                        placeId={formData.event_place_id}
+                        onChange={handleLocationChange}
                         required={formData.event_type === 'marriage' || formData.event_type === 'divorce'}
                         className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-primary-500 focus:ring-primary-500 dark:bg-gray-700 dark:text-white"
-                        placeholder="e.g., New York, NY, USA"
                     />
                 </div>
 
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Event, eventsApi } from '../../api/client';
-import { formatDate } from '../../utils/dateUtils';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
 import { getApiErrorMessage } from '../../utils/errorUtils';
 
 interface EventListProps {
@@ -218,7 +218,7 @@ const EventList = ({ personId, projectId, eventsData, onEditEvent, onDeleteEvent
                                                     {formatEventType(event.event_type)}
                                                 </p>
                                                 <p className="ml-2 flex-shrink-0 text-sm text-gray-500 dark:text-gray-400">
-                                                    {formatDate(event.event_date, 'Unknown date')}
+                                                    {formatGenealogicalDate(event.event_date, event.event_date_detail, 'Unknown date')}
                                                 </p>
                                             </div>
 
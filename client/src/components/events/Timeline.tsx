@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Event, eventsApi } from '../../api/client';
-import { formatDate } from '../../utils/dateUtils';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
 import { getEventTypeIcon } from '../../utils/iconUtils';
 import { getApiErrorMessage } from '../../utils/errorUtils';
 
@@ -129,7 +129,7 @@ const Timeline = ({ personId, onEditEvent, onDeleteEvent, readOnly = false }: Ti
                                     </div>
                                     <div className="text-right flex flex-col">
                                         <span className="text-sm text-gray-500 whitespace-nowrap">
-                                            {formatDate(event.event_date, 'Unknown date')}
+                                            {formatGenealogicalDate(event.event_date, event.event_date_detail, 'Unknown date')}
                                         </span>
                                         
                                         {!readOnly && (
@@ -0,0 +1,148 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import React, { useState } from 'react';
+import { EntityVersion, historyApi, VersionedEntityType } from '../../api/client';
+import { queryKeys } from '../../api/queryKeys';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import { describeVersion, describeVersionChanges } from '../../utils/historyUtils';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+interface EditHistoryPanelProps {
+    entityType: VersionedEntityType;
+    entityId: string;
+    canRevert?: boolean;
+    onReverted?: () => void; // Called after a revert so the record can be loaded again
+}
+
+const PAGE_SIZE = 10;
+
+/**
+ * Versions of a person, event, relationship or document, newest first, with what each edit changed
+ */
+const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ entityType, entityId, canRevert = false, onReverted }) => {
+    const queryClient = useQueryClient();
+    const [page, setPage] = useState(1);
+    const [revertingVersion, setRevertingVersion] = useState<number | null>(null);
+    const [revertError, setRevertError] = useState<string | null>(null);
+
+    const { data, isLoading, error } = useQuery({
+        queryKey: queryKeys.history.page(entityType, entityId, page),
+        queryFn: () => historyApi.getHistory(entityType, entityId, { page, pageSize: PAGE_SIZE })
+    });
+
+    const handleRevert = async (version: EntityVersion) => {
+        if (!window.confirm(`Revert this ${entityType} to version ${version.version_number}? The revert is kept in the history and can be undone.`)) {
+            return;
+        }
+
+        setRevertingVersion(version.version_number);
+        setRevertError(null);
+        try {
+            await historyApi.revertToVersion(entityType, entityId, version.version_number);
+            setPage(1);
+            await queryClient.invalidateQueries({ queryKey: queryKeys.history.entity(entityType, entityId) });
+            onReverted?.();
+        } catch (err) {
+            setRevertError(await getApiErrorMessage(err));
+        } finally {
+            setRevertingVersion(null);
+        }
+    };
+
+    if (isLoading) {
+        return <LoadingSpinner containerClassName="h-32" />;
+    }
+
+    if (error) {
+        return <ErrorAlert message="Failed to load the edit history" />;
+    }
+
+    const versions = data?.versions || [];
+    const metadata = data?.metadata;
+    const latestVersion = page === 1 ? versions[0]?.version_number : undefined;
+
+    if (versions.length === 0) {
+        return <EmptyState message="No edits have been recorded yet." />;
+    }
+
+    return (
+        <div>
+            {revertError && <ErrorAlert message={revertError} onDismiss={() => setRevertError(null)} className="mb-4" />}
+
+            <ol className="space-y-4">
+                {versions.map(version => {
+                    const changes = describeVersionChanges(version);
+
+                    return (
+                        <li key={version.version_id} className="border border-gray-200 dark:border-gray-700 rounded-md p-4">
+                            <div className="flex items-start justify-between gap-4">
+                                <div>
+                                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                                        Version {version.version_number}
+                                    </p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">{describeVersion(version)}</p>
+                                </div>
+                                {canRevert && version.version_number !== latestVersion && version.action !== 'delete' && (
+                                    <button
+                                        type="button"
+                                        className="btn-secondary text-xs whitespace-nowrap"
+                                        disabled={revertingVersion !== null}
+                                        onClick={() => handleRevert(version)}
+                                    >
+                                        {revertingVersion === version.version_number ? 'Reverting...' : 'Revert to this version'}
+                                    </button>
+                                )}
+                            </div>
+
+                            {changes.length > 0 && (
+                                <table className="mt-3 w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                                            <th className="font-medium pr-4 pb-1">Field</th>
+                                            <th className="font-medium pr-4 pb-1">Before</th>
+                                            <th className="font-medium pb-1">After</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {changes.map(change => (
+                                            <tr key={change.field} className="align-top">
+                                                <td className="pr-4 py-1 text-gray-700 dark:text-gray-300">{change.label}</td>
+                                                <td className="pr-4 py-1 text-gray-500 dark:text-gray-400 line-through break-words">{change.from}</td>
+                                                <td className="py-1 text-gray-900 dark:text-white break-words">{change.to}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+
+            {metadata && metadata.totalPages > 1 && (
+                <div className="flex items-center justify-between mt-4 text-sm text-gray-600 dark:text-gray-400">
+                    <button
+                        type="button"
+                        className="btn-secondary text-xs"
+                        disabled={page <= 1}
+                        onClick={() => setPage(page - 1)}
+                    >
+                        Newer
+                    </button>
+                    <span>Page {metadata.currentPage} of {metadata.totalPages}</span>
+                    <button
+                        type="button"
+                        className="btn-secondary text-xs"
+                        disabled={page >= metadata.totalPages}
+                        onClick={() => setPage(page + 1)}
+                    >
+                        Older
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EditHistoryPanel;
@@ -0,0 +1,306 @@
+import { useNavigate } from '@tanstack/react-router';
+import React, { useEffect, useRef, useState } from 'react';
+import { SearchEntityType, SearchResponse, SearchResult, searchApi } from '../../api/client';
+import { formatDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+
+const PAGE_SIZE = 10;
+
+const TYPE_LABELS: Record<SearchEntityType, string> = {
+    person: 'Persons',
+    event: 'Events',
+    document: 'Documents',
+    note: 'Research log'
+};
+
+// Project page tab each kind of result is shown on
+const RESULT_TABS: Record<SearchEntityType, string> = {
+    person: 'family_members',
+    event: 'timeline',
+    document: 'documents',
+    note: 'research_notes'
+};
+
+/**
+ * Search box for the header that searches persons, events, documents and research notes across all of
+ * the user's projects. "/" focuses it; the arrow keys move through the results and Enter opens one.
+ */
+const GlobalSearch: React.FC = () => {
+    const navigate = useNavigate();
+    const [query, setQuery] = useState('');
+    const [type, setType] = useState<SearchEntityType | ''>('');
+    const [projectId, setProjectId] = useState('');
+    const [response, setResponse] = useState<SearchResponse | null>(null);
+    const [results, setResults] = useState<SearchResult[]>([]);
+    const [page, setPage] = useState(1);
+    const [isSearching, setIsSearching] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isOpen, setIsOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(-1);
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const trimmedQuery = query.trim();
+
+    useEffect(() => {
+        if (trimmedQuery.length < 2) {
+            setResponse(null);
+            setResults([]);
+            return;
+        }
+
+        // Answers to an earlier query or page can arrive after a later one; only the latest is kept
+        let isCurrent = true;
+
+        const search = async () => {
+            setIsSearching(true);
+            try {
+                const data = await searchApi.search({
+                    q: trimmedQuery,
+                    types: type ? [type] : undefined,
+                    projectId: projectId || undefined,
+                    page,
+                    pageSize: PAGE_SIZE
+                });
+                if (!isCurrent) return;
+                setResponse(data);
+                setResults(current => (page === 1 ? data.results : [...current, ...data.results]));
+                setError(null);
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error searching:', errorMessage);
+                if (isCurrent) setError('Search failed');
+            } finally {
+                if (isCurrent) setIsSearching(false);
+            }
+        };
+
+        // Wait for typing to pause before searching
+        const timeoutId = setTimeout(search, page === 1 ? 300 : 0);
+        return () => {
+            isCurrent = false;
+            clearTimeout(timeoutId);
+        };
+    }, [trimmedQuery, type, projectId, page]);
+
+    // Close the results when clicking elsewhere
+    useEffect(() => {
+        const handleClick = (e: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, []);
+
+    // "/" focuses the search box from anywhere outside a form field
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (e.key !== '/' || target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+            e.preventDefault();
+            inputRef.current?.focus();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    // Any change to the search starts again from its first page
+    const changeSearch = (changes: { query?: string; type?: SearchEntityType | ''; projectId?: string }) => {
+        if (changes.query !== undefined) setQuery(changes.query);
+        if (changes.type !== undefined) setType(changes.type);
+        if (changes.projectId !== undefined) setProjectId(changes.projectId);
+        setPage(1);
+        setActiveIndex(-1);
+    };
+
+    const projectTitles = new Map((response?.facets.projects || []).map(project => [project.project_id, project.title]));
+
+    // The project a result opens in: the chosen project, otherwise the first it belongs to
+    const resultProjectId = (result: SearchResult) =>
+        projectId && result.project_ids.includes(projectId) ? projectId : result.project_ids[0];
+
+    const openResult = (result: SearchResult) => {
+        const targetProjectId = resultProjectId(result);
+        if (!targetProjectId) return;
+
+        setIsOpen(false);
+        inputRef.current?.blur();
+        navigate({
+            to: '/projects/$projectId',
+            params: { projectId: targetProjectId },
+            search: {
+                tab: RESULT_TABS[result.entity_type],
+                ...(result.entity_type === 'person' ? { personId: result.entity_id } : {})
+            }
+        });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setIsOpen(true);
+            setActiveIndex(current => Math.min(current + 1, results.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(current => Math.max(current - 1, -1));
+        } else if (e.key === 'Enter' && activeIndex >= 0 && results[activeIndex]) {
+            e.preventDefault();
+            openResult(results[activeIndex]);
+        } else if (e.key === 'Escape') {
+            if (isOpen) {
+                setIsOpen(false);
+            } else {
+                changeSearch({ query: '' });
+                inputRef.current?.blur();
+            }
+        }
+    };
+
+    // Keep the highlighted result in view while moving through the list with the keyboard
+    useEffect(() => {
+        if (activeIndex < 0) return;
+        document.getElementById(`global-search-result-${activeIndex}`)?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const showResults = isOpen && trimmedQuery.length >= 2;
+    const hasMore = response ? response.metadata.currentPage < response.metadata.totalPages : false;
+
+    const facetButtonClass = (selected: boolean) => `px-2 py-1 rounded-full text-xs font-medium ${selected
+        ? 'bg-primary-600 text-white'
+        : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600'
+        }`;
+
+    return (
+        <div ref={containerRef} className="relative w-full max-w-lg">
+            <input
+                ref={inputRef}
+                type="search"
+                role="combobox"
+                aria-label="Search all records"
+                aria-expanded={showResults}
+                aria-controls="global-search-results"
+                aria-activedescendant={activeIndex >= 0 ? `global-search-result-${activeIndex}` : undefined}
+                className="form-input w-full py-2 text-sm dark:bg-gray-700 dark:text-white dark:border-gray-600"
+                placeholder="Search persons, events, documents and notes  ( / )"
+                value={query}
+                onChange={(e) => {
+                    changeSearch({ query: e.target.value });
+                    setIsOpen(true);
+                }}
+                onFocus={() => setIsOpen(true)}
+                onKeyDown={handleKeyDown}
+                autoComplete="off"
+            />
+            {isSearching && (
+                <div className="absolute right-3 top-2.5">
+                    <div className="animate-spin h-4 w-4 border-2 border-primary-500 rounded-full border-t-transparent"></div>
+                </div>
+            )}
+
+            {showResults && (
+                <div className="absolute z-30 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg">
+                    {response && (
+                        <div className="p-2 border-b border-gray-200 dark:border-gray-700 space-y-2">
+                            <div className="flex flex-wrap gap-1">
+                                <button type="button" className={facetButtonClass(type === '')} onClick={() => changeSearch({ type: '' })}>
+                                    All
+                                </button>
+                                {response.facets.entity_types.map(facet => (
+                                    <button
+                                        key={facet.entity_type}
+                                        type="button"
+                                        className={facetButtonClass(type === facet.entity_type)}
+                                        onClick={() => changeSearch({ type: facet.entity_type })}
+                                        disabled={facet.count === 0 && type !== facet.entity_type}
+                                    >
+                                        {TYPE_LABELS[facet.entity_type]} ({facet.count})
+                                    </button>
+                                ))}
+                            </div>
+                            {(response.facets.projects.length > 1 || projectId) && (
+                                <select
+                                    aria-label="Project"
+                                    className="form-select block w-full pl-3 pr-8 py-1 text-xs border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                                    value={projectId}
+                                    onChange={(e) => changeSearch({ projectId: e.target.value })}
+                                >
+                                    <option value="">All projects</option>
+                                    {response.facets.projects.map(project => (
+                                        <option key={project.project_id} value={project.project_id}>
+                                            {project.title} ({project.count})
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                        </div>
+                    )}
+
+                    {error ? (
+                        <p className="p-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+                    ) : response && results.length === 0 && !isSearching ? (
+                        <p className="p-3 text-sm text-gray-500 dark:text-gray-400">No records match "{trimmedQuery}".</p>
+                    ) : (
+                        <ul id="global-search-results" role="listbox" className="max-h-96 overflow-y-auto">
+                            {results.map((result, index) => {
+                                const targetProjectId = resultProjectId(result);
+                                return (
+                                    <li
+                                        key={`${result.entity_type}:${result.entity_id}`}
+                                        id={`global-search-result-${index}`}
+                                        role="option"
+                                        aria-selected={index === activeIndex}
+                                        aria-disabled={!targetProjectId}
+                                        className={`px-3 py-2 border-b border-gray-100 dark:border-gray-700 last:border-b-0 ${targetProjectId ? 'cursor-pointer' : 'cursor-default opacity-60'} ${index === activeIndex
+                                            ? 'bg-primary-50 dark:bg-gray-700'
+                                            : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                                            }`}
+                                        onMouseEnter={() => setActiveIndex(index)}
+                                        onClick={() => openResult(result)}
+                                    >
+                                        <div className="flex items-baseline justify-between gap-2">
+                                            <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{result.title}</span>
+                                            <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                                                {TYPE_LABELS[result.entity_type]}
+                                                {result.date ? ` · ${formatDate(result.date)}` : ''}
+                                            </span>
+                                        </div>
+                                        {result.snippet.length > 0 && (
+                                            <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2">
+                                                {result.snippet.map((part, partIndex) => part.match ? (
+                                                    <mark key={partIndex} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded-sm">{part.text}</mark>
+                                                ) : (
+                                                    <React.Fragment key={partIndex}>{part.text}</React.Fragment>
+                                                ))}
+                                            </p>
+                                        )}
+                                        <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
+                                            {targetProjectId
+                                                ? result.project_ids.map(id => projectTitles.get(id)).filter(Boolean).join(', ')
+                                                : 'Not in a project'}
+                                        </p>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    {hasMore && !error && (
+                        <button
+                            type="button"
+                            className="w-full p-2 text-sm text-primary-600 dark:text-primary-400 hover:bg-gray-50 dark:hover:bg-gray-700 border-t border-gray-200 dark:border-gray-700"
+                            onClick={() => setPage(current => current + 1)}
+                            disabled={isSearching}
+                        >
+                            Show more of {response?.metadata.totalCount} results
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GlobalSearch;
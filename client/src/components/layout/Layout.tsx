@@ -1,7 +1,10 @@
 import { Link } from '@tanstack/react-router';
+import { useRealtimeUpdates } from '../../hooks/useRealtimeUpdates';
 import { hasRole, logout } from '../../utils/auth';
 import { DarkModeToggle } from '../DarkModeToggle';
 import Footer from './Footer';
+import GlobalSearch from './GlobalSearch';
+import NotificationsNavLink from './NotificationsNavLink';
 
 interface LayoutProps {
     children: React.ReactNode;
@@ -22,6 +25,9 @@ export const Sidebar = () => {
                             Dashboard
                         </Link>
                     </li>
+                    <li>
+                        <NotificationsNavLink />
+                    </li>
                     <li>
                         <Link to="/settings" className="block p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-200">
                             Settings
@@ -66,10 +72,11 @@ export const Header = () => {
 
     return (
         <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-4">
-            <div className="flex justify-between items-center">
-                <h1 className="text-lg font-semibold text-gray-800 dark:text-white">
+            <div className="flex justify-between items-center gap-4">
+                <h1 className="text-lg font-semibold text-gray-800 dark:text-white whitespace-nowrap">
                     {isManager ? 'Manager Portal' : 'Client Portal'}
                 </h1>
+                <GlobalSearch />
                 <div className="flex items-center space-x-2">
                     <DarkModeToggle />
                     <button
@@ -85,6 +92,9 @@ export const Header = () => {
 };
 
 export const Layout = ({ children }: LayoutProps) => {
+    // Keep notifications and open project pages current while the user is signed in
+    useRealtimeUpdates();
+
     return (
         <div className="flex h-screen">
             <Sidebar />
@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link } from '@tanstack/react-router';
+import React from 'react';
+import { userEventsApi } from '../../api/client';
+import { queryKeys } from '../../api/queryKeys';
+
+const NotificationsNavLink: React.FC = () => {
+    // Pushed notifications invalidate this query, so it only needs fetching again on focus
+    const { data } = useQuery({
+        queryKey: queryKeys.userEvents.unreadCount,
+        queryFn: userEventsApi.getUnreadCount,
+        staleTime: 0,
+        refetchOnWindowFocus: true
+    });
+    const unreadCount = data?.count || 0;
+
+    return (
+        <Link to="/notifications" className="flex items-center justify-between p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-200">
+            <span>Notifications</span>
+            {unreadCount > 0 && (
+                <span
+                    className="inline-flex items-center justify-center min-w-[1.25rem] px-1.5 py-0.5 rounded-full text-xs font-medium bg-primary-600 text-white"
+                    aria-label={`${unreadCount} unread notifications`}
+                >
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+            )}
+        </Link>
+    );
+};
+
+export default NotificationsNavLink;
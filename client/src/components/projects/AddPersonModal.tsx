@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Person, projectsApi } from '../../api/client';
-import { formatDate } from '../../utils/dateUtils';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
 import { getApiErrorMessage } from '../../utils/errorUtils';
 import BaseModal from '../common/BaseModal';
 import ErrorAlert from '../common/ErrorAlert';
@@ -53,9 +53,9 @@ const AddPersonModal: React.FC<AddPersonModalProps> = ({ projectId, isOpen, onCl
                     <div className="mb-4 p-3 border rounded-md bg-gray-50 dark:bg-gray-700">
                         <h3 className="font-medium text-gray-900 dark:text-white">{selectedPerson.first_name} {selectedPerson.last_name}</h3>
                         <p className="text-sm text-gray-500 dark:text-gray-400">
-                            {selectedPerson.birth_date && `Born: ${formatDate(selectedPerson.birth_date)}`}
+                            {selectedPerson.birth_date && `Born: ${formatGenealogicalDate(selectedPerson.birth_date, selectedPerson.birth_date_detail)}`}
                             {selectedPerson.birth_date && selectedPerson.death_date && ' - '}
-                            {selectedPerson.death_date && `Died: ${formatDate(selectedPerson.death_date)}`}
+                            {selectedPerson.death_date && `Died: ${formatGenealogicalDate(selectedPerson.death_date, selectedPerson.death_date_detail)}`}
                         </p>
                     </div>
                 )}
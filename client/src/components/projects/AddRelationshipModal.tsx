@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Person, Relationship, relationshipsApi } from '../../api/client';
+import { toGenealogicalDateFields } from '../../utils/dateUtils';
 import { getApiErrorMessage } from '../../utils/errorUtils';
 import {
     validateRelationship,
@@ -8,6 +9,7 @@ import {
 } from '../../utils/formValidation'; // Import validation utilities
 import BaseModal from '../common/BaseModal'; // Import BaseModal
 import ErrorAlert from '../common/ErrorAlert'; // Import ErrorAlert
+import GenealogicalDateInput from '../common/GenealogicalDateInput';
 
 interface PersonSelectorProps {
     label: string;
@@ -131,13 +133,19 @@ const AddRelationshipModal: React.FC<AddRelationshipModalProps> = ({
         setError(null);
 
         try {
+            // Approximate dates are sent as a sortable date plus the genealogical date detail
+            const startDate = toGenealogicalDateFields(formData.startDate);
+            const endDate = toGenealogicalDateFields(formData.endDate);
+
             await relationshipsApi.createRelationship({
                 person1_id: formData.person1Id,
                 person2_id: formData.person2Id,
                 relationship_type: formData.relationshipType,
                 relationship_qualifier: formData.relationshipQualifier || undefined,
-                start_date: formData.startDate || undefined,
-                end_date: formData.endDate || undefined,
+                start_date: startDate.date || undefined,
+                start_date_detail: startDate.detail,
+                end_date: endDate.date || undefined,
+                end_date_detail: endDate.detail,
                 notes: formData.notes || undefined
             });
 
@@ -234,10 +242,8 @@ const AddRelationshipModal: React.FC<AddRelationshipModalProps> = ({
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                             Start Date {formData.relationshipType === 'spouse' && <span className="text-red-500">*</span>}
                         </label>
-                        <input
-                            type="date"
+                        <GenealogicalDateInput
                             name="startDate"
-                            className="form-input w-full dark:bg-gray-700 dark:text-white"
                             value={formData.startDate}
                             onChange={handleChange}
                             required={formData.relationshipType === 'spouse'}
@@ -249,10 +255,8 @@ const AddRelationshipModal: React.FC<AddRelationshipModalProps> = ({
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                             End Date
                         </label>
-                        <input
-                            type="date"
+                        <GenealogicalDateInput
                             name="endDate"
-                            className="form-input w-full dark:bg-gray-700 dark:text-white"
                             value={formData.endDate}
                             onChange={handleChange}
                         />
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Person, projectsApi } from '../../api/client';
+import { toGenealogicalDateFields } from '../../utils/dateUtils';
 import { getApiErrorMessage } from '../../utils/errorUtils';
 import {
     validateGender,
@@ -8,6 +9,8 @@ import {
     validateRequired
 } from '../../utils/formValidation';
 import BaseModal from '../common/BaseModal';
+import GenealogicalDateInput from '../common/GenealogicalDateInput';
+import PlacePicker from '../common/PlacePicker';
 
 interface CreatePersonModalProps {
     projectId?: string; // Optional: if provided, will add the person to this project
@@ -31,8 +34,10 @@ const CreatePersonModal: React.FC<CreatePersonModalProps> = ({
         gender: '',
         birth_date: '',
         birth_location: '',
+        birth_place_id: null as string | null,
         death_date: '',
         death_location: '',
+        death_place_id: null as string | null,
         notes: ''
     });
 
@@ -54,6 +59,10 @@ const CreatePersonModal: React.FC<CreatePersonModalProps> = ({
         });
     };
 
+    const handleLocationChange = (field: 'birth' | 'death') => (location: string, placeId: string | null) => {
+        setFormData(prev => ({ ...prev, [`${field}_location`]: location, [`${field}_place_id`]: placeId }));
+    };
+
     const validateForm = () => {
         const errors: Record<string, string> = {};
 
@@ -100,18 +109,25 @@ const CreatePersonModal: React.FC<CreatePersonModalProps> = ({
         setFormErrors({}); // Clear all errors on successful validation attempt
 
         try {
+            // Approximate dates are sent as a sortable date plus the genealogical date detail
+            const birth = toGenealogicalDateFields(formData.birth_date);
+            const death = toGenealogicalDateFields(formData.death_date);
+
             // Prepare form data - only include fields with values to avoid validation errors
             const cleanedFormData = {
                 first_name: formData.first_name,
                 last_name: formData.last_name,
                 gender: formData.gender,
-                birth_date: formData.birth_date,
+                birth_date: birth.date || undefined,
+                birth_date_detail: birth.detail,
                 // Only include optional fields if they have values
                 ...(formData.middle_name ? { middle_name: formData.middle_name } : {}),
                 ...(formData.maiden_name ? { maiden_name: formData.maiden_name } : {}),
                 ...(formData.birth_location ? { birth_location: formData.birth_location } : {}),
-                ...(formData.death_date ? { death_date: formData.death_date } : {}),
+                ...(formData.birth_place_id ? { birth_place_id: formData.birth_place_id } : {}),
+                ...(death.date ? { death_date: death.date, death_date_detail: death.detail } : {}),
                 ...(formData.death_location ? { death_location: formData.death_location } : {}),
+                ...(formData.death_place_id ? { death_place_id: formData.death_place_id } : {}),
                 ...(formData.notes ? { notes: formData.notes } : {})
             };
 
@@ -235,8 +251,7 @@ const CreatePersonModal: React.FC<CreatePersonModalProps> = ({
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                             Birth Date *
                         </label>
-                        <input
-                            type="date"
+                        <GenealogicalDateInput
                             name="birth_date"
                             className={`form-input w-full dark:bg-gray-700 dark:text-white ${formErrors.birth_date ? 'border-red-300' : ''}`}
                             value={formData.birth_date}
@@ -252,12 +267,12 @@ const CreatePersonModal: React.FC<CreatePersonModalProps> = ({
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                             Birth Location
                         </label>
-                        <input
-                            type="text"
+                        <PlacePicker
                             name="birth_location"
                             className={`form-input w-full dark:bg-gray-700 dark:text-white ${formErrors.birth_location ? 'border-red-300' : ''}`}
                             value={formData.birth_location}
-                            onChange={handleChange}
+                            placeId={formData.birth_place_id}
+                            onChange={handleLocationChange('birth')}
                         />
                         {formErrors.birth_location && (
                             <p className="mt-1 text-sm text-red-600">{formErrors.birth_location}</p>
@@ -268,8 +283,7 @@ const CreatePersonModal: React.FC<CreatePersonModalProps> = ({
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                             Death Date
                         </label>
-                        <input
-                            type="date"
+                        <GenealogicalDateInput
                             name="death_date"
                             className={`form-input w-full dark:bg-gray-700 dark:text-white ${formErrors.death_date ? 'border-red-300' : ''}`}
                             value={formData.death_date}
@@ -284,12 +298,12 @@ const CreatePersonModal: React.FC<CreatePersonModalProps> = ({
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                             Death Location
                         </label>
-                        <input
-                            type="text"
+                        <PlacePicker
                             name="death_location"
                             className={`form-input w-full dark:bg-gray-700 dark:text-white ${formErrors.death_location ? 'border-red-300' : ''}`}
                             value={formData.death_location}
-                            onChange={handleChange}
+                            placeId={formData.death_place_id}
+                            onChange={handleLocationChange('death')}
                         />
                         {formErrors.death_location && (
                             <p className="mt-1 text-sm text-red-600">{formErrors.death_location}</p>
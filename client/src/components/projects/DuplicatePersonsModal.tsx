@@ -0,0 +1,136 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { DuplicateMatch, Person, projectsApi } from '../../api/client';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import BaseModal from '../common/BaseModal';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+import MergePersonsForm from './MergePersonsForm';
+
+interface DuplicatePersonsModalProps {
+    projectId: string;
+    isOpen: boolean;
+    onClose: () => void;
+    onMerged: (person: Person) => void;
+}
+
+const getScoreBadgeClass = (score: number): string => {
+    if (score >= 80) return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+    if (score >= 65) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+    return 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300';
+};
+
+const PersonSummary: React.FC<{ person: Person }> = ({ person }) => {
+    const birth = formatGenealogicalDate(person.birth_date, person.birth_date_detail, '');
+    const death = formatGenealogicalDate(person.death_date, person.death_date_detail, '');
+
+    return (
+        <div>
+            <div className="font-medium text-gray-900 dark:text-white">
+                {[person.first_name, person.middle_name, person.last_name].filter(Boolean).join(' ')}
+                {person.maiden_name && <span className="text-gray-500 dark:text-gray-400"> (née {person.maiden_name})</span>}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+                {[birth && `b. ${birth}`, person.birth_location, death && `d. ${death}`, person.death_location]
+                    .filter(Boolean)
+                    .join(' · ') || 'No dates or places'}
+            </div>
+        </div>
+    );
+};
+
+const DuplicatePersonsModal: React.FC<DuplicatePersonsModalProps> = ({ projectId, isOpen, onClose, onMerged }) => {
+    const [matches, setMatches] = useState<DuplicateMatch[]>([]);
+    const [reviewing, setReviewing] = useState<DuplicateMatch | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadMatches = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setMatches(await projectsApi.getProjectDuplicates(projectId));
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error finding duplicate persons:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [projectId]);
+
+    useEffect(() => {
+        if (isOpen) {
+            loadMatches();
+        }
+    }, [isOpen, loadMatches]);
+
+    const handleMerged = (person: Person) => {
+        setReviewing(null);
+        onMerged(person);
+        // Pairs involving the merged-away record no longer exist, so score again
+        loadMatches();
+    };
+
+    return (
+        <BaseModal
+            isOpen={isOpen}
+            onClose={onClose}
+            title={reviewing ? 'Merge Duplicate Records' : 'Possible Duplicates'}
+            size="4xl"
+        >
+            {reviewing ? (
+                <MergePersonsForm
+                    first={reviewing.person}
+                    second={reviewing.match}
+                    reasons={reviewing.reasons}
+                    onCancel={() => setReviewing(null)}
+                    onMerged={handleMerged}
+                />
+            ) : (
+                <div className="space-y-4">
+                    {error && <ErrorAlert message={error} />}
+
+                    {isLoading ? (
+                        <LoadingSpinner containerClassName="py-8" />
+                    ) : matches.length === 0 ? (
+                        <EmptyState message="No likely duplicates found in this project." />
+                    ) : (
+                        <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-[60vh] overflow-y-auto">
+                            {matches.map(match => (
+                                <li key={`${match.person.person_id}:${match.match.person_id}`} className="py-3 flex items-start space-x-4">
+                                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getScoreBadgeClass(match.score)}`}>
+                                        {match.score}
+                                    </span>
+                                    <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                        <PersonSummary person={match.person} />
+                                        <PersonSummary person={match.match} />
+                                        <p className="sm:col-span-2 text-xs text-gray-500 dark:text-gray-400">
+                                            {match.reasons.join(' · ')}
+                                        </p>
+                                    </div>
+                                    <button
+                                        type="button"
+                                        className="btn-secondary whitespace-nowrap"
+                                        onClick={() => setReviewing(match)}
+                                    >
+                                        Review &amp; Merge
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <div className="flex justify-end">
+                        <button type="button" className="btn-secondary" onClick={onClose}>
+                            Close
+                        </button>
+                    </div>
+                </div>
+            )}
+        </BaseModal>
+    );
+};
+
+export default DuplicatePersonsModal;
@@ -1,12 +1,18 @@
 import React, { useEffect, useState } from 'react';
-import { ApiError, Document, Event, Person, documentsApi, projectsApi } from '../../api/client';
+import { ApiError, Citation, Document, Event, Person, PrivacyOverride, documentsApi, projectsApi, sourcesApi } from '../../api/client';
+import { describeCitedFact, describeEvidence, formatCitation, orderCitations } from '../../utils/citationUtils';
+import { toGenealogicalDateFields, toGenealogicalDateText } from '../../utils/dateUtils';
+import { validatePersonDates } from '../../utils/formValidation';
 import BaseModal from '../common/BaseModal'; // Import BaseModal
 import ErrorAlert from '../common/ErrorAlert';
+import GenealogicalDateInput from '../common/GenealogicalDateInput';
 import LoadingSpinner from '../common/LoadingSpinner';
+import PlacePicker from '../common/PlacePicker';
 import DocumentForm from '../documents/DocumentForm';
 import DocumentList from '../documents/DocumentList';
 import EventForm from '../events/EventForm';
 import EventList from '../events/EventList';
+import AddCitationModal from '../sources/AddCitationModal';
 import AddExistingDocumentToPersonModal from './AddExistingDocumentToPersonModal';
 
 interface EditPersonModalProps {
@@ -14,16 +20,18 @@ interface EditPersonModalProps {
     isOpen: boolean;
     onClose: () => void;
     onPersonUpdated: (updatedPerson: Person) => void;
+    projectId?: string; // Project new sources are added to
 }
 
 const EditPersonModal: React.FC<EditPersonModalProps> = ({
     person,
     isOpen,
     onClose,
-    onPersonUpdated
+    onPersonUpdated,
+    projectId
 }) => {
     // Tab state
-    const [activeTab, setActiveTab] = useState<'info' | 'events' | 'documents' | 'relationships'>('info');
+    const [activeTab, setActiveTab] = useState<'info' | 'events' | 'documents' | 'sources' | 'relationships'>('info');
 
     // Basic person info state
     const [formData, setFormData] = useState({
@@ -32,11 +40,14 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
         last_name: person.last_name || '',
         maiden_name: person.maiden_name || '',
         gender: person.gender || '',
-        birth_date: person.birth_date || '',
+        birth_date: toGenealogicalDateText(person.birth_date, person.birth_date_detail),
         birth_location: person.birth_location || '',
-        death_date: person.death_date || '',
+        birth_place_id: person.birth_place_id || null,
+        death_date: toGenealogicalDateText(person.death_date, person.death_date_detail),
         death_location: person.death_location || '',
-        notes: person.notes || ''
+        death_place_id: person.death_place_id || null,
+        notes: person.notes || '',
+        privacy_override: person.privacy_override || ''
     });
 
     // Events state
@@ -53,6 +64,10 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
     const [editingDocumentId, setEditingDocumentId] = useState<string | null>(null);
     const [isAddExistingDocumentModalOpen, setIsAddExistingDocumentModalOpen] = useState(false);
 
+    // Citations state
+    const [citations, setCitations] = useState<Citation[]>([]);
+    const [isAddCitationModalOpen, setIsAddCitationModalOpen] = useState(false);
+
     // UI state
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -78,6 +93,10 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
                     if (personData.documents) {
                         setDocuments(personData.documents);
                     }
+
+                    // Set citations of the person, their events and relationships
+                    const personCitations = await sourcesApi.getPersonCitations(person.person_id);
+                    setCitations(orderCitations(personCitations));
                 } catch (err) {
                     console.error('Error fetching person details:', err);
                     setError('Failed to load person details');
@@ -95,6 +114,10 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
         setFormData(prev => ({ ...prev, [name]: value }));
     };
 
+    const handleLocationChange = (field: 'birth' | 'death') => (location: string, placeId: string | null) => {
+        setFormData(prev => ({ ...prev, [`${field}_location`]: location, [`${field}_place_id`]: placeId }));
+    };
+
     const validateForm = () => {
         if (!formData.first_name.trim()) {
             setError('First name is required');
@@ -116,15 +139,11 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
             return false;
         }
 
-        // Check if death date is after birth date if both are provided
-        if (formData.birth_date && formData.death_date) {
-            const birthDate = new Date(formData.birth_date);
-            const deathDate = new Date(formData.death_date);
-
-            if (deathDate < birthDate) {
-                setError('Death date cannot be before birth date');
-                return false;
-            }
+        // Check that both dates are readable and death is not before birth if both are provided
+        const dateError = validatePersonDates(formData.birth_date, formData.death_date);
+        if (dateError) {
+            setError(dateError);
+            return false;
         }
 
         return true;
@@ -142,19 +161,29 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
         setError(null);
 
         try {
+            // Approximate dates are sent as a sortable date plus the genealogical date detail
+            const birth = toGenealogicalDateFields(formData.birth_date);
+            const death = toGenealogicalDateFields(formData.death_date);
+
             // Prepare form data - only include fields with values to avoid validation errors
             const cleanedFormData = {
                 first_name: formData.first_name,
                 last_name: formData.last_name,
                 gender: formData.gender,
-                birth_date: formData.birth_date,
+                birth_date: birth.date || undefined,
+                birth_date_detail: birth.detail,
                 // Only include optional fields if they have values
                 ...(formData.middle_name ? { middle_name: formData.middle_name } : {}),
                 ...(formData.maiden_name ? { maiden_name: formData.maiden_name } : {}),
                 ...(formData.birth_location ? { birth_location: formData.birth_location } : {}),
-                ...(formData.death_date ? { death_date: formData.death_date } : {}),
+                ...(death.date ? { death_date: death.date, death_date_detail: death.detail } : {}),
                 ...(formData.death_location ? { death_location: formData.death_location } : {}),
-                ...(formData.notes ? { notes: formData.notes } : {})
+                // Sent even when empty so that a location typed as free text no longer names its old place
+                birth_place_id: formData.birth_place_id,
+                death_place_id: formData.death_place_id,
+                ...(formData.notes ? { notes: formData.notes } : {}),
+                // Sent even when empty so that an override can be removed
+                privacy_override: (formData.privacy_override || null) as PrivacyOverride | null
             };
 
             // Step 1: Update the person's basic info with events and deletedEventIds
@@ -290,6 +319,23 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
         }
     };
 
+    // Citation handlers
+    // Citations are saved as soon as they are added or removed, like document associations
+    const handleCitationAdded = (citation: Citation) => {
+        setCitations(orderCitations([...citations, citation]));
+    };
+
+    const handleDeleteCitation = async (citationId: string) => {
+        try {
+            await sourcesApi.deleteCitation(citationId);
+            setCitations(citations.filter(citation => citation.citation_id !== citationId));
+        } catch (err: unknown) {
+            console.error('Error removing citation:', err);
+            const error = err as ApiError;
+            setError(error.message || 'Failed to remove citation');
+        }
+    };
+
     if (!isOpen) return null;
 
     return (
@@ -324,6 +370,15 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
                     >
                         Documents
                     </button>
+                    <button
+                        className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${activeTab === 'sources'
+                            ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                            : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300 dark:hover:border-gray-600'
+                            }`}
+                        onClick={() => setActiveTab('sources')}
+                    >
+                        Sources
+                    </button>
                     {/* <button
                         className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${activeTab === 'relationships'
                             ? 'border-primary-500 text-primary-600 dark:text-primary-400'
@@ -426,10 +481,8 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                                         Birth Date *
                                     </label>
-                                    <input
-                                        type="date"
+                                    <GenealogicalDateInput
                                         name="birth_date"
-                                        className="form-input w-full dark:bg-gray-700 dark:text-white"
                                         value={formData.birth_date}
                                         onChange={handleChange}
                                         required
@@ -440,12 +493,11 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                                         Birth Location
                                     </label>
-                                    <input
-                                        type="text"
+                                    <PlacePicker
                                         name="birth_location"
-                                        className="form-input w-full dark:bg-gray-700 dark:text-white"
                                         value={formData.birth_location}
-                                        onChange={handleChange}
+                                        placeId={formData.birth_place_id}
+                                        onChange={handleLocationChange('birth')}
                                     />
                                 </div>
 
@@ -453,10 +505,8 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                                         Death Date
                                     </label>
-                                    <input
-                                        type="date"
+                                    <GenealogicalDateInput
                                         name="death_date"
-                                        className="form-input w-full dark:bg-gray-700 dark:text-white"
                                         value={formData.death_date}
                                         onChange={handleChange}
                                     />
@@ -466,14 +516,32 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                                         Death Location
                                     </label>
-                                    <input
-                                        type="text"
+                                    <PlacePicker
                                         name="death_location"
-                                        className="form-input w-full dark:bg-gray-700 dark:text-white"
                                         value={formData.death_location}
-                                        onChange={handleChange}
+                                        placeId={formData.death_place_id}
+                                        onChange={handleLocationChange('death')}
                                     />
                                 </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                        Privacy
+                                    </label>
+                                    <select
+                                        name="privacy_override"
+                                        className="form-select w-full dark:bg-gray-700 dark:text-white"
+                                        value={formData.privacy_override}
+                                        onChange={handleChange}
+                                    >
+                                        <option value="">Automatic (by dates)</option>
+                                        <option value="private">Always private</option>
+                                        <option value="public">Always public</option>
+                                    </select>
+                                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                        Private persons are shown as "Living" to view-only clients, share links and exports.
+                                    </p>
+                                </div>
                             </div>
 
                             <div className="mb-4">
@@ -582,6 +650,55 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
                         </div>
                     )}
 
+                    {/* Sources Tab */}
+                    {activeTab === 'sources' && (
+                        <div>
+                            <div className="flex justify-between items-center mb-4">
+                                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Citations</h3>
+                                <button
+                                    type="button"
+                                    className="btn-primary"
+                                    onClick={() => setIsAddCitationModalOpen(true)}
+                                >
+                                    Add Citation
+                                </button>
+                            </div>
+
+                            {citations.length > 0 ? (
+                                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                                    {citations.map(citation => {
+                                        const evidence = describeEvidence(citation);
+
+                                        return (
+                                            <li key={citation.citation_id} className="py-3 flex justify-between items-start space-x-4">
+                                                <div className="min-w-0">
+                                                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                                                        {describeCitedFact(citation)}
+                                                    </p>
+                                                    <p className="text-sm text-gray-600 dark:text-gray-300">{formatCitation(citation)}</p>
+                                                    {evidence && (
+                                                        <p className="text-xs text-gray-500 dark:text-gray-400">{evidence}</p>
+                                                    )}
+                                                </div>
+                                                <button
+                                                    type="button"
+                                                    className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                                                    onClick={() => handleDeleteCitation(citation.citation_id)}
+                                                >
+                                                    Remove
+                                                </button>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            ) : (
+                                <div className="text-center py-8">
+                                    <p className="text-gray-500 dark:text-gray-400">No sources have been cited for this person yet.</p>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Relationships Tab (Read-only) */}
                     {/* {activeTab === 'relationships' && (
                         <div>
@@ -642,6 +759,15 @@ const EditPersonModal: React.FC<EditPersonModalProps> = ({
                     fetchPersonDetails();
                 }}
             />
+
+            {/* Add Citation Modal */}
+            <AddCitationModal
+                isOpen={isAddCitationModalOpen}
+                onClose={() => setIsAddCitationModalOpen(false)}
+                personId={person.person_id}
+                projectId={projectId}
+                onCitationAdded={handleCitationAdded}
+            />
         </BaseModal>
     );
 };
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { Relationship, relationshipsApi } from '../../api/client';
+import { toGenealogicalDateFields, toGenealogicalDateText } from '../../utils/dateUtils';
 import { getApiErrorMessage } from '../../utils/errorUtils';
 import {
     validateRelationshipDates,
@@ -7,6 +8,7 @@ import {
 } from '../../utils/formValidation'; // Import validation utilities
 import BaseModal from '../common/BaseModal'; // Import BaseModal
 import ErrorAlert from '../common/ErrorAlert'; // Import ErrorAlert
+import GenealogicalDateInput from '../common/GenealogicalDateInput';
 
 interface EditRelationshipModalProps {
     isOpen: boolean;
@@ -42,8 +44,8 @@ const EditRelationshipModal: React.FC<EditRelationshipModalProps> = ({
             setFormData({
                 relationshipType: relationship.relationship_type || '',
                 relationshipQualifier: relationship.relationship_qualifier || '',
-                startDate: relationship.start_date || '',
-                endDate: relationship.end_date || '',
+                startDate: toGenealogicalDateText(relationship.start_date, relationship.start_date_detail),
+                endDate: toGenealogicalDateText(relationship.end_date, relationship.end_date_detail),
                 notes: relationship.notes || ''
             });
         }
@@ -81,11 +83,16 @@ const EditRelationshipModal: React.FC<EditRelationshipModalProps> = ({
         setError(null);
 
         try {
+            const startDate = toGenealogicalDateFields(formData.startDate);
+            const endDate = toGenealogicalDateFields(formData.endDate);
+
             await relationshipsApi.updateRelationship(relationshipId, {
                 relationship_type: formData.relationshipType,
                 relationship_qualifier: formData.relationshipQualifier || undefined,
-                start_date: formData.startDate || undefined,
-                end_date: formData.endDate || undefined,
+                start_date: startDate.date || undefined,
+                start_date_detail: startDate.detail,
+                end_date: endDate.date || undefined,
+                end_date_detail: endDate.detail,
                 notes: formData.notes || undefined
             });
 
@@ -186,10 +193,8 @@ const EditRelationshipModal: React.FC<EditRelationshipModalProps> = ({
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                             Start Date {formData.relationshipType === 'spouse' && <span className="text-red-500">*</span>}
                         </label>
-                        <input
-                            type="date"
+                        <GenealogicalDateInput
                             name="startDate"
-                            className="form-input w-full dark:bg-gray-700 dark:text-white"
                             value={formData.startDate}
                             onChange={handleChange}
                             required={formData.relationshipType === 'spouse'}
@@ -201,10 +206,8 @@ const EditRelationshipModal: React.FC<EditRelationshipModalProps> = ({
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                             End Date
                         </label>
-                        <input
-                            type="date"
+                        <GenealogicalDateInput
                             name="endDate"
-                            className="form-input w-full dark:bg-gray-700 dark:text-white"
                             value={formData.endDate}
                             onChange={handleChange}
                         />
@@ -0,0 +1,91 @@
+import React from 'react';
+import { NumberedPedigree } from '../../api/client';
+import { ahnentafelPosition, chartColors, fanSegmentPath, fitName, lifespanLabel } from '../../utils/pedigreeChartUtils';
+
+interface FanChartProps {
+    ancestors: NumberedPedigree<number>;
+    onSelectPerson?: (personId: string) => void;
+}
+
+const CENTER_RADIUS = 70;
+const RING_WIDTH = 80;
+const MARGIN = 10;
+
+/**
+ * Half-circle chart of a person's ancestors: the person at the center, each generation one ring further
+ * out, fathers' lines to the left of mothers'. Empty segments mark ancestors not yet found.
+ */
+const FanChart: React.FC<FanChartProps> = ({ ancestors, onSelectPerson }) => {
+    const { generations } = ancestors;
+    const radius = CENTER_RADIUS + generations * RING_WIDTH;
+    const cx = radius + MARGIN;
+    const cy = radius + MARGIN;
+    const personsByNumber = new Map(ancestors.persons.map(person => [person.number, person]));
+
+    // Every slot is drawn, found or not, so the gaps in the research show
+    const slots: number[] = [];
+    for (let number = 1; number < 2 ** (generations + 1); number++) slots.push(number);
+
+    return (
+        <svg
+            viewBox={`0 0 ${2 * cx} ${cy + MARGIN + 20}`}
+            width={2 * cx}
+            height={cy + MARGIN + 20}
+            className="max-w-full h-auto"
+            fontFamily="system-ui, Helvetica, Arial, sans-serif"
+        >
+            {slots.map(number => {
+                const { generation, index } = ahnentafelPosition(number);
+                const share = Math.PI / 2 ** generation;
+                const startAngle = Math.PI + index * share;
+                const innerRadius = generation === 0 ? 0 : CENTER_RADIUS + (generation - 1) * RING_WIDTH;
+                const outerRadius = generation === 0 ? CENTER_RADIUS : innerRadius + RING_WIDTH;
+                const person = personsByNumber.get(number);
+                const colors = person ? chartColors(person.gender) : { fill: '#ffffff', stroke: '#e5e7eb' };
+
+                // Labels sit across the inner rings and along the radius in the narrow outer ones
+                const midAngle = startAngle + share / 2;
+                const midRadius = generation === 0 ? CENTER_RADIUS / 2 : (innerRadius + outerRadius) / 2;
+                const x = cx + midRadius * Math.cos(midAngle);
+                const y = cy + midRadius * Math.sin(midAngle);
+                let rotation = 0;
+                if (generation > 2) {
+                    rotation = (midAngle * 180) / Math.PI + (midAngle < 1.5 * Math.PI ? 180 : 0);
+                }
+                const fontSize = generation > 3 ? 9 : 11;
+                const maxLength = generation > 2 ? 14 : 18;
+
+                return (
+                    <g
+                        key={number}
+                        className={person && onSelectPerson && number > 1 ? 'cursor-pointer' : undefined}
+                        onClick={person && onSelectPerson && number > 1 ? () => onSelectPerson(person.id) : undefined}
+                    >
+                        <path
+                            d={fanSegmentPath(cx, cy, innerRadius, outerRadius, startAngle, startAngle + share)}
+                            fill={colors.fill}
+                            stroke={colors.stroke}
+                            strokeWidth={1}
+                        />
+                        {person && (
+                            <text
+                                x={x}
+                                y={y}
+                                transform={rotation ? `rotate(${rotation.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)})` : undefined}
+                                textAnchor="middle"
+                                fontSize={fontSize}
+                                fill="#111827"
+                            >
+                                <title>{`${number}. ${person.name}`}</title>
+                                <tspan x={x} dy={-2}>{fitName(person.name, maxLength)}</tspan>
+                                <tspan x={x} dy={fontSize + 1} fill="#6b7280">{lifespanLabel(person)}</tspan>
+                            </text>
+                        )}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+export default FanChart;
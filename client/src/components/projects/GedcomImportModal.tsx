@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { GedcomImportPreview, GedcomImportResult, GedcomTagReport, projectsApi } from '../../api/client';
+import { formatDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import BaseModal from '../common/BaseModal';
+import ErrorAlert from '../common/ErrorAlert';
+
+interface GedcomImportModalProps {
+    projectId: string;
+    isOpen: boolean;
+    onClose: () => void;
+    onImported: (result: GedcomImportResult) => void;
+}
+
+interface TagReportProps {
+    report: GedcomTagReport;
+}
+
+const TagReport: React.FC<TagReportProps> = ({ report }) => {
+    if (report.skippedTags.length === 0 && report.warnings.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-3">
+            {report.skippedTags.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-medium text-gray-900 dark:text-white">Skipped tags</h4>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                        These GEDCOM tags are not supported and will not be imported.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                        {report.skippedTags.map(({ tag, count }) => (
+                            <span
+                                key={tag}
+                                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                            >
+                                {tag} × {count}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {report.warnings.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-medium text-gray-900 dark:text-white">Warnings</h4>
+                    <ul className="mt-1 max-h-40 overflow-y-auto text-xs text-yellow-700 dark:text-yellow-300 list-disc list-inside space-y-0.5">
+                        {report.warnings.map((warning, index) => (
+                            <li key={index}>{warning}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const GedcomImportModal: React.FC<GedcomImportModalProps> = ({ projectId, isOpen, onClose, onImported }) => {
+    const [file, setFile] = useState<File | null>(null);
+    const [preview, setPreview] = useState<GedcomImportPreview | null>(null);
+    const [result, setResult] = useState<GedcomImportResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setFile(e.target.files?.[0] || null);
+        setPreview(null);
+        setError(null);
+    };
+
+    const handlePreview = async () => {
+        if (!file) return;
+
+        setIsWorking(true);
+        setError(null);
+        try {
+            setPreview(await projectsApi.previewGedcomImport(projectId, file));
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error previewing GEDCOM import:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!file) return;
+
+        setIsWorking(true);
+        setError(null);
+        try {
+            const importResult = await projectsApi.importGedcom(projectId, file);
+            setResult(importResult);
+            onImported(importResult);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error importing GEDCOM file:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <BaseModal isOpen={isOpen} onClose={onClose} title="Import GEDCOM" size="3xl">
+            <div className="space-y-6">
+                {error && <ErrorAlert message={error} />}
+
+                {/* Step 1: choose a file */}
+                {!result && (
+                    <div>
+                        <label htmlFor="gedcom-file" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            GEDCOM file (.ged)
+                        </label>
+                        <input
+                            type="file"
+                            id="gedcom-file"
+                            accept=".ged,.gedcom"
+                            className="mt-1 block w-full text-sm text-gray-900 dark:text-white"
+                            onChange={handleFileChange}
+                            disabled={isWorking}
+                        />
+                    </div>
+                )}
+
+                {/* Step 2: review what will be created */}
+                {preview && !result && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                            {([
+                                ['People', preview.summary.persons],
+                                ['Relationships', preview.summary.relationships],
+                                ['Events', preview.summary.events],
+                                ['Documents', preview.summary.documents],
+                                ['Sources', preview.summary.sources]
+                            ] as const).map(([label, count]) => (
+                                <div key={label} className="rounded-md bg-gray-50 dark:bg-gray-700 p-3 text-center">
+                                    <div className="text-xl font-semibold text-gray-900 dark:text-white">{count}</div>
+                                    <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {preview.header.sourceSystem && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                Exported by {preview.header.sourceSystem}
+                                {preview.header.version && ` (GEDCOM ${preview.header.version})`}
+                            </p>
+                        )}
+
+                        <div>
+                            <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-1">People</h4>
+                            <div className="max-h-56 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-md">
+                                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                        {preview.persons.map(person => (
+                                            <tr key={person.xref}>
+                                                <td className="px-3 py-1.5 text-gray-900 dark:text-white">
+                                                    {[person.first_name, person.middle_name, person.last_name].filter(Boolean).join(' ')}
+                                                </td>
+                                                <td className="px-3 py-1.5 text-gray-500 dark:text-gray-400">
+                                                    {person.birth_date ? `b. ${formatDate(person.birth_date)}` : ''}
+                                                </td>
+                                                <td className="px-3 py-1.5 text-gray-500 dark:text-gray-400">
+                                                    {person.death_date ? `d. ${formatDate(person.death_date)}` : ''}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+
+                        <TagReport report={preview} />
+                    </div>
+                )}
+
+                {/* Step 3: results */}
+                {result && (
+                    <div className="space-y-4">
+                        <p className="text-sm text-gray-700 dark:text-gray-300">
+                            Imported {result.created.persons} people, {result.created.relationships} relationships,{' '}
+                            {result.created.events} events and {result.created.documents} documents.
+                        </p>
+
+                        {result.rejected.length > 0 && (
+                            <div>
+                                <h4 className="text-sm font-medium text-red-700 dark:text-red-400">
+                                    {result.rejected.length} record{result.rejected.length === 1 ? '' : 's'} could not be imported
+                                </h4>
+                                <ul className="mt-1 max-h-40 overflow-y-auto text-xs text-red-600 dark:text-red-400 list-disc list-inside space-y-0.5">
+                                    {result.rejected.map((item, index) => (
+                                        <li key={index}>
+                                            <span className="font-medium">{item.record}</span>: {item.reason}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
+                        <TagReport report={result} />
+                    </div>
+                )}
+
+                <div className="flex justify-end space-x-3">
+                    <button type="button" className="btn-secondary" onClick={onClose} disabled={isWorking}>
+                        {result ? 'Close' : 'Cancel'}
+                    </button>
+                    {!result && !preview && (
+                        <button type="button" className="btn-primary" onClick={handlePreview} disabled={!file || isWorking}>
+                            {isWorking ? 'Reading file...' : 'Preview'}
+                        </button>
+                    )}
+                    {!result && preview && (
+                        <button
+                            type="button"
+                            className="btn-primary"
+                            onClick={handleImport}
+                            disabled={isWorking || preview.summary.persons === 0}
+                        >
+                            {isWorking ? 'Importing...' : `Import ${preview.summary.persons} people`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </BaseModal>
+    );
+};
+
+export default GedcomImportModal;
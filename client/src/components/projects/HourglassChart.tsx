@@ -0,0 +1,137 @@
+import React from 'react';
+import { NumberedPedigree, PedigreeNode } from '../../api/client';
+import { ahnentafelPosition, chartColors, fitName, layoutDescendants, lifespanLabel } from '../../utils/pedigreeChartUtils';
+
+interface HourglassChartProps {
+    ancestors: NumberedPedigree<number>;
+    descendants: PedigreeNode;
+    onSelectPerson?: (personId: string) => void;
+}
+
+const COLUMN_WIDTH = 130;
+const BOX_WIDTH = 118;
+const BOX_HEIGHT = 40;
+const ROW_HEIGHT = 76;
+const MARGIN = 10;
+
+interface ChartBox {
+    key: string;
+    personId: string;
+    name: string;
+    lifespan: string;
+    gender: string | null;
+    x: number; // Center
+    y: number; // Top
+}
+
+/**
+ * A person with their ancestors fanning out above and their descendants below
+ */
+const HourglassChart: React.FC<HourglassChartProps> = ({ ancestors, descendants, onSelectPerson }) => {
+    const ancestorColumns = 2 ** ancestors.generations;
+    const { nodes: descendantNodes, columns: descendantColumns } = layoutDescendants(descendants);
+    const columns = Math.max(ancestorColumns, descendantColumns);
+    const descendantRows = Math.max(...descendantNodes.map(node => node.generation));
+    const subjectRow = ancestors.generations;
+
+    const columnX = (column: number) => MARGIN + column * COLUMN_WIDTH;
+    const rowY = (row: number) => MARGIN + row * ROW_HEIGHT;
+    const ancestorOffset = (columns - ancestorColumns) / 2;
+    const descendantOffset = (columns - descendantColumns) / 2;
+
+    const boxes: ChartBox[] = [];
+    const links: string[] = [];
+    const elbow = (fromX: number, fromY: number, toX: number, toY: number) => {
+        const midY = (fromY + toY) / 2;
+        return `M ${fromX} ${fromY} V ${midY} H ${toX} V ${toY}`;
+    };
+
+    // Ancestors above: slot n of generation g is centered over its share of the top row
+    const ancestorX = (number: number) => {
+        const { generation, index } = ahnentafelPosition(number);
+        const span = ancestorColumns / 2 ** generation;
+        return columnX(ancestorOffset + (index + 0.5) * span);
+    };
+    ancestors.persons.forEach(person => {
+        const row = subjectRow - person.generation;
+        boxes.push({
+            key: `a${person.number}`,
+            personId: person.id,
+            name: person.name,
+            lifespan: lifespanLabel(person),
+            gender: person.gender,
+            x: ancestorX(person.number),
+            y: rowY(row)
+        });
+        if (person.number > 1) {
+            // Parent's bottom edge to the top edge of the child it is the parent of
+            links.push(elbow(ancestorX(person.number), rowY(row) + BOX_HEIGHT, ancestorX(Math.floor(person.number / 2)), rowY(row + 1)));
+        }
+    });
+
+    // Descendants below; the subject is already drawn with the ancestors
+    descendantNodes.forEach(({ node, generation, column, parent }, index) => {
+        if (!parent) return;
+
+        const x = columnX(descendantOffset + column);
+        const y = rowY(subjectRow + generation);
+        boxes.push({
+            key: `d${index}`,
+            personId: node.id,
+            name: node.name,
+            lifespan: lifespanLabel(node),
+            gender: node.gender,
+            x,
+            y
+        });
+        links.push(elbow(columnX(descendantOffset + parent.column), y - ROW_HEIGHT + BOX_HEIGHT, x, y));
+    });
+
+    const width = columns * COLUMN_WIDTH + 2 * MARGIN;
+    const height = (subjectRow + descendantRows) * ROW_HEIGHT + BOX_HEIGHT + 2 * MARGIN;
+
+    return (
+        <svg
+            viewBox={`0 0 ${width} ${height}`}
+            width={width}
+            height={height}
+            className="max-w-none"
+            fontFamily="system-ui, Helvetica, Arial, sans-serif"
+        >
+            {links.map((path, index) => (
+                <path key={index} d={path} fill="none" stroke="#9ca3af" strokeWidth={1.25} />
+            ))}
+            {boxes.map(box => {
+                const colors = chartColors(box.gender);
+                const isSubject = box.key === 'a1';
+
+                return (
+                    <g
+                        key={box.key}
+                        transform={`translate(${box.x - BOX_WIDTH / 2}, ${box.y})`}
+                        className={onSelectPerson && !isSubject ? 'cursor-pointer' : undefined}
+                        onClick={onSelectPerson && !isSubject ? () => onSelectPerson(box.personId) : undefined}
+                    >
+                        <rect
+                            width={BOX_WIDTH}
+                            height={BOX_HEIGHT}
+                            rx={6}
+                            fill={colors.fill}
+                            stroke={colors.stroke}
+                            strokeWidth={isSubject ? 2.5 : 1}
+                        />
+                        <text x={BOX_WIDTH / 2} y={17} textAnchor="middle" fontSize={11} fontWeight={isSubject ? 600 : 400} fill="#111827">
+                            <title>{box.name}</title>
+                            {fitName(box.name, 20)}
+                        </text>
+                        <text x={BOX_WIDTH / 2} y={31} textAnchor="middle" fontSize={10} fill="#6b7280">
+                            {box.lifespan}
+                        </text>
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+export default HourglassChart;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Kinship, KinshipPerson, Person, relationshipsApi } from '../../api/client';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+interface KinshipCalculatorProps {
+    person: Person;
+    persons: Person[]; // Persons to compare with, usually the rest of the project
+    onViewPerson?: (personId: string) => void;
+}
+
+const MAX_GENERATION_OPTIONS = [5, 10, 15, 20];
+
+const getName = (person: KinshipPerson | null | undefined): string => {
+    if (!person || person.hidden) return 'Private';
+    return [person.first_name, person.last_name].filter(Boolean).join(' ') || 'Unnamed';
+};
+
+// Sentence describing the result, e.g. "Jane Smith is John Smith's second cousin once removed"
+const describeKinship = (kinship: Kinship): string => {
+    if (!kinship.related || !kinship.relationship) {
+        return `No relationship found within ${kinship.max_generations} generations.`;
+    }
+    if (kinship.kind === 'self') return 'These are the same person.';
+
+    const name1 = getName(kinship.person1);
+    const name2 = getName(kinship.person2);
+    const sentence = `${name2} is ${name1}'s ${kinship.relationship}.`;
+
+    return kinship.reciprocal && kinship.reciprocal !== kinship.relationship
+        ? `${sentence} ${name1} is ${name2}'s ${kinship.reciprocal}.`
+        : sentence;
+};
+
+const PersonLink: React.FC<{ person: KinshipPerson; onViewPerson?: (personId: string) => void }> = ({ person, onViewPerson }) => {
+    if (person.hidden || !person.person_id || !onViewPerson) {
+        return <span className={person.hidden ? 'italic text-gray-500 dark:text-gray-400' : ''}>{getName(person)}</span>;
+    }
+    const personId = person.person_id;
+
+    return (
+        <button
+            type="button"
+            className="text-primary-600 hover:underline dark:text-primary-400"
+            onClick={() => onViewPerson(personId)}
+        >
+            {getName(person)}
+        </button>
+    );
+};
+
+const KinshipCalculator: React.FC<KinshipCalculatorProps> = ({ person, persons, onViewPerson }) => {
+    const [otherPersonId, setOtherPersonId] = useState('');
+    const [maxGenerations, setMaxGenerations] = useState(10);
+    const [kinship, setKinship] = useState<Kinship | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const candidates = persons
+        .filter(candidate => candidate.person_id !== person.person_id)
+        .sort((a, b) => `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`));
+
+    const handleCalculate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!otherPersonId) return;
+
+        setLoading(true);
+        setError(null);
+        try {
+            setKinship(await relationshipsApi.getKinship(person.person_id, otherPersonId, maxGenerations));
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error working out the relationship:', errorMessage);
+            setError(errorMessage);
+            setKinship(null);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="border dark:border-gray-700 rounded-lg p-4">
+            <h4 className="text-md font-medium text-gray-900 dark:text-white mb-3">How are these two related?</h4>
+
+            <form onSubmit={handleCalculate} className="flex flex-wrap items-end gap-3">
+                <div className="flex-1 min-w-[12rem]">
+                    <label htmlFor="kinship-person" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Compare {person.first_name} with
+                    </label>
+                    <select
+                        id="kinship-person"
+                        className="form-select mt-1 block w-full rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        value={otherPersonId}
+                        onChange={(e) => {
+                            setOtherPersonId(e.target.value);
+                            setKinship(null);
+                        }}
+                    >
+                        <option value="">Select a person...</option>
+                        {candidates.map(candidate => (
+                            <option key={candidate.person_id} value={candidate.person_id}>
+                                {candidate.last_name}, {candidate.first_name}
+                                {candidate.birth_date ? ` (b. ${new Date(candidate.birth_date).getFullYear()})` : ''}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="kinship-generations" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Search back
+                    </label>
+                    <select
+                        id="kinship-generations"
+                        className="form-select mt-1 block w-full rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        value={maxGenerations}
+                        onChange={(e) => setMaxGenerations(Number(e.target.value))}
+                    >
+                        {MAX_GENERATION_OPTIONS.map(option => (
+                            <option key={option} value={option}>{option} generations</option>
+                        ))}
+                    </select>
+                </div>
+                <button type="submit" className="btn-primary" disabled={!otherPersonId || loading}>
+                    Calculate
+                </button>
+            </form>
+
+            {loading && <LoadingSpinner containerClassName="h-16" />}
+            {error && !loading && <div className="mt-3"><ErrorAlert message={error} /></div>}
+
+            {kinship && !loading && (
+                <div className="mt-4 space-y-3 text-sm text-gray-700 dark:text-gray-300">
+                    <p className="text-base font-medium text-gray-900 dark:text-white">{describeKinship(kinship)}</p>
+
+                    {kinship.related && kinship.through_spouse && (
+                        <p>Related by marriage through <PersonLink person={kinship.through_spouse} onViewPerson={onViewPerson} />.</p>
+                    )}
+
+                    {kinship.cousin && (
+                        <p>
+                            {kinship.generations && `${kinship.generations.person1} and ${kinship.generations.person2} generations from the common ancestors`}
+                            {kinship.half && ', sharing only one of them'}
+                        </p>
+                    )}
+
+                    {kinship.common_ancestors && kinship.common_ancestors.length > 0 && (
+                        <div>
+                            <h5 className="font-medium text-gray-700 dark:text-gray-300">Common ancestors</h5>
+                            <ul className="list-disc list-inside">
+                                {kinship.common_ancestors.map((ancestor, index) => (
+                                    <li key={ancestor.person_id || `hidden-${index}`}>
+                                        <PersonLink person={ancestor} onViewPerson={onViewPerson} />
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {kinship.path && kinship.path.length > 1 && (
+                        <div>
+                            <h5 className="font-medium text-gray-700 dark:text-gray-300">Connection</h5>
+                            <p className="flex flex-wrap items-center gap-1">
+                                {kinship.path.map((step, index) => (
+                                    <React.Fragment key={`${step.person_id || 'hidden'}-${index}`}>
+                                        {index > 0 && <span className="text-gray-400">→</span>}
+                                        <PersonLink person={step} onViewPerson={onViewPerson} />
+                                    </React.Fragment>
+                                ))}
+                            </p>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default KinshipCalculator;
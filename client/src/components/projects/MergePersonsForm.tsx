@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { MergeChoice, MergeField, Person, projectsApi } from '../../api/client';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import ErrorAlert from '../common/ErrorAlert';
+
+interface MergePersonsFormProps {
+    first: Person;
+    second: Person;
+    reasons: string[];
+    onCancel: () => void;
+    onMerged: (person: Person) => void;
+}
+
+const FIELDS: { field: MergeField; label: string }[] = [
+    { field: 'first_name', label: 'First name' },
+    { field: 'middle_name', label: 'Middle name' },
+    { field: 'last_name', label: 'Last name' },
+    { field: 'maiden_name', label: 'Maiden name' },
+    { field: 'gender', label: 'Gender' },
+    { field: 'birth_date', label: 'Birth date' },
+    { field: 'birth_location', label: 'Birth place' },
+    { field: 'death_date', label: 'Death date' },
+    { field: 'death_location', label: 'Death place' },
+    { field: 'notes', label: 'Notes' }
+];
+
+const displayValue = (person: Person, field: MergeField): string => {
+    if (field === 'birth_date') return formatGenealogicalDate(person.birth_date, person.birth_date_detail, '');
+    if (field === 'death_date') return formatGenealogicalDate(person.death_date, person.death_date_detail, '');
+    return person[field] || '';
+};
+
+// Keep the surviving record's values, except where only the duplicate has one
+const defaultChoices = (survivor: Person, duplicate: Person): Partial<Record<MergeField, MergeChoice>> =>
+    Object.fromEntries(FIELDS.map(({ field }) => [
+        field,
+        !displayValue(survivor, field) && displayValue(duplicate, field) ? 'duplicate' : 'survivor'
+    ]));
+
+const MergePersonsForm: React.FC<MergePersonsFormProps> = ({ first, second, reasons, onCancel, onMerged }) => {
+    const [survivor, setSurvivor] = useState(first);
+    const [duplicate, setDuplicate] = useState(second);
+    const [choices, setChoices] = useState(() => defaultChoices(first, second));
+    const [error, setError] = useState<string | null>(null);
+    const [isMerging, setIsMerging] = useState(false);
+
+    const rows = useMemo(() => FIELDS
+        .map(({ field, label }) => ({
+            field,
+            label,
+            survivorValue: displayValue(survivor, field),
+            duplicateValue: displayValue(duplicate, field)
+        }))
+        .filter(row => row.survivorValue || row.duplicateValue), [survivor, duplicate]);
+
+    const handleSwap = () => {
+        setSurvivor(duplicate);
+        setDuplicate(survivor);
+        setChoices(defaultChoices(duplicate, survivor));
+    };
+
+    const handleMerge = async () => {
+        setIsMerging(true);
+        setError(null);
+        try {
+            const result = await projectsApi.mergePersons(survivor.person_id, duplicate.person_id, choices);
+            onMerged(result.person);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error merging persons:', errorMessage);
+            setError(errorMessage);
+            setIsMerging(false);
+        }
+    };
+
+    const fullName = (person: Person) => [person.first_name, person.middle_name, person.last_name].filter(Boolean).join(' ');
+
+    return (
+        <div className="space-y-4">
+            {error && <ErrorAlert message={error} />}
+
+            <ul className="text-xs text-gray-500 dark:text-gray-400 list-disc list-inside">
+                {reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+
+            <div className="border border-gray-200 dark:border-gray-700 rounded-md overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-700">
+                        <tr>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">Field</th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">
+                                <span className="uppercase">Keep</span>: {fullName(survivor)}
+                            </th>
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">
+                                <span className="uppercase">Merge in</span>: {fullName(duplicate)}
+                            </th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {rows.map(({ field, label, survivorValue, duplicateValue }) => (
+                            <tr key={field}>
+                                <td className="px-3 py-2 text-gray-500 dark:text-gray-400 whitespace-nowrap">{label}</td>
+                                {([['survivor', survivorValue], ['duplicate', duplicateValue]] as const).map(([side, value]) => (
+                                    <td key={side} className="px-3 py-2 text-gray-900 dark:text-white">
+                                        <label className="flex items-start space-x-2">
+                                            <input
+                                                type="radio"
+                                                name={`merge-${field}`}
+                                                className="mt-1"
+                                                checked={choices[field] === side}
+                                                onChange={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                                                disabled={isMerging}
+                                            />
+                                            <span className={value ? 'whitespace-pre-line' : 'italic text-gray-400'}>
+                                                {value || 'Empty'}
+                                            </span>
+                                        </label>
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                Relationships, events, documents, projects and citations of {fullName(duplicate)} move to the kept record,
+                and {fullName(duplicate)} is then deleted. Both original records are kept in the merge history.
+            </p>
+
+            <div className="flex justify-between">
+                <button type="button" className="btn-secondary" onClick={handleSwap} disabled={isMerging}>
+                    Keep the other record
+                </button>
+                <div className="flex space-x-3">
+                    <button type="button" className="btn-secondary" onClick={onCancel} disabled={isMerging}>
+                        Back
+                    </button>
+                    <button type="button" className="btn-primary" onClick={handleMerge} disabled={isMerging}>
+                        {isMerging ? 'Merging...' : 'Merge Records'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MergePersonsForm;
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { NumberedPedigree, PedigreeNode, projectsApi } from '../../api/client';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import { lifespanLabel, PEDIGREE_CHART_VIEWS, PedigreeChartView, printChart } from '../../utils/pedigreeChartUtils';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+import FanChart from './FanChart';
+import HourglassChart from './HourglassChart';
+
+interface PersonChartsProps {
+    personId: string;
+    personName: string;
+    onViewPerson?: (personId: string) => void;
+}
+
+const GENERATION_OPTIONS = [2, 3, 4, 5];
+
+interface ChartData {
+    ancestors: NumberedPedigree<number>;
+    descendants: PedigreeNode | null;
+    numberedDescendants: NumberedPedigree<string> | null;
+}
+
+/**
+ * Ancestor and descendant charts of a person, drawn to a chosen depth and printable on their own
+ */
+const PersonCharts: React.FC<PersonChartsProps> = ({ personId, personName, onViewPerson }) => {
+    const [view, setView] = useState<PedigreeChartView>('fan');
+    const [generations, setGenerations] = useState(4);
+    const [data, setData] = useState<ChartData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const chartRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const fetchCharts = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                // Each view only asks for the formats it draws
+                const [ancestors, descendants, numberedDescendants] = await Promise.all([
+                    projectsApi.getPersonAncestors(personId, { generations, format: 'ahnentafel' }),
+                    view === 'hourglass' ? projectsApi.getPersonDescendants(personId, { generations }) : null,
+                    view === 'numbered' ? projectsApi.getPersonDescendants(personId, { generations, format: 'daboville' }) : null
+                ]);
+                if (!cancelled) setData({ ancestors, descendants, numberedDescendants });
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error loading charts:', errorMessage);
+                if (!cancelled) setError(errorMessage);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        fetchCharts();
+        return () => {
+            cancelled = true;
+        };
+    }, [personId, view, generations]);
+
+    const handlePrint = () => {
+        if (chartRef.current) {
+            printChart(chartRef.current, `${PEDIGREE_CHART_VIEWS[view]} of ${personName}`);
+        }
+    };
+
+    const renderChart = () => {
+        if (!data) return null;
+
+        if (view === 'fan') {
+            return <FanChart ancestors={data.ancestors} onSelectPerson={onViewPerson} />;
+        }
+
+        if (view === 'hourglass' && data.descendants) {
+            return <HourglassChart ancestors={data.ancestors} descendants={data.descendants} onSelectPerson={onViewPerson} />;
+        }
+
+        if (view === 'numbered' && data.numberedDescendants) {
+            return (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm text-gray-900">
+                    <div>
+                        <h4 className="font-medium mb-2">Ancestors (Ahnentafel)</h4>
+                        {data.ancestors.persons.length > 1 ? (
+                            <ol className="space-y-1">
+                                {data.ancestors.persons.map(person => (
+                                    <li key={person.number}>
+                                        <span className="inline-block w-10 text-right mr-2 text-gray-500">{person.number}.</span>
+                                        {person.name}
+                                        {lifespanLabel(person) && <span className="text-gray-500"> ({lifespanLabel(person)})</span>}
+                                    </li>
+                                ))}
+                            </ol>
+                        ) : (
+                            <p className="text-gray-500">No parents recorded yet.</p>
+                        )}
+                    </div>
+                    <div>
+                        <h4 className="font-medium mb-2">Descendants (d'Aboville)</h4>
+                        {data.numberedDescendants.persons.length > 1 ? (
+                            <ol className="space-y-1">
+                                {data.numberedDescendants.persons.map(person => (
+                                    <li key={person.number} style={{ paddingLeft: `${person.generation * 1.25}rem` }}>
+                                        <span className="mr-2 text-gray-500">{person.number}</span>
+                                        {person.name}
+                                        {lifespanLabel(person) && <span className="text-gray-500"> ({lifespanLabel(person)})</span>}
+                                    </li>
+                                ))}
+                            </ol>
+                        ) : (
+                            <p className="text-gray-500">No children recorded yet.</p>
+                        )}
+                    </div>
+                </div>
+            );
+        }
+
+        return null;
+    };
+
+    const hasRelatives = data && (data.ancestors.persons.length > 1 || view !== 'fan');
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-end gap-4 mb-4">
+                <div>
+                    <label htmlFor="chart-view" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Chart
+                    </label>
+                    <select
+                        id="chart-view"
+                        className="form-select dark:bg-gray-700 dark:text-white"
+                        value={view}
+                        onChange={(e) => setView(e.target.value as PedigreeChartView)}
+                    >
+                        {Object.entries(PEDIGREE_CHART_VIEWS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="chart-generations" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Generations
+                    </label>
+                    <select
+                        id="chart-generations"
+                        className="form-select dark:bg-gray-700 dark:text-white"
+                        value={generations}
+                        onChange={(e) => setGenerations(Number(e.target.value))}
+                    >
+                        {GENERATION_OPTIONS.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                </div>
+                <button type="button" className="btn-secondary ml-auto" onClick={handlePrint} disabled={loading || !data}>
+                    Print
+                </button>
+            </div>
+
+            {error && <ErrorAlert message={error} />}
+
+            {loading ? (
+                <LoadingSpinner containerClassName="h-32" size="md" />
+            ) : hasRelatives ? (
+                <div className="overflow-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white p-4">
+                    <div ref={chartRef}>{renderChart()}</div>
+                </div>
+            ) : data && (
+                <EmptyState message={`No ancestors of ${personName} have been recorded yet.`} />
+            )}
+        </div>
+    );
+};
+
+export default PersonCharts;
@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { PersonName, PersonNameType, projectsApi, Source, sourcesApi } from '../../api/client';
+import { formatGenealogicalDate, toGenealogicalDateFields, toGenealogicalDateText } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import ErrorAlert from '../common/ErrorAlert';
+import GenealogicalDateInput from '../common/GenealogicalDateInput';
+
+interface PersonNamesProps {
+    personId: string;
+    names: PersonName[];
+    projectId?: string; // Offers the project's sources when set
+    canEdit?: boolean;
+    onChanged: () => void; // Called after a name is added, changed or removed
+}
+
+const NAME_TYPE_LABELS: Record<PersonNameType, string> = {
+    birth: 'Birth name',
+    married: 'Married name',
+    alias: 'Alias',
+    religious: 'Religious name',
+    anglicized: 'Anglicized name'
+};
+
+const EMPTY_FORM = {
+    nameType: 'alias' as PersonNameType,
+    firstName: '',
+    middleName: '',
+    lastName: '',
+    startDate: '',
+    endDate: '',
+    sourceId: '',
+    notes: ''
+};
+
+const formatName = (name: PersonName): string =>
+    [name.first_name, name.middle_name, name.last_name].filter(Boolean).join(' ');
+
+// "1891 – 1920", "from 1891" or "until 1920"; empty when neither date is known
+const formatNamePeriod = (name: PersonName): string => {
+    const start = name.start_date ? formatGenealogicalDate(name.start_date, name.start_date_detail) : '';
+    const end = name.end_date ? formatGenealogicalDate(name.end_date, name.end_date_detail) : '';
+
+    if (start && end) return `${start} – ${end}`;
+    if (start) return `from ${start}`;
+    if (end) return `until ${end}`;
+    return '';
+};
+
+/**
+ * Other names a person is recorded under, such as a birth name or an anglicized name, with add/edit/remove for editors
+ */
+const PersonNames: React.FC<PersonNamesProps> = ({ personId, names, projectId, canEdit = false, onChanged }) => {
+    const [editingNameId, setEditingNameId] = useState<string | null>(null); // 'new' while adding
+    const [formData, setFormData] = useState(EMPTY_FORM);
+    const [sources, setSources] = useState<Source[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!editingNameId || !projectId) return;
+
+        sourcesApi.getSourcesByProjectId(projectId)
+            .then(setSources)
+            .catch(err => console.error('Error fetching sources:', err));
+    }, [editingNameId, projectId]);
+
+    const startEditing = (name?: PersonName) => {
+        setError(null);
+        if (!name) {
+            setFormData(EMPTY_FORM);
+            setEditingNameId('new');
+            return;
+        }
+
+        setFormData({
+            nameType: name.name_type,
+            firstName: name.first_name || '',
+            middleName: name.middle_name || '',
+            lastName: name.last_name || '',
+            startDate: toGenealogicalDateText(name.start_date, name.start_date_detail),
+            endDate: toGenealogicalDateText(name.end_date, name.end_date_detail),
+            sourceId: name.source_id || '',
+            notes: name.notes || ''
+        });
+        setEditingNameId(name.name_id);
+    };
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!formData.firstName.trim() && !formData.middleName.trim() && !formData.lastName.trim()) {
+            setError('Enter a first, middle or last name');
+            return;
+        }
+
+        const startDate = toGenealogicalDateFields(formData.startDate);
+        const endDate = toGenealogicalDateFields(formData.endDate);
+        const nameData = {
+            name_type: formData.nameType,
+            first_name: formData.firstName.trim() || null,
+            middle_name: formData.middleName.trim() || null,
+            last_name: formData.lastName.trim() || null,
+            start_date: startDate.date,
+            start_date_detail: startDate.detail,
+            end_date: endDate.date,
+            end_date_detail: endDate.detail,
+            source_id: formData.sourceId || null,
+            notes: formData.notes.trim() || null
+        };
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            if (editingNameId === 'new') {
+                await projectsApi.addPersonName(personId, nameData);
+            } else if (editingNameId) {
+                await projectsApi.updatePersonName(personId, editingNameId, nameData);
+            }
+            setEditingNameId(null);
+            onChanged();
+        } catch (err) {
+            setError(await getApiErrorMessage(err));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDelete = async (name: PersonName) => {
+        if (!window.confirm(`Remove the name "${formatName(name)}"?`)) {
+            return;
+        }
+
+        setError(null);
+        try {
+            await projectsApi.deletePersonName(personId, name.name_id);
+            onChanged();
+        } catch (err) {
+            setError(await getApiErrorMessage(err));
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Other Names</h3>
+                {canEdit && !editingNameId && (
+                    <button type="button" className="btn-secondary text-xs" onClick={() => startEditing()}>
+                        Add Name
+                    </button>
+                )}
+            </div>
+
+            {error && <ErrorAlert message={error} onDismiss={() => setError(null)} className="mb-4" />}
+
+            {names.length === 0 && !editingNameId && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No other names recorded.</p>
+            )}
+
+            {names.length > 0 && (
+                <ul className="space-y-3">
+                    {names.map(name => {
+                        const period = formatNamePeriod(name);
+
+                        return (
+                            <li key={name.name_id} className="flex items-start justify-between gap-4">
+                                <div>
+                                    <p className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                                        {NAME_TYPE_LABELS[name.name_type] || name.name_type}
+                                        {period && <span className="font-normal"> · {period}</span>}
+                                    </p>
+                                    <p className="text-gray-900 dark:text-white">{formatName(name)}</p>
+                                    {name.source && (
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">Source: {name.source.title}</p>
+                                    )}
+                                    {name.notes && (
+                                        <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-line">{name.notes}</p>
+                                    )}
+                                </div>
+                                {canEdit && !editingNameId && (
+                                    <div className="flex gap-2">
+                                        <button
+                                            type="button"
+                                            className="text-sm text-primary-600 hover:underline dark:text-primary-400"
+                                            onClick={() => startEditing(name)}
+                                        >
+                                            Edit
+                                        </button>
+                                        <button
+                                            type="button"
+                                            className="text-sm text-red-600 hover:underline dark:text-red-400"
+                                            onClick={() => handleDelete(name)}
+                                        >
+                                            Remove
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {editingNameId && (
+                <form onSubmit={handleSubmit} className="mt-4 space-y-3 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+                    <div>
+                        <label htmlFor="nameType" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Type
+                        </label>
+                        <select
+                            id="nameType"
+                            name="nameType"
+                            className="form-select w-full dark:bg-gray-700 dark:text-white"
+                            value={formData.nameType}
+                            onChange={handleChange}
+                        >
+                            {Object.entries(NAME_TYPE_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {([['firstName', 'First Name'], ['middleName', 'Middle Name'], ['lastName', 'Last Name']] as const).map(([field, label]) => (
+                            <div key={field}>
+                                <label htmlFor={field} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    {label}
+                                </label>
+                                <input
+                                    type="text"
+                                    id={field}
+                                    name={field}
+                                    className="form-input w-full dark:bg-gray-700 dark:text-white"
+                                    value={formData[field]}
+                                    onChange={handleChange}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="nameStartDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Used From
+                            </label>
+                            <GenealogicalDateInput id="nameStartDate" name="startDate" value={formData.startDate} onChange={handleChange} />
+                        </div>
+                        <div>
+                            <label htmlFor="nameEndDate" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Used Until
+                            </label>
+                            <GenealogicalDateInput id="nameEndDate" name="endDate" value={formData.endDate} onChange={handleChange} />
+                        </div>
+                    </div>
+
+                    {projectId && (
+                        <div>
+                            <label htmlFor="nameSourceId" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Source
+                            </label>
+                            <select
+                                id="nameSourceId"
+                                name="sourceId"
+                                className="form-select w-full dark:bg-gray-700 dark:text-white"
+                                value={formData.sourceId}
+                                onChange={handleChange}
+                            >
+                                <option value="">None</option>
+                                {sources.map(source => (
+                                    <option key={source.source_id} value={source.source_id}>{source.title}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
+                    <div>
+                        <label htmlFor="nameNotes" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Notes
+                        </label>
+                        <textarea
+                            id="nameNotes"
+                            name="notes"
+                            className="form-textarea w-full dark:bg-gray-700 dark:text-white"
+                            rows={2}
+                            value={formData.notes}
+                            onChange={handleChange}
+                        />
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <button type="button" className="btn-secondary" onClick={() => setEditingNameId(null)} disabled={isSubmitting}>
+                            Cancel
+                        </button>
+                        <button type="submit" className="btn-primary" disabled={isSubmitting}>
+                            {isSubmitting ? 'Saving...' : 'Save Name'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default PersonNames;
@@ -65,6 +65,11 @@ const PersonSelector: React.FC<PersonSelectorProps> = ({ onSelect }) => {
                             onClick={() => onSelect(person)}
                         >
                             <div className="font-medium">{person.first_name} {person.last_name}</div>
+                            {person.names && person.names.length > 0 && (
+                                <div className="text-xs text-gray-500 dark:text-gray-400">
+                                    Also known as {person.names.map(name => [name.first_name, name.last_name].filter(Boolean).join(' ')).join(', ')}
+                                </div>
+                            )}
                             <div className="text-sm text-gray-500 dark:text-gray-400">
                                 {person.birth_date && `Born: ${new Date(person.birth_date).getFullYear()}`}
                                 {person.birth_date && person.death_date && ' - '}
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { AuditSeverity, ProjectAudit, ProjectDetail, projectsApi } from '../../api/client';
+import { AUDIT_SEVERITY_CLASSES, AUDIT_SEVERITY_LABELS } from '../../utils/auditUtils';
+import { formatDateTime } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+interface ProjectDataQualityTabProps {
+    project: ProjectDetail;
+    onEditPerson: (personId: string) => void;
+}
+
+/**
+ * Project-wide data quality audit: every rule run over all persons and relationships, with the
+ * issues found listed for fixing one person at a time
+ */
+const ProjectDataQualityTab: React.FC<ProjectDataQualityTabProps> = ({ project, onEditPerson }) => {
+    const [audit, setAudit] = useState<ProjectAudit | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [severityFilter, setSeverityFilter] = useState<AuditSeverity | ''>('');
+    const [ruleFilter, setRuleFilter] = useState('');
+    const [personFilter, setPersonFilter] = useState('');
+    const [refreshCount, setRefreshCount] = useState(0);
+
+    // The audit is run again whenever the project is reloaded, e.g. after a person was edited
+    useEffect(() => {
+        const fetchAudit = async () => {
+            setLoading(true);
+            setError(null);
+            try {
+                setAudit(await projectsApi.getProjectAudit(project.id));
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error auditing project:', errorMessage);
+                setError(errorMessage);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchAudit();
+    }, [project, refreshCount]);
+
+    const personNames = new Map((project.persons || []).map(person => [person.person_id, `${person.first_name} ${person.last_name}`]));
+    const ruleTitles = new Map((audit?.rules || []).map(rule => [rule.id, rule.title]));
+    const search = personFilter.trim().toLowerCase();
+
+    const issues = (audit?.issues || []).filter(issue =>
+        (!severityFilter || issue.severity === severityFilter) &&
+        (!ruleFilter || issue.rule === ruleFilter) &&
+        (!search || [issue.person_id, ...issue.related_person_ids]
+            .some(id => (personNames.get(id) || issue.person_name).toLowerCase().includes(search)))
+    );
+    const errorCount = (audit?.issues || []).filter(issue => issue.severity === 'error').length;
+    const warningCount = (audit?.issues || []).length - errorCount;
+
+    const renderPersonButton = (personId: string, name: string) => (
+        <button
+            type="button"
+            className="text-primary-600 hover:underline dark:text-primary-400"
+            onClick={() => onEditPerson(personId)}
+        >
+            {name}
+        </button>
+    );
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div>
+                    <h3 className="text-lg font-medium text-gray-900 dark:text-white">Data Quality</h3>
+                    {audit && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+                            {' '}· checked {formatDateTime(audit.checked_at)}
+                        </p>
+                    )}
+                </div>
+                <button type="button" className="btn-secondary" onClick={() => setRefreshCount(count => count + 1)} disabled={loading}>
+                    {loading ? 'Checking...' : 'Check again'}
+                </button>
+            </div>
+
+            {error && <ErrorAlert message={error} />}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div>
+                    <label htmlFor="audit-severity" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Severity
+                    </label>
+                    <select
+                        id="audit-severity"
+                        className="form-select w-full dark:bg-gray-700 dark:text-white"
+                        value={severityFilter}
+                        onChange={(e) => setSeverityFilter(e.target.value as AuditSeverity | '')}
+                    >
+                        <option value="">All</option>
+                        {Object.entries(AUDIT_SEVERITY_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}s</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="audit-rule" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Check
+                    </label>
+                    <select
+                        id="audit-rule"
+                        className="form-select w-full dark:bg-gray-700 dark:text-white"
+                        value={ruleFilter}
+                        onChange={(e) => setRuleFilter(e.target.value)}
+                    >
+                        <option value="">All checks</option>
+                        {(audit?.rules || []).map(rule => (
+                            <option key={rule.id} value={rule.id}>{rule.title} ({rule.issue_count})</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="audit-person" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Person
+                    </label>
+                    <input
+                        id="audit-person"
+                        type="search"
+                        className="form-input w-full"
+                        value={personFilter}
+                        onChange={(e) => setPersonFilter(e.target.value)}
+                        placeholder="Filter by name"
+                    />
+                </div>
+            </div>
+
+            {!audit ? (
+                loading && <LoadingSpinner containerClassName="h-32" size="md" />
+            ) : issues.length === 0 ? (
+                <EmptyState
+                    message={audit.issues.length > 0 ? 'No issues match these filters.' : 'No data quality issues found in this project.'}
+                />
+            ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+                    {issues.map((issue, index) => (
+                        <li key={`${issue.rule}-${issue.entity_id}-${index}`} className="p-4 flex items-start gap-3">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${AUDIT_SEVERITY_CLASSES[issue.severity]}`}>
+                                {AUDIT_SEVERITY_LABELS[issue.severity]}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm text-gray-900 dark:text-white">{issue.message}</p>
+                                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                    {ruleTitles.get(issue.rule) || issue.rule}
+                                    {' · Edit '}
+                                    {[issue.person_id, ...issue.related_person_ids].map((personId, position) => (
+                                        <React.Fragment key={personId}>
+                                            {position > 0 && ', '}
+                                            {renderPersonButton(personId, personNames.get(personId) || 'Unnamed person')}
+                                        </React.Fragment>
+                                    ))}
+                                </p>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ProjectDataQualityTab;
@@ -171,6 +171,7 @@ const ProjectDocumentsTab: React.FC<ProjectDocumentsTabProps> = ({ project, onDo
                     title: doc.title,
                     type: doc.document_type,
                     uploaded_at: doc.upload_date,
+                    transcription: doc.transcription,
                     persons: doc.persons,
                     updated_at: doc.updated_at, // Include updated_at for sorting
                     date_of_original: doc.date_of_original // Include date_of_original for sorting
@@ -213,7 +214,8 @@ const ProjectDocumentsTab: React.FC<ProjectDocumentsTabProps> = ({ project, onDo
             const lowerSearchTerm = searchTerm.toLowerCase();
             const filtered = uniqueDocuments.filter(doc =>
                 doc.title.toLowerCase().includes(lowerSearchTerm) ||
-                (doc.type && doc.type.toLowerCase().includes(lowerSearchTerm))
+                (doc.type && doc.type.toLowerCase().includes(lowerSearchTerm)) ||
+                (doc.transcription && doc.transcription.toLowerCase().includes(lowerSearchTerm))
                 // ||
                 // (doc.person_name && doc.person_name.toLowerCase().includes(lowerSearchTerm))
             );
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { Person, ProjectDetail, projectsApi } from '../../api/client';
-import { formatDate } from '../../utils/dateUtils';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
 import ViewToggle from '../common/ViewToggle';
 
 interface ProjectFamilyMembersTabProps {
@@ -212,11 +212,12 @@ const ProjectFamilyMembersTab: React.FC<ProjectFamilyMembersTabProps> = ({
                                             </div>
 
                                             <div className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                                                {person.living && <p>Details withheld; may still be alive</p>}
                                                 {person.birth_date && (
-                                                    <p>Born: {formatDate(person.birth_date)}</p>
+                                                    <p>Born: {formatGenealogicalDate(person.birth_date, person.birth_date_detail)}</p>
                                                 )}
                                                 {person.death_date ? (
-                                                    <p>Died: {formatDate(person.death_date)}</p>
+                                                    <p>Died: {formatGenealogicalDate(person.death_date, person.death_date_detail)}</p>
                                                 ) : (
                                                     <p>&nbsp;</p>
                                                 )}
@@ -236,14 +237,15 @@ const ProjectFamilyMembersTab: React.FC<ProjectFamilyMembersTabProps> = ({
                                                     {person.first_name} {person.last_name}
                                                 </h3>
                                                 <div className="mt-1 flex items-center text-sm text-gray-500 dark:text-gray-400">
+                                                    {person.living && <span>Details withheld; may still be alive</span>}
                                                     {person.birth_date && (
-                                                        <span>Born: {formatDate(person.birth_date)}</span>
+                                                        <span>Born: {formatGenealogicalDate(person.birth_date, person.birth_date_detail)}</span>
                                                     )}
                                                     {person.birth_date && person.death_date && (
                                                         <span className="mx-2">•</span>
                                                     )}
                                                     {person.death_date && (
-                                                        <span>Died: {formatDate(person.death_date)}</span>
+                                                        <span>Died: {formatGenealogicalDate(person.death_date, person.death_date_detail)}</span>
                                                     )}
                                                 </div>
                                                 {person.project_persons?.notes && (
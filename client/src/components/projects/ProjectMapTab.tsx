@@ -0,0 +1,417 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MigrationEventType, MigrationMap, MigrationPoint, ProjectDetail, projectsApi } from '../../api/client';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import {
+    curvedPath,
+    fitFrame,
+    getDateYear,
+    graticuleLines,
+    MAP_HEIGHT,
+    MAP_WIDTH,
+    projectPoint,
+    ringPath
+} from '../../utils/mapUtils';
+import { WORLD_LAND } from '../../utils/worldOutline';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+interface ProjectMapTabProps {
+    project: ProjectDetail;
+    onViewPerson: (personId: string) => void;
+}
+
+interface ViewTransform {
+    x: number;
+    y: number;
+    scale: number;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 12;
+const DEFAULT_TRANSFORM: ViewTransform = { x: 0, y: 0, scale: 1 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const EVENT_STYLES: Record<MigrationEventType, { label: string; color: string }> = {
+    birth: { label: 'Birth', color: '#16a34a' },
+    marriage: { label: 'Marriage', color: '#db2777' },
+    immigration: { label: 'Immigration', color: '#2563eb' },
+    death: { label: 'Death', color: '#4b5563' }
+};
+
+const LINEAGE_COLORS = ['#ea580c', '#7c3aed', '#0891b2', '#ca8a04', '#dc2626', '#059669', '#4f46e5', '#be185d'];
+
+const PRECISION_LABELS: Record<MigrationPoint['precision'], string> = {
+    place: 'linked place',
+    city: 'city',
+    county: 'county',
+    state: 'state',
+    country: 'country'
+};
+
+const ProjectMapTab: React.FC<ProjectMapTabProps> = ({ project, onViewPerson }) => {
+    const [map, setMap] = useState<MigrationMap | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [year, setYear] = useState<number | null>(null);
+    const [hiddenLineages, setHiddenLineages] = useState<Set<string>>(new Set());
+    const [routePersonId, setRoutePersonId] = useState('');
+    const [transform, setTransform] = useState<ViewTransform>(DEFAULT_TRANSFORM);
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+    useEffect(() => {
+        const fetchMap = async () => {
+            try {
+                setIsLoading(true);
+                setMap(await projectsApi.getMigrationMap(project.id));
+                setError(null);
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error fetching migration map:', errorMessage);
+                setError('Failed to load the migration map');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchMap();
+    }, [project.id]);
+
+    const personsById = useMemo(() => new Map((map?.persons || []).map(person => [person.person_id, person])), [map]);
+
+    const lineageColors = useMemo(() => new Map(
+        (map?.lineages || []).map((lineage, index) => [lineage.name, LINEAGE_COLORS[index % LINEAGE_COLORS.length]])
+    ), [map]);
+
+    const years = useMemo(() => {
+        const dated = (map?.points || []).map(point => getDateYear(point.date)).filter((value): value is number => value !== null);
+        return dated.length > 0 ? { min: Math.min(...dated), max: Math.max(...dated) } : null;
+    }, [map]);
+
+    // The slider starts at the last year, showing everything
+    const shownYear = year ?? years?.max ?? null;
+
+    const frame = useMemo(() => fitFrame((map?.points || []).map(point => [point.longitude, point.latitude])), [map]);
+    const land = useMemo(() => WORLD_LAND.map(outline => ringPath(frame, outline.coordinates)), [frame]);
+    const graticule = useMemo(() => graticuleLines(frame), [frame]);
+
+    // Points of the shown lineages up to the slider's year; undated points are always shown
+    const visiblePoints = useMemo(() => (map?.points || []).filter(point => {
+        const person = personsById.get(point.person_id);
+        if (person && hiddenLineages.has(person.lineage)) return false;
+        const pointYear = getDateYear(point.date);
+        return pointYear === null || shownYear === null || pointYear <= shownYear;
+    }), [map, personsById, hiddenLineages, shownYear]);
+
+    const birthPositions = useMemo(() => {
+        const positions = new Map<string, [number, number]>();
+        for (const point of visiblePoints) {
+            if (point.event_type === 'birth' && !positions.has(point.person_id)) {
+                positions.set(point.person_id, projectPoint(frame, point.longitude, point.latitude));
+            }
+        }
+        return positions;
+    }, [visiblePoints, frame]);
+
+    // Each person's dated moves in order, or only the chosen person's
+    const routes = useMemo(() => {
+        const byPerson = new Map<string, Array<[number, number]>>();
+        for (const point of visiblePoints) {
+            if (!point.date || (routePersonId && point.person_id !== routePersonId)) continue;
+            if (!byPerson.has(point.person_id)) byPerson.set(point.person_id, []);
+            byPerson.get(point.person_id)!.push(projectPoint(frame, point.longitude, point.latitude));
+        }
+        return [...byPerson].filter(([, positions]) => positions.length > 1);
+    }, [visiblePoints, routePersonId, frame]);
+
+    // Wheel zoom needs a non-passive listener so the page does not scroll underneath the map
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = container.getBoundingClientRect();
+            const pointerX = ((e.clientX - rect.left) / rect.width) * MAP_WIDTH;
+            const pointerY = ((e.clientY - rect.top) / rect.height) * MAP_HEIGHT;
+
+            setTransform(current => {
+                const scale = clampScale(current.scale * (e.deltaY < 0 ? 1.2 : 1 / 1.2));
+                const ratio = scale / current.scale;
+                // Keep the point under the cursor fixed while zooming
+                return {
+                    scale,
+                    x: pointerX - (pointerX - current.x) * ratio,
+                    y: pointerY - (pointerY - current.y) * ratio
+                };
+            });
+        };
+
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, [map]);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        // Let clicks on points through
+        if ((e.target as Element).closest('[data-map-point]')) return;
+        dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: transform.x, y: transform.y };
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragStart.current;
+        if (!start) return;
+        // Pointer movement is in screen pixels, the map in its own units
+        const unitsPerPixel = MAP_WIDTH / e.currentTarget.getBoundingClientRect().width;
+        setTransform(current => ({
+            ...current,
+            x: start.x + (e.clientX - start.pointerX) * unitsPerPixel,
+            y: start.y + (e.clientY - start.pointerY) * unitsPerPixel
+        }));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        dragStart.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+    };
+
+    const zoomBy = (factor: number) => {
+        setTransform(current => {
+            const scale = clampScale(current.scale * factor);
+            const ratio = scale / current.scale;
+            return {
+                scale,
+                x: MAP_WIDTH / 2 - (MAP_WIDTH / 2 - current.x) * ratio,
+                y: MAP_HEIGHT / 2 - (MAP_HEIGHT / 2 - current.y) * ratio
+            };
+        });
+    };
+
+    const toggleLineage = (name: string) => {
+        setHiddenLineages(current => {
+            const next = new Set(current);
+            if (next.has(name)) {
+                next.delete(name);
+            } else {
+                next.add(name);
+            }
+            return next;
+        });
+    };
+
+    const describePoint = (point: MigrationPoint) => {
+        const person = personsById.get(point.person_id);
+        const date = point.date ? formatGenealogicalDate(point.date, point.date_detail) : 'date unknown';
+        return `${person?.name || 'Unknown'}: ${EVENT_STYLES[point.event_type].label}, ${date}\n${point.location} (placed at ${PRECISION_LABELS[point.precision]})`;
+    };
+
+    if (isLoading) {
+        return <LoadingSpinner containerClassName="h-32" size="md" />;
+    }
+
+    if (error) {
+        return <ErrorAlert message={error} />;
+    }
+
+    if (!map || map.persons.length === 0) {
+        return <EmptyState message="No family members have been added to this project yet." />;
+    }
+
+    const pointRadius = 5 / transform.scale;
+
+    return (
+        <div>
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-4">
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Migration Map</h3>
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        aria-label="Route"
+                        className="form-select pl-3 pr-8 py-2 text-sm border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white min-w-48"
+                        value={routePersonId}
+                        onChange={(e) => setRoutePersonId(e.target.value)}
+                    >
+                        <option value="">Routes of everyone</option>
+                        {map.persons.map(person => (
+                            <option key={person.person_id} value={person.person_id}>Route of {person.name}</option>
+                        ))}
+                    </select>
+
+                    <div className="flex space-x-1">
+                        <button className="btn-secondary px-3" onClick={() => zoomBy(1.5)} title="Zoom in">+</button>
+                        <button className="btn-secondary px-3" onClick={() => zoomBy(1 / 1.5)} title="Zoom out">−</button>
+                        <button className="btn-secondary" onClick={() => setTransform(DEFAULT_TRANSFORM)} title="Reset view">
+                            Reset
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {years && years.min < years.max && shownYear !== null && (
+                <div className="flex items-center gap-3 mb-3">
+                    <label htmlFor="map-year" className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                        Up to {shownYear}
+                    </label>
+                    <input
+                        id="map-year"
+                        type="range"
+                        className="flex-1 accent-primary-600"
+                        min={years.min}
+                        max={years.max}
+                        value={shownYear}
+                        onChange={(e) => setYear(parseInt(e.target.value, 10))}
+                    />
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{years.min} – {years.max}</span>
+                </div>
+            )}
+
+            <div
+                ref={containerRef}
+                className="relative overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700 bg-sky-50 dark:bg-slate-900 cursor-grab active:cursor-grabbing select-none touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+            >
+                <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="block w-full h-auto">
+                    <g transform={`translate(${transform.x}, ${transform.y}) scale(${transform.scale})`}>
+                        {graticule.map((line, index) => (
+                            <path key={index} d={line} className="fill-none stroke-sky-200 dark:stroke-slate-700" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+                        ))}
+                        {land.map((path, index) => (
+                            <path key={index} d={path} className="fill-stone-100 stroke-stone-400 dark:fill-slate-700 dark:stroke-slate-500" strokeWidth={0.75} vectorEffect="non-scaling-stroke" />
+                        ))}
+
+                        {map.links.map(link => {
+                            const from = birthPositions.get(link.parent_id);
+                            const to = birthPositions.get(link.child_id);
+                            if (!from || !to || hiddenLineages.has(link.lineage)) return null;
+                            return (
+                                <line
+                                    key={`${link.parent_id}:${link.child_id}`}
+                                    x1={from[0]}
+                                    y1={from[1]}
+                                    x2={to[0]}
+                                    y2={to[1]}
+                                    stroke={lineageColors.get(link.lineage)}
+                                    strokeWidth={2}
+                                    strokeDasharray="6 4"
+                                    vectorEffect="non-scaling-stroke"
+                                >
+                                    <title>{`${personsById.get(link.parent_id)?.name} → ${personsById.get(link.child_id)?.name} (${link.lineage} line)`}</title>
+                                </line>
+                            );
+                        })}
+
+                        {routes.map(([personId, positions]) => (
+                            <g key={personId}>
+                                {positions.slice(1).map((position, index) => (
+                                    <path
+                                        key={index}
+                                        d={curvedPath(positions[index], position)}
+                                        className="fill-none"
+                                        stroke={lineageColors.get(personsById.get(personId)?.lineage || '')}
+                                        strokeOpacity={routePersonId ? 0.9 : 0.45}
+                                        strokeWidth={routePersonId ? 3 : 1.5}
+                                        vectorEffect="non-scaling-stroke"
+                                    />
+                                ))}
+                            </g>
+                        ))}
+
+                        {visiblePoints.map((point, index) => {
+                            const [x, y] = projectPoint(frame, point.longitude, point.latitude);
+                            const dimmed = routePersonId !== '' && point.person_id !== routePersonId;
+                            return (
+                                <circle
+                                    key={`${point.person_id}:${point.event_id || point.event_type}:${index}`}
+                                    data-map-point
+                                    cx={x}
+                                    cy={y}
+                                    r={pointRadius}
+                                    fill={point.date ? EVENT_STYLES[point.event_type].color : 'white'}
+                                    stroke={EVENT_STYLES[point.event_type].color}
+                                    strokeWidth={1.5}
+                                    opacity={dimmed ? 0.3 : 1}
+                                    vectorEffect="non-scaling-stroke"
+                                    className="cursor-pointer"
+                                    onClick={() => onViewPerson(point.person_id)}
+                                >
+                                    <title>{describePoint(point)}</title>
+                                </circle>
+                            );
+                        })}
+                    </g>
+                </svg>
+            </div>
+
+            <div className="mt-3 flex flex-wrap gap-x-6 gap-y-2 text-xs text-gray-600 dark:text-gray-300">
+                {Object.entries(EVENT_STYLES).map(([type, style]) => (
+                    <span key={type} className="flex items-center gap-1">
+                        <span className="inline-block h-3 w-3 rounded-full" style={{ backgroundColor: style.color }} />
+                        {style.label}
+                    </span>
+                ))}
+                <span className="flex items-center gap-1">
+                    <span className="inline-block h-3 w-3 rounded-full border-2 border-gray-500" />
+                    Date unknown
+                </span>
+            </div>
+
+            {map.lineages.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                    {map.lineages.map(lineage => (
+                        <label key={lineage.name} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                            <input
+                                type="checkbox"
+                                className="rounded"
+                                checked={!hiddenLineages.has(lineage.name)}
+                                onChange={() => toggleLineage(lineage.name)}
+                            />
+                            <span className="inline-block h-1 w-4" style={{ backgroundColor: lineageColors.get(lineage.name) }} />
+                            {lineage.name} ({lineage.person_ids.length})
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Drag to pan, scroll to zoom. Dashed lines join parents to children by birthplace; solid lines follow a person's moves in date order.
+                Click a point to view the person.
+            </p>
+
+            {map.unlocated.length > 0 && (
+                <div className="mt-4">
+                    <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+                        Not on the map ({map.unlocated.length})
+                    </h4>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                        These locations name no place in the gazetteer. Linking them to a place puts them on the map.
+                    </p>
+                    <ul className="text-sm text-gray-700 dark:text-gray-300 list-disc pl-5">
+                        {map.unlocated.map((entry, index) => (
+                            <li key={`${entry.person_id}:${entry.event_id || entry.event_type}:${index}`}>
+                                <button
+                                    type="button"
+                                    className="text-primary-600 dark:text-primary-400 hover:underline"
+                                    onClick={() => onViewPerson(entry.person_id)}
+                                >
+                                    {personsById.get(entry.person_id)?.name || 'Unknown'}
+                                </button>
+                                {' '}{EVENT_STYLES[entry.event_type].label.toLowerCase()}: {entry.location}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProjectMapTab;
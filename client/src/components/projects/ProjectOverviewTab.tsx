@@ -1,6 +1,8 @@
 import React, { useEffect, useState } from 'react';
-import { ProjectDetail, UserEvent, projectsApi } from '../../api/client';
+import { ProjectDetail, ReportFormat, ReportNumbering, UserEvent, projectsApi } from '../../api/client';
+import { hasRole } from '../../utils/auth';
 import { formatDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
 import { getActivityIcon } from '../../utils/iconUtils';
 import EmptyState from '../common/EmptyState';
 import LoadingSpinner from '../common/LoadingSpinner';
@@ -15,6 +17,15 @@ const ProjectOverviewTab: React.FC<ProjectOverviewTabProps> = ({ project }) => {
     const [isLoading, setIsLoading] = useState(true);
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [reportFormat, setReportFormat] = useState<ReportFormat>('pdf');
+    const [reportNumbering, setReportNumbering] = useState<ReportNumbering>('register');
+    const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+    const [isEmailingReport, setIsEmailingReport] = useState(false);
+    const [reportError, setReportError] = useState<string | null>(null);
+    const [reportMessage, setReportMessage] = useState<string | null>(null);
+    const isManager = hasRole('manager');
 
     useEffect(() => {
         const fetchRecentActivity = async () => {
@@ -39,11 +50,142 @@ const ProjectOverviewTab: React.FC<ProjectOverviewTabProps> = ({ project }) => {
         fetchRecentActivity();
     }, [project.id]);
 
+    const saveFile = (blob: Blob, fileName: string) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleDownloadGedcom = async () => {
+        setIsExporting(true);
+        setExportError(null);
+        try {
+            const { blob, fileName } = await projectsApi.exportGedcom(project.id);
+            saveFile(blob, fileName);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error exporting GEDCOM:', errorMessage);
+            setExportError(errorMessage);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleDownloadReport = async () => {
+        setIsGeneratingReport(true);
+        setReportError(null);
+        setReportMessage(null);
+        try {
+            const { blob, fileName } = await projectsApi.downloadReport(project.id, {
+                format: reportFormat,
+                numbering: reportNumbering
+            });
+            saveFile(blob, fileName);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error generating report:', errorMessage);
+            setReportError(errorMessage);
+        } finally {
+            setIsGeneratingReport(false);
+        }
+    };
+
+    const handleEmailReport = async () => {
+        setIsEmailingReport(true);
+        setReportError(null);
+        setReportMessage(null);
+        try {
+            const result = await projectsApi.emailReport(project.id, {
+                format: reportFormat,
+                numbering: reportNumbering
+            });
+            setReportMessage(result.message);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error emailing report:', errorMessage);
+            setReportError(errorMessage);
+        } finally {
+            setIsEmailingReport(false);
+        }
+    };
+
     return (
         <div className="prose max-w-none dark:prose-invert">
-            <h3 className="text-lg font-medium text-gray-900 dark:text-white">Project Description</h3>
+            <div className="flex justify-between items-center">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Project Description</h3>
+                <button
+                    onClick={handleDownloadGedcom}
+                    className="btn-secondary text-sm"
+                    disabled={isExporting}
+                    title="Download this project's family tree as a GEDCOM file for use in other genealogy software"
+                >
+                    {isExporting ? 'Preparing...' : 'Download GEDCOM'}
+                </button>
+            </div>
+            {exportError && (
+                <p className="mt-2 text-sm text-red-600 dark:text-red-400">{exportError}</p>
+            )}
             <p className="mt-2 text-gray-600 dark:text-gray-300">{project.description}</p>
 
+            <div className="not-prose mt-6 rounded-md border border-gray-200 dark:border-gray-700 p-4">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white">Family History Report</h3>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                    A printable report with a pedigree chart, biographies, document thumbnails, source notes and an index of names.
+                </p>
+                <div className="mt-3 flex flex-wrap items-end gap-2">
+                    <div>
+                        <label htmlFor="report-format" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Format</label>
+                        <select
+                            id="report-format"
+                            className="form-select dark:bg-gray-700 dark:text-white"
+                            value={reportFormat}
+                            onChange={(e) => setReportFormat(e.target.value as ReportFormat)}
+                        >
+                            <option value="pdf">PDF</option>
+                            <option value="html">HTML</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="report-numbering" className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Numbering</label>
+                        <select
+                            id="report-numbering"
+                            className="form-select dark:bg-gray-700 dark:text-white"
+                            value={reportNumbering}
+                            onChange={(e) => setReportNumbering(e.target.value as ReportNumbering)}
+                        >
+                            <option value="register">Register</option>
+                            <option value="ngsq">NGSQ</option>
+                        </select>
+                    </div>
+                    <button
+                        onClick={handleDownloadReport}
+                        className="btn-primary text-sm"
+                        disabled={isGeneratingReport}
+                    >
+                        {isGeneratingReport ? 'Generating...' : 'Download Report'}
+                    </button>
+                    <button
+                        onClick={handleEmailReport}
+                        className="btn-secondary text-sm"
+                        disabled={isEmailingReport}
+                        title={isManager ? 'Email the report to the clients on this project' : 'Email the report to yourself'}
+                    >
+                        {isEmailingReport ? 'Sending...' : isManager ? 'Email to Clients' : 'Email to Me'}
+                    </button>
+                </div>
+                {reportError && (
+                    <p className="mt-2 text-sm text-red-600 dark:text-red-400">{reportError}</p>
+                )}
+                {reportMessage && (
+                    <p className="mt-2 text-sm text-green-600 dark:text-green-400">{reportMessage}</p>
+                )}
+            </div>
+
             <div className="flex justify-between items-center mt-6">
                 <h3 className="text-lg font-medium text-gray-900 dark:text-white">Recent Activity</h3>
                 {recentActivity.length > 0 && (
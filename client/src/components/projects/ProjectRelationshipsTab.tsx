@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { ProjectDetail, Relationship, relationshipsApi } from '../../api/client';
-import { formatDate } from '../../utils/dateUtils';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
 import ConfirmDeleteModal from '../common/ConfirmDeleteModal';
 import ErrorAlert from '../common/ErrorAlert';
 import LoadingSpinner from '../common/LoadingSpinner';
@@ -287,13 +287,13 @@ const ProjectRelationshipsTab: React.FC<ProjectRelationshipsTabProps> = ({ proje
                                         {(relationship.start_date || relationship.end_date) && (
                                             <div className="text-sm text-gray-500 dark:text-gray-400 mt-2 text-center">
                                                 {relationship.start_date && (
-                                                    <span>From: {formatDate(relationship.start_date)}</span>
+                                                    <span>From: {formatGenealogicalDate(relationship.start_date, relationship.start_date_detail)}</span>
                                                 )}
                                                 {relationship.start_date && relationship.end_date && (
                                                     <span className="mx-1">-</span>
                                                 )}
                                                 {relationship.end_date && (
-                                                    <span>To: {formatDate(relationship.end_date)}</span>
+                                                    <span>To: {formatGenealogicalDate(relationship.end_date, relationship.end_date_detail)}</span>
                                                 )}
                                             </div>
                                         )}
@@ -354,13 +354,13 @@ const ProjectRelationshipsTab: React.FC<ProjectRelationshipsTabProps> = ({ proje
                                                 {(relationship.start_date || relationship.end_date) && (
                                                     <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
                                                         {relationship.start_date && (
-                                                            <span>From: {formatDate(relationship.start_date)}</span>
+                                                            <span>From: {formatGenealogicalDate(relationship.start_date, relationship.start_date_detail)}</span>
                                                         )}
                                                         {relationship.start_date && relationship.end_date && (
                                                             <span className="mx-2">-</span>
                                                         )}
                                                         {relationship.end_date && (
-                                                            <span>To: {formatDate(relationship.end_date)}</span>
+                                                            <span>To: {formatGenealogicalDate(relationship.end_date, relationship.end_date_detail)}</span>
                                                         )}
                                                     </div>
                                                 )}
@@ -0,0 +1,397 @@
+import React, { useEffect, useState } from 'react';
+import {
+    ProjectDetail,
+    ResearchLogEntry,
+    ResearchTask,
+    ResearchTaskPriority,
+    managerApi,
+    researchApi
+} from '../../api/client';
+import { User } from '../../utils/auth';
+import { formatDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import {
+    RESEARCH_RESULT_CLASSES,
+    RESEARCH_RESULT_LABELS,
+    TASK_PRIORITY_DOT_CLASSES,
+    TASK_PRIORITY_LABELS,
+    isTaskOverdue
+} from '../../utils/researchUtils';
+import ConfirmDeleteModal from '../common/ConfirmDeleteModal';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+import ResearchLogEntryModal from './ResearchLogEntryModal';
+
+interface ProjectResearchLogTabProps {
+    project: ProjectDetail;
+}
+
+type Assignee = Pick<User, 'user_id' | 'first_name' | 'last_name'>;
+
+const emptyTask = {
+    title: '',
+    assignee_id: '',
+    due_date: '',
+    priority: 'medium' as ResearchTaskPriority
+};
+
+/**
+ * Research log of a project: every search carried out, including those that found nothing, and
+ * the tasks still to be done.
+ */
+const ProjectResearchLogTab: React.FC<ProjectResearchLogTabProps> = ({ project }) => {
+    const [entries, setEntries] = useState<ResearchLogEntry[]>([]);
+    const [tasks, setTasks] = useState<ResearchTask[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+    // The entry being edited, or 'new' while recording a new search
+    const [entryFormTarget, setEntryFormTarget] = useState<ResearchLogEntry | 'new' | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<{ type: 'entry' | 'task'; id: string } | null>(null);
+
+    const [newTask, setNewTask] = useState(emptyTask);
+    const [isAddingTask, setIsAddingTask] = useState(false);
+    const [managers, setManagers] = useState<Assignee[]>([]);
+
+    const currentUser: User = JSON.parse(localStorage.getItem('user') || '{}');
+    const isManager = currentUser?.roles?.includes('manager');
+    const canEdit = project.access_level === 'edit' && project.status !== 'completed';
+
+    const fetchResearchLog = async () => {
+        try {
+            const data = await researchApi.getProjectResearchLog(project.id);
+            setEntries(data.entries);
+            setTasks(data.tasks);
+            setError(null);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error fetching research log:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchResearchLog();
+    }, [project.id]);
+
+    // Tasks can be assigned to managers; other users can assign tasks to themselves
+    const assignees: Assignee[] = isManager ? managers : [currentUser];
+
+    useEffect(() => {
+        if (!canEdit || !isManager) return;
+
+        managerApi.getUsers('managers', 1, 0)
+            .then(({ users }) => setManagers(users))
+            .catch(async (err: unknown) => {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error fetching managers:', errorMessage);
+            });
+    }, [canEdit, isManager]);
+
+    const showSuccess = (message: string) => {
+        setSuccessMessage(message);
+        setTimeout(() => setSuccessMessage(null), 3000);
+    };
+
+    const handleEntrySaved = () => {
+        showSuccess(entryFormTarget === 'new' ? 'Search recorded in the research log' : 'Research log entry updated');
+        setEntryFormTarget(null);
+        fetchResearchLog();
+    };
+
+    const handleAddTask = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newTask.title.trim()) return;
+
+        try {
+            setIsAddingTask(true);
+            await researchApi.createTask({
+                project_id: project.id,
+                title: newTask.title.trim(),
+                assignee_id: newTask.assignee_id || null,
+                due_date: newTask.due_date || null,
+                priority: newTask.priority
+            });
+            setNewTask(emptyTask);
+            fetchResearchLog();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error adding task:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsAddingTask(false);
+        }
+    };
+
+    const handleToggleTask = async (task: ResearchTask) => {
+        try {
+            await researchApi.updateTask(task.task_id, { status: task.status === 'done' ? 'open' : 'done' });
+            fetchResearchLog();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error updating task:', errorMessage);
+            setError(errorMessage);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!deleteTarget) return;
+
+        try {
+            if (deleteTarget.type === 'entry') {
+                await researchApi.deleteEntry(deleteTarget.id);
+                showSuccess('Research log entry deleted');
+            } else {
+                await researchApi.deleteTask(deleteTarget.id);
+                showSuccess('Task deleted');
+            }
+            fetchResearchLog();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error deleting from research log:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setDeleteTarget(null);
+        }
+    };
+
+    if (isLoading) {
+        return <LoadingSpinner containerClassName="h-32" size="md" />;
+    }
+
+    return (
+        <div className="space-y-6">
+            {successMessage && (
+                <div className="bg-green-50 dark:bg-green-900/30 p-4 rounded-md">
+                    <p className="text-sm text-green-700 dark:text-green-400">{successMessage}</p>
+                </div>
+            )}
+
+            {error && <ErrorAlert message={error} />}
+
+            {/* Tasks */}
+            <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg overflow-hidden">
+                <div className="px-4 py-5 sm:px-6">
+                    <h3 className="text-xl font-medium text-gray-900 dark:text-white">Tasks</h3>
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                        Research still to be done on this project
+                    </p>
+                </div>
+
+                {canEdit && (
+                    <form onSubmit={handleAddTask} className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 grid grid-cols-1 md:grid-cols-6 gap-2">
+                        <input
+                            type="text"
+                            aria-label="Task"
+                            className="md:col-span-2 form-input dark:bg-gray-700 dark:text-white"
+                            placeholder="Add a task..."
+                            value={newTask.title}
+                            onChange={(e) => setNewTask(prev => ({ ...prev, title: e.target.value }))}
+                            disabled={isAddingTask}
+                        />
+                        <select
+                            aria-label="Assignee"
+                            className="form-select dark:bg-gray-700 dark:text-white"
+                            value={newTask.assignee_id}
+                            onChange={(e) => setNewTask(prev => ({ ...prev, assignee_id: e.target.value }))}
+                        >
+                            <option value="">Unassigned</option>
+                            {assignees.map(user => (
+                                <option key={user.user_id} value={user.user_id}>{user.first_name} {user.last_name}</option>
+                            ))}
+                        </select>
+                        <input
+                            type="date"
+                            aria-label="Due date"
+                            className="form-input dark:bg-gray-700 dark:text-white"
+                            value={newTask.due_date}
+                            onChange={(e) => setNewTask(prev => ({ ...prev, due_date: e.target.value }))}
+                        />
+                        <select
+                            aria-label="Priority"
+                            className="form-select dark:bg-gray-700 dark:text-white"
+                            value={newTask.priority}
+                            onChange={(e) => setNewTask(prev => ({ ...prev, priority: e.target.value as ResearchTaskPriority }))}
+                        >
+                            {Object.entries(TASK_PRIORITY_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label} priority</option>
+                            ))}
+                        </select>
+                        <button type="submit" className="btn-primary whitespace-nowrap" disabled={isAddingTask || !newTask.title.trim()}>
+                            {isAddingTask ? 'Adding...' : 'Add Task'}
+                        </button>
+                    </form>
+                )}
+
+                <div className="px-4 py-5 sm:p-6">
+                    {tasks.length === 0 ? (
+                        <EmptyState message="No tasks have been added to this project yet." />
+                    ) : (
+                        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {tasks.map(task => (
+                                <li key={task.task_id} className="flex items-center py-3 group">
+                                    <input
+                                        type="checkbox"
+                                        className="form-checkbox mr-3"
+                                        aria-label={task.status === 'done' ? 'Reopen task' : 'Mark task as done'}
+                                        checked={task.status === 'done'}
+                                        onChange={() => handleToggleTask(task)}
+                                        disabled={!canEdit}
+                                    />
+                                    <span className={`h-2.5 w-2.5 rounded-full mr-3 flex-shrink-0 ${TASK_PRIORITY_DOT_CLASSES[task.priority]}`} title={`${TASK_PRIORITY_LABELS[task.priority]} priority`}></span>
+                                    <div className="flex-1 min-w-0">
+                                        <p className={`text-sm ${task.status === 'done' ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-900 dark:text-white'}`}>
+                                            {task.title}
+                                        </p>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                                            {task.assignee ? `${task.assignee.first_name} ${task.assignee.last_name}` : 'Unassigned'}
+                                            {task.due_date && (
+                                                <span className={isTaskOverdue(task) ? 'text-red-600 dark:text-red-400' : undefined}>
+                                                    {' · '}Due {formatDate(task.due_date)}
+                                                </span>
+                                            )}
+                                            {task.status === 'done' && task.completed_at && ` · Done ${formatDate(task.completed_at)}`}
+                                        </p>
+                                    </div>
+                                    {canEdit && (
+                                        <button
+                                            type="button"
+                                            className="ml-2 text-sm text-red-500 hover:text-red-700 hidden group-hover:block"
+                                            onClick={() => setDeleteTarget({ type: 'task', id: task.task_id })}
+                                        >
+                                            Delete
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+
+            {/* Research log */}
+            <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg overflow-hidden">
+                <div className="px-4 py-5 sm:px-6 flex items-start justify-between">
+                    <div>
+                        <h3 className="text-xl font-medium text-gray-900 dark:text-white">Research Log</h3>
+                        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                            Every search carried out, including those that found nothing
+                        </p>
+                    </div>
+                    {canEdit && (
+                        <button type="button" className="btn-primary" onClick={() => setEntryFormTarget('new')}>
+                            Record a Search
+                        </button>
+                    )}
+                </div>
+
+                <div className="px-4 py-5 sm:p-6">
+                    {entries.length === 0 ? (
+                        <EmptyState message="No searches have been recorded for this project yet." />
+                    ) : (
+                        <div className="space-y-6">
+                            {entries.map(entry => (
+                                <div key={entry.entry_id} className="border-b border-gray-200 dark:border-gray-700 pb-6 last:border-0 last:pb-0">
+                                    <div className="flex items-start justify-between">
+                                        <div className="flex items-center space-x-2">
+                                            <h4 className="text-md font-medium text-gray-900 dark:text-white">{entry.title}</h4>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${entry.result
+                                                ? RESEARCH_RESULT_CLASSES[entry.result]
+                                                : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
+                                                }`}>
+                                                {entry.result ? RESEARCH_RESULT_LABELS[entry.result] : 'Under way'}
+                                            </span>
+                                        </div>
+                                        {canEdit && (
+                                            <div className="flex space-x-3 text-sm">
+                                                <button
+                                                    type="button"
+                                                    className="text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
+                                                    onClick={() => setEntryFormTarget(entry)}
+                                                >
+                                                    Edit
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    className="text-red-500 hover:text-red-700"
+                                                    onClick={() => setDeleteTarget({ type: 'entry', id: entry.entry_id })}
+                                                >
+                                                    Delete
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {entry.objective && (
+                                        <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+                                            <span className="font-medium">Objective:</span> {entry.objective}
+                                        </p>
+                                    )}
+
+                                    {entry.repositories_searched.length > 0 && (
+                                        <p className="mt-1 text-sm text-gray-700 dark:text-gray-300">
+                                            <span className="font-medium">Searched:</span> {entry.repositories_searched.join('; ')}
+                                        </p>
+                                    )}
+
+                                    {entry.findings && (
+                                        <p className="mt-2 text-gray-900 dark:text-white whitespace-pre-wrap">{entry.findings}</p>
+                                    )}
+
+                                    {((entry.persons || []).length > 0 || (entry.documents || []).length > 0) && (
+                                        <div className="mt-2 flex flex-wrap gap-1">
+                                            {(entry.persons || []).map(person => (
+                                                <span key={person.person_id} className="px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
+                                                    {person.first_name} {person.last_name}
+                                                </span>
+                                            ))}
+                                            {(entry.documents || []).map(document => (
+                                                <span key={document.document_id} className="px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+                                                    {document.title}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    <div className="mt-2 flex justify-between items-center text-sm text-gray-500 dark:text-gray-400">
+                                        <span>{formatDate(entry.searched_on || entry.created_at)}</span>
+                                        {entry.author && (
+                                            <span>Recorded by {entry.author.first_name} {entry.author.last_name}</span>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {entryFormTarget && (
+                <ResearchLogEntryModal
+                    key={entryFormTarget === 'new' ? 'new' : entryFormTarget.entry_id}
+                    isOpen
+                    onClose={() => setEntryFormTarget(null)}
+                    project={project}
+                    entry={entryFormTarget === 'new' ? null : entryFormTarget}
+                    onSaved={handleEntrySaved}
+                />
+            )}
+
+            <ConfirmDeleteModal
+                isOpen={deleteTarget !== null}
+                onClose={() => setDeleteTarget(null)}
+                onConfirm={handleDelete}
+                title={deleteTarget?.type === 'task' ? 'Delete Task' : 'Delete Research Log Entry'}
+                message={deleteTarget?.type === 'task'
+                    ? 'Are you sure you want to delete this task? This action cannot be undone.'
+                    : 'Are you sure you want to delete this research log entry? Tasks raised from it are kept. This action cannot be undone.'}
+            />
+        </div>
+    );
+};
+
+export default ProjectResearchLogTab;
@@ -3,7 +3,7 @@ import { ProjectDetail } from '../../api/client';
 import { formatDate } from '../../utils/dateUtils';
 
 interface ProjectTimelineTabProps {
-    project: ProjectDetail;
+    project: Pick<ProjectDetail, 'timeline'>;
     onViewPerson?: (personId: string) => void; // New prop to handle viewing a person
 }
 
@@ -0,0 +1,383 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ProjectDetail, projectsApi, relationshipsApi } from '../../api/client';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import {
+    buildFamilyGraph,
+    buildTree,
+    findDefaultRootId,
+    getYear,
+    layoutTree,
+    TREE_NODE_HEIGHT,
+    TREE_NODE_WIDTH,
+    TreeMode,
+    TreePerson,
+    TreeRelationship
+} from '../../utils/treeUtils';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+interface ProjectTreeTabProps {
+    project: Pick<ProjectDetail, 'id'>;
+    // Persons and relationships given up front, e.g. by a share link, instead of loaded for the project
+    treeData?: { persons: TreePerson[]; relationships: TreeRelationship[] };
+    onViewPerson?: (personId: string) => void;
+}
+
+interface ViewTransform {
+    x: number;
+    y: number;
+    scale: number;
+}
+
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 2;
+const CANVAS_PADDING = 40;
+const DEFAULT_TRANSFORM: ViewTransform = { x: CANVAS_PADDING, y: CANVAS_PADDING, scale: 1 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const ProjectTreeTab: React.FC<ProjectTreeTabProps> = ({ project, treeData, onViewPerson }) => {
+    const [loadedPersons, setLoadedPersons] = useState<TreePerson[]>([]);
+    const [loadedRelationships, setLoadedRelationships] = useState<TreeRelationship[]>([]);
+    const [isLoading, setIsLoading] = useState(!treeData);
+    const [error, setError] = useState<string | null>(null);
+    const [rootId, setRootId] = useState<string | null>(null);
+    const [mode, setMode] = useState<TreeMode>(() => {
+        return (localStorage.getItem('projectTreeMode') as TreeMode) || 'pedigree';
+    });
+    const [generations, setGenerations] = useState(4);
+    const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+    const [transform, setTransform] = useState<ViewTransform>(DEFAULT_TRANSFORM);
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+    // Fetch persons and relationships for the project
+    useEffect(() => {
+        if (treeData) return;
+
+        const fetchTreeData = async () => {
+            try {
+                setIsLoading(true);
+                const [personsData, relationshipsData] = await Promise.all([
+                    projectsApi.getProjectPersons(project.id, { sortBy: 'birth_date', sortOrder: 'asc' }),
+                    relationshipsApi.getRelationshipsByProjectId(project.id)
+                ]);
+                setLoadedPersons(personsData);
+                setLoadedRelationships(relationshipsData);
+                setError(null);
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error fetching family tree data:', errorMessage);
+                setError('Failed to load family tree');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchTreeData();
+    }, [project.id, treeData]);
+
+    const persons = treeData ? treeData.persons : loadedPersons;
+    const relationships = treeData ? treeData.relationships : loadedRelationships;
+
+    const personsById = useMemo(() => new Map(persons.map(person => [person.person_id, person])), [persons]);
+    const graph = useMemo(() => buildFamilyGraph(relationships), [relationships]);
+
+    // Choose a default root once data has loaded, or if the current root left the project
+    useEffect(() => {
+        if (!rootId || !personsById.has(rootId)) {
+            setRootId(findDefaultRootId(persons, graph));
+        }
+    }, [persons, graph, personsById, rootId]);
+
+    const layout = useMemo(() => {
+        if (!rootId) return null;
+        const tree = buildTree(rootId, mode, graph, personsById, generations, collapsedIds);
+        return tree ? layoutTree(tree) : null;
+    }, [rootId, mode, graph, personsById, generations, collapsedIds]);
+
+    // Wheel zoom needs a non-passive listener so the page does not scroll underneath the tree
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = container.getBoundingClientRect();
+            const pointerX = e.clientX - rect.left;
+            const pointerY = e.clientY - rect.top;
+
+            setTransform(current => {
+                const scale = clampScale(current.scale * (e.deltaY < 0 ? 1.1 : 0.9));
+                const ratio = scale / current.scale;
+                // Keep the point under the cursor fixed while zooming
+                return {
+                    scale,
+                    x: pointerX - (pointerX - current.x) * ratio,
+                    y: pointerY - (pointerY - current.y) * ratio
+                };
+            });
+        };
+
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, [layout]);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        // Let clicks on nodes and their buttons through
+        if ((e.target as Element).closest('[data-tree-node]')) return;
+        dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: transform.x, y: transform.y };
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const start = dragStart.current;
+        if (!start) return;
+        setTransform(current => ({
+            ...current,
+            x: start.x + e.clientX - start.pointerX,
+            y: start.y + e.clientY - start.pointerY
+        }));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        dragStart.current = null;
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+            e.currentTarget.releasePointerCapture(e.pointerId);
+        }
+    };
+
+    const zoomBy = (factor: number) => {
+        setTransform(current => ({ ...current, scale: clampScale(current.scale * factor) }));
+    };
+
+    const handleModeChange = (newMode: TreeMode) => {
+        setMode(newMode);
+        setCollapsedIds(new Set());
+        setTransform(DEFAULT_TRANSFORM);
+        localStorage.setItem('projectTreeMode', newMode);
+    };
+
+    const handleRootChange = (personId: string) => {
+        setRootId(personId);
+        setCollapsedIds(new Set());
+        setTransform(DEFAULT_TRANSFORM);
+    };
+
+    const toggleCollapsed = (personId: string) => {
+        setCollapsedIds(current => {
+            const next = new Set(current);
+            if (next.has(personId)) {
+                next.delete(personId);
+            } else {
+                next.add(personId);
+            }
+            return next;
+        });
+    };
+
+    const getNodeColorClasses = (gender?: string | null) => {
+        switch (gender) {
+            case 'male':
+                return 'fill-blue-50 stroke-blue-300 dark:fill-blue-900/40 dark:stroke-blue-700';
+            case 'female':
+                return 'fill-pink-50 stroke-pink-300 dark:fill-pink-900/40 dark:stroke-pink-700';
+            default:
+                return 'fill-gray-50 stroke-gray-300 dark:fill-gray-700 dark:stroke-gray-500';
+        }
+    };
+
+    if (isLoading) {
+        return <LoadingSpinner containerClassName="h-32" size="md" />;
+    }
+
+    if (error) {
+        return <ErrorAlert message={error} />;
+    }
+
+    if (persons.length === 0) {
+        return <EmptyState message="No family members have been added to this project yet." />;
+    }
+
+    return (
+        <div>
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-4">
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Family Tree</h3>
+
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        aria-label="Root person"
+                        className="form-select pl-3 pr-8 py-2 text-sm border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white min-w-48"
+                        value={rootId || ''}
+                        onChange={(e) => handleRootChange(e.target.value)}
+                    >
+                        {persons.map(person => (
+                            <option key={person.person_id} value={person.person_id}>
+                                {person.first_name} {person.last_name}
+                                {person.birth_date ? ` (b. ${getYear(person.birth_date)})` : ''}
+                            </option>
+                        ))}
+                    </select>
+
+                    <div className="flex rounded-md shadow-sm">
+                        <button
+                            className={`px-3 py-2 text-sm rounded-l-md border ${mode === 'pedigree'
+                                ? 'bg-primary-500 text-white border-primary-500'
+                                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600'
+                                }`}
+                            onClick={() => handleModeChange('pedigree')}
+                        >
+                            Ancestors
+                        </button>
+                        <button
+                            className={`px-3 py-2 text-sm rounded-r-md border-t border-r border-b ${mode === 'descendants'
+                                ? 'bg-primary-500 text-white border-primary-500'
+                                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50 dark:bg-gray-700 dark:text-gray-200 dark:border-gray-600'
+                                }`}
+                            onClick={() => handleModeChange('descendants')}
+                        >
+                            Descendants
+                        </button>
+                    </div>
+
+                    <select
+                        aria-label="Generations"
+                        className="form-select pl-3 pr-8 py-2 text-sm border-gray-300 focus:outline-none focus:ring-primary-500 focus:border-primary-500 rounded-md dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        value={generations}
+                        onChange={(e) => setGenerations(parseInt(e.target.value, 10))}
+                    >
+                        {[2, 3, 4, 5, 6, 8, 10].map(count => (
+                            <option key={count} value={count}>{count} generations</option>
+                        ))}
+                    </select>
+
+                    <div className="flex space-x-1">
+                        <button className="btn-secondary px-3" onClick={() => zoomBy(1.2)} title="Zoom in">+</button>
+                        <button className="btn-secondary px-3" onClick={() => zoomBy(1 / 1.2)} title="Zoom out">−</button>
+                        <button className="btn-secondary" onClick={() => setTransform(DEFAULT_TRANSFORM)} title="Reset view">
+                            Reset
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                Drag to pan, scroll to zoom. {onViewPerson ? 'Click a person to view details, or use' : 'Use'} the arrow to make a person the root of the tree.
+            </p>
+
+            <div
+                ref={containerRef}
+                className="relative h-[600px] overflow-hidden rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 cursor-grab active:cursor-grabbing select-none touch-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+            >
+                {layout && (
+                    <svg className="absolute inset-0 w-full h-full">
+                        <g transform={`translate(${transform.x}, ${transform.y}) scale(${transform.scale})`}>
+                            {layout.links.map((link, index) => {
+                                const midX = (link.fromX + link.toX) / 2;
+                                return (
+                                    <path
+                                        key={index}
+                                        d={`M ${link.fromX} ${link.fromY} H ${midX} V ${link.toY} H ${link.toX}`}
+                                        className="fill-none stroke-gray-400 dark:stroke-gray-500"
+                                        strokeWidth={1.5}
+                                    />
+                                );
+                            })}
+
+                            {layout.nodes.map(({ node, x, y }) => {
+                                const { person } = node;
+                                const birthYear = getYear(person.birth_date);
+                                const deathYear = getYear(person.death_date);
+                                const lifespan = birthYear || deathYear ? `${birthYear || '?'} – ${deathYear}` : '';
+                                const spouseCount = (graph.spouses.get(person.person_id) || []).filter(id => personsById.has(id)).length;
+                                const canToggle = node.children.length > 0 || node.isCollapsed;
+
+                                return (
+                                    <g key={person.person_id} transform={`translate(${x}, ${y})`} data-tree-node>
+                                        <rect
+                                            width={TREE_NODE_WIDTH}
+                                            height={TREE_NODE_HEIGHT}
+                                            rx={8}
+                                            className={`${getNodeColorClasses(person.gender)} ${onViewPerson ? 'cursor-pointer hover:stroke-primary-500' : ''}`}
+                                            strokeWidth={person.person_id === rootId ? 3 : 1.5}
+                                            onClick={() => onViewPerson?.(person.person_id)}
+                                        />
+                                        <text
+                                            x={12}
+                                            y={26}
+                                            className="fill-gray-900 dark:fill-white text-sm font-medium pointer-events-none"
+                                        >
+                                            {`${person.first_name} ${person.last_name}`.slice(0, 24)}
+                                        </text>
+                                        <text
+                                            x={12}
+                                            y={46}
+                                            className="fill-gray-500 dark:fill-gray-400 text-xs pointer-events-none"
+                                        >
+                                            {lifespan}
+                                            {spouseCount > 0 && mode === 'descendants' ? `  •  ${spouseCount} spouse${spouseCount > 1 ? 's' : ''}` : ''}
+                                        </text>
+
+                                        {person.person_id !== rootId && (
+                                            <g
+                                                className="cursor-pointer"
+                                                onClick={() => handleRootChange(person.person_id)}
+                                            >
+                                                <title>Make root of tree</title>
+                                                <circle cx={TREE_NODE_WIDTH - 16} cy={16} r={9} className="fill-white stroke-gray-300 dark:fill-gray-800 dark:stroke-gray-600" />
+                                                <path
+                                                    d={`M ${TREE_NODE_WIDTH - 20} 16 H ${TREE_NODE_WIDTH - 12} M ${TREE_NODE_WIDTH - 15} 13 L ${TREE_NODE_WIDTH - 12} 16 L ${TREE_NODE_WIDTH - 15} 19`}
+                                                    className="fill-none stroke-gray-600 dark:stroke-gray-300"
+                                                    strokeWidth={1.5}
+                                                />
+                                            </g>
+                                        )}
+
+                                        {(canToggle || node.hasHiddenBranches) && (
+                                            <g
+                                                className="cursor-pointer"
+                                                onClick={() => {
+                                                    if (canToggle) {
+                                                        toggleCollapsed(person.person_id);
+                                                    } else {
+                                                        // Past the generation limit: re-root here to keep exploring
+                                                        handleRootChange(person.person_id);
+                                                    }
+                                                }}
+                                            >
+                                                <title>{node.children.length > 0 ? 'Collapse' : 'Expand'}</title>
+                                                <circle
+                                                    cx={TREE_NODE_WIDTH}
+                                                    cy={TREE_NODE_HEIGHT / 2}
+                                                    r={9}
+                                                    className="fill-primary-500 stroke-white dark:stroke-gray-900"
+                                                    strokeWidth={2}
+                                                />
+                                                <text
+                                                    x={TREE_NODE_WIDTH}
+                                                    y={TREE_NODE_HEIGHT / 2 + 4}
+                                                    textAnchor="middle"
+                                                    className="fill-white text-xs font-bold pointer-events-none"
+                                                >
+                                                    {node.children.length > 0 ? '−' : '+'}
+                                                </text>
+                                            </g>
+                                        )}
+                                    </g>
+                                );
+                            })}
+                        </g>
+                    </svg>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ProjectTreeTab;
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { ProjectDetail, ResearchLogEntry, ResearchResult, researchApi } from '../../api/client';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import { RESEARCH_RESULT_LABELS } from '../../utils/researchUtils';
+import BaseModal from '../common/BaseModal';
+import ErrorAlert from '../common/ErrorAlert';
+
+interface ResearchLogEntryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    project: ProjectDetail;
+    // The entry to edit; a new entry is recorded when not given
+    entry?: ResearchLogEntry | null;
+    onSaved: (entry: ResearchLogEntry) => void;
+}
+
+const formFromEntry = (entry?: ResearchLogEntry | null) => ({
+    title: entry?.title || '',
+    searched_on: entry?.searched_on || '',
+    objective: entry?.objective || '',
+    // One repository per line
+    repositories: (entry?.repositories_searched || []).join('\n'),
+    result: entry?.result || '',
+    findings: entry?.findings || ''
+});
+
+/**
+ * Form for recording a search in the research log: what it set out to find, where the researcher
+ * looked, what came of it, and the persons and documents it concerned.
+ */
+const ResearchLogEntryModal: React.FC<ResearchLogEntryModalProps> = ({ isOpen, onClose, project, entry, onSaved }) => {
+    const [formData, setFormData] = useState(() => formFromEntry(entry));
+    const [personIds, setPersonIds] = useState<string[]>(() => (entry?.persons || []).map(person => person.person_id));
+    const [documentIds, setDocumentIds] = useState<string[]>(() => (entry?.documents || []).map(document => document.document_id));
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const persons = project.persons || [];
+    const documents = project.documents || [];
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setFormData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter(value => value !== id) : [...ids, id]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const details = {
+            title: formData.title.trim(),
+            searched_on: formData.searched_on || null,
+            objective: formData.objective.trim() || null,
+            repositories_searched: formData.repositories.split('\n').map(line => line.trim()).filter(Boolean),
+            result: (formData.result || null) as ResearchResult | null,
+            findings: formData.findings.trim() || null,
+            person_ids: personIds,
+            document_ids: documentIds
+        };
+
+        try {
+            setIsSubmitting(true);
+            setError(null);
+            const { entry: saved } = entry
+                ? await researchApi.updateEntry(entry.entry_id, details)
+                : await researchApi.createEntry({ ...details, project_id: project.id });
+            onSaved(saved);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error saving research log entry:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <BaseModal isOpen={isOpen} onClose={onClose} title={entry ? 'Edit Research Log Entry' : 'Record a Search'} size="2xl">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                {error && <ErrorAlert message={error} />}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="md:col-span-2">
+                        <label htmlFor="entry-title" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Title *
+                        </label>
+                        <input
+                            id="entry-title"
+                            type="text"
+                            name="title"
+                            className="form-input w-full dark:bg-gray-700 dark:text-white"
+                            value={formData.title}
+                            onChange={handleChange}
+                            placeholder="e.g. Baptism of Patrick Walsh"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="entry-searched-on" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Date searched
+                        </label>
+                        <input
+                            id="entry-searched-on"
+                            type="date"
+                            name="searched_on"
+                            className="form-input w-full dark:bg-gray-700 dark:text-white"
+                            value={formData.searched_on}
+                            onChange={handleChange}
+                        />
+                    </div>
+                </div>
+
+                <div>
+                    <label htmlFor="entry-objective" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Objective
+                    </label>
+                    <textarea
+                        id="entry-objective"
+                        name="objective"
+                        rows={2}
+                        className="form-textarea w-full dark:bg-gray-700 dark:text-white"
+                        value={formData.objective}
+                        onChange={handleChange}
+                        placeholder="What was the search meant to find out?"
+                    />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="md:col-span-2">
+                        <label htmlFor="entry-repositories" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Repositories searched
+                        </label>
+                        <textarea
+                            id="entry-repositories"
+                            name="repositories"
+                            rows={3}
+                            className="form-textarea w-full dark:bg-gray-700 dark:text-white"
+                            value={formData.repositories}
+                            onChange={handleChange}
+                            placeholder={'One per line, e.g.\nCork City and County Archives\nFindMyPast, Irish parish registers'}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="entry-result" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Result
+                        </label>
+                        <select
+                            id="entry-result"
+                            name="result"
+                            className="form-select w-full dark:bg-gray-700 dark:text-white"
+                            value={formData.result}
+                            onChange={handleChange}
+                        >
+                            <option value="">Under way</option>
+                            {Object.entries(RESEARCH_RESULT_LABELS).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                <div>
+                    <label htmlFor="entry-findings" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Findings
+                    </label>
+                    <textarea
+                        id="entry-findings"
+                        name="findings"
+                        rows={4}
+                        className="form-textarea w-full dark:bg-gray-700 dark:text-white"
+                        value={formData.findings}
+                        onChange={handleChange}
+                        placeholder="What was found, or what was looked at without finding anything"
+                    />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <fieldset>
+                        <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Persons</legend>
+                        <div className="max-h-40 overflow-y-auto border border-gray-200 dark:border-gray-600 rounded-md p-2 space-y-1">
+                            {persons.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">No persons in this project yet.</p>
+                            ) : persons.map(person => (
+                                <label key={person.person_id} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        className="form-checkbox mr-2"
+                                        checked={personIds.includes(person.person_id)}
+                                        onChange={() => setPersonIds(ids => toggle(ids, person.person_id))}
+                                    />
+                                    {person.first_name} {person.last_name}
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                    <fieldset>
+                        <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Documents</legend>
+                        <div className="max-h-40 overflow-y-auto border border-gray-200 dark:border-gray-600 rounded-md p-2 space-y-1">
+                            {documents.length === 0 ? (
+                                <p className="text-sm text-gray-500 dark:text-gray-400">No documents in this project yet.</p>
+                            ) : documents.map(document => (
+                                <label key={document.id} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        className="form-checkbox mr-2"
+                                        checked={documentIds.includes(document.id)}
+                                        onChange={() => setDocumentIds(ids => toggle(ids, document.id))}
+                                    />
+                                    {document.title}
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-2">
+                    <button type="button" onClick={onClose} className="btn-secondary" disabled={isSubmitting}>
+                        Cancel
+                    </button>
+                    <button type="submit" className="btn-primary" disabled={isSubmitting || !formData.title.trim()}>
+                        {isSubmitting ? 'Saving...' : entry ? 'Save Changes' : 'Record Search'}
+                    </button>
+                </div>
+            </form>
+        </BaseModal>
+    );
+};
+
+export default ResearchLogEntryModal;
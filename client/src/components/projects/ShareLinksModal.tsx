@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ProjectDetail, ShareLink, shareLinksApi } from '../../api/client';
+import { formatDate, formatDateTime } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import { getShareLinkStatusBadgeClass, getShareLinkStatusText } from '../../utils/statusUtils';
+import BaseModal from '../common/BaseModal';
+import EmptyState from '../common/EmptyState';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+interface ShareLinksModalProps {
+    project: Pick<ProjectDetail, 'id' | 'title' | 'documents' | 'access_level'>;
+    currentUserId?: string;
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// yyyy-mm-dd of the day a number of days from now, for date inputs
+const dayFromNow = (days: number): string => {
+    const date = new Date(Date.now() + days * DAY_MS);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const ShareLinksModal: React.FC<ShareLinksModalProps> = ({ project, currentUserId, isOpen, onClose }) => {
+    // Only users who can edit the project make links; anyone may revoke the links they made
+    const canEdit = project.access_level === 'edit';
+
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [label, setLabel] = useState('');
+    const [expiresOn, setExpiresOn] = useState(() => dayFromNow(30));
+    const [password, setPassword] = useState('');
+    const [documentIds, setDocumentIds] = useState<string[]>([]);
+    // The URL of a new link can only be shown right after it is made
+    const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+    const [isCopied, setIsCopied] = useState(false);
+
+    const loadLinks = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setLinks(await shareLinksApi.getProjectShareLinks(project.id));
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error loading share links:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [project.id]);
+
+    useEffect(() => {
+        if (isOpen) {
+            loadLinks();
+        }
+    }, [isOpen, loadLinks]);
+
+    const toggleDocument = (documentId: string) => {
+        setDocumentIds(prev => (prev.includes(documentId)
+            ? prev.filter(id => id !== documentId)
+            : [...prev, documentId]));
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError(null);
+        try {
+            const { link } = await shareLinksApi.createShareLink(project.id, {
+                label: label.trim() || undefined,
+                // Links stay open until the end of the chosen day
+                expires_at: new Date(`${expiresOn}T23:59:59`).toISOString(),
+                password: password || undefined,
+                document_ids: documentIds
+            });
+            setCreatedUrl(link.url);
+            setIsCopied(false);
+            setLabel('');
+            setPassword('');
+            setDocumentIds([]);
+            setExpiresOn(dayFromNow(30));
+            await loadLinks();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error creating share link:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRevoke = async (link: ShareLink) => {
+        setError(null);
+        try {
+            const { link: revoked } = await shareLinksApi.revokeShareLink(project.id, link.share_link_id);
+            setLinks(prev => prev.map(item => (item.share_link_id === revoked.share_link_id ? revoked : item)));
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error revoking share link:', errorMessage);
+            setError(errorMessage);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!createdUrl) return;
+
+        try {
+            await navigator.clipboard.writeText(createdUrl);
+            setIsCopied(true);
+        } catch (err: unknown) {
+            console.error('Error copying share link:', err);
+            setError('The link could not be copied; select it and copy it by hand.');
+        }
+    };
+
+    return (
+        <BaseModal isOpen={isOpen} onClose={onClose} title={`Share "${project.title}"`} size="3xl">
+            <div className="space-y-6">
+                {error && <ErrorAlert message={error} />}
+
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Anyone with a link can see the family tree, the timeline and the documents you choose, without an account,
+                    until the link expires or is revoked. People who may still be alive are shown as "Living", without their
+                    dates, events or documents.
+                </p>
+
+                {createdUrl && (
+                    <div className="rounded-md bg-green-50 dark:bg-green-900/30 p-4 space-y-2">
+                        <p className="text-sm font-medium text-green-800 dark:text-green-200">
+                            Link created. Copy it now; it will not be shown again.
+                        </p>
+                        <div className="flex space-x-2">
+                            <input
+                                type="text"
+                                readOnly
+                                value={createdUrl}
+                                className="form-input flex-1 text-xs"
+                                onFocus={(e) => e.target.select()}
+                            />
+                            <button type="button" className="btn-secondary" onClick={handleCopy}>
+                                {isCopied ? 'Copied' : 'Copy'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {/* New link */}
+                {canEdit && (
+                    <form onSubmit={handleCreate} className="space-y-4 border border-gray-200 dark:border-gray-700 rounded-md p-4">
+                        <h4 className="text-sm font-medium text-gray-900 dark:text-white">New link</h4>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <div>
+                                <label htmlFor="share-label" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                                    Shared with
+                                </label>
+                                <input
+                                    id="share-label"
+                                    type="text"
+                                    className="form-input mt-1"
+                                    placeholder="e.g. Aunt Mary"
+                                    maxLength={100}
+                                    value={label}
+                                    onChange={(e) => setLabel(e.target.value)}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="share-expires" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                                    Expires on
+                                </label>
+                                <input
+                                    id="share-expires"
+                                    type="date"
+                                    className="form-input mt-1"
+                                    required
+                                    min={dayFromNow(0)}
+                                    max={dayFromNow(364)}
+                                    value={expiresOn}
+                                    onChange={(e) => setExpiresOn(e.target.value)}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="share-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                                    Password (optional)
+                                </label>
+                                <input
+                                    id="share-password"
+                                    type="password"
+                                    autoComplete="new-password"
+                                    className="form-input mt-1"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                />
+                            </div>
+                        </div>
+
+                        {project.documents.length > 0 && (
+                            <div>
+                                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Documents to share</span>
+                                <div className="mt-1 max-h-40 overflow-y-auto space-y-1">
+                                    {project.documents.map(document => (
+                                        <label key={document.id} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                                            <input
+                                                type="checkbox"
+                                                className="mr-2"
+                                                checked={documentIds.includes(document.id)}
+                                                onChange={() => toggleDocument(document.id)}
+                                            />
+                                            {document.title}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="flex justify-end">
+                            <button type="submit" className="btn-primary" disabled={isSaving}>
+                                {isSaving ? 'Creating...' : 'Create Link'}
+                            </button>
+                        </div>
+                    </form>
+                )}
+
+                {/* Existing links */}
+                <div>
+                    <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Links</h4>
+                    {isLoading ? (
+                        <LoadingSpinner containerClassName="h-24" />
+                    ) : links.length === 0 ? (
+                        <EmptyState message="This project has not been shared yet." />
+                    ) : (
+                        <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+                            {links.map(link => (
+                                <li key={link.share_link_id} className="flex items-center justify-between px-4 py-3">
+                                    <div>
+                                        <div className="flex items-center space-x-2">
+                                            <span className="text-sm font-medium text-gray-900 dark:text-white">
+                                                {link.label || 'Unnamed link'}
+                                            </span>
+                                            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getShareLinkStatusBadgeClass(link.status)}`}>
+                                                {getShareLinkStatusText(link.status)}
+                                            </span>
+                                            {link.has_password && (
+                                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                                                    Password
+                                                </span>
+                                            )}
+                                        </div>
+                                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                            {link.status === 'revoked' ? `Revoked ${formatDate(link.revoked_at)}` : `Expires ${formatDate(link.expires_at)}`}
+                                            {' • '}
+                                            {link.access_count} visit{link.access_count === 1 ? '' : 's'}
+                                            {link.last_accessed_at && `, last ${formatDateTime(link.last_accessed_at)}`}
+                                            {' • '}
+                                            {link.documents.length} document{link.documents.length === 1 ? '' : 's'}
+                                            {link.creator && ` • by ${link.creator.first_name} ${link.creator.last_name}`}
+                                        </p>
+                                    </div>
+                                    {link.status === 'active' && (canEdit || link.creator?.user_id === currentUserId) && (
+                                        <button
+                                            type="button"
+                                            className="text-sm font-medium text-red-600 hover:text-red-500"
+                                            onClick={() => handleRevoke(link)}
+                                        >
+                                            Revoke
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </BaseModal>
+    );
+};
+
+export default ShareLinksModal;
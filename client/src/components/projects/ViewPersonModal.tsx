@@ -1,10 +1,17 @@
 import React, { useEffect, useState } from 'react';
-import { Person, PersonRelationship, projectsApi } from '../../api/client';
-import { formatDate } from '../../utils/dateUtils';
+import { Citation, CitedEntityType, Person, PersonRelationship, projectsApi, sourcesApi } from '../../api/client';
+import { getFootnoteNumbers, orderCitations } from '../../utils/citationUtils';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
 import BaseModal from '../common/BaseModal';
 import ErrorAlert from '../common/ErrorAlert';
 import LoadingSpinner from '../common/LoadingSpinner';
 import DocumentList from '../documents/DocumentList';
+import EditHistoryPanel from '../history/EditHistoryPanel';
+import CitationFootnotes from '../sources/CitationFootnotes';
+import CitationMarks from '../sources/CitationMarks';
+import KinshipCalculator from './KinshipCalculator';
+import PersonCharts from './PersonCharts';
+import PersonNames from './PersonNames';
 
 interface ViewPersonModalProps {
     personId: string;
@@ -14,6 +21,8 @@ interface ViewPersonModalProps {
     onViewRelatedPerson?: (personId: string) => void; // Optional callback for viewing related persons
     projectStatus?: 'active' | 'completed' | 'on_hold';
     isManager?: boolean;
+    projectPersons?: Person[]; // Offered in the relationship calculator
+    projectId?: string; // Sources of this project can be cited for other names
 }
 
 const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
@@ -23,12 +32,15 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
     onEdit,
     onViewRelatedPerson,
     projectStatus,
-    isManager
+    isManager,
+    projectPersons,
+    projectId
 }) => {
     const [person, setPerson] = useState<Person | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<'info' | 'events' | 'documents' | 'relationships'>('info');
+    const [activeTab, setActiveTab] = useState<'info' | 'events' | 'documents' | 'relationships' | 'charts' | 'history'>('info');
+    const [citations, setCitations] = useState<Citation[]>([]); // In footnote order
 
     // No need for document viewing state as DocumentList handles this internally
 
@@ -66,12 +78,15 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
             personData.relationshipsAsSubject.forEach(rel => {
                 if (rel.person2) {
                     const person = {
+                        relationship_id: rel.relationship_id,
                         person_id: rel.person2.person_id,
                         first_name: rel.person2.first_name,
                         last_name: rel.person2.last_name,
                         relationship_qualifier: rel.relationship_qualifier,
                         start_date: rel.start_date,
-                        end_date: rel.end_date
+                        start_date_detail: rel.start_date_detail,
+                        end_date: rel.end_date,
+                        end_date_detail: rel.end_date_detail
                     };
 
                     if (rel.relationship_type === 'parent') {
@@ -90,12 +105,15 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
             personData.relationshipsAsObject.forEach(rel => {
                 if (rel.person1) {
                     const person = {
+                        relationship_id: rel.relationship_id,
                         person_id: rel.person1.person_id,
                         first_name: rel.person1.first_name,
                         last_name: rel.person1.last_name,
                         relationship_qualifier: rel.relationship_qualifier,
                         start_date: rel.start_date,
-                        end_date: rel.end_date
+                        start_date_detail: rel.start_date_detail,
+                        end_date: rel.end_date,
+                        end_date_detail: rel.end_date_detail
                     };
 
                     if (rel.relationship_type === 'parent') {
@@ -119,7 +137,8 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
             const personData = await projectsApi.getPersonById(personId, {
                 includeEvents: true,
                 includeDocuments: true,
-                includeRelationships: true
+                includeRelationships: true,
+                includeNames: true
             });
 
             // Process relationships if they exist in the new format
@@ -139,8 +158,22 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
         } finally {
             setLoading(false);
         }
+
+        // Citations are shown as footnotes; the person is still worth showing if they fail to load
+        try {
+            const personCitations = await sourcesApi.getPersonCitations(personId);
+            setCitations(orderCitations(personCitations));
+        } catch (err) {
+            console.error('Error fetching person citations:', err);
+            setCitations([]);
+        }
     };
 
+    // Footnote markers for a record, or for some of its facts (null stands for the record as a whole)
+    const renderCitationMarks = (entityType: CitedEntityType, entityId: string | undefined, fieldNames?: (string | null)[]) => (
+        <CitationMarks numbers={getFootnoteNumbers(citations, entityType, entityId, fieldNames)} />
+    );
+
     return (
         <BaseModal
             isOpen={isOpen}
@@ -200,6 +233,24 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                     >
                                         Relationships
                                     </button>
+                                    <button
+                                        className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${activeTab === 'charts'
+                                            ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                                            : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300 dark:hover:border-gray-600'
+                                            }`}
+                                        onClick={() => setActiveTab('charts')}
+                                    >
+                                        Charts
+                                    </button>
+                                    <button
+                                        className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${activeTab === 'history'
+                                            ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                                            : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300 dark:hover:border-gray-600'
+                                            }`}
+                                        onClick={() => setActiveTab('history')}
+                                    >
+                                        History
+                                    </button>
                                 </div>
 
                                 {/* Edit button and status indicator */}
@@ -239,18 +290,19 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                                 <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Full Name</p>
                                                 <p className="text-gray-900 dark:text-white">
                                                     {person.first_name} {person.middle_name ? `${person.middle_name} ` : ''}{person.last_name}
+                                                    {renderCitationMarks('person', person.person_id, [null, 'first_name', 'middle_name', 'last_name'])}
                                                 </p>
                                             </div>
                                             {person.maiden_name && (
                                                 <div>
                                                     <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Maiden Name</p>
-                                                    <p className="text-gray-900 dark:text-white">{person.maiden_name}</p>
+                                                    <p className="text-gray-900 dark:text-white">{person.maiden_name}{renderCitationMarks('person', person.person_id, ['maiden_name'])}</p>
                                                 </div>
                                             )}
                                             {person.gender && (
                                                 <div>
                                                     <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Gender</p>
-                                                    <p className="text-gray-900 dark:text-white capitalize">{person.gender}</p>
+                                                    <p className="text-gray-900 dark:text-white capitalize">{person.gender}{renderCitationMarks('person', person.person_id, ['gender'])}</p>
                                                 </div>
                                             )}
                                         </div>
@@ -262,30 +314,42 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                             {person.birth_date && (
                                                 <div>
                                                     <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Birth Date</p>
-                                                    <p className="text-gray-900 dark:text-white">{formatDate(person.birth_date)}</p>
+                                                    <p className="text-gray-900 dark:text-white">{formatGenealogicalDate(person.birth_date, person.birth_date_detail)}{renderCitationMarks('person', person.person_id, ['birth_date'])}</p>
                                                 </div>
                                             )}
                                             {person.birth_location && (
                                                 <div>
                                                     <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Birth Location</p>
-                                                    <p className="text-gray-900 dark:text-white">{person.birth_location}</p>
+                                                    <p className="text-gray-900 dark:text-white">{person.birth_location}{renderCitationMarks('person', person.person_id, ['birth_location'])}</p>
                                                 </div>
                                             )}
                                             {person.death_date && (
                                                 <div>
                                                     <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Death Date</p>
-                                                    <p className="text-gray-900 dark:text-white">{formatDate(person.death_date)}</p>
+                                                    <p className="text-gray-900 dark:text-white">{formatGenealogicalDate(person.death_date, person.death_date_detail)}{renderCitationMarks('person', person.person_id, ['death_date'])}</p>
                                                 </div>
                                             )}
                                             {person.death_location && (
                                                 <div>
                                                     <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Death Location</p>
-                                                    <p className="text-gray-900 dark:text-white">{person.death_location}</p>
+                                                    <p className="text-gray-900 dark:text-white">{person.death_location}{renderCitationMarks('person', person.person_id, ['death_location'])}</p>
                                                 </div>
                                             )}
                                         </div>
                                     </div>
 
+                                    {((person.names && person.names.length > 0) || (isManager && projectStatus !== 'completed')) && (
+                                        <div className="col-span-1 md:col-span-2">
+                                            <PersonNames
+                                                personId={person.person_id}
+                                                names={person.names || []}
+                                                projectId={projectId}
+                                                canEdit={isManager && projectStatus !== 'completed'}
+                                                onChanged={fetchPersonDetails}
+                                            />
+                                        </div>
+                                    )}
+
                                     {person.notes && (
                                         <div className="col-span-1 md:col-span-2">
                                             <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Notes</h3>
@@ -320,7 +384,7 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                                                 </div>
                                                                 <div className="min-w-0 flex-1 pt-1.5 flex justify-between space-x-4">
                                                                     <div>
-                                                                        <p className="text-sm font-medium text-gray-900 dark:text-white">{formatEventType(event.event_type)}</p>
+                                                                        <p className="text-sm font-medium text-gray-900 dark:text-white">{formatEventType(event.event_type)}{renderCitationMarks('event', event.event_id)}</p>
                                                                         {event.description && (
                                                                             <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{event.description}</p>
                                                                         )}
@@ -329,7 +393,7 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                                                         )}
                                                                     </div>
                                                                     <div className="text-right text-sm whitespace-nowrap text-gray-500 dark:text-gray-400">
-                                                                        <time dateTime={event.event_date}>{formatDate(event.event_date)}</time>
+                                                                        <time dateTime={event.event_date}>{formatGenealogicalDate(event.event_date, event.event_date_detail)}</time>
                                                                     </div>
                                                                 </div>
                                                             </div>
@@ -390,11 +454,11 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                                                     }
                                                                 }}
                                                             >
-                                                                <p className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500 dark:hover:text-primary-300 hover:underline cursor-pointer">{spouse.first_name} {spouse.last_name}</p>
+                                                                <p className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500 dark:hover:text-primary-300 hover:underline cursor-pointer">{spouse.first_name} {spouse.last_name}{renderCitationMarks('relationship', spouse.relationship_id)}</p>
                                                                 {spouse.start_date && (
                                                                     <p className="text-sm text-gray-500 dark:text-gray-400">
-                                                                        Married: {formatDate(spouse.start_date)}
-                                                                        {spouse.end_date && ` - ${formatDate(spouse.end_date)}`}
+                                                                        Married: {formatGenealogicalDate(spouse.start_date, spouse.start_date_detail)}
+                                                                        {spouse.end_date && ` - ${formatGenealogicalDate(spouse.end_date, spouse.end_date_detail)}`}
                                                                     </p>
                                                                 )}
                                                             </div>
@@ -419,7 +483,7 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                                                     }
                                                                 }}
                                                             >
-                                                                <p className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500 dark:hover:text-primary-300 hover:underline cursor-pointer">{parent.first_name} {parent.last_name}</p>
+                                                                <p className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500 dark:hover:text-primary-300 hover:underline cursor-pointer">{parent.first_name} {parent.last_name}{renderCitationMarks('relationship', parent.relationship_id)}</p>
                                                                 <p className="text-sm text-gray-500 dark:text-gray-400">
                                                                     {parent.relationship_qualifier && `${parent.relationship_qualifier} parent`}
                                                                 </p>
@@ -445,7 +509,7 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                                                     }
                                                                 }}
                                                             >
-                                                                <p className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500 dark:hover:text-primary-300 hover:underline cursor-pointer">{child.first_name} {child.last_name}</p>
+                                                                <p className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500 dark:hover:text-primary-300 hover:underline cursor-pointer">{child.first_name} {child.last_name}{renderCitationMarks('relationship', child.relationship_id)}</p>
                                                                 <p className="text-sm text-gray-500 dark:text-gray-400">
                                                                     {child.relationship_qualifier && `${child.relationship_qualifier} child`}
                                                                 </p>
@@ -471,7 +535,7 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                                                     }
                                                                 }}
                                                             >
-                                                                <p className="font-medium text-gray-900 dark:text-white">{sibling.first_name} {sibling.last_name}</p>
+                                                                <p className="font-medium text-gray-900 dark:text-white">{sibling.first_name} {sibling.last_name}{renderCitationMarks('relationship', sibling.relationship_id)}</p>
                                                                 <p className="text-sm text-gray-500 dark:text-gray-400">
                                                                     {sibling.relationship_qualifier && `${sibling.relationship_qualifier} sibling`}
                                                                 </p>
@@ -601,9 +665,37 @@ const ViewPersonModal: React.FC<ViewPersonModalProps> = ({
                                             <p className="text-gray-500 dark:text-gray-400">No relationships found for this person.</p>
                                         </div>
                                     )}
+
+                                    {projectPersons && projectPersons.length > 1 && (
+                                        <div className="mt-6">
+                                            <KinshipCalculator person={person} persons={projectPersons} onViewPerson={onViewRelatedPerson} />
+                                        </div>
+                                    )}
                                 </div>
                             )}
+
+                            {/* Charts Tab */}
+                            {activeTab === 'charts' && (
+                                <PersonCharts
+                                    personId={person.person_id}
+                                    personName={`${person.first_name} ${person.last_name}`}
+                                    onViewPerson={onViewRelatedPerson}
+                                />
+                            )}
+
+                            {/* History Tab */}
+                            {activeTab === 'history' && (
+                                <EditHistoryPanel
+                                    entityType="person"
+                                    entityId={person.person_id}
+                                    canRevert={isManager && projectStatus !== 'completed'}
+                                    onReverted={fetchPersonDetails}
+                                />
+                            )}
                         </div>
+
+                        {/* Footnotes for the facts, events and relationships cited above */}
+                        <CitationFootnotes citations={citations} />
                     </>
                 )}
             </div>
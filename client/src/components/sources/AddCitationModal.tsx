@@ -0,0 +1,480 @@
+import React, { useEffect, useState } from 'react';
+import { Citation, CitedEntityType, Person, Source, projectsApi, sourcesApi } from '../../api/client';
+import {
+    CITABLE_FIELD_LABELS,
+    CLASSIFICATION_LABELS,
+    CONFIDENCE_LABELS,
+    EVIDENCE_TYPE_LABELS,
+    INFORMATION_QUALITY_LABELS,
+    formatSourceReference
+} from '../../utils/citationUtils';
+import { formatGenealogicalDate } from '../../utils/dateUtils';
+import { getApiErrorMessage } from '../../utils/errorUtils';
+import { formatSnakeCase } from '../../utils/formatUtils';
+import BaseModal from '../common/BaseModal';
+import ErrorAlert from '../common/ErrorAlert';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+interface AddCitationModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    personId: string;
+    projectId?: string;
+    onCitationAdded: (citation: Citation) => void;
+}
+
+// A record or fact the citation can support, encoded as "entity_type:entity_id:field_name"
+interface CitationTarget {
+    value: string;
+    label: string;
+}
+
+interface CitationTargetGroup {
+    label: string;
+    targets: CitationTarget[];
+}
+
+const NEW_SOURCE = 'new';
+
+const emptySource = {
+    title: '',
+    author: '',
+    publication_info: '',
+    repository: '',
+    call_number: '',
+    url: '',
+    classification: ''
+};
+
+const emptyCitation = {
+    target: '',
+    page: '',
+    information_quality: '',
+    evidence_type: '',
+    confidence: '',
+    excerpt: '',
+    notes: ''
+};
+
+// Build the list of records and facts of a person that a source can be cited for
+const buildTargetGroups = (person: Person): CitationTargetGroup[] => {
+    const personTargets: CitationTarget[] = [
+        { value: `person:${person.person_id}:`, label: 'Whole record' },
+        ...Object.entries(CITABLE_FIELD_LABELS.person).map(([field, label]) => ({
+            value: `person:${person.person_id}:${field}`,
+            label
+        }))
+    ];
+
+    const eventTargets = (person.events || []).flatMap(event => {
+        const eventLabel = `${formatSnakeCase(event.event_type)} (${formatGenealogicalDate(event.event_date, event.event_date_detail, 'no date')})`;
+        return [
+            { value: `event:${event.event_id}:`, label: eventLabel },
+            { value: `event:${event.event_id}:event_date`, label: `${eventLabel}: date` },
+            { value: `event:${event.event_id}:event_location`, label: `${eventLabel}: location` }
+        ];
+    });
+
+    const relationshipTargets = [
+        ...(person.relationshipsAsSubject || []).map(rel => ({ rel, other: rel.person2 })),
+        ...(person.relationshipsAsObject || []).map(rel => ({ rel, other: rel.person1 }))
+    ].map(({ rel, other }) => ({
+        value: `relationship:${rel.relationship_id}:`,
+        label: `${formatSnakeCase(rel.relationship_type)}: ${other ? `${other.first_name} ${other.last_name}` : 'unknown person'}`
+    }));
+
+    return [
+        { label: 'Person', targets: personTargets },
+        { label: 'Events', targets: eventTargets },
+        { label: 'Relationships', targets: relationshipTargets }
+    ].filter(group => group.targets.length > 0);
+};
+
+/**
+ * Cite a source, either one already used in the project or a new one, as evidence for a person,
+ * one of their facts, or one of their events or relationships
+ */
+const AddCitationModal: React.FC<AddCitationModalProps> = ({
+    isOpen,
+    onClose,
+    personId,
+    projectId,
+    onCitationAdded
+}) => {
+    const [sources, setSources] = useState<Source[]>([]);
+    const [targetGroups, setTargetGroups] = useState<CitationTargetGroup[]>([]);
+    const [selectedSourceId, setSelectedSourceId] = useState('');
+    const [sourceData, setSourceData] = useState(emptySource);
+    const [citationData, setCitationData] = useState(emptyCitation);
+
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Load the project's sources and the person's events and relationships when opened
+    useEffect(() => {
+        if (!isOpen) {
+            setSelectedSourceId('');
+            setSourceData(emptySource);
+            setCitationData(emptyCitation);
+            setError(null);
+            return;
+        }
+
+        const fetchData = async () => {
+            setIsLoading(true);
+            try {
+                const [projectSources, person] = await Promise.all([
+                    projectId ? sourcesApi.getSourcesByProjectId(projectId) : Promise.resolve([]),
+                    projectsApi.getPersonById(personId, { includeEvents: true, includeRelationships: true })
+                ]);
+
+                setSources(projectSources);
+                setSelectedSourceId(projectSources.length > 0 ? projectSources[0].source_id : NEW_SOURCE);
+                setTargetGroups(buildTargetGroups(person));
+                setCitationData(prev => ({ ...prev, target: `person:${personId}:` }));
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error loading citation options:', errorMessage);
+                setError(errorMessage);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchData();
+    }, [isOpen, personId, projectId]);
+
+    const handleSourceChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setSourceData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleCitationChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setCitationData(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (selectedSourceId === NEW_SOURCE && !sourceData.title.trim()) {
+            setError('Source title is required');
+            return;
+        }
+
+        if (selectedSourceId === NEW_SOURCE && !projectId) {
+            setError('New sources can only be added from within a project');
+            return;
+        }
+
+        const [entityType, entityId, fieldName] = citationData.target.split(':');
+        if (!entityType || !entityId) {
+            setError('Choose what this source is evidence for');
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            // Create the source first if it is new to the project
+            let sourceId = selectedSourceId;
+            if (selectedSourceId === NEW_SOURCE && projectId) {
+                const { source } = await sourcesApi.createSource({
+                    project_id: projectId,
+                    title: sourceData.title.trim(),
+                    author: sourceData.author || null,
+                    publication_info: sourceData.publication_info || null,
+                    repository: sourceData.repository || null,
+                    call_number: sourceData.call_number || null,
+                    url: sourceData.url || null,
+                    classification: (sourceData.classification || null) as Source['classification']
+                });
+                sourceId = source.source_id;
+            }
+
+            const { citation } = await sourcesApi.createCitation(sourceId, {
+                entity_type: entityType as CitedEntityType,
+                entity_id: entityId,
+                field_name: fieldName || null,
+                page: citationData.page || null,
+                information_quality: (citationData.information_quality || null) as Citation['information_quality'],
+                evidence_type: (citationData.evidence_type || null) as Citation['evidence_type'],
+                confidence: citationData.confidence === '' ? null : Number(citationData.confidence),
+                excerpt: citationData.excerpt || null,
+                notes: citationData.notes || null
+            });
+
+            onCitationAdded(citation);
+            onClose();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error adding citation:', errorMessage);
+            setError(errorMessage);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <BaseModal isOpen={isOpen} onClose={onClose} title="Add Citation" size="2xl">
+            {isLoading ? (
+                <LoadingSpinner containerClassName="h-48" size="lg" />
+            ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    {error && <ErrorAlert message={error} />}
+
+                    {/* Source */}
+                    <div>
+                        <label htmlFor="citation-source" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Source *
+                        </label>
+                        <select
+                            id="citation-source"
+                            className="form-select w-full dark:bg-gray-700 dark:text-white"
+                            value={selectedSourceId}
+                            onChange={(e) => setSelectedSourceId(e.target.value)}
+                        >
+                            {sources.map(source => (
+                                <option key={source.source_id} value={source.source_id}>
+                                    {formatSourceReference(source)}
+                                </option>
+                            ))}
+                            <option value={NEW_SOURCE}>+ New source</option>
+                        </select>
+                    </div>
+
+                    {selectedSourceId === NEW_SOURCE && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-md">
+                            <div className="md:col-span-2">
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    Title *
+                                </label>
+                                <input
+                                    type="text"
+                                    name="title"
+                                    className="form-input w-full dark:bg-gray-700 dark:text-white"
+                                    value={sourceData.title}
+                                    onChange={handleSourceChange}
+                                    placeholder="e.g. Baptism register, St Mary's, Lambeth, 1840-1860"
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    Author / Creator
+                                </label>
+                                <input
+                                    type="text"
+                                    name="author"
+                                    className="form-input w-full dark:bg-gray-700 dark:text-white"
+                                    value={sourceData.author}
+                                    onChange={handleSourceChange}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    Classification
+                                </label>
+                                <select
+                                    name="classification"
+                                    className="form-select w-full dark:bg-gray-700 dark:text-white"
+                                    value={sourceData.classification}
+                                    onChange={handleSourceChange}
+                                >
+                                    <option value="">Not assessed</option>
+                                    {Object.entries(CLASSIFICATION_LABELS).map(([value, label]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    Repository
+                                </label>
+                                <input
+                                    type="text"
+                                    name="repository"
+                                    className="form-input w-full dark:bg-gray-700 dark:text-white"
+                                    value={sourceData.repository}
+                                    onChange={handleSourceChange}
+                                    placeholder="Archive, library or website"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    Call Number
+                                </label>
+                                <input
+                                    type="text"
+                                    name="call_number"
+                                    className="form-input w-full dark:bg-gray-700 dark:text-white"
+                                    value={sourceData.call_number}
+                                    onChange={handleSourceChange}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    Publication Details
+                                </label>
+                                <input
+                                    type="text"
+                                    name="publication_info"
+                                    className="form-input w-full dark:bg-gray-700 dark:text-white"
+                                    value={sourceData.publication_info}
+                                    onChange={handleSourceChange}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    URL
+                                </label>
+                                <input
+                                    type="url"
+                                    name="url"
+                                    className="form-input w-full dark:bg-gray-700 dark:text-white"
+                                    value={sourceData.url}
+                                    onChange={handleSourceChange}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {/* What the source supports */}
+                    <div>
+                        <label htmlFor="citation-target" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Evidence For *
+                        </label>
+                        <select
+                            id="citation-target"
+                            name="target"
+                            className="form-select w-full dark:bg-gray-700 dark:text-white"
+                            value={citationData.target}
+                            onChange={handleCitationChange}
+                        >
+                            {targetGroups.map(group => (
+                                <optgroup key={group.label} label={group.label}>
+                                    {group.targets.map(target => (
+                                        <option key={target.value} value={target.value}>{target.label}</option>
+                                    ))}
+                                </optgroup>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Page / Entry
+                            </label>
+                            <input
+                                type="text"
+                                name="page"
+                                className="form-input w-full dark:bg-gray-700 dark:text-white"
+                                value={citationData.page}
+                                onChange={handleCitationChange}
+                                placeholder="e.g. folio 12, entry 48"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Confidence
+                            </label>
+                            <select
+                                name="confidence"
+                                className="form-select w-full dark:bg-gray-700 dark:text-white"
+                                value={citationData.confidence}
+                                onChange={handleCitationChange}
+                            >
+                                <option value="">Not assessed</option>
+                                {CONFIDENCE_LABELS.map((label, value) => (
+                                    <option key={value} value={value}>{value} - {label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Information
+                            </label>
+                            <select
+                                name="information_quality"
+                                className="form-select w-full dark:bg-gray-700 dark:text-white"
+                                value={citationData.information_quality}
+                                onChange={handleCitationChange}
+                            >
+                                <option value="">Not assessed</option>
+                                {Object.entries(INFORMATION_QUALITY_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                Evidence
+                            </label>
+                            <select
+                                name="evidence_type"
+                                className="form-select w-full dark:bg-gray-700 dark:text-white"
+                                value={citationData.evidence_type}
+                                onChange={handleCitationChange}
+                            >
+                                <option value="">Not assessed</option>
+                                {Object.entries(EVIDENCE_TYPE_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Excerpt / Transcription
+                        </label>
+                        <textarea
+                            name="excerpt"
+                            className="form-textarea w-full dark:bg-gray-700 dark:text-white"
+                            rows={3}
+                            value={citationData.excerpt}
+                            onChange={handleCitationChange}
+                            placeholder="The words in the source that support this fact"
+                        />
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                            Notes
+                        </label>
+                        <textarea
+                            name="notes"
+                            className="form-textarea w-full dark:bg-gray-700 dark:text-white"
+                            rows={2}
+                            value={citationData.notes}
+                            onChange={handleCitationChange}
+                        />
+                    </div>
+
+                    <div className="flex justify-end space-x-2">
+                        <button
+                            type="button"
+                            className="btn-secondary"
+                            onClick={onClose}
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="btn-primary"
+                            disabled={isSubmitting}
+                        >
+                            {isSubmitting ? 'Saving...' : 'Add Citation'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </BaseModal>
+    );
+};
+
+export default AddCitationModal;
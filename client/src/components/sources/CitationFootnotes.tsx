@@ -0,0 +1,61 @@
+import React from 'react';
+import { Citation } from '../../api/client';
+import { describeCitedFact, describeEvidence, formatCitation } from '../../utils/citationUtils';
+
+interface CitationFootnotesProps {
+    citations: Citation[]; // In footnote order
+    title?: string;
+}
+
+/**
+ * Numbered list of the sources cited for a person, with how each piece of evidence was graded
+ */
+const CitationFootnotes: React.FC<CitationFootnotesProps> = ({ citations, title = 'Sources' }) => {
+    if (citations.length === 0) return null;
+
+    return (
+        <div className="mt-8 border-t border-gray-200 dark:border-gray-700 pt-4">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{title}</h3>
+            <ol className="space-y-2 text-sm">
+                {citations.map((citation, index) => {
+                    const evidence = describeEvidence(citation);
+
+                    return (
+                        <li key={citation.citation_id} className="flex">
+                            <span className="w-8 flex-shrink-0 text-gray-500 dark:text-gray-400">{index + 1}.</span>
+                            <div className="min-w-0">
+                                <p className="text-gray-900 dark:text-white">
+                                    {formatCitation(citation)}
+                                    {citation.source?.url && (
+                                        <>
+                                            {' '}
+                                            <a
+                                                href={citation.source.url}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="text-primary-600 dark:text-primary-400 hover:underline"
+                                            >
+                                                (online)
+                                            </a>
+                                        </>
+                                    )}
+                                </p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    Supports: {describeCitedFact(citation)}
+                                    {evidence && ` · ${evidence}`}
+                                </p>
+                                {citation.excerpt && (
+                                    <p className="mt-1 text-xs italic text-gray-600 dark:text-gray-300 whitespace-pre-line">
+                                        "{citation.excerpt}"
+                                    </p>
+                                )}
+                            </div>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+export default CitationFootnotes;
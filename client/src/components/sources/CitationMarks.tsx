@@ -0,0 +1,23 @@
+import React from 'react';
+
+interface CitationMarksProps {
+    numbers: number[];
+}
+
+/**
+ * Superscript footnote markers, e.g. [1, 3], shown next to a cited fact
+ */
+const CitationMarks: React.FC<CitationMarksProps> = ({ numbers }) => {
+    if (numbers.length === 0) return null;
+
+    return (
+        <sup
+            className="ml-1 text-xs font-medium text-primary-600 dark:text-primary-400"
+            title={`See source${numbers.length > 1 ? 's' : ''} ${numbers.join(', ')}`}
+        >
+            [{numbers.join(', ')}]
+        </sup>
+    );
+};
+
+export default CitationMarks;
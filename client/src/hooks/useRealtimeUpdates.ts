@@ -0,0 +1,135 @@
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { API_URL, refreshAccessToken } from '../api/client';
+import { queryKeys } from '../api/queryKeys';
+import { getToken } from '../utils/auth';
+
+// Longest wait between reconnection attempts after the stream fails
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+interface EntityChange {
+    project_ids: string[];
+    event_type: string;
+    entity_id: string | null;
+    entity_type: string | null;
+    actor_id: string | null;
+}
+
+interface StreamMessage {
+    type: string;
+    data: string;
+}
+
+// Split a chunk of an event stream into complete messages, returning what is left over
+const parseMessages = (buffer: string): { messages: StreamMessage[]; rest: string } => {
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    const rest = blocks.pop() || '';
+
+    const messages = blocks
+        .map(block => {
+            let type = 'message';
+            const data: string[] = [];
+            block.split(/\r?\n/).forEach(line => {
+                if (line.startsWith('event:')) type = line.slice(6).trim();
+                else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+            });
+            return { type, data: data.join('\n') };
+        })
+        .filter(message => message.data);
+
+    return { messages, rest };
+};
+
+const handleMessage = (queryClient: QueryClient, { type, data }: StreamMessage) => {
+    switch (type) {
+        case 'user_event':
+        case 'notifications_changed':
+            queryClient.invalidateQueries({ queryKey: queryKeys.userEvents.all });
+            break;
+        case 'entity_changed': {
+            const change: EntityChange = JSON.parse(data);
+            change.project_ids.forEach(projectId => {
+                queryClient.invalidateQueries({ queryKey: queryKeys.projects.detail(projectId) });
+            });
+            if (change.entity_type === 'person' && change.entity_id) {
+                queryClient.invalidateQueries({ queryKey: queryKeys.persons.detail(change.entity_id) });
+            }
+            if (change.entity_type && change.entity_id) {
+                queryClient.invalidateQueries({ queryKey: queryKeys.history.entity(change.entity_type, change.entity_id) });
+            }
+            break;
+        }
+    }
+};
+
+/**
+ * Subscribe to the server's push channel while the user is signed in and refresh the
+ * React Query caches that the pushed notifications and project changes affect.
+ *
+ * The stream is read with fetch rather than EventSource so the access token can be sent
+ * in the Authorization header like every other API request.
+ */
+export const useRealtimeUpdates = () => {
+    const queryClient = useQueryClient();
+
+    useEffect(() => {
+        const controller = new AbortController();
+        let reconnectTimer: number | undefined;
+        let failures = 0;
+
+        const connect = async () => {
+            let token = getToken();
+            if (!token) return;
+
+            try {
+                let response = await fetch(`${API_URL}/realtime`, {
+                    headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+                    signal: controller.signal
+                });
+
+                if (response.status === 401) {
+                    token = await refreshAccessToken();
+                    if (!token) return;
+                    response = await fetch(`${API_URL}/realtime`, {
+                        headers: { Authorization: `Bearer ${token}`, Accept: 'text/event-stream' },
+                        signal: controller.signal
+                    });
+                }
+
+                if (!response.ok || !response.body) {
+                    throw new Error(`Realtime stream failed with status ${response.status}`);
+                }
+
+                failures = 0;
+                // Anything pushed while disconnected was missed, so catch up on notifications
+                queryClient.invalidateQueries({ queryKey: queryKeys.userEvents.all });
+
+                const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+                let buffer = '';
+                for (;;) {
+                    const { value, done } = await reader.read();
+                    if (done) break;
+
+                    const { messages, rest } = parseMessages(buffer + value);
+                    buffer = rest;
+                    messages.forEach(message => handleMessage(queryClient, message));
+                }
+            } catch (error: unknown) {
+                if (controller.signal.aborted) return;
+                console.error('Realtime stream error:', error);
+                failures += 1;
+            }
+
+            if (controller.signal.aborted) return;
+            const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** failures);
+            reconnectTimer = window.setTimeout(connect, delay);
+        };
+
+        connect();
+
+        return () => {
+            controller.abort();
+            window.clearTimeout(reconnectTimer);
+        };
+    }, [queryClient]);
+};
@@ -0,0 +1,311 @@
+import { Link, useNavigate, useSearch } from '@tanstack/react-router';
+import React, { useEffect, useState } from 'react';
+import { Order, ServicePackage, billingApi } from '../api/client';
+import ErrorAlert from '../components/common/ErrorAlert';
+import InfoAlert from '../components/common/InfoAlert';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import SuccessAlert from '../components/common/SuccessAlert';
+import { getApiErrorMessage } from '../utils/errorUtils';
+import { formatCurrency } from '../utils/formatUtils';
+
+// The payment provider reports payments through a webhook, which can arrive shortly after the client returns
+const ORDER_POLL_INTERVAL_MS = 2000;
+const ORDER_POLL_ATTEMPTS = 15;
+
+const Checkout: React.FC = () => {
+    const navigate = useNavigate();
+    const search = useSearch({ from: '/auth/checkout' });
+    const returnedOrderId = search.order_id as string | undefined;
+    const result = search.result as 'success' | 'canceled' | 'failed' | undefined;
+
+    const [packages, setPackages] = useState<ServicePackage[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedPackageId, setSelectedPackageId] = useState<string | null>(null);
+    const [projectDetails, setProjectDetails] = useState({ project_title: '', project_description: '' });
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Order the client returned from checkout with, if any
+    const [order, setOrder] = useState<Order | null>(null);
+    const [pollAttempts, setPollAttempts] = useState(0);
+
+    useEffect(() => {
+        const fetchPackages = async () => {
+            try {
+                const response = await billingApi.getServicePackages();
+                setPackages(response.packages);
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error fetching service packages:', errorMessage);
+                setError(errorMessage);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchPackages();
+    }, []);
+
+    useEffect(() => {
+        if (!returnedOrderId) {
+            setOrder(null);
+            return;
+        }
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const fetchOrder = async () => {
+            try {
+                const orderData = await billingApi.getOrderById(returnedOrderId);
+                setOrder(orderData);
+
+                // Keep checking until the payment provider has confirmed the payment
+                if (result === 'success' && orderData.status === 'pending' && pollAttempts < ORDER_POLL_ATTEMPTS) {
+                    timer = setTimeout(() => setPollAttempts(attempts => attempts + 1), ORDER_POLL_INTERVAL_MS);
+                }
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error fetching order:', errorMessage);
+                setError(errorMessage);
+            }
+        };
+
+        fetchOrder();
+
+        return () => {
+            if (timer) clearTimeout(timer);
+        };
+    }, [returnedOrderId, result, pollAttempts]);
+
+    const handleDetailsChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value } = e.target;
+        setProjectDetails(prev => ({
+            ...prev,
+            [name]: value
+        }));
+    };
+
+    const handleCheckout = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedPackageId) return;
+
+        setError(null);
+        setIsSubmitting(true);
+
+        try {
+            const response = await billingApi.checkout({
+                package_id: selectedPackageId,
+                project_title: projectDetails.project_title.trim() || undefined,
+                project_description: projectDetails.project_description.trim() || undefined
+            });
+
+            // Hand over to the payment provider's checkout page
+            window.location.assign(response.checkoutUrl);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error starting checkout:', errorMessage);
+            setError(errorMessage);
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleChooseAgain = () => {
+        setError(null);
+        navigate({ to: '/checkout', search: {} });
+    };
+
+    if (isLoading) {
+        return <LoadingSpinner containerClassName="h-64" size="lg" />;
+    }
+
+    const renderOrderResult = () => {
+        if (!order) {
+            return <LoadingSpinner containerClassName="h-32" />;
+        }
+
+        const packageName = order.servicePackage?.name || 'your research package';
+
+        if (order.status === 'paid') {
+            return (
+                <div className="space-y-4">
+                    <SuccessAlert message={`Payment of ${formatCurrency(order.amount_cents, order.currency)} received for ${packageName}. Thank you!`} />
+                    {order.project && (
+                        <p className="text-gray-600 dark:text-gray-300">
+                            Your research project <span className="font-medium">{order.project.title}</span> is now active.
+                            A researcher will be assigned to it shortly.
+                        </p>
+                    )}
+                    {order.invoice && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            Invoice {order.invoice.invoice_number} is available under Billing History in your account settings.
+                        </p>
+                    )}
+                    <div className="flex justify-end space-x-3">
+                        {order.project && (
+                            <Link to="/projects/$projectId" params={{ projectId: order.project.id }} className="btn-secondary">
+                                View Project
+                            </Link>
+                        )}
+                        <Link to="/dashboard" className="btn-primary">
+                            Go to Dashboard
+                        </Link>
+                    </div>
+                </div>
+            );
+        }
+
+        if (order.status === 'pending' && result === 'success') {
+            return pollAttempts < ORDER_POLL_ATTEMPTS ? (
+                <div className="space-y-4">
+                    <InfoAlert message="Confirming your payment with the payment provider..." />
+                    <LoadingSpinner containerClassName="h-16" size="sm" />
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    <InfoAlert message="Your payment is still being confirmed. We will notify you as soon as it goes through and your project is activated." />
+                    <div className="flex justify-end">
+                        <Link to="/dashboard" className="btn-primary">
+                            Go to Dashboard
+                        </Link>
+                    </div>
+                </div>
+            );
+        }
+
+        return (
+            <div className="space-y-4">
+                <ErrorAlert
+                    message={order.status === 'failed'
+                        ? `Your payment for ${packageName} did not go through. You have not been charged.`
+                        : `Checkout for ${packageName} was canceled. You have not been charged.`}
+                />
+                <div className="flex justify-end space-x-3">
+                    <Link to="/dashboard" className="btn-secondary">
+                        Go to Dashboard
+                    </Link>
+                    <button type="button" className="btn-primary" onClick={handleChooseAgain}>
+                        Choose a Package
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <div>
+                    <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Start Your Research</h1>
+                    <p className="mt-1 text-gray-600 dark:text-gray-400">
+                        Choose a research package. Your project opens as soon as your payment is confirmed.
+                    </p>
+                </div>
+                {!returnedOrderId && (
+                    <Link to="/dashboard" className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300">
+                        Skip for now
+                    </Link>
+                )}
+            </div>
+
+            {error && <ErrorAlert message={error} />}
+
+            {returnedOrderId ? (
+                <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg p-6">
+                    <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Your Order</h2>
+                    {renderOrderResult()}
+                </div>
+            ) : (
+                <form onSubmit={handleCheckout} className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        {packages.map(servicePackage => {
+                            const isSelected = servicePackage.package_id === selectedPackageId;
+
+                            return (
+                                <button
+                                    key={servicePackage.package_id}
+                                    type="button"
+                                    onClick={() => setSelectedPackageId(servicePackage.package_id)}
+                                    className={`text-left bg-white dark:bg-gray-800 shadow-sm rounded-lg p-6 border-2 transition-colors ${isSelected
+                                        ? 'border-primary-500'
+                                        : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'}`}
+                                    aria-pressed={isSelected}
+                                >
+                                    <h2 className="text-lg font-medium text-gray-900 dark:text-white">{servicePackage.name}</h2>
+                                    <p className="mt-2 text-3xl font-semibold text-gray-900 dark:text-white">
+                                        {formatCurrency(servicePackage.price_cents, servicePackage.currency)}
+                                    </p>
+                                    {servicePackage.research_hours && (
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                                            Up to {servicePackage.research_hours} research hours
+                                        </p>
+                                    )}
+                                    {servicePackage.description && (
+                                        <p className="mt-3 text-gray-600 dark:text-gray-300">{servicePackage.description}</p>
+                                    )}
+                                    {servicePackage.features.length > 0 && (
+                                        <ul className="mt-4 space-y-2">
+                                            {servicePackage.features.map(feature => (
+                                                <li key={feature} className="flex items-start text-sm text-gray-600 dark:text-gray-300">
+                                                    <svg className="h-5 w-5 text-green-500 mr-2 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
+                                                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                                                    </svg>
+                                                    {feature}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    {packages.length === 0 && !error && (
+                        <InfoAlert message="No research packages are available at the moment. Please contact us for a custom quote." />
+                    )}
+
+                    {selectedPackageId && (
+                        <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg p-6 space-y-4">
+                            <h2 className="text-lg font-medium text-gray-900 dark:text-white">About Your Project</h2>
+                            <div>
+                                <label htmlFor="project_title" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    Project Name (optional)
+                                </label>
+                                <input
+                                    id="project_title"
+                                    name="project_title"
+                                    type="text"
+                                    className="form-input"
+                                    placeholder="e.g. Smith family of County Cork"
+                                    maxLength={255}
+                                    value={projectDetails.project_title}
+                                    onChange={handleDetailsChange}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="project_description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                                    What would you like us to research? (optional)
+                                </label>
+                                <textarea
+                                    id="project_description"
+                                    name="project_description"
+                                    rows={3}
+                                    className="form-textarea"
+                                    placeholder="Names, places and dates you already know"
+                                    value={projectDetails.project_description}
+                                    onChange={handleDetailsChange}
+                                />
+                            </div>
+                            <div className="flex justify-end">
+                                <button type="submit" className="btn-primary" disabled={isSubmitting}>
+                                    {isSubmitting ? 'Redirecting to Payment...' : 'Continue to Payment'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default Checkout;
@@ -4,8 +4,9 @@ import { DashboardSummary, Project, UserEvent, dashboardApi, projectsApi } from
 import EmptyState from '../components/common/EmptyState';
 import ErrorAlert from '../components/common/ErrorAlert';
 import LoadingSpinner from '../components/common/LoadingSpinner';
+import ClientConsultations from '../components/consultations/ClientConsultations';
 import ProjectList from '../components/projects/ProjectList';
-import { getUser } from '../utils/auth';
+import { getUser, hasRole } from '../utils/auth';
 import { formatDate } from '../utils/dateUtils';
 import { getApiErrorMessage } from '../utils/errorUtils';
 import { formatSnakeCase } from '../utils/formatUtils';
@@ -74,7 +75,9 @@ const Dashboard = () => {
         <div className="space-y-6">
             <div className="flex justify-between items-center">
                 <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Welcome, {user?.first_name}</h1>
-                {/* <button className="btn-primary">New Research Request</button> */}
+                {!hasRole('manager') && (
+                    <Link to="/checkout" className="btn-primary">New Research Request</Link>
+                )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -129,6 +132,8 @@ const Dashboard = () => {
                 )}
             </div>
 
+            {/* Consultations */}
+            {!hasRole('manager') && !projectsLoading && <ClientConsultations projects={projects} />}
 
             {/* Notifications */}
             <div className="card bg-white dark:bg-gray-800 shadow-sm rounded-lg p-6">
@@ -1,13 +1,15 @@
 import { Link } from '@tanstack/react-router';
 import { useEffect, useState } from 'react';
-import { ManagerDashboardSummary, managerApi } from '../api/client';
+import { ManagerDashboardSummary, managerApi, researchApi } from '../api/client';
 import EmptyState from '../components/common/EmptyState';
 import ErrorAlert from '../components/common/ErrorAlert';
 import LoadingSpinner from '../components/common/LoadingSpinner';
 import SuccessAlert from '../components/common/SuccessAlert';
+import ManagerConsultations from '../components/consultations/ManagerConsultations';
 import CreateProjectModal from '../components/projects/CreateProjectModal';
 import { formatDate } from '../utils/dateUtils';
 import { getApiErrorMessage } from '../utils/errorUtils';
+import { TASK_PRIORITY_DOT_CLASSES, isTaskOverdue } from '../utils/researchUtils';
 
 const ManagerDashboard = () => {
     const [isLoading, setIsLoading] = useState(true);
@@ -46,6 +48,17 @@ const ManagerDashboard = () => {
         fetchDashboardData();
     };
 
+    const handleCompleteTask = async (taskId: string) => {
+        try {
+            await researchApi.updateTask(taskId, { status: 'done' });
+            fetchDashboardData();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error completing task:', errorMessage);
+            setError(errorMessage);
+        }
+    };
+
     useEffect(() => {
         fetchDashboardData();
     }, []);
@@ -187,20 +200,29 @@ const ManagerDashboard = () => {
                             {dashboardData.pendingTasks.map((task) => (
                                 <div key={task.id} className="flex items-start border-b border-gray-100 dark:border-gray-700 pb-4 last:border-0 last:pb-0">
                                     <div className="flex-shrink-0 mr-3">
-                                        <div className={`h-3 w-3 rounded-full mt-1 ${task.priority === 'high'
-                                            ? 'bg-red-500'
-                                            : task.priority === 'medium'
-                                                ? 'bg-yellow-500'
-                                                : 'bg-green-500'
-                                            }`}></div>
+                                        <div className={`h-3 w-3 rounded-full mt-1 ${TASK_PRIORITY_DOT_CLASSES[task.priority]}`}></div>
                                     </div>
                                     <div className="flex-1">
                                         <p className="text-sm text-gray-900 dark:text-white">{task.description}</p>
                                         <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                                            Due: {formatDate(task.dueDate)}
+                                            {task.projectTitle && (
+                                                <Link to="/projects/$projectId" params={{ projectId: task.projectId }} search={{ tab: 'research_notes' }} className="hover:underline">
+                                                    {task.projectTitle}
+                                                </Link>
+                                            )}
+                                            {task.assignee && ` · ${task.assignee}`}
                                         </p>
+                                        {task.dueDate && (
+                                            <p className={`text-xs mt-1 ${isTaskOverdue({ due_date: task.dueDate, status: task.status }) ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                                                Due: {formatDate(task.dueDate)}
+                                            </p>
+                                        )}
                                     </div>
-                                    <button className="text-xs text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300">
+                                    <button
+                                        type="button"
+                                        onClick={() => handleCompleteTask(task.id)}
+                                        className="text-xs text-primary-600 hover:text-primary-800 dark:text-primary-400 dark:hover:text-primary-300"
+                                    >
                                         Complete
                                     </button>
                                 </div>
@@ -210,6 +232,9 @@ const ManagerDashboard = () => {
                 </div>
             </div>
 
+            {/* Consultations */}
+            <ManagerConsultations />
+
             {/* Quick Actions */}
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm p-6">
                 <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Quick Actions</h2>
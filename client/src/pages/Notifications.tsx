@@ -1,91 +1,146 @@
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Link } from '@tanstack/react-router';
 import { useEffect, useState } from 'react';
-import { UserEvent, dashboardApi } from '../api/client';
+import { UserEvent, UserEventListParams, userEventsApi } from '../api/client';
+import { queryKeys } from '../api/queryKeys';
 import ErrorAlert from '../components/common/ErrorAlert';
+import LoadingSpinner from '../components/common/LoadingSpinner';
 import { formatDate } from '../utils/dateUtils';
 import { getApiErrorMessage } from '../utils/errorUtils';
 import { formatSnakeCase } from '../utils/formatUtils';
 import { getActivityIcon } from '../utils/iconUtils';
 import ViewToggle from '../components/common/ViewToggle';
 
+const PAGE_SIZE = 20;
+
+type Folder = 'inbox' | 'unread' | 'archive';
+
+const FOLDERS: { value: Folder; label: string; params: Pick<UserEventListParams, 'status' | 'archived'> }[] = [
+    { value: 'inbox', label: 'Inbox', params: { status: 'all', archived: 'false' } },
+    { value: 'unread', label: 'Unread', params: { status: 'unread', archived: 'false' } },
+    { value: 'archive', label: 'Archive', params: { status: 'all', archived: 'true' } }
+];
+
+// Notification types grouped for the type filter
+const CATEGORIES: { label: string; types: string[] }[] = [
+    {
+        label: 'Projects',
+        types: ['project_created', 'project_updated', 'project_assigned', 'project_removed', 'person_added_to_project', 'person_removed_from_project', 'research_entry_created']
+    },
+    {
+        label: 'People & Relationships',
+        types: ['person_created', 'person_updated', 'person_deleted', 'person_merged', 'relationship_created', 'relationship_updated', 'relationship_deleted']
+    },
+    {
+        label: 'Events',
+        types: ['event_created', 'event_updated', 'event_deleted']
+    },
+    {
+        label: 'Documents & Sources',
+        types: ['document_created', 'document_updated', 'document_deleted', 'document_associated', 'document_removed', 'source_created', 'source_updated', 'source_deleted', 'citation_added', 'citation_removed']
+    },
+    {
+        label: 'Orders & Consultations',
+        types: ['order_paid', 'order_failed', 'consultation_booked', 'consultation_rescheduled', 'consultation_canceled', 'consultation_completed']
+    },
+    {
+        label: 'Account',
+        types: ['user_created', 'user_updated', 'user_deactivated', 'user_reactivated', 'user_roles', 'password_reset']
+    }
+];
+
 const Notifications = () => {
-    const [notifications, setNotifications] = useState<UserEvent[]>([]);
-    const [filteredNotifications, setFilteredNotifications] = useState<UserEvent[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const queryClient = useQueryClient();
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
+    const [search, setSearch] = useState('');
     const [sortBy, setSortBy] = useState<'newest' | 'oldest'>('newest');
-    const [filterType, setFilterType] = useState<string>('all');
+    const [filterCategory, setFilterCategory] = useState<string>('all');
+    const [folder, setFolder] = useState<Folder>('inbox');
+    const [page, setPage] = useState(1);
     const [viewMode, setViewMode] = useState<'grid' | 'list'>(() => {
         return (localStorage.getItem('notificationsViewMode') as 'grid' | 'list') || 'list';
     });
 
+    const categoryTypes = CATEGORIES.find(category => category.label === filterCategory)?.types;
+
     const handleToggleView = (newView: 'grid' | 'list') => {
         setViewMode(newView);
         localStorage.setItem('notificationsViewMode', newView);
     };
 
-    // Fetch notifications
+    // Wait for a pause in typing before searching
     useEffect(() => {
-        const fetchNotifications = async () => {
-            try {
-                const data = await dashboardApi.getUserEvents();
-                setNotifications(data.userEvents);
-                setFilteredNotifications(data.userEvents);
-                setIsLoading(false);
-            } catch (err: unknown) {
-                const errorMessage = await getApiErrorMessage(err);
-                console.error('Error fetching notifications:', errorMessage);
-                setError(errorMessage);
-                setIsLoading(false);
-            }
-        };
-
-        fetchNotifications();
-    }, []);
-
-    // Filter and sort notifications
-    useEffect(() => {
-        let result = [...notifications];
+        const timeout = window.setTimeout(() => {
+            setSearch(searchTerm.trim());
+            setPage(1);
+        }, 300);
+        return () => window.clearTimeout(timeout);
+    }, [searchTerm]);
 
-        // Apply type filter
-        if (filterType !== 'all') {
-            result = result.filter(notification => notification.event_type === filterType);
-        }
+    const params: UserEventListParams = {
+        page,
+        limit: PAGE_SIZE,
+        sortOrder: sortBy === 'newest' ? 'desc' : 'asc',
+        eventType: categoryTypes?.join(','),
+        search,
+        ...FOLDERS.find(option => option.value === folder)?.params
+    };
 
-        // Apply search
-        if (searchTerm) {
-            const term = searchTerm.toLowerCase();
-            result = result.filter(notification =>
-                notification.message.toLowerCase().includes(term) ||
-                notification.event_type.toLowerCase().includes(term)
-            );
-        }
+    // Fetch notifications; pushed notifications invalidate the query so the list stays current
+    const { data, isPending, error: queryError } = useQuery({
+        queryKey: queryKeys.userEvents.list(params),
+        queryFn: () => userEventsApi.getUserEvents(params),
+        placeholderData: keepPreviousData,
+        staleTime: 0
+    });
 
-        // Apply sorting
-        result.sort((a, b) => {
-            const dateA = new Date(a.createdAt).getTime();
-            const dateB = new Date(b.createdAt).getTime();
-            return sortBy === 'newest' ? dateB - dateA : dateA - dateB;
+    useEffect(() => {
+        if (!queryError) {
+            setLoadError(null);
+            return;
+        }
+        getApiErrorMessage(queryError).then(errorMessage => {
+            console.error('Error fetching notifications:', errorMessage);
+            setLoadError(errorMessage);
         });
+    }, [queryError]);
+
+    const refreshNotifications = () => queryClient.invalidateQueries({ queryKey: queryKeys.userEvents.all });
 
-        setFilteredNotifications(result);
-    }, [notifications, searchTerm, sortBy, filterType]);
+    const updateState = async (notification: UserEvent, state: { read?: boolean; archived?: boolean }) => {
+        try {
+            await userEventsApi.updateState(notification.id, state);
+            setActionError(null);
+            await refreshNotifications();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error updating notification:', errorMessage);
+            setActionError(errorMessage);
+        }
+    };
 
-    // Get unique event types for filter dropdown
-    const eventTypes = ['all', ...Array.from(new Set(notifications.map(n => n.event_type)))];
+    const handleMarkAllRead = async () => {
+        try {
+            await userEventsApi.markAllRead(categoryTypes);
+            setActionError(null);
+            await refreshNotifications();
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error marking notifications as read:', errorMessage);
+            setActionError(errorMessage);
+        }
+    };
 
-    if (isLoading) {
-        return (
-            <div className="flex justify-center items-center h-64">
-                <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-600"></div>
-            </div>
-        );
+    if (isPending) {
+        return <LoadingSpinner size="lg" />;
     }
 
-    if (error) {
-        return <ErrorAlert message={error} />
-    }
+    const notifications = data?.events || [];
+    const totalPages = data?.metadata.totalPages || 1;
+    const unreadCount = data?.metadata.unread || 0;
+    const error = actionError || loadError;
 
     return (
         <div className="space-y-6">
@@ -96,7 +151,44 @@ const Notifications = () => {
                     </svg>
                     Back to Dashboard
                 </Link>
-                <h1 className="text-2xl font-semibold text-gray-900 dark:text-white mt-1">Notifications</h1>
+                <div className="flex justify-between items-center mt-1">
+                    <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">
+                        Notifications
+                        {unreadCount > 0 && (
+                            <span className="ml-2 text-base font-normal text-gray-500 dark:text-gray-400">{unreadCount} unread</span>
+                        )}
+                    </h1>
+                    <button
+                        type="button"
+                        className="btn-secondary"
+                        onClick={handleMarkAllRead}
+                        disabled={unreadCount === 0}
+                    >
+                        {categoryTypes ? `Mark all ${filterCategory} read` : 'Mark all read'}
+                    </button>
+                </div>
+            </div>
+
+            {error && <ErrorAlert message={error} />}
+
+            {/* Folders */}
+            <div className="flex space-x-2 border-b border-gray-200 dark:border-gray-700">
+                {FOLDERS.map(option => (
+                    <button
+                        key={option.value}
+                        type="button"
+                        className={`px-4 py-2 -mb-px border-b-2 text-sm font-medium ${folder === option.value
+                            ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                            : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'
+                            }`}
+                        onClick={() => {
+                            setFolder(option.value);
+                            setPage(1);
+                        }}
+                    >
+                        {option.label}
+                    </button>
+                ))}
             </div>
 
             {/* Search, filters, and view toggle */}
@@ -113,19 +205,24 @@ const Notifications = () => {
                 <div className="flex gap-4">
                     <select
                         className="px-4 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
-                        value={filterType}
-                        onChange={(e) => setFilterType(e.target.value)}
+                        value={filterCategory}
+                        onChange={(e) => {
+                            setFilterCategory(e.target.value);
+                            setPage(1);
+                        }}
                     >
-                        {eventTypes.map(type => (
-                            <option key={type} value={type}>
-                                {type === 'all' ? 'All Types' : formatSnakeCase(type)}
-                            </option>
+                        <option value="all">All Types</option>
+                        {CATEGORIES.map(category => (
+                            <option key={category.label} value={category.label}>{category.label}</option>
                         ))}
                     </select>
                     <select
                         className="px-4 py-2 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                         value={sortBy}
-                        onChange={(e) => setSortBy(e.target.value as 'newest' | 'oldest')}
+                        onChange={(e) => {
+                            setSortBy(e.target.value as 'newest' | 'oldest');
+                            setPage(1);
+                        }}
                     >
                         <option value="newest">Newest First</option>
                         <option value="oldest">Oldest First</option>
@@ -137,42 +234,89 @@ const Notifications = () => {
             {/* Notifications list */}
             <div className="card bg-white dark:bg-gray-800 shadow-sm rounded-lg p-6">
                 <div className={viewMode === 'grid' ? "grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4" : "space-y-4"}>
-                    {filteredNotifications.length === 0 ? (
+                    {notifications.length === 0 ? (
                         <div className="text-center py-8 col-span-full">
                             <p className="text-gray-500 dark:text-gray-400">No notifications found.</p>
                         </div>
                     ) : (
-                        filteredNotifications.map(notification => (
-                            <div
-                                key={notification.id}
-                                className={viewMode === 'grid'
-                                    ? "flex flex-col p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
-                                    : "flex items-start space-x-4 border-l-4 border-gray-300 dark:border-gray-600 pl-5 py-3"
-                                }
-                            >
-                                <div className="flex-shrink-0">
-                                    {getActivityIcon(notification.event_type)}
-                                </div>
-                                <div className="flex-1">
-                                    <div className="flex justify-between">
-                                        <span className="font-medium dark:text-white">
-                                            {formatSnakeCase(notification.event_type)}
-                                        </span>
-                                        <span className="text-sm text-gray-500 dark:text-gray-400">
-                                            {formatDate(notification.createdAt, 'No date')}
-                                        </span>
+                        notifications.map(notification => {
+                            const isUnread = !notification.read_at;
+                            const isArchived = !!notification.archived_at;
+
+                            return (
+                                <div
+                                    key={notification.id}
+                                    className={viewMode === 'grid'
+                                        ? `flex flex-col p-4 border rounded-lg ${isUnread ? 'border-primary-300 dark:border-primary-700' : 'border-gray-200 dark:border-gray-700'}`
+                                        : `flex items-start space-x-4 border-l-4 pl-5 py-3 ${isUnread ? 'border-primary-500' : 'border-gray-300 dark:border-gray-600'}`
+                                    }
+                                >
+                                    <div className="flex-shrink-0">
+                                        {getActivityIcon(notification.event_type)}
+                                    </div>
+                                    <div className="flex-1">
+                                        <div className="flex justify-between">
+                                            <span className={`dark:text-white ${isUnread ? 'font-semibold' : 'font-medium'}`}>
+                                                {isUnread && <span className="inline-block h-2 w-2 rounded-full bg-primary-500 mr-2 align-middle" aria-label="Unread" />}
+                                                {formatSnakeCase(notification.event_type)}
+                                            </span>
+                                            <span className="text-sm text-gray-500 dark:text-gray-400">
+                                                {formatDate(notification.createdAt, 'No date')}
+                                            </span>
+                                        </div>
+                                        <p className="text-gray-600 dark:text-gray-300 mt-1">{notification.message}</p>
+                                        {notification.actor && (
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                                By {notification.actor.first_name} {notification.actor.last_name}
+                                            </p>
+                                        )}
+                                        <div className="flex space-x-4 mt-2 text-xs">
+                                            <button
+                                                type="button"
+                                                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                                                onClick={() => updateState(notification, { read: isUnread })}
+                                            >
+                                                {isUnread ? 'Mark as read' : 'Mark as unread'}
+                                            </button>
+                                            <button
+                                                type="button"
+                                                className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+                                                onClick={() => updateState(notification, { archived: !isArchived })}
+                                            >
+                                                {isArchived ? 'Move to inbox' : 'Archive'}
+                                            </button>
+                                        </div>
                                     </div>
-                                    <p className="text-gray-600 dark:text-gray-300 mt-1">{notification.message}</p>
-                                    {notification.actor && (
-                                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                                            By {notification.actor.first_name} {notification.actor.last_name}
-                                        </p>
-                                    )}
                                 </div>
-                            </div>
-                        ))
+                            );
+                        })
                     )}
                 </div>
+
+                {/* Pagination */}
+                {totalPages > 1 && (
+                    <div className="mt-6 flex justify-between items-center">
+                        <button
+                            type="button"
+                            className="btn-secondary"
+                            onClick={() => setPage(page - 1)}
+                            disabled={page <= 1}
+                        >
+                            Previous
+                        </button>
+                        <span className="text-sm text-gray-500 dark:text-gray-400">
+                            Page {page} of {totalPages}
+                        </span>
+                        <button
+                            type="button"
+                            className="btn-secondary"
+                            onClick={() => setPage(page + 1)}
+                            disabled={page >= totalPages}
+                        >
+                            Next
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -1,6 +1,8 @@
-import { Link, useParams } from '@tanstack/react-router';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams, useSearch } from '@tanstack/react-router';
 import { useEffect, useState } from 'react';
-import { Person, ProjectDetail as ProjectDetailType, projectsApi } from '../api/client';
+import { GedcomImportResult, Person, ProjectDetail as ProjectDetailType, projectsApi } from '../api/client';
+import { queryKeys } from '../api/queryKeys';
 import ConfirmDeleteModal from '../components/common/ConfirmDeleteModal';
 import ErrorAlert from '../components/common/ErrorAlert';
 import LoadingSpinner from '../components/common/LoadingSpinner';
@@ -9,25 +11,41 @@ import CreatePersonModal from '../components/projects/CreatePersonModal';
 import EditPersonModal from '../components/projects/EditPersonModal';
 import EditPersonNotesModal from '../components/projects/EditPersonNotesModal';
 import EditProjectModal from '../components/projects/EditProjectModal';
+import GedcomImportModal from '../components/projects/GedcomImportModal';
+import DuplicatePersonsModal from '../components/projects/DuplicatePersonsModal';
+import ProjectDataQualityTab from '../components/projects/ProjectDataQualityTab';
 import ProjectDocumentsTab from '../components/projects/ProjectDocumentsTab';
 import ProjectFamilyMembersTab from '../components/projects/ProjectFamilyMembersTab';
+import ProjectMapTab from '../components/projects/ProjectMapTab';
 import ProjectOverviewTab from '../components/projects/ProjectOverviewTab';
 import ProjectRelationshipsTab from '../components/projects/ProjectRelationshipsTab';
-import ProjectResearchNotesTab from '../components/projects/ProjectResearchNotesTab';
+import ProjectResearchLogTab from '../components/projects/ProjectResearchLogTab';
 import ProjectTimelineTab from '../components/projects/ProjectTimelineTab';
+import ProjectTreeTab from '../components/projects/ProjectTreeTab';
+import ShareLinksModal from '../components/projects/ShareLinksModal';
 import ViewPersonModal from '../components/projects/ViewPersonModal';
 import { User } from '../utils/auth';
 import { formatDate } from '../utils/dateUtils';
 import { getApiErrorMessage } from '../utils/errorUtils';
 import { getStatusBadgeClass, getStatusText } from '../utils/statusUtils';
 
+const PROJECT_TABS = ['overview', 'documents', 'timeline', 'family_members', 'relationships', 'research_notes', 'tree', 'map', 'data_quality'] as const;
+type ProjectTab = typeof PROJECT_TABS[number];
+
 const ProjectDetail = () => {
     const { projectId } = useParams({ from: '/auth/projects/$projectId' });
+    // Links from search results name the tab to show and the person to open
+    const search = useSearch({ from: '/auth/projects/$projectId' });
+    const requestedTab = search.tab as string | undefined;
+    const requestedPersonId = search.personId as string | undefined;
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [project, setProject] = useState<ProjectDetailType | null>(null);
-    const [activeTab, setActiveTab] = useState<'overview' | 'documents' | 'timeline' | 'family_members' | 'relationships' | 'research_notes' | 'tree'>('overview');
+    const [activeTab, setActiveTab] = useState<ProjectTab>('overview');
     const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+    const [isGedcomImportModalOpen, setIsGedcomImportModalOpen] = useState(false);
+    const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
+    const [isShareModalOpen, setIsShareModalOpen] = useState(false);
     // const [isAddPersonModalOpen, setIsAddPersonModalOpen] = useState(false);
     const [isCreatePersonModalOpen, setIsCreatePersonModalOpen] = useState(false);
     const [editingPerson, setEditingPerson] = useState<Person | null>(null);
@@ -47,6 +65,39 @@ const ProjectDetail = () => {
         }
     };
 
+    const handleGedcomImported = async (result: GedcomImportResult) => {
+        setSuccessMessage(`Imported ${result.created.persons} people from GEDCOM file`);
+
+        // Refresh project data so the new people and relationships show up
+        const updatedProject = await projectsApi.getProjectById(projectId, {
+            includeRelationships: true,
+            includeDocuments: true
+        });
+        setProject(updatedProject);
+        setDocumentCount(updatedProject.documents?.length || 0);
+
+        // Clear success message after 3 seconds
+        setTimeout(() => {
+            setSuccessMessage(null);
+        }, 3000);
+    };
+
+    const handlePersonsMerged = async (person: Person) => {
+        setSuccessMessage(`Duplicate records merged into ${person.first_name} ${person.last_name}`);
+
+        // Refresh project data so the merged-away person disappears and its links show on the survivor
+        const updatedProject = await projectsApi.getProjectById(projectId, {
+            includeRelationships: true,
+            includeDocuments: true
+        });
+        setProject(updatedProject);
+
+        // Clear success message after 3 seconds
+        setTimeout(() => {
+            setSuccessMessage(null);
+        }, 3000);
+    };
+
     const handleProjectUpdated = (updatedProject: ProjectDetailType) => {
         setProject(updatedProject);
         setIsEditModalOpen(false);
@@ -72,6 +123,12 @@ const ProjectDetail = () => {
         setEditingPersonDetails(person);
     };
 
+    // Issues found by the data quality audit name persons by ID
+    const handleEditPersonById = (personId: string) => {
+        const person = project?.persons?.find(item => item.person_id === personId);
+        if (person) setEditingPersonDetails(person);
+    };
+
     const handleViewPerson = (personId: string) => {
         setViewingPersonId(personId);
     };
@@ -189,28 +246,43 @@ const ProjectDetail = () => {
         }, 3000);
     };
 
+    // Changes pushed by the server invalidate this query, so edits made by others show up without a reload
+    const projectQuery = useQuery({
+        queryKey: queryKeys.projects.detail(projectId),
+        queryFn: () => projectsApi.getProjectById(projectId, {
+            includeRelationships: true,
+            includeDocuments: true
+        }),
+        staleTime: 0
+    });
+
+    useEffect(() => {
+        if (projectQuery.data) {
+            setProject(projectQuery.data);
+            setDocumentCount(projectQuery.data.documents?.length || 0);
+            setError(null);
+            setIsLoading(false);
+        }
+    }, [projectQuery.data]);
+
     useEffect(() => {
-        const fetchProjectDetails = async () => {
-            try {
-                // Include relationships and documents when fetching project data
-                const projectData = await projectsApi.getProjectById(projectId, {
-                    includeRelationships: true,
-                    includeDocuments: true
-                });
-                console.log('Fetched project data:', projectData); // Log the fetched data
-                setProject(projectData);
-                setDocumentCount(projectData.documents?.length || 0); // Initialize document count
-                setIsLoading(false);
-            } catch (err: unknown) {
-                const errorMessage = await getApiErrorMessage(err);
-                console.error('Error fetching project details:', errorMessage);
-                setError(errorMessage);
-                setIsLoading(false);
-            }
+        const tab = PROJECT_TABS.find(t => t === requestedTab);
+        if (tab) setActiveTab(tab);
+        if (requestedPersonId) setViewingPersonId(requestedPersonId);
+    }, [requestedTab, requestedPersonId]);
+
+    useEffect(() => {
+        if (!projectQuery.error) return;
+
+        const showError = async () => {
+            const errorMessage = await getApiErrorMessage(projectQuery.error);
+            console.error('Error fetching project details:', errorMessage);
+            setError(errorMessage);
+            setIsLoading(false);
         };
 
-        fetchProjectDetails();
-    }, [projectId]);
+        showError();
+    }, [projectQuery.error]);
 
     if (isLoading) {
         return <LoadingSpinner containerClassName="h-64" size="lg" />;
@@ -243,7 +315,32 @@ const ProjectDetail = () => {
                     </Link>
                     <h1 className="text-2xl font-semibold text-gray-900 dark:text-white mt-1">{project.title}</h1>
                 </div>
-                <div>
+                <div className="flex space-x-3">
+                    {project.access_level === 'edit' && project.status !== 'completed' && (
+                        <button
+                            className="btn-secondary"
+                            onClick={() => setIsGedcomImportModalOpen(true)}
+                            title="Import people, relationships and events from a GEDCOM file"
+                        >
+                            Import GEDCOM
+                        </button>
+                    )}
+                    {isManager && project.access_level === 'edit' && project.status !== 'completed' && (
+                        <button
+                            className="btn-secondary"
+                            onClick={() => setIsDuplicatesModalOpen(true)}
+                            title="Find people who may have been entered more than once and merge them"
+                        >
+                            Find Duplicates
+                        </button>
+                    )}
+                    <button
+                        className="btn-secondary"
+                        onClick={() => setIsShareModalOpen(true)}
+                        title="Share a read-only view of the project with family members who have no account"
+                    >
+                        Share
+                    </button>
                     <button
                         className="btn-secondary"
                         onClick={handleOpenEditModal}
@@ -331,7 +428,7 @@ const ProjectDetail = () => {
                                 }`}
                             onClick={() => setActiveTab('research_notes')}
                         >
-                            Research Notes
+                            Research Log
                         </button>
                         <button
                             className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${activeTab === 'tree'
@@ -342,6 +439,26 @@ const ProjectDetail = () => {
                         >
                             Tree
                         </button>
+                        <button
+                            className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${activeTab === 'map'
+                                ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300 dark:hover:border-gray-600'
+                                }`}
+                            onClick={() => setActiveTab('map')}
+                        >
+                            Map
+                        </button>
+                        {isManager && (
+                            <button
+                                className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${activeTab === 'data_quality'
+                                    ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300 dark:hover:border-gray-600'
+                                    }`}
+                                onClick={() => setActiveTab('data_quality')}
+                            >
+                                Data Quality
+                            </button>
+                        )}
                     </nav>
                 </div>
 
@@ -384,7 +501,28 @@ const ProjectDetail = () => {
                     )}
 
                     {activeTab === 'research_notes' && (
-                        <ProjectResearchNotesTab project={project} />
+                        <ProjectResearchLogTab project={project} />
+                    )}
+
+                    {activeTab === 'tree' && (
+                        <ProjectTreeTab
+                            project={project}
+                            onViewPerson={handleViewPerson}
+                        />
+                    )}
+
+                    {activeTab === 'map' && (
+                        <ProjectMapTab
+                            project={project}
+                            onViewPerson={handleViewPerson}
+                        />
+                    )}
+
+                    {activeTab === 'data_quality' && isManager && (
+                        <ProjectDataQualityTab
+                            project={project}
+                            onEditPerson={handleEditPersonById}
+                        />
                     )}
                 </div>
             </div>
@@ -399,6 +537,36 @@ const ProjectDetail = () => {
                 />
             )}
 
+            {/* GEDCOM Import Modal */}
+            {isGedcomImportModalOpen && (
+                <GedcomImportModal
+                    projectId={projectId}
+                    isOpen={isGedcomImportModalOpen}
+                    onClose={() => setIsGedcomImportModalOpen(false)}
+                    onImported={handleGedcomImported}
+                />
+            )}
+
+            {/* Duplicate Persons Modal */}
+            {isDuplicatesModalOpen && (
+                <DuplicatePersonsModal
+                    projectId={projectId}
+                    isOpen={isDuplicatesModalOpen}
+                    onClose={() => setIsDuplicatesModalOpen(false)}
+                    onMerged={handlePersonsMerged}
+                />
+            )}
+
+            {/* Share Links Modal */}
+            {isShareModalOpen && (
+                <ShareLinksModal
+                    project={project}
+                    currentUserId={currentUser?.user_id}
+                    isOpen={isShareModalOpen}
+                    onClose={() => setIsShareModalOpen(false)}
+                />
+            )}
+
             {/* Add Person Modal
             {isAddPersonModalOpen && (
                 <AddPersonModal
@@ -437,6 +605,7 @@ const ProjectDetail = () => {
                     isOpen={!!editingPersonDetails}
                     onClose={() => setEditingPersonDetails(null)}
                     onPersonUpdated={handlePersonUpdated}
+                    projectId={projectId}
                 />
             )}
 
@@ -450,6 +619,8 @@ const ProjectDetail = () => {
                     onViewRelatedPerson={handleViewPerson}
                     projectStatus={project.status}
                     isManager={isManager}
+                    projectPersons={project.persons}
+                    projectId={projectId}
                 />
             )}
 
@@ -66,7 +66,8 @@ const Register = () => {
             const { /* confirmPassword, */ ...registerData } = formData;
             const response = await authApi.register(registerData);
             login(response.token, response.user, response.refreshToken);
-            navigate({ to: '/dashboard' });
+            // New clients choose a research package before reaching their dashboard
+            navigate({ to: '/checkout' });
         } catch (err: unknown) {
             const errorMessage = await getApiErrorMessage(err);
             console.error('Registration error:', errorMessage);
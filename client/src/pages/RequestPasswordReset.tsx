@@ -20,11 +20,7 @@ const RequestPasswordReset: React.FC = () => {
         try {
             const response = await authApi.requestPasswordReset(email);
             setSuccessMessage(response.message);
-
-            // Immediately redirect to the reset link if provided (for development/testing without mail server)
-            if (response.resetUrl) {
-                window.location.href = response.resetUrl; // Use window.location.href for external redirect
-            }
+            setEmail('');
         } catch (err: unknown) {
             const errorMessage = await getApiErrorMessage(err);
             console.error('Request password reset error:', errorMessage);
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { ClientProfile, authApi, clientApi } from '../api/client';
+import BillingHistory from '../components/billing/BillingHistory';
 import ErrorAlert from '../components/common/ErrorAlert';
 import SuccessAlert from '../components/common/SuccessAlert';
 import { getUser } from '../utils/auth';
@@ -12,7 +13,7 @@ import {
     validateRequired,
     validateZipCode
 } from '../utils/formValidation'; // Import new validation utilities
-import { STATES_BY_COUNTRY } from '../utils/locationData';
+import { COUNTRIES, STATES_BY_COUNTRY } from '../utils/locationData';
 // Remove the old validationUtils import if no longer needed
 // import { validateAddressGroup } from '../utils/validationUtils';
 
@@ -491,10 +492,9 @@ const Settings = () => {
                                         onChange={handleProfileChange}
                                     >
                                         <option value="" disabled>Select a country</option>
-                                        <option value="USA">United States</option>
-                                        <option value="CAN">Canada</option>
-                                        <option value="GBR">United Kingdom</option>
-                                        <option value="AUS">Australia</option>
+                                        {COUNTRIES.map(country => (
+                                            <option key={country.code} value={country.code}>{country.name}</option>
+                                        ))}
                                     </select>
                                 </div>
                             </div>
@@ -602,9 +602,9 @@ const Settings = () => {
                             </div>
                             <div className="ml-3 text-sm">
                                 <label htmlFor="email_notifications" className="font-medium text-gray-700 dark:text-gray-300">
-                                    Marketing Emails
+                                    Project Notifications
                                 </label>
-                                <p className="text-gray-500 dark:text-gray-400">Receive emails about new features, promotions, and updates.</p>
+                                <p className="text-gray-500 dark:text-gray-400">Receive an email when you are given access to a research project.</p>
                             </div>
                         </div>
                         <div className="flex items-start">
@@ -620,9 +620,9 @@ const Settings = () => {
                             </div>
                             <div className="ml-3 text-sm">
                                 <label htmlFor="research_updates" className="font-medium text-gray-700 dark:text-gray-300">
-                                    Newsletter
+                                    Research Updates
                                 </label>
-                                <p className="text-gray-500 dark:text-gray-400">Receive our monthly newsletter with genealogy tips and resources.</p>
+                                <p className="text-gray-500 dark:text-gray-400">Receive an email when your researcher records new findings, people or documents in your projects.</p>
                             </div>
                         </div>
                         <div className="flex justify-end">
@@ -638,6 +638,15 @@ const Settings = () => {
                 </div>
             </div>
 
+            {/* Billing History Section */}
+            <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
+                <div className="p-6">
+                    <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Billing History</h2>
+
+                    <BillingHistory />
+                </div>
+            </div>
+
             {/* Delete Account Section
             <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg">
                 <div className="p-6">
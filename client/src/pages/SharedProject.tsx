@@ -0,0 +1,226 @@
+import { useParams } from '@tanstack/react-router';
+import { HTTPError } from 'ky';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { SharedProject as SharedProjectType, shareLinksApi } from '../api/client';
+import BaseModal from '../components/common/BaseModal';
+import EmptyState from '../components/common/EmptyState';
+import ErrorAlert from '../components/common/ErrorAlert';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import ProjectTimelineTab from '../components/projects/ProjectTimelineTab';
+import ProjectTreeTab from '../components/projects/ProjectTreeTab';
+import { formatDate } from '../utils/dateUtils';
+import { getApiErrorMessage } from '../utils/errorUtils';
+
+type SharedTab = 'tree' | 'timeline' | 'documents';
+
+interface OpenDocument {
+    title: string;
+    mimeType: string | null;
+    url: string;
+}
+
+// Read-only view of a project for visitors of a share link, who have no account
+const SharedProject: React.FC = () => {
+    const { token } = useParams({ from: '/shared/$token' });
+    const [shared, setShared] = useState<SharedProjectType | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [needsPassword, setNeedsPassword] = useState(false);
+    const [password, setPassword] = useState('');
+    const [activeTab, setActiveTab] = useState<SharedTab>('tree');
+    const [openDocument, setOpenDocument] = useState<OpenDocument | null>(null);
+
+    const loadProject = useCallback(async (sharePassword?: string) => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setShared(await shareLinksApi.getSharedProject(token, sharePassword));
+            setNeedsPassword(false);
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error opening shared project:', errorMessage);
+            if (err instanceof HTTPError && err.response.status === 401) {
+                setNeedsPassword(true);
+                // The first visit asks for the password without calling it wrong
+                if (sharePassword) setError(errorMessage);
+            } else {
+                setError(errorMessage);
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    }, [token]);
+
+    useEffect(() => {
+        loadProject();
+    }, [loadProject]);
+
+    // Object URLs hold the file in memory until they are released
+    useEffect(() => {
+        return () => {
+            if (openDocument) URL.revokeObjectURL(openDocument.url);
+        };
+    }, [openDocument]);
+
+    const treeData = useMemo(
+        () => (shared ? { persons: shared.persons, relationships: shared.relationships } : undefined),
+        [shared]
+    );
+
+    const handlePasswordSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        loadProject(password);
+    };
+
+    const handleViewDocument = async (document: SharedProjectType['documents'][number]) => {
+        setError(null);
+        try {
+            const file = await shareLinksApi.getSharedDocumentFile(token, document.id, password || undefined);
+            setOpenDocument({ title: document.title, mimeType: document.mime_type, url: URL.createObjectURL(file) });
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error opening shared document:', errorMessage);
+            setError(errorMessage);
+        }
+    };
+
+    if (needsPassword) {
+        return (
+            <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
+                <div className="max-w-md w-full space-y-8">
+                    <div>
+                        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900 dark:text-white">
+                            Shared Family Tree
+                        </h2>
+                        <p className="mt-2 text-center text-sm text-gray-600 dark:text-gray-400">
+                            This link is protected. Enter the password you were given with it.
+                        </p>
+                    </div>
+
+                    {error && <ErrorAlert message={error} />}
+
+                    <form className="mt-8 space-y-6" onSubmit={handlePasswordSubmit}>
+                        <div>
+                            <label htmlFor="share-password" className="sr-only">Password</label>
+                            <input
+                                id="share-password"
+                                type="password"
+                                required
+                                className="form-input rounded-md"
+                                placeholder="Password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                            />
+                        </div>
+                        <button type="submit" className="btn-primary w-full" disabled={isLoading}>
+                            {isLoading ? 'Opening...' : 'Open'}
+                        </button>
+                    </form>
+                </div>
+            </div>
+        );
+    }
+
+    if (isLoading && !shared) {
+        return <LoadingSpinner containerClassName="min-h-screen" size="lg" />;
+    }
+
+    if (!shared) {
+        return (
+            <div className="min-h-screen flex items-center justify-center px-4">
+                <div className="max-w-md w-full">
+                    <ErrorAlert message={error || 'This link does not exist or is no longer valid.'} />
+                </div>
+            </div>
+        );
+    }
+
+    const tabs: { id: SharedTab; label: string }[] = [
+        { id: 'tree', label: 'Family Tree' },
+        { id: 'timeline', label: 'Timeline' },
+        { id: 'documents', label: `Documents (${shared.documents.length})` }
+    ];
+
+    return (
+        <div className="max-w-7xl mx-auto py-8 px-4 sm:px-6 lg:px-8 space-y-6">
+            <div>
+                <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">{shared.project.title}</h1>
+                {shared.project.description && (
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{shared.project.description}</p>
+                )}
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    Shared read-only until {formatDate(shared.link.expires_at)}. People who may still be alive are shown as "Living".
+                </p>
+            </div>
+
+            {error && <ErrorAlert message={error} />}
+
+            <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg overflow-hidden">
+                <div className="border-b border-gray-200 dark:border-gray-700">
+                    <nav className="flex -mb-px">
+                        {tabs.map(tab => (
+                            <button
+                                key={tab.id}
+                                className={`py-4 px-6 text-center border-b-2 font-medium text-sm ${activeTab === tab.id
+                                    ? 'border-primary-500 text-primary-600 dark:text-primary-400'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300 dark:hover:border-gray-600'
+                                    }`}
+                                onClick={() => setActiveTab(tab.id)}
+                            >
+                                {tab.label}
+                            </button>
+                        ))}
+                    </nav>
+                </div>
+
+                <div className="p-6">
+                    {activeTab === 'tree' && (
+                        <ProjectTreeTab project={shared.project} treeData={treeData} />
+                    )}
+
+                    {activeTab === 'timeline' && (
+                        <ProjectTimelineTab project={shared} />
+                    )}
+
+                    {activeTab === 'documents' && (
+                        shared.documents.length === 0 ? (
+                            <EmptyState message="No documents have been shared through this link." />
+                        ) : (
+                            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                                {shared.documents.map(document => (
+                                    <li key={document.id} className="flex items-center justify-between py-3">
+                                        <div>
+                                            <p className="text-sm font-medium text-gray-900 dark:text-white">{document.title}</p>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                {[
+                                                    document.type,
+                                                    document.date_of_original && formatDate(document.date_of_original),
+                                                    document.persons.map(person => `${person.first_name} ${person.last_name}`).join(', ')
+                                                ].filter(Boolean).join(' • ')}
+                                            </p>
+                                        </div>
+                                        <button type="button" className="btn-secondary" onClick={() => handleViewDocument(document)}>
+                                            View
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )
+                    )}
+                </div>
+            </div>
+
+            {openDocument && (
+                <BaseModal isOpen={!!openDocument} onClose={() => setOpenDocument(null)} title={openDocument.title} size="5xl">
+                    {openDocument.mimeType?.startsWith('image/') ? (
+                        <img src={openDocument.url} alt={openDocument.title} className="max-h-[75vh] mx-auto" />
+                    ) : (
+                        <iframe src={openDocument.url} title={openDocument.title} className="w-full h-[75vh]" />
+                    )}
+                </BaseModal>
+            )}
+        </div>
+    );
+};
+
+export default SharedProject;
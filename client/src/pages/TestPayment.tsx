@@ -0,0 +1,131 @@
+import { useNavigate, useSearch } from '@tanstack/react-router';
+import React, { useEffect, useState } from 'react';
+import { Order, billingApi } from '../api/client';
+import ErrorAlert from '../components/common/ErrorAlert';
+import InfoAlert from '../components/common/InfoAlert';
+import LoadingSpinner from '../components/common/LoadingSpinner';
+import { getApiErrorMessage } from '../utils/errorUtils';
+import { formatCurrency } from '../utils/formatUtils';
+
+type TestPaymentOutcome = 'succeeded' | 'failed' | 'canceled';
+
+// Where checkout returns to for each outcome, as a real provider would redirect
+const RESULT_BY_OUTCOME: Record<TestPaymentOutcome, string> = {
+    succeeded: 'success',
+    failed: 'failed',
+    canceled: 'canceled'
+};
+
+/**
+ * Stand-in for a payment provider's hosted checkout page, used with the local test payment provider
+ */
+const TestPayment: React.FC = () => {
+    const navigate = useNavigate();
+    const search = useSearch({ from: '/auth/checkout/test-payment' });
+    const orderId = search.order_id as string | undefined;
+
+    const [order, setOrder] = useState<Order | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [submittingOutcome, setSubmittingOutcome] = useState<TestPaymentOutcome | null>(null);
+
+    useEffect(() => {
+        const fetchOrder = async () => {
+            if (!orderId) {
+                setError('The checkout link is missing its order.');
+                setIsLoading(false);
+                return;
+            }
+
+            try {
+                const orderData = await billingApi.getOrderById(orderId);
+                setOrder(orderData);
+            } catch (err: unknown) {
+                const errorMessage = await getApiErrorMessage(err);
+                console.error('Error fetching order:', errorMessage);
+                setError(errorMessage);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchOrder();
+    }, [orderId]);
+
+    const handleOutcome = async (outcome: TestPaymentOutcome) => {
+        if (!order) return;
+
+        setError(null);
+        setSubmittingOutcome(outcome);
+
+        try {
+            await billingApi.completeTestPayment(order.order_id, outcome);
+            navigate({ to: '/checkout', search: { order_id: order.order_id, result: RESULT_BY_OUTCOME[outcome] } });
+        } catch (err: unknown) {
+            const errorMessage = await getApiErrorMessage(err);
+            console.error('Error completing test payment:', errorMessage);
+            setError(errorMessage);
+            setSubmittingOutcome(null);
+        }
+    };
+
+    if (isLoading) {
+        return <LoadingSpinner containerClassName="h-64" size="lg" />;
+    }
+
+    return (
+        <div className="max-w-lg mx-auto space-y-6">
+            <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Test Payment</h1>
+
+            <InfoAlert message="Payments are handled by the local test provider. No card is charged; choose how the payment should turn out." />
+
+            {error && <ErrorAlert message={error} />}
+
+            {order && (
+                <div className="bg-white dark:bg-gray-800 shadow-sm rounded-lg p-6 space-y-4">
+                    <div className="flex justify-between items-baseline">
+                        <span className="text-gray-600 dark:text-gray-300">{order.servicePackage?.name}</span>
+                        <span className="text-2xl font-semibold text-gray-900 dark:text-white">
+                            {formatCurrency(order.amount_cents, order.currency)}
+                        </span>
+                    </div>
+
+                    {order.status !== 'pending' ? (
+                        <p className="text-gray-600 dark:text-gray-300">
+                            This order has already been {order.status}.
+                        </p>
+                    ) : (
+                        <div className="flex flex-col space-y-3">
+                            <button
+                                type="button"
+                                className="btn-primary"
+                                disabled={submittingOutcome !== null}
+                                onClick={() => handleOutcome('succeeded')}
+                            >
+                                {submittingOutcome === 'succeeded' ? 'Processing...' : `Pay ${formatCurrency(order.amount_cents, order.currency)}`}
+                            </button>
+                            <button
+                                type="button"
+                                className="btn-secondary"
+                                disabled={submittingOutcome !== null}
+                                onClick={() => handleOutcome('failed')}
+                            >
+                                {submittingOutcome === 'failed' ? 'Processing...' : 'Simulate a Declined Card'}
+                            </button>
+                            <button
+                                type="button"
+                                className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                                disabled={submittingOutcome !== null}
+                                onClick={() => handleOutcome('canceled')}
+                            >
+                                Cancel and return to the site
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TestPayment;
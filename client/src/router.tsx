@@ -8,6 +8,7 @@ import {
 import { hasRole, isAuthenticated } from './utils/auth';
 
 // Import pages
+import Checkout from './pages/Checkout';
 import ClientAssignment from './pages/ClientAssignment';
 import Dashboard from './pages/Dashboard';
 import Login from './pages/Login';
@@ -23,6 +24,8 @@ import PrivacyPolicy from './pages/PrivacyPolicy';
 import TermsOfService from './pages/TermsOfService';
 import Contact from './pages/Contact';
 import Settings from './pages/Settings';
+import SharedProject from './pages/SharedProject';
+import TestPayment from './pages/TestPayment';
 import UserManagement from './pages/UserManagement';
 
 // Import layout components
@@ -127,6 +130,13 @@ const contactRoute = new Route({
     component: Contact,
 });
 
+// Read-only view of a project opened through a share link, for visitors without an account
+const sharedProjectRoute = new Route({
+    getParentRoute: () => rootRoute,
+    path: '/shared/$token',
+    component: SharedProject,
+});
+
 // Auth layout route
 const authLayoutRoute = new Route({
     getParentRoute: () => rootRoute,
@@ -155,6 +165,20 @@ const settingsRoute = new Route({
     component: Settings,
 });
 
+// Checkout sits between registration and the dashboard; the provider redirects back here with the order
+const checkoutRoute = new Route({
+    getParentRoute: () => authLayoutRoute,
+    path: '/checkout',
+    component: Checkout,
+});
+
+// Hosted checkout page of the local test payment provider
+const testPaymentRoute = new Route({
+    getParentRoute: () => authLayoutRoute,
+    path: '/checkout/test-payment',
+    component: TestPayment,
+});
+
 const projectsRoute = new Route({
     getParentRoute: () => authLayoutRoute,
     path: '/projects',
@@ -232,9 +256,12 @@ const routeTree = rootRoute.addChildren([
     privacyPolicyRoute,
     termsOfServiceRoute,
     contactRoute,
+    sharedProjectRoute,
     authLayoutRoute.addChildren([
         dashboardRoute,
         settingsRoute,
+        checkoutRoute,
+        testPaymentRoute,
         projectsRoute,
         projectDetailRoute,
         notificationsRoute,
@@ -0,0 +1,11 @@
+import { AuditSeverity } from '../api/client';
+
+export const AUDIT_SEVERITY_LABELS: Record<AuditSeverity, string> = {
+    error: 'Error',
+    warning: 'Warning'
+};
+
+export const AUDIT_SEVERITY_CLASSES: Record<AuditSeverity, string> = {
+    error: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+    warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+};
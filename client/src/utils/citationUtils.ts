@@ -0,0 +1,146 @@
+import { Citation, CitedEntityType, Source } from '../api/client';
+
+// Genealogical Proof Standard terms used to grade a citation
+export const CLASSIFICATION_LABELS: Record<NonNullable<Source['classification']>, string> = {
+    original: 'Original record',
+    derivative: 'Derivative record',
+    authored: 'Authored work'
+};
+
+export const INFORMATION_QUALITY_LABELS: Record<NonNullable<Citation['information_quality']>, string> = {
+    primary: 'Primary information',
+    secondary: 'Secondary information',
+    undetermined: 'Undetermined informant'
+};
+
+export const EVIDENCE_TYPE_LABELS: Record<NonNullable<Citation['evidence_type']>, string> = {
+    direct: 'Direct evidence',
+    indirect: 'Indirect evidence',
+    negative: 'Negative evidence'
+};
+
+// Confidence scale 0-3, matching the GEDCOM QUAY tag
+export const CONFIDENCE_LABELS = [
+    'Unreliable',
+    'Questionable',
+    'Secondary evidence',
+    'Direct and primary evidence'
+];
+
+// Facts that can be cited individually, per kind of record (mirrors the server's CITABLE_FIELDS)
+export const CITABLE_FIELD_LABELS: Record<CitedEntityType, Record<string, string>> = {
+    person: {
+        first_name: 'First name',
+        middle_name: 'Middle name',
+        last_name: 'Last name',
+        maiden_name: 'Maiden name',
+        gender: 'Gender',
+        birth_date: 'Birth date',
+        birth_location: 'Birth location',
+        death_date: 'Death date',
+        death_location: 'Death location'
+    },
+    event: {
+        event_date: 'Date',
+        event_location: 'Location',
+        description: 'Description'
+    },
+    relationship: {
+        relationship_type: 'Relationship',
+        start_date: 'Start date',
+        end_date: 'End date'
+    }
+};
+
+const ENTITY_ORDER: CitedEntityType[] = ['person', 'event', 'relationship'];
+
+/**
+ * Format a source as a reference note: author, title (publication); repository, call number
+ * @param source The cited source
+ * @returns The reference text
+ */
+export const formatSourceReference = (source: Source): string => {
+    let reference = source.author ? `${source.author}, ${source.title}` : source.title;
+    if (source.publication_info) reference += ` (${source.publication_info})`;
+
+    const holding = [source.repository, source.call_number].filter(Boolean).join(', ');
+    return holding ? `${reference}; ${holding}` : reference;
+};
+
+/**
+ * Format a citation as a footnote: the source reference followed by where in the source the evidence was found
+ * @param citation The citation, with its source
+ * @returns The footnote text
+ */
+export const formatCitation = (citation: Citation): string => {
+    const reference = citation.source ? formatSourceReference(citation.source) : 'Unknown source';
+    return citation.page ? `${reference}, ${citation.page}` : reference;
+};
+
+/**
+ * Describe how a citation was graded, e.g. "Original record · Primary information · Direct evidence"
+ * @param citation The citation, with its source
+ * @returns The grading summary, or an empty string if the citation has not been graded
+ */
+export const describeEvidence = (citation: Citation): string => {
+    const parts: string[] = [];
+
+    if (citation.source?.classification) parts.push(CLASSIFICATION_LABELS[citation.source.classification]);
+    if (citation.information_quality) parts.push(INFORMATION_QUALITY_LABELS[citation.information_quality]);
+    if (citation.evidence_type) parts.push(EVIDENCE_TYPE_LABELS[citation.evidence_type]);
+    if (citation.confidence !== null && citation.confidence !== undefined) {
+        parts.push(`Confidence: ${CONFIDENCE_LABELS[citation.confidence] ?? citation.confidence}`);
+    }
+
+    return parts.join(' · ');
+};
+
+/**
+ * Describe what a citation supports, e.g. "Birth date" or "Event: Date"
+ * @param citation The citation
+ * @returns The label of the cited record or fact
+ */
+export const describeCitedFact = (citation: Citation): string => {
+    const fieldLabel = citation.field_name ? CITABLE_FIELD_LABELS[citation.entity_type]?.[citation.field_name] : null;
+
+    if (citation.entity_type === 'person') {
+        return fieldLabel || 'Person';
+    }
+
+    const entityLabel = citation.entity_type === 'event' ? 'Event' : 'Relationship';
+    return fieldLabel ? `${entityLabel}: ${fieldLabel}` : entityLabel;
+};
+
+/**
+ * Order citations for footnoting: the person's own facts first, then events, then relationships.
+ * The sort is stable, so citations of the same kind keep the order they were added in.
+ * @param citations The citations to order
+ * @returns A new, ordered array
+ */
+export const orderCitations = (citations: Citation[]): Citation[] =>
+    [...citations].sort((a, b) => ENTITY_ORDER.indexOf(a.entity_type) - ENTITY_ORDER.indexOf(b.entity_type));
+
+/**
+ * Get the footnote numbers (1-based, as ordered) of the citations supporting a record or some of its facts.
+ * Without field names every citation of the record is returned; a null field name stands for citations
+ * of the record as a whole.
+ * @param orderedCitations Citations in footnote order
+ * @param entityType Cited entity type
+ * @param entityId Cited entity ID
+ * @param fieldNames Cited facts to match, if any
+ * @returns Footnote numbers
+ */
+export const getFootnoteNumbers = (
+    orderedCitations: Citation[],
+    entityType: CitedEntityType,
+    entityId: string | undefined,
+    fieldNames?: (string | null)[]
+): number[] => {
+    if (!entityId) return [];
+
+    return orderedCitations.reduce<number[]>((numbers, citation, index) => {
+        if (citation.entity_type !== entityType || citation.entity_id !== entityId) return numbers;
+        if (fieldNames && !fieldNames.includes(citation.field_name ?? null)) return numbers;
+        return [...numbers, index + 1];
+    }, []);
+};
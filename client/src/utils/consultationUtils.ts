@@ -0,0 +1,55 @@
+import { AvailabilitySlot, Consultation, consultationsApi } from '../api/client';
+
+export const CONSULTATION_STATUS_CLASSES: Record<Consultation['status'], string> = {
+    scheduled: 'bg-blue-100 text-blue-800',
+    completed: 'bg-green-100 text-green-800',
+    canceled: 'bg-gray-100 text-gray-800'
+};
+
+/**
+ * Format a session as a local date and time range, e.g. "Thu, Jan 15, 2026, 2:00 PM – 3:00 PM"
+ */
+export const formatSessionRange = (startsAt: string, endsAt: string): string => {
+    const start = new Date(startsAt);
+    const end = new Date(endsAt);
+
+    const day = start.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+    const time = (date: Date) => date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+    return `${day}, ${time(start)} – ${time(end)}`;
+};
+
+/**
+ * Group slots by their local day, keeping the order they were given in (soonest first)
+ */
+export const groupSlotsByDay = (slots: AvailabilitySlot[]): Array<{ day: string; slots: AvailabilitySlot[] }> => {
+    const groups: Array<{ day: string; slots: AvailabilitySlot[] }> = [];
+
+    slots.forEach(slot => {
+        const day = new Date(slot.starts_at).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' });
+        const group = groups.find(existing => existing.day === day);
+
+        if (group) {
+            group.slots.push(slot);
+        } else {
+            groups.push({ day, slots: [slot] });
+        }
+    });
+
+    return groups;
+};
+
+/**
+ * Download a consultation as an .ics file to add it to a calendar app
+ */
+export const downloadConsultationCalendar = async (consultationId: string): Promise<void> => {
+    const { blob, fileName } = await consultationsApi.downloadCalendar(consultationId);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
@@ -1,3 +1,5 @@
+import { GenealogicalDate } from '../api/client';
+
 /**
  * Debug function to log date string details
  * @param dateString The date string to debug
@@ -145,3 +147,220 @@ export const formatDateTime = (dateString: string | undefined | null, fallback:
         return fallback;
     }
 };
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Keep in step with server/utils/genealogicalDate.js
+const APPROXIMATE_MARGIN_YEARS = 5;
+
+const QUALIFIER_PREFIXES: { pattern: RegExp; qualifier: GenealogicalDate['qualifier'] }[] = [
+    { pattern: /^(?:(?:abt|about|circa|ca|c)\.?\s+|(?:abt|ca|c)\.\s*|~\s*)/i, qualifier: 'about' },
+    { pattern: /^(?:est\.?|estimated)\s+/i, qualifier: 'estimated' },
+    { pattern: /^(?:cal\.?|calculated)\s+/i, qualifier: 'calculated' },
+    { pattern: /^(?:bef\.?|before)\s+/i, qualifier: 'before' },
+    { pattern: /^(?:aft\.?|after)\s+/i, qualifier: 'after' }
+];
+
+const QUALIFIER_LABELS: Record<GenealogicalDate['qualifier'], string> = {
+    exact: '',
+    about: 'about',
+    estimated: 'estimated',
+    calculated: 'calculated',
+    before: 'before',
+    after: 'after',
+    between: 'between'
+};
+
+const PRECISION_ORDER: GenealogicalDate['precision'][] = ['day', 'month', 'year'];
+
+const toIsoDay = (year: number, month: number, day: number): string =>
+    `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const shiftDay = (isoDay: string, days: number): string => {
+    const date = new Date(`${isoDay}T00:00:00.000Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+};
+
+const monthNumber = (name: string): number | null => {
+    const index = MONTHS.indexOf(name.slice(0, 3).toUpperCase());
+    return index === -1 ? null : index + 1;
+};
+
+/**
+ * Parse a single (unqualified) date into the span of days it covers
+ * Accepts YYYY, YYYY-MM, YYYY-MM-DD, "12 MAR 1850", "MAR 1850" and "March 12, 1850"
+ */
+const parseSimpleDate = (text: string): Pick<GenealogicalDate, 'precision' | 'start' | 'end'> | null => {
+    const value = text.trim().replace(/\s+/g, ' ');
+    let year: number;
+    let month: number | null = null;
+    let day: number | null = null;
+    let match: RegExpExecArray | null;
+
+    if ((match = /^(\d{3,4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value))) {
+        year = Number(match[1]);
+        month = match[2] ? Number(match[2]) : null;
+        day = match[3] ? Number(match[3]) : null;
+    } else if ((match = /^(?:(\d{1,2}) )?([A-Za-z]{3,9})\.? (\d{3,4})$/.exec(value))) {
+        year = Number(match[3]);
+        month = monthNumber(match[2]);
+        day = match[1] ? Number(match[1]) : null;
+        if (month === null) return null;
+    } else if ((match = /^([A-Za-z]{3,9})\.? (\d{1,2}),? (\d{3,4})$/.exec(value))) {
+        year = Number(match[3]);
+        month = monthNumber(match[1]);
+        day = Number(match[2]);
+        if (month === null) return null;
+    } else {
+        return null;
+    }
+
+    if (month !== null && (month < 1 || month > 12)) return null;
+
+    if (month !== null && day !== null) {
+        if (day < 1 || day > daysInMonth(year, month)) return null;
+        const isoDay = toIsoDay(year, month, day);
+        return { precision: 'day', start: isoDay, end: isoDay };
+    }
+
+    if (month !== null) {
+        return { precision: 'month', start: toIsoDay(year, month, 1), end: toIsoDay(year, month, daysInMonth(year, month)) };
+    }
+
+    return { precision: 'year', start: toIsoDay(year, 1, 1), end: toIsoDay(year, 12, 31) };
+};
+
+/**
+ * Parse free text into a genealogical date
+ * @param text Date text, e.g. "ABT 1850", "bef. March 1901", "BET 1850 AND 1855" or "1850-03-12"
+ * @returns The genealogical date, or null if the text is not a recognised date
+ */
+export const parseGenealogicalDate = (text: string | undefined | null): GenealogicalDate | null => {
+    if (!text || !text.trim()) return null;
+
+    const original = text.trim().replace(/\s+/g, ' ');
+    let detail: Omit<GenealogicalDate, 'original' | 'sort_key'>;
+
+    const range = /^(?:bet\.?|between|from)\s+(.+?)\s+(?:and|to|-)\s+(.+)$/i.exec(original);
+    if (range) {
+        const first = parseSimpleDate(range[1]);
+        const last = parseSimpleDate(range[2]);
+        if (!first || !last || first.start > last.end) return null;
+
+        const precision = PRECISION_ORDER.indexOf(first.precision) <= PRECISION_ORDER.indexOf(last.precision)
+            ? first.precision
+            : last.precision;
+        detail = { qualifier: 'between', precision, start: first.start, end: last.end };
+    } else {
+        const prefix = QUALIFIER_PREFIXES.find(({ pattern }) => pattern.test(original));
+        const parsed = parseSimpleDate(prefix ? original.replace(prefix.pattern, '') : original);
+        if (!parsed) return null;
+
+        detail = { qualifier: prefix ? prefix.qualifier : 'exact', ...parsed };
+    }
+
+    const sortKey = detail.qualifier === 'before'
+        ? shiftDay(detail.start, -1)
+        : detail.qualifier === 'after' ? shiftDay(detail.end, 1) : detail.start;
+
+    return { ...detail, original, sort_key: sortKey };
+};
+
+/**
+ * Turn date text from a form into the values the API stores: the sortable date column and its detail
+ * Exact days are sent without a detail, as plain YYYY-MM-DD dates.
+ * @param text Date text entered by the user
+ * @returns { date, detail }, with both null for empty or unrecognised text
+ */
+export const toGenealogicalDateFields = (text: string | undefined | null): { date: string | null; detail: GenealogicalDate | null } => {
+    const parsed = parseGenealogicalDate(text);
+    if (!parsed) return { date: null, detail: null };
+
+    const isExactDay = parsed.qualifier === 'exact' && parsed.precision === 'day';
+    return { date: parsed.sort_key, detail: isExactDay ? null : parsed };
+};
+
+/**
+ * Get the text to show in a date input for a stored date
+ * @param value The date column value
+ * @param detail The genealogical date detail, if any
+ * @returns The originally entered text, or YYYY-MM-DD for exact dates
+ */
+export const toGenealogicalDateText = (value: string | undefined | null, detail?: GenealogicalDate | null): string => {
+    if (detail?.original) return detail.original;
+    if (!value) return '';
+    return value.split('T')[0];
+};
+
+/**
+ * Get the earliest and latest day a genealogical date could refer to
+ * Approximate dates are widened by a few years; before/after leave one side open (null).
+ */
+export const getGenealogicalDateBounds = (
+    value: string | undefined | null,
+    detail?: GenealogicalDate | null
+): { earliest: Date | null; latest: Date | null } | null => {
+    if (detail?.start) {
+        const toDate = (isoDay: string) => new Date(`${isoDay}T00:00:00.000Z`);
+        const widen = (isoDay: string, years: number) => {
+            const date = toDate(isoDay);
+            date.setUTCFullYear(date.getUTCFullYear() + years);
+            return date;
+        };
+        const end = detail.end || detail.start;
+
+        switch (detail.qualifier) {
+            case 'before':
+                return { earliest: null, latest: toDate(shiftDay(detail.start, -1)) };
+            case 'after':
+                return { earliest: toDate(shiftDay(end, 1)), latest: null };
+            case 'about':
+            case 'estimated':
+            case 'calculated':
+                return { earliest: widen(detail.start, -APPROXIMATE_MARGIN_YEARS), latest: widen(end, APPROXIMATE_MARGIN_YEARS) };
+            default:
+                return { earliest: toDate(detail.start), latest: toDate(end) };
+        }
+    }
+
+    if (!value) return null;
+    const date = new Date(`${value.split('T')[0]}T00:00:00.000Z`);
+    if (isNaN(date.getTime())) return null;
+    return { earliest: date, latest: date };
+};
+
+/**
+ * Format a genealogical date for display, e.g. "about 1850", "before Mar 1901", "between 1850 and 1855"
+ * @param value The date column value
+ * @param detail The genealogical date detail, if any
+ * @param fallback The fallback string to return if there is no date
+ * @returns A formatted date string or the fallback
+ */
+export const formatGenealogicalDate = (
+    value: string | undefined | null,
+    detail?: GenealogicalDate | null,
+    fallback: string = 'No date'
+): string => {
+    if (!detail?.start) return formatDate(value, fallback);
+
+    const formatPart = (isoDay: string): string => {
+        const [year, month, day] = isoDay.split('-').map(Number);
+        const date = new Date(year, month - 1, day);
+        date.setFullYear(year);
+
+        if (detail.precision === 'year') return String(year);
+        if (detail.precision === 'month') return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+        return date.toLocaleDateString();
+    };
+
+    const start = formatPart(detail.start);
+    if (detail.qualifier === 'between') {
+        return `between ${start} and ${formatPart(detail.end || detail.start)}`;
+    }
+
+    const label = QUALIFIER_LABELS[detail.qualifier];
+    return label ? `${label} ${start}` : start;
+};
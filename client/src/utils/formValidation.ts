@@ -1,5 +1,6 @@
 // client/src/utils/formValidation.ts
 import { Relationship } from '../api/client';
+import { getGenealogicalDateBounds, parseGenealogicalDate } from './dateUtils';
 import { STATES_BY_COUNTRY } from './locationData'; // Import STATES_BY_COUNTRY
 
 // Generic validation functions
@@ -54,22 +55,30 @@ export const validateLengthRange = (value: string, min: number, max: number, fie
     return undefined;
 };
 
+// Date fields accept genealogical dates ("ABT 1850", "BEF MAR 1901", "BET 1850 AND 1855") as well as YYYY-MM-DD
+const boundsOf = (dateString: string) => {
+    const parsed = parseGenealogicalDate(dateString);
+    return parsed ? getGenealogicalDateBounds(parsed.sort_key, parsed) : null;
+};
+
+const YEAR_MS = 1000 * 60 * 60 * 24 * 365.25;
+
 export const validateDate = (dateString: string, fieldName: string): string | undefined => {
     if (!dateString) {
         return `${fieldName} is required`;
     }
-    const date = new Date(dateString);
-    if (isNaN(date.getTime())) {
-        return `${fieldName} must be a valid date`;
+    if (!parseGenealogicalDate(dateString)) {
+        return `${fieldName} must be a valid date, e.g. 1850-03-12, MAR 1850, ABT 1850 or BET 1850 AND 1855`;
     }
     return undefined;
 };
 
+// Approximate and ranged dates only fail when the end is certainly before the start
 export const validateDateRange = (startDate: string, endDate: string, startFieldName: string, endFieldName: string): string | undefined => {
     if (startDate && endDate) {
-        const start = new Date(startDate);
-        const end = new Date(endDate);
-        if (end < start) {
+        const start = boundsOf(startDate);
+        const end = boundsOf(endDate);
+        if (start?.earliest && end?.latest && end.latest < start.earliest) {
             return `${endFieldName} cannot be before ${startFieldName}`;
         }
     }
@@ -78,8 +87,8 @@ export const validateDateRange = (startDate: string, endDate: string, startField
 
 export const validateFutureDate = (dateString: string, fieldName: string): string | undefined => {
     if (dateString) {
-        const date = new Date(dateString);
-        if (date > new Date()) {
+        const parsed = parseGenealogicalDate(dateString);
+        if (parsed && new Date(`${parsed.sort_key}T00:00:00.000Z`) > new Date()) {
             return `${fieldName} cannot be in the future`;
         }
     }
@@ -234,29 +243,34 @@ export const validateRelationshipDates = (startDate: string, endDate: string, re
 };
 
 // Placeholder for genealogy-specific rules (from genealogyRules.js)
-// These would typically be more complex and might involve querying existing data
+// These would typically be more complex and might involve querying existing data.
+// Like the server rules, approximate dates only fail when every reading of them would.
 export const validateAge = (birthDate: string, deathDate?: string): string | undefined => {
-    if (!birthDate) return undefined;
+    const birth = boundsOf(birthDate);
+    if (!birth?.latest) return undefined;
 
-    const birthYear = new Date(birthDate).getFullYear();
-    const currentOrDeathYear = deathDate ? new Date(deathDate).getFullYear() : new Date().getFullYear();
-    const age = currentOrDeathYear - birthYear;
+    const end = deathDate ? boundsOf(deathDate)?.earliest : new Date();
+    if (!end) return undefined;
 
-    if (age > 120) {
+    const minimumAge = (end.getTime() - birth.latest.getTime()) / YEAR_MS;
+    if (minimumAge > 120) {
         return 'Age exceeds 120 years. Please verify dates.';
     }
     return undefined;
 };
 
 export const validateParentChildAgeDifference = (parentBirthDate: string, childBirthDate: string): string | undefined => {
-    if (!parentBirthDate || !childBirthDate) return undefined;
+    const parent = boundsOf(parentBirthDate);
+    const child = boundsOf(childBirthDate);
+    if (!parent || !child) return undefined;
 
-    const parentAgeAtChildBirth = new Date(childBirthDate).getFullYear() - new Date(parentBirthDate).getFullYear();
+    const youngest = parent.latest && child.earliest ? (child.earliest.getTime() - parent.latest.getTime()) / YEAR_MS : null;
+    const oldest = parent.earliest && child.latest ? (child.latest.getTime() - parent.earliest.getTime()) / YEAR_MS : null;
 
-    if (parentAgeAtChildBirth < 13) {
+    if (oldest !== null && oldest < 13) {
         return 'Parent cannot be younger than 13 years at child\'s birth.';
     }
-    if (parentAgeAtChildBirth > 60) { // Arbitrary upper limit for plausibility
+    if (youngest !== null && youngest > 60) { // Arbitrary upper limit for plausibility
         return 'Parent seems unusually old at child\'s birth. Please verify dates.';
     }
     return undefined;
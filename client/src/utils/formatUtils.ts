@@ -41,3 +41,13 @@ export const truncateString = (str: string, maxLength: number): string => {
     if (str.length <= maxLength) return str;
     return str.slice(0, maxLength) + '...';
 };
+
+/**
+ * Formats an amount in minor units (cents) as money, e.g. 49900 'usd' -> "$499.00"
+ */
+export const formatCurrency = (amountCents: number, currency: string = 'usd'): string => {
+    return new Intl.NumberFormat(undefined, {
+        style: 'currency',
+        currency: currency.toUpperCase()
+    }).format(amountCents / 100);
+};
@@ -0,0 +1,79 @@
+import { EntityVersion, GenealogicalDate } from '../api/client';
+import { formatDateTime, formatGenealogicalDate } from './dateUtils';
+import { formatSnakeCase } from './formatUtils';
+
+export const VERSION_ACTION_LABELS: Record<EntityVersion['action'], string> = {
+    create: 'Created',
+    update: 'Edited',
+    delete: 'Deleted',
+    revert: 'Reverted'
+};
+
+// Field names that read badly when only the snake case is undone
+const FIELD_LABELS: Record<string, string> = {
+    person1_id: 'First person',
+    person2_id: 'Second person',
+    file_path: 'File',
+    mime_type: 'File type'
+};
+
+export interface FieldChange {
+    field: string;
+    label: string;
+    from: string;
+    to: string;
+}
+
+const formatValue = (field: string, value: unknown, detail?: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (field.endsWith('_date')) {
+        return formatGenealogicalDate(String(value), detail as GenealogicalDate | null, '—');
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+/**
+ * The changes of a version, one line per field, with dates shown as they are entered
+ *
+ * A date and its genealogical detail (qualifier, precision) are shown as one change.
+ */
+export const describeVersionChanges = (version: EntityVersion): FieldChange[] => {
+    const { changes, snapshot } = version;
+    const fields = new Set<string>();
+
+    Object.keys(changes).forEach(field => {
+        const dateField = field.endsWith('_date_detail') ? field.slice(0, -'_detail'.length) : field;
+        fields.add(dateField);
+    });
+
+    return Array.from(fields).map(field => {
+        const detailField = `${field}_detail`;
+        const change = changes[field] || { from: snapshot[field], to: snapshot[field] };
+        const detail = changes[detailField] || { from: snapshot[detailField], to: snapshot[detailField] };
+
+        return {
+            field,
+            label: FIELD_LABELS[field] || formatSnakeCase(field),
+            from: formatValue(field, change.from, detail.from),
+            to: formatValue(field, change.to, detail.to)
+        };
+    });
+};
+
+/**
+ * One line describing who changed a record, how and when, e.g. "Edited by Ann Lee on 3/2/2024, 10:15 AM"
+ */
+export const describeVersion = (version: EntityVersion): string => {
+    let action = VERSION_ACTION_LABELS[version.action];
+    if (version.action === 'revert' && version.reverted_to_version) {
+        action = `Reverted to version ${version.reverted_to_version}`;
+    }
+
+    const author = version.changedBy
+        ? `${version.changedBy.first_name} ${version.changedBy.last_name}`
+        : 'an unknown user';
+
+    return `${action} by ${author} on ${formatDateTime(version.created_at)}`;
+};
@@ -2,6 +2,18 @@
  * Location data for countries and their states/provinces
  */
 
+// Countries offered in address and place pickers, keyed by ISO 3166 alpha-3 code
+export const COUNTRIES: Array<{code: string, name: string}> = [
+    { code: 'USA', name: 'United States' },
+    { code: 'CAN', name: 'Canada' },
+    { code: 'GBR', name: 'United Kingdom' },
+    { code: 'AUS', name: 'Australia' },
+    { code: 'IRL', name: 'Ireland' },
+    { code: 'DEU', name: 'Germany' },
+    { code: 'ITA', name: 'Italy' },
+    { code: 'POL', name: 'Poland' },
+];
+
 // Define a mapping of countries to their states/provinces
 export const STATES_BY_COUNTRY: Record<string, Array<{code: string, name: string}>> = {
     USA: [
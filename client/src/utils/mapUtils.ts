@@ -0,0 +1,117 @@
+/**
+ * Projection helpers for the migration map: an equirectangular projection with longitudes narrowed
+ * by the cosine of the middle latitude, so the mapped area keeps roughly its true shape.
+ */
+
+export const MAP_WIDTH = 1000;
+export const MAP_HEIGHT = 560;
+
+// The smallest area shown, in degrees, so a single town is not blown up to fill the map
+const MIN_LONGITUDE_SPAN = 8;
+const MIN_LATITUDE_SPAN = 5;
+const PADDING_RATIO = 0.15;
+
+// The North Atlantic, shown before any event has been placed
+const DEFAULT_AREA: Array<[number, number]> = [[-100, 20], [30, 62]];
+
+export interface MapFrame {
+    scale: number;
+    offsetX: number;
+    offsetY: number;
+    // Longitude narrowing at the middle latitude
+    kx: number;
+    // Visible area in degrees
+    west: number;
+    east: number;
+    south: number;
+    north: number;
+}
+
+/**
+ * Fit the map to [longitude, latitude] coordinates with some room around them
+ */
+export const fitFrame = (coordinates: Array<[number, number]>): MapFrame => {
+    const points = coordinates.length > 0 ? coordinates : DEFAULT_AREA;
+    const longitudes = points.map(([lng]) => lng);
+    const latitudes = points.map(([, lat]) => lat);
+
+    const centerLng = (Math.min(...longitudes) + Math.max(...longitudes)) / 2;
+    const centerLat = (Math.min(...latitudes) + Math.max(...latitudes)) / 2;
+    const lngSpan = Math.max(Math.max(...longitudes) - Math.min(...longitudes), MIN_LONGITUDE_SPAN) * (1 + 2 * PADDING_RATIO);
+    const latSpan = Math.max(Math.max(...latitudes) - Math.min(...latitudes), MIN_LATITUDE_SPAN) * (1 + 2 * PADDING_RATIO);
+
+    const kx = Math.max(Math.cos((centerLat * Math.PI) / 180), 0.3);
+    const scale = Math.min(MAP_WIDTH / (lngSpan * kx), MAP_HEIGHT / latSpan);
+
+    const halfLng = MAP_WIDTH / scale / kx / 2;
+    const halfLat = MAP_HEIGHT / scale / 2;
+
+    return {
+        scale,
+        kx,
+        offsetX: MAP_WIDTH / 2 - centerLng * kx * scale,
+        offsetY: MAP_HEIGHT / 2 + centerLat * scale,
+        west: centerLng - halfLng,
+        east: centerLng + halfLng,
+        south: centerLat - halfLat,
+        north: centerLat + halfLat
+    };
+};
+
+/**
+ * Position of a longitude and latitude on the map
+ */
+export const projectPoint = (frame: MapFrame, lng: number, lat: number): [number, number] => [
+    lng * frame.kx * frame.scale + frame.offsetX,
+    -lat * frame.scale + frame.offsetY
+];
+
+/**
+ * SVG path of a closed [longitude, latitude] ring
+ */
+export const ringPath = (frame: MapFrame, ring: Array<[number, number]>): string =>
+    ring.map(([lng, lat], index) => {
+        const [x, y] = projectPoint(frame, lng, lat);
+        return `${index === 0 ? 'M' : 'L'} ${x.toFixed(1)} ${y.toFixed(1)}`;
+    }).join(' ') + ' Z';
+
+/**
+ * SVG path of a gently curved line between two map positions, bowed to the left of the direction
+ * of travel so a journey there and back shows as two lines
+ */
+export const curvedPath = ([x1, y1]: [number, number], [x2, y2]: [number, number]): string => {
+    const bow = 0.15;
+    const controlX = (x1 + x2) / 2 + (y2 - y1) * bow;
+    const controlY = (y1 + y2) / 2 - (x2 - x1) * bow;
+    return `M ${x1.toFixed(1)} ${y1.toFixed(1)} Q ${controlX.toFixed(1)} ${controlY.toFixed(1)} ${x2.toFixed(1)} ${y2.toFixed(1)}`;
+};
+
+/**
+ * Meridians and parallels across the visible area, spaced to suit its size
+ */
+export const graticuleLines = (frame: MapFrame): string[] => {
+    const span = Math.max(frame.east - frame.west, frame.north - frame.south);
+    const step = span > 90 ? 30 : span > 30 ? 10 : 5;
+    const lines: string[] = [];
+
+    for (let lng = Math.ceil(frame.west / step) * step; lng <= frame.east; lng += step) {
+        const [x1, y1] = projectPoint(frame, lng, Math.min(frame.north, 85));
+        const [x2, y2] = projectPoint(frame, lng, Math.max(frame.south, -85));
+        lines.push(`M ${x1.toFixed(1)} ${y1.toFixed(1)} L ${x2.toFixed(1)} ${y2.toFixed(1)}`);
+    }
+    for (let lat = Math.ceil(frame.south / step) * step; lat <= frame.north; lat += step) {
+        const [x1, y1] = projectPoint(frame, frame.west, lat);
+        const [x2, y2] = projectPoint(frame, frame.east, lat);
+        lines.push(`M ${x1.toFixed(1)} ${y1.toFixed(1)} L ${x2.toFixed(1)} ${y2.toFixed(1)}`);
+    }
+
+    return lines;
+};
+
+/**
+ * Year of a sortable date (YYYY-MM-DD), or null when there is no date
+ */
+export const getDateYear = (date: string | null): number | null => {
+    const match = date ? /^(\d{4})/.exec(date) : null;
+    return match ? parseInt(match[1], 10) : null;
+};
@@ -0,0 +1,120 @@
+import { PedigreeNode } from '../api/client';
+import { getYear } from './treeUtils';
+
+export type PedigreeChartView = 'fan' | 'hourglass' | 'numbered';
+
+export const PEDIGREE_CHART_VIEWS: Record<PedigreeChartView, string> = {
+    fan: 'Fan chart',
+    hourglass: 'Hourglass chart',
+    numbered: 'Numbered lists'
+};
+
+// Charts are printed, so they are drawn in fixed colors rather than with the dark mode classes
+export const CHART_COLORS: Record<string, { fill: string; stroke: string }> = {
+    male: { fill: '#eff6ff', stroke: '#93c5fd' },
+    female: { fill: '#fdf2f8', stroke: '#f9a8d4' },
+    other: { fill: '#f9fafb', stroke: '#d1d5db' }
+};
+
+export const chartColors = (gender?: string | null) => CHART_COLORS[gender || ''] || CHART_COLORS.other;
+
+/**
+ * Shorten a name to fit a chart box
+ */
+export const fitName = (name: string, maxLength: number): string =>
+    name.length > maxLength ? `${name.slice(0, maxLength - 1).trimEnd()}…` : name;
+
+/**
+ * Compact "1850 – 1912" label for a chart box, empty when neither year is known
+ */
+export const lifespanLabel = (person: { birth_date: string | null; death_date: string | null }): string => {
+    const birthYear = getYear(person.birth_date || undefined);
+    const deathYear = getYear(person.death_date || undefined);
+    return birthYear || deathYear ? `${birthYear || '?'} – ${deathYear}` : '';
+};
+
+/**
+ * Generation of an Ahnentafel number (the subject, 1, is generation 0) and its place within that generation
+ */
+export const ahnentafelPosition = (number: number): { generation: number; index: number } => {
+    const generation = Math.floor(Math.log2(number));
+    return { generation, index: number - 2 ** generation };
+};
+
+/**
+ * SVG path of a ring segment of a fan chart. Angles are in radians, measured clockwise from the
+ * positive x axis, so a fan over the top half runs from PI to 2 * PI.
+ */
+export const fanSegmentPath = (
+    cx: number,
+    cy: number,
+    innerRadius: number,
+    outerRadius: number,
+    startAngle: number,
+    endAngle: number
+): string => {
+    const point = (radius: number, angle: number) =>
+        `${(cx + radius * Math.cos(angle)).toFixed(2)} ${(cy + radius * Math.sin(angle)).toFixed(2)}`;
+    const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+
+    return [
+        `M ${point(outerRadius, startAngle)}`,
+        `A ${outerRadius} ${outerRadius} 0 ${largeArc} 1 ${point(outerRadius, endAngle)}`,
+        `L ${point(innerRadius, endAngle)}`,
+        `A ${innerRadius} ${innerRadius} 0 ${largeArc} 0 ${point(innerRadius, startAngle)}`,
+        'Z'
+    ].join(' ');
+};
+
+export interface PositionedPedigreeNode {
+    node: PedigreeNode;
+    generation: number;
+    // Center of the person's box, in columns from the left edge of the chart
+    column: number;
+    parent: PositionedPedigreeNode | null;
+}
+
+/**
+ * Lay out a descendant tree in rows by generation, giving each person as many columns as they
+ * have descendants in the last row drawn, and centering them over those columns.
+ *
+ * @returns The positioned persons and the number of columns the tree spans
+ */
+export const layoutDescendants = (root: PedigreeNode): { nodes: PositionedPedigreeNode[]; columns: number } => {
+    const nodes: PositionedPedigreeNode[] = [];
+
+    const place = (node: PedigreeNode, generation: number, firstColumn: number, parent: PositionedPedigreeNode | null): number => {
+        const entry: PositionedPedigreeNode = { node, generation, column: firstColumn + 0.5, parent };
+        nodes.push(entry);
+
+        const children = node.children || [];
+        if (children.length === 0) return 1;
+
+        const width = children.reduce((used, child) => used + place(child, generation + 1, firstColumn + used, entry), 0);
+        entry.column = firstColumn + width / 2;
+        return width;
+    };
+
+    const columns = place(root, 0, 0, null);
+
+    return { nodes, columns };
+};
+
+/**
+ * Print a chart on its own page, without the modal and page around it
+ */
+export const printChart = (chart: HTMLElement, title: string) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    const heading = printWindow.document.createElement('h1');
+    heading.textContent = title;
+    printWindow.document.title = title;
+    printWindow.document.body.style.fontFamily = 'system-ui, Helvetica, Arial, sans-serif';
+    printWindow.document.body.appendChild(heading);
+    printWindow.document.body.appendChild(printWindow.document.importNode(chart, true));
+
+    printWindow.focus();
+    printWindow.print();
+    printWindow.close();
+};
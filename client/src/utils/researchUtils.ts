@@ -0,0 +1,34 @@
+import { ResearchResult, ResearchTask, ResearchTaskPriority } from '../api/client';
+
+export const RESEARCH_RESULT_LABELS: Record<ResearchResult, string> = {
+    positive: 'Positive',
+    negative: 'Negative',
+    inconclusive: 'Inconclusive'
+};
+
+export const RESEARCH_RESULT_CLASSES: Record<ResearchResult, string> = {
+    positive: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+    negative: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+    inconclusive: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
+};
+
+export const TASK_PRIORITY_LABELS: Record<ResearchTaskPriority, string> = {
+    high: 'High',
+    medium: 'Medium',
+    low: 'Low'
+};
+
+// Dot shown next to a task for its priority
+export const TASK_PRIORITY_DOT_CLASSES: Record<ResearchTaskPriority, string> = {
+    high: 'bg-red-500',
+    medium: 'bg-yellow-500',
+    low: 'bg-green-500'
+};
+
+/**
+ * Whether an unfinished task is past its due date
+ */
+export const isTaskOverdue = (task: Pick<ResearchTask, 'due_date' | 'status'>): boolean => {
+    if (!task.due_date || task.status === 'done') return false;
+    return task.due_date < new Date().toISOString().slice(0, 10);
+};
@@ -1,6 +1,6 @@
 // This file will contain centralized status badge and text logic.
 
-import { ProjectDetail } from '../api/client';
+import { ProjectDetail, ShareLinkStatus } from '../api/client';
 
 export const getStatusBadgeClass = (status: ProjectDetail['status']) => {
     switch (status) {
@@ -27,3 +27,27 @@ export const getStatusText = (status: ProjectDetail['status']) => {
             return status;
     }
 };
+
+export const getShareLinkStatusBadgeClass = (status: ShareLinkStatus) => {
+    switch (status) {
+        case 'active':
+            return 'bg-green-100 text-green-800';
+        case 'expired':
+            return 'bg-yellow-100 text-yellow-800';
+        default:
+            return 'bg-gray-100 text-gray-800';
+    }
+};
+
+export const getShareLinkStatusText = (status: ShareLinkStatus) => {
+    switch (status) {
+        case 'active':
+            return 'Active';
+        case 'expired':
+            return 'Expired';
+        case 'revoked':
+            return 'Revoked';
+        default:
+            return status;
+    }
+};
@@ -0,0 +1,216 @@
+import { Person, Relationship } from '../api/client';
+
+export type TreeMode = 'pedigree' | 'descendants';
+
+// What the tree draws of a person and reads of a relationship; shared projects only send these
+export type TreePerson = Pick<Person, 'person_id' | 'first_name' | 'last_name' | 'birth_date' | 'death_date'> & { gender?: string | null };
+export type TreeRelationship = Pick<Relationship, 'person1_id' | 'person2_id' | 'relationship_type'>;
+
+/**
+ * Adjacency lists for the people in a project, keyed by person_id
+ */
+export interface FamilyGraph {
+    parents: Map<string, string[]>;
+    children: Map<string, string[]>;
+    spouses: Map<string, string[]>;
+}
+
+export interface TreeNode {
+    person: TreePerson;
+    generation: number;
+    children: TreeNode[];
+    // True when the person has further generations that are not rendered (collapsed or past the depth limit)
+    hasHiddenBranches: boolean;
+    isCollapsed: boolean;
+}
+
+export interface PositionedNode {
+    node: TreeNode;
+    x: number;
+    y: number;
+}
+
+export interface TreeLink {
+    fromX: number;
+    fromY: number;
+    toX: number;
+    toY: number;
+}
+
+export interface TreeLayout {
+    nodes: PositionedNode[];
+    links: TreeLink[];
+    width: number;
+    height: number;
+}
+
+export const TREE_NODE_WIDTH = 200;
+export const TREE_NODE_HEIGHT = 64;
+const HORIZONTAL_GAP = 60;
+const VERTICAL_GAP = 16;
+
+const addEdge = (map: Map<string, string[]>, from: string, to: string) => {
+    const list = map.get(from) || [];
+    if (!list.includes(to)) {
+        list.push(to);
+    }
+    map.set(from, list);
+};
+
+/**
+ * Build parent/child/spouse adjacency lists from relationship rows.
+ * A 'parent' row means person1 is the parent of person2, a 'child' row the inverse.
+ */
+export const buildFamilyGraph = (relationships: TreeRelationship[]): FamilyGraph => {
+    const graph: FamilyGraph = {
+        parents: new Map(),
+        children: new Map(),
+        spouses: new Map()
+    };
+
+    relationships.forEach(rel => {
+        if (rel.relationship_type === 'parent') {
+            addEdge(graph.children, rel.person1_id, rel.person2_id);
+            addEdge(graph.parents, rel.person2_id, rel.person1_id);
+        } else if (rel.relationship_type === 'child') {
+            addEdge(graph.parents, rel.person1_id, rel.person2_id);
+            addEdge(graph.children, rel.person2_id, rel.person1_id);
+        } else if (rel.relationship_type === 'spouse') {
+            addEdge(graph.spouses, rel.person1_id, rel.person2_id);
+            addEdge(graph.spouses, rel.person2_id, rel.person1_id);
+        }
+    });
+
+    return graph;
+};
+
+/**
+ * Pick a sensible default root: the person with the most known ancestors
+ */
+export const findDefaultRootId = (persons: TreePerson[], graph: FamilyGraph): string | null => {
+    if (persons.length === 0) return null;
+
+    const countAncestors = (personId: string, visited: Set<string>): number => {
+        const parents = (graph.parents.get(personId) || []).filter(id => !visited.has(id));
+        parents.forEach(id => visited.add(id));
+        return parents.reduce((total, id) => total + 1 + countAncestors(id, visited), 0);
+    };
+
+    let bestId = persons[0].person_id;
+    let bestCount = -1;
+    persons.forEach(person => {
+        const count = countAncestors(person.person_id, new Set([person.person_id]));
+        if (count > bestCount) {
+            bestCount = count;
+            bestId = person.person_id;
+        }
+    });
+
+    return bestId;
+};
+
+/**
+ * Build the visible tree for a root person, walking parents (pedigree) or children (descendants).
+ * People outside the project, collapsed branches and cycles in bad data are not expanded.
+ */
+export const buildTree = (
+    rootId: string,
+    mode: TreeMode,
+    graph: FamilyGraph,
+    personsById: Map<string, TreePerson>,
+    maxGenerations: number,
+    collapsedIds: Set<string>
+): TreeNode | null => {
+    const edges = mode === 'pedigree' ? graph.parents : graph.children;
+
+    const visit = (personId: string, generation: number, path: Set<string>): TreeNode | null => {
+        const person = personsById.get(personId);
+        if (!person) return null;
+
+        const relatedIds = (edges.get(personId) || []).filter(id => personsById.has(id) && !path.has(id));
+        const isCollapsed = collapsedIds.has(personId);
+        const canExpand = !isCollapsed && generation < maxGenerations - 1;
+
+        const nextPath = new Set(path).add(personId);
+        const children = canExpand
+            ? relatedIds
+                .map(id => visit(id, generation + 1, nextPath))
+                .filter((child): child is TreeNode => child !== null)
+            : [];
+
+        // Show fathers above mothers in pedigree view, older children first in descendant view
+        children.sort((a, b) => {
+            if (mode === 'pedigree') {
+                const rank = (p: TreePerson) => (p.gender === 'male' ? 0 : p.gender === 'female' ? 1 : 2);
+                return rank(a.person) - rank(b.person);
+            }
+            return (a.person.birth_date || '').localeCompare(b.person.birth_date || '');
+        });
+
+        return {
+            person,
+            generation,
+            children,
+            hasHiddenBranches: relatedIds.length > 0 && !canExpand,
+            isCollapsed
+        };
+    };
+
+    return visit(rootId, 0, new Set());
+};
+
+/**
+ * Lay the tree out left to right: one column per generation, leaves stacked vertically
+ * and each parent centred on its subtree.
+ */
+export const layoutTree = (root: TreeNode): TreeLayout => {
+    const nodes: PositionedNode[] = [];
+    const links: TreeLink[] = [];
+    let nextLeafY = 0;
+    let maxGeneration = 0;
+
+    const place = (node: TreeNode): PositionedNode => {
+        maxGeneration = Math.max(maxGeneration, node.generation);
+        const x = node.generation * (TREE_NODE_WIDTH + HORIZONTAL_GAP);
+
+        let y: number;
+        const placedChildren = node.children.map(place);
+        if (placedChildren.length === 0) {
+            y = nextLeafY;
+            nextLeafY += TREE_NODE_HEIGHT + VERTICAL_GAP;
+        } else {
+            y = (placedChildren[0].y + placedChildren[placedChildren.length - 1].y) / 2;
+        }
+
+        placedChildren.forEach(child => {
+            links.push({
+                fromX: x + TREE_NODE_WIDTH,
+                fromY: y + TREE_NODE_HEIGHT / 2,
+                toX: child.x,
+                toY: child.y + TREE_NODE_HEIGHT / 2
+            });
+        });
+
+        const positioned = { node, x, y };
+        nodes.push(positioned);
+        return positioned;
+    };
+
+    place(root);
+
+    return {
+        nodes,
+        links,
+        width: (maxGeneration + 1) * (TREE_NODE_WIDTH + HORIZONTAL_GAP) - HORIZONTAL_GAP,
+        height: Math.max(nextLeafY - VERTICAL_GAP, TREE_NODE_HEIGHT)
+    };
+};
+
+/**
+ * Extract the year portion of an ISO date for compact node labels
+ */
+export const getYear = (dateString?: string): string => {
+    if (!dateString) return '';
+    const match = /^(\d{4})/.exec(dateString);
+    return match ? match[1] : '';
+};
@@ -0,0 +1,201 @@
+/**
+ * Coarse outlines of the land masses as [longitude, latitude] rings, bundled so the migration map
+ * draws its base without fetching tiles. Accurate to a degree or two: enough to see which coast,
+ * country or ocean crossing a point belongs to, not to read streets from.
+ */
+
+export interface LandOutline {
+    name: string;
+    coordinates: Array<[number, number]>;
+}
+
+export const WORLD_LAND: LandOutline[] = [
+    {
+        name: 'North America',
+        coordinates: [
+            [-168, 66], [-162, 70], [-156, 71.3], [-141, 69.6], [-128, 70], [-115, 68.5], [-95, 68], [-88, 68.5],
+            [-82, 66], [-86, 62], [-94, 59], [-92, 57], [-82, 55], [-80, 51.5], [-77, 56], [-78, 59], [-72, 61],
+            [-65, 60], [-61, 56], [-56, 52], [-59, 48], [-66, 45], [-70, 43], [-70, 41.5], [-74, 40.5], [-76, 38],
+            [-76, 35], [-81, 31.5], [-80, 27], [-80.5, 25.2], [-82, 27], [-83, 29.5], [-85, 30], [-89, 30.2],
+            [-94, 29.5], [-97.5, 27], [-97.5, 22], [-96, 19], [-94, 18.5], [-90.5, 21], [-87, 21.5], [-88, 16],
+            [-84, 15], [-83.5, 11], [-80, 9], [-77.5, 8.5], [-80, 7.5], [-85, 10], [-87, 13], [-92, 14.5],
+            [-96, 15.7], [-105, 19.5], [-105.5, 21.5], [-106.5, 23.5], [-109, 26], [-111, 28], [-113, 31],
+            [-114.8, 31.8], [-113, 29], [-112, 27], [-110.5, 24.5], [-109.5, 23], [-111.5, 24.5], [-114, 27.5],
+            [-115.8, 30.5], [-117.1, 32.5], [-120.5, 34.5], [-122.5, 37.5], [-124, 40.5], [-124, 46], [-123, 48],
+            [-124.5, 48.5], [-127, 50], [-130, 54.5], [-133, 57], [-137, 59], [-141, 60], [-146, 61], [-152, 59],
+            [-154, 57.5], [-158, 56.5], [-164, 54.5], [-158, 58], [-162, 60], [-165, 62], [-164, 64.5], [-168, 66]
+        ]
+    },
+    {
+        name: 'Greenland',
+        coordinates: [
+            [-73, 78], [-60, 82], [-30, 83.5], [-20, 81.5], [-18, 77], [-22, 72], [-25, 69], [-33, 68], [-40, 65],
+            [-43, 60], [-48, 61], [-52, 65], [-54, 68], [-57, 74], [-66, 76], [-73, 78]
+        ]
+    },
+    {
+        name: 'Baffin Island',
+        coordinates: [[-80, 73.5], [-71, 70.5], [-62, 66.5], [-65, 63], [-72, 64.3], [-78, 64.5], [-74, 68], [-80, 69.5], [-90, 71.5], [-80, 73.5]]
+    },
+    {
+        name: 'Newfoundland',
+        coordinates: [[-59.3, 47.6], [-56, 49.8], [-55.5, 51.5], [-53, 49.5], [-52.7, 47], [-56, 47.5], [-59.3, 47.6]]
+    },
+    {
+        name: 'Cuba',
+        coordinates: [[-85, 21.8], [-82, 23.2], [-77, 22], [-74.2, 20.2], [-77.7, 19.9], [-80.5, 21.7], [-85, 21.8]]
+    },
+    {
+        name: 'Hispaniola',
+        coordinates: [[-74.5, 18.5], [-72.8, 19.9], [-69.5, 19.7], [-68.4, 18.5], [-71.5, 17.7], [-74.5, 18.5]]
+    },
+    {
+        name: 'South America',
+        coordinates: [
+            [-77.5, 8.5], [-72, 12], [-63, 10.5], [-60, 8.5], [-52, 5], [-50, 0], [-44, -2.5], [-35, -5.5], [-35, -9],
+            [-39, -13.5], [-39, -18], [-41, -22], [-44, -23], [-48.5, -26], [-53, -33.5], [-58, -34.5], [-57, -38],
+            [-62, -39], [-65, -42], [-67.5, -46], [-69, -50.5], [-68.5, -52.5], [-71, -54], [-74.5, -52], [-75.5, -46],
+            [-73.5, -40], [-73.5, -37], [-71.5, -31], [-70.5, -22], [-70.5, -18.5], [-76, -14], [-79, -8], [-81, -5.5],
+            [-80, -2], [-80, 1], [-78, 3], [-77.5, 7], [-77.5, 8.5]
+        ]
+    },
+    {
+        name: 'Eurasia',
+        coordinates: [
+            [-9.5, 37], [-9, 39], [-9.5, 43], [-8, 43.7], [-2, 43.4], [-1.5, 46], [-4.5, 48], [-1.5, 48.7], [2, 51],
+            [4, 52], [5, 53.4], [8.5, 53.8], [8.5, 57], [10.5, 57.7], [10.5, 55], [12.5, 54.5], [14, 54], [19.5, 54.5],
+            [21, 57], [24, 57.5], [23.5, 59.5], [28, 60], [22.5, 60.5], [21.5, 63], [25, 65], [22, 66], [20, 63.5],
+            [17.5, 61], [19, 60], [16.5, 57], [14, 55.5], [12.5, 56.5], [11, 59], [8, 58], [5.5, 58.5], [5, 61],
+            [7, 63], [12, 66], [15, 68.5], [19, 70], [25, 71], [31, 70], [33, 69], [40, 67], [41, 66], [35, 66],
+            [38, 64.5], [44, 66], [44, 68.5], [53, 68.5], [60, 69], [68, 69], [67, 72], [73, 73], [80, 73.5],
+            [87, 75], [100, 77], [105, 77.8], [113, 73.5], [124, 73.5], [130, 71], [140, 72.5], [150, 71.5],
+            [160, 70], [170, 69.8], [180, 68.5], [180, 65], [178, 64.5], [173, 61], [164, 60], [162, 57], [156, 51],
+            [156, 57], [158, 61.5], [155, 59], [143, 59.5], [137, 54], [141, 52], [140, 48], [133, 42.8],
+            [129.5, 42.5], [129.5, 40], [127.5, 39.5], [129.3, 37], [129, 35], [126.5, 34.5], [126.5, 37.5],
+            [125, 39.5], [121.5, 39], [122, 40.5], [121, 41], [118, 39], [119, 37], [122.5, 37], [120, 35],
+            [121.8, 31], [122, 29.5], [119.5, 25.5], [116.5, 23], [111, 21.5], [109.5, 21.5], [106.5, 20],
+            [105.7, 18.5], [108.8, 15], [109, 12], [106.5, 10.5], [105, 8.6], [104.5, 10.3], [103, 11],
+            [100.5, 13.5], [100, 12], [99.2, 9.5], [100.5, 7.2], [103.5, 4], [104, 1.4], [101, 3], [98.5, 8],
+            [98.5, 13], [97.5, 16.5], [94.5, 16], [92.5, 21], [90, 22], [86.5, 20], [85, 19.5], [80.2, 15.5],
+            [80, 13], [79.8, 10], [77.5, 8], [76.5, 8.9], [74.8, 12.8], [73, 19], [72.5, 21], [69, 22.5],
+            [67, 24.8], [61.5, 25.2], [57, 25.7], [56.3, 26.5], [54, 24], [51.6, 24.5], [51, 26], [48.5, 28],
+            [50, 30], [48, 29.5], [50, 26.5], [51.5, 24], [55.5, 25.5], [56.3, 24.6], [58.5, 23.5], [59.8, 22.5],
+            [57.8, 19], [55, 17], [52, 15.5], [48.7, 14], [45, 12.8], [43.3, 12.7], [42.8, 15], [41, 19],
+            [39, 21.5], [38, 24], [35, 28], [34.3, 28], [32.6, 30], [34.2, 31.3], [35, 33], [36, 34.7], [36, 36.5],
+            [32, 36.2], [30, 36.2], [27.2, 37], [26.5, 39], [26, 40.7], [28, 41], [29, 41.2], [31, 41.2], [35, 42],
+            [38, 41], [41.5, 41.5], [39, 44], [38, 45], [36.5, 45.3], [38, 47], [35, 46.5], [33.5, 44.5],
+            [32, 46.5], [30, 46], [29, 44.5], [28, 43], [28, 41.7], [26, 40.7], [24, 40.7], [23, 39.5], [24, 38],
+            [22.5, 36.5], [21.5, 37.5], [21, 39.5], [19.5, 40.5], [19.3, 42], [16, 43.5], [13.5, 45.7], [12.3, 45.2],
+            [12.5, 44], [14, 42.5], [16, 41.5], [18.5, 40.2], [16.5, 39], [16, 38], [15.7, 38], [15.8, 39.5],
+            [15, 40], [12.5, 41.5], [10.5, 43], [9, 44.4], [7.5, 43.8], [5, 43.3], [3, 43], [3.2, 42], [0.8, 41],
+            [0, 39.5], [-0.5, 38.3], [-2, 36.7], [-5.5, 36], [-7, 37.2], [-9.5, 37]
+        ]
+    },
+    {
+        name: 'Great Britain',
+        coordinates: [
+            [-5.7, 50], [-3.5, 50.3], [1.3, 51.1], [1.7, 52.7], [0.2, 53.5], [-0.2, 54.5], [-1.5, 55.5], [-2, 56],
+            [-2, 57.7], [-4, 57.6], [-3, 58.6], [-5, 58.6], [-6.2, 57], [-5.5, 56], [-5, 55], [-3, 54.9], [-3.4, 54],
+            [-3, 53.3], [-4.7, 53.3], [-4, 52.5], [-5.2, 51.8], [-3, 51.4], [-5.7, 50]
+        ]
+    },
+    {
+        name: 'Ireland',
+        coordinates: [
+            [-6, 52.2], [-6.2, 53.5], [-5.5, 54.4], [-6, 55.2], [-7.5, 55.3], [-8.5, 54.5], [-10, 54.2], [-10, 53.3],
+            [-9.5, 52.6], [-10.3, 51.8], [-9.5, 51.5], [-8, 51.7], [-6, 52.2]
+        ]
+    },
+    {
+        name: 'Iceland',
+        coordinates: [[-24, 65.5], [-22, 66.4], [-16, 66.5], [-14, 65.2], [-15, 64.3], [-19, 63.4], [-22.5, 63.8], [-24, 65.5]]
+    },
+    {
+        name: 'Sicily',
+        coordinates: [[12.4, 38], [15.6, 38.3], [15.1, 36.7], [12.4, 38]]
+    },
+    {
+        name: 'Sardinia',
+        coordinates: [[8.4, 41], [9.8, 41], [9.6, 39], [8.4, 39], [8.4, 41]]
+    },
+    {
+        name: 'Africa',
+        coordinates: [
+            [-6, 35.8], [-10, 31], [-13, 27.5], [-17, 21], [-17, 14.7], [-15, 11], [-13, 8], [-8, 4.5], [-2, 5], [5, 6],
+            [8.5, 4.5], [9.5, 2], [9, -1], [12, -5], [13.5, -11], [11.8, -17], [14.5, -23], [16.5, -28.6], [18.3, -33],
+            [20, -34.8], [25.6, -34], [30, -31], [32.8, -26], [35.5, -24], [35, -19.5], [40.5, -15], [40, -10.5],
+            [39.3, -6], [41.5, -1.5], [46, 2.5], [49, 6], [51.3, 11.8], [45, 10.5], [43.3, 11.8], [41.8, 11.7],
+            [39.5, 15.5], [37, 21], [35.5, 24], [33.5, 27.5], [32.6, 30], [31, 31.5], [29, 30.9], [25, 31.8],
+            [20, 30.8], [19, 30.3], [15.5, 31.5], [11.5, 33.2], [10.5, 36.8], [8, 37], [3, 36.8], [-2, 35.1], [-6, 35.8]
+        ]
+    },
+    {
+        name: 'Madagascar',
+        coordinates: [[49.3, -12], [50.5, -15.5], [49.5, -18], [47, -25], [45, -25.5], [43.5, -22], [44.3, -17], [47, -15.5], [49.3, -12]]
+    },
+    {
+        name: 'Japan',
+        coordinates: [
+            [130, 31.3], [131.5, 31.5], [132, 33.8], [135, 33.5], [137, 34.6], [140, 35], [141, 37], [142, 39.5],
+            [141.4, 41.4], [140, 40.5], [139.8, 38.5], [137, 37], [135.5, 35.6], [133, 35.5], [131, 34.4], [130, 33.5],
+            [130, 31.3]
+        ]
+    },
+    {
+        name: 'Hokkaido',
+        coordinates: [[140, 41.5], [141.3, 42.5], [143.2, 42], [145.5, 43.3], [144, 44], [141.8, 45.4], [141.5, 43.3], [140, 41.5]]
+    },
+    {
+        name: 'Taiwan',
+        coordinates: [[120.1, 23], [121, 25.3], [122, 25], [120.8, 22], [120.1, 23]]
+    },
+    {
+        name: 'Luzon',
+        coordinates: [[120, 18.5], [122.3, 18.5], [122, 16], [124, 13.5], [121, 13.8], [120, 15.5], [120, 18.5]]
+    },
+    {
+        name: 'Mindanao',
+        coordinates: [[122, 7], [125.5, 9.8], [126.5, 7], [125.5, 6], [122, 7]]
+    },
+    {
+        name: 'Sumatra',
+        coordinates: [[95.3, 5.6], [98, 4], [104, -2], [106, -6], [104.5, -5.8], [101, -2.5], [98.5, 1], [95.3, 5.6]]
+    },
+    {
+        name: 'Java',
+        coordinates: [[105.5, -6.8], [110, -6.8], [114.5, -7.8], [112, -8.3], [106, -7.4], [105.5, -6.8]]
+    },
+    {
+        name: 'Borneo',
+        coordinates: [[109, 1.5], [110, -1.5], [111.5, -3], [116, -4], [116.5, -1], [118.5, 1], [119, 5.3], [117, 7], [115, 5], [113, 3.2], [111, 1.8], [109, 1.5]]
+    },
+    {
+        name: 'New Guinea',
+        coordinates: [
+            [131, -1], [135, -3.3], [138, -1.6], [141, -2.6], [145, -4.3], [147.5, -6], [150, -10.5], [147, -10],
+            [144, -7.7], [141, -9], [138, -8.3], [137.8, -5], [133, -4], [132, -2.8], [131, -1]
+        ]
+    },
+    {
+        name: 'Australia',
+        coordinates: [
+            [113.5, -22], [114, -26], [115, -30.5], [115, -34], [118, -35], [123, -33.8], [129, -31.6], [131.5, -31.5],
+            [134, -32.5], [137.5, -35.5], [138.5, -34.8], [140, -38], [144, -38.3], [146.5, -39], [150, -37.5],
+            [153, -32], [153.5, -28], [153, -25], [149, -21], [146, -18.5], [145.3, -15], [143.5, -14], [142.5, -10.8],
+            [141.5, -13.5], [141.5, -17], [140, -17.7], [136.8, -15.5], [136, -12], [132.5, -11.5], [130, -13],
+            [129.5, -15], [126, -14], [122, -17.5], [121, -19.5], [117, -20.7], [113.5, -22]
+        ]
+    },
+    {
+        name: 'Tasmania',
+        coordinates: [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146, -43.6], [144.6, -40.7]]
+    },
+    {
+        name: 'North Island',
+        coordinates: [[172.7, -34.5], [174.5, -36], [178.5, -37.7], [177, -39.5], [175, -41.5], [174.5, -41], [173.8, -39.2], [174.6, -38], [172.7, -34.5]]
+    },
+    {
+        name: 'South Island',
+        coordinates: [[172.7, -40.5], [174.3, -41.7], [173, -43.8], [171, -45], [169, -46.6], [166.5, -46], [168, -44], [171, -42], [172.7, -40.5]]
+    }
+];
@@ -19,6 +19,17 @@ var relationshipsRouter = require('./routes/relationships');
 var eventsRouter = require('./routes/events');
 var documentsRouter = require('./routes/documents');
 var userEventsRouter = require('./routes/userEvents');
+var sourcesRouter = require('./routes/sources');
+var historyRouter = require('./routes/history');
+var placesRouter = require('./routes/places');
+var searchRouter = require('./routes/search');
+var researchRouter = require('./routes/research');
+var sharedRouter = require('./routes/shared');
+
+// Billing routes
+var billingRouter = require('./routes/billing');
+var consultationsRouter = require('./routes/consultations');
+var realtimeRouter = require('./routes/realtime');
 
 var app = express();
 
@@ -40,8 +51,8 @@ app.use(cors({
     },
     credentials: true, // Allow cookies to be sent
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
-    exposedHeaders: ['Set-Cookie']
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Share-Password'],
+    exposedHeaders: ['Set-Cookie', 'Content-Disposition']
 }));
 
 // view engine setup
@@ -49,7 +60,12 @@ app.set('views', path.join(__dirname, 'views'));
 app.set('view engine', 'jade');
 
 app.use(logger('dev'));
-app.use(express.json());
+app.use(express.json({
+    // Keep the raw body so payment webhooks can verify the provider's signature
+    verify: (req, res, buf) => {
+        req.rawBody = buf;
+    }
+}));
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
 app.use(express.static(path.join(__dirname, 'public')));
@@ -74,6 +90,23 @@ app.use('/api/relationships', relationshipsRouter);
 app.use('/api/events', eventsRouter);
 app.use('/api/documents', documentsRouter);
 app.use('/api/user-events', userEventsRouter);
+app.use('/api/sources', sourcesRouter);
+app.use('/api/history', historyRouter);
+app.use('/api/places', placesRouter);
+app.use('/api/search', searchRouter);
+app.use('/api/research', researchRouter);
+
+// Register public share link routes
+app.use('/api/shared', sharedRouter);
+
+// Register billing routes
+app.use('/api/billing', billingRouter);
+
+// Register consultation routes
+app.use('/api/consultations', consultationsRouter);
+
+// Register realtime push routes
+app.use('/api/realtime', realtimeRouter);
 
 // catch 404 and forward to error handler
 app.use(notFoundHandler);
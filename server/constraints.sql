@@ -1,10 +1,12 @@
 -- Constraints for database tables
 
 -- Add check constraints to persons table
+-- Approximate dates share a sort key (e.g. born and died "1850"), so equal keys are allowed here
+-- and exact-day ordering is enforced by the Person model
 ALTER TABLE persons DROP CONSTRAINT IF EXISTS check_birth_before_death;
 ALTER TABLE persons
 ADD CONSTRAINT check_birth_before_death
-CHECK (birth_date IS NULL OR death_date IS NULL OR birth_date < death_date);
+CHECK (birth_date IS NULL OR death_date IS NULL OR birth_date <= death_date);
 
 ALTER TABLE persons DROP CONSTRAINT IF EXISTS check_birth_not_future;
 ALTER TABLE persons
@@ -21,11 +23,16 @@ ALTER TABLE persons
 ADD CONSTRAINT check_gender_values
 CHECK (gender IS NULL OR gender IN ('male', 'female', 'other', 'unknown'));
 
+ALTER TABLE persons DROP CONSTRAINT IF EXISTS check_privacy_override;
+ALTER TABLE persons
+ADD CONSTRAINT check_privacy_override
+CHECK (privacy_override IS NULL OR privacy_override IN ('private', 'public'));
+
 -- Add check constraints to relationships table
 ALTER TABLE relationships DROP CONSTRAINT IF EXISTS check_start_before_end;
 ALTER TABLE relationships
 ADD CONSTRAINT check_start_before_end
-CHECK (start_date IS NULL OR end_date IS NULL OR start_date < end_date);
+CHECK (start_date IS NULL OR end_date IS NULL OR start_date <= end_date);
 
 ALTER TABLE relationships DROP CONSTRAINT IF EXISTS check_relationship_type;
 ALTER TABLE relationships
@@ -59,6 +66,84 @@ ALTER TABLE documents
 ADD CONSTRAINT check_document_type
 CHECK (document_type IN ('photo', 'certificate', 'letter', 'record', 'newspaper', 'census', 'military', 'legal', 'map', 'audio', 'video', 'other'));
 
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS check_document_ocr_status;
+ALTER TABLE documents
+ADD CONSTRAINT check_document_ocr_status
+CHECK (ocr_status IS NULL OR ocr_status IN ('pending', 'processing', 'completed', 'failed'));
+
+-- Add check constraints to sources and citations tables
+ALTER TABLE sources DROP CONSTRAINT IF EXISTS check_source_classification;
+ALTER TABLE sources
+ADD CONSTRAINT check_source_classification
+CHECK (classification IS NULL OR classification IN ('original', 'derivative', 'authored'));
+
+ALTER TABLE citations DROP CONSTRAINT IF EXISTS check_citation_entity_type;
+ALTER TABLE citations
+ADD CONSTRAINT check_citation_entity_type
+CHECK (entity_type IN ('person', 'event', 'relationship'));
+
+ALTER TABLE entity_versions DROP CONSTRAINT IF EXISTS check_entity_version_entity_type;
+ALTER TABLE entity_versions
+ADD CONSTRAINT check_entity_version_entity_type
+CHECK (entity_type IN ('person', 'event', 'relationship', 'document'));
+
+ALTER TABLE entity_versions DROP CONSTRAINT IF EXISTS check_entity_version_action;
+ALTER TABLE entity_versions
+ADD CONSTRAINT check_entity_version_action
+CHECK (action IN ('create', 'update', 'delete', 'revert'));
+
+ALTER TABLE citations DROP CONSTRAINT IF EXISTS check_citation_information_quality;
+ALTER TABLE citations
+ADD CONSTRAINT check_citation_information_quality
+CHECK (information_quality IS NULL OR information_quality IN ('primary', 'secondary', 'undetermined'));
+
+ALTER TABLE citations DROP CONSTRAINT IF EXISTS check_citation_evidence_type;
+ALTER TABLE citations
+ADD CONSTRAINT check_citation_evidence_type
+CHECK (evidence_type IS NULL OR evidence_type IN ('direct', 'indirect', 'negative'));
+
+ALTER TABLE citations DROP CONSTRAINT IF EXISTS check_citation_confidence;
+ALTER TABLE citations
+ADD CONSTRAINT check_citation_confidence
+CHECK (confidence IS NULL OR confidence BETWEEN 0 AND 3);
+
+-- Add check constraints to person_names table
+ALTER TABLE person_names DROP CONSTRAINT IF EXISTS check_person_name_type;
+ALTER TABLE person_names
+ADD CONSTRAINT check_person_name_type
+CHECK (name_type IN ('birth', 'married', 'alias', 'religious', 'anglicized'));
+
+ALTER TABLE person_names DROP CONSTRAINT IF EXISTS check_person_name_given;
+ALTER TABLE person_names
+ADD CONSTRAINT check_person_name_given
+CHECK (first_name IS NOT NULL OR middle_name IS NOT NULL OR last_name IS NOT NULL);
+
+ALTER TABLE person_names DROP CONSTRAINT IF EXISTS check_person_name_dates;
+ALTER TABLE person_names
+ADD CONSTRAINT check_person_name_dates
+CHECK (start_date IS NULL OR end_date IS NULL OR start_date <= end_date);
+
+-- Add check constraints to places tables
+ALTER TABLE places DROP CONSTRAINT IF EXISTS check_place_type;
+ALTER TABLE places
+ADD CONSTRAINT check_place_type
+CHECK (place_type IN ('country', 'state', 'county', 'city'));
+
+ALTER TABLE places DROP CONSTRAINT IF EXISTS check_place_coordinates;
+ALTER TABLE places
+ADD CONSTRAINT check_place_coordinates
+CHECK ((latitude IS NULL OR latitude BETWEEN -90 AND 90) AND (longitude IS NULL OR longitude BETWEEN -180 AND 180));
+
+ALTER TABLE places DROP CONSTRAINT IF EXISTS check_place_not_own_parent;
+ALTER TABLE places
+ADD CONSTRAINT check_place_not_own_parent
+CHECK (parent_id IS NULL OR parent_id != place_id);
+
+ALTER TABLE place_names DROP CONSTRAINT IF EXISTS check_place_name_dates;
+ALTER TABLE place_names
+ADD CONSTRAINT check_place_name_dates
+CHECK (start_date IS NULL OR end_date IS NULL OR start_date <= end_date);
+
 -- Add check constraints to project_users table
 ALTER TABLE project_users DROP CONSTRAINT IF EXISTS check_access_level;
 ALTER TABLE project_users
@@ -71,6 +156,76 @@ ALTER TABLE projects
 ADD CONSTRAINT check_project_status
 CHECK (status IN ('active', 'completed', 'on_hold'));
 
+-- Add check constraints to billing tables
+ALTER TABLE service_packages DROP CONSTRAINT IF EXISTS check_package_price;
+ALTER TABLE service_packages
+ADD CONSTRAINT check_package_price
+CHECK (price_cents >= 0);
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS check_order_status;
+ALTER TABLE orders
+ADD CONSTRAINT check_order_status
+CHECK (status IN ('pending', 'paid', 'failed', 'canceled'));
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS check_order_provider;
+ALTER TABLE orders
+ADD CONSTRAINT check_order_provider
+CHECK (provider IN ('stripe', 'fake'));
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS check_invoice_status;
+ALTER TABLE invoices
+ADD CONSTRAINT check_invoice_status
+CHECK (status IN ('paid', 'void'));
+
+-- Add check constraints to consultation tables
+ALTER TABLE availability_slots DROP CONSTRAINT IF EXISTS check_slot_times;
+ALTER TABLE availability_slots
+ADD CONSTRAINT check_slot_times
+CHECK (ends_at > starts_at);
+
+ALTER TABLE consultations DROP CONSTRAINT IF EXISTS check_consultation_times;
+ALTER TABLE consultations
+ADD CONSTRAINT check_consultation_times
+CHECK (ends_at > starts_at);
+
+ALTER TABLE consultations DROP CONSTRAINT IF EXISTS check_consultation_status;
+ALTER TABLE consultations
+ADD CONSTRAINT check_consultation_status
+CHECK (status IN ('scheduled', 'completed', 'canceled'));
+
+-- Add check constraints to email_outbox table
+ALTER TABLE email_outbox DROP CONSTRAINT IF EXISTS check_email_status;
+ALTER TABLE email_outbox
+ADD CONSTRAINT check_email_status
+CHECK (status IN ('pending', 'sending', 'sent', 'failed'));
+
+-- Add check constraints to research log and task tables
+ALTER TABLE research_log_entries DROP CONSTRAINT IF EXISTS check_research_log_result;
+ALTER TABLE research_log_entries
+ADD CONSTRAINT check_research_log_result
+CHECK (result IS NULL OR result IN ('positive', 'negative', 'inconclusive'));
+
+ALTER TABLE research_tasks DROP CONSTRAINT IF EXISTS check_research_task_priority;
+ALTER TABLE research_tasks
+ADD CONSTRAINT check_research_task_priority
+CHECK (priority IN ('low', 'medium', 'high'));
+
+ALTER TABLE research_tasks DROP CONSTRAINT IF EXISTS check_research_task_status;
+ALTER TABLE research_tasks
+ADD CONSTRAINT check_research_task_status
+CHECK (status IN ('open', 'in_progress', 'done'));
+
+-- Research notes used to be kept as research_milestone user events on the project; move them
+-- into the research log, using the first line of the note as the entry title
+INSERT INTO research_log_entries (project_id, title, findings, searched_on, created_by, created_at, updated_at)
+SELECT ue.entity_id, left(split_part(btrim(ue.message), E'\n', 1), 255), ue.message,
+    ue.created_at::date, ue.user_id, ue.created_at, ue.updated_at
+FROM user_events ue
+JOIN projects p ON p.id = ue.entity_id
+WHERE ue.event_type = 'research_milestone' AND ue.entity_type = 'project';
+
+DELETE FROM user_events WHERE event_type = 'research_milestone';
+
 -- Add check constraints to user_events table
 ALTER TABLE user_events DROP CONSTRAINT IF EXISTS check_user_event_type;
 ALTER TABLE user_events
@@ -78,17 +233,32 @@ ADD CONSTRAINT check_user_event_type
 CHECK (event_type IN (
     'user_created', 'user_updated', 'user_deleted', 'user_deactivated', 'user_reactivated', 'roles', 'user_roles', 'password_reset',
     'project_created', 'project_updated', 'person_added_to_project', 'person_removed_from_project', 'project_assigned', 'project_removed',
-    'person_created', 'person_updated', 'person_deleted',
+    'person_created', 'person_updated', 'person_deleted', 'person_merged',
     'event_created', 'event_updated', 'event_deleted',
     'document_created', 'document_updated', 'document_deleted', 'document_associated', 'document_removed',
     'relationship_created', 'relationship_updated', 'relationship_deleted',
-    'research_milestone'
+    'source_created', 'source_updated', 'source_deleted', 'citation_added', 'citation_removed',
+    'order_paid', 'order_failed',
+    'consultation_booked', 'consultation_rescheduled', 'consultation_canceled', 'consultation_completed',
+    'research_entry_created',
+    'share_link_created', 'share_link_revoked', 'share_link_accessed'
 ));
 
 -- Add indexes for performance
 CREATE INDEX IF NOT EXISTS idx_persons_names ON persons(last_name, first_name);
 CREATE INDEX IF NOT EXISTS idx_persons_birth ON persons(birth_date);
 CREATE INDEX IF NOT EXISTS idx_persons_death ON persons(death_date);
+CREATE INDEX IF NOT EXISTS idx_persons_phonetic ON persons USING GIN (phonetic_codes);
+CREATE INDEX IF NOT EXISTS idx_person_names_person ON person_names(person_id);
+CREATE INDEX IF NOT EXISTS idx_person_names_phonetic ON person_names USING GIN (phonetic_codes);
+CREATE INDEX IF NOT EXISTS idx_persons_birth_place ON persons(birth_place_id);
+CREATE INDEX IF NOT EXISTS idx_persons_death_place ON persons(death_place_id);
+CREATE INDEX IF NOT EXISTS idx_events_place ON events(event_place_id);
+
+CREATE INDEX IF NOT EXISTS idx_places_parent ON places(parent_id);
+CREATE INDEX IF NOT EXISTS idx_places_name ON places(LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_place_names_place ON place_names(place_id);
+CREATE INDEX IF NOT EXISTS idx_place_names_name ON place_names(LOWER(name));
 
 CREATE INDEX IF NOT EXISTS idx_relationships_person1 ON relationships(person1_id);
 CREATE INDEX IF NOT EXISTS idx_relationships_person2 ON relationships(person2_id);
@@ -99,9 +269,36 @@ CREATE INDEX IF NOT EXISTS idx_events_type ON events(event_type);
 CREATE INDEX IF NOT EXISTS idx_events_date ON events(event_date);
 
 CREATE INDEX IF NOT EXISTS idx_documents_type ON documents(document_type);
+-- Documents waiting for OCR
+CREATE INDEX IF NOT EXISTS idx_documents_ocr_pending ON documents(updated_at) WHERE ocr_status IN ('pending', 'processing');
 CREATE INDEX IF NOT EXISTS idx_document_persons_document ON document_persons(document_id);
 CREATE INDEX IF NOT EXISTS idx_document_persons_person ON document_persons(person_id);
 
+CREATE INDEX IF NOT EXISTS idx_sources_project ON sources(project_id);
+CREATE INDEX IF NOT EXISTS idx_citations_source ON citations(source_id);
+CREATE INDEX IF NOT EXISTS idx_citations_entity ON citations(entity_type, entity_id);
+
+CREATE INDEX IF NOT EXISTS idx_orders_user ON orders(user_id);
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_provider_session ON orders(provider, provider_session_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_user ON invoices(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_availability_slots_researcher ON availability_slots(researcher_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_consultations_client ON consultations(client_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_consultations_researcher ON consultations(researcher_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_consultations_project ON consultations(project_id);
+-- A slot can only hold one scheduled consultation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_consultations_scheduled_slot ON consultations(slot_id) WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_email_outbox_user ON email_outbox(user_id);
+
+-- Full-text search indexes
+CREATE INDEX IF NOT EXISTS idx_persons_search ON persons USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_events_search ON events USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_documents_search ON documents USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_research_log_search ON research_log_entries USING GIN (search_vector);
+
 -- Add indexes for junction tables
 CREATE INDEX IF NOT EXISTS idx_person_events_person ON person_events(person_id);
 CREATE INDEX IF NOT EXISTS idx_person_events_event ON person_events(event_id);
@@ -109,6 +306,20 @@ CREATE INDEX IF NOT EXISTS idx_project_events_project ON project_events(project_
 CREATE INDEX IF NOT EXISTS idx_project_events_event ON project_events(event_id);
 CREATE INDEX IF NOT EXISTS idx_project_persons_project ON project_persons(project_id);
 CREATE INDEX IF NOT EXISTS idx_project_persons_person ON project_persons(person_id);
+CREATE INDEX IF NOT EXISTS idx_person_merges_survivor ON person_merges(survivor_person_id);
+CREATE INDEX IF NOT EXISTS idx_person_merges_merged ON person_merges(merged_person_id);
+CREATE INDEX IF NOT EXISTS idx_entity_versions_changed_by ON entity_versions(changed_by);
+CREATE INDEX IF NOT EXISTS idx_research_log_persons_person ON research_log_persons(person_id);
+CREATE INDEX IF NOT EXISTS idx_research_log_documents_document ON research_log_documents(document_id);
+
+-- Add indexes for research log and task tables
+CREATE INDEX IF NOT EXISTS idx_research_log_project ON research_log_entries(project_id);
+CREATE INDEX IF NOT EXISTS idx_research_tasks_project ON research_tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_research_tasks_open ON research_tasks(due_date) WHERE status <> 'done';
+
+-- Add indexes for share link tables
+CREATE INDEX IF NOT EXISTS idx_share_links_project ON share_links(project_id);
+CREATE INDEX IF NOT EXISTS idx_share_link_documents_document ON share_link_documents(document_id);
 
 -- Add indexes for user_events table
 CREATE INDEX IF NOT EXISTS idx_user_events_user ON user_events(user_id);
@@ -116,6 +327,7 @@ CREATE INDEX IF NOT EXISTS idx_user_events_actor ON user_events(actor_id);
 CREATE INDEX IF NOT EXISTS idx_user_events_type ON user_events(event_type);
 CREATE INDEX IF NOT EXISTS idx_user_events_entity ON user_events(entity_id, entity_type);
 CREATE INDEX IF NOT EXISTS idx_user_events_created ON user_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_user_events_unread ON user_events(user_id) WHERE read_at IS NULL AND archived_at IS NULL;
 
 -- Add triggers for data consistency
 CREATE OR REPLACE FUNCTION update_timestamp()
@@ -131,9 +343,13 @@ DO $$
 DECLARE
     tables TEXT[] := ARRAY[
         'users', 'roles', 'user_roles', 'projects', 'project_users',
-        'persons', 'events', 'documents', 'relationships',
+        'persons', 'events', 'documents', 'relationships', 'sources', 'citations',
         'person_events', 'project_events', 'document_persons', 'project_persons',
-        'client_profiles', 'user_events', 'password_reset_tokens'
+        'client_profiles', 'user_events', 'password_reset_tokens',
+        'service_packages', 'orders', 'invoices', 'email_outbox',
+        'availability_slots', 'consultations', 'person_merges', 'person_names',
+        'places', 'place_names', 'research_log_entries', 'research_log_persons',
+        'research_log_documents', 'research_tasks', 'share_links', 'share_link_documents'
     ];
     t TEXT;
 BEGIN
@@ -165,17 +381,19 @@ BEGIN
         -- If this is a birth event, update the person's birth_date
         IF NEW.event_type = 'birth' THEN
             UPDATE persons
-            SET birth_date = NEW.event_date
+            SET birth_date = NEW.event_date, birth_date_detail = NEW.event_date_detail
             WHERE person_id = person_id_val
-            AND (birth_date IS NULL OR birth_date != NEW.event_date);
+            AND (birth_date IS DISTINCT FROM NEW.event_date
+                OR birth_date_detail IS DISTINCT FROM NEW.event_date_detail);
         END IF;
         
         -- If this is a death event, update the person's death_date
         IF NEW.event_type = 'death' THEN
             UPDATE persons
-            SET death_date = NEW.event_date
+            SET death_date = NEW.event_date, death_date_detail = NEW.event_date_detail
             WHERE person_id = person_id_val
-            AND (death_date IS NULL OR death_date != NEW.event_date);
+            AND (death_date IS DISTINCT FROM NEW.event_date
+                OR death_date_detail IS DISTINCT FROM NEW.event_date_detail);
         END IF;
     END IF;
     
@@ -188,3 +406,25 @@ AFTER INSERT OR UPDATE ON events
 FOR EACH ROW
 WHEN (NEW.event_type IN ('birth', 'death'))
 EXECUTE FUNCTION check_birth_death_consistency();
+
+-- Copy a person's other names onto the person, so the search finds them under any of their names
+CREATE OR REPLACE FUNCTION refresh_person_other_names()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE persons p
+    SET other_names = (
+        SELECT string_agg(concat_ws(' ', pn.first_name, pn.middle_name, pn.last_name), ' ' ORDER BY pn.created_at)
+        FROM person_names pn
+        WHERE pn.person_id = p.person_id
+    )
+    -- OLD is NULL for inserts and NEW for deletes; a name moved to another person refreshes both
+    WHERE p.person_id IN (OLD.person_id, NEW.person_id);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER person_names_search
+AFTER INSERT OR UPDATE OR DELETE ON person_names
+FOR EACH ROW
+EXECUTE FUNCTION refresh_person_other_names();
@@ -0,0 +1,44 @@
+const auditService = require('../services/auditService');
+
+/**
+ * Audit Controller
+ * Handles HTTP requests for project data quality audits
+ */
+
+/**
+ * Audit a project's persons and relationships against the data quality rules
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getProjectAudit = async (req, res) => {
+    try {
+        const rules = req.query.rules
+            ? req.query.rules.split(',').map(rule => rule.trim()).filter(Boolean)
+            : [];
+
+        const audit = await auditService.auditProject(req.params.id, {
+            rules,
+            severity: req.query.severity
+        });
+
+        res.json(audit);
+    } catch (error) {
+        console.error('Project audit error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('Validation error')) {
+            return res.status(400).json({ message: error.message.replace('Validation error: ', '') });
+        }
+
+        res.status(500).json({
+            message: 'Server error auditing project',
+            error: error.message
+        });
+    }
+};
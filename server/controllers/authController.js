@@ -2,9 +2,11 @@ const jwt = require('jsonwebtoken');
 const crypto = require('crypto');
 const { User, Role, PasswordResetToken } = require('../models');
 const { Op } = require('sequelize');
+const mailService = require('../services/mailService');
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 const REFRESH_SECRET = process.env.REFRESH_SECRET || 'your-refresh-secret-key';
 const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+const RESET_TOKEN_EXPIRY_MINUTES = 60;
 
 // Register a new user
 exports.register = async (req, res) => {
@@ -233,7 +235,7 @@ exports.requestPasswordReset = async (req, res) => {
         
         // Generate reset token
         const resetToken = crypto.randomBytes(32).toString('hex');
-        const resetTokenExpiry = new Date(Date.now() + 3600000); // 1 hour
+        const resetTokenExpiry = new Date(Date.now() + RESET_TOKEN_EXPIRY_MINUTES * 60 * 1000);
         
         // Store token in database
         await PasswordResetToken.create({
@@ -242,13 +244,15 @@ exports.requestPasswordReset = async (req, res) => {
             expires_at: resetTokenExpiry
         });
         
-        // In a real app, send email with reset link
-        // For now, just return the token in the response
+        // Email the reset link; the response is the same whether or not the user exists
+        await mailService.sendPasswordReset(
+            user,
+            `${CLIENT_URL}/reset-password?token=${resetToken}`,
+            RESET_TOKEN_EXPIRY_MINUTES
+        );
+
         res.status(200).json({
-            message: 'If your email is registered, you will receive a password reset link',
-            // The following would not be included in a production app
-            resetToken,
-            resetUrl: `${CLIENT_URL}/reset-password?token=${resetToken}`
+            message: 'If your email is registered, you will receive a password reset link'
         });
     } catch (error) {
         console.error('Password reset request error:', error);
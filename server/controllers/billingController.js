@@ -0,0 +1,257 @@
+const billingService = require('../services/billingService');
+const UserEventService = require('../services/userEventService');
+const { getPaymentProvider } = require('../services/payments');
+const { User, Role } = require('../models');
+
+/**
+ * Billing Controller
+ * Handles HTTP requests for service packages, checkout, orders and payment provider webhooks
+ */
+
+/**
+ * Notify the client, and the managers who staff new projects, of a payment outcome
+ *
+ * @param {Object} result - Result of handling a payment event
+ */
+const notifyPaymentResult = async ({ event, order, changed }) => {
+    if (!order || !changed) return;
+
+    const packageName = order.servicePackage ? order.servicePackage.name : 'your order';
+    const projectTitle = order.project ? order.project.title : null;
+
+    if (event.type === 'payment_succeeded') {
+        await UserEventService.createEvent(
+            order.user_id,
+            order.user_id,
+            'order_paid',
+            projectTitle
+                ? `Payment received for ${packageName}. Your project "${projectTitle}" is now active`
+                : `Payment received for ${packageName}`,
+            order.order_id,
+            'order'
+        );
+
+        const managers = await User.findAll({
+            include: [{
+                model: Role,
+                where: { name: 'manager' }
+            }],
+            attributes: ['user_id']
+        });
+
+        if (managers.length > 0) {
+            await UserEventService.createEventForMultipleUsers(
+                managers.map(manager => manager.user_id),
+                order.user_id,
+                'order_paid',
+                `New paid order for ${packageName}${projectTitle ? `: project "${projectTitle}" needs a researcher` : ''}`,
+                order.order_id,
+                'order'
+            );
+        }
+    } else if (event.type === 'payment_failed') {
+        await UserEventService.createEvent(
+            order.user_id,
+            order.user_id,
+            'order_failed',
+            `Payment for ${packageName} did not go through. You can try again from the checkout page`,
+            order.order_id,
+            'order'
+        );
+    }
+};
+
+/**
+ * Get the service packages clients can buy
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getServicePackages = async (req, res) => {
+    try {
+        const packages = await billingService.getServicePackages();
+
+        res.json({ packages });
+    } catch (error) {
+        console.error('Get service packages error:', error);
+        res.status(500).json({
+            message: 'Server error retrieving service packages',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Start paying for a service package
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.checkout = async (req, res) => {
+    try {
+        const user = await User.findByPk(req.user.user_id, {
+            attributes: ['user_id', 'email', 'first_name', 'last_name']
+        });
+
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        const { order, checkoutUrl } = await billingService.startCheckout(user, req.body);
+
+        res.status(201).json({
+            message: 'Checkout started',
+            order,
+            checkoutUrl
+        });
+    } catch (error) {
+        console.error('Checkout error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('checkout failed') ||
+            error.message.includes('not configured')) {
+            return res.status(502).json({
+                message: 'The payment provider could not start checkout. Please try again later.',
+                error: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error starting checkout',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Get the current user's orders and invoices
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getOrders = async (req, res) => {
+    try {
+        const orders = await billingService.getOrdersForUser(req.user.user_id);
+
+        res.json({ orders });
+    } catch (error) {
+        console.error('Get orders error:', error);
+        res.status(500).json({
+            message: 'Server error retrieving billing history',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Get one of the current user's orders
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getOrderById = async (req, res) => {
+    try {
+        const { orderId } = req.params;
+        const order = await billingService.getOrderForUser(orderId, req.user.user_id);
+
+        res.json(order);
+    } catch (error) {
+        console.error('Get order error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving order',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Complete checkout of an order placed with the test payment provider
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.completeTestPayment = async (req, res) => {
+    try {
+        const { orderId } = req.params;
+        const result = await billingService.completeTestPayment(orderId, req.user.user_id, req.body.outcome);
+
+        await notifyPaymentResult(result);
+
+        res.json({
+            message: 'Test payment completed',
+            order: result.order
+        });
+    } catch (error) {
+        console.error('Test payment error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('Only orders placed with the test payment provider')) {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error completing test payment',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Receive a payment event from a payment provider
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.handleWebhook = async (req, res) => {
+    try {
+        const { provider } = req.params;
+        const signature = req.get(getPaymentProvider(provider).signatureHeader);
+
+        // Signatures are computed over the body exactly as sent, captured before JSON parsing
+        const result = await billingService.handleWebhook(provider, req.rawBody || '', signature);
+
+        await notifyPaymentResult(result);
+
+        res.json({ received: true });
+    } catch (error) {
+        console.error('Payment webhook error:', error);
+
+        if (error.message.includes('Invalid webhook signature') ||
+            error.message.includes('not configured') ||
+            error.name === 'SyntaxError') {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error handling payment webhook',
+            error: error.message
+        });
+    }
+};
@@ -0,0 +1,360 @@
+const consultationService = require('../services/consultationService');
+const UserEventService = require('../services/userEventService');
+
+/**
+ * Consultation Controller
+ * Handles HTTP requests for researcher availability, consultation bookings and their calendar files
+ */
+
+/**
+ * Send an error response matching the error message
+ *
+ * @param {Object} res - Express response object
+ * @param {Error} error - Error thrown by the consultation service
+ * @param {String} fallbackMessage - Message of unexpected errors
+ */
+const sendError = (res, error, fallbackMessage) => {
+    if (error.message.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+    }
+
+    if (error.message.includes('Validation error')) {
+        return res.status(400).json({ message: error.message.replace('Validation error: ', '') });
+    }
+
+    if (error.message.includes('access')) {
+        return res.status(403).json({ message: error.message });
+    }
+
+    if (error.message.includes('already been booked') ||
+        error.message.includes('already booked') ||
+        error.message.includes('overlaps')) {
+        return res.status(409).json({ message: error.message });
+    }
+
+    res.status(500).json({
+        message: fallbackMessage,
+        error: error.message
+    });
+};
+
+/**
+ * Notify the client and the researcher of a change to their consultation
+ *
+ * @param {Object} consultation - Consultation with its client and researcher
+ * @param {String} actorId - User who made the change
+ * @param {String} eventType - User event type
+ * @param {String} message - Notification message
+ */
+const notifyParticipants = async (consultation, actorId, eventType, message) => {
+    await UserEventService.createEventForMultipleUsers(
+        [...new Set([consultation.client_id, consultation.researcher_id])],
+        actorId,
+        eventType,
+        message,
+        consultation.consultation_id,
+        'consultation'
+    );
+};
+
+/**
+ * Get future availability slots that can still be booked
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getAvailableSlots = async (req, res) => {
+    try {
+        const slots = await consultationService.getAvailableSlots({
+            researcherId: req.query.researcher_id,
+            to: req.query.to ? new Date(req.query.to) : undefined
+        });
+
+        res.json({ slots });
+    } catch (error) {
+        console.error('Get available slots error:', error);
+        sendError(res, error, 'Server error retrieving available slots');
+    }
+};
+
+/**
+ * Get availability slots with their bookings
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getSlots = async (req, res) => {
+    try {
+        const slots = await consultationService.getSlots({
+            researcherId: req.query.researcher_id,
+            from: req.query.from ? new Date(req.query.from) : undefined,
+            to: req.query.to ? new Date(req.query.to) : undefined
+        });
+
+        res.json({ slots });
+    } catch (error) {
+        console.error('Get availability slots error:', error);
+        sendError(res, error, 'Server error retrieving availability slots');
+    }
+};
+
+/**
+ * Offer a slot of time for consultations
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.createSlot = async (req, res) => {
+    try {
+        const slot = await consultationService.createSlot(req.user.user_id, req.body);
+
+        res.status(201).json({
+            message: 'Availability slot created successfully',
+            slot
+        });
+    } catch (error) {
+        console.error('Create availability slot error:', error);
+        sendError(res, error, 'Server error creating availability slot');
+    }
+};
+
+/**
+ * Withdraw an availability slot that has not been booked
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.deleteSlot = async (req, res) => {
+    try {
+        await consultationService.deleteSlot(req.params.slotId);
+
+        res.json({ message: 'Availability slot deleted successfully' });
+    } catch (error) {
+        console.error('Delete availability slot error:', error);
+        sendError(res, error, 'Server error deleting availability slot');
+    }
+};
+
+/**
+ * Get consultations (managers see all consultations, clients their own)
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getConsultations = async (req, res) => {
+    try {
+        const consultations = await consultationService.getConsultations(req.user, {
+            status: req.query.status,
+            researcherId: req.query.researcher_id,
+            projectId: req.query.project_id,
+            from: req.query.from ? new Date(req.query.from) : undefined,
+            to: req.query.to ? new Date(req.query.to) : undefined
+        });
+
+        res.json({ consultations });
+    } catch (error) {
+        console.error('Get consultations error:', error);
+        sendError(res, error, 'Server error retrieving consultations');
+    }
+};
+
+/**
+ * Get a consultation
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getConsultationById = async (req, res) => {
+    try {
+        const consultation = await consultationService.getConsultationForUser(req.params.consultationId, req.user);
+
+        res.json(consultation);
+    } catch (error) {
+        console.error('Get consultation error:', error);
+        sendError(res, error, 'Server error retrieving consultation');
+    }
+};
+
+/**
+ * Book a consultation about one of the client's projects
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.bookConsultation = async (req, res) => {
+    try {
+        const consultation = await consultationService.bookConsultation(req.user, req.body);
+
+        await notifyParticipants(
+            consultation,
+            req.user.user_id,
+            'consultation_booked',
+            `Consultation "${consultation.topic}" booked for ${consultationService.formatSessionTime(consultation.starts_at)}` +
+            ` with ${consultation.researcher.first_name} ${consultation.researcher.last_name}`
+        );
+
+        res.status(201).json({
+            message: 'Consultation booked successfully',
+            consultation
+        });
+    } catch (error) {
+        console.error('Book consultation error:', error);
+        sendError(res, error, 'Server error booking consultation');
+    }
+};
+
+/**
+ * Move a consultation to another availability slot
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.rescheduleConsultation = async (req, res) => {
+    try {
+        const { consultation, previousStartsAt } = await consultationService.rescheduleConsultation(
+            req.params.consultationId,
+            req.user,
+            req.body.slot_id
+        );
+
+        await notifyParticipants(
+            consultation,
+            req.user.user_id,
+            'consultation_rescheduled',
+            `Consultation "${consultation.topic}" moved from ${consultationService.formatSessionTime(previousStartsAt)}` +
+            ` to ${consultationService.formatSessionTime(consultation.starts_at)}`
+        );
+
+        res.json({
+            message: 'Consultation rescheduled successfully',
+            consultation
+        });
+    } catch (error) {
+        console.error('Reschedule consultation error:', error);
+        sendError(res, error, 'Server error rescheduling consultation');
+    }
+};
+
+/**
+ * Cancel a consultation
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.cancelConsultation = async (req, res) => {
+    try {
+        const consultation = await consultationService.cancelConsultation(
+            req.params.consultationId,
+            req.user,
+            req.body.reason
+        );
+
+        await notifyParticipants(
+            consultation,
+            req.user.user_id,
+            'consultation_canceled',
+            `Consultation "${consultation.topic}" on ${consultationService.formatSessionTime(consultation.starts_at)} was canceled` +
+            (consultation.cancellation_reason ? `: ${consultation.cancellation_reason}` : '')
+        );
+
+        res.json({
+            message: 'Consultation canceled successfully',
+            consultation
+        });
+    } catch (error) {
+        console.error('Cancel consultation error:', error);
+        sendError(res, error, 'Server error canceling consultation');
+    }
+};
+
+/**
+ * Record that a consultation took place
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.completeConsultation = async (req, res) => {
+    try {
+        const consultation = await consultationService.completeConsultation(req.params.consultationId, req.user);
+
+        await notifyParticipants(
+            consultation,
+            req.user.user_id,
+            'consultation_completed',
+            `Consultation "${consultation.topic}" on ${consultationService.formatSessionTime(consultation.starts_at)} was completed`
+        );
+
+        res.json({
+            message: 'Consultation marked as completed',
+            consultation
+        });
+    } catch (error) {
+        console.error('Complete consultation error:', error);
+        sendError(res, error, 'Server error completing consultation');
+    }
+};
+
+/**
+ * Download a consultation as an iCalendar file
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.downloadCalendar = async (req, res) => {
+    try {
+        const { consultation, content } = await consultationService.getConsultationCalendar(req.params.consultationId, req.user);
+
+        const date = new Date(consultation.starts_at).toISOString().split('T')[0];
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="consultation-${date}.ics"`);
+        res.send(content);
+    } catch (error) {
+        console.error('Download consultation calendar error:', error);
+        sendError(res, error, 'Server error creating calendar file');
+    }
+};
+
+/**
+ * Get the URL of the current user's calendar feed
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getCalendarFeedUrl = async (req, res) => {
+    try {
+        const token = consultationService.getFeedToken(req.user.user_id);
+
+        res.json({
+            url: `${req.protocol}://${req.get('host')}${req.baseUrl}/feed/${req.user.user_id}/${token}.ics`
+        });
+    } catch (error) {
+        console.error('Get calendar feed URL error:', error);
+        sendError(res, error, 'Server error retrieving calendar feed');
+    }
+};
+
+/**
+ * Subscribable calendar feed of a user's consultations
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getCalendarFeed = async (req, res) => {
+    try {
+        const content = await consultationService.getCalendarFeed(req.params.userId, req.params.token);
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Cache-Control', 'private, max-age=300');
+        res.send(content);
+    } catch (error) {
+        console.error('Get calendar feed error:', error);
+
+        // A wrong token looks the same as a feed that does not exist
+        if (error.message.includes('Invalid calendar feed token')) {
+            return res.status(404).json({ message: 'Calendar feed not found' });
+        }
+
+        sendError(res, error, 'Server error retrieving calendar feed');
+    }
+};
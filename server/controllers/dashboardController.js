@@ -92,7 +92,7 @@ exports.getUserEvents = async (req, res) => {
         const userId = req.user.user_id;
         
         const userEvents = await UserEvent.findAll({
-            where: { user_id: userId },
+            where: { user_id: userId, archived_at: null },
             order: [['created_at', 'DESC']],
             include: [{
                 model: User,
@@ -1,7 +1,9 @@
 const documentService = require('../services/documentService');
 const UserEventService = require('../services/userEventService');
+const ocrService = require('../services/ocrService');
 const { Project, ProjectUser } = require('../models');
 const ProjectUtils = require('../utils/projectUtils');
+const { UPLOADS_DIR, resolveUploadPath } = require('../utils/uploads');
 const path = require('path');
 const fs = require('fs');
 
@@ -10,6 +12,14 @@ const fs = require('fs');
  * Handles HTTP requests for Document entities
  */
 
+const PRIVATE_DOCUMENT_MESSAGE = 'This document concerns a person who may still be alive';
+
+// Leave out the documents about persons redacted for the user, such as those who may still be alive
+const withoutRedactedDocuments = async (user, documents) => {
+    const redactedIds = await documentService.getRedactedDocumentIds(user, documents.map(document => document.document_id));
+    return documents.filter(document => !redactedIds.has(document.document_id));
+};
+
 /**
  * Get all documents with pagination, filtering, and search
  * 
@@ -18,8 +28,10 @@ const fs = require('fs');
  */
 exports.getDocuments = async (req, res) => {
     try {
-        const result = await documentService.getDocuments(req.query);
-        res.json(result);
+        // Clients only see records from their own projects
+        const projectIds = await ProjectUtils.getAccessibleProjectIds(req.user);
+        const result = await documentService.getDocuments({ ...req.query, projectIds: projectIds || undefined });
+        res.json({ ...result, documents: await withoutRedactedDocuments(req.user, result.documents) });
     } catch (error) {
         console.error('Get documents error:', error);
         res.status(500).json({
@@ -48,6 +60,11 @@ exports.getDocumentById = async (req, res) => {
             return res.status(404).json({ message: 'Document not found' });
         }
 
+        const redactedIds = await documentService.getRedactedDocumentIds(req.user, [documentId]);
+        if (redactedIds.has(documentId)) {
+            return res.status(403).json({ message: PRIVATE_DOCUMENT_MESSAGE });
+        }
+
         res.json(document);
     } catch (error) {
         console.error('Get document error:', error);
@@ -66,7 +83,7 @@ exports.getDocumentById = async (req, res) => {
  */
 exports.createDocument = async (req, res) => {
     try {
-        const document = await documentService.createDocument(req.body);
+        const document = await documentService.createDocument(req.body, null, { userId: req.user.user_id });
 
         // Create user events for document creation for all associated projects
         const projectIds = await ProjectUtils.getProjectIdsForEntity('document', document.document_id);
@@ -112,7 +129,7 @@ exports.createDocument = async (req, res) => {
 exports.updateDocument = async (req, res) => {
     try {
         const { documentId } = req.params;
-        const document = await documentService.updateDocument(documentId, req.body);
+        const document = await documentService.updateDocument(documentId, req.body, { userId: req.user.user_id });
 
         // Create user events for document update for all associated projects
         const projectIds = await ProjectUtils.getProjectIdsForEntity('document', documentId);
@@ -179,7 +196,7 @@ exports.deleteDocument = async (req, res) => {
         const projectIds = await ProjectUtils.getProjectIdsForEntity('document', documentId);
 
         // Delete the document
-        await documentService.deleteDocument(documentId);
+        await documentService.deleteDocument(documentId, { userId: req.user.user_id });
 
         // Create user events for document deletion for all associated projects
         if (projectIds.length > 0) {
@@ -223,7 +240,7 @@ exports.getDocumentsByPersonId = async (req, res) => {
         const { personId } = req.params;
         const documents = await documentService.getDocumentsByPersonId(personId);
 
-        res.json(documents);
+        res.json(await withoutRedactedDocuments(req.user, documents));
     } catch (error) {
         console.error('Get documents by person error:', error);
 
@@ -312,7 +329,7 @@ exports.getProjectDocuments = async (req, res) => {
 
         const documents = await documentService.getDocumentsByProjectId(id, options);
 
-        res.json(documents);
+        res.json(await withoutRedactedDocuments(req.user, documents));
     } catch (error) {
         console.error('Get project documents error:', error);
 
@@ -367,7 +384,7 @@ exports.associateDocumentWithPerson = async (req, res) => {
                     projectIds, // Pass the array
                     req.user.user_id,
                     'document_associated',
-                    `Document "${docForEvent.title}" associated with ${personForEvent.first_name} ${personForEvent.last_name} in project`,
+                    name => `Document "${docForEvent.title}" associated with ${name(personForEvent)} in project`,
                     documentId, // entity_id is the document's ID
                     'document' // entity_type is 'document'
                 );
@@ -503,7 +520,7 @@ exports.removeDocumentPersonAssociation = async (req, res) => {
                 projectIds, // Pass the array
                 req.user.user_id,
                 'document_removed',
-                `Document "${docForEvent.title}" unassociated from ${personForEvent.first_name} ${personForEvent.last_name} in project`,
+                name => `Document "${docForEvent.title}" unassociated from ${name(personForEvent)} in project`,
                 documentId, // entity_id is the document's ID
                 'document' // entity_type is 'document'
             );
@@ -580,17 +597,21 @@ exports.getDocumentFile = async (req, res) => {
             return res.status(404).json({ message: 'Document not found' });
         }
 
+        const redactedIds = await documentService.getRedactedDocumentIds(req.user, [documentId]);
+        if (redactedIds.has(documentId)) {
+            return res.status(403).json({ message: PRIVATE_DOCUMENT_MESSAGE });
+        }
+
         // Ensure uploads directory exists
-        const uploadsDir = path.join(__dirname, '../uploads');
-        if (!fs.existsSync(uploadsDir)) {
-            fs.mkdirSync(uploadsDir, { recursive: true });
+        if (!fs.existsSync(UPLOADS_DIR)) {
+            fs.mkdirSync(UPLOADS_DIR, { recursive: true });
         }
 
-        // Construct file path
-        const filePath = path.join(uploadsDir, document.file_path);
+        // Construct file path; paths leading outside the uploads directory are never served
+        const filePath = resolveUploadPath(document.file_path);
 
         // Check if file exists
-        if (!fs.existsSync(filePath)) {
+        if (!filePath || !fs.existsSync(filePath)) {
             return res.status(404).json({ message: 'File not found on server' });
         }
 
@@ -656,3 +677,40 @@ exports.uploadDocumentFile = async (req, res) => {
         });
     }
 };
+
+/**
+ * Read the text of a document again
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.recognizeDocument = async (req, res) => {
+    try {
+        const { documentId } = req.params;
+        const document = await ocrService.requestRecognition(documentId);
+
+        res.status(202).json({
+            message: 'Document queued for text recognition',
+            document
+        });
+    } catch (error) {
+        console.error('Recognize document error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('can only be read')) {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error queueing document for text recognition',
+            error: error.message
+        });
+    }
+};
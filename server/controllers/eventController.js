@@ -1,4 +1,5 @@
 const eventService = require('../services/eventService');
+const personService = require('../services/personService');
 const UserEventService = require('../services/userEventService');
 const { Person } = require('../models');
 const ProjectUtils = require('../utils/projectUtils');
@@ -8,6 +9,18 @@ const ProjectUtils = require('../utils/projectUtils');
  * Handles HTTP requests for Event entities
  */
 
+const PRIVATE_EVENT_MESSAGE = 'This event concerns a person who may still be alive';
+
+// Leave out the events of persons redacted for the user, such as those who may still be alive.
+// Timeline entries made from a person's own dates have no event ID and are kept.
+const withoutRedactedEvents = async (user, events) => {
+    const redactedIds = await eventService.getRedactedEventIds(user, events.map(event => event.event_id).filter(Boolean));
+    return events.filter(event => !redactedIds.has(event.event_id));
+};
+
+// Check whether a person is redacted for the user, so none of their events are shown
+const isRedactedFor = async (user, personId) => (await personService.getRedactedPersonIds(user, [personId])).has(personId);
+
 /**
  * Get all events with pagination, filtering, and search
  *
@@ -16,8 +29,10 @@ const ProjectUtils = require('../utils/projectUtils');
  */
 exports.getEvents = async (req, res) => {
     try {
-        const result = await eventService.getEvents(req.query);
-        res.json(result);
+        // Clients only see records from their own projects
+        const projectIds = await ProjectUtils.getAccessibleProjectIds(req.user);
+        const result = await eventService.getEvents({ ...req.query, projectIds: projectIds || undefined });
+        res.json({ ...result, events: await withoutRedactedEvents(req.user, result.events) });
     } catch (error) {
         console.error('Get events error:', error);
         res.status(500).json({
@@ -46,6 +61,11 @@ exports.getEventById = async (req, res) => {
             return res.status(404).json({ message: 'Event not found' });
         }
 
+        const redactedIds = await eventService.getRedactedEventIds(req.user, [eventId]);
+        if (redactedIds.has(eventId)) {
+            return res.status(403).json({ message: PRIVATE_EVENT_MESSAGE });
+        }
+
         res.json(event);
     } catch (error) {
         console.error('Get event error:', error);
@@ -64,14 +84,14 @@ exports.getEventById = async (req, res) => {
  */
 exports.createEvent = async (req, res) => {
     try {
-        const event = await eventService.createEvent(req.body);
+        const event = await eventService.createEvent(req.body, null, { userId: req.user.user_id });
 
         // Trigger user event for event creation
         if (event.dataValues.person_id) {
             const person = await Person.findByPk(event.dataValues.person_id);
             const projectIds = await ProjectUtils.getProjectIdsForEntity('person', event.dataValues.person_id);
             if (projectIds.length > 0) {
-                const message = `New event "${event.event_type}" created for ${person.first_name} ${person.last_name}`;
+                const message = name => `New event "${event.event_type}" created for ${name(person)}`;
                 await UserEventService.createEventForProjectUsers(
                     projectIds, // Pass the array
                     req.user.user_id,
@@ -128,7 +148,7 @@ exports.createEvent = async (req, res) => {
 exports.updateEvent = async (req, res) => {
     try {
         const { eventId } = req.params;
-        const event = await eventService.updateEvent(eventId, req.body);
+        const event = await eventService.updateEvent(eventId, req.body, null, { userId: req.user.user_id });
 
         // Trigger user event for event update
         if (event.dataValues.person_id) {
@@ -136,7 +156,7 @@ exports.updateEvent = async (req, res) => {
             if (person) {
                 const projectIds = await ProjectUtils.getProjectIdsForEntity('person', event.dataValues.person_id);
                 if (projectIds.length > 0) {
-                    const message = `Event "${event.event_type}" for ${person.first_name} ${person.last_name} has been updated`;
+                    const message = name => `Event "${event.event_type}" for ${name(person)} has been updated`;
                     await UserEventService.createEventForProjectUsers(
                         projectIds, // Pass the array
                         req.user.user_id,
@@ -211,14 +231,12 @@ exports.deleteEvent = async (req, res) => {
             projectIds.push(req.query.projectId);
         }
 
-        await eventService.deleteEvent(eventId);
+        await eventService.deleteEvent(eventId, null, { userId: req.user.user_id });
 
         // Trigger user event for event deletion for all associated projects
         if (eventToDelete) {
-            const personName = (eventToDelete.persons && eventToDelete.persons.length > 0) ?
-                `${eventToDelete.persons[0].first_name} ${eventToDelete.persons[0].last_name}` : '';
             const message = (eventToDelete.persons && eventToDelete.persons.length > 0) ?
-                `Event "${eventToDelete.event_type}" for ${personName} has been deleted` :
+                name => `Event "${eventToDelete.event_type}" for ${name(eventToDelete.persons[0])} has been deleted` :
                 `Event "${eventToDelete.event_type}" has been deleted`;
 
             if (projectIds.length > 0) {
@@ -263,7 +281,7 @@ exports.getEventsByPersonId = async (req, res) => {
         const { personId } = req.params;
         const events = await eventService.getEventsByPersonId(personId);
 
-        res.json(events);
+        res.json(await isRedactedFor(req.user, personId) ? [] : await withoutRedactedEvents(req.user, events));
     } catch (error) {
         console.error('Get events by person error:', error);
 
@@ -371,7 +389,7 @@ exports.getPersonTimeline = async (req, res) => {
         const { personId } = req.params;
         const timeline = await eventService.getPersonTimeline(personId);
 
-        res.json(timeline);
+        res.json(await isRedactedFor(req.user, personId) ? [] : await withoutRedactedEvents(req.user, timeline));
     } catch (error) {
         console.error('Get person timeline error:', error);
 
@@ -0,0 +1,106 @@
+const historyService = require('../services/historyService');
+const personService = require('../services/personService');
+const eventService = require('../services/eventService');
+const relationshipService = require('../services/relationshipService');
+const documentService = require('../services/documentService');
+const UserEventService = require('../services/userEventService');
+const ProjectUtils = require('../utils/projectUtils');
+
+// How a reverted record is named in notifications; persons are named through name(), which gives
+// "Living" to recipients they are redacted for
+const describeRecord = {
+    person: (person, name) => `Family member information reverted: ${name(person)}`,
+    event: (event) => `Event "${event.event_type}" reverted`,
+    relationship: (relationship) => `Relationship "${relationship.relationship_type}" reverted`,
+    document: (document) => `Document "${document.title}" reverted`
+};
+
+// Whether a record concerns a person redacted for the user, such as someone who may still be alive
+const isRedactedRecord = {
+    person: async (user, id) => (await personService.getRedactedPersonIds(user, [id])).has(id),
+    event: async (user, id) => (await eventService.getRedactedEventIds(user, [id])).has(id),
+    relationship: async (user, id) => (await relationshipService.getRedactedRelationshipIds(user, [id])).has(id),
+    document: async (user, id) => (await documentService.getRedactedDocumentIds(user, [id])).has(id)
+};
+
+/**
+ * Get the edit history of a person, event, relationship or document
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getHistory = async (req, res) => {
+    try {
+        const { entityType, entityId } = req.params;
+        const history = await historyService.getHistory(entityType, entityId, req.query);
+
+        // Earlier versions show everything the record held, so none are shown for redacted records
+        if (await isRedactedRecord[entityType](req.user, entityId)) {
+            return res.json({ versions: [], metadata: { ...history.metadata, totalCount: 0, totalPages: 0 } });
+        }
+
+        res.json(history);
+    } catch (error) {
+        console.error('Get history error:', error);
+        res.status(500).json({
+            message: 'Server error retrieving edit history',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Revert a person, event, relationship or document to an earlier version
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.revertToVersion = async (req, res) => {
+    try {
+        const { entityType, entityId, versionNumber } = req.params;
+
+        const record = await historyService.revertToVersion(
+            entityType,
+            entityId,
+            parseInt(versionNumber, 10),
+            req.user.user_id
+        );
+
+        const projectIds = await ProjectUtils.getProjectIdsForEntity(entityType, entityId);
+        if (projectIds.length > 0) {
+            await UserEventService.createEventForProjectUsers(
+                projectIds,
+                req.user.user_id,
+                `${entityType}_updated`,
+                name => `${describeRecord[entityType](record, name)} to version ${versionNumber}`,
+                entityId,
+                entityType
+            );
+        }
+
+        res.json({
+            message: `Reverted to version ${versionNumber}`,
+            [entityType]: record
+        });
+    } catch (error) {
+        console.error('Revert to version error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('already matches') || error.message.includes('validation failed') ||
+            error.message.includes('does not match')) {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error reverting to version',
+            error: error.message
+        });
+    }
+};
@@ -1,5 +1,6 @@
 const { User, Role, Project, UserEvent, ProjectUser } = require('../models'); // Added ProjectUser
 const UserEventService = require('../services/userEventService');
+const researchLogService = require('../services/researchLogService');
 const { Op, Sequelize } = require('sequelize');
 
 // Get dashboard summary for managers
@@ -89,8 +90,8 @@ exports.getDashboardSummary = async (req, res) => {
             actor: event.actor ? `${event.actor.first_name} ${event.actor.last_name}` : 'System'
         }));
 
-        // For now, return empty pending tasks (to be implemented later)
-        const pendingTasks = [];
+        // Unfinished research tasks of the projects still being worked on
+        const pendingTasks = await researchLogService.getPendingTasks();
 
         res.status(200).json({
             activeClients,
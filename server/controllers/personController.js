@@ -1,13 +1,65 @@
 const personService = require('../services/personService');
+const documentService = require('../services/documentService');
+const duplicateService = require('../services/duplicateService');
 const UserEventService = require('../services/userEventService');
 const { Project } = require('../models');
 const ProjectUtils = require('../utils/projectUtils');
+const {
+    redactPersonRecord,
+    redactPersons,
+    redactRelationship,
+    redactPedigree,
+    getPedigreePersonIds
+} = require('../utils/privacy');
 
 /**
  * Person Controller
  * Handles HTTP requests for Person entities
+ *
+ * Users with only view access see private persons, such as those who may still be alive, as "Living"
+ * placeholders, without their events, other names or documents.
  */
 
+/**
+ * Redact a person and the relatives and documents included with them for a user
+ *
+ * @param {Object} user - The authenticated user
+ * @param {Object} person - Person, optionally with relationships and documents
+ * @returns {Promise<Object>} Plain person record
+ */
+const redactPersonForUser = async (user, person) => {
+    const data = typeof person.toJSON === 'function' ? person.toJSON() : person;
+    const relationships = [...(data.relationshipsAsSubject || []), ...(data.relationshipsAsObject || [])];
+    const privateIds = await personService.getRedactedPersonIds(user, [
+        data.person_id,
+        ...relationships.flatMap(rel => [rel.person1_id, rel.person2_id])
+    ]);
+
+    if (privateIds.has(data.person_id)) {
+        return redactPersonRecord(data);
+    }
+
+    const redacted = { ...data };
+    ['relationshipsAsSubject', 'relationshipsAsObject'].forEach(key => {
+        if (data[key]) redacted[key] = data[key].map(rel => redactRelationship(rel, privateIds));
+    });
+    if (data.documents) {
+        const documentIds = await documentService.getRedactedDocumentIds(user, data.documents.map(document => document.document_id));
+        redacted.documents = data.documents.filter(document => !documentIds.has(document.document_id));
+    }
+
+    return redacted;
+};
+
+/**
+ * Check whether a person is redacted for a user
+ *
+ * @param {Object} user - The authenticated user
+ * @param {String} personId - Person ID
+ * @returns {Promise<Boolean>} True when the user only sees a placeholder
+ */
+const isRedactedFor = async (user, personId) => (await personService.getRedactedPersonIds(user, [personId])).has(personId);
+
 /**
  * Get all persons with pagination, filtering, and search
  * 
@@ -16,8 +68,11 @@ const ProjectUtils = require('../utils/projectUtils');
  */
 exports.getPersons = async (req, res) => {
     try {
-        const result = await personService.getPersons(req.query);
-        res.json(result);
+        // Clients only see records from their own projects
+        const projectIds = await ProjectUtils.getAccessibleProjectIds(req.user);
+        const result = await personService.getPersons({ ...req.query, projectIds: projectIds || undefined });
+        const privateIds = await personService.getRedactedPersonIds(req.user, result.persons.map(person => person.person_id));
+        res.json({ ...result, persons: redactPersons(result.persons, privateIds) });
     } catch (error) {
         console.error('Get persons error:', error);
         res.status(500).json({
@@ -27,6 +82,32 @@ exports.getPersons = async (req, res) => {
     }
 };
 
+/**
+ * Search persons by name, across their other names and names that sound alike
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.searchPersons = async (req, res) => {
+    try {
+        const projectIds = await ProjectUtils.getAccessibleProjectIds(req.user);
+        const persons = await personService.findByName(req.query.q, {
+            projectIds: projectIds || undefined,
+            limit: req.query.limit ? parseInt(req.query.limit, 10) : undefined
+        });
+
+        // A placeholder found by name would give the name away, so redacted persons are left out
+        const privateIds = await personService.getRedactedPersonIds(req.user, persons.map(person => person.person_id));
+        res.json(persons.filter(person => !privateIds.has(person.person_id)));
+    } catch (error) {
+        console.error('Search persons error:', error);
+        res.status(500).json({
+            message: 'Server error searching persons',
+            error: error.message
+        });
+    }
+};
+
 /**
  * Get a person by ID with optional related data
  * 
@@ -39,7 +120,8 @@ exports.getPersonById = async (req, res) => {
         const options = {
             includeEvents: req.query.includeEvents === 'true',
             includeRelationships: req.query.includeRelationships === 'true',
-            includeDocuments: req.query.includeDocuments === 'true'
+            includeDocuments: req.query.includeDocuments === 'true',
+            includeNames: req.query.includeNames === 'true'
         };
 
         const person = await personService.getPersonById(personId, options);
@@ -48,7 +130,7 @@ exports.getPersonById = async (req, res) => {
             return res.status(404).json({ message: 'Person not found' });
         }
 
-        res.json(person);
+        res.json(await redactPersonForUser(req.user, person));
     } catch (error) {
         console.error('Get person error:', error);
         res.status(500).json({
@@ -70,7 +152,7 @@ exports.createPerson = async (req, res) => {
         const { events, ...personData } = req.body;
 
         // Pass events to personService
-        const person = await personService.createPerson(personData, events);
+        const person = await personService.createPerson(personData, events, null, { userId: req.user.user_id });
         console.log('Created person:', person);
 
         // Removed project-level person_created event as it's not reliably tied to a project at creation.
@@ -102,7 +184,7 @@ exports.updatePerson = async (req, res) => {
         const { events, deletedEventIds, ...personData } = req.body;
 
         // Pass events and deletedEventIds to personService
-        const person = await personService.updatePerson(personId, personData, events, deletedEventIds);
+        const person = await personService.updatePerson(personId, personData, events, deletedEventIds, { userId: req.user.user_id });
 
         // Create user events for person update
         const projectIds = await ProjectUtils.getProjectIdsForEntity('person', personId);
@@ -111,7 +193,7 @@ exports.updatePerson = async (req, res) => {
                 projectIds, // Pass the array
                 req.user.user_id,
                 'person_updated',
-                `Family member information updated: ${person.first_name} ${person.last_name}`,
+                name => `Family member information updated: ${name(person)}`,
                 personId, // entity_id is the person's ID
                 'person' // entity_type is 'person'
             );
@@ -154,14 +236,11 @@ exports.deletePerson = async (req, res) => {
             return res.status(404).json({ message: 'Person not found' });
         }
 
-        // Store person info for events
-        const personName = `${person.first_name} ${person.last_name}`;
-
         // Get project IDs before deleting the person, as associations will be removed
         const projectIds = await ProjectUtils.getProjectIdsForEntity('person', personId);
 
         // Delete the person
-        await personService.deletePerson(personId);
+        await personService.deletePerson(personId, { userId: req.user.user_id });
 
         // Create user events for person deletion for all associated projects
         if (projectIds.length > 0) {
@@ -169,7 +248,7 @@ exports.deletePerson = async (req, res) => {
                 projectIds, // Pass the array
                 req.user.user_id,
                 'person_deleted',
-                `Family member removed: ${personName}`,
+                name => `Family member removed: ${name(person)}`,
                 personId, // entity_id is the person's ID
                 'person' // entity_type is 'person'
             );
@@ -209,7 +288,7 @@ exports.getPersonEvents = async (req, res) => {
             return res.status(404).json({ message: 'Person not found' });
         }
 
-        res.json(person.events || []);
+        res.json(await isRedactedFor(req.user, personId) ? [] : person.events || []);
     } catch (error) {
         console.error('Get person events error:', error);
         res.status(500).json({
@@ -229,8 +308,14 @@ exports.getPersonRelationships = async (req, res) => {
     try {
         const { personId } = req.params;
         const familyMembers = await personService.getFamilyMembers(personId);
-
-        res.json(familyMembers);
+        const privateIds = await personService.getRedactedPersonIds(req.user, [
+            personId,
+            ...Object.values(familyMembers).flat().map(member => member.person_id)
+        ]);
+
+        res.json(privateIds.has(personId)
+            ? Object.fromEntries(Object.keys(familyMembers).map(key => [key, []]))
+            : Object.fromEntries(Object.entries(familyMembers).map(([key, members]) => [key, redactPersons(members, privateIds)])));
     } catch (error) {
         console.error('Get person relationships error:', error);
 
@@ -262,7 +347,13 @@ exports.getPersonDocuments = async (req, res) => {
             return res.status(404).json({ message: 'Person not found' });
         }
 
-        res.json(person.documents || []);
+        if (await isRedactedFor(req.user, personId)) {
+            return res.json([]);
+        }
+
+        const documents = person.documents || [];
+        const redactedIds = await documentService.getRedactedDocumentIds(req.user, documents.map(document => document.document_id));
+        res.json(documents.filter(document => !redactedIds.has(document.document_id)));
     } catch (error) {
         console.error('Get person documents error:', error);
         res.status(500).json({
@@ -313,7 +404,7 @@ exports.addPersonToProject = async (req, res) => {
             [projectId], // Still an array, but with one project
             req.user.user_id,
             'person_added_to_project',
-            `Added ${person.first_name} ${person.last_name} to project: ${project.title}`,
+            name => `Added ${name(person)} to project: ${project.title}`,
             person_id, // entity_id is the person's ID
             'person' // entity_type is 'person'
         );
@@ -349,10 +440,12 @@ exports.getPersonAncestors = async (req, res) => {
     try {
         const { personId } = req.params;
         const generations = parseInt(req.query.generations, 10) || 3;
+        const format = req.query.format || 'nested';
 
-        const ancestors = await personService.getAncestors(personId, generations);
+        const ancestors = await personService.getAncestors(personId, { generations, format });
+        const privateIds = await personService.getRedactedPersonIds(req.user, getPedigreePersonIds(ancestors));
 
-        res.json(ancestors);
+        res.json(redactPedigree(ancestors, privateIds));
     } catch (error) {
         console.error('Get person ancestors error:', error);
 
@@ -379,10 +472,12 @@ exports.getPersonDescendants = async (req, res) => {
     try {
         const { personId } = req.params;
         const generations = parseInt(req.query.generations, 10) || 3;
+        const format = req.query.format || 'nested';
 
-        const descendants = await personService.getDescendants(personId, generations);
+        const descendants = await personService.getDescendants(personId, { generations, format });
+        const privateIds = await personService.getRedactedPersonIds(req.user, getPedigreePersonIds(descendants));
 
-        res.json(descendants);
+        res.json(redactPedigree(descendants, privateIds));
     } catch (error) {
         console.error('Get person descendants error:', error);
 
@@ -398,3 +493,319 @@ exports.getPersonDescendants = async (req, res) => {
         });
     }
 };
+
+/**
+ * Find likely duplicate persons within a project
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getProjectDuplicates = async (req, res) => {
+    try {
+        const { project_id: projectId, min_score: minScore } = req.query;
+
+        const duplicates = await duplicateService.findDuplicatesInProject(projectId, {
+            minScore: minScore !== undefined ? parseInt(minScore, 10) : undefined
+        });
+
+        res.json(duplicates);
+    } catch (error) {
+        console.error('Get project duplicates error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error finding duplicate persons',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Find likely duplicates of a person
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getPersonDuplicates = async (req, res) => {
+    try {
+        const { personId } = req.params;
+        const { min_score: minScore } = req.query;
+
+        const duplicates = await duplicateService.findDuplicatesForPerson(personId, {
+            minScore: minScore !== undefined ? parseInt(minScore, 10) : undefined
+        });
+
+        res.json(duplicates);
+    } catch (error) {
+        console.error('Get person duplicates error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error finding duplicate persons',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Merge a duplicate person into a person
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.mergePerson = async (req, res) => {
+    try {
+        const { personId } = req.params;
+        const { duplicate_person_id: duplicateId, field_choices: fieldChoices } = req.body;
+
+        // Both persons' projects are notified; the duplicate's links are gone after the merge
+        const projectIds = [...new Set([
+            ...await ProjectUtils.getProjectIdsForEntity('person', personId),
+            ...await ProjectUtils.getProjectIdsForEntity('person', duplicateId)
+        ])];
+
+        const { person, merge } = await duplicateService.mergePersons(
+            personId,
+            duplicateId,
+            fieldChoices,
+            req.user.user_id
+        );
+
+        if (projectIds.length > 0) {
+            const duplicate = merge.merged_person_data;
+            await UserEventService.createEventForProjectUsers(
+                projectIds,
+                req.user.user_id,
+                'person_merged',
+                name => `Duplicate records merged: ${name(duplicate)} into ${name(person)}`,
+                personId,
+                'person'
+            );
+        }
+
+        res.json({
+            message: 'Persons merged successfully',
+            person,
+            merge
+        });
+    } catch (error) {
+        console.error('Merge person error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('Validation error')) {
+            return res.status(400).json({ message: error.message.replace('Validation error: ', '') });
+        }
+
+        res.status(500).json({
+            message: 'Server error merging persons',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Get the merges into a person
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getPersonMerges = async (req, res) => {
+    try {
+        const { personId } = req.params;
+
+        const merges = await duplicateService.getMergeHistory(personId);
+
+        res.json(merges);
+    } catch (error) {
+        console.error('Get person merges error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving merge history',
+            error: error.message
+        });
+    }
+};
+
+// "Johann Schmidt", for notifications about a person's other names
+const formatOtherName = (personName) => [personName.first_name, personName.middle_name, personName.last_name]
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * Tell the users of a person's projects that the person's other names changed
+ *
+ * @param {Object} req - Express request object
+ * @param {String} personId - Person ID
+ * @param {String} message - What changed, e.g. 'Name "Johann Schmidt" added'
+ */
+const notifyNameChange = async (req, personId, message) => {
+    const projectIds = await ProjectUtils.getProjectIdsForEntity('person', personId);
+    if (projectIds.length === 0) return;
+
+    const person = await personService.getPersonById(personId);
+    await UserEventService.createEventForProjectUsers(
+        projectIds,
+        req.user.user_id,
+        'person_updated',
+        name => `${name(person, message, 'Other names changed')} for ${name(person)}`,
+        personId,
+        'person'
+    );
+};
+
+/**
+ * Get the other names of a person
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getPersonNames = async (req, res) => {
+    try {
+        const names = await personService.getPersonNames(req.params.personId);
+        res.json(await isRedactedFor(req.user, req.params.personId) ? [] : names);
+    } catch (error) {
+        console.error('Get person names error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving person names',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Add another name a person is recorded under
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.addPersonName = async (req, res) => {
+    try {
+        const { personId } = req.params;
+        const personName = await personService.addPersonName(personId, req.body);
+
+        await notifyNameChange(req, personId, `Name "${formatOtherName(personName)}" added`);
+
+        res.status(201).json({
+            message: 'Name added successfully',
+            name: personName
+        });
+    } catch (error) {
+        console.error('Add person name error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.name === 'SequelizeValidationError') {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error adding name',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Update another name of a person
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.updatePersonName = async (req, res) => {
+    try {
+        const { personId, nameId } = req.params;
+        const personName = await personService.updatePersonName(personId, nameId, req.body);
+
+        await notifyNameChange(req, personId, `Name "${formatOtherName(personName)}" updated`);
+
+        res.json({
+            message: 'Name updated successfully',
+            name: personName
+        });
+    } catch (error) {
+        console.error('Update person name error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.name === 'SequelizeValidationError') {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error updating name',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Remove another name of a person
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.deletePersonName = async (req, res) => {
+    try {
+        const { personId, nameId } = req.params;
+        await personService.deletePersonName(personId, nameId);
+
+        await notifyNameChange(req, personId, 'Name removed');
+
+        res.json({
+            message: 'Name removed successfully'
+        });
+    } catch (error) {
+        console.error('Delete person name error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error removing name',
+            error: error.message
+        });
+    }
+};
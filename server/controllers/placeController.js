@@ -0,0 +1,218 @@
+const placeService = require('../services/placeService');
+
+/**
+ * Place Controller
+ * Handles HTTP requests for the place hierarchy and the other names of places
+ */
+
+/**
+ * Send the response for a failed place request
+ *
+ * @param {Object} res - Express response object
+ * @param {Error} error - Error thrown by the service
+ * @param {String} fallbackMessage - Message for unexpected errors
+ */
+const handlePlaceError = (res, error, fallbackMessage) => {
+    if (error.message.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+    }
+
+    if (error.name === 'SequelizeValidationError' ||
+        error.message.includes('cannot lie within')) {
+        return res.status(400).json({ message: error.message });
+    }
+
+    if (error.message.includes('cannot be deleted')) {
+        return res.status(409).json({ message: error.message });
+    }
+
+    res.status(500).json({
+        message: fallbackMessage,
+        error: error.message
+    });
+};
+
+/**
+ * Search places by name
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.searchPlaces = async (req, res) => {
+    try {
+        const { q, type, parentId, limit } = req.query;
+
+        const places = await placeService.searchPlaces(q, {
+            placeType: type,
+            parentId,
+            limit: limit ? parseInt(limit, 10) : undefined
+        });
+
+        res.json(places);
+    } catch (error) {
+        console.error('Search places error:', error);
+        handlePlaceError(res, error, 'Server error searching places');
+    }
+};
+
+/**
+ * Get a place by ID with its other names and the places within it
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getPlaceById = async (req, res) => {
+    try {
+        const { placeId } = req.params;
+        const place = await placeService.getPlaceById(placeId, {
+            includeNames: true,
+            includeChildren: true,
+            date: req.query.date
+        });
+
+        if (!place) {
+            return res.status(404).json({ message: 'Place not found' });
+        }
+
+        res.json(place);
+    } catch (error) {
+        console.error('Get place error:', error);
+        handlePlaceError(res, error, 'Server error retrieving place');
+    }
+};
+
+/**
+ * Create a place
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.createPlace = async (req, res) => {
+    try {
+        const place = await placeService.createPlace(req.body);
+
+        res.status(201).json({
+            message: 'Place created successfully',
+            place
+        });
+    } catch (error) {
+        console.error('Create place error:', error);
+        handlePlaceError(res, error, 'Server error creating place');
+    }
+};
+
+/**
+ * Find a place by its levels from the country down, creating the levels that do not exist yet
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.resolvePlace = async (req, res) => {
+    try {
+        const place = await placeService.resolvePlace(req.body.levels);
+
+        res.json(place);
+    } catch (error) {
+        console.error('Resolve place error:', error);
+        handlePlaceError(res, error, 'Server error finding place');
+    }
+};
+
+/**
+ * Update a place
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.updatePlace = async (req, res) => {
+    try {
+        const { placeId } = req.params;
+        const place = await placeService.updatePlace(placeId, req.body);
+
+        res.json({
+            message: 'Place updated successfully',
+            place
+        });
+    } catch (error) {
+        console.error('Update place error:', error);
+        handlePlaceError(res, error, 'Server error updating place');
+    }
+};
+
+/**
+ * Delete a place
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.deletePlace = async (req, res) => {
+    try {
+        const { placeId } = req.params;
+        await placeService.deletePlace(placeId);
+
+        res.json({ message: 'Place deleted successfully' });
+    } catch (error) {
+        console.error('Delete place error:', error);
+        handlePlaceError(res, error, 'Server error deleting place');
+    }
+};
+
+/**
+ * Add another or historical name to a place
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.addPlaceName = async (req, res) => {
+    try {
+        const { placeId } = req.params;
+        const name = await placeService.addPlaceName(placeId, req.body);
+
+        res.status(201).json({
+            message: 'Place name added successfully',
+            name
+        });
+    } catch (error) {
+        console.error('Add place name error:', error);
+        handlePlaceError(res, error, 'Server error adding place name');
+    }
+};
+
+/**
+ * Update another name of a place
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.updatePlaceName = async (req, res) => {
+    try {
+        const { placeId, placeNameId } = req.params;
+        const name = await placeService.updatePlaceName(placeId, placeNameId, req.body);
+
+        res.json({
+            message: 'Place name updated successfully',
+            name
+        });
+    } catch (error) {
+        console.error('Update place name error:', error);
+        handlePlaceError(res, error, 'Server error updating place name');
+    }
+};
+
+/**
+ * Remove another name of a place
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.deletePlaceName = async (req, res) => {
+    try {
+        const { placeId, placeNameId } = req.params;
+        await placeService.deletePlaceName(placeId, placeNameId);
+
+        res.json({ message: 'Place name removed successfully' });
+    } catch (error) {
+        console.error('Delete place name error:', error);
+        handlePlaceError(res, error, 'Server error removing place name');
+    }
+};
@@ -2,6 +2,11 @@ const { Project, User, Person, Event, Document, DocumentPerson } = require('../m
 const { Sequelize } = require('sequelize');
 const projectService = require('../services/projectService');
 const UserEventService = require('../services/userEventService');
+const gedcomService = require('../services/gedcomService');
+const reportService = require('../services/reportService');
+const migrationMapService = require('../services/migrationMapService');
+const personService = require('../services/personService');
+const { redactPersons, redactRelationship } = require('../utils/privacy');
 
 // Get all projects
 exports.getProjects = async (req, res) => {
@@ -145,6 +150,14 @@ exports.getProjectById = async (req, res) => {
         // Process the project data to match frontend expectations
         const projectJson = project.toJSON();
 
+        // Users with view access see private persons, such as those who may still be alive, as placeholders,
+        // without the events and documents they are part of
+        const privateIds = await personService.getRedactedPersonIds(req.user, (projectJson.persons || []).map(person => person.person_id));
+        const privatePersons = (projectJson.persons || []).filter(person => privateIds.has(person.person_id));
+        const privateDocumentIds = new Set(privatePersons.flatMap(person => (person.documents || []).map(doc => doc.document_id)));
+        const privateEventIds = new Set(privatePersons.flatMap(person => (person.events || []).map(event => event.event_id)));
+        projectJson.persons = redactPersons(projectJson.persons || [], privateIds);
+
         // Collect all documents (both directly associated with project and through persons)
         const documentsMap = new Map(); // Use a map to store unique documents by ID
 
@@ -192,7 +205,7 @@ exports.getProjectById = async (req, res) => {
         }
 
         // Convert the map values back to an array
-        const documents = Array.from(documentsMap.values());
+        const documents = Array.from(documentsMap.values()).filter(doc => !privateDocumentIds.has(doc.id));
 
 
         // Collect all events (both from project and from persons)
@@ -239,7 +252,7 @@ exports.getProjectById = async (req, res) => {
             updated_at: projectJson.updated_at,
             access_level: project.access_level || 'view',
             documents: documents,
-            timeline: timeline
+            timeline: timeline.filter(event => !privateEventIds.has(event.event_id))
         };
 
         res.json(projectWithDates);
@@ -412,8 +425,9 @@ exports.getProjectPersons = async (req, res) => {
         await checkProjectAccess(req, id);
 
         const persons = await projectService.getProjectPersons(id, { sortBy, sortOrder });
+        const privateIds = await personService.getRedactedPersonIds(req.user, persons.map(person => person.person_id));
 
-        res.json(persons);
+        res.json(redactPersons(persons, privateIds));
     } catch (error) {
         console.error('Get project persons error:', error);
 
@@ -452,7 +466,7 @@ exports.addPersonToProject = async (req, res) => {
                 [id], // Pass as an array
                 req.user.user_id,
                 'person_added_to_project',
-                `Added ${person.first_name} ${person.last_name} to project: ${project.title}`, // Improved message
+                name => `Added ${name(person)} to project: ${project.title}`, // Improved message
                 person_id, // entity_id is the person's ID
                 'person' // entity_type is 'person'
             );
@@ -506,7 +520,7 @@ exports.updateProjectPerson = async (req, res) => {
                     [id], // Pass as an array
                     req.user.user_id,
                     'person_updated',
-                    `Notes updated for ${person.first_name} ${person.last_name} in this project`,
+                    name => `Notes updated for ${name(person)} in this project`,
                     personId, // entity_id is the person's ID
                     'person' // entity_type is 'person'
                 );
@@ -548,14 +562,13 @@ exports.removePersonFromProject = async (req, res) => {
         // Get person and project details for the event message before they are fully removed
         const project = await Project.findByPk(id); // Ensure project is fetched
         const person = await Person.findByPk(personId); // Ensure person is fetched
-        const personName = person ? `${person.first_name} ${person.last_name}` : `ID: ${personId}`;
 
         if (project && person) {
             await UserEventService.createEventForProjectUsers(
                 [id], // Pass as an array
                 req.user.user_id,
                 'person_removed_from_project',
-                `Removed ${personName} from project: ${project.title}`, // Improved message
+                name => `Removed ${name(person)} from project: ${project.title}`, // Improved message
                 personId, // entity_id is the person's ID
                 'person' // entity_type is 'person'
             );
@@ -690,8 +703,9 @@ exports.getProjectRelationships = async (req, res) => {
         await checkProjectAccess(req, id);
 
         const relationships = await projectService.getProjectRelationships(id, { sortBy, sortOrder });
+        const privateIds = await personService.getRedactedPersonIds(req.user, relationships.flatMap(rel => [rel.person1_id, rel.person2_id]));
 
-        res.json(relationships);
+        res.json(relationships.map(rel => redactRelationship(rel, privateIds)));
     } catch (error) {
         console.error('Get project relationships error:', error);
 
@@ -710,6 +724,263 @@ exports.getProjectRelationships = async (req, res) => {
     }
 };
 
+// Leave private persons off the migration map, along with their places and the lines to their relatives
+const withoutPrivatePersons = (map, privateIds) => ({
+    persons: map.persons.filter(person => !privateIds.has(person.person_id)),
+    lineages: map.lineages
+        .map(lineage => ({ ...lineage, person_ids: lineage.person_ids.filter(personId => !privateIds.has(personId)) }))
+        .filter(lineage => lineage.person_ids.length > 0),
+    points: map.points.filter(point => !privateIds.has(point.person_id)),
+    links: map.links.filter(link => !privateIds.has(link.parent_id) && !privateIds.has(link.child_id)),
+    unlocated: map.unlocated.filter(entry => !privateIds.has(entry.person_id))
+});
+
+// Get the project's births, marriages, immigrations and deaths placed on a map
+exports.getMigrationMap = async (req, res) => {
+    try {
+        const { id } = req.params;
+
+        // Check if user has access to this project
+        await checkProjectAccess(req, id);
+
+        const map = await migrationMapService.getMigrationMap(id);
+        const privateIds = await personService.getRedactedPersonIds(req.user, map.persons.map(person => person.person_id));
+
+        res.json(privateIds.size > 0 ? withoutPrivatePersons(map, privateIds) : map);
+    } catch (error) {
+        console.error('Get migration map error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({ message: error.message });
+        }
+
+        if (error.message.includes('access')) {
+            return res.status(403).json({ message: error.message });
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving migration map',
+            error: error.message
+        });
+    }
+};
+
+// Preview what a GEDCOM import would create
+exports.previewGedcomImport = async (req, res) => {
+    try {
+        const { id } = req.params;
+
+        // Check if user has edit access to this project
+        await checkProjectEditAccess(req, id);
+
+        // Multipart requests carry no body fields, so the completed check in checkProjectEditAccess does not apply
+        const project = await Project.findByPk(id);
+        if (project.status === 'completed') {
+            return res.status(403).json({ message: 'Completed projects cannot be modified. You can only change the status.' });
+        }
+
+        if (!req.file) {
+            return res.status(400).json({ message: 'No GEDCOM file uploaded' });
+        }
+
+        const preview = gedcomService.previewImport(req.file.buffer.toString('utf8'));
+
+        res.json(preview);
+    } catch (error) {
+        console.error('Preview GEDCOM import error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({ message: error.message });
+        }
+
+        if (error.message.includes('access') || error.message.includes('Completed projects')) {
+            return res.status(403).json({ message: error.message });
+        }
+
+        if (error.message.includes('not a valid GEDCOM')) {
+            return res.status(400).json({ message: error.message });
+        }
+
+        res.status(500).json({
+            message: 'Server error previewing GEDCOM import',
+            error: error.message
+        });
+    }
+};
+
+// Import a GEDCOM file into a project
+exports.importGedcom = async (req, res) => {
+    try {
+        const { id } = req.params;
+
+        // Check if user has edit access to this project
+        await checkProjectEditAccess(req, id);
+
+        // Multipart requests carry no body fields, so the completed check in checkProjectEditAccess does not apply
+        const project = await Project.findByPk(id);
+        if (project.status === 'completed') {
+            return res.status(403).json({ message: 'Completed projects cannot be modified. You can only change the status.' });
+        }
+
+        if (!req.file) {
+            return res.status(400).json({ message: 'No GEDCOM file uploaded' });
+        }
+
+        const result = await gedcomService.importGedcom(id, req.file.buffer.toString('utf8'), req.user.user_id);
+
+        if (result.created.persons > 0) {
+            await UserEventService.createEventForProjectUsers(
+                [id],
+                req.user.user_id,
+                'project_updated',
+                `Imported ${result.created.persons} people from GEDCOM file ${req.file.originalname} into project: ${project.title}`,
+                id,
+                'project'
+            );
+        }
+
+        res.status(201).json({
+            message: 'GEDCOM file imported successfully',
+            ...result
+        });
+    } catch (error) {
+        console.error('Import GEDCOM error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({ message: error.message });
+        }
+
+        if (error.message.includes('access') || error.message.includes('Completed projects')) {
+            return res.status(403).json({ message: error.message });
+        }
+
+        if (error.message.includes('not a valid GEDCOM')) {
+            return res.status(400).json({ message: error.message });
+        }
+
+        res.status(500).json({
+            message: 'Server error importing GEDCOM file',
+            error: error.message
+        });
+    }
+};
+
+// Export a project's family tree as a GEDCOM file
+exports.exportGedcom = async (req, res) => {
+    try {
+        const { id } = req.params;
+
+        // Check if user has access to this project
+        await checkProjectAccess(req, id);
+
+        const { project, content } = await gedcomService.exportProject(id);
+
+        const fileName = `${(project.title || 'project').replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '') || 'project'}.ged`;
+
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        res.send(content);
+    } catch (error) {
+        console.error('Export GEDCOM error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({ message: error.message });
+        }
+
+        if (error.message.includes('access')) {
+            return res.status(403).json({ message: error.message });
+        }
+
+        res.status(500).json({
+            message: 'Server error exporting GEDCOM file',
+            error: error.message
+        });
+    }
+};
+
+// Report options shared by the download and email endpoints
+const getReportOptions = (values) => ({
+    format: values.format,
+    numbering: values.numbering,
+    subjectPersonId: values.subject_person_id,
+    progenitorPersonId: values.progenitor_person_id,
+    generations: values.generations
+});
+
+// Download a project's family history report
+exports.downloadReport = async (req, res) => {
+    try {
+        const { id } = req.params;
+
+        // Check if user has access to this project
+        await checkProjectAccess(req, id);
+
+        const { fileName, contentType, content } = await reportService.generateReport(id, getReportOptions(req.query));
+
+        res.setHeader('Content-Type', contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+        res.send(content);
+    } catch (error) {
+        console.error('Generate report error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({ message: error.message });
+        }
+
+        if (error.message.includes('access')) {
+            return res.status(403).json({ message: error.message });
+        }
+
+        if (error.message.includes('Validation error')) {
+            return res.status(400).json({ message: error.message.replace('Validation error: ', '') });
+        }
+
+        res.status(500).json({
+            message: 'Server error generating report',
+            error: error.message
+        });
+    }
+};
+
+// Email a project's family history report
+exports.emailReport = async (req, res) => {
+    try {
+        const { id } = req.params;
+
+        // Check if user has access to this project
+        await checkProjectAccess(req, id);
+
+        const recipients = await reportService.emailReport(id, req.user, {
+            ...getReportOptions(req.body),
+            message: req.body.message
+        });
+
+        res.status(202).json({
+            message: `Report sent to ${recipients.join(', ')}`,
+            recipients
+        });
+    } catch (error) {
+        console.error('Email report error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({ message: error.message });
+        }
+
+        if (error.message.includes('access')) {
+            return res.status(403).json({ message: error.message });
+        }
+
+        if (error.message.includes('Validation error')) {
+            return res.status(400).json({ message: error.message.replace('Validation error: ', '') });
+        }
+
+        res.status(500).json({
+            message: 'Server error emailing report',
+            error: error.message
+        });
+    }
+};
+
 // Helper function to check if user has edit access to a project
 async function checkProjectEditAccess(req, projectId) {
     // Check if user is a manager
@@ -0,0 +1,21 @@
+const realtimeService = require('../services/realtimeService');
+
+/**
+ * Open a Server-Sent Events stream of the user's notifications and of changes
+ * in the projects they belong to
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.stream = (req, res) => {
+    try {
+        realtimeService.subscribe(req.user, res);
+    } catch (error) {
+        console.error('Open realtime stream error:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ 
+                message: 'Server error opening realtime stream',
+                error: error.message
+            });
+        }
+    }
+};
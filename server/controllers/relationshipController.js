@@ -1,13 +1,55 @@
 const relationshipService = require('../services/relationshipService');
+const personService = require('../services/personService');
 const UserEventService = require('../services/userEventService');
 const { Person, ProjectPerson } = require('../models');
 const ProjectUtils = require('../utils/projectUtils');
+const { redactPersonRecord, redactRelationship } = require('../utils/privacy');
 
 /**
  * Relationship Controller
  * Handles HTTP requests for Relationship entities
  */
 
+// Drop the dates of relationships involving persons redacted for the user, such as those who may
+// still be alive, and redact those persons
+const redactRelationshipsForUser = async (user, relationships) => {
+    const privateIds = await personService.getRedactedPersonIds(user, relationships.flatMap(rel => [rel.person1_id, rel.person2_id]));
+    return relationships.map(rel => redactRelationship(rel, privateIds));
+};
+
+// Redact the persons of a kinship result redacted for the user; hidden persons stay hidden
+const redactKinshipForUser = async (user, kinship) => {
+    const single = ['person1', 'person2', 'through_spouse'].filter(key => kinship[key]);
+    const lists = ['common_ancestors', 'path'].filter(key => Array.isArray(kinship[key]));
+    const persons = [...single.map(key => kinship[key]), ...lists.flatMap(key => kinship[key])];
+    const privateIds = await personService.getRedactedPersonIds(user, persons.map(person => person.person_id));
+
+    const redact = (person) => (privateIds.has(person.person_id) ? redactPersonRecord(person) : person);
+    const redacted = { ...kinship };
+    single.forEach(key => {
+        redacted[key] = redact(kinship[key]);
+    });
+    lists.forEach(key => {
+        redacted[key] = kinship[key].map(redact);
+    });
+
+    return redacted;
+};
+
+// Describe a relationship for notifications; name() renders each person as the recipient may see them
+const describeRelationship = (relationship, person1, person2, name) => {
+    switch (relationship.relationship_type) {
+        case 'parent':
+            return `${name(person1)} as parent of ${name(person2)}`;
+        case 'spouse':
+            return `${name(person1)} and ${name(person2)} as spouses`;
+        case 'sibling':
+            return `${name(person1)} and ${name(person2)} as siblings`;
+        default:
+            return `${name(person1)} and ${name(person2)}`;
+    }
+};
+
 /**
  * Get all relationships with pagination, filtering, and search
  * 
@@ -16,8 +58,10 @@ const ProjectUtils = require('../utils/projectUtils');
  */
 exports.getRelationships = async (req, res) => {
     try {
-        const result = await relationshipService.getRelationships(req.query);
-        res.json(result);
+        // Clients only see records from their own projects
+        const projectIds = await ProjectUtils.getAccessibleProjectIds(req.user);
+        const result = await relationshipService.getRelationships({ ...req.query, projectIds: projectIds || undefined });
+        res.json({ ...result, relationships: await redactRelationshipsForUser(req.user, result.relationships) });
     } catch (error) {
         console.error('Get relationships error:', error);
         res.status(500).json({
@@ -42,7 +86,8 @@ exports.getRelationshipById = async (req, res) => {
             return res.status(404).json({ message: 'Relationship not found' });
         }
 
-        res.json(relationship);
+        const [redacted] = await redactRelationshipsForUser(req.user, [relationship]);
+        res.json(redacted);
     } catch (error) {
         console.error('Get relationship error:', error);
         res.status(500).json({
@@ -60,28 +105,13 @@ exports.getRelationshipById = async (req, res) => {
  */
 exports.createRelationship = async (req, res) => {
     try {
-        const relationship = await relationshipService.createRelationship(req.body);
+        const relationship = await relationshipService.createRelationship(req.body, null, { userId: req.user.user_id });
 
         // Get person details for the event message
         const person1 = await Person.findByPk(relationship.person1_id);
         const person2 = await Person.findByPk(relationship.person2_id);
 
         if (person1 && person2) {
-            // Create a descriptive message based on relationship type
-            let relationshipDescription = '';
-            switch (relationship.relationship_type) {
-                case 'parent':
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} as parent of ${person2.first_name} ${person2.last_name}`;
-                    break;
-                case 'spouse':
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} and ${person2.first_name} ${person2.last_name} as spouses`;
-                    break;
-                case 'sibling':
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} and ${person2.first_name} ${person2.last_name} as siblings`;
-                    break;
-                default:
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} and ${person2.first_name} ${person2.last_name}`;
-            }
 
             // Get unique project IDs associated with both persons
             const projectIds1 = await ProjectUtils.getProjectIdsForEntity('person', person1.person_id);
@@ -94,7 +124,7 @@ exports.createRelationship = async (req, res) => {
                     allProjectIds, // Pass the array
                     req.user.user_id,
                     'relationship_created',
-                    `New relationship created: ${relationshipDescription}`,
+                    name => `New relationship created: ${describeRelationship(relationship, person1, person2, name)}`,
                     relationship.relationship_id, // entity_id is the relationship's ID
                     'relationship' // entity_type is 'relationship'
                 );
@@ -141,28 +171,13 @@ exports.updateRelationship = async (req, res) => {
         }
 
         // Update the relationship
-        const relationship = await relationshipService.updateRelationship(relationshipId, req.body);
+        const relationship = await relationshipService.updateRelationship(relationshipId, req.body, { userId: req.user.user_id });
 
         // Get person details for the event message
         const person1 = await Person.findByPk(relationship.person1_id);
         const person2 = await Person.findByPk(relationship.person2_id);
 
         if (person1 && person2) {
-            // Create a descriptive message based on relationship type
-            let relationshipDescription = '';
-            switch (relationship.relationship_type) {
-                case 'parent':
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} as parent of ${person2.first_name} ${person2.last_name}`;
-                    break;
-                case 'spouse':
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} and ${person2.first_name} ${person2.last_name} as spouses`;
-                    break;
-                case 'sibling':
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} and ${person2.first_name} ${person2.last_name} as siblings`;
-                    break;
-                default:
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} and ${person2.first_name} ${person2.last_name}`;
-            }
 
             // Get unique project IDs associated with both persons
             const projectIds1 = await ProjectUtils.getProjectIdsForEntity('person', person1.person_id);
@@ -175,7 +190,7 @@ exports.updateRelationship = async (req, res) => {
                     allProjectIds, // Pass the array
                     req.user.user_id,
                     'relationship_updated',
-                    `Relationship updated: ${relationshipDescription}`,
+                    name => `Relationship updated: ${describeRelationship(relationship, person1, person2, name)}`,
                     relationship.relationship_id, // entity_id is the relationship's ID
                     'relationship' // entity_type is 'relationship'
                 );
@@ -238,32 +253,17 @@ exports.deleteRelationship = async (req, res) => {
         }
 
         // Delete the relationship
-        await relationshipService.deleteRelationship(relationshipId);
+        await relationshipService.deleteRelationship(relationshipId, { userId: req.user.user_id });
 
         // Create user events after successful deletion for all associated projects
         if (person1 && person2) {
-            // Create a descriptive message based on relationship type
-            let relationshipDescription = '';
-            switch (relationship.relationship_type) {
-                case 'parent':
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} as parent of ${person2.first_name} ${person2.last_name}`;
-                    break;
-                case 'spouse':
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} and ${person2.first_name} ${person2.last_name} as spouses`;
-                    break;
-                case 'sibling':
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} and ${person2.first_name} ${person2.last_name} as siblings`;
-                    break;
-                default:
-                    relationshipDescription = `${person1.first_name} ${person1.last_name} and ${person2.first_name} ${person2.last_name}`;
-            }
 
             if (allProjectIds.length > 0) {
                 await UserEventService.createEventForProjectUsers(
                     allProjectIds, // Pass the array
                     req.user.user_id,
                     'relationship_deleted',
-                    `Relationship deleted: ${relationshipDescription}`,
+                    name => `Relationship deleted: ${describeRelationship(relationship, person1, person2, name)}`,
                     relationshipId, // entity_id is the relationship's ID
                     'relationship' // entity_type is 'relationship'
                 );
@@ -300,7 +300,7 @@ exports.getRelationshipsByPersonId = async (req, res) => {
         const { personId } = req.params;
         const relationships = await relationshipService.getRelationshipsByPersonId(personId);
 
-        res.json(relationships);
+        res.json(await redactRelationshipsForUser(req.user, relationships));
     } catch (error) {
         console.error('Get relationships by person error:', error);
 
@@ -349,7 +349,7 @@ exports.getRelationshipsBetweenPersons = async (req, res) => {
         const { person1Id, person2Id } = req.params;
         const relationships = await relationshipService.getRelationshipsBetweenPersons(person1Id, person2Id);
 
-        res.json(relationships);
+        res.json(await redactRelationshipsForUser(req.user, relationships));
     } catch (error) {
         console.error('Get relationships between persons error:', error);
 
@@ -377,7 +377,10 @@ exports.findRelationshipPath = async (req, res) => {
         const { person1Id, person2Id } = req.params;
         const maxDepth = parseInt(req.query.maxDepth, 10) || 5;
 
-        const path = await relationshipService.findRelationshipPath(person1Id, person2Id, maxDepth);
+        const path = await redactRelationshipsForUser(
+            req.user,
+            await relationshipService.findRelationshipPath(person1Id, person2Id, maxDepth)
+        );
 
         if (path.length === 0) {
             return res.json({
@@ -407,6 +410,40 @@ exports.findRelationshipPath = async (req, res) => {
     }
 };
 
+/**
+ * Name how two persons are related
+ * 
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getKinship = async (req, res) => {
+    try {
+        const { person1Id, person2Id } = req.params;
+        const maxGenerations = parseInt(req.query.maxGenerations, 10) || undefined;
+        const projectIds = await ProjectUtils.getAccessibleProjectIds(req.user);
+
+        const kinship = await relationshipService.getKinship(person1Id, person2Id, {
+            maxGenerations,
+            projectIds: projectIds || undefined
+        });
+
+        res.json(await redactKinshipForUser(req.user, kinship));
+    } catch (error) {
+        console.error('Get kinship error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error working out the relationship',
+            error: error.message
+        });
+    }
+};
+
 /**
  * Get parent-child relationships
  * 
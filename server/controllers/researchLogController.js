@@ -0,0 +1,284 @@
+const researchLogService = require('../services/researchLogService');
+const personService = require('../services/personService');
+const documentService = require('../services/documentService');
+const UserEventService = require('../services/userEventService');
+const { redactPersons } = require('../utils/privacy');
+
+/**
+ * Research Log Controller
+ * Handles HTTP requests for the research log entries and research tasks of projects
+ */
+
+// Errors about references that were given but do not fit the project
+const isReferenceError = (error) =>
+    error.message.includes('must belong to the project') ||
+    error.message.includes('can only be assigned') ||
+    error.name === 'SequelizeValidationError';
+
+// Redact the linked persons redacted for the user, such as those who may still be alive, and leave
+// out the linked documents about them
+const redactEntriesForUser = async (user, entries) => {
+    const plainEntries = entries.map(entry => (typeof entry.toJSON === 'function' ? entry.toJSON() : entry));
+    const persons = plainEntries.flatMap(entry => entry.persons || []);
+    const documents = plainEntries.flatMap(entry => entry.documents || []);
+
+    const privateIds = await personService.getRedactedPersonIds(user, persons.map(person => person.person_id));
+    const documentIds = await documentService.getRedactedDocumentIds(user, [...new Set(documents.map(document => document.document_id))]);
+
+    return plainEntries.map(entry => ({
+        ...entry,
+        persons: redactPersons(entry.persons || [], privateIds),
+        documents: (entry.documents || []).filter(document => !documentIds.has(document.document_id))
+    }));
+};
+
+/**
+ * Get the research log of a project: its entries and tasks
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getProjectResearchLog = async (req, res) => {
+    try {
+        const researchLog = await researchLogService.getProjectResearchLog(req.params.id);
+
+        res.json({ ...researchLog, entries: await redactEntriesForUser(req.user, researchLog.entries) });
+    } catch (error) {
+        console.error('Get research log error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving research log',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Get a research log entry by ID
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getEntryById = async (req, res) => {
+    try {
+        const entry = await researchLogService.getEntryById(req.params.entryId);
+
+        if (!entry) {
+            return res.status(404).json({ message: 'Research log entry not found' });
+        }
+
+        const [redacted] = await redactEntriesForUser(req.user, [entry]);
+        res.json(redacted);
+    } catch (error) {
+        console.error('Get research log entry error:', error);
+        res.status(500).json({
+            message: 'Server error retrieving research log entry',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Record a search in the research log of a project
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.createEntry = async (req, res) => {
+    try {
+        const entry = await researchLogService.createEntry(req.body, req.user.user_id);
+
+        await UserEventService.createEventForProjectUsers(
+            [entry.project_id],
+            req.user.user_id,
+            'research_entry_created',
+            `Research log: ${entry.title}`,
+            entry.entry_id,
+            'research_entry'
+        );
+
+        res.status(201).json({
+            message: 'Research log entry created successfully',
+            entry
+        });
+    } catch (error) {
+        console.error('Create research log entry error:', error);
+
+        if (error.message.includes('not found') || isReferenceError(error)) {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error creating research log entry',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Update a research log entry
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.updateEntry = async (req, res) => {
+    try {
+        const entry = await researchLogService.updateEntry(req.params.entryId, req.body);
+
+        res.json({
+            message: 'Research log entry updated successfully',
+            entry
+        });
+    } catch (error) {
+        console.error('Update research log entry error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (isReferenceError(error)) {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error updating research log entry',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Delete a research log entry
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.deleteEntry = async (req, res) => {
+    try {
+        await researchLogService.deleteEntry(req.params.entryId);
+
+        res.json({
+            message: 'Research log entry deleted successfully'
+        });
+    } catch (error) {
+        console.error('Delete research log entry error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error deleting research log entry',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Add a task to a project
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.createTask = async (req, res) => {
+    try {
+        const task = await researchLogService.createTask(req.body, req.user.user_id);
+
+        res.status(201).json({
+            message: 'Research task created successfully',
+            task
+        });
+    } catch (error) {
+        console.error('Create research task error:', error);
+
+        if (error.message.includes('not found') || isReferenceError(error)) {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error creating research task',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Update a task, e.g. to assign or complete it
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.updateTask = async (req, res) => {
+    try {
+        const task = await researchLogService.updateTask(req.params.taskId, req.body);
+
+        res.json({
+            message: 'Research task updated successfully',
+            task
+        });
+    } catch (error) {
+        console.error('Update research task error:', error);
+
+        if (error.message.includes('Research task with id')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('not found') || isReferenceError(error)) {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error updating research task',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Delete a task
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.deleteTask = async (req, res) => {
+    try {
+        await researchLogService.deleteTask(req.params.taskId);
+
+        res.json({
+            message: 'Research task deleted successfully'
+        });
+    } catch (error) {
+        console.error('Delete research task error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error deleting research task',
+            error: error.message
+        });
+    }
+};
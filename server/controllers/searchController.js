@@ -0,0 +1,28 @@
+const searchService = require('../services/searchService');
+
+/**
+ * Search persons, events, documents and research log entries across the user's projects
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.search = async (req, res) => {
+    try {
+        const { q, types, projectId, page, pageSize } = req.query;
+
+        const result = await searchService.search(q, req.user, {
+            types: types ? types.split(',').map(type => type.trim()) : [],
+            projectId,
+            page,
+            pageSize
+        });
+
+        res.json(result);
+    } catch (error) {
+        console.error('Search error:', error);
+        res.status(500).json({
+            message: 'Server error searching records',
+            error: error.message
+        });
+    }
+};
@@ -0,0 +1,242 @@
+const shareLinkService = require('../services/shareLinkService');
+const UserEventService = require('../services/userEventService');
+const path = require('path');
+const fs = require('fs');
+const { resolveUploadPath } = require('../utils/uploads');
+
+/**
+ * Share Link Controller
+ * Handles HTTP requests for share links: managing a project's links, and the public,
+ * read-only view that visitors of a link see
+ */
+
+// Visitors send the password of a protected link with every request
+const PASSWORD_HEADER = 'x-share-password';
+
+// Describe the link a visitor came through in the notifications of the project's team
+const describeLink = (link) => (link.label ? `share link for ${link.label}` : 'share link');
+
+/**
+ * Answer the errors of opening a share link; returns false for other errors
+ *
+ * @param {Error} error - Error thrown while opening a link
+ * @param {Object} res - Express response object
+ * @returns {Boolean} True when a response was sent
+ */
+const handleShareLinkError = (error, res) => {
+    if (error.message.includes('password')) {
+        res.status(401).json({
+            message: error.message,
+            password_required: true
+        });
+        return true;
+    }
+
+    if (error.message.includes('not found')) {
+        res.status(404).json({
+            message: error.message
+        });
+        return true;
+    }
+
+    return false;
+};
+
+/**
+ * Get the share links of a project
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getProjectShareLinks = async (req, res) => {
+    try {
+        const links = await shareLinkService.getProjectShareLinks(req.params.id);
+
+        res.json(links);
+    } catch (error) {
+        console.error('Get share links error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving share links',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Create a share link for a project
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.createShareLink = async (req, res) => {
+    try {
+        const link = await shareLinkService.createShareLink(req.params.id, req.body, req.user.user_id);
+
+        await UserEventService.createEventForProjectUsers(
+            [req.params.id],
+            req.user.user_id,
+            'share_link_created',
+            link.label ? `Project shared with ${link.label}` : 'Project shared through a new link',
+            link.share_link_id,
+            'share_link'
+        );
+
+        res.status(201).json({
+            message: 'Share link created successfully',
+            link
+        });
+    } catch (error) {
+        console.error('Create share link error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('Validation error')) {
+            return res.status(400).json({ message: error.message.replace('Validation error: ', '') });
+        }
+
+        res.status(500).json({
+            message: 'Server error creating share link',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Revoke a share link of a project
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.revokeShareLink = async (req, res) => {
+    try {
+        const link = await shareLinkService.revokeShareLink(req.params.id, req.params.linkId, req.user);
+
+        await UserEventService.createEventForProjectUsers(
+            [req.params.id],
+            req.user.user_id,
+            'share_link_revoked',
+            `The ${describeLink(link)} was revoked`,
+            link.share_link_id,
+            'share_link'
+        );
+
+        res.json({
+            message: 'Share link revoked successfully',
+            link
+        });
+    } catch (error) {
+        console.error('Revoke share link error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('access')) {
+            return res.status(403).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error revoking share link',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Get the read-only view of a shared project. Each visit is counted and reported to the
+ * user who made the link.
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getSharedProject = async (req, res) => {
+    try {
+        const link = await shareLinkService.openShareLink(req.params.token, req.get(PASSWORD_HEADER));
+        const sharedProject = await shareLinkService.getSharedProject(link);
+
+        if (link.created_by) {
+            await UserEventService.createEventForMultipleUsers(
+                [link.created_by],
+                null,
+                'share_link_accessed',
+                `Your ${describeLink(link)} to "${link.project.title}" was opened`,
+                link.share_link_id,
+                'share_link'
+            );
+        }
+
+        res.json(sharedProject);
+    } catch (error) {
+        console.error('Get shared project error:', error);
+
+        if (handleShareLinkError(error, res)) {
+            return;
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving shared project',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Get the file of a document shown through a share link
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getSharedDocumentFile = async (req, res) => {
+    try {
+        const link = await shareLinkService.openShareLink(req.params.token, req.get(PASSWORD_HEADER), { countVisit: false });
+        const document = await shareLinkService.getSharedDocument(link, req.params.documentId);
+
+        const filePath = resolveUploadPath(document.file_path);
+        if (!filePath || !fs.existsSync(filePath)) {
+            return res.status(404).json({ message: 'File not found on server' });
+        }
+
+        if (link.created_by) {
+            await UserEventService.createEventForMultipleUsers(
+                [link.created_by],
+                null,
+                'share_link_accessed',
+                `"${document.title}" was opened through your ${describeLink(link)} to "${link.project.title}"`,
+                link.share_link_id,
+                'share_link'
+            );
+        }
+
+        res.setHeader('Content-Type', document.mime_type || 'application/octet-stream');
+        res.setHeader('Content-Disposition', req.query.download === 'true'
+            ? `attachment; filename="${path.basename(document.file_path)}"`
+            : 'inline');
+        res.sendFile(filePath);
+    } catch (error) {
+        console.error('Get shared document file error:', error);
+
+        if (handleShareLinkError(error, res)) {
+            return;
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving document file',
+            error: error.message
+        });
+    }
+};
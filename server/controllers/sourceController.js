@@ -0,0 +1,422 @@
+const sourceService = require('../services/sourceService');
+const personService = require('../services/personService');
+const eventService = require('../services/eventService');
+const relationshipService = require('../services/relationshipService');
+const documentService = require('../services/documentService');
+const UserEventService = require('../services/userEventService');
+const ProjectUtils = require('../utils/projectUtils');
+
+/**
+ * Source Controller
+ * Handles HTTP requests for Source entities and their citations
+ */
+
+// Finds the records of each type that are redacted for a user
+const getRedactedIds = {
+    person: (user, ids) => personService.getRedactedPersonIds(user, ids),
+    event: (user, ids) => eventService.getRedactedEventIds(user, ids),
+    relationship: (user, ids) => relationshipService.getRedactedRelationshipIds(user, ids),
+    document: (user, ids) => documentService.getRedactedDocumentIds(user, ids)
+};
+
+// Leave out the citations of records about persons redacted for the user, such as those who may
+// still be alive, as their page and excerpt quote what is withheld
+const withoutRedactedCitations = async (user, citations) => {
+    const redacted = new Map(await Promise.all(Object.entries(getRedactedIds).map(async ([type, getIds]) => {
+        const ids = [...new Set(citations.filter(c => c.entity_type === type).map(c => c.entity_id))];
+        return [type, ids.length > 0 ? await getIds(user, ids) : new Set()];
+    })));
+
+    return citations.filter(citation => !(redacted.get(citation.entity_type) || new Set()).has(citation.entity_id));
+};
+
+/**
+ * Get the sources of a project
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getProjectSources = async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { sortBy, sortOrder } = req.query;
+
+        const sources = await sourceService.getSourcesByProjectId(id, { sortBy, sortOrder });
+
+        res.json(sources);
+    } catch (error) {
+        console.error('Get project sources error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving project sources',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Get a source by ID
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getSourceById = async (req, res) => {
+    try {
+        const { sourceId } = req.params;
+        const source = await sourceService.getSourceById(sourceId, {
+            includeCitations: req.query.includeCitations === 'true'
+        });
+
+        if (!source) {
+            return res.status(404).json({ message: 'Source not found' });
+        }
+
+        res.json(source);
+    } catch (error) {
+        console.error('Get source error:', error);
+        res.status(500).json({
+            message: 'Server error retrieving source',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Create a new source
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.createSource = async (req, res) => {
+    try {
+        const source = await sourceService.createSource(req.body);
+
+        if (source.project_id) {
+            await UserEventService.createEventForProjectUsers(
+                [source.project_id],
+                req.user.user_id,
+                'source_created',
+                `Source "${source.title}" added to project`,
+                source.source_id,
+                'source'
+            );
+        }
+
+        res.status(201).json({
+            message: 'Source created successfully',
+            source
+        });
+    } catch (error) {
+        console.error('Create source error:', error);
+
+        if (error.message.includes('not found') ||
+            error.name === 'SequelizeValidationError') {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error creating source',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Update a source
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.updateSource = async (req, res) => {
+    try {
+        const { sourceId } = req.params;
+        const source = await sourceService.updateSource(sourceId, req.body);
+
+        if (source.project_id) {
+            await UserEventService.createEventForProjectUsers(
+                [source.project_id],
+                req.user.user_id,
+                'source_updated',
+                `Source "${source.title}" updated in project`,
+                source.source_id,
+                'source'
+            );
+        }
+
+        res.json({
+            message: 'Source updated successfully',
+            source
+        });
+    } catch (error) {
+        console.error('Update source error:', error);
+
+        if (error.message.includes('Source with id')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('not found') ||
+            error.name === 'SequelizeValidationError') {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error updating source',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Delete a source and its citations
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.deleteSource = async (req, res) => {
+    try {
+        const { sourceId } = req.params;
+
+        // Get source info before deleting it
+        const source = await sourceService.getSourceById(sourceId);
+
+        if (!source) {
+            return res.status(404).json({ message: 'Source not found' });
+        }
+
+        await sourceService.deleteSource(sourceId);
+
+        if (source.project_id) {
+            await UserEventService.createEventForProjectUsers(
+                [source.project_id],
+                req.user.user_id,
+                'source_deleted',
+                `Source "${source.title}" removed from project`,
+                sourceId,
+                'source'
+            );
+        }
+
+        res.json({
+            message: 'Source deleted successfully'
+        });
+    } catch (error) {
+        console.error('Delete source error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error deleting source',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Get the citations of a person, event or relationship
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getCitations = async (req, res) => {
+    try {
+        const { entityType, entityId } = req.query;
+        const citations = await sourceService.getCitationsForEntity(entityType, entityId);
+
+        res.json(await withoutRedactedCitations(req.user, citations));
+    } catch (error) {
+        console.error('Get citations error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving citations',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Get every citation supporting a person, including their events and relationships
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getPersonCitations = async (req, res) => {
+    try {
+        const { personId } = req.params;
+        const citations = await sourceService.getPersonCitations(personId);
+
+        res.json(await withoutRedactedCitations(req.user, citations));
+    } catch (error) {
+        console.error('Get person citations error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error retrieving person citations',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Cite a source for a person, event or relationship
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.createCitation = async (req, res) => {
+    try {
+        const { sourceId } = req.params;
+        const citation = await sourceService.addCitation(sourceId, req.body);
+
+        const projectIds = await ProjectUtils.getProjectIdsForEntity(citation.entity_type, citation.entity_id);
+        if (projectIds.length > 0) {
+            await UserEventService.createEventForProjectUsers(
+                projectIds,
+                req.user.user_id,
+                'citation_added',
+                `Source "${citation.source.title}" cited as evidence for a ${citation.entity_type}`,
+                citation.entity_id,
+                citation.entity_type
+            );
+        }
+
+        res.status(201).json({
+            message: 'Citation added successfully',
+            citation
+        });
+    } catch (error) {
+        console.error('Create citation error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.message.includes('cannot be cited') ||
+            error.message.includes('Cannot cite') ||
+            error.name === 'SequelizeValidationError') {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error adding citation',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Update a citation
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.updateCitation = async (req, res) => {
+    try {
+        const { citationId } = req.params;
+        const citation = await sourceService.updateCitation(citationId, req.body);
+
+        res.json({
+            message: 'Citation updated successfully',
+            citation
+        });
+    } catch (error) {
+        console.error('Update citation error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        if (error.name === 'SequelizeValidationError') {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error updating citation',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Remove a citation
+ *
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.deleteCitation = async (req, res) => {
+    try {
+        const { citationId } = req.params;
+
+        // Get citation info before deleting it
+        const citation = await sourceService.getCitationById(citationId);
+
+        if (!citation) {
+            return res.status(404).json({ message: 'Citation not found' });
+        }
+
+        await sourceService.removeCitation(citationId);
+
+        const projectIds = await ProjectUtils.getProjectIdsForEntity(citation.entity_type, citation.entity_id);
+        if (projectIds.length > 0) {
+            await UserEventService.createEventForProjectUsers(
+                projectIds,
+                req.user.user_id,
+                'citation_removed',
+                `Citation of source "${citation.source.title}" removed from a ${citation.entity_type}`,
+                citation.entity_id,
+                citation.entity_type
+            );
+        }
+
+        res.json({
+            message: 'Citation removed successfully'
+        });
+    } catch (error) {
+        console.error('Delete citation error:', error);
+
+        if (error.message.includes('not found')) {
+            return res.status(404).json({
+                message: error.message
+            });
+        }
+
+        res.status(500).json({
+            message: 'Server error removing citation',
+            error: error.message
+        });
+    }
+};
@@ -1,4 +1,6 @@
+const { Op } = require('sequelize');
 const { UserEvent, User } = require('../models');
+const UserEventService = require('../services/userEventService');
 
 /**
  * Create a new user event
@@ -16,7 +18,8 @@ exports.createUserEvent = async (req, res) => {
             event_type,
             message,
             entity_id,
-            entity_type
+            entity_type,
+            read_at: new Date() // Nothing new to the user who wrote it
         });
         
         // Get the actor information for the response
@@ -60,7 +63,10 @@ exports.getUserEvents = async (req, res) => {
             sortOrder = 'desc',
             eventType,
             entityId,
-            entityType
+            entityType,
+            status = 'all',
+            archived = 'false',
+            search
         } = req.query;
         
         // Build query options
@@ -80,7 +86,8 @@ exports.getUserEvents = async (req, res) => {
         
         // Add filters if provided
         if (eventType) {
-            queryOptions.where.event_type = eventType;
+            // Several types can be given as a comma-separated list
+            queryOptions.where.event_type = { [Op.in]: eventType.split(',') };
         }
         
         if (entityId) {
@@ -90,9 +97,25 @@ exports.getUserEvents = async (req, res) => {
         if (entityType) {
             queryOptions.where.entity_type = entityType;
         }
+
+        if (search) {
+            queryOptions.where.message = { [Op.iLike]: `%${search}%` };
+        }
+
+        if (status === 'unread') {
+            queryOptions.where.read_at = null;
+        } else if (status === 'read') {
+            queryOptions.where.read_at = { [Op.ne]: null };
+        }
+
+        // The inbox leaves out archived events; the archive shows only those
+        if (archived !== 'all') {
+            queryOptions.where.archived_at = archived === 'true' ? { [Op.ne]: null } : null;
+        }
         
         // Get events
         const { count, rows: events } = await UserEvent.findAndCountAll(queryOptions);
+        const unread = await UserEventService.getUnreadCount(req.user.user_id);
         
         // Calculate total pages
         const totalPages = Math.ceil(count / parseInt(limit));
@@ -103,7 +126,8 @@ exports.getUserEvents = async (req, res) => {
                 total: count,
                 page: parseInt(page),
                 limit: parseInt(limit),
-                totalPages
+                totalPages,
+                unread
             }
         });
     } catch (error) {
@@ -115,6 +139,79 @@ exports.getUserEvents = async (req, res) => {
     }
 };
 
+/**
+ * Get the number of unread user events in the user's inbox
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.getUnreadCount = async (req, res) => {
+    try {
+        const count = await UserEventService.getUnreadCount(req.user.user_id);
+        
+        res.json({ count });
+    } catch (error) {
+        console.error('Get unread user event count error:', error);
+        res.status(500).json({ 
+            message: 'Server error counting unread user events',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Mark all of the user's events read, optionally only those of some types
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.markAllUserEventsRead = async (req, res) => {
+    try {
+        const { event_types: eventTypes = [] } = req.body;
+        
+        const updated = await UserEventService.markAllRead(req.user.user_id, eventTypes);
+        
+        res.json({
+            message: 'User events marked as read',
+            updated
+        });
+    } catch (error) {
+        console.error('Mark all user events read error:', error);
+        res.status(500).json({ 
+            message: 'Server error marking user events as read',
+            error: error.message
+        });
+    }
+};
+
+/**
+ * Set the read and archived state of one of the user's events
+ * @param {Object} req - Express request object
+ * @param {Object} res - Express response object
+ */
+exports.updateUserEventState = async (req, res) => {
+    try {
+        const { id } = req.params;
+        const { read, archived } = req.body;
+        
+        // Only the recipient of an event can change its state
+        const userEvent = await UserEventService.updateEventState(req.user.user_id, id, { read, archived });
+        
+        if (!userEvent) {
+            return res.status(404).json({ message: 'User event not found' });
+        }
+        
+        res.json({
+            message: 'User event updated successfully',
+            event: userEvent
+        });
+    } catch (error) {
+        console.error('Update user event state error:', error);
+        res.status(500).json({ 
+            message: 'Server error updating user event',
+            error: error.message
+        });
+    }
+};
+
 /**
  * Get a user event by ID
  * @param {Object} req - Express request object
@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken');
-const { User } = require('../models');
+const { User, Project } = require('../models');
+const ProjectUtils = require('../utils/projectUtils');
 
 // Verify JWT token
 exports.verifyToken = (req, res, next) => {
@@ -60,7 +61,7 @@ exports.hasProjectAccess = (accessLevel = 'view') => {
                 return res.status(403).json({ message: 'Forbidden' });
             }
             
-            const projectId = req.params.projectId;
+            const projectId = req.params.projectId || req.params.id;
             
             if (!projectId) {
                 return res.status(400).json({ message: 'Project ID is required' });
@@ -95,3 +96,38 @@ exports.hasProjectAccess = (accessLevel = 'view') => {
         }
     };
 };
+
+// Check if user has access to the projects an entity belongs to. The entity ID is read from the
+// route parameter, body field or query parameter with the given name; when it is absent the check is
+// left to validation. entityType may be a function of the request for polymorphic routes.
+exports.hasEntityAccess = (entityType, field, accessLevel = 'view', options = {}) => {
+    return async (req, res, next) => {
+        try {
+            if (!req.user) {
+                return res.status(403).json({ message: 'Forbidden' });
+            }
+
+            const entityId = req.params[field] || (req.body && req.body[field]) || req.query[field];
+            const type = typeof entityType === 'function' ? entityType(req) : entityType;
+
+            if (!entityId || !type) {
+                return next();
+            }
+
+            const hasAccess = await ProjectUtils.canAccessEntity(req.user, type, entityId, accessLevel, options);
+
+            if (!hasAccess) {
+                return res.status(403).json({
+                    message: accessLevel === 'edit'
+                        ? `You do not have edit access to this ${type}`
+                        : `You do not have access to this ${type}`
+                });
+            }
+
+            next();
+        } catch (error) {
+            console.error('Entity access check error:', error);
+            res.status(500).json({ message: 'Server error checking access' });
+        }
+    };
+};
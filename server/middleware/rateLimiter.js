@@ -11,6 +11,18 @@ const authLimiter = rateLimit({
     }
 });
 
+// Share link rate limiter - public share links are opened without logging in, so tokens and
+// link passwords are guessed against this limit
+const shareLinkLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 60, // 60 requests per 15 minutes
+    standardHeaders: true,
+    legacyHeaders: false,
+    message: {
+        message: 'Too many attempts to open this link, please try again later'
+    }
+});
+
 // API rate limiter - general limits for API endpoints
 const apiLimiter = rateLimit({
     windowMs: 60 * 1000, // 1 minute
@@ -24,5 +36,6 @@ const apiLimiter = rateLimit({
 
 module.exports = {
     authLimiter,
+    shareLinkLimiter,
     apiLimiter
 };
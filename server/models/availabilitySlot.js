@@ -0,0 +1,47 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const AvailabilitySlot = sequelize.define('AvailabilitySlot', {
+    slot_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    researcher_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    },
+    starts_at: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        validate: {
+            isDate: {
+                msg: 'Start time must be a valid date'
+            }
+        }
+    },
+    ends_at: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        validate: {
+            isDate: {
+                msg: 'End time must be a valid date'
+            },
+            isAfterStart(value) {
+                if (this.starts_at && new Date(value) <= new Date(this.starts_at)) {
+                    throw new Error('End time must be after the start time');
+                }
+            }
+        }
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'availability_slots'
+});
+
+module.exports = AvailabilitySlot;
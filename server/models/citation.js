@@ -0,0 +1,130 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+/**
+ * Facts that can be cited individually for each kind of cited record.
+ * A citation without a field_name supports the record as a whole.
+ */
+const CITABLE_FIELDS = {
+    person: ['first_name', 'middle_name', 'last_name', 'maiden_name', 'gender', 'birth_date', 'birth_location', 'death_date', 'death_location'],
+    event: ['event_date', 'event_location', 'description'],
+    relationship: ['relationship_type', 'start_date', 'end_date']
+};
+
+const Citation = sequelize.define('Citation', {
+    citation_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    source_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'sources',
+            key: 'source_id'
+        },
+        validate: {
+            notNull: {
+                msg: 'Source is required'
+            }
+        }
+    },
+    entity_type: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        validate: {
+            notNull: {
+                msg: 'Cited entity type is required'
+            },
+            isIn: {
+                args: [Object.keys(CITABLE_FIELDS)],
+                msg: 'Cited entity type must be one of: person, event, relationship'
+            }
+        }
+    },
+    entity_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        validate: {
+            notNull: {
+                msg: 'Cited entity is required'
+            }
+        }
+    },
+    field_name: {
+        type: DataTypes.STRING(50)
+    },
+    page: {
+        type: DataTypes.STRING(255)
+    },
+    information_quality: {
+        type: DataTypes.STRING(50),
+        validate: {
+            isIn: {
+                args: [['primary', 'secondary', 'undetermined', null, '']],
+                msg: 'Information quality must be one of: primary, secondary, undetermined'
+            }
+        }
+    },
+    evidence_type: {
+        type: DataTypes.STRING(50),
+        validate: {
+            isIn: {
+                args: [['direct', 'indirect', 'negative', null, '']],
+                msg: 'Evidence type must be one of: direct, indirect, negative'
+            }
+        }
+    },
+    confidence: {
+        type: DataTypes.SMALLINT,
+        validate: {
+            isInt: {
+                msg: 'Confidence must be an integer'
+            },
+            min: {
+                args: [0],
+                msg: 'Confidence must be between 0 and 3'
+            },
+            max: {
+                args: [3],
+                msg: 'Confidence must be between 0 and 3'
+            }
+        }
+    },
+    excerpt: {
+        type: DataTypes.TEXT
+    },
+    notes: {
+        type: DataTypes.TEXT
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'citations',
+    hooks: {
+        beforeValidate: (citation) => {
+            // Normalize enumerated values to lowercase
+            if (citation.entity_type) citation.entity_type = citation.entity_type.toLowerCase();
+            if (citation.information_quality) citation.information_quality = citation.information_quality.toLowerCase();
+            if (citation.evidence_type) citation.evidence_type = citation.evidence_type.toLowerCase();
+
+            // An empty field name cites the whole record
+            if (citation.field_name === '') citation.field_name = null;
+            if (citation.page) citation.page = citation.page.trim();
+        }
+    },
+    validate: {
+        // The cited fact must exist on the cited kind of record
+        fieldMatchesEntity() {
+            if (this.field_name && CITABLE_FIELDS[this.entity_type] &&
+                !CITABLE_FIELDS[this.entity_type].includes(this.field_name)) {
+                throw new Error(`Field '${this.field_name}' cannot be cited on a ${this.entity_type}`);
+            }
+        }
+    }
+});
+
+Citation.CITABLE_FIELDS = CITABLE_FIELDS;
+
+module.exports = Citation;
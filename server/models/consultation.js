@@ -0,0 +1,96 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const CONSULTATION_STATUSES = ['scheduled', 'completed', 'canceled'];
+
+const Consultation = sequelize.define('Consultation', {
+    consultation_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    project_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'projects',
+            key: 'id'
+        }
+    },
+    client_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    },
+    researcher_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    },
+    slot_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'availability_slots',
+            key: 'slot_id'
+        }
+    },
+    starts_at: {
+        type: DataTypes.DATE,
+        allowNull: false
+    },
+    ends_at: {
+        type: DataTypes.DATE,
+        allowNull: false
+    },
+    status: {
+        type: DataTypes.STRING(50),
+        defaultValue: 'scheduled',
+        validate: {
+            isIn: {
+                args: [CONSULTATION_STATUSES],
+                msg: `Consultation status must be one of: ${CONSULTATION_STATUSES.join(', ')}`
+            }
+        }
+    },
+    topic: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+            notEmpty: {
+                msg: 'Consultation topic is required'
+            }
+        },
+        set(value) {
+            this.setDataValue('topic', typeof value === 'string' ? value.trim() : value);
+        }
+    },
+    notes: {
+        type: DataTypes.TEXT
+    },
+    canceled_by: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    },
+    cancellation_reason: {
+        type: DataTypes.TEXT
+    },
+    sequence: {
+        type: DataTypes.INTEGER,
+        defaultValue: 0
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'consultations'
+});
+
+module.exports = Consultation;
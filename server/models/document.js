@@ -119,6 +119,44 @@ const Document = sequelize.define('Document', {
             model: 'projects',
             key: 'id'
         }
+    },
+    ocr_status: {
+        type: DataTypes.STRING(20),
+        allowNull: true,
+        validate: {
+            isIn: {
+                args: [['pending', 'processing', 'completed', 'failed']],
+                msg: 'Invalid OCR status'
+            }
+        }
+    },
+    ocr_pages: {
+        type: DataTypes.JSONB,
+        allowNull: true
+    },
+    ocr_attempts: {
+        type: DataTypes.INTEGER,
+        defaultValue: 0
+    },
+    ocr_error: {
+        type: DataTypes.TEXT
+    },
+    ocr_completed_at: {
+        type: DataTypes.DATE
+    },
+    transcription: {
+        type: DataTypes.TEXT
+    },
+    transcription_updated_by: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    },
+    transcription_updated_at: {
+        type: DataTypes.DATE
     }
 }, {
     timestamps: true,
@@ -0,0 +1,73 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+/**
+ * Kinds of record whose edits are versioned, and the actions a version can record
+ */
+const VERSIONED_ENTITY_TYPES = ['person', 'event', 'relationship', 'document'];
+const VERSION_ACTIONS = ['create', 'update', 'delete', 'revert'];
+
+const EntityVersion = sequelize.define('EntityVersion', {
+    version_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    entity_type: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        validate: {
+            isIn: {
+                args: [VERSIONED_ENTITY_TYPES],
+                msg: `Versioned entity type must be one of: ${VERSIONED_ENTITY_TYPES.join(', ')}`
+            }
+        }
+    },
+    // Deleted records keep their history, so this is kept without a foreign key
+    entity_id: {
+        type: DataTypes.UUID,
+        allowNull: false
+    },
+    version_number: {
+        type: DataTypes.INTEGER,
+        allowNull: false
+    },
+    action: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        validate: {
+            isIn: {
+                args: [VERSION_ACTIONS],
+                msg: `Version action must be one of: ${VERSION_ACTIONS.join(', ')}`
+            }
+        }
+    },
+    changes: {
+        type: DataTypes.JSONB,
+        defaultValue: {}
+    },
+    snapshot: {
+        type: DataTypes.JSONB,
+        allowNull: false
+    },
+    reverted_to_version: {
+        type: DataTypes.INTEGER
+    },
+    changed_by: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    }
+}, {
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    tableName: 'entity_versions'
+});
+
+EntityVersion.VERSIONED_ENTITY_TYPES = VERSIONED_ENTITY_TYPES;
+EntityVersion.VERSION_ACTIONS = VERSION_ACTIONS;
+
+module.exports = EntityVersion;
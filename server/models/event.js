@@ -1,5 +1,6 @@
 const { DataTypes } = require('sequelize');
 const { sequelize } = require('../config/database');
+const { applyDateDetail } = require('../utils/genealogicalDate');
 
 const Event = sequelize.define('Event', {
     event_id: {
@@ -34,9 +35,19 @@ const Event = sequelize.define('Event', {
             }
         }
     },
+    event_date_detail: {
+        type: DataTypes.JSONB
+    },
     event_location: {
         type: DataTypes.STRING(255)
     },
+    event_place_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'places',
+            key: 'place_id'
+        }
+    },
     description: {
         type: DataTypes.TEXT
     }
@@ -55,6 +66,9 @@ const Event = sequelize.define('Event', {
             if (event.event_location) {
                 event.event_location = event.event_location.trim();
             }
+
+            // Write an approximate date's sort key into event_date
+            applyDateDetail(event, 'event_date', 'event_date_detail');
         },
         beforeCreate: async (event, options) => {
             // Additional validation for specific event types
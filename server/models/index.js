@@ -15,6 +15,35 @@ const ProjectPerson = require('./projectPerson');
 const PersonEvent = require('./personEvent');
 const ProjectEvent = require('./projectEvent');
 const ProjectUser = require('./projectUser');
+const Source = require('./source');
+const PersonName = require('./personName');
+const Citation = require('./citation');
+const PersonMerge = require('./personMerge');
+const EntityVersion = require('./entityVersion');
+const Place = require('./place');
+const PlaceName = require('./placeName');
+
+// Billing models
+const ServicePackage = require('./servicePackage');
+const Order = require('./order');
+const Invoice = require('./invoice');
+
+// Email models
+const OutboxEmail = require('./outboxEmail');
+
+// Consultation models
+const AvailabilitySlot = require('./availabilitySlot');
+const Consultation = require('./consultation');
+
+// Research log models
+const ResearchLogEntry = require('./researchLogEntry');
+const ResearchLogPerson = require('./researchLogPerson');
+const ResearchLogDocument = require('./researchLogDocument');
+const ResearchTask = require('./researchTask');
+
+// Share link models
+const ShareLink = require('./shareLink');
+const ShareLinkDocument = require('./shareLinkDocument');
 
 // Define User-Role associations
 User.belongsToMany(Role, {
@@ -172,6 +201,262 @@ Relationship.belongsTo(Person, {
     as: 'person2'
 });
 
+// Define person name associations
+Person.hasMany(PersonName, {
+    foreignKey: 'person_id',
+    as: 'names'
+});
+
+PersonName.belongsTo(Person, {
+    foreignKey: 'person_id',
+    as: 'person'
+});
+
+PersonName.belongsTo(Source, {
+    foreignKey: 'source_id',
+    as: 'source'
+});
+
+// Define place associations
+Place.belongsTo(Place, {
+    foreignKey: 'parent_id',
+    as: 'parent'
+});
+
+Place.hasMany(Place, {
+    foreignKey: 'parent_id',
+    as: 'children'
+});
+
+Place.hasMany(PlaceName, {
+    foreignKey: 'place_id',
+    as: 'names'
+});
+
+PlaceName.belongsTo(Place, {
+    foreignKey: 'place_id',
+    as: 'place'
+});
+
+PlaceName.belongsTo(Place, {
+    foreignKey: 'parent_id',
+    as: 'parent'
+});
+
+Person.belongsTo(Place, {
+    foreignKey: 'birth_place_id',
+    as: 'birthPlace'
+});
+
+Person.belongsTo(Place, {
+    foreignKey: 'death_place_id',
+    as: 'deathPlace'
+});
+
+Event.belongsTo(Place, {
+    foreignKey: 'event_place_id',
+    as: 'place'
+});
+
+// Define source and citation associations
+Project.hasMany(Source, {
+    foreignKey: 'project_id',
+    as: 'sources'
+});
+
+Source.belongsTo(Project, {
+    foreignKey: 'project_id',
+    as: 'project'
+});
+
+Source.belongsTo(Document, {
+    foreignKey: 'document_id',
+    as: 'document'
+});
+
+Source.hasMany(Citation, {
+    foreignKey: 'source_id',
+    as: 'citations'
+});
+
+Citation.belongsTo(Source, {
+    foreignKey: 'source_id',
+    as: 'source'
+});
+
+// Define billing associations
+User.hasMany(Order, {
+    foreignKey: 'user_id',
+    as: 'orders'
+});
+
+Order.belongsTo(User, {
+    foreignKey: 'user_id',
+    as: 'user'
+});
+
+Order.belongsTo(ServicePackage, {
+    foreignKey: 'package_id',
+    as: 'servicePackage'
+});
+
+Order.belongsTo(Project, {
+    foreignKey: 'project_id',
+    as: 'project'
+});
+
+Order.hasOne(Invoice, {
+    foreignKey: 'order_id',
+    as: 'invoice'
+});
+
+Invoice.belongsTo(Order, {
+    foreignKey: 'order_id',
+    as: 'order'
+});
+
+// Define email outbox associations
+User.hasMany(OutboxEmail, {
+    foreignKey: 'user_id',
+    as: 'emails'
+});
+
+OutboxEmail.belongsTo(User, {
+    foreignKey: 'user_id',
+    as: 'user'
+});
+
+// Define consultation associations
+User.hasMany(AvailabilitySlot, {
+    foreignKey: 'researcher_id',
+    as: 'availabilitySlots'
+});
+
+AvailabilitySlot.belongsTo(User, {
+    foreignKey: 'researcher_id',
+    as: 'researcher'
+});
+
+AvailabilitySlot.hasMany(Consultation, {
+    foreignKey: 'slot_id',
+    as: 'consultations'
+});
+
+Consultation.belongsTo(AvailabilitySlot, {
+    foreignKey: 'slot_id',
+    as: 'slot'
+});
+
+Consultation.belongsTo(Project, {
+    foreignKey: 'project_id',
+    as: 'project'
+});
+
+Project.hasMany(Consultation, {
+    foreignKey: 'project_id',
+    as: 'consultations'
+});
+
+Consultation.belongsTo(User, {
+    foreignKey: 'client_id',
+    as: 'client'
+});
+
+Consultation.belongsTo(User, {
+    foreignKey: 'researcher_id',
+    as: 'researcher'
+});
+
+// Define research log associations
+Project.hasMany(ResearchLogEntry, {
+    foreignKey: 'project_id',
+    as: 'researchLogEntries'
+});
+
+ResearchLogEntry.belongsTo(Project, {
+    foreignKey: 'project_id',
+    as: 'project'
+});
+
+ResearchLogEntry.belongsTo(User, {
+    foreignKey: 'created_by',
+    as: 'author'
+});
+
+ResearchLogEntry.belongsToMany(Person, {
+    through: ResearchLogPerson,
+    foreignKey: 'entry_id',
+    otherKey: 'person_id',
+    as: 'persons'
+});
+
+ResearchLogEntry.belongsToMany(Document, {
+    through: ResearchLogDocument,
+    foreignKey: 'entry_id',
+    otherKey: 'document_id',
+    as: 'documents'
+});
+
+ResearchLogEntry.hasMany(ResearchTask, {
+    foreignKey: 'entry_id',
+    as: 'tasks'
+});
+
+ResearchTask.belongsTo(ResearchLogEntry, {
+    foreignKey: 'entry_id',
+    as: 'entry'
+});
+
+ResearchTask.belongsTo(Project, {
+    foreignKey: 'project_id',
+    as: 'project'
+});
+
+ResearchTask.belongsTo(User, {
+    foreignKey: 'assignee_id',
+    as: 'assignee'
+});
+
+// Define share link associations
+Project.hasMany(ShareLink, {
+    foreignKey: 'project_id',
+    as: 'shareLinks'
+});
+
+ShareLink.belongsTo(Project, {
+    foreignKey: 'project_id',
+    as: 'project'
+});
+
+ShareLink.belongsTo(User, {
+    foreignKey: 'created_by',
+    as: 'creator'
+});
+
+ShareLink.belongsToMany(Document, {
+    through: ShareLinkDocument,
+    foreignKey: 'share_link_id',
+    otherKey: 'document_id',
+    as: 'documents'
+});
+
+// Define PersonMerge associations
+PersonMerge.belongsTo(Person, {
+    foreignKey: 'survivor_person_id',
+    as: 'survivor'
+});
+
+PersonMerge.belongsTo(User, {
+    foreignKey: 'merged_by',
+    as: 'mergedBy'
+});
+
+// Define EntityVersion associations
+EntityVersion.belongsTo(User, {
+    foreignKey: 'changed_by',
+    as: 'changedBy'
+});
+
 module.exports = {
     User,
     Role,
@@ -181,6 +466,7 @@ module.exports = {
     PasswordResetToken,
     // Genealogical data models
     Person,
+    PersonName,
     Relationship,
     Event,
     Document,
@@ -188,5 +474,28 @@ module.exports = {
     ProjectPerson,
     PersonEvent,
     ProjectEvent,
-    ProjectUser
+    ProjectUser,
+    Source,
+    Citation,
+    PersonMerge,
+    EntityVersion,
+    Place,
+    PlaceName,
+    // Billing models
+    ServicePackage,
+    Order,
+    Invoice,
+    // Email models
+    OutboxEmail,
+    // Consultation models
+    AvailabilitySlot,
+    Consultation,
+    // Research log models
+    ResearchLogEntry,
+    ResearchLogPerson,
+    ResearchLogDocument,
+    ResearchTask,
+    // Share link models
+    ShareLink,
+    ShareLinkDocument
 };
@@ -0,0 +1,60 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const Invoice = sequelize.define('Invoice', {
+    invoice_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    order_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'orders',
+            key: 'order_id'
+        }
+    },
+    user_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    },
+    invoice_number: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        unique: true
+    },
+    description: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    amount_cents: {
+        type: DataTypes.INTEGER,
+        allowNull: false
+    },
+    currency: {
+        type: DataTypes.STRING(3),
+        defaultValue: 'usd'
+    },
+    status: {
+        type: DataTypes.STRING(50),
+        defaultValue: 'paid',
+        validate: {
+            isIn: [['paid', 'void']]
+        }
+    },
+    issued_at: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'invoices'
+});
+
+module.exports = Invoice;
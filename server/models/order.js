@@ -0,0 +1,79 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const ORDER_STATUSES = ['pending', 'paid', 'failed', 'canceled'];
+
+const Order = sequelize.define('Order', {
+    order_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    user_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    },
+    package_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'service_packages',
+            key: 'package_id'
+        }
+    },
+    project_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'projects',
+            key: 'id'
+        }
+    },
+    project_title: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    project_description: {
+        type: DataTypes.TEXT
+    },
+    status: {
+        type: DataTypes.STRING(50),
+        defaultValue: 'pending',
+        validate: {
+            isIn: {
+                args: [ORDER_STATUSES],
+                msg: `Order status must be one of: ${ORDER_STATUSES.join(', ')}`
+            }
+        }
+    },
+    amount_cents: {
+        type: DataTypes.INTEGER,
+        allowNull: false
+    },
+    currency: {
+        type: DataTypes.STRING(3),
+        defaultValue: 'usd'
+    },
+    provider: {
+        type: DataTypes.STRING(50),
+        allowNull: false
+    },
+    provider_session_id: {
+        type: DataTypes.STRING(255)
+    },
+    provider_payment_id: {
+        type: DataTypes.STRING(255)
+    },
+    paid_at: {
+        type: DataTypes.DATE
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'orders'
+});
+
+module.exports = Order;
@@ -0,0 +1,90 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const EMAIL_STATUSES = ['pending', 'sending', 'sent', 'failed'];
+
+const OutboxEmail = sequelize.define('OutboxEmail', {
+    email_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    user_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    },
+    to_address: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+            isEmail: {
+                msg: 'Recipient must be a valid email address'
+            }
+        }
+    },
+    to_name: {
+        type: DataTypes.STRING(255)
+    },
+    template: {
+        type: DataTypes.STRING(100),
+        allowNull: false
+    },
+    subject: {
+        type: DataTypes.STRING(255),
+        allowNull: false
+    },
+    html_body: {
+        type: DataTypes.TEXT,
+        allowNull: false
+    },
+    text_body: {
+        type: DataTypes.TEXT,
+        allowNull: false
+    },
+    attachments: {
+        type: DataTypes.JSONB
+    },
+    status: {
+        type: DataTypes.STRING(50),
+        defaultValue: 'pending',
+        validate: {
+            isIn: {
+                args: [EMAIL_STATUSES],
+                msg: `Email status must be one of: ${EMAIL_STATUSES.join(', ')}`
+            }
+        }
+    },
+    attempts: {
+        type: DataTypes.INTEGER,
+        defaultValue: 0
+    },
+    max_attempts: {
+        type: DataTypes.INTEGER,
+        defaultValue: 5
+    },
+    next_attempt_at: {
+        type: DataTypes.DATE,
+        defaultValue: DataTypes.NOW
+    },
+    last_error: {
+        type: DataTypes.TEXT
+    },
+    transport: {
+        type: DataTypes.STRING(50)
+    },
+    provider_message_id: {
+        type: DataTypes.STRING(255)
+    },
+    sent_at: {
+        type: DataTypes.DATE
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'email_outbox'
+});
+
+module.exports = OutboxEmail;
@@ -1,5 +1,7 @@
 const { DataTypes } = require('sequelize');
 const { sequelize } = require('../config/database');
+const { applyDateDetail, getDateBounds, getYearSpan } = require('../utils/genealogicalDate');
+const { phoneticCodes } = require('../utils/phonetics');
 
 const Person = sequelize.define('Person', {
     person_id: {
@@ -47,7 +49,10 @@ const Person = sequelize.define('Person', {
                 msg: 'Birth date must be a valid date'
             },
             isBefore: function(value) {
-                if (value && this.death_date && new Date(value) >= new Date(this.death_date)) {
+                // Approximate dates only fail when every reading of them puts birth on or after death
+                const birth = getDateBounds(value, this.birth_date_detail);
+                const death = getDateBounds(this.death_date, this.death_date_detail);
+                if (birth && death && birth.earliest && death.latest && birth.earliest >= death.latest) {
                     throw new Error('Birth date must be before death date');
                 }
                 
@@ -58,9 +63,19 @@ const Person = sequelize.define('Person', {
             }
         }
     },
+    birth_date_detail: {
+        type: DataTypes.JSONB
+    },
     birth_location: {
         type: DataTypes.STRING(255)
     },
+    birth_place_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'places',
+            key: 'place_id'
+        }
+    },
     death_date: {
         type: DataTypes.DATE,
         validate: {
@@ -68,7 +83,9 @@ const Person = sequelize.define('Person', {
                 msg: 'Death date must be a valid date'
             },
             isAfter: function(value) {
-                if (value && this.birth_date && new Date(value) <= new Date(this.birth_date)) {
+                const birth = getDateBounds(this.birth_date, this.birth_date_detail);
+                const death = getDateBounds(value, this.death_date_detail);
+                if (birth && death && birth.earliest && death.latest && death.latest <= birth.earliest) {
                     throw new Error('Death date must be after birth date');
                 }
                 
@@ -79,11 +96,35 @@ const Person = sequelize.define('Person', {
             }
         }
     },
+    death_date_detail: {
+        type: DataTypes.JSONB
+    },
     death_location: {
         type: DataTypes.STRING(255)
     },
+    death_place_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'places',
+            key: 'place_id'
+        }
+    },
     notes: {
         type: DataTypes.TEXT
+    },
+    // Set to 'private' or 'public' to override whether the person is presumed to be alive
+    privacy_override: {
+        type: DataTypes.STRING(20),
+        validate: {
+            isIn: {
+                args: [['private', 'public']],
+                msg: 'Privacy override must be one of: private, public'
+            }
+        }
+    },
+    phonetic_codes: {
+        type: DataTypes.ARRAY(DataTypes.TEXT),
+        defaultValue: []
     }
 }, {
     timestamps: true,
@@ -101,18 +142,30 @@ const Person = sequelize.define('Person', {
             if (person.middle_name) person.middle_name = person.middle_name.trim();
             if (person.last_name) person.last_name = person.last_name.trim();
             if (person.maiden_name) person.maiden_name = person.maiden_name.trim();
+
+            // Write approximate dates' sort keys into the DATE columns
+            applyDateDetail(person, 'birth_date', 'birth_date_detail');
+            applyDateDetail(person, 'death_date', 'death_date_detail');
+        },
+        beforeSave: (person) => {
+            // Kept in step with the names, so searches can match them by sound
+            const nameFields = ['first_name', 'middle_name', 'last_name', 'maiden_name'];
+            if (person.isNewRecord || nameFields.some(field => person.changed(field))) {
+                person.phonetic_codes = phoneticCodes(...nameFields.map(field => person[field]));
+            }
         }
     },
     validate: {
         // Additional model-level validations
         ageCheck() {
             if (this.birth_date && this.death_date) {
-                const birthYear = new Date(this.birth_date).getFullYear();
-                const deathYear = new Date(this.death_date).getFullYear();
-                const age = deathYear - birthYear;
+                const age = getYearSpan(
+                    getDateBounds(this.birth_date, this.birth_date_detail),
+                    getDateBounds(this.death_date, this.death_date_detail)
+                );
                 
-                // Flag unusually high ages (over 120 years)
-                if (age > 120) {
+                // Flag unusually high ages (over 120 years), even at the youngest the dates allow
+                if (age.min !== null && age.min > 120) {
                     throw new Error('Age at death exceeds 120 years. Please verify dates.');
                 }
             }
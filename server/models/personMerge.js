@@ -0,0 +1,51 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const PersonMerge = sequelize.define('PersonMerge', {
+    merge_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    survivor_person_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'persons',
+            key: 'person_id'
+        }
+    },
+    // The merged person no longer exists, so this is kept without a foreign key
+    merged_person_id: {
+        type: DataTypes.UUID,
+        allowNull: false
+    },
+    merged_person_data: {
+        type: DataTypes.JSONB,
+        allowNull: false
+    },
+    survivor_previous_data: {
+        type: DataTypes.JSONB,
+        allowNull: false
+    },
+    field_choices: {
+        type: DataTypes.JSONB,
+        defaultValue: {}
+    },
+    relinked: {
+        type: DataTypes.JSONB,
+        defaultValue: {}
+    },
+    merged_by: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'person_merges'
+});
+
+module.exports = PersonMerge;
@@ -0,0 +1,132 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+const { applyDateDetail, getDateBounds } = require('../utils/genealogicalDate');
+const { phoneticCodes } = require('../utils/phonetics');
+
+/**
+ * Kinds of other names a person can be recorded under
+ */
+const NAME_TYPES = ['birth', 'married', 'alias', 'religious', 'anglicized'];
+
+const PersonName = sequelize.define('PersonName', {
+    name_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    person_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'persons',
+            key: 'person_id'
+        },
+        validate: {
+            notNull: {
+                msg: 'Person is required'
+            }
+        }
+    },
+    name_type: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        validate: {
+            notNull: {
+                msg: 'Name type is required'
+            },
+            isIn: {
+                args: [NAME_TYPES],
+                msg: `Name type must be one of: ${NAME_TYPES.join(', ')}`
+            }
+        }
+    },
+    first_name: {
+        type: DataTypes.STRING(100)
+    },
+    middle_name: {
+        type: DataTypes.STRING(100)
+    },
+    last_name: {
+        type: DataTypes.STRING(100)
+    },
+    start_date: {
+        type: DataTypes.DATE,
+        validate: {
+            isDate: {
+                msg: 'Start date must be a valid date'
+            }
+        }
+    },
+    start_date_detail: {
+        type: DataTypes.JSONB
+    },
+    end_date: {
+        type: DataTypes.DATE,
+        validate: {
+            isDate: {
+                msg: 'End date must be a valid date'
+            },
+            isAfter: function(value) {
+                const start = getDateBounds(this.start_date, this.start_date_detail);
+                const end = getDateBounds(value, this.end_date_detail);
+                if (start && end && start.earliest && end.latest && end.latest < start.earliest) {
+                    throw new Error('End date must not be before start date');
+                }
+            }
+        }
+    },
+    end_date_detail: {
+        type: DataTypes.JSONB
+    },
+    source_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'sources',
+            key: 'source_id'
+        }
+    },
+    notes: {
+        type: DataTypes.TEXT
+    },
+    phonetic_codes: {
+        type: DataTypes.ARRAY(DataTypes.TEXT),
+        defaultValue: []
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'person_names',
+    hooks: {
+        beforeValidate: (personName) => {
+            if (personName.name_type) personName.name_type = personName.name_type.toLowerCase();
+
+            // Trim whitespace from name fields; blank parts are left out
+            ['first_name', 'middle_name', 'last_name'].forEach(field => {
+                if (typeof personName[field] === 'string') {
+                    personName[field] = personName[field].trim() || null;
+                }
+            });
+
+            // Write approximate dates' sort keys into the DATE columns
+            applyDateDetail(personName, 'start_date', 'start_date_detail');
+            applyDateDetail(personName, 'end_date', 'end_date_detail');
+        },
+        beforeSave: (personName) => {
+            const nameFields = ['first_name', 'middle_name', 'last_name'];
+            if (personName.isNewRecord || nameFields.some(field => personName.changed(field))) {
+                personName.phonetic_codes = phoneticCodes(...nameFields.map(field => personName[field]));
+            }
+        }
+    },
+    validate: {
+        hasName() {
+            if (!this.first_name && !this.middle_name && !this.last_name) {
+                throw new Error('A first, middle or last name is required');
+            }
+        }
+    }
+});
+
+PersonName.NAME_TYPES = NAME_TYPES;
+
+module.exports = PersonName;
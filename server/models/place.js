@@ -0,0 +1,113 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+/**
+ * Levels of the place hierarchy, largest first; a place's parent must be of an earlier level
+ */
+const PLACE_TYPES = ['country', 'state', 'county', 'city'];
+
+const Place = sequelize.define('Place', {
+    place_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+            notNull: {
+                msg: 'Place name is required'
+            },
+            notEmpty: {
+                msg: 'Place name cannot be empty'
+            }
+        }
+    },
+    place_type: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        validate: {
+            notNull: {
+                msg: 'Place type is required'
+            },
+            isIn: {
+                args: [PLACE_TYPES],
+                msg: `Place type must be one of: ${PLACE_TYPES.join(', ')}`
+            }
+        }
+    },
+    parent_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'places',
+            key: 'place_id'
+        }
+    },
+    full_name: {
+        type: DataTypes.STRING(1000),
+        allowNull: false
+    },
+    code: {
+        type: DataTypes.STRING(20)
+    },
+    latitude: {
+        type: DataTypes.DECIMAL(9, 6),
+        validate: {
+            min: {
+                args: [-90],
+                msg: 'Latitude must be between -90 and 90'
+            },
+            max: {
+                args: [90],
+                msg: 'Latitude must be between -90 and 90'
+            }
+        }
+    },
+    longitude: {
+        type: DataTypes.DECIMAL(9, 6),
+        validate: {
+            min: {
+                args: [-180],
+                msg: 'Longitude must be between -180 and 180'
+            },
+            max: {
+                args: [180],
+                msg: 'Longitude must be between -180 and 180'
+            }
+        }
+    },
+    gazetteer_id: {
+        type: DataTypes.STRING(100)
+    },
+    notes: {
+        type: DataTypes.TEXT
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'places',
+    hooks: {
+        beforeValidate: (place) => {
+            if (place.place_type) place.place_type = place.place_type.toLowerCase();
+            if (place.name) place.name = place.name.trim();
+            if (place.code) place.code = place.code.trim().toUpperCase();
+
+            // A top-level place is named by itself; the service fills in the jurisdictions of others
+            if (!place.full_name && place.name && !place.parent_id) {
+                place.full_name = place.name;
+            }
+        }
+    },
+    validate: {
+        hasCoordinatePair() {
+            if ((this.latitude === null || this.latitude === undefined) !== (this.longitude === null || this.longitude === undefined)) {
+                throw new Error('Latitude and longitude must be given together');
+            }
+        }
+    }
+});
+
+Place.PLACE_TYPES = PLACE_TYPES;
+
+module.exports = Place;
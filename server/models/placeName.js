@@ -0,0 +1,89 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+const { applyDateDetail, getDateBounds } = require('../utils/genealogicalDate');
+
+const PlaceName = sequelize.define('PlaceName', {
+    place_name_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    place_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'places',
+            key: 'place_id'
+        },
+        validate: {
+            notNull: {
+                msg: 'Place is required'
+            }
+        }
+    },
+    name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+            notNull: {
+                msg: 'Name is required'
+            },
+            notEmpty: {
+                msg: 'Name cannot be empty'
+            }
+        }
+    },
+    parent_id: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'places',
+            key: 'place_id'
+        }
+    },
+    start_date: {
+        type: DataTypes.DATE,
+        validate: {
+            isDate: {
+                msg: 'Start date must be a valid date'
+            }
+        }
+    },
+    start_date_detail: {
+        type: DataTypes.JSONB
+    },
+    end_date: {
+        type: DataTypes.DATE,
+        validate: {
+            isDate: {
+                msg: 'End date must be a valid date'
+            },
+            isAfter: function(value) {
+                const start = getDateBounds(this.start_date, this.start_date_detail);
+                const end = getDateBounds(value, this.end_date_detail);
+                if (start && end && start.earliest && end.latest && end.latest < start.earliest) {
+                    throw new Error('End date must not be before start date');
+                }
+            }
+        }
+    },
+    end_date_detail: {
+        type: DataTypes.JSONB
+    },
+    notes: {
+        type: DataTypes.TEXT
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'place_names',
+    hooks: {
+        beforeValidate: (placeName) => {
+            if (placeName.name) placeName.name = placeName.name.trim();
+
+            applyDateDetail(placeName, 'start_date', 'start_date_detail');
+            applyDateDetail(placeName, 'end_date', 'end_date_detail');
+        }
+    }
+});
+
+module.exports = PlaceName;
@@ -1,5 +1,6 @@
 const { DataTypes } = require('sequelize');
 const { sequelize } = require('../config/database');
+const { applyDateDetail, getDateBounds } = require('../utils/genealogicalDate');
 
 const Relationship = sequelize.define('Relationship', {
     relationship_id: {
@@ -75,12 +76,17 @@ const Relationship = sequelize.define('Relationship', {
                 msg: 'Start date must be a valid date'
             },
             isBefore: function(value) {
-                if (value && this.end_date && new Date(value) >= new Date(this.end_date)) {
+                const start = getDateBounds(value, this.start_date_detail);
+                const end = getDateBounds(this.end_date, this.end_date_detail);
+                if (start && end && start.earliest && end.latest && start.earliest >= end.latest) {
                     throw new Error('Start date must be before end date');
                 }
             }
         }
     },
+    start_date_detail: {
+        type: DataTypes.JSONB
+    },
     end_date: {
         type: DataTypes.DATE,
         validate: {
@@ -88,12 +94,17 @@ const Relationship = sequelize.define('Relationship', {
                 msg: 'End date must be a valid date'
             },
             isAfter: function(value) {
-                if (value && this.start_date && new Date(value) <= new Date(this.start_date)) {
+                const start = getDateBounds(this.start_date, this.start_date_detail);
+                const end = getDateBounds(value, this.end_date_detail);
+                if (start && end && start.earliest && end.latest && end.latest <= start.earliest) {
                     throw new Error('End date must be after start date');
                 }
             }
         }
     },
+    end_date_detail: {
+        type: DataTypes.JSONB
+    },
     notes: {
         type: DataTypes.TEXT
     }
@@ -110,6 +121,10 @@ const Relationship = sequelize.define('Relationship', {
             if (relationship.relationship_qualifier) {
                 relationship.relationship_qualifier = relationship.relationship_qualifier.toLowerCase();
             }
+
+            // Write approximate dates' sort keys into the DATE columns
+            applyDateDetail(relationship, 'start_date', 'start_date_detail');
+            applyDateDetail(relationship, 'end_date', 'end_date_detail');
         },
         beforeCreate: async (relationship) => {
             // Additional validation for specific relationship types
@@ -0,0 +1,27 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const ResearchLogDocument = sequelize.define('ResearchLogDocument', {
+    entry_id: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        references: {
+            model: 'research_log_entries',
+            key: 'entry_id'
+        }
+    },
+    document_id: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        references: {
+            model: 'documents',
+            key: 'document_id'
+        }
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'research_log_documents'
+});
+
+module.exports = ResearchLogDocument;
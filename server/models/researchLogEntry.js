@@ -0,0 +1,71 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+// Outcome of a search; an entry without a result is still under way
+const RESEARCH_RESULTS = ['positive', 'negative', 'inconclusive'];
+
+const ResearchLogEntry = sequelize.define('ResearchLogEntry', {
+    entry_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    project_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'projects',
+            key: 'id'
+        }
+    },
+    title: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+            notEmpty: {
+                msg: 'Research log entry title is required'
+            }
+        },
+        set(value) {
+            this.setDataValue('title', typeof value === 'string' ? value.trim() : value);
+        }
+    },
+    objective: {
+        type: DataTypes.TEXT
+    },
+    repositories_searched: {
+        type: DataTypes.ARRAY(DataTypes.TEXT),
+        defaultValue: []
+    },
+    result: {
+        type: DataTypes.STRING(50),
+        allowNull: true,
+        validate: {
+            isIn: {
+                args: [RESEARCH_RESULTS],
+                msg: `Research result must be one of: ${RESEARCH_RESULTS.join(', ')}`
+            }
+        }
+    },
+    findings: {
+        type: DataTypes.TEXT
+    },
+    searched_on: {
+        type: DataTypes.DATEONLY
+    },
+    created_by: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'research_log_entries'
+});
+
+ResearchLogEntry.RESEARCH_RESULTS = RESEARCH_RESULTS;
+
+module.exports = ResearchLogEntry;
@@ -0,0 +1,27 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const ResearchLogPerson = sequelize.define('ResearchLogPerson', {
+    entry_id: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        references: {
+            model: 'research_log_entries',
+            key: 'entry_id'
+        }
+    },
+    person_id: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        references: {
+            model: 'persons',
+            key: 'person_id'
+        }
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'research_log_persons'
+});
+
+module.exports = ResearchLogPerson;
@@ -0,0 +1,94 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const TASK_PRIORITIES = ['low', 'medium', 'high'];
+const TASK_STATUSES = ['open', 'in_progress', 'done'];
+
+const ResearchTask = sequelize.define('ResearchTask', {
+    task_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    project_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'projects',
+            key: 'id'
+        }
+    },
+    entry_id: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+            model: 'research_log_entries',
+            key: 'entry_id'
+        }
+    },
+    title: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+            notEmpty: {
+                msg: 'Task title is required'
+            }
+        },
+        set(value) {
+            this.setDataValue('title', typeof value === 'string' ? value.trim() : value);
+        }
+    },
+    notes: {
+        type: DataTypes.TEXT
+    },
+    assignee_id: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    },
+    due_date: {
+        type: DataTypes.DATEONLY
+    },
+    priority: {
+        type: DataTypes.STRING(50),
+        defaultValue: 'medium',
+        validate: {
+            isIn: {
+                args: [TASK_PRIORITIES],
+                msg: `Task priority must be one of: ${TASK_PRIORITIES.join(', ')}`
+            }
+        }
+    },
+    status: {
+        type: DataTypes.STRING(50),
+        defaultValue: 'open',
+        validate: {
+            isIn: {
+                args: [TASK_STATUSES],
+                msg: `Task status must be one of: ${TASK_STATUSES.join(', ')}`
+            }
+        }
+    },
+    completed_at: {
+        type: DataTypes.DATE
+    },
+    created_by: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'research_tasks'
+});
+
+ResearchTask.TASK_PRIORITIES = TASK_PRIORITIES;
+ResearchTask.TASK_STATUSES = TASK_STATUSES;
+
+module.exports = ResearchTask;
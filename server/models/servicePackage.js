@@ -0,0 +1,71 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const ServicePackage = sequelize.define('ServicePackage', {
+    package_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+            notNull: {
+                msg: 'Package name is required'
+            },
+            notEmpty: {
+                msg: 'Package name cannot be empty'
+            }
+        }
+    },
+    description: {
+        type: DataTypes.TEXT
+    },
+    features: {
+        type: DataTypes.ARRAY(DataTypes.TEXT),
+        defaultValue: []
+    },
+    price_cents: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        validate: {
+            isInt: {
+                msg: 'Price must be a whole number of cents'
+            },
+            min: {
+                args: [0],
+                msg: 'Price cannot be negative'
+            }
+        }
+    },
+    currency: {
+        type: DataTypes.STRING(3),
+        defaultValue: 'usd'
+    },
+    research_hours: {
+        type: DataTypes.INTEGER
+    },
+    is_active: {
+        type: DataTypes.BOOLEAN,
+        defaultValue: true
+    },
+    sort_order: {
+        type: DataTypes.INTEGER,
+        defaultValue: 0
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'service_packages',
+    hooks: {
+        beforeValidate: (servicePackage) => {
+            // Payment providers expect lowercase ISO currency codes
+            if (servicePackage.currency) {
+                servicePackage.currency = servicePackage.currency.toLowerCase();
+            }
+        }
+    }
+});
+
+module.exports = ServicePackage;
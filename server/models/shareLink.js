@@ -0,0 +1,65 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+const bcrypt = require('bcrypt');
+
+const ShareLink = sequelize.define('ShareLink', {
+    share_link_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    project_id: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        references: {
+            model: 'projects',
+            key: 'id'
+        }
+    },
+    token_hash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true
+    },
+    label: {
+        type: DataTypes.STRING(255),
+        set(value) {
+            this.setDataValue('label', typeof value === 'string' ? value.trim() || null : value);
+        }
+    },
+    password_hash: {
+        type: DataTypes.STRING(255)
+    },
+    expires_at: {
+        type: DataTypes.DATE,
+        allowNull: false
+    },
+    revoked_at: {
+        type: DataTypes.DATE
+    },
+    access_count: {
+        type: DataTypes.INTEGER,
+        defaultValue: 0
+    },
+    last_accessed_at: {
+        type: DataTypes.DATE
+    },
+    created_by: {
+        type: DataTypes.UUID,
+        references: {
+            model: 'users',
+            key: 'user_id'
+        }
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'share_links'
+});
+
+// Instance method to check the password of a protected link
+ShareLink.prototype.validPassword = async function(password) {
+    return Boolean(password) && await bcrypt.compare(password, this.password_hash);
+};
+
+module.exports = ShareLink;
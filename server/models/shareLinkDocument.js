@@ -0,0 +1,27 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const ShareLinkDocument = sequelize.define('ShareLinkDocument', {
+    share_link_id: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        references: {
+            model: 'share_links',
+            key: 'share_link_id'
+        }
+    },
+    document_id: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        references: {
+            model: 'documents',
+            key: 'document_id'
+        }
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'share_link_documents'
+});
+
+module.exports = ShareLinkDocument;
@@ -0,0 +1,92 @@
+const { DataTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+const Source = sequelize.define('Source', {
+    source_id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true
+    },
+    project_id: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+            model: 'projects',
+            key: 'id'
+        }
+    },
+    document_id: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        references: {
+            model: 'documents',
+            key: 'document_id'
+        }
+    },
+    title: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+            notNull: {
+                msg: 'Source title is required'
+            },
+            notEmpty: {
+                msg: 'Source title cannot be empty'
+            }
+        }
+    },
+    author: {
+        type: DataTypes.STRING(255)
+    },
+    publication_info: {
+        type: DataTypes.TEXT
+    },
+    repository: {
+        type: DataTypes.STRING(255)
+    },
+    call_number: {
+        type: DataTypes.STRING(100)
+    },
+    url: {
+        type: DataTypes.STRING(500),
+        validate: {
+            isUrl: {
+                msg: 'Source URL must be a valid URL'
+            }
+        }
+    },
+    classification: {
+        type: DataTypes.STRING(50),
+        validate: {
+            isIn: {
+                args: [['original', 'derivative', 'authored', null, '']],
+                msg: 'Classification must be one of: original, derivative, authored'
+            }
+        }
+    },
+    notes: {
+        type: DataTypes.TEXT
+    }
+}, {
+    timestamps: true,
+    underscored: true,
+    tableName: 'sources',
+    hooks: {
+        beforeValidate: (source) => {
+            // Normalize classification to lowercase
+            if (source.classification) {
+                source.classification = source.classification.toLowerCase();
+            }
+
+            // Trim whitespace from the descriptive fields
+            if (source.title) source.title = source.title.trim();
+            if (source.author) source.author = source.author.trim();
+            if (source.repository) source.repository = source.repository.trim();
+
+            // Store empty optional strings as null so they don't trip the URL check
+            if (source.url === '') source.url = null;
+        }
+    }
+});
+
+module.exports = Source;
@@ -40,6 +40,14 @@ const UserEvent = sequelize.define('UserEvent', {
         type: DataTypes.ARRAY(DataTypes.UUID),
         allowNull: true, // Can be null if event is not project-specific
         defaultValue: []
+    },
+    read_at: {
+        type: DataTypes.DATE,
+        allowNull: true // Null until the recipient reads the event
+    },
+    archived_at: {
+        type: DataTypes.DATE,
+        allowNull: true // Set when the recipient dismisses the event from their inbox
     }
 }, {
     tableName: 'user_events',
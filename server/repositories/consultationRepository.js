@@ -0,0 +1,188 @@
+const BaseRepository = require('./baseRepository');
+const { Op } = require('sequelize');
+const { Consultation, AvailabilitySlot, Project, User } = require('../models');
+
+const USER_ATTRIBUTES = ['user_id', 'first_name', 'last_name', 'email'];
+
+/**
+ * Consultation Repository
+ * Handles data access operations for Consultation entities and the researcher availability slots they are booked in
+ */
+class ConsultationRepository extends BaseRepository {
+    /**
+     * Constructor
+     */
+    constructor() {
+        super(Consultation);
+    }
+
+    /**
+     * Associations loaded with every consultation
+     *
+     * @returns {Array} Sequelize include definitions
+     */
+    _consultationIncludes() {
+        return [
+            {
+                model: Project,
+                as: 'project',
+                attributes: ['id', 'title']
+            },
+            {
+                model: User,
+                as: 'client',
+                attributes: USER_ATTRIBUTES
+            },
+            {
+                model: User,
+                as: 'researcher',
+                attributes: USER_ATTRIBUTES
+            }
+        ];
+    }
+
+    /**
+     * Find a consultation by ID with its project, client and researcher
+     *
+     * @param {String} consultationId - Consultation ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Consultation with related data
+     */
+    async findConsultationById(consultationId, options = {}) {
+        return await this.findById(consultationId, {
+            include: this._consultationIncludes(),
+            ...options
+        });
+    }
+
+    /**
+     * Find consultations, soonest first
+     *
+     * @param {Object} filters - Filters
+     * @param {String} [filters.clientId] - Client ID
+     * @param {String} [filters.researcherId] - Researcher ID
+     * @param {String} [filters.participantId] - ID of a user taking part as client or researcher
+     * @param {String} [filters.projectId] - Project ID
+     * @param {String} [filters.status] - Consultation status
+     * @param {Date} [filters.from] - Earliest start time
+     * @param {Date} [filters.to] - Latest start time
+     * @returns {Promise<Array>} Array of consultations with related data
+     */
+    async findConsultations({ clientId, researcherId, participantId, projectId, status, from, to } = {}) {
+        const where = {};
+
+        if (clientId) where.client_id = clientId;
+        if (researcherId) where.researcher_id = researcherId;
+        if (participantId) where[Op.or] = [{ client_id: participantId }, { researcher_id: participantId }];
+        if (projectId) where.project_id = projectId;
+        if (status) where.status = status;
+
+        if (from || to) {
+            where.starts_at = {};
+            if (from) where.starts_at[Op.gte] = from;
+            if (to) where.starts_at[Op.lte] = to;
+        }
+
+        return await this.findAll({
+            where,
+            include: this._consultationIncludes(),
+            order: [['starts_at', 'ASC']]
+        });
+    }
+
+    /**
+     * Find the scheduled consultation booked in a slot
+     *
+     * @param {String} slotId - Availability slot ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Consultation or null
+     */
+    async findScheduledBySlot(slotId, options = {}) {
+        return await this.findOne({
+            where: { slot_id: slotId, status: 'scheduled' },
+            ...options
+        });
+    }
+
+    /**
+     * Find an availability slot by ID
+     *
+     * @param {String} slotId - Availability slot ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Availability slot or null
+     */
+    async findSlotById(slotId, options = {}) {
+        return await AvailabilitySlot.findByPk(slotId, options);
+    }
+
+    /**
+     * Find availability slots, soonest first, with the scheduled consultation booked in each
+     *
+     * @param {Object} filters - Filters
+     * @param {String} [filters.researcherId] - Researcher ID
+     * @param {Date} [filters.from] - Earliest start time
+     * @param {Date} [filters.to] - Latest start time
+     * @returns {Promise<Array>} Array of availability slots
+     */
+    async findSlots({ researcherId, from, to } = {}) {
+        const where = {};
+
+        if (researcherId) where.researcher_id = researcherId;
+
+        if (from || to) {
+            where.starts_at = {};
+            if (from) where.starts_at[Op.gte] = from;
+            if (to) where.starts_at[Op.lte] = to;
+        }
+
+        return await AvailabilitySlot.findAll({
+            where,
+            include: [
+                {
+                    model: User,
+                    as: 'researcher',
+                    attributes: ['user_id', 'first_name', 'last_name']
+                },
+                {
+                    model: Consultation,
+                    as: 'consultations',
+                    where: { status: 'scheduled' },
+                    required: false,
+                    include: this._consultationIncludes()
+                }
+            ],
+            order: [['starts_at', 'ASC']]
+        });
+    }
+
+    /**
+     * Find a researcher's slots that overlap a time range
+     *
+     * @param {String} researcherId - Researcher ID
+     * @param {Date} startsAt - Range start
+     * @param {Date} endsAt - Range end
+     * @returns {Promise<Array>} Overlapping availability slots
+     */
+    async findOverlappingSlots(researcherId, startsAt, endsAt) {
+        return await AvailabilitySlot.findAll({
+            where: {
+                researcher_id: researcherId,
+                starts_at: { [Op.lt]: endsAt },
+                ends_at: { [Op.gt]: startsAt }
+            }
+        });
+    }
+
+    /**
+     * Create an availability slot
+     *
+     * @param {Object} data - Slot data
+     * @param {Object} options - Create options
+     * @returns {Promise<Object>} Created availability slot
+     */
+    async createSlot(data, options = {}) {
+        return await AvailabilitySlot.create(data, options);
+    }
+}
+
+module.exports = new ConsultationRepository();
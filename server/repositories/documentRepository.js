@@ -2,6 +2,10 @@ const BaseRepository = require('./baseRepository');
 const { Document, Person, DocumentPerson } = require('../models');
 const { Op } = require('sequelize');
 const QueryBuilder = require('../utils/queryBuilder');
+const ProjectUtils = require('../utils/projectUtils');
+
+// A document left in 'processing' this long belongs to an OCR run that died part way
+const STALE_OCR_MS = 30 * 60 * 1000;
 
 /**
  * Document Repository
@@ -29,6 +33,7 @@ class DocumentRepository extends BaseRepository {
      * @param {String} params.uploadDateEnd - Filter by upload date (end)
      * @param {String} params.originalDateStart - Filter by date of original (start)
      * @param {String} params.originalDateEnd - Filter by date of original (end)
+     * @param {Array} params.projectIds - Limit to these projects (all projects when omitted)
      * @returns {Promise<Object>} Paginated result with documents and metadata
      */
     async findDocuments(params = {}) {
@@ -47,7 +52,7 @@ class DocumentRepository extends BaseRepository {
         ];
         
         // Define search fields
-        const searchFields = ['title', 'description', 'source'];
+        const searchFields = ['title', 'description', 'source', 'transcription'];
         
         // Build date range filters
         const dateFilters = {};
@@ -109,12 +114,20 @@ class DocumentRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'persons',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date'],
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail'],
                     through: { attributes: ['relevance', 'notes'] }
                 }
             ];
         }
         
+        // Limit to the projects the user can access
+        if (Array.isArray(params.projectIds)) {
+            queryOptions.where = {
+                ...queryOptions.where,
+                document_id: { [Op.in]: ProjectUtils.projectDocumentsSubquery(params.projectIds) }
+            };
+        }
+        
         // Execute query
         const result = await this.findAndCountAll(queryOptions);
         
@@ -149,7 +162,7 @@ class DocumentRepository extends BaseRepository {
             include.push({
                 model: Person,
                 as: 'persons',
-                attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date'],
+                attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail'],
                 through: { attributes: ['relevance', 'notes'] }
             });
         }
@@ -256,7 +269,7 @@ class DocumentRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'persons',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date'],
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail'],
                     through: { attributes: ['relevance', 'notes'] }
                 }
             ];
@@ -350,6 +363,67 @@ class DocumentRepository extends BaseRepository {
         
         return association;
     }
+
+    /**
+     * Find the links between the given documents and persons
+     *
+     * @param {Array<String>} documentIds - Document IDs
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Associations ({ document_id, person_id })
+     */
+    async findDocumentPersonLinks(documentIds, options = {}) {
+        return await DocumentPerson.findAll({
+            where: { document_id: documentIds },
+            attributes: ['document_id', 'person_id'],
+            ...options
+        });
+    }
+
+    /**
+     * Find documents waiting for their text to be read, oldest first.
+     * Includes documents stuck in 'processing' by an OCR run that stopped part way.
+     *
+     * @param {Number} limit - Maximum number of documents to return
+     * @param {Date} now - Current time
+     * @returns {Promise<Array>} Array of documents
+     */
+    async findDocumentsAwaitingOcr(limit = 5, now = new Date()) {
+        return await this.findAll({
+            where: {
+                [Op.or]: [
+                    { ocr_status: 'pending' },
+                    {
+                        ocr_status: 'processing',
+                        updated_at: { [Op.lte]: new Date(now.getTime() - STALE_OCR_MS) }
+                    }
+                ]
+            },
+            order: [['updated_at', 'ASC']],
+            limit
+        });
+    }
+
+    /**
+     * Claim a document for OCR so concurrent workers do not read it twice.
+     * The claim only succeeds while the document is still in the state it was found in.
+     *
+     * @param {Object} document - Document returned by findDocumentsAwaitingOcr
+     * @param {Date} now - Current time
+     * @returns {Promise<Boolean>} Whether this worker claimed the document
+     */
+    async claimForOcr(document, now = new Date()) {
+        const where = {
+            document_id: document.document_id,
+            ocr_status: document.ocr_status
+        };
+
+        if (document.ocr_status === 'processing') {
+            where.updated_at = { [Op.lte]: new Date(now.getTime() - STALE_OCR_MS) };
+        }
+
+        const affectedCount = await this.bulkUpdate({ ocr_status: 'processing' }, { where });
+        return affectedCount === 1;
+    }
 }
 
 module.exports = new DocumentRepository();
@@ -0,0 +1,70 @@
+const BaseRepository = require('./baseRepository');
+const { Op } = require('sequelize');
+const { OutboxEmail } = require('../models');
+
+// A message left in 'sending' this long belongs to a worker that died mid-delivery
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+/**
+ * Email Outbox Repository
+ * Handles data access operations for queued outgoing emails
+ */
+class EmailOutboxRepository extends BaseRepository {
+    /**
+     * Constructor
+     */
+    constructor() {
+        super(OutboxEmail);
+    }
+
+    /**
+     * Find emails that are due for a delivery attempt, oldest first.
+     * Includes emails stuck in 'sending' by a worker that stopped mid-delivery.
+     *
+     * @param {Number} limit - Maximum number of emails to return
+     * @param {Date} now - Current time
+     * @returns {Promise<Array>} Array of emails
+     */
+    async findDueEmails(limit = 20, now = new Date()) {
+        return await this.findAll({
+            where: {
+                [Op.or]: [
+                    {
+                        status: 'pending',
+                        next_attempt_at: { [Op.lte]: now }
+                    },
+                    {
+                        status: 'sending',
+                        updated_at: { [Op.lte]: new Date(now.getTime() - STALE_SENDING_MS) }
+                    }
+                ]
+            },
+            order: [['next_attempt_at', 'ASC']],
+            limit
+        });
+    }
+
+    /**
+     * Claim an email for delivery so concurrent workers do not send it twice.
+     * The claim only succeeds while the email is still in the state it was found in.
+     *
+     * @param {Object} email - Email returned by findDueEmails
+     * @param {Date} now - Current time
+     * @returns {Promise<Boolean>} Whether this worker claimed the email
+     */
+    async claimEmail(email, now = new Date()) {
+        const where = {
+            email_id: email.email_id,
+            status: email.status
+        };
+
+        if (email.status === 'sending') {
+            where.updated_at = { [Op.lte]: new Date(now.getTime() - STALE_SENDING_MS) };
+        }
+
+        const affectedCount = await this.bulkUpdate({ status: 'sending' }, { where });
+        return affectedCount === 1;
+    }
+}
+
+module.exports = new EmailOutboxRepository();
@@ -0,0 +1,88 @@
+const BaseRepository = require('./baseRepository');
+const { EntityVersion, User } = require('../models');
+
+/**
+ * Entity Version Repository
+ * Handles data access operations for the edit history of persons, events, relationships and documents
+ */
+class EntityVersionRepository extends BaseRepository {
+    /**
+     * Constructor
+     */
+    constructor() {
+        super(EntityVersion);
+    }
+
+    /**
+     * Find the versions of a record, newest first
+     *
+     * @param {String} entityType - Entity type
+     * @param {String} entityId - Entity ID
+     * @param {Object} params - Query parameters
+     * @param {Number} params.page - Page number (1-based)
+     * @param {Number} params.pageSize - Number of versions per page
+     * @returns {Promise<Object>} Paginated result with versions and metadata
+     */
+    async findHistory(entityType, entityId, params = {}) {
+        const page = parseInt(params.page, 10) || 1;
+        const pageSize = parseInt(params.pageSize, 10) || 20;
+
+        const result = await this.findAndCountAll({
+            where: { entity_type: entityType, entity_id: entityId },
+            include: [{
+                model: User,
+                as: 'changedBy',
+                attributes: ['user_id', 'first_name', 'last_name']
+            }],
+            order: [['version_number', 'DESC']],
+            limit: pageSize,
+            offset: (page - 1) * pageSize
+        });
+
+        return {
+            versions: result.rows,
+            metadata: {
+                totalCount: result.count,
+                totalPages: Math.ceil(result.count / pageSize),
+                currentPage: page,
+                pageSize
+            }
+        };
+    }
+
+    /**
+     * Find one version of a record
+     *
+     * @param {String} entityType - Entity type
+     * @param {String} entityId - Entity ID
+     * @param {Number} versionNumber - Version number
+     * @param {Object} options - Query options
+     * @param {Object} options.transaction - Optional transaction
+     * @returns {Promise<Object>} Version or null
+     */
+    async findVersion(entityType, entityId, versionNumber, options = {}) {
+        return await this.findOne({
+            where: { entity_type: entityType, entity_id: entityId, version_number: versionNumber },
+            transaction: options.transaction
+        });
+    }
+
+    /**
+     * Get the number of the newest version of a record
+     *
+     * @param {String} entityType - Entity type
+     * @param {String} entityId - Entity ID
+     * @param {Object} options - Query options
+     * @param {Object} options.transaction - Optional transaction
+     * @returns {Promise<Number>} Version number, 0 when the record has no history
+     */
+    async findLatestVersionNumber(entityType, entityId, options = {}) {
+        const latest = await EntityVersion.max('version_number', {
+            where: { entity_type: entityType, entity_id: entityId },
+            transaction: options.transaction
+        });
+        return latest || 0;
+    }
+}
+
+module.exports = new EntityVersionRepository();
@@ -2,6 +2,7 @@ const BaseRepository = require('./baseRepository');
 const { Event, Person } = require('../models');
 const { Op } = require('sequelize');
 const QueryBuilder = require('../utils/queryBuilder');
+const ProjectUtils = require('../utils/projectUtils');
 
 /**
  * Event Repository
@@ -28,6 +29,7 @@ class EventRepository extends BaseRepository {
      * @param {String} params.eventDateStart - Filter by event date (start)
      * @param {String} params.eventDateEnd - Filter by event date (end)
      * @param {String} params.location - Filter by event location
+     * @param {Array} params.projectIds - Limit to these projects (all projects when omitted)
      * @returns {Promise<Object>} Paginated result with events and metadata
      */
     async findEvents(params = {}) {
@@ -103,11 +105,19 @@ class EventRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'persons', // Add the alias here
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ];
         }
 
+        // Limit to the projects the user can access
+        if (Array.isArray(params.projectIds)) {
+            queryOptions.where = {
+                ...queryOptions.where,
+                event_id: { [Op.in]: ProjectUtils.projectEventsSubquery(params.projectIds) }
+            };
+        }
+
         // Execute query
         const result = await this.findAndCountAll(queryOptions);
 
@@ -142,7 +152,7 @@ class EventRepository extends BaseRepository {
             include.push({
                 model: Person,
                 as: 'persons',
-                attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
             });
         }
 
@@ -204,6 +214,23 @@ class EventRepository extends BaseRepository {
         return events;
     }
 
+    /**
+     * Find the persons linked to each of the given events
+     *
+     * @param {Array<String>} eventIds - Event IDs
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of person-event links ({ event_id, person_id })
+     */
+    async findPersonEventLinks(eventIds, options = {}) {
+        const PersonEvent = require('../models/personEvent');
+
+        return await PersonEvent.findAll({
+            where: { event_id: eventIds },
+            attributes: ['event_id', 'person_id'],
+            ...options
+        });
+    }
+
     /**
      * Find events by type
      * 
@@ -246,16 +273,26 @@ class EventRepository extends BaseRepository {
     /**
      * Find events by location
      * 
-     * @param {String} location - Location to search for
+     * @param {String} location - Location to search for in the location text
      * @param {Object} options - Query options
+     * @param {Array<String>} options.placeIds - Places whose events match; the text is then only
+     *   searched for events without a linked place
      * @returns {Promise<Array>} Array of events
      */
     async findEventsByLocation(location, options = {}) {
+        const { placeIds = [], ...findOptions } = options;
+        const textMatch = { event_location: { [Op.iLike]: `%${location}%` } };
+
         const queryOptions = {
-            where: {
-                event_location: { [Op.iLike]: `%${location}%` }
-            },
-            ...options
+            where: placeIds.length > 0
+                ? {
+                    [Op.or]: [
+                        { event_place_id: { [Op.in]: placeIds } },
+                        { event_place_id: null, ...textMatch }
+                    ]
+                }
+                : textMatch,
+            ...findOptions
         };
 
         return await this.findAll(queryOptions);
@@ -0,0 +1,142 @@
+const { QueryTypes } = require('sequelize');
+const BaseRepository = require('./baseRepository');
+const { sequelize } = require('../config/database');
+const { Order, ServicePackage, Invoice, Project } = require('../models');
+
+/**
+ * Order Repository
+ * Handles data access operations for Order entities, the service packages they buy and their invoices
+ */
+class OrderRepository extends BaseRepository {
+    /**
+     * Constructor
+     */
+    constructor() {
+        super(Order);
+    }
+
+    /**
+     * Associations loaded with every order
+     *
+     * @returns {Array} Sequelize include definitions
+     */
+    _orderIncludes() {
+        return [
+            {
+                model: ServicePackage,
+                as: 'servicePackage',
+                attributes: ['package_id', 'name', 'research_hours']
+            },
+            {
+                model: Project,
+                as: 'project',
+                attributes: ['id', 'title', 'status']
+            },
+            {
+                model: Invoice,
+                as: 'invoice'
+            }
+        ];
+    }
+
+    /**
+     * Find an order by ID with its package, project and invoice
+     *
+     * @param {String} orderId - Order ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Order with related data
+     */
+    async findOrderById(orderId, options = {}) {
+        return await this.findById(orderId, {
+            include: this._orderIncludes(),
+            ...options
+        });
+    }
+
+    /**
+     * Find the order paid through a provider checkout session
+     *
+     * @param {String} provider - Payment provider name
+     * @param {String} sessionId - Provider checkout session ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Order or null
+     */
+    async findOrderBySession(provider, sessionId, options = {}) {
+        return await this.findOne({
+            where: {
+                provider,
+                provider_session_id: sessionId
+            },
+            include: this._orderIncludes(),
+            ...options
+        });
+    }
+
+    /**
+     * Find the orders of a user, newest first
+     *
+     * @param {String} userId - User ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of orders with related data
+     */
+    async findOrdersByUserId(userId, options = {}) {
+        return await this.findAll({
+            where: { user_id: userId },
+            include: this._orderIncludes(),
+            order: [['created_at', 'DESC']],
+            ...options
+        });
+    }
+
+    /**
+     * Find the service packages offered to clients
+     *
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of active service packages in display order
+     */
+    async findActivePackages(options = {}) {
+        return await ServicePackage.findAll({
+            where: { is_active: true },
+            order: [['sort_order', 'ASC'], ['price_cents', 'ASC']],
+            ...options
+        });
+    }
+
+    /**
+     * Find a service package by ID
+     *
+     * @param {String} packageId - Package ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Service package or null
+     */
+    async findPackageById(packageId, options = {}) {
+        return await ServicePackage.findByPk(packageId, options);
+    }
+
+    /**
+     * Create an invoice
+     *
+     * @param {Object} data - Invoice data
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Created invoice
+     */
+    async createInvoice(data, options = {}) {
+        return await Invoice.create(data, options);
+    }
+
+    /**
+     * Take the next number from the invoice number sequence, used to number new invoices
+     *
+     * @param {Object} options - Query options
+     * @returns {Promise<Number>} Sequence number
+     */
+    async nextInvoiceSequence(options = {}) {
+        const [row] = await sequelize.query("SELECT nextval('invoice_number_seq') AS sequence", {
+            type: QueryTypes.SELECT,
+            ...options
+        });
+        return Number(row.sequence);
+    }
+}
+
+module.exports = new OrderRepository();
@@ -1,7 +1,37 @@
 const BaseRepository = require('./baseRepository');
-const { Person, Event, Relationship, Document } = require('../models');
-const { Op } = require('sequelize');
+const { Person, PersonName, Source, Event, Relationship, Document, PersonEvent, DocumentPerson, ProjectPerson, Citation, PersonMerge, User, Place, ResearchLogPerson } = require('../models');
+const { Op, QueryTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
 const QueryBuilder = require('../utils/queryBuilder');
+const ProjectUtils = require('../utils/projectUtils');
+const { phoneticCodes } = require('../utils/phonetics');
+
+// Name columns matched by name searches, on persons and on their other names
+const PERSON_NAME_FIELDS = ['first_name', 'middle_name', 'last_name', 'maiden_name'];
+const OTHER_NAME_FIELDS = ['first_name', 'middle_name', 'last_name'];
+
+// How a pedigree walk steps from a person to the next generation. Parent links are stored both ways
+// ('parent' from the parent, 'child' from the child), so each direction matches either form.
+const PEDIGREE_STEPS = {
+    ancestors: {
+        join: "(r.relationship_type = 'parent' AND r.person2_id = pd.person_id) OR (r.relationship_type = 'child' AND r.person1_id = pd.person_id)",
+        next: "CASE WHEN r.relationship_type = 'parent' THEN r.person1_id ELSE r.person2_id END"
+    },
+    descendants: {
+        join: "(r.relationship_type = 'parent' AND r.person1_id = pd.person_id) OR (r.relationship_type = 'child' AND r.person2_id = pd.person_id)",
+        next: "CASE WHEN r.relationship_type = 'parent' THEN r.person2_id ELSE r.person1_id END"
+    }
+};
+
+// How a person's other names are included with the person, in the order they were used
+const otherNamesInclude = () => ({
+    model: PersonName,
+    as: 'names',
+    attributes: { exclude: ['phonetic_codes'] },
+    include: [{ model: Source, as: 'source', attributes: ['source_id', 'title'] }],
+    separate: true,
+    order: [['start_date', 'ASC'], ['created_at', 'ASC']]
+});
 
 /**
  * Person Repository
@@ -29,6 +59,7 @@ class PersonRepository extends BaseRepository {
      * @param {String} params.birthDateEnd - Filter by birth date (end)
      * @param {String} params.deathDateStart - Filter by death date (start)
      * @param {String} params.deathDateEnd - Filter by death date (end)
+     * @param {Array} params.projectIds - Limit to these projects (all projects when omitted)
      * @returns {Promise<Object>} Paginated result with persons and metadata
      */
     async findPersons(params = {}) {
@@ -102,6 +133,14 @@ class PersonRepository extends BaseRepository {
             };
         }
         
+        // Limit to the projects the user can access
+        if (Array.isArray(params.projectIds)) {
+            queryOptions.where = {
+                ...queryOptions.where,
+                person_id: { [Op.in]: ProjectUtils.projectPersonsSubquery(params.projectIds) }
+            };
+        }
+        
         // Execute query
         const result = await this.findAndCountAll(queryOptions);
         
@@ -133,6 +172,10 @@ class PersonRepository extends BaseRepository {
      */
     async findPersonById(id, options = {}) {
         const include = [];
+
+        if (options.includeNames) {
+            include.push(otherNamesInclude());
+        }
         
         if (options.includeEvents) {
             include.push({
@@ -152,7 +195,7 @@ class PersonRepository extends BaseRepository {
                         {
                             model: Person,
                             as: 'person2',
-                            attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                            attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                         }
                     ]
                 },
@@ -164,7 +207,7 @@ class PersonRepository extends BaseRepository {
                         {
                             model: Person,
                             as: 'person1',
-                            attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                            attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                         }
                     ]
                 }
@@ -183,6 +226,55 @@ class PersonRepository extends BaseRepository {
         return await this.findById(id, { include });
     }
 
+    /**
+     * Walk a person's ancestors or descendants in one recursive query
+     *
+     * @param {String} personId - Person ID
+     * @param {String} direction - ancestors or descendants
+     * @param {Number} maxGenerations - Number of generations to walk
+     * @param {Object} options - Query options (e.g. transaction)
+     * @returns {Promise<Array>} The person (from_id null) and one row per parent-child link walked, each
+     *                           { from_id, qualifier, person_id, first_name, last_name, gender, birth_date, death_date },
+     *                           children in birth order
+     */
+    async findPedigree(personId, direction, maxGenerations, options = {}) {
+        const step = PEDIGREE_STEPS[direction];
+
+        // The path keeps a walk from looping when the data has someone as their own ancestor
+        return await sequelize.query(`
+            WITH RECURSIVE pedigree (from_id, person_id, qualifier, generation, path) AS (
+                SELECT NULL::uuid, p.person_id, NULL::varchar, 0, ARRAY[p.person_id]
+                FROM persons p
+                WHERE p.person_id = :personId
+                UNION ALL
+                SELECT
+                    pd.person_id,
+                    ${step.next},
+                    r.relationship_qualifier::varchar,
+                    pd.generation + 1,
+                    pd.path || ${step.next}
+                FROM pedigree pd
+                JOIN relationships r ON ${step.join}
+                WHERE pd.generation < :maxGenerations
+                    AND NOT (${step.next}) = ANY(pd.path)
+            ),
+            links AS (
+                -- A link stored both ways is walked twice; keep the one that says how the two are related
+                SELECT DISTINCT ON (from_id, person_id) from_id, person_id, qualifier
+                FROM pedigree
+                ORDER BY from_id, person_id, qualifier NULLS LAST
+            )
+            SELECT l.from_id, l.qualifier, p.person_id, p.first_name, p.last_name, p.gender, p.birth_date, p.death_date
+            FROM links l
+            JOIN persons p ON p.person_id = l.person_id
+            ORDER BY p.birth_date NULLS LAST, p.first_name
+        `, {
+            replacements: { personId, maxGenerations },
+            type: QueryTypes.SELECT,
+            ...options
+        });
+    }
+
     /**
      * Find parents of a person
      * 
@@ -199,7 +291,7 @@ class PersonRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ]
         });
@@ -223,7 +315,7 @@ class PersonRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ]
         });
@@ -257,7 +349,7 @@ class PersonRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ]
         });
@@ -294,7 +386,7 @@ class PersonRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ]
         });
@@ -309,7 +401,7 @@ class PersonRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ]
         });
@@ -323,7 +415,9 @@ class PersonRepository extends BaseRepository {
                     relationship_type: rel.relationship_type,
                     relationship_qualifier: rel.relationship_qualifier,
                     start_date: rel.start_date,
-                    end_date: rel.end_date
+                    start_date_detail: rel.start_date_detail,
+                    end_date: rel.end_date,
+                    end_date_detail: rel.end_date_detail
                 }
             })),
             ...spouseRelationships2.map(rel => ({
@@ -333,7 +427,9 @@ class PersonRepository extends BaseRepository {
                     relationship_type: rel.relationship_type,
                     relationship_qualifier: rel.relationship_qualifier,
                     start_date: rel.start_date,
-                    end_date: rel.end_date
+                    start_date_detail: rel.start_date_detail,
+                    end_date: rel.end_date,
+                    end_date_detail: rel.end_date_detail
                 }
             }))
         ];
@@ -561,26 +657,139 @@ class PersonRepository extends BaseRepository {
     }
 
     /**
-     * Find persons by name (partial match on first, middle, or last name)
+     * Find persons by name. Every word searched for must match one of the person's names or other
+     * names, either by spelling or by sound, so "J. Smyth" finds John Smith, also known as Johann Schmidt.
      * 
      * @param {String} name - Name to search for
      * @param {Object} options - Query options
-     * @returns {Promise<Array>} Array of matching persons
+     * @param {Array} options.projectIds - Limit to these projects (all projects when omitted)
+     * @returns {Promise<Array>} Array of matching persons with their other names
      */
     async findByName(name, options = {}) {
-        const searchOptions = {
-            where: {
-                [Op.or]: [
-                    { first_name: { [Op.iLike]: `%${name}%` } },
-                    { middle_name: { [Op.iLike]: `%${name}%` } },
-                    { last_name: { [Op.iLike]: `%${name}%` } },
-                    { maiden_name: { [Op.iLike]: `%${name}%` } }
-                ]
-            },
-            ...options
+        const { projectIds, ...queryOptions } = options;
+        const words = (name || '').replace(/[-_.,]/g, ' ').split(/\s+/).filter(Boolean);
+        if (words.length === 0) return [];
+
+        const where = {
+            [Op.and]: words.map(word => {
+                // A single letter is an initial, matching the start of a name
+                const pattern = word.length > 1 ? `%${word}%` : `${word}%`;
+                const codes = word.length > 1 ? phoneticCodes(word) : [];
+
+                const matches = PERSON_NAME_FIELDS.map(field => ({ [field]: { [Op.iLike]: pattern } }));
+                if (codes.length > 0) {
+                    matches.push({ phonetic_codes: { [Op.overlap]: codes } });
+                }
+                matches.push({ person_id: { [Op.in]: this._otherNamesSubquery(pattern, codes) } });
+
+                return { [Op.or]: matches };
+            })
         };
-        
-        return await this.findAll(searchOptions);
+
+        // Limit to the projects the user can access
+        if (Array.isArray(projectIds)) {
+            where[Op.and].push({ person_id: { [Op.in]: ProjectUtils.projectPersonsSubquery(projectIds) } });
+        }
+
+        return await this.findAll({
+            where,
+            include: [otherNamesInclude()],
+            order: [['last_name', 'ASC'], ['first_name', 'ASC']],
+            ...queryOptions
+        });
+    }
+
+    /**
+     * Builds a subquery selecting the persons with another name matching a pattern or sounding like a word
+     *
+     * @param {String} pattern - ILIKE pattern
+     * @param {Array} codes - Phonetic codes of the word
+     * @returns {Object} A Sequelize literal usable with Op.in
+     * @private
+     */
+    _otherNamesSubquery(pattern, codes) {
+        const conditions = OTHER_NAME_FIELDS.map(field => `${field} ILIKE ${sequelize.escape(pattern)}`);
+        if (codes.length > 0) {
+            conditions.push(`phonetic_codes && ARRAY[${codes.map(code => sequelize.escape(code)).join(', ')}]::TEXT[]`);
+        }
+
+        return sequelize.literal(`(SELECT person_id FROM person_names WHERE ${conditions.join(' OR ')})`);
+    }
+
+    /**
+     * Find the other names of a person, in the order they were used
+     *
+     * @param {String} personId - Person ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Names with the sources they were found in
+     */
+    async findNamesByPersonId(personId, options = {}) {
+        const { include, attributes, order } = otherNamesInclude();
+
+        return await PersonName.findAll({
+            where: { person_id: personId },
+            attributes,
+            include,
+            order,
+            ...options
+        });
+    }
+
+    /**
+     * Find another name of a person by ID
+     *
+     * @param {String} nameId - Name ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Name with its source, or null
+     */
+    async findNameById(nameId, options = {}) {
+        const { include, attributes } = otherNamesInclude();
+
+        return await PersonName.findByPk(nameId, { attributes, include, ...options });
+    }
+
+    /**
+     * Create another name for a person
+     *
+     * @param {Object} data - Name data
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Created name
+     */
+    async createName(data, options = {}) {
+        return await PersonName.create(data, options);
+    }
+
+    /**
+     * Update another name of a person
+     *
+     * @param {String} nameId - Name ID
+     * @param {Object} data - Name data to update
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Updated name
+     */
+    async updateName(nameId, data, options = {}) {
+        const personName = await PersonName.findByPk(nameId, options);
+        if (!personName) {
+            throw new Error(`Name with id ${nameId} not found`);
+        }
+
+        return await personName.update(data, options);
+    }
+
+    /**
+     * Delete another name of a person
+     *
+     * @param {String} nameId - Name ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Boolean>} True if a name was deleted
+     */
+    async deleteName(nameId, options = {}) {
+        const count = await PersonName.destroy({
+            where: { name_id: nameId },
+            ...options
+        });
+
+        return count > 0;
     }
 
     /**
@@ -628,23 +837,257 @@ class PersonRepository extends BaseRepository {
     /**
      * Find persons by location (birth or death location)
      * 
-     * @param {String} location - Location to search for
+     * @param {String} location - Location to search for in the location text
      * @param {Object} options - Query options
+     * @param {Array<String>} options.placeIds - Places whose persons match; the text is then only
+     *   searched for locations without a linked place
      * @returns {Promise<Array>} Array of matching persons
      */
     async findByLocation(location, options = {}) {
+        const { placeIds = [], ...findOptions } = options;
+        const pattern = `%${location}%`;
+        const matches = placeIds.length > 0
+            ? [
+                { birth_place_id: { [Op.in]: placeIds } },
+                { death_place_id: { [Op.in]: placeIds } },
+                { birth_place_id: null, birth_location: { [Op.iLike]: pattern } },
+                { death_place_id: null, death_location: { [Op.iLike]: pattern } }
+            ]
+            : [
+                { birth_location: { [Op.iLike]: pattern } },
+                { death_location: { [Op.iLike]: pattern } }
+            ];
+
         const locationOptions = {
-            where: {
-                [Op.or]: [
-                    { birth_location: { [Op.iLike]: `%${location}%` } },
-                    { death_location: { [Op.iLike]: `%${location}%` } }
-                ]
-            },
-            ...options
+            where: { [Op.or]: matches },
+            ...findOptions
         };
         
         return await this.findAll(locationOptions);
     }
+
+    /**
+     * Find persons with their linked birth and death places and the events of the given types,
+     * each with its linked place
+     *
+     * @param {Array<String>} personIds - Person IDs
+     * @param {Array<String>} eventTypes - Event types to include
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Persons with events
+     */
+    async findWithPlacedEvents(personIds, eventTypes, options = {}) {
+        if (personIds.length === 0) return [];
+
+        const placeAttributes = ['place_id', 'full_name', 'latitude', 'longitude'];
+
+        return await this.findAll({
+            where: { person_id: { [Op.in]: personIds } },
+            include: [
+                { model: Place, as: 'birthPlace', attributes: placeAttributes },
+                { model: Place, as: 'deathPlace', attributes: placeAttributes },
+                {
+                    model: Event,
+                    as: 'events',
+                    required: false,
+                    where: { event_type: { [Op.in]: eventTypes } },
+                    through: { attributes: ['role'] },
+                    include: [{ model: Place, as: 'place', attributes: placeAttributes }]
+                }
+            ],
+            ...options
+        });
+    }
+
+    /**
+     * Find persons with all the events they are linked to, each with the person's role in it
+     *
+     * @param {Array<String>} personIds - Person IDs
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Persons with events
+     */
+    async findWithEvents(personIds, options = {}) {
+        if (personIds.length === 0) return [];
+
+        return await this.findAll({
+            where: { person_id: { [Op.in]: personIds } },
+            include: [{
+                model: Event,
+                as: 'events',
+                required: false,
+                through: { attributes: ['role'] }
+            }],
+            ...options
+        });
+    }
+
+    /**
+     * Find persons who could be duplicates of a person: those whose given name and one of whose
+     * surnames start with the same letters (the first letter is kept by phonetic codes), excluding
+     * the opposite gender. The candidates are scored afterwards.
+     *
+     * @param {Object} person - Person to find duplicates of
+     * @param {Object} options - Query options
+     * @param {Number} options.limit - Maximum number of candidates
+     * @returns {Promise<Array>} Candidate persons
+     */
+    async findDuplicateCandidates(person, options = {}) {
+        const surnameInitials = [person.last_name, person.maiden_name]
+            .filter(Boolean)
+            .map(name => name.trim().charAt(0))
+            .filter(Boolean);
+
+        const where = {
+            person_id: { [Op.ne]: person.person_id },
+            first_name: { [Op.iLike]: `${person.first_name.trim().charAt(0)}%` },
+            [Op.or]: surnameInitials.flatMap(initial => [
+                { last_name: { [Op.iLike]: `${initial}%` } },
+                { maiden_name: { [Op.iLike]: `${initial}%` } }
+            ])
+        };
+
+        if (person.gender && person.gender !== 'unknown') {
+            where.gender = { [Op.or]: [person.gender, 'unknown', null] };
+        }
+
+        return await this.findAll({
+            where,
+            order: [['last_name', 'ASC'], ['first_name', 'ASC']],
+            limit: options.limit || 500
+        });
+    }
+
+    /**
+     * Move everything linked to one person over to another: relationships, events, documents,
+     * projects, citations and other names. Links the target already has are dropped instead of duplicated, as are
+     * relationships between the two persons.
+     *
+     * @param {String} fromId - Person the links are taken from
+     * @param {String} toId - Person the links are moved to
+     * @param {Object} options - Query options
+     * @param {Object} options.transaction - Transaction
+     * @returns {Promise<Object>} Number of links moved and dropped, by kind
+     */
+    async reassignPersonLinks(fromId, toId, options = {}) {
+        const { transaction } = options;
+        const result = {
+            relationships: 0,
+            relationships_dropped: 0,
+            events: 0,
+            documents: 0,
+            projects: 0,
+            citations: 0,
+            names: 0,
+            research_log: 0
+        };
+
+        // Relationships are compared as "parent → child" or as an unordered pair for the symmetric types
+        const relationshipKey = (type, person1Id, person2Id) => {
+            if (type === 'child') return `parent:${person2Id}:${person1Id}`;
+            if (type === 'parent') return `parent:${person1Id}:${person2Id}`;
+            return `${type}:${[person1Id, person2Id].sort().join(':')}`;
+        };
+
+        const existing = await Relationship.findAll({
+            where: { [Op.or]: [{ person1_id: toId }, { person2_id: toId }] },
+            transaction
+        });
+        const existingByKey = new Map(existing.map(rel => [
+            relationshipKey(rel.relationship_type, rel.person1_id, rel.person2_id),
+            rel
+        ]));
+
+        const moving = await Relationship.findAll({
+            where: { [Op.or]: [{ person1_id: fromId }, { person2_id: fromId }] },
+            transaction
+        });
+
+        for (const rel of moving) {
+            const person1Id = rel.person1_id === fromId ? toId : rel.person1_id;
+            const person2Id = rel.person2_id === fromId ? toId : rel.person2_id;
+            const duplicate = existingByKey.get(relationshipKey(rel.relationship_type, person1Id, person2Id));
+
+            if (person1Id === person2Id || duplicate) {
+                // Evidence for a dropped relationship stays with the one it duplicates
+                const citationWhere = { entity_type: 'relationship', entity_id: rel.relationship_id };
+                if (duplicate) {
+                    await Citation.update({ entity_id: duplicate.relationship_id }, { where: citationWhere, transaction });
+                } else {
+                    await Citation.destroy({ where: citationWhere, transaction });
+                }
+                await rel.destroy({ transaction });
+                result.relationships_dropped += 1;
+                continue;
+            }
+
+            await rel.update({ person1_id: person1Id, person2_id: person2Id }, { transaction });
+            existingByKey.set(relationshipKey(rel.relationship_type, person1Id, person2Id), rel);
+            result.relationships += 1;
+        }
+
+        // Junction rows are keyed by person, so rows the target already has are deleted instead of moved
+        const junctions = [
+            [PersonEvent, 'event_id', 'events'],
+            [DocumentPerson, 'document_id', 'documents'],
+            [ProjectPerson, 'project_id', 'projects'],
+            [ResearchLogPerson, 'entry_id', 'research_log']
+        ];
+
+        for (const [model, key, label] of junctions) {
+            const targetIds = (await model.findAll({ where: { person_id: toId }, attributes: [key], transaction }))
+                .map(row => row[key]);
+
+            if (targetIds.length > 0) {
+                await model.destroy({ where: { person_id: fromId, [key]: targetIds }, transaction });
+            }
+
+            const [moved] = await model.update({ person_id: toId }, { where: { person_id: fromId }, transaction });
+            result[label] = moved;
+        }
+
+        const [citations] = await Citation.update(
+            { entity_id: toId },
+            { where: { entity_type: 'person', entity_id: fromId }, transaction }
+        );
+        result.citations = citations;
+
+        // Only the owner changes, so the names need no validating (which would look for name parts in the update)
+        const [names] = await PersonName.update(
+            { person_id: toId },
+            { where: { person_id: fromId }, transaction, validate: false }
+        );
+        result.names = names;
+
+        return result;
+    }
+
+    /**
+     * Record a merge of two persons
+     *
+     * @param {Object} data - Merge record data
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Created merge record
+     */
+    async createMergeRecord(data, options = {}) {
+        return await PersonMerge.create(data, options);
+    }
+
+    /**
+     * Find the merges into a person, newest first
+     *
+     * @param {String} personId - Surviving person ID
+     * @returns {Promise<Array>} Merge records with the user who merged
+     */
+    async findMergesForPerson(personId) {
+        return await PersonMerge.findAll({
+            where: { survivor_person_id: personId },
+            include: [{
+                model: User,
+                as: 'mergedBy',
+                attributes: ['user_id', 'first_name', 'last_name']
+            }],
+            order: [['created_at', 'DESC']]
+        });
+    }
 }
 
 module.exports = new PersonRepository();
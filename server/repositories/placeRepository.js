@@ -0,0 +1,266 @@
+const BaseRepository = require('./baseRepository');
+const { Place, PlaceName, Person, Event } = require('../models');
+const { sequelize } = require('../config/database');
+const { Op } = require('sequelize');
+
+// Longest location text persons and events can hold
+const LOCATION_LENGTH = 255;
+
+/**
+ * Place Repository
+ * Handles data access operations for Place entities and their other names
+ */
+class PlaceRepository extends BaseRepository {
+    /**
+     * Constructor
+     */
+    constructor() {
+        super(Place);
+    }
+
+    /**
+     * Find a place by ID with optional related data
+     *
+     * @param {String} id - Place ID
+     * @param {Object} options - Query options
+     * @param {Boolean} options.includeNames - Include the other and historical names of the place
+     * @param {Boolean} options.includeChildren - Include the places directly within it
+     * @param {Object} options.transaction - Optional transaction
+     * @returns {Promise<Object>} Place with related data
+     */
+    async findPlaceById(id, options = {}) {
+        const include = [
+            {
+                model: Place,
+                as: 'parent',
+                attributes: ['place_id', 'name', 'place_type', 'full_name']
+            }
+        ];
+
+        if (options.includeNames) {
+            include.push({
+                model: PlaceName,
+                as: 'names',
+                separate: true,
+                include: [{ model: Place, as: 'parent', attributes: ['place_id', 'name', 'full_name'] }],
+                order: [['start_date', 'ASC'], ['name', 'ASC']]
+            });
+        }
+
+        if (options.includeChildren) {
+            include.push({
+                model: Place,
+                as: 'children',
+                attributes: ['place_id', 'name', 'place_type', 'full_name'],
+                separate: true,
+                order: [['name', 'ASC']]
+            });
+        }
+
+        return await this.findById(id, { include, transaction: options.transaction });
+    }
+
+    /**
+     * Search places by name, full name or any of their other names
+     *
+     * @param {String} query - Text to search for
+     * @param {Object} options - Query options
+     * @param {String} options.placeType - Only places of this type
+     * @param {String} options.parentId - Only places directly within this place
+     * @param {Number} options.limit - Maximum number of places
+     * @returns {Promise<Array>} Array of places, by full name
+     */
+    async searchPlaces(query, options = {}) {
+        const where = {};
+
+        if (query) {
+            const pattern = `%${query}%`;
+            where[Op.or] = [
+                { full_name: { [Op.iLike]: pattern } },
+                { place_id: { [Op.in]: sequelize.literal(`(SELECT place_id FROM place_names WHERE name ILIKE ${sequelize.escape(pattern)})`) } }
+            ];
+        }
+        if (options.placeType) where.place_type = options.placeType;
+        if (options.parentId !== undefined) where.parent_id = options.parentId;
+
+        return await this.findAll({
+            where,
+            order: [['full_name', 'ASC']],
+            limit: options.limit
+        });
+    }
+
+    /**
+     * Find a place directly within another by its code, name or one of its other names
+     *
+     * @param {String|null} parentId - Enclosing place ID; null for countries and other top-level places
+     * @param {Object} place - Place to find
+     * @param {String} place.place_type - Place type
+     * @param {String} place.name - Place name
+     * @param {String} place.code - Country or state code
+     * @param {Object} options - Query options
+     * @returns {Promise<Object|null>} Place
+     */
+    async findChildPlace(parentId, { place_type, name, code }, options = {}) {
+        const lowerName = (name || '').trim().toLowerCase();
+        const matches = [
+            sequelize.where(sequelize.fn('LOWER', sequelize.col('name')), lowerName),
+            { place_id: { [Op.in]: sequelize.literal(`(SELECT place_id FROM place_names WHERE LOWER(name) = ${sequelize.escape(lowerName)})`) } }
+        ];
+        if (code) matches.unshift({ code: code.trim().toUpperCase() });
+
+        return await this.findOne({
+            where: {
+                parent_id: parentId || { [Op.is]: null },
+                place_type,
+                [Op.or]: matches
+            },
+            transaction: options.transaction
+        });
+    }
+
+    /**
+     * Find places named exactly as given, by name, full name or one of their other names
+     *
+     * @param {String} name - Place name, e.g. "Co. Cork" or "Cork, County Cork, Ireland"
+     * @returns {Promise<Array>} Array of places
+     */
+    async findPlacesByName(name) {
+        const lowerName = name.trim().toLowerCase();
+
+        return await this.findAll({
+            where: {
+                [Op.or]: [
+                    sequelize.where(sequelize.fn('LOWER', sequelize.col('name')), lowerName),
+                    sequelize.where(sequelize.fn('LOWER', sequelize.col('full_name')), lowerName),
+                    { place_id: { [Op.in]: sequelize.literal(`(SELECT place_id FROM place_names WHERE LOWER(name) = ${sequelize.escape(lowerName)})`) } }
+                ]
+            }
+        });
+    }
+
+    /**
+     * Get the IDs of places and every place within them, at any depth
+     *
+     * @param {Array<String>} placeIds - Place IDs
+     * @param {Object} options - Query options
+     * @returns {Promise<Array<String>>} Place IDs, including the given ones
+     */
+    async findSubtreeIds(placeIds, options = {}) {
+        if (placeIds.length === 0) return [];
+
+        const rows = await sequelize.query(`
+            WITH RECURSIVE subtree AS (
+                SELECT place_id FROM places WHERE place_id IN (:placeIds)
+                UNION
+                SELECT p.place_id FROM places p JOIN subtree s ON p.parent_id = s.place_id
+            )
+            SELECT place_id FROM subtree
+        `, {
+            replacements: { placeIds },
+            type: sequelize.QueryTypes.SELECT,
+            transaction: options.transaction
+        });
+
+        return rows.map(row => row.place_id);
+    }
+
+    /**
+     * Find the places directly within a place
+     *
+     * @param {String} parentId - Place ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of places
+     */
+    async findChildren(parentId, options = {}) {
+        return await this.findAll({ where: { parent_id: parentId }, ...options });
+    }
+
+    /**
+     * Count the persons and events linked to a place
+     *
+     * @param {String} placeId - Place ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Counts of persons and events
+     */
+    async countUsage(placeId, options = {}) {
+        const [persons, events] = await Promise.all([
+            Person.count({
+                where: { [Op.or]: [{ birth_place_id: placeId }, { death_place_id: placeId }] },
+                transaction: options.transaction
+            }),
+            Event.count({ where: { event_place_id: placeId }, transaction: options.transaction })
+        ]);
+
+        return { persons, events };
+    }
+
+    /**
+     * Rewrite the location text of persons and events linked to a place, after the place was renamed or moved
+     *
+     * @param {Object} place - Place with its new full name
+     * @param {Object} options - Query options
+     * @returns {Promise<void>}
+     */
+    async updateLinkedLocations(place, options = {}) {
+        const location = place.full_name.slice(0, LOCATION_LENGTH);
+        const updateOptions = { transaction: options.transaction };
+
+        await Person.update({ birth_location: location }, { where: { birth_place_id: place.place_id }, ...updateOptions });
+        await Person.update({ death_location: location }, { where: { death_place_id: place.place_id }, ...updateOptions });
+        await Event.update({ event_location: location }, { where: { event_place_id: place.place_id }, ...updateOptions });
+    }
+
+    /**
+     * Find another name of a place by ID
+     *
+     * @param {String} placeNameId - Place name ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Place name
+     */
+    async findPlaceNameById(placeNameId, options = {}) {
+        return await PlaceName.findByPk(placeNameId, options);
+    }
+
+    /**
+     * Create another name for a place
+     *
+     * @param {Object} nameData - Place name data
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Created place name
+     */
+    async createPlaceName(nameData, options = {}) {
+        return await PlaceName.create(nameData, options);
+    }
+
+    /**
+     * Update another name of a place
+     *
+     * @param {String} placeNameId - Place name ID
+     * @param {Object} nameData - Place name data to update
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Updated place name
+     */
+    async updatePlaceName(placeNameId, nameData, options = {}) {
+        const placeName = await PlaceName.findByPk(placeNameId, options);
+        if (!placeName) {
+            throw new Error(`Place name with id ${placeNameId} not found`);
+        }
+
+        return await placeName.update(nameData, options);
+    }
+
+    /**
+     * Delete another name of a place
+     *
+     * @param {String} placeNameId - Place name ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Boolean>} True if deleted
+     */
+    async deletePlaceName(placeNameId, options = {}) {
+        const deleted = await PlaceName.destroy({ where: { place_name_id: placeNameId }, ...options });
+        return deleted > 0;
+    }
+}
+
+module.exports = new PlaceRepository();
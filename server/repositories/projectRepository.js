@@ -1,5 +1,5 @@
 const BaseRepository = require('./baseRepository');
-const { Project, Person, ProjectPerson, Event, Document } = require('../models');
+const { Project, Person, ProjectPerson, Event, Document, User, Role } = require('../models');
 const { Op } = require('sequelize');
 const QueryBuilder = require('../utils/queryBuilder');
 
@@ -137,7 +137,7 @@ class ProjectRepository extends BaseRepository {
                     include: [{
                         model: Person,
                         as: 'person2',
-                        attributes: ['person_id', 'first_name', 'last_name', 'middle_name', 'gender', 'birth_date', 'death_date']
+                        attributes: ['person_id', 'first_name', 'last_name', 'middle_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                     }]
                 });
                 personInclude.include.push({
@@ -147,7 +147,7 @@ class ProjectRepository extends BaseRepository {
                     include: [{
                         model: Person,
                         as: 'person1',
-                        attributes: ['person_id', 'first_name', 'last_name', 'middle_name', 'gender', 'birth_date', 'death_date']
+                        attributes: ['person_id', 'first_name', 'last_name', 'middle_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                     }]
                 });
             }
@@ -292,6 +292,37 @@ class ProjectRepository extends BaseRepository {
 
         return count > 0;
     }
+
+    /**
+     * Find a project with its researcher and the users who have access to it, including their roles
+     * @param {String} projectId - Project ID
+     * @returns {Promise<Object>} Project with researcher and Users
+     */
+    async findProjectWithMembers(projectId) {
+        const userAttributes = ['user_id', 'email', 'first_name', 'last_name', 'is_active'];
+
+        return await this.findById(projectId, {
+            include: [
+                {
+                    model: User,
+                    as: 'researcher',
+                    attributes: userAttributes,
+                    required: false
+                },
+                {
+                    model: User,
+                    attributes: userAttributes,
+                    through: { attributes: [] },
+                    required: false,
+                    include: [{
+                        model: Role,
+                        attributes: ['name'],
+                        through: { attributes: [] }
+                    }]
+                }
+            ]
+        });
+    }
 }
 
 module.exports = new ProjectRepository();
@@ -1,7 +1,9 @@
 const BaseRepository = require('./baseRepository');
 const { Relationship, Person } = require('../models');
-const { Op } = require('sequelize');
+const { Op, QueryTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
 const QueryBuilder = require('../utils/queryBuilder');
+const ProjectUtils = require('../utils/projectUtils');
 
 /**
  * Relationship Repository
@@ -29,6 +31,7 @@ class RelationshipRepository extends BaseRepository {
      * @param {String} params.startDateEnd - Filter by start date (end)
      * @param {String} params.endDateStart - Filter by end date (start)
      * @param {String} params.endDateEnd - Filter by end date (end)
+     * @param {Array} params.projectIds - Limit to these projects (all projects when omitted)
      * @returns {Promise<Object>} Paginated result with relationships and metadata
      */
     async findRelationships(params = {}) {
@@ -100,17 +103,29 @@ class RelationshipRepository extends BaseRepository {
             };
         }
 
+        // Limit to the projects the user can access: relationships involving one of their persons
+        if (Array.isArray(params.projectIds)) {
+            const projectPersons = ProjectUtils.projectPersonsSubquery(params.projectIds);
+            queryOptions.where = {
+                ...queryOptions.where,
+                [Op.or]: [
+                    { person1_id: { [Op.in]: projectPersons } },
+                    { person2_id: { [Op.in]: projectPersons } }
+                ]
+            };
+        }
+
         // Add include for person data
         queryOptions.include = [
             {
                 model: Person,
                 as: 'person1',
-                attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
             },
             {
                 model: Person,
                 as: 'person2',
-                attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
             }
         ];
 
@@ -145,12 +160,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ]
         });
@@ -175,12 +190,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ],
             ...options
@@ -205,12 +220,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ],
             ...options
@@ -235,12 +250,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ],
             ...options
@@ -274,12 +289,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ]
         });
@@ -300,12 +315,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ],
             ...options
@@ -329,12 +344,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ],
             ...options
@@ -363,12 +378,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ],
             ...options
@@ -395,12 +410,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ],
             ...options
@@ -427,12 +442,12 @@ class RelationshipRepository extends BaseRepository {
                 {
                     model: Person,
                     as: 'person1',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 },
                 {
                     model: Person,
                     as: 'person2',
-                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'death_date']
+                    attributes: ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail']
                 }
             ],
             ...options
@@ -487,6 +502,83 @@ class RelationshipRepository extends BaseRepository {
 
         return await this.findAll(queryOptions);
     }
+
+    /**
+     * Find the ancestors of persons with a recursive query that follows parent links through the
+     * person indexes, so only the persons' own lines are read. Each row is one line of descent.
+     *
+     * @param {Array} personIds - Person IDs to trace
+     * @param {Number} maxGenerations - Generations to go back
+     * @param {Object} options - Query options (e.g. transaction)
+     * @returns {Promise<Array>} Rows ({ origin_id, ancestor_id, generation, path, via_step, last_qualifier }),
+     *                           including each person as their own ancestor at generation 0
+     */
+    async findLineages(personIds, maxGenerations, options = {}) {
+        if (personIds.length === 0) return [];
+
+        // Parent links are stored both ways ('parent' from the parent, 'child' from the child)
+        return await sequelize.query(`
+            WITH RECURSIVE lineage (origin_id, ancestor_id, generation, path, via_step, last_qualifier) AS (
+                SELECT p.person_id, p.person_id, 0, ARRAY[p.person_id], false, NULL::varchar
+                FROM persons p
+                WHERE p.person_id IN (:personIds)
+                UNION
+                SELECT
+                    l.origin_id,
+                    CASE WHEN r.relationship_type = 'parent' THEN r.person1_id ELSE r.person2_id END,
+                    l.generation + 1,
+                    l.path || CASE WHEN r.relationship_type = 'parent' THEN r.person1_id ELSE r.person2_id END,
+                    l.via_step OR COALESCE(r.relationship_qualifier = 'step', false),
+                    r.relationship_qualifier::varchar
+                FROM lineage l
+                JOIN relationships r
+                    ON (r.relationship_type = 'parent' AND r.person2_id = l.ancestor_id)
+                    OR (r.relationship_type = 'child' AND r.person1_id = l.ancestor_id)
+                WHERE l.generation < :maxGenerations
+                    AND NOT (CASE WHEN r.relationship_type = 'parent' THEN r.person1_id ELSE r.person2_id END) = ANY(l.path)
+            )
+            SELECT origin_id, ancestor_id, generation, path, via_step, last_qualifier
+            FROM lineage
+        `, {
+            replacements: { personIds, maxGenerations },
+            type: QueryTypes.SELECT,
+            ...options
+        });
+    }
+
+    /**
+     * Find the spouses of persons
+     *
+     * @param {Array} personIds - Person IDs
+     * @param {Object} options - Query options (e.g. transaction)
+     * @returns {Promise<Map>} Spouse IDs by person ID
+     */
+    async findSpouseIds(personIds, options = {}) {
+        const relationships = await this.findAll({
+            where: {
+                relationship_type: 'spouse',
+                [Op.or]: [
+                    { person1_id: { [Op.in]: personIds } },
+                    { person2_id: { [Op.in]: personIds } }
+                ]
+            },
+            attributes: ['person1_id', 'person2_id'],
+            ...options
+        });
+
+        const spouses = new Map();
+        const add = (personId, spouseId) => {
+            if (!spouses.has(personId)) spouses.set(personId, []);
+            if (!spouses.get(personId).includes(spouseId)) spouses.get(personId).push(spouseId);
+        };
+
+        relationships.forEach(({ person1_id, person2_id }) => {
+            add(person1_id, person2_id);
+            add(person2_id, person1_id);
+        });
+
+        return spouses;
+    }
 }
 
 module.exports = new RelationshipRepository();
@@ -0,0 +1,220 @@
+const BaseRepository = require('./baseRepository');
+const { ResearchLogEntry, ResearchLogPerson, ResearchLogDocument, ResearchTask, Person, Document, Project, User } = require('../models');
+const { sequelize } = require('../config/database');
+const { Op } = require('sequelize');
+
+// Related data shown with every log entry
+const entryIncludes = () => [
+    {
+        model: Person,
+        as: 'persons',
+        attributes: ['person_id', 'first_name', 'last_name'],
+        through: { attributes: [] }
+    },
+    {
+        model: Document,
+        as: 'documents',
+        attributes: ['document_id', 'title', 'document_type'],
+        through: { attributes: [] }
+    },
+    {
+        model: User,
+        as: 'author',
+        attributes: ['user_id', 'first_name', 'last_name']
+    }
+];
+
+const assigneeInclude = {
+    model: User,
+    as: 'assignee',
+    attributes: ['user_id', 'first_name', 'last_name']
+};
+
+/**
+ * Research Log Repository
+ * Handles data access operations for research log entries and the research tasks of projects
+ */
+class ResearchLogRepository extends BaseRepository {
+    /**
+     * Constructor
+     */
+    constructor() {
+        super(ResearchLogEntry);
+    }
+
+    /**
+     * Find a log entry by ID with the persons and documents it is linked to
+     *
+     * @param {String} entryId - Entry ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Entry with related data
+     */
+    async findEntryById(entryId, options = {}) {
+        return await this.findById(entryId, {
+            include: entryIncludes(),
+            ...options
+        });
+    }
+
+    /**
+     * Find the log entries of a project, most recent search first
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of entries with related data
+     */
+    async findEntriesByProjectId(projectId, options = {}) {
+        return await this.findAll({
+            where: { project_id: projectId },
+            include: entryIncludes(),
+            order: [
+                [sequelize.literal('"ResearchLogEntry"."searched_on" IS NULL'), 'ASC'],
+                ['searched_on', 'DESC'],
+                ['created_at', 'DESC']
+            ],
+            ...options
+        });
+    }
+
+    /**
+     * Replace the persons and documents a log entry is linked to.
+     * A list that is not given is left unchanged.
+     *
+     * @param {String} entryId - Entry ID
+     * @param {Object} links - Links to set
+     * @param {Array<String>} [links.personIds] - Person IDs
+     * @param {Array<String>} [links.documentIds] - Document IDs
+     * @param {Object} options - Query options
+     */
+    async setEntryLinks(entryId, { personIds, documentIds }, options = {}) {
+        if (personIds) {
+            await ResearchLogPerson.destroy({ where: { entry_id: entryId }, ...options });
+            await ResearchLogPerson.bulkCreate(
+                [...new Set(personIds)].map(personId => ({ entry_id: entryId, person_id: personId })),
+                options
+            );
+        }
+
+        if (documentIds) {
+            await ResearchLogDocument.destroy({ where: { entry_id: entryId }, ...options });
+            await ResearchLogDocument.bulkCreate(
+                [...new Set(documentIds)].map(documentId => ({ entry_id: entryId, document_id: documentId })),
+                options
+            );
+        }
+    }
+
+    /**
+     * Find a task by ID with its assignee
+     *
+     * @param {String} taskId - Task ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Task
+     */
+    async findTaskById(taskId, options = {}) {
+        return await ResearchTask.findByPk(taskId, {
+            include: [assigneeInclude],
+            ...options
+        });
+    }
+
+    /**
+     * Find the tasks of a project: unfinished tasks first, then by due date
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} options - Query options
+     * @param {String} options.status - Only tasks with this status
+     * @returns {Promise<Array>} Array of tasks with their assignees
+     */
+    async findTasksByProjectId(projectId, options = {}) {
+        const { status, ...queryOptions } = options;
+
+        return await ResearchTask.findAll({
+            where: {
+                project_id: projectId,
+                ...(status ? { status } : {})
+            },
+            include: [assigneeInclude],
+            order: [
+                [sequelize.literal(`"ResearchTask"."status" = 'done'`), 'ASC'],
+                [sequelize.literal('"ResearchTask"."due_date" IS NULL'), 'ASC'],
+                ['due_date', 'ASC'],
+                ['created_at', 'ASC']
+            ],
+            ...queryOptions
+        });
+    }
+
+    /**
+     * Find the unfinished tasks of every project still being worked on, soonest due first
+     *
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of tasks with their project and assignee
+     */
+    async findOpenTasks(options = {}) {
+        return await ResearchTask.findAll({
+            where: { status: { [Op.ne]: 'done' } },
+            include: [
+                {
+                    model: Project,
+                    as: 'project',
+                    attributes: ['id', 'title', 'status'],
+                    where: { status: { [Op.ne]: 'completed' } }
+                },
+                assigneeInclude
+            ],
+            order: [
+                [sequelize.literal('"ResearchTask"."due_date" IS NULL'), 'ASC'],
+                ['due_date', 'ASC'],
+                ['created_at', 'ASC']
+            ],
+            ...options
+        });
+    }
+
+    /**
+     * Create a task
+     *
+     * @param {Object} data - Task data
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Created task
+     */
+    async createTask(data, options = {}) {
+        return await ResearchTask.create(data, options);
+    }
+
+    /**
+     * Update a task
+     *
+     * @param {String} taskId - Task ID
+     * @param {Object} data - Task data to update
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Updated task
+     */
+    async updateTask(taskId, data, options = {}) {
+        const task = await ResearchTask.findByPk(taskId, options);
+        if (!task) {
+            throw new Error(`Research task with id ${taskId} not found`);
+        }
+
+        return await task.update(data, options);
+    }
+
+    /**
+     * Delete a task
+     *
+     * @param {String} taskId - Task ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Boolean>} True if a task was deleted
+     */
+    async deleteTask(taskId, options = {}) {
+        const count = await ResearchTask.destroy({
+            where: { task_id: taskId },
+            ...options
+        });
+
+        return count > 0;
+    }
+}
+
+module.exports = new ResearchLogRepository();
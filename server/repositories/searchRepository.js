@@ -0,0 +1,247 @@
+const { QueryTypes } = require('sequelize');
+const { sequelize } = require('../config/database');
+
+// Marks placed around matched words in snippets; control characters cannot clash with record text
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MinWords=8, MaxWords=25, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// One row per matching record and project it belongs to (project_id is NULL for records in none).
+// Events and documents also belong to the projects of the persons they are linked to, as in
+// ProjectUtils.projectEventsSubquery and projectDocumentsSubquery. Persons are also found by their
+// other names, copied onto them from person_names. Names and locations are indexed as written and
+// descriptive text with English stemming, so each term is looked up both ways.
+const MATCHES_SQL = `
+    matches AS (
+        SELECT 'person' AS entity_type, p.person_id AS entity_id, pp.project_id,
+            concat_ws(' ', p.first_name, p.middle_name, p.last_name) AS title,
+            concat_ws(' ', p.first_name, p.middle_name, p.last_name, p.maiden_name, p.other_names, p.birth_location, p.death_location, p.notes) AS body,
+            p.birth_date AS date,
+            ts_rank(p.search_vector, query.q) AS rank
+        FROM persons p
+        CROSS JOIN query
+        LEFT JOIN project_persons pp ON pp.person_id = p.person_id
+        WHERE p.search_vector @@ query.q
+        UNION ALL
+        SELECT 'event', e.event_id, pe.project_id,
+            e.event_type,
+            concat_ws(' ', e.description, e.event_location),
+            e.event_date,
+            ts_rank(e.search_vector, query.q)
+        FROM events e
+        CROSS JOIN query
+        LEFT JOIN (
+            SELECT event_id, project_id FROM project_events
+            UNION
+            SELECT pe.event_id, pp.project_id
+            FROM person_events pe
+            JOIN project_persons pp ON pp.person_id = pe.person_id
+        ) pe ON pe.event_id = e.event_id
+        WHERE e.search_vector @@ query.q
+        UNION ALL
+        SELECT 'document', d.document_id, dp.project_id,
+            d.title,
+            concat_ws(' ', d.title, d.description, d.source, d.transcription),
+            d.date_of_original,
+            ts_rank(d.search_vector, query.q)
+        FROM documents d
+        CROSS JOIN query
+        LEFT JOIN (
+            SELECT document_id, project_id FROM documents WHERE project_id IS NOT NULL
+            UNION
+            SELECT dp.document_id, pp.project_id
+            FROM document_persons dp
+            JOIN project_persons pp ON pp.person_id = dp.person_id
+        ) dp ON dp.document_id = d.document_id
+        WHERE d.search_vector @@ query.q
+        UNION ALL
+        SELECT 'note', rl.entry_id, rl.project_id,
+            rl.title,
+            concat_ws(' ', rl.title, rl.objective, rl.findings, array_to_string(rl.repositories_searched, ', ')),
+            COALESCE(rl.searched_on, rl.created_at::date),
+            ts_rank(rl.search_vector, query.q)
+        FROM research_log_entries rl
+        CROSS JOIN query
+        WHERE rl.search_vector @@ query.q
+    )`;
+
+/**
+ * Search Repository
+ * Full-text search across persons, events, documents and research log entries. It reads several tables
+ * at once, so unlike the other repositories it is not tied to one model.
+ */
+class SearchRepository {
+    /**
+     * Search records, with the number of matches by entity type and by project
+     *
+     * @param {Array<String>} terms - Lower-case search words; every word must match, as a word or
+     *                                the start of one
+     * @param {Object} options - Search options
+     * @param {Array<String>|null} options.projectIds - Projects the user may see, or null for all
+     *                                                  records (managers)
+     * @param {Array<String>} options.hiddenPersonIds - Persons left out of the results with the
+     *                                                  events and documents linked to them
+     * @param {Array<String>} options.entityTypes - Entity types to return (person, event, document, note)
+     * @param {String} options.projectId - Only return records of this project
+     * @param {Number} options.limit - Maximum number of results
+     * @param {Number} options.offset - Number of results to skip
+     * @returns {Promise<Object>} { rows, typeCounts, projectCounts }:
+     *   rows ({ entity_type, entity_id, project_ids, title, date, rank, snippet, person_name }) best
+     *   match first, the snippet as { text, match } parts,
+     *   typeCounts ({ entity_type, count }) ignoring the type filter and
+     *   projectCounts ({ project_id, title, count }) ignoring the project filter
+     */
+    async search(terms, options = {}) {
+        const { entityTypes = [], projectId, limit = 20, offset = 0 } = options;
+        const scope = this._scope(terms, options);
+        const { withScope } = scope;
+        const replacements = { ...scope.replacements, entityTypes, projectId, limit, offset };
+
+        const typeFilter = entityTypes.length > 0 ? 'entity_type IN (:entityTypes)' : 'true';
+        const projectFilter = projectId ? 'project_id = :projectId' : 'true';
+
+        const typeCounts = await sequelize.query(`
+            ${withScope}
+            SELECT entity_type, COUNT(DISTINCT entity_id)::int AS count
+            FROM scoped
+            WHERE ${projectFilter}
+            GROUP BY entity_type
+        `, { replacements, type: QueryTypes.SELECT });
+
+        const projectCounts = await sequelize.query(`
+            ${withScope}
+            SELECT s.project_id, pr.title, COUNT(DISTINCT s.entity_id)::int AS count
+            FROM scoped s
+            JOIN projects pr ON pr.id = s.project_id
+            WHERE ${typeFilter}
+            GROUP BY s.project_id, pr.title
+            ORDER BY count DESC, pr.title
+        `, { replacements, type: QueryTypes.SELECT });
+
+        // Snippets are only made for the page of results, as ts_headline reads the whole text
+        const rows = await sequelize.query(`
+            ${withScope}
+            SELECT r.entity_type, r.entity_id, r.project_ids, r.title, r.date, r.rank,
+                ts_headline('english', r.body, query.q, :headlineOptions) AS snippet,
+                CASE WHEN r.entity_type = 'event' THEN (
+                    SELECT concat_ws(' ', p.first_name, p.last_name)
+                    FROM person_events pe
+                    JOIN persons p ON p.person_id = pe.person_id
+                    WHERE pe.event_id = r.entity_id
+                    ORDER BY pe.role = 'primary' DESC
+                    LIMIT 1
+                ) END AS person_name
+            FROM (
+                SELECT entity_type, entity_id,
+                    array_remove(array_agg(DISTINCT project_id), NULL) AS project_ids,
+                    MAX(title) AS title, MAX(body) AS body, MAX(date) AS date, MAX(rank) AS rank
+                FROM scoped
+                WHERE ${typeFilter}
+                GROUP BY entity_type, entity_id
+                ${projectId ? 'HAVING bool_or(project_id = :projectId)' : ''}
+                ORDER BY rank DESC, entity_id
+                LIMIT :limit OFFSET :offset
+            ) r
+            CROSS JOIN query
+            ORDER BY r.rank DESC, r.entity_id
+        `, {
+            replacements: { ...replacements, headlineOptions: HEADLINE_OPTIONS },
+            type: QueryTypes.SELECT
+        });
+
+        return {
+            rows: rows.map(row => ({ ...row, snippet: this._splitSnippet(row.snippet) })),
+            typeCounts,
+            projectCounts
+        };
+    }
+
+    /**
+     * Find the persons the matches of a search are about: the persons matched and those linked to
+     * the events and documents matched
+     *
+     * @param {Array<String>} terms - Lower-case search words
+     * @param {Object} options - Search options
+     * @param {Array<String>|null} options.projectIds - Projects the user may see, or null for all
+     *                                                  records (managers)
+     * @returns {Promise<Array<String>>} Person IDs
+     */
+    async findLinkedPersonIds(terms, options = {}) {
+        const { withScope, replacements } = this._scope(terms, { projectIds: options.projectIds });
+
+        const rows = await sequelize.query(`
+            ${withScope}
+            SELECT entity_id AS person_id FROM scoped WHERE entity_type = 'person'
+            UNION
+            SELECT pe.person_id FROM scoped s JOIN person_events pe ON pe.event_id = s.entity_id WHERE s.entity_type = 'event'
+            UNION
+            SELECT dp.person_id FROM scoped s JOIN document_persons dp ON dp.document_id = s.entity_id WHERE s.entity_type = 'document'
+        `, { replacements, type: QueryTypes.SELECT });
+
+        return rows.map(row => row.person_id);
+    }
+
+    /**
+     * Build the matches of a search within the records a user may see, as the CTEs query, matches
+     * and scoped. Hidden persons are left out with their events and documents, so counts and
+     * pages only cover the records shown.
+     *
+     * @private
+     * @param {Array<String>} terms - Lower-case search words
+     * @param {Object} options - Search options ({ projectIds, hiddenPersonIds })
+     * @returns {Object} { withScope, replacements }
+     */
+    _scope(terms, { projectIds = null, hiddenPersonIds = [] } = {}) {
+        const replacements = { projectIds, hiddenPersonIds };
+        terms.forEach((term, index) => {
+            replacements[`term${index}`] = `${term}:*`;
+        });
+
+        const query = terms
+            .map((term, index) => `(to_tsquery('simple', :term${index}) || to_tsquery('english', :term${index}))`)
+            .join(' && ');
+
+        // Records of no project are only found by managers
+        const conditions = [];
+        if (projectIds) {
+            conditions.push('project_id IN (:projectIds)');
+        }
+        if (hiddenPersonIds.length > 0) {
+            conditions.push(`NOT (
+                    (entity_type = 'person' AND entity_id IN (:hiddenPersonIds))
+                    OR (entity_type = 'event' AND entity_id IN (SELECT event_id FROM person_events WHERE person_id IN (:hiddenPersonIds)))
+                    OR (entity_type = 'document' AND entity_id IN (SELECT document_id FROM document_persons WHERE person_id IN (:hiddenPersonIds)))
+                )`);
+        }
+
+        const withScope = `
+            WITH query AS (SELECT ${query} AS q),
+            ${MATCHES_SQL},
+            scoped AS (
+                SELECT * FROM matches
+                ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+            )`;
+
+        return { withScope, replacements };
+    }
+
+    /**
+     * Split a snippet into its parts, marking the matched words
+     *
+     * @private
+     * @param {String} snippet - Snippet with matched words between MATCH_START and MATCH_END
+     * @returns {Array<Object>} Parts ({ text, match })
+     */
+    _splitSnippet(snippet) {
+        const parts = [];
+        for (const [index, piece] of (snippet || '').split(MATCH_START).entries()) {
+            const [matched, rest] = index === 0 ? [null, piece] : piece.split(MATCH_END);
+            if (matched) parts.push({ text: matched, match: true });
+            if (rest) parts.push({ text: rest, match: false });
+        }
+        return parts;
+    }
+}
+
+module.exports = new SearchRepository();
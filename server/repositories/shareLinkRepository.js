@@ -0,0 +1,103 @@
+const BaseRepository = require('./baseRepository');
+const { ShareLink, ShareLinkDocument, Document, User } = require('../models');
+
+// Related data shown with every share link
+const linkIncludes = () => [
+    {
+        model: Document,
+        as: 'documents',
+        attributes: ['document_id', 'title', 'document_type'],
+        through: { attributes: [] }
+    },
+    {
+        model: User,
+        as: 'creator',
+        attributes: ['user_id', 'first_name', 'last_name']
+    }
+];
+
+/**
+ * Share Link Repository
+ * Handles data access operations for the read-only share links of projects
+ */
+class ShareLinkRepository extends BaseRepository {
+    /**
+     * Constructor
+     */
+    constructor() {
+        super(ShareLink);
+    }
+
+    /**
+     * Find a share link by ID with its documents and creator
+     *
+     * @param {String} shareLinkId - Share link ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Share link with related data
+     */
+    async findLinkById(shareLinkId, options = {}) {
+        return await this.findById(shareLinkId, {
+            include: linkIncludes(),
+            ...options
+        });
+    }
+
+    /**
+     * Find a share link by the hash of its token
+     *
+     * @param {String} tokenHash - SHA-256 hash of the token
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Share link with related data, or null
+     */
+    async findByTokenHash(tokenHash, options = {}) {
+        return await this.findOne({
+            where: { token_hash: tokenHash },
+            include: linkIncludes(),
+            ...options
+        });
+    }
+
+    /**
+     * Find the share links of a project, newest first
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of share links with related data
+     */
+    async findLinksByProjectId(projectId, options = {}) {
+        return await this.findAll({
+            where: { project_id: projectId },
+            include: linkIncludes(),
+            order: [['created_at', 'DESC']],
+            ...options
+        });
+    }
+
+    /**
+     * Set the documents shown through a share link
+     *
+     * @param {String} shareLinkId - Share link ID
+     * @param {Array<String>} documentIds - Document IDs
+     * @param {Object} options - Query options
+     */
+    async setLinkDocuments(shareLinkId, documentIds, options = {}) {
+        await ShareLinkDocument.destroy({ where: { share_link_id: shareLinkId }, ...options });
+        await ShareLinkDocument.bulkCreate(
+            [...new Set(documentIds)].map(documentId => ({ share_link_id: shareLinkId, document_id: documentId })),
+            options
+        );
+    }
+
+    /**
+     * Count a visit to a share link
+     *
+     * @param {String} shareLinkId - Share link ID
+     * @param {Date} accessedAt - Time of the visit
+     */
+    async recordAccess(shareLinkId, accessedAt = new Date()) {
+        await ShareLink.increment('access_count', { where: { share_link_id: shareLinkId } });
+        await ShareLink.update({ last_accessed_at: accessedAt }, { where: { share_link_id: shareLinkId } });
+    }
+}
+
+module.exports = new ShareLinkRepository();
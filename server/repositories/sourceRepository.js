@@ -0,0 +1,226 @@
+const BaseRepository = require('./baseRepository');
+const { Source, Citation, Document, PersonEvent, Relationship } = require('../models');
+const { Op } = require('sequelize');
+const QueryBuilder = require('../utils/queryBuilder');
+
+/**
+ * Source Repository
+ * Handles data access operations for Source entities and the citations linking them to records
+ */
+class SourceRepository extends BaseRepository {
+    /**
+     * Constructor
+     */
+    constructor() {
+        super(Source);
+    }
+
+    /**
+     * Find a source by ID with optional related data
+     *
+     * @param {String} id - Source ID
+     * @param {Object} options - Query options
+     * @param {Boolean} options.includeCitations - Include the citations of the source
+     * @param {Object} options.transaction - Optional transaction
+     * @returns {Promise<Object>} Source with related data
+     */
+    async findSourceById(id, options = {}) {
+        const include = [
+            {
+                model: Document,
+                as: 'document',
+                attributes: ['document_id', 'title', 'document_type']
+            }
+        ];
+
+        if (options.includeCitations) {
+            include.push({
+                model: Citation,
+                as: 'citations'
+            });
+        }
+
+        return await this.findById(id, { include, transaction: options.transaction });
+    }
+
+    /**
+     * Find sources by project ID
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} options - Query options
+     * @param {String} options.sortBy - Sort field
+     * @param {String} options.sortOrder - Sort order (asc/desc)
+     * @returns {Promise<Array>} Array of sources
+     */
+    async findSourcesByProjectId(projectId, options = {}) {
+        const allowedSortFields = ['title', 'author', 'repository', 'created_at', 'updated_at'];
+
+        const queryOptions = QueryBuilder.buildQueryOptions(
+            {
+                sortBy: options.sortBy,
+                sortOrder: options.sortOrder
+            },
+            {
+                allowedSortFields,
+                defaultSortField: 'title',
+                defaultSortOrder: 'asc'
+            }
+        );
+
+        queryOptions.where = {
+            ...queryOptions.where,
+            project_id: projectId
+        };
+
+        queryOptions.include = [
+            {
+                model: Document,
+                as: 'document',
+                attributes: ['document_id', 'title', 'document_type']
+            }
+        ];
+
+        return await this.findAll(queryOptions);
+    }
+
+    /**
+     * Find a citation by ID
+     *
+     * @param {String} citationId - Citation ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Citation with its source
+     */
+    async findCitationById(citationId, options = {}) {
+        return await Citation.findByPk(citationId, {
+            include: [{ model: Source, as: 'source' }],
+            ...options
+        });
+    }
+
+    /**
+     * Find the citations of one record
+     *
+     * @param {String} entityType - Cited entity type (person, event, relationship)
+     * @param {String} entityId - Cited entity ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of citations with their sources
+     */
+    async findCitationsByEntity(entityType, entityId, options = {}) {
+        return await Citation.findAll({
+            where: {
+                entity_type: entityType,
+                entity_id: entityId
+            },
+            include: [{ model: Source, as: 'source' }],
+            order: [['created_at', 'ASC']],
+            ...options
+        });
+    }
+
+    /**
+     * Find every citation supporting a person: the person's own facts, their events and their relationships
+     *
+     * @param {String} personId - Person ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of citations with their sources, oldest first
+     */
+    async findCitationsForPerson(personId, options = {}) {
+        const personEvents = await PersonEvent.findAll({
+            where: { person_id: personId },
+            attributes: ['event_id'],
+            ...options
+        });
+
+        const relationships = await Relationship.findAll({
+            where: {
+                [Op.or]: [
+                    { person1_id: personId },
+                    { person2_id: personId }
+                ]
+            },
+            attributes: ['relationship_id'],
+            ...options
+        });
+
+        const cited = [{ entity_type: 'person', entity_id: personId }];
+
+        if (personEvents.length > 0) {
+            cited.push({ entity_type: 'event', entity_id: personEvents.map(pe => pe.event_id) });
+        }
+
+        if (relationships.length > 0) {
+            cited.push({ entity_type: 'relationship', entity_id: relationships.map(r => r.relationship_id) });
+        }
+
+        return await Citation.findAll({
+            where: { [Op.or]: cited },
+            include: [{ model: Source, as: 'source' }],
+            order: [['created_at', 'ASC']],
+            ...options
+        });
+    }
+
+    /**
+     * Create a citation
+     *
+     * @param {Object} data - Citation data
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Created citation
+     */
+    async createCitation(data, options = {}) {
+        return await Citation.create(data, options);
+    }
+
+    /**
+     * Update a citation
+     *
+     * @param {String} citationId - Citation ID
+     * @param {Object} data - Citation data to update
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Updated citation
+     */
+    async updateCitation(citationId, data, options = {}) {
+        const citation = await Citation.findByPk(citationId, options);
+        if (!citation) {
+            throw new Error(`Citation with id ${citationId} not found`);
+        }
+
+        return await citation.update(data, options);
+    }
+
+    /**
+     * Delete a citation
+     *
+     * @param {String} citationId - Citation ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Boolean>} True if a citation was deleted
+     */
+    async deleteCitation(citationId, options = {}) {
+        const count = await Citation.destroy({
+            where: { citation_id: citationId },
+            ...options
+        });
+
+        return count > 0;
+    }
+
+    /**
+     * Delete the citations of one or more records, e.g. when the records themselves are deleted
+     *
+     * @param {String} entityType - Cited entity type (person, event, relationship)
+     * @param {String|Array} entityIds - Cited entity ID or IDs
+     * @param {Object} options - Query options
+     * @returns {Promise<Number>} Number of deleted citations
+     */
+    async deleteCitationsForEntity(entityType, entityIds, options = {}) {
+        return await Citation.destroy({
+            where: {
+                entity_type: entityType,
+                entity_id: entityIds
+            },
+            ...options
+        });
+    }
+}
+
+module.exports = new SourceRepository();
@@ -0,0 +1,61 @@
+const express = require('express');
+const router = express.Router();
+const billingController = require('../controllers/billingController');
+const { verifyToken } = require('../middleware/auth');
+const { validate } = require('../middleware/validation');
+const { isFakeProviderAllowed } = require('../services/payments');
+const {
+    checkoutValidation,
+    orderIdValidation,
+    testPaymentValidation,
+    webhookValidation
+} = require('../validations/billingValidations');
+
+/**
+ * @route   POST /api/billing/webhooks/:provider
+ * @desc    Receive payment events from a payment provider (authenticated by the provider's signature)
+ * @access  Public
+ */
+router.post('/webhooks/:provider', validate(webhookValidation), billingController.handleWebhook);
+
+/**
+ * @route   GET /api/billing/packages
+ * @desc    Get the service packages clients can buy
+ * @access  Public
+ */
+router.get('/packages', billingController.getServicePackages);
+
+// All other routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   POST /api/billing/checkout
+ * @desc    Start paying for a service package
+ * @access  Private
+ */
+router.post('/checkout', validate(checkoutValidation), billingController.checkout);
+
+/**
+ * @route   GET /api/billing/orders
+ * @desc    Get the current user's orders and invoices
+ * @access  Private
+ */
+router.get('/orders', billingController.getOrders);
+
+/**
+ * @route   GET /api/billing/orders/:orderId
+ * @desc    Get one of the current user's orders
+ * @access  Private
+ */
+router.get('/orders/:orderId', validate(orderIdValidation), billingController.getOrderById);
+
+/**
+ * @route   POST /api/billing/orders/:orderId/test-payment
+ * @desc    Complete checkout of an order placed with the test payment provider (not in production)
+ * @access  Private
+ */
+if (isFakeProviderAllowed()) {
+    router.post('/orders/:orderId/test-payment', validate(testPaymentValidation), billingController.completeTestPayment);
+}
+
+module.exports = router;
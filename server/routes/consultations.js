@@ -0,0 +1,112 @@
+const express = require('express');
+const router = express.Router();
+const consultationController = require('../controllers/consultationController');
+const { verifyToken, hasRole } = require('../middleware/auth');
+const { validate } = require('../middleware/validation');
+const {
+    bookConsultationValidation,
+    calendarFeedValidation,
+    cancelConsultationValidation,
+    consultationIdValidation,
+    consultationQueryValidation,
+    createSlotValidation,
+    rescheduleConsultationValidation,
+    slotIdValidation,
+    slotQueryValidation
+} = require('../validations/consultationValidations');
+
+/**
+ * @route   GET /api/consultations/feed/:userId/:token.ics
+ * @desc    Subscribable calendar feed of a user's consultations (authenticated by the token in the URL)
+ * @access  Public
+ */
+router.get('/feed/:userId/:token.ics', validate(calendarFeedValidation), consultationController.getCalendarFeed);
+
+// All other routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/consultations/slots/available
+ * @desc    Get future availability slots that can still be booked
+ * @access  Private
+ */
+router.get('/slots/available', validate(slotQueryValidation), consultationController.getAvailableSlots);
+
+/**
+ * @route   GET /api/consultations/slots
+ * @desc    Get availability slots with their bookings
+ * @access  Private (Manager only)
+ */
+router.get('/slots', hasRole('manager'), validate(slotQueryValidation), consultationController.getSlots);
+
+/**
+ * @route   POST /api/consultations/slots
+ * @desc    Offer a slot of time for consultations
+ * @access  Private (Manager only)
+ */
+router.post('/slots', hasRole('manager'), validate(createSlotValidation), consultationController.createSlot);
+
+/**
+ * @route   DELETE /api/consultations/slots/:slotId
+ * @desc    Withdraw an availability slot that has not been booked
+ * @access  Private (Manager only)
+ */
+router.delete('/slots/:slotId', hasRole('manager'), validate(slotIdValidation), consultationController.deleteSlot);
+
+/**
+ * @route   GET /api/consultations/calendar-feed
+ * @desc    Get the URL of the current user's calendar feed
+ * @access  Private
+ */
+router.get('/calendar-feed', consultationController.getCalendarFeedUrl);
+
+/**
+ * @route   GET /api/consultations
+ * @desc    Get consultations (managers see all consultations, clients their own)
+ * @access  Private
+ */
+router.get('/', validate(consultationQueryValidation), consultationController.getConsultations);
+
+/**
+ * @route   POST /api/consultations
+ * @desc    Book a consultation about one of the client's projects
+ * @access  Private
+ */
+router.post('/', validate(bookConsultationValidation), consultationController.bookConsultation);
+
+/**
+ * @route   GET /api/consultations/:consultationId
+ * @desc    Get a consultation
+ * @access  Private
+ */
+router.get('/:consultationId', validate(consultationIdValidation), consultationController.getConsultationById);
+
+/**
+ * @route   GET /api/consultations/:consultationId/calendar.ics
+ * @desc    Download a consultation as an iCalendar file
+ * @access  Private
+ */
+router.get('/:consultationId/calendar.ics', validate(consultationIdValidation), consultationController.downloadCalendar);
+
+/**
+ * @route   PUT /api/consultations/:consultationId/reschedule
+ * @desc    Move a consultation to another availability slot
+ * @access  Private
+ */
+router.put('/:consultationId/reschedule', validate(rescheduleConsultationValidation), consultationController.rescheduleConsultation);
+
+/**
+ * @route   PUT /api/consultations/:consultationId/cancel
+ * @desc    Cancel a consultation
+ * @access  Private
+ */
+router.put('/:consultationId/cancel', validate(cancelConsultationValidation), consultationController.cancelConsultation);
+
+/**
+ * @route   PUT /api/consultations/:consultationId/complete
+ * @desc    Record that a consultation took place
+ * @access  Private (Manager only)
+ */
+router.put('/:consultationId/complete', hasRole('manager'), validate(consultationIdValidation), consultationController.completeConsultation);
+
+module.exports = router;
@@ -1,7 +1,7 @@
 const express = require('express');
 const router = express.Router();
 const documentController = require('../controllers/documentController');
-const { verifyToken } = require('../middleware/auth');
+const { verifyToken, hasRole, hasEntityAccess } = require('../middleware/auth');
 const { validate } = require('../middleware/validation');
 const path = require('path');
 const fs = require('fs');
@@ -44,6 +44,7 @@ const {
     updateDocumentValidation,
     documentIdValidation,
     associateDocumentPersonValidation,
+    documentPersonParamsValidation,
     getDocumentsByPersonValidation
 } = require('../validations/documentValidations');
 
@@ -52,7 +53,7 @@ router.use(verifyToken);
 
 /**
  * @route   GET /api/documents
- * @desc    Get all documents
+ * @desc    Get all documents in the projects the user can access
  * @access  Private
  */
 router.get('/', documentController.getDocuments);
@@ -60,86 +61,99 @@ router.get('/', documentController.getDocuments);
 /**
  * @route   GET /api/documents/:documentId
  * @desc    Get document by ID
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/:documentId', validate(documentIdValidation), documentController.getDocumentById);
+router.get('/:documentId', validate(documentIdValidation), hasEntityAccess('document', 'documentId'), documentController.getDocumentById);
 
 /**
  * @route   POST /api/documents
  * @desc    Create a new document
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.post('/', validate(createDocumentValidation), documentController.createDocument);
+router.post('/', validate(createDocumentValidation), hasEntityAccess('project', 'project_id', 'edit'), documentController.createDocument);
 
 /**
  * @route   PUT /api/documents/:documentId
  * @desc    Update a document
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.put('/:documentId', validate(updateDocumentValidation), documentController.updateDocument);
+router.put('/:documentId', validate(updateDocumentValidation), hasEntityAccess('document', 'documentId', 'edit'), hasEntityAccess('project', 'project_id', 'edit'), documentController.updateDocument);
 
 /**
  * @route   DELETE /api/documents/:documentId
  * @desc    Delete a document
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.delete('/:documentId', validate(documentIdValidation), documentController.deleteDocument);
+router.delete('/:documentId', validate(documentIdValidation), hasEntityAccess('document', 'documentId', 'edit'), documentController.deleteDocument);
 
 /**
  * @route   POST /api/documents/associate
  * @desc    Associate a document with a person
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.post('/associate', validate(associateDocumentPersonValidation), documentController.associateDocumentWithPerson);
+router.post(
+    '/associate',
+    validate(associateDocumentPersonValidation),
+    hasEntityAccess('document', 'documentId', 'view', { allowUnlinked: true }),
+    hasEntityAccess('person', 'personId', 'edit'),
+    documentController.associateDocumentWithPerson
+);
 
 /**
  * @route   GET /api/documents/person/:personId
  * @desc    Get documents for a person
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/person/:personId', validate(getDocumentsByPersonValidation), documentController.getDocumentsByPersonId);
+router.get('/person/:personId', validate(getDocumentsByPersonValidation), hasEntityAccess('person', 'personId'), documentController.getDocumentsByPersonId);
 
 /**
  * @route   GET /api/documents/type/:type
  * @desc    Get documents by type
- * @access  Private
+ * @access  Private (Manager only)
  */
-router.get('/type/:type', documentController.getDocumentsByType);
+router.get('/type/:type', hasRole('manager'), documentController.getDocumentsByType);
 
 /**
  * @route   GET /api/documents/date-range
  * @desc    Get documents by date range
- * @access  Private
+ * @access  Private (Manager only)
  */
-router.get('/date-range', documentController.getDocumentsByDateRange);
+router.get('/date-range', hasRole('manager'), documentController.getDocumentsByDateRange);
 
 /**
  * @route   PUT /api/documents/association/:documentId/:personId
  * @desc    Update document-person association
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.put('/association/:documentId/:personId', documentController.updateDocumentPersonAssociation);
+router.put('/association/:documentId/:personId', validate(documentPersonParamsValidation), hasEntityAccess('document', 'documentId'), hasEntityAccess('person', 'personId', 'edit'), documentController.updateDocumentPersonAssociation);
 
 /**
  * @route   DELETE /api/documents/association/:documentId/:personId
  * @desc    Remove document-person association
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.delete('/association/:documentId/:personId', documentController.removeDocumentPersonAssociation);
+router.delete('/association/:documentId/:personId', validate(documentPersonParamsValidation), hasEntityAccess('document', 'documentId'), hasEntityAccess('person', 'personId', 'edit'), documentController.removeDocumentPersonAssociation);
 
 /**
  * @route   GET /api/documents/association/:documentId/:personId
  * @desc    Get document-person association
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/association/:documentId/:personId', documentController.getDocumentPersonAssociation);
+router.get('/association/:documentId/:personId', validate(documentPersonParamsValidation), hasEntityAccess('document', 'documentId'), hasEntityAccess('person', 'personId'), documentController.getDocumentPersonAssociation);
 
 /**
  * @route   GET /api/documents/:documentId/file
  * @desc    Get document file for viewing or downloading
- * @access  Private
+ * @access  Private (project view access)
+ */
+router.get('/:documentId/file', validate(documentIdValidation), hasEntityAccess('document', 'documentId'), documentController.getDocumentFile);
+
+/**
+ * @route   POST /api/documents/:documentId/ocr
+ * @desc    Read the text of a document's file again
+ * @access  Private (project edit access)
  */
-router.get('/:documentId/file', documentController.getDocumentFile);
+router.post('/:documentId/ocr', validate(documentIdValidation), hasEntityAccess('document', 'documentId', 'edit'), documentController.recognizeDocument);
 
 /**
  * @route   POST /api/documents/upload
@@ -1,7 +1,7 @@
 const express = require('express');
 const router = express.Router();
 const eventController = require('../controllers/eventController');
-const { verifyToken } = require('../middleware/auth');
+const { verifyToken, hasRole, hasEntityAccess } = require('../middleware/auth');
 const { validate } = require('../middleware/validation');
 const {
     createEventValidation,
@@ -15,7 +15,7 @@ router.use(verifyToken);
 
 /**
  * @route   GET /api/events
- * @desc    Get all events
+ * @desc    Get all events in the projects the user can access
  * @access  Private
  */
 router.get('/', eventController.getEvents);
@@ -23,64 +23,70 @@ router.get('/', eventController.getEvents);
 /**
  * @route   GET /api/events/:eventId
  * @desc    Get event by ID
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/:eventId', validate(eventIdValidation), eventController.getEventById);
+router.get('/:eventId', validate(eventIdValidation), hasEntityAccess('event', 'eventId'), eventController.getEventById);
 
 /**
  * @route   POST /api/events
  * @desc    Create a new event
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.post('/', validate(createEventValidation), eventController.createEvent);
+router.post('/', validate(createEventValidation), hasEntityAccess('person', 'person_id', 'edit'), eventController.createEvent);
 
 /**
  * @route   PUT /api/events/:eventId
  * @desc    Update an event
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.put('/:eventId', validate(updateEventValidation), eventController.updateEvent);
+router.put(
+    '/:eventId',
+    validate(updateEventValidation),
+    hasEntityAccess('event', 'eventId', 'edit'),
+    hasEntityAccess('person', 'person_id', 'edit', { allowUnlinked: true }),
+    eventController.updateEvent
+);
 
 /**
  * @route   DELETE /api/events/:eventId
  * @desc    Delete an event
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.delete('/:eventId', validate(eventIdValidation), eventController.deleteEvent);
+router.delete('/:eventId', validate(eventIdValidation), hasEntityAccess('event', 'eventId', 'edit'), eventController.deleteEvent);
 
 /**
  * @route   GET /api/events/person/:personId
  * @desc    Get events for a person
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/person/:personId', validate(getEventsByPersonValidation), eventController.getEventsByPersonId);
+router.get('/person/:personId', validate(getEventsByPersonValidation), hasEntityAccess('person', 'personId'), eventController.getEventsByPersonId);
 
 /**
  * @route   GET /api/events/type/:type
  * @desc    Get events by type
- * @access  Private
+ * @access  Private (Manager only)
  */
-router.get('/type/:type', eventController.getEventsByType);
+router.get('/type/:type', hasRole('manager'), eventController.getEventsByType);
 
 /**
  * @route   GET /api/events/date-range
  * @desc    Get events by date range
- * @access  Private
+ * @access  Private (Manager only)
  */
-router.get('/date-range', eventController.getEventsByDateRange);
+router.get('/date-range', hasRole('manager'), eventController.getEventsByDateRange);
 
 /**
  * @route   GET /api/events/location/:location
  * @desc    Get events by location
- * @access  Private
+ * @access  Private (Manager only)
  */
-router.get('/location/:location', eventController.getEventsByLocation);
+router.get('/location/:location', hasRole('manager'), eventController.getEventsByLocation);
 
 /**
  * @route   GET /api/events/timeline/:personId
  * @desc    Get timeline for a person
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/timeline/:personId', validate(getEventsByPersonValidation), eventController.getPersonTimeline);
+router.get('/timeline/:personId', validate(getEventsByPersonValidation), hasEntityAccess('person', 'personId'), eventController.getPersonTimeline);
 
 module.exports = router;
@@ -0,0 +1,35 @@
+const express = require('express');
+const router = express.Router();
+const historyController = require('../controllers/historyController');
+const { verifyToken, hasEntityAccess } = require('../middleware/auth');
+const { validate } = require('../middleware/validation');
+const { getHistoryValidation, revertVersionValidation } = require('../validations/historyValidations');
+
+// All routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/history/:entityType/:entityId
+ * @desc    Get the edit history of a person, event, relationship or document, newest first
+ * @access  Private (project view access)
+ */
+router.get(
+    '/:entityType/:entityId',
+    validate(getHistoryValidation),
+    hasEntityAccess(req => req.params.entityType, 'entityId'),
+    historyController.getHistory
+);
+
+/**
+ * @route   POST /api/history/:entityType/:entityId/versions/:versionNumber/revert
+ * @desc    Revert a record to the values it had in an earlier version
+ * @access  Private (project edit access)
+ */
+router.post(
+    '/:entityType/:entityId/versions/:versionNumber/revert',
+    validate(revertVersionValidation),
+    hasEntityAccess(req => req.params.entityType, 'entityId', 'edit'),
+    historyController.revertToVersion
+);
+
+module.exports = router;
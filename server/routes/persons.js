@@ -1,13 +1,22 @@
 const express = require('express');
 const router = express.Router();
 const personController = require('../controllers/personController');
-const { verifyToken } = require('../middleware/auth');
+const { verifyToken, hasRole, hasProjectAccess, hasEntityAccess } = require('../middleware/auth');
 const { validate } = require('../middleware/validation');
 const { 
     createPersonValidation,
     updatePersonValidation,
     personIdValidation,
-    addPersonToProjectValidation
+    addPersonToProjectValidation,
+    projectDuplicatesValidation,
+    personDuplicatesValidation,
+    mergePersonValidation,
+    searchPersonsValidation,
+    addPersonNameValidation,
+    updatePersonNameValidation,
+    personNameIdValidation,
+    personAncestorsValidation,
+    personDescendantsValidation
 } = require('../validations/personValidations');
 
 // All routes require authentication
@@ -15,17 +24,31 @@ router.use(verifyToken);
 
 /**
  * @route   GET /api/persons
- * @desc    Get all persons
+ * @desc    Get all persons in the projects the user can access
  * @access  Private
  */
 router.get('/', personController.getPersons);
 
+/**
+ * @route   GET /api/persons/search
+ * @desc    Search persons by name, across their other names and names that sound alike
+ * @access  Private
+ */
+router.get('/search', validate(searchPersonsValidation), personController.searchPersons);
+
+/**
+ * @route   GET /api/persons/duplicates
+ * @desc    Find likely duplicate persons in a project
+ * @access  Private (Manager only)
+ */
+router.get('/duplicates', hasRole('manager'), validate(projectDuplicatesValidation), personController.getProjectDuplicates);
+
 /**
  * @route   GET /api/persons/:personId
  * @desc    Get person by ID
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/:personId', validate(personIdValidation), personController.getPersonById);
+router.get('/:personId', validate(personIdValidation), hasEntityAccess('person', 'personId'), personController.getPersonById);
 
 /**
  * @route   POST /api/persons
@@ -37,57 +60,119 @@ router.post('/', validate(createPersonValidation), personController.createPerson
 /**
  * @route   PUT /api/persons/:personId
  * @desc    Update a person
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.put('/:personId', validate(updatePersonValidation), personController.updatePerson);
+router.put('/:personId', validate(updatePersonValidation), hasEntityAccess('person', 'personId', 'edit'), personController.updatePerson);
 
 /**
  * @route   DELETE /api/persons/:personId
  * @desc    Delete a person
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.delete('/:personId', validate(personIdValidation), personController.deletePerson);
+router.delete('/:personId', validate(personIdValidation), hasEntityAccess('person', 'personId', 'edit'), personController.deletePerson);
 
 /**
  * @route   GET /api/persons/:personId/events
  * @desc    Get events for a person
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/:personId/events', validate(personIdValidation), personController.getPersonEvents);
+router.get('/:personId/events', validate(personIdValidation), hasEntityAccess('person', 'personId'), personController.getPersonEvents);
 
 /**
  * @route   GET /api/persons/:personId/relationships
  * @desc    Get relationships for a person
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/:personId/relationships', validate(personIdValidation), personController.getPersonRelationships);
+router.get('/:personId/relationships', validate(personIdValidation), hasEntityAccess('person', 'personId'), personController.getPersonRelationships);
 
 /**
  * @route   GET /api/persons/:personId/documents
  * @desc    Get documents for a person
- * @access  Private
+ * @access  Private (project view access)
+ */
+router.get('/:personId/documents', validate(personIdValidation), hasEntityAccess('person', 'personId'), personController.getPersonDocuments);
+
+/**
+ * @route   GET /api/persons/:personId/citations
+ * @desc    Get the citations supporting a person, their events and relationships
+ * @access  Private (project view access)
+ */
+router.get('/:personId/citations', validate(personIdValidation), hasEntityAccess('person', 'personId'), require('../controllers/sourceController').getPersonCitations);
+
+/**
+ * @route   GET /api/persons/:personId/names
+ * @desc    Get the other names of a person (birth, married, alias, religious, anglicized)
+ * @access  Private (project view access)
+ */
+router.get('/:personId/names', validate(personIdValidation), hasEntityAccess('person', 'personId'), personController.getPersonNames);
+
+/**
+ * @route   POST /api/persons/:personId/names
+ * @desc    Add another name to a person
+ * @access  Private (project edit access)
+ */
+router.post('/:personId/names', validate(addPersonNameValidation), hasEntityAccess('person', 'personId', 'edit'), personController.addPersonName);
+
+/**
+ * @route   PUT /api/persons/:personId/names/:nameId
+ * @desc    Update another name of a person
+ * @access  Private (project edit access)
  */
-router.get('/:personId/documents', validate(personIdValidation), personController.getPersonDocuments);
+router.put('/:personId/names/:nameId', validate(updatePersonNameValidation), hasEntityAccess('person', 'personId', 'edit'), personController.updatePersonName);
+
+/**
+ * @route   DELETE /api/persons/:personId/names/:nameId
+ * @desc    Remove another name of a person
+ * @access  Private (project edit access)
+ */
+router.delete('/:personId/names/:nameId', validate(personNameIdValidation), hasEntityAccess('person', 'personId', 'edit'), personController.deletePersonName);
 
 /**
  * @route   GET /api/persons/:personId/ancestors
- * @desc    Get ancestors of a person
- * @access  Private
+ * @desc    Get ancestors of a person, as a tree or numbered in Ahnentafel order
+ * @access  Private (project view access)
  */
-router.get('/:personId/ancestors', validate(personIdValidation), personController.getPersonAncestors);
+router.get('/:personId/ancestors', validate(personAncestorsValidation), hasEntityAccess('person', 'personId'), personController.getPersonAncestors);
 
 /**
  * @route   GET /api/persons/:personId/descendants
- * @desc    Get descendants of a person
- * @access  Private
+ * @desc    Get descendants of a person, as a tree or with d'Aboville numbers
+ * @access  Private (project view access)
  */
-router.get('/:personId/descendants', validate(personIdValidation), personController.getPersonDescendants);
+router.get('/:personId/descendants', validate(personDescendantsValidation), hasEntityAccess('person', 'personId'), personController.getPersonDescendants);
+
+/**
+ * @route   GET /api/persons/:personId/duplicates
+ * @desc    Find likely duplicates of a person
+ * @access  Private (Manager only)
+ */
+router.get('/:personId/duplicates', hasRole('manager'), validate(personDuplicatesValidation), personController.getPersonDuplicates);
+
+/**
+ * @route   POST /api/persons/:personId/merge
+ * @desc    Merge a duplicate person into a person
+ * @access  Private (Manager only)
+ */
+router.post('/:personId/merge', hasRole('manager'), validate(mergePersonValidation), personController.mergePerson);
+
+/**
+ * @route   GET /api/persons/:personId/merges
+ * @desc    Get the merges into a person
+ * @access  Private (Manager only)
+ */
+router.get('/:personId/merges', hasRole('manager'), validate(personIdValidation), personController.getPersonMerges);
 
 /**
  * @route   POST /api/projects/:projectId/persons
  * @desc    Add a person to a project
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.post('/projects/:projectId/persons', validate(addPersonToProjectValidation), personController.addPersonToProject);
+router.post(
+    '/projects/:projectId/persons',
+    validate(addPersonToProjectValidation),
+    hasProjectAccess('edit'),
+    hasEntityAccess('person', 'person_id', 'view', { allowUnlinked: true }),
+    personController.addPersonToProject
+);
 
 module.exports = router;
@@ -0,0 +1,84 @@
+const express = require('express');
+const router = express.Router();
+const placeController = require('../controllers/placeController');
+const { verifyToken, hasRole } = require('../middleware/auth');
+const { validate } = require('../middleware/validation');
+const {
+    searchPlacesValidation,
+    getPlaceValidation,
+    createPlaceValidation,
+    updatePlaceValidation,
+    placeIdValidation,
+    resolvePlaceValidation,
+    addPlaceNameValidation,
+    updatePlaceNameValidation,
+    placeNameIdValidation
+} = require('../validations/placeValidations');
+
+// All routes require authentication; places are shared by all projects, so only managers change them
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/places
+ * @desc    Search places by name (q), type and enclosing place (parentId)
+ * @access  Private
+ */
+router.get('/', validate(searchPlacesValidation), placeController.searchPlaces);
+
+/**
+ * @route   POST /api/places/resolve
+ * @desc    Find a place by its levels from the country down, creating missing levels
+ * @access  Private (Manager only)
+ */
+router.post('/resolve', hasRole('manager'), validate(resolvePlaceValidation), placeController.resolvePlace);
+
+/**
+ * @route   GET /api/places/:placeId
+ * @desc    Get a place with its other names and the places within it; ?date= adds the name it had then
+ * @access  Private
+ */
+router.get('/:placeId', validate(getPlaceValidation), placeController.getPlaceById);
+
+/**
+ * @route   POST /api/places
+ * @desc    Create a place
+ * @access  Private (Manager only)
+ */
+router.post('/', hasRole('manager'), validate(createPlaceValidation), placeController.createPlace);
+
+/**
+ * @route   PUT /api/places/:placeId
+ * @desc    Update a place, renaming the places within it and the locations linked to them
+ * @access  Private (Manager only)
+ */
+router.put('/:placeId', hasRole('manager'), validate(updatePlaceValidation), placeController.updatePlace);
+
+/**
+ * @route   DELETE /api/places/:placeId
+ * @desc    Delete a place no other place, person or event refers to
+ * @access  Private (Manager only)
+ */
+router.delete('/:placeId', hasRole('manager'), validate(placeIdValidation), placeController.deletePlace);
+
+/**
+ * @route   POST /api/places/:placeId/names
+ * @desc    Add another or historical name to a place
+ * @access  Private (Manager only)
+ */
+router.post('/:placeId/names', hasRole('manager'), validate(addPlaceNameValidation), placeController.addPlaceName);
+
+/**
+ * @route   PUT /api/places/:placeId/names/:placeNameId
+ * @desc    Update another name of a place
+ * @access  Private (Manager only)
+ */
+router.put('/:placeId/names/:placeNameId', hasRole('manager'), validate(updatePlaceNameValidation), placeController.updatePlaceName);
+
+/**
+ * @route   DELETE /api/places/:placeId/names/:placeNameId
+ * @desc    Remove another name of a place
+ * @access  Private (Manager only)
+ */
+router.delete('/:placeId/names/:placeNameId', hasRole('manager'), validate(placeNameIdValidation), placeController.deletePlaceName);
+
+module.exports = router;
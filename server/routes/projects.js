@@ -1,16 +1,30 @@
 const express = require('express');
 const router = express.Router();
 const projectController = require('../controllers/projectController');
-const { verifyToken, hasRole } = require('../middleware/auth');
+const shareLinkController = require('../controllers/shareLinkController');
+const { verifyToken, hasRole, hasProjectAccess, hasEntityAccess } = require('../middleware/auth');
 const { validate } = require('../middleware/validation');
+const multer = require('multer');
 const {
     createProjectValidation,
     updateProjectValidation,
     projectIdValidation,
     addProjectPersonValidation,
     updateProjectPersonValidation,
-    projectPersonIdValidation
+    projectPersonIdValidation,
+    projectReportValidation,
+    emailProjectReportValidation,
+    projectAuditValidation
 } = require('../validations/projectValidations');
+const { createShareLinkValidation, shareLinkIdValidation } = require('../validations/shareLinkValidations');
+
+// GEDCOM files are parsed straight from memory and never written to disk
+const gedcomUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: 25 * 1024 * 1024 // 25MB file size limit
+    }
+});
 
 // All routes require authentication
 router.use(verifyToken);
@@ -53,9 +67,14 @@ router.get('/:id/persons', validate(projectIdValidation), projectController.getP
 /**
  * @route   POST /api/projects/:id/persons
  * @desc    Add a person to a project
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.post('/:id/persons', validate(addProjectPersonValidation), projectController.addPersonToProject);
+router.post(
+    '/:id/persons',
+    validate(addProjectPersonValidation),
+    hasEntityAccess('person', 'person_id', 'view', { allowUnlinked: true }),
+    projectController.addPersonToProject
+);
 
 /**
  * @route   PUT /api/projects/:id/persons/:personId
@@ -85,11 +104,95 @@ router.get('/:id/events', validate(projectIdValidation), projectController.getPr
  */
 router.get('/:id/relationships', validate(projectIdValidation), projectController.getProjectRelationships);
 
+/**
+ * @route   GET /api/projects/:id/map
+ * @desc    Get the project's births, marriages, immigrations and deaths with map coordinates, by lineage
+ * @access  Private
+ */
+router.get('/:id/map', validate(projectIdValidation), projectController.getMigrationMap);
+
 /**
  * @route   GET /api/projects/:projectId/documents
  * @desc    Get documents for a specific project
+ * @access  Private (project view access)
+ */
+router.get('/:id/documents', validate(projectIdValidation), hasProjectAccess('view'), require('../controllers/documentController').getProjectDocuments);
+
+/**
+ * @route   GET /api/projects/:id/sources
+ * @desc    Get the sources cited in a project
+ * @access  Private (project view access)
+ */
+router.get('/:id/sources', validate(projectIdValidation), hasProjectAccess('view'), require('../controllers/sourceController').getProjectSources);
+
+/**
+ * @route   GET /api/projects/:id/research-log
+ * @desc    Get the research log of a project: the searches carried out and the tasks still to do
+ * @access  Private (project view access)
+ */
+router.get('/:id/research-log', validate(projectIdValidation), hasProjectAccess('view'), require('../controllers/researchLogController').getProjectResearchLog);
+
+/**
+ * @route   GET /api/projects/:id/share-links
+ * @desc    Get the read-only share links made for a project
+ * @access  Private (project view access)
+ */
+router.get('/:id/share-links', validate(projectIdValidation), hasProjectAccess('view'), shareLinkController.getProjectShareLinks);
+
+/**
+ * @route   POST /api/projects/:id/share-links
+ * @desc    Create an expiring share link, optionally with a password, for family members without an account
+ * @access  Private (project edit access)
+ */
+router.post('/:id/share-links', validate(createShareLinkValidation), hasProjectAccess('edit'), shareLinkController.createShareLink);
+
+/**
+ * @route   DELETE /api/projects/:id/share-links/:linkId
+ * @desc    Revoke a share link
+ * @access  Private (project edit access, or the user who made the link)
+ */
+router.delete('/:id/share-links/:linkId', validate(shareLinkIdValidation), hasProjectAccess('view'), shareLinkController.revokeShareLink);
+
+/**
+ * @route   GET /api/projects/:id/audit
+ * @desc    Check the project's persons and relationships against the data quality rules
+ * @access  Private (Manager only)
+ */
+router.get('/:id/audit', hasRole('manager'), validate(projectAuditValidation), require('../controllers/auditController').getProjectAudit);
+
+/**
+ * @route   GET /api/projects/:id/export.ged
+ * @desc    Export the project's people, relationships, events and documents as GEDCOM
+ * @access  Private
+ */
+router.get('/:id/export.ged', validate(projectIdValidation), projectController.exportGedcom);
+
+/**
+ * @route   GET /api/projects/:id/report
+ * @desc    Download the project's family history report as PDF or HTML
+ * @access  Private
+ */
+router.get('/:id/report', validate(projectReportValidation), projectController.downloadReport);
+
+/**
+ * @route   POST /api/projects/:id/report/email
+ * @desc    Email the project's family history report to its clients (or, for a client, to themselves)
+ * @access  Private
+ */
+router.post('/:id/report/email', validate(emailProjectReportValidation), projectController.emailReport);
+
+/**
+ * @route   POST /api/projects/:id/import/gedcom/preview
+ * @desc    Preview the people, relationships and media a GEDCOM file would add to a project
+ * @access  Private
+ */
+router.post('/:id/import/gedcom/preview', validate(projectIdValidation), gedcomUpload.single('file'), projectController.previewGedcomImport);
+
+/**
+ * @route   POST /api/projects/:id/import/gedcom
+ * @desc    Import a GEDCOM file into a project
  * @access  Private
  */
-router.get('/:id/documents', validate(projectIdValidation), require('../controllers/documentController').getProjectDocuments);
+router.post('/:id/import/gedcom', validate(projectIdValidation), gedcomUpload.single('file'), projectController.importGedcom);
 
 module.exports = router;
@@ -0,0 +1,16 @@
+const express = require('express');
+const router = express.Router();
+const realtimeController = require('../controllers/realtimeController');
+const { verifyToken } = require('../middleware/auth');
+
+// All routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/realtime
+ * @desc    Stream notifications and project changes as Server-Sent Events
+ * @access  Private
+ */
+router.get('/', realtimeController.stream);
+
+module.exports = router;
@@ -1,13 +1,15 @@
 const express = require('express');
 const router = express.Router();
 const relationshipController = require('../controllers/relationshipController');
-const { verifyToken } = require('../middleware/auth');
+const { verifyToken, hasRole, hasEntityAccess } = require('../middleware/auth');
 const { validate } = require('../middleware/validation');
 const { 
     createRelationshipValidation,
     updateRelationshipValidation,
     relationshipIdValidation,
-    getRelationshipsByPersonValidation
+    getRelationshipsByPersonValidation,
+    personPairValidation,
+    kinshipValidation
 } = require('../validations/relationshipValidations');
 
 // All routes require authentication
@@ -15,7 +17,7 @@ router.use(verifyToken);
 
 /**
  * @route   GET /api/relationships
- * @desc    Get all relationships
+ * @desc    Get all relationships in the projects the user can access
  * @access  Private
  */
 router.get('/', relationshipController.getRelationships);
@@ -23,71 +25,91 @@ router.get('/', relationshipController.getRelationships);
 /**
  * @route   GET /api/relationships/:relationshipId
  * @desc    Get relationship by ID
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/:relationshipId', validate(relationshipIdValidation), relationshipController.getRelationshipById);
+router.get('/:relationshipId', validate(relationshipIdValidation), hasEntityAccess('relationship', 'relationshipId'), relationshipController.getRelationshipById);
 
 /**
  * @route   POST /api/relationships
  * @desc    Create a new relationship
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.post('/', validate(createRelationshipValidation), relationshipController.createRelationship);
+router.post(
+    '/',
+    validate(createRelationshipValidation),
+    hasEntityAccess('person', 'person1_id', 'edit'),
+    hasEntityAccess('person', 'person2_id', 'edit'),
+    relationshipController.createRelationship
+);
 
 /**
  * @route   PUT /api/relationships/:relationshipId
  * @desc    Update a relationship
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.put('/:relationshipId', validate(updateRelationshipValidation), relationshipController.updateRelationship);
+router.put(
+    '/:relationshipId',
+    validate(updateRelationshipValidation),
+    hasEntityAccess('relationship', 'relationshipId', 'edit'),
+    hasEntityAccess('person', 'person1_id', 'edit', { allowUnlinked: true }),
+    hasEntityAccess('person', 'person2_id', 'edit', { allowUnlinked: true }),
+    relationshipController.updateRelationship
+);
 
 /**
  * @route   DELETE /api/relationships/:relationshipId
  * @desc    Delete a relationship
- * @access  Private
+ * @access  Private (project edit access)
  */
-router.delete('/:relationshipId', validate(relationshipIdValidation), relationshipController.deleteRelationship);
+router.delete('/:relationshipId', validate(relationshipIdValidation), hasEntityAccess('relationship', 'relationshipId', 'edit'), relationshipController.deleteRelationship);
 
 /**
  * @route   GET /api/relationships/person/:personId
  * @desc    Get relationships for a person
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/person/:personId', validate(getRelationshipsByPersonValidation), relationshipController.getRelationshipsByPersonId);
+router.get('/person/:personId', validate(getRelationshipsByPersonValidation), hasEntityAccess('person', 'personId'), relationshipController.getRelationshipsByPersonId);
 
 /**
  * @route   GET /api/relationships/type/:type
  * @desc    Get relationships by type
- * @access  Private
+ * @access  Private (Manager only)
  */
-router.get('/type/:type', relationshipController.getRelationshipsByType);
+router.get('/type/:type', hasRole('manager'), relationshipController.getRelationshipsByType);
 
 /**
  * @route   GET /api/relationships/between/:person1Id/:person2Id
  * @desc    Get relationships between two persons
- * @access  Private
+ * @access  Private (project view access)
  */
-router.get('/between/:person1Id/:person2Id', relationshipController.getRelationshipsBetweenPersons);
+router.get('/between/:person1Id/:person2Id', validate(personPairValidation), hasEntityAccess('person', 'person1Id'), hasEntityAccess('person', 'person2Id'), relationshipController.getRelationshipsBetweenPersons);
 
 /**
  * @route   GET /api/relationships/path/:person1Id/:person2Id
  * @desc    Find relationship path between two persons
- * @access  Private
+ * @access  Private (project view access)
+ */
+router.get('/path/:person1Id/:person2Id', validate(personPairValidation), hasEntityAccess('person', 'person1Id'), hasEntityAccess('person', 'person2Id'), relationshipController.findRelationshipPath);
+
+/**
+ * @route   GET /api/relationships/kinship/:person1Id/:person2Id
+ * @desc    Name how two persons are related, with their common ancestors
+ * @access  Private (project view access)
  */
-router.get('/path/:person1Id/:person2Id', relationshipController.findRelationshipPath);
+router.get('/kinship/:person1Id/:person2Id', validate(kinshipValidation), hasEntityAccess('person', 'person1Id'), hasEntityAccess('person', 'person2Id'), relationshipController.getKinship);
 
 /**
  * @route   GET /api/relationships/parent-child
  * @desc    Get parent-child relationships
- * @access  Private
+ * @access  Private (Manager only)
  */
-router.get('/parent-child', relationshipController.getParentChildRelationships);
+router.get('/parent-child', hasRole('manager'), relationshipController.getParentChildRelationships);
 
 /**
  * @route   GET /api/relationships/spouse
  * @desc    Get spouse relationships
- * @access  Private
+ * @access  Private (Manager only)
  */
-router.get('/spouse', relationshipController.getSpouseRelationships);
+router.get('/spouse', hasRole('manager'), relationshipController.getSpouseRelationships);
 
 module.exports = router;
@@ -0,0 +1,67 @@
+const express = require('express');
+const router = express.Router();
+const researchLogController = require('../controllers/researchLogController');
+const { verifyToken, hasEntityAccess } = require('../middleware/auth');
+const { validate } = require('../middleware/validation');
+const {
+    createEntryValidation,
+    updateEntryValidation,
+    entryIdValidation,
+    createTaskValidation,
+    updateTaskValidation,
+    taskIdValidation
+} = require('../validations/researchValidations');
+
+// All routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   POST /api/research/entries
+ * @desc    Record a search in the research log of a project
+ * @access  Private (project edit access)
+ */
+router.post('/entries', validate(createEntryValidation), hasEntityAccess('project', 'project_id', 'edit'), researchLogController.createEntry);
+
+/**
+ * @route   GET /api/research/entries/:entryId
+ * @desc    Get a research log entry with its persons and documents
+ * @access  Private (project view access)
+ */
+router.get('/entries/:entryId', validate(entryIdValidation), hasEntityAccess('research_entry', 'entryId'), researchLogController.getEntryById);
+
+/**
+ * @route   PUT /api/research/entries/:entryId
+ * @desc    Update a research log entry
+ * @access  Private (project edit access)
+ */
+router.put('/entries/:entryId', validate(updateEntryValidation), hasEntityAccess('research_entry', 'entryId', 'edit'), researchLogController.updateEntry);
+
+/**
+ * @route   DELETE /api/research/entries/:entryId
+ * @desc    Delete a research log entry
+ * @access  Private (project edit access)
+ */
+router.delete('/entries/:entryId', validate(entryIdValidation), hasEntityAccess('research_entry', 'entryId', 'edit'), researchLogController.deleteEntry);
+
+/**
+ * @route   POST /api/research/tasks
+ * @desc    Add a task to a project
+ * @access  Private (project edit access)
+ */
+router.post('/tasks', validate(createTaskValidation), hasEntityAccess('project', 'project_id', 'edit'), researchLogController.createTask);
+
+/**
+ * @route   PUT /api/research/tasks/:taskId
+ * @desc    Update a task, e.g. to assign or complete it
+ * @access  Private (project edit access)
+ */
+router.put('/tasks/:taskId', validate(updateTaskValidation), hasEntityAccess('research_task', 'taskId', 'edit'), researchLogController.updateTask);
+
+/**
+ * @route   DELETE /api/research/tasks/:taskId
+ * @desc    Delete a task
+ * @access  Private (project edit access)
+ */
+router.delete('/tasks/:taskId', validate(taskIdValidation), hasEntityAccess('research_task', 'taskId', 'edit'), researchLogController.deleteTask);
+
+module.exports = router;
@@ -0,0 +1,18 @@
+const express = require('express');
+const router = express.Router();
+const searchController = require('../controllers/searchController');
+const { verifyToken } = require('../middleware/auth');
+const { validate } = require('../middleware/validation');
+const { searchValidation } = require('../validations/searchValidations');
+
+// All routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/search
+ * @desc    Full-text search of persons, events, documents and research log entries, with counts by type and project
+ * @access  Private (clients only find records of their own projects)
+ */
+router.get('/', validate(searchValidation), searchController.search);
+
+module.exports = router;
@@ -0,0 +1,25 @@
+const express = require('express');
+const router = express.Router();
+const shareLinkController = require('../controllers/shareLinkController');
+const { shareLinkLimiter } = require('../middleware/rateLimiter');
+const { validate } = require('../middleware/validation');
+const { sharedProjectValidation, sharedDocumentValidation } = require('../validations/shareLinkValidations');
+
+// These routes are opened by visitors without an account: the token in the link is their access.
+// A password-protected link needs its password in the X-Share-Password header.
+
+/**
+ * @route   GET /api/shared/:token
+ * @desc    Get the read-only view of a shared project: its tree, timeline and chosen documents, with living persons redacted
+ * @access  Public (valid share link)
+ */
+router.get('/:token', shareLinkLimiter, validate(sharedProjectValidation), shareLinkController.getSharedProject);
+
+/**
+ * @route   GET /api/shared/:token/documents/:documentId/file
+ * @desc    Get the file of a document shown through a share link
+ * @access  Public (valid share link)
+ */
+router.get('/:token/documents/:documentId/file', shareLinkLimiter, validate(sharedDocumentValidation), shareLinkController.getSharedDocumentFile);
+
+module.exports = router;
@@ -0,0 +1,81 @@
+const express = require('express');
+const router = express.Router();
+const sourceController = require('../controllers/sourceController');
+const { verifyToken, hasEntityAccess } = require('../middleware/auth');
+const { validate } = require('../middleware/validation');
+const {
+    createSourceValidation,
+    updateSourceValidation,
+    sourceIdValidation,
+    createCitationValidation,
+    updateCitationValidation,
+    citationIdValidation,
+    getCitationsValidation
+} = require('../validations/sourceValidations');
+
+// All routes require authentication
+router.use(verifyToken);
+
+/**
+ * @route   GET /api/sources/citations
+ * @desc    Get the citations of a person, event or relationship
+ * @access  Private (project view access)
+ */
+router.get('/citations', validate(getCitationsValidation), hasEntityAccess(req => req.query.entityType, 'entityId'), sourceController.getCitations);
+
+/**
+ * @route   PUT /api/sources/citations/:citationId
+ * @desc    Update a citation
+ * @access  Private (project edit access)
+ */
+router.put('/citations/:citationId', validate(updateCitationValidation), hasEntityAccess('citation', 'citationId', 'edit'), sourceController.updateCitation);
+
+/**
+ * @route   DELETE /api/sources/citations/:citationId
+ * @desc    Remove a citation
+ * @access  Private (project edit access)
+ */
+router.delete('/citations/:citationId', validate(citationIdValidation), hasEntityAccess('citation', 'citationId', 'edit'), sourceController.deleteCitation);
+
+/**
+ * @route   GET /api/sources/:sourceId
+ * @desc    Get source by ID
+ * @access  Private (project view access)
+ */
+router.get('/:sourceId', validate(sourceIdValidation), hasEntityAccess('source', 'sourceId'), sourceController.getSourceById);
+
+/**
+ * @route   POST /api/sources
+ * @desc    Create a new source
+ * @access  Private (project edit access)
+ */
+router.post('/', validate(createSourceValidation), hasEntityAccess('project', 'project_id', 'edit'), sourceController.createSource);
+
+/**
+ * @route   PUT /api/sources/:sourceId
+ * @desc    Update a source
+ * @access  Private (project edit access)
+ */
+router.put('/:sourceId', validate(updateSourceValidation), hasEntityAccess('source', 'sourceId', 'edit'), hasEntityAccess('project', 'project_id', 'edit'), sourceController.updateSource);
+
+/**
+ * @route   DELETE /api/sources/:sourceId
+ * @desc    Delete a source and its citations
+ * @access  Private (project edit access)
+ */
+router.delete('/:sourceId', validate(sourceIdValidation), hasEntityAccess('source', 'sourceId', 'edit'), sourceController.deleteSource);
+
+/**
+ * @route   POST /api/sources/:sourceId/citations
+ * @desc    Cite a source as evidence for a person, event or relationship
+ * @access  Private (project edit access)
+ */
+router.post(
+    '/:sourceId/citations',
+    validate(createCitationValidation),
+    hasEntityAccess('source', 'sourceId'),
+    hasEntityAccess(req => req.body.entity_type, 'entity_id', 'edit'),
+    sourceController.createCitation
+);
+
+module.exports = router;
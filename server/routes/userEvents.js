@@ -8,7 +8,9 @@ const {
     userEventIdValidation,
     getUserEventsValidation,
     updateUserEventValidation,
-    deleteUserEventValidation
+    deleteUserEventValidation,
+    userEventStateValidation,
+    markAllReadValidation
 } = require('../validations/userEventValidations');
 
 // All routes require authentication
@@ -21,6 +23,20 @@ router.use(verifyToken);
  */
 router.get('/', validate(getUserEventsValidation), userEventController.getUserEvents);
 
+/**
+ * @route   GET /api/user-events/unread-count
+ * @desc    Get the number of unread user events in the inbox
+ * @access  Private
+ */
+router.get('/unread-count', userEventController.getUnreadCount);
+
+/**
+ * @route   PUT /api/user-events/read-all
+ * @desc    Mark all user events read, optionally only some event types
+ * @access  Private
+ */
+router.put('/read-all', validate(markAllReadValidation), userEventController.markAllUserEventsRead);
+
 /**
  * @route   GET /api/user-events/:id
  * @desc    Get user event by ID
@@ -42,6 +58,13 @@ router.post('/', validate(createUserEventValidation), userEventController.create
  */
 router.put('/:id', validate(updateUserEventValidation), userEventController.updateUserEvent);
 
+/**
+ * @route   PUT /api/user-events/:id/state
+ * @desc    Mark a user event read or unread, or archive or restore it
+ * @access  Private (recipient only)
+ */
+router.put('/:id/state', validate(userEventStateValidation), userEventController.updateUserEventState);
+
 /**
  * @route   DELETE /api/user-events/:id
  * @desc    Delete a user event
@@ -47,6 +47,39 @@ CREATE TABLE
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
 
+-- Places table: a hierarchy of jurisdictions (city -> county -> state -> country)
+CREATE TABLE
+    places (
+        place_id UUID PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        place_type VARCHAR(50) NOT NULL, -- country, state, county, city
+        parent_id UUID REFERENCES places (place_id),
+        full_name VARCHAR(1000) NOT NULL, -- name with its jurisdictions, e.g. "Cork, County Cork, Ireland"
+        code VARCHAR(20), -- country or state code, e.g. USA, NY
+        latitude DECIMAL(9, 6),
+        longitude DECIMAL(9, 6),
+        gazetteer_id VARCHAR(100), -- entry of the gazetteer file the coordinates came from
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Other and historical names of a place, optionally limited to the dates they were in use
+CREATE TABLE
+    place_names (
+        place_name_id UUID PRIMARY KEY,
+        place_id UUID NOT NULL REFERENCES places (place_id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        parent_id UUID REFERENCES places (place_id) ON DELETE SET NULL, -- jurisdiction the place belonged to while so named
+        start_date DATE,
+        start_date_detail JSONB,
+        end_date DATE,
+        end_date_detail JSONB,
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
 -- People table
 CREATE TABLE
     persons (
@@ -56,11 +89,24 @@ CREATE TABLE
         last_name VARCHAR(100),
         maiden_name VARCHAR(100),
         gender VARCHAR(20),
-        birth_date DATE,
+        birth_date DATE, -- sortable key; birth_date_detail holds approximate/ranged dates
+        birth_date_detail JSONB,
         birth_location VARCHAR(255),
+        birth_place_id UUID REFERENCES places (place_id) ON DELETE SET NULL,
         death_date DATE,
+        death_date_detail JSONB,
         death_location VARCHAR(255),
+        death_place_id UUID REFERENCES places (place_id) ON DELETE SET NULL,
         notes TEXT,
+        privacy_override VARCHAR(20), -- 'private' or 'public' to settle by hand whether the person is shown as "Living"
+        phonetic_codes TEXT[] DEFAULT '{}', -- Soundex, Daitch-Mokotoff and Metaphone codes of the names, for search
+        other_names TEXT, -- The person's names in person_names, kept up to date by a trigger for search
+        -- Full-text search: names are indexed as written, notes with English stemming
+        search_vector TSVECTOR GENERATED ALWAYS AS (
+            setweight(to_tsvector('simple', coalesce(first_name, '') || ' ' || coalesce(middle_name, '') || ' ' || coalesce(last_name, '') || ' ' || coalesce(maiden_name, '') || ' ' || coalesce(other_names, '')), 'A') ||
+            setweight(to_tsvector('simple', coalesce(birth_location, '') || ' ' || coalesce(death_location, '')), 'B') ||
+            setweight(to_tsvector('english', coalesce(notes, '')), 'C')
+        ) STORED,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
@@ -71,8 +117,14 @@ CREATE TABLE
         event_id UUID PRIMARY KEY,
         event_type VARCHAR(100), -- birth, death, immigration, etc.
         event_date DATE,
+        event_date_detail JSONB,
         event_location VARCHAR(255),
+        event_place_id UUID REFERENCES places (place_id) ON DELETE SET NULL,
         description TEXT,
+        search_vector TSVECTOR GENERATED ALWAYS AS (
+            setweight(to_tsvector('english', coalesce(description, '')), 'A') ||
+            setweight(to_tsvector('simple', coalesce(event_type, '') || ' ' || coalesce(event_location, '')), 'B')
+        ) STORED,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
@@ -91,6 +143,38 @@ CREATE TABLE
         source VARCHAR(255),
         date_of_original DATE,
         project_id UUID REFERENCES projects (id), -- Direct association with a project
+        ocr_status VARCHAR(20), -- pending, processing, completed or failed; NULL for files that cannot be read
+        ocr_pages JSONB, -- text read from each page with its mean word confidence (0-100): [{ page, text, confidence }]
+        ocr_attempts INTEGER DEFAULT 0,
+        ocr_error TEXT,
+        ocr_completed_at TIMESTAMP,
+        transcription TEXT, -- text of the document: the text read by OCR until a researcher corrects it
+        transcription_updated_by UUID REFERENCES users (user_id) ON DELETE SET NULL,
+        transcription_updated_at TIMESTAMP,
+        search_vector TSVECTOR GENERATED ALWAYS AS (
+            setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+            setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+            setweight(to_tsvector('simple', coalesce(source, '')), 'C') ||
+            setweight(to_tsvector('english', coalesce(transcription, '')), 'D')
+        ) STORED,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Sources table (a register, census schedule, book or other record consulted during research)
+CREATE TABLE
+    sources (
+        source_id UUID PRIMARY KEY,
+        project_id UUID REFERENCES projects (id),
+        document_id UUID REFERENCES documents (document_id), -- optional scan or copy of the source
+        title VARCHAR(255) NOT NULL,
+        author VARCHAR(255),
+        publication_info TEXT,
+        repository VARCHAR(255), -- archive, library or website holding the source
+        call_number VARCHAR(100),
+        url VARCHAR(500),
+        classification VARCHAR(50), -- original, derivative, authored
+        notes TEXT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
@@ -104,7 +188,9 @@ CREATE TABLE
         relationship_type VARCHAR(50), -- parent, spouse, child, etc.
         relationship_qualifier VARCHAR(50), -- biological, adoptive, etc.
         start_date DATE, -- marriage date for spouses
+        start_date_detail JSONB,
         end_date DATE, -- divorce date for spouses
+        end_date_detail JSONB,
         notes TEXT,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -143,6 +229,44 @@ CREATE TABLE
         PRIMARY KEY (document_id, person_id)
     );
 
+-- Citations table (links a source to the person, event or relationship, or one of its facts, that it supports)
+CREATE TABLE
+    citations (
+        citation_id UUID PRIMARY KEY,
+        source_id UUID NOT NULL REFERENCES sources (source_id) ON DELETE CASCADE,
+        entity_type VARCHAR(50) NOT NULL, -- person, event, relationship
+        entity_id UUID NOT NULL,
+        field_name VARCHAR(50), -- cited fact, e.g. birth_date; NULL cites the record as a whole
+        page VARCHAR(255), -- where in the source: page, entry, folio, image
+        information_quality VARCHAR(50), -- primary, secondary, undetermined
+        evidence_type VARCHAR(50), -- direct, indirect, negative
+        confidence SMALLINT, -- 0 (unreliable) to 3 (direct and primary), as GEDCOM QUAY
+        excerpt TEXT,
+        notes TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Person Names table (other names a person is recorded under: birth, married, alias, religious, anglicized)
+CREATE TABLE
+    person_names (
+        name_id UUID PRIMARY KEY,
+        person_id UUID NOT NULL REFERENCES persons (person_id) ON DELETE CASCADE,
+        name_type VARCHAR(50) NOT NULL,
+        first_name VARCHAR(100),
+        middle_name VARCHAR(100),
+        last_name VARCHAR(100),
+        start_date DATE, -- when the name came into use, e.g. the marriage for a married name
+        start_date_detail JSONB,
+        end_date DATE,
+        end_date_detail JSONB,
+        source_id UUID REFERENCES sources (source_id) ON DELETE SET NULL, -- record the name appears in
+        notes TEXT,
+        phonetic_codes TEXT[] DEFAULT '{}',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
 -- Project-User junction table
 CREATE TABLE
     project_users (
@@ -192,6 +316,8 @@ CREATE TABLE
         entity_id UUID,
         entity_type VARCHAR(100),
         project_ids UUID[] DEFAULT '{}', -- New field for multiple project associations
+        read_at TIMESTAMP,
+        archived_at TIMESTAMP,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
@@ -205,3 +331,231 @@ CREATE TABLE
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     );
+
+-- Service Packages table (research services offered to clients)
+CREATE TABLE
+    service_packages (
+        package_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        features TEXT[] DEFAULT '{}',
+        price_cents INTEGER NOT NULL,
+        currency VARCHAR(3) DEFAULT 'usd',
+        research_hours INTEGER,
+        is_active BOOLEAN DEFAULT TRUE,
+        sort_order INTEGER DEFAULT 0,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Orders table (a client's purchase of a service package)
+CREATE TABLE
+    orders (
+        order_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        user_id UUID NOT NULL REFERENCES users (user_id),
+        package_id UUID NOT NULL REFERENCES service_packages (package_id),
+        project_id UUID REFERENCES projects (id), -- Project opened by the order once it is paid
+        project_title VARCHAR(255) NOT NULL, -- Title and description of the project to open
+        project_description TEXT,
+        status VARCHAR(50) DEFAULT 'pending',
+        amount_cents INTEGER NOT NULL,
+        currency VARCHAR(3) DEFAULT 'usd',
+        provider VARCHAR(50) NOT NULL, -- Payment provider that handled checkout ('stripe', 'fake')
+        provider_session_id VARCHAR(255),
+        provider_payment_id VARCHAR(255),
+        paid_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Invoices table (issued when an order is paid)
+CREATE TABLE
+    invoices (
+        invoice_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        order_id UUID NOT NULL REFERENCES orders (order_id) ON DELETE CASCADE,
+        user_id UUID NOT NULL REFERENCES users (user_id),
+        invoice_number VARCHAR(50) UNIQUE NOT NULL,
+        description VARCHAR(255) NOT NULL,
+        amount_cents INTEGER NOT NULL,
+        currency VARCHAR(3) DEFAULT 'usd',
+        status VARCHAR(50) DEFAULT 'paid',
+        issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Invoice numbers are taken from this sequence, so payments recorded at the same time never share one
+CREATE SEQUENCE invoice_number_seq OWNED BY invoices.invoice_number;
+
+-- Availability Slots table (times a researcher offers for consultation sessions)
+CREATE TABLE
+    availability_slots (
+        slot_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        researcher_id UUID NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+        starts_at TIMESTAMP NOT NULL,
+        ends_at TIMESTAMP NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Consultations table (a client's session with a researcher about one of their projects)
+CREATE TABLE
+    consultations (
+        consultation_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        project_id UUID NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+        client_id UUID NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+        researcher_id UUID NOT NULL REFERENCES users (user_id) ON DELETE CASCADE,
+        slot_id UUID REFERENCES availability_slots (slot_id) ON DELETE SET NULL,
+        starts_at TIMESTAMP NOT NULL,
+        ends_at TIMESTAMP NOT NULL,
+        status VARCHAR(50) DEFAULT 'scheduled',
+        topic VARCHAR(255) NOT NULL,
+        notes TEXT,
+        canceled_by UUID REFERENCES users (user_id) ON DELETE SET NULL,
+        cancellation_reason TEXT,
+        sequence INTEGER DEFAULT 0, -- iCalendar SEQUENCE, increased on every reschedule or cancellation
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Email Outbox table (queued transactional emails, delivered with retries)
+CREATE TABLE
+    email_outbox (
+        email_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        user_id UUID REFERENCES users (user_id) ON DELETE SET NULL,
+        to_address VARCHAR(255) NOT NULL,
+        to_name VARCHAR(255),
+        template VARCHAR(100) NOT NULL,
+        subject VARCHAR(255) NOT NULL,
+        html_body TEXT NOT NULL,
+        text_body TEXT NOT NULL,
+        attachments JSONB, -- [{ filename, content_type, content }] with base64 content
+        status VARCHAR(50) DEFAULT 'pending',
+        attempts INTEGER DEFAULT 0,
+        max_attempts INTEGER DEFAULT 5,
+        next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_error TEXT,
+        transport VARCHAR(50), -- Transport that delivered the email
+        provider_message_id VARCHAR(255),
+        sent_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Person Merges table (audit trail of duplicate persons merged into another record)
+CREATE TABLE
+    person_merges (
+        merge_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        survivor_person_id UUID REFERENCES persons (person_id) ON DELETE SET NULL,
+        merged_person_id UUID NOT NULL, -- No foreign key: the merged person is deleted
+        merged_person_data JSONB NOT NULL, -- The merged person as it was before the merge
+        survivor_previous_data JSONB NOT NULL, -- The surviving person's fields before the merge
+        field_choices JSONB DEFAULT '{}', -- Fields whose value was taken from the merged person
+        relinked JSONB DEFAULT '{}', -- Number of links moved to the surviving person, by kind
+        merged_by UUID REFERENCES users (user_id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Entity Versions table (edit history of persons, events, relationships and documents)
+CREATE TABLE
+    entity_versions (
+        version_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        entity_type VARCHAR(50) NOT NULL,
+        entity_id UUID NOT NULL, -- No foreign key: the history outlives deleted records
+        version_number INTEGER NOT NULL,
+        action VARCHAR(50) NOT NULL,
+        changes JSONB DEFAULT '{}', -- { field: { from, to } } for the fields this version changed
+        snapshot JSONB NOT NULL, -- The record's fields after the change (before it, for a deletion)
+        reverted_to_version INTEGER, -- Version whose values a revert restored
+        changed_by UUID REFERENCES users (user_id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (entity_type, entity_id, version_number)
+    );
+
+-- Research Log Entries table (a search carried out for a project and what it found)
+CREATE TABLE
+    research_log_entries (
+        entry_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        project_id UUID NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+        title VARCHAR(255) NOT NULL,
+        objective TEXT, -- question the search set out to answer
+        repositories_searched TEXT[] DEFAULT '{}', -- archives, websites and record sets searched
+        result VARCHAR(50), -- positive, negative, inconclusive; NULL while the search is under way
+        findings TEXT,
+        searched_on DATE,
+        created_by UUID REFERENCES users (user_id) ON DELETE SET NULL,
+        search_vector TSVECTOR GENERATED ALWAYS AS (
+            setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+            setweight(to_tsvector('english', coalesce(objective, '')), 'B') ||
+            setweight(to_tsvector('english', coalesce(findings, '')), 'B') ||
+            setweight(to_tsvector('simple', coalesce(array_to_string(repositories_searched, ' '), '')), 'C')
+        ) STORED,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Research Log-Person junction table (persons a search was about)
+CREATE TABLE
+    research_log_persons (
+        entry_id UUID REFERENCES research_log_entries (entry_id) ON DELETE CASCADE,
+        person_id UUID REFERENCES persons (person_id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (entry_id, person_id)
+    );
+
+-- Research Log-Document junction table (documents a search turned up)
+CREATE TABLE
+    research_log_documents (
+        entry_id UUID REFERENCES research_log_entries (entry_id) ON DELETE CASCADE,
+        document_id UUID REFERENCES documents (document_id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (entry_id, document_id)
+    );
+
+-- Research Tasks table (work still to do on a project, optionally following up a log entry)
+CREATE TABLE
+    research_tasks (
+        task_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        project_id UUID NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+        entry_id UUID REFERENCES research_log_entries (entry_id) ON DELETE SET NULL,
+        title VARCHAR(255) NOT NULL,
+        notes TEXT,
+        assignee_id UUID REFERENCES users (user_id) ON DELETE SET NULL,
+        due_date DATE,
+        priority VARCHAR(50) DEFAULT 'medium', -- low, medium, high
+        status VARCHAR(50) DEFAULT 'open', -- open, in_progress, done
+        completed_at TIMESTAMP,
+        created_by UUID REFERENCES users (user_id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Share Links table (read-only links to a project for people without an account)
+CREATE TABLE
+    share_links (
+        share_link_id UUID PRIMARY KEY DEFAULT uuid_generate_v4 (),
+        project_id UUID NOT NULL REFERENCES projects (id) ON DELETE CASCADE,
+        token_hash VARCHAR(64) NOT NULL UNIQUE, -- SHA-256 of the token in the link; the token itself is not kept
+        label VARCHAR(255), -- who the link was made for, e.g. "Aunt Mary"
+        password_hash VARCHAR(255), -- NULL for links without a password
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        access_count INTEGER DEFAULT 0,
+        last_accessed_at TIMESTAMP,
+        created_by UUID REFERENCES users (user_id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+-- Share Link-Document junction table (documents shown through a link)
+CREATE TABLE
+    share_link_documents (
+        share_link_id UUID REFERENCES share_links (share_link_id) ON DELETE CASCADE,
+        document_id UUID REFERENCES documents (document_id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (share_link_id, document_id)
+    );
@@ -12,7 +12,9 @@ const seedPersons = require('./seeds/persons');
 const seedRelationships = require('./seeds/relationships');
 const seedEvents = require('./seeds/events');
 const seedDocuments = require('./seeds/documents');
+const seedResearchLog = require('./seeds/researchLog');
 const seedUserEvents = require('./seeds/userEvents');
+const seedServicePackages = require('./seeds/servicePackages');
 
 /**
  * Main function to seed the database
@@ -79,13 +81,24 @@ async function seedDatabase() {
                     transaction
                 );
 
+            // Seed the research log
+            const researchEntries =
+                await runSeed(
+                    (t) => seedResearchLog(t, { adminUser, project1, persons, documents }),
+                    'Research Log',
+                    transaction
+                );
+
             // Seed user events
             await runSeed(
-                (t) => seedUserEvents(t, { adminUser, clientUser, project1, project2, project3, persons, events, documents }),
+                (t) => seedUserEvents(t, { adminUser, clientUser, project1, project2, project3, persons, events, documents, researchEntries }),
                 'User Events',
                 transaction
             );
 
+            // Seed the service packages offered at checkout
+            await runSeed(seedServicePackages, 'Service Packages', transaction);
+
             // Commit the transaction
             await transaction.commit();
             console.log('Database seeding completed successfully!');
@@ -14,6 +14,14 @@ async function seedDatabase(sequelize, transaction) {
     // Drop all existing tables (optional if using CASCADE in schema.sql)
     console.log('Dropping existing tables...');
     await sequelize.query(`
+        DROP TABLE IF EXISTS email_outbox CASCADE;
+        DROP TABLE IF EXISTS consultations CASCADE;
+        DROP TABLE IF EXISTS availability_slots CASCADE;
+        DROP TABLE IF EXISTS invoices CASCADE;
+        DROP TABLE IF EXISTS orders CASCADE;
+        DROP TABLE IF EXISTS service_packages CASCADE;
+        DROP TABLE IF EXISTS citations CASCADE;
+        DROP TABLE IF EXISTS sources CASCADE;
         DROP TABLE IF EXISTS document_persons CASCADE;
         DROP TABLE IF EXISTS person_events CASCADE;
         DROP TABLE IF EXISTS project_events CASCADE;
@@ -1,4 +1,4 @@
-const { Person, ProjectPerson } = require('../models');
+const { Person, PersonName, ProjectPerson } = require('../models');
 
 /**
  * Seeds the persons table and project-person associations
@@ -147,6 +147,16 @@ async function seedPersons(transaction, { project1 }) {
     console.log('Persons created successfully');
     
     // Link persons to projects
+    // Name John Sr. went by in Boston records
+    await PersonName.create({
+        person_id: johnSmithSr.person_id,
+        name_type: 'alias',
+        first_name: 'Jack',
+        last_name: 'Smith',
+        start_date: new Date('1925-06-01'),
+        notes: 'Listed as Jack Smith, carpenter, in the Boston city directories'
+    }, { transaction });
+
     console.log('Linking persons to projects...');
     
     // Link Smith family members to the Smith Family Immigration Records project
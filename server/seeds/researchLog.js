@@ -0,0 +1,94 @@
+const { ResearchLogEntry, ResearchLogPerson, ResearchLogDocument } = require('../models');
+
+/**
+ * Seeds the research log of the main project, with the persons each search was about and the
+ * documents it turned up
+ * @param {Object} transaction - Sequelize transaction
+ * @param {Object} params - Parameters containing the researcher, project, persons and documents
+ * @param {Object} params.adminUser - Researcher who recorded the searches
+ * @param {Object} params.project1 - The main project
+ * @param {Object} params.persons - Object containing all person entities
+ * @param {Object} params.documents - Object containing all document entities
+ * @returns {Promise<Array>} Created research log entries, oldest first
+ */
+async function seedResearchLog(transaction, { adminUser, project1, persons, documents }) {
+    console.log('Creating research log entries...');
+
+    const searches = [
+        {
+            title: 'First generation of Smith family documented',
+            objective: 'Confirm the births and marriage of John and Mary Smith',
+            repositories_searched: ['Dublin Registry Office', 'St. Patrick\'s Cathedral parish registers'],
+            result: 'positive',
+            findings: 'Birth certificate of John Patrick Smith Sr. and the marriage certificate of John and Mary found',
+            searched_on: '2024-01-10',
+            persons: [persons.johnSmithSr, persons.marySmith],
+            documents: [documents.johnSrBirthCert, documents.johnMaryMarriageCert]
+        },
+        {
+            title: 'Immigration records verified',
+            objective: 'Find the ship John and Mary Smith arrived on',
+            repositories_searched: ['National Archives', 'Ellis Island passenger lists'],
+            result: 'positive',
+            findings: 'Both appear on the ship manifest, arriving in April 1925',
+            searched_on: '2024-01-24',
+            persons: [persons.johnSmithSr, persons.marySmith],
+            documents: [documents.immigrationDoc]
+        },
+        {
+            title: 'Second generation of Smith family documented',
+            objective: 'Record the children of John and Mary Smith',
+            repositories_searched: ['Boston City Archives', '1930 United States Census'],
+            result: 'positive',
+            findings: 'John Jr. and Thomas are listed in the household in the 1930 census',
+            searched_on: '2024-02-07',
+            persons: [persons.johnSmithJr, persons.thomasSmith],
+            documents: [documents.johnJrBirthCert, documents.census1930Doc]
+        },
+        {
+            title: 'Third generation of Smith family documented',
+            objective: 'Trace the family of John Smith Jr. and Margaret Johnson',
+            repositories_searched: ['Massachusetts Vital Records'],
+            result: 'inconclusive',
+            findings: 'Michael\'s parents are confirmed; his birth record has not been found yet',
+            searched_on: '2024-02-21',
+            persons: [persons.johnSmithJr, persons.margaretSmith, persons.michaelSmith],
+            documents: [documents.familyPhotoDoc]
+        },
+        {
+            title: 'Military service records verified',
+            objective: 'Check the military service of John Smith Sr.',
+            repositories_searched: ['National Personnel Records Center'],
+            result: 'positive',
+            findings: 'Service record found, matching the family\'s account',
+            searched_on: '2024-03-06',
+            persons: [persons.johnSmithSr],
+            documents: [documents.militaryRecordDoc]
+        }
+    ];
+
+    const entries = [];
+    for (const { persons: entryPersons, documents: entryDocuments, ...search } of searches) {
+        const entry = await ResearchLogEntry.create({
+            ...search,
+            project_id: project1.id,
+            created_by: adminUser.user_id
+        }, { transaction });
+
+        await ResearchLogPerson.bulkCreate(
+            entryPersons.map(person => ({ entry_id: entry.entry_id, person_id: person.person_id })),
+            { transaction }
+        );
+        await ResearchLogDocument.bulkCreate(
+            entryDocuments.map(document => ({ entry_id: entry.entry_id, document_id: document.document_id })),
+            { transaction }
+        );
+
+        entries.push(entry);
+    }
+
+    console.log('Research log entries created successfully');
+    return entries;
+}
+
+module.exports = seedResearchLog;
@@ -0,0 +1,60 @@
+const { ServicePackage } = require('../models');
+
+/**
+ * Seeds the service packages offered at checkout
+ * @param {Object} transaction - Sequelize transaction
+ * @returns {Promise<Array>} Created service packages
+ */
+async function seedServicePackages(transaction) {
+    console.log('Seeding service packages...');
+
+    const packages = await ServicePackage.bulkCreate([
+        {
+            name: 'Family Tree Starter',
+            description: 'A focused search of one family line back three generations.',
+            features: [
+                'One family line, three generations',
+                'Census, vital and church record search',
+                'Interactive family tree and GEDCOM export'
+            ],
+            price_cents: 49900,
+            currency: 'usd',
+            research_hours: 10,
+            sort_order: 1
+        },
+        {
+            name: 'Heritage Research',
+            description: 'In-depth research into both parental lines, including immigration records.',
+            features: [
+                'Both parental lines, four generations',
+                'Immigration and naturalization records',
+                'Sourced research report with citations',
+                'Two consultations with your researcher'
+            ],
+            price_cents: 124900,
+            currency: 'usd',
+            research_hours: 30,
+            sort_order: 2
+        },
+        {
+            name: 'Ancestral Origins',
+            description: 'Comprehensive research across all lines, including records held overseas.',
+            features: [
+                'All lines, as far back as records allow',
+                'Overseas archive and parish record research',
+                'Printable family history report',
+                'Monthly consultations with your researcher'
+            ],
+            price_cents: 299900,
+            currency: 'usd',
+            research_hours: 80,
+            sort_order: 3
+        }
+    ], { transaction });
+
+    console.log('Service packages seeded successfully');
+
+    return packages;
+}
+
+module.exports = seedServicePackages;
@@ -10,9 +10,10 @@ const { UserEvent } = require('../models');
  * @param {Object} params.persons - Object containing all person entities
  * @param {Object} params.events - Object containing all event entities
  * @param {Object} params.documents - Object containing all document entities
+ * @param {Array} params.researchEntries - Research log entries of the main project
  * @returns {Promise<Object>} Created user events
  */
-async function seedUserEvents(transaction, { adminUser, clientUser, project1, project2, project3, persons, events, documents }) {
+async function seedUserEvents(transaction, { adminUser, clientUser, project1, project2, project3, persons, events, documents, researchEntries }) {
     console.log('Creating user events...');
 
     const clientEvents = [];
@@ -140,21 +141,13 @@ async function seedUserEvents(transaction, { adminUser, clientUser, project1, pr
         ));
     }
 
-    // Research milestone events
-    const researchMilestones = [
-        'First generation of Smith family documented',
-        'Immigration records verified',
-        'Second generation of Smith family documented',
-        'Third generation of Smith family documented',
-        'Military service records verified'
-    ];
-
-    for (const message of researchMilestones) {
+    // Research log events
+    for (const entry of researchEntries) {
         clientEvents.push(await createClientEvent(
-            'research_milestone',
-            message,
-            project1.id,
-            'project',
+            'research_entry_created',
+            `Research log: ${entry.title}`,
+            entry.entry_id,
+            'research_entry',
             [project1.id] // Explicitly set project_ids
         ));
     }
@@ -0,0 +1,105 @@
+const personRepository = require('../repositories/personRepository');
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const { getRules, runRules, SEVERITIES } = require('../utils/auditRules');
+
+const toPlain = (item) => (item && typeof item.toJSON === 'function' ? item.toJSON() : item);
+
+/**
+ * Audit Service
+ * Checks the persons and relationships of a whole project against the data quality rules
+ */
+class AuditService {
+    /**
+     * Audit a project
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} [options] - Audit options
+     * @param {Array} [options.rules] - IDs of the rules to run; all of them when not given
+     * @param {String} [options.severity] - Only report issues of this severity
+     * @returns {Promise<Object>} rules (each with its issue count), issues (errors first) and checked_at
+     */
+    async auditProject(projectId, options = {}) {
+        const projectExists = await projectRepository.exists(projectId);
+        if (!projectExists) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        const rules = getRules();
+        const unknownRules = (options.rules || []).filter(id => !rules.some(rule => rule.id === id));
+        if (unknownRules.length > 0) {
+            throw new Error(`Validation error: Unknown data quality rules: ${unknownRules.join(', ')}`);
+        }
+        if (options.severity && !SEVERITIES.includes(options.severity)) {
+            throw new Error(`Validation error: Severity must be one of: ${SEVERITIES.join(', ')}`);
+        }
+
+        const project = await this._buildProject(projectId);
+        const issues = runRules(project, options.rules && options.rules.length > 0 ? options.rules : null)
+            .filter(issue => !options.severity || issue.severity === options.severity)
+            .map(issue => ({ ...issue, person_name: project.name(issue.person_id) }))
+            .sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+                a.person_name.localeCompare(b.person_name));
+
+        return {
+            rules: rules.map(rule => ({ ...rule, issue_count: issues.filter(issue => issue.rule === rule.id).length })),
+            issues,
+            checked_at: new Date()
+        };
+    }
+
+    /**
+     * Load a project's persons, their events and the relationships between them, and index them for the rules
+     *
+     * @param {String} projectId - Project ID
+     * @returns {Promise<Object>} persons (Map by ID), relationships, name(id), parents(id), children(id)
+     *                            ({ personId, relationship } each) and events(id) (the person's own events)
+     */
+    async _buildProject(projectId) {
+        const projectPersons = await projectRepository.getProjectPersons(projectId);
+        const personIds = projectPersons.map(person => person.person_id);
+        const persons = (await personRepository.findWithEvents(personIds)).map(toPlain);
+        const personsById = new Map(persons.map(person => [person.person_id, person]));
+
+        // Links to persons outside the project are left to the audits of the projects they are in
+        const relationships = personIds.length > 0
+            ? (await relationshipRepository.findRelationshipsInvolvingPersons(personIds)).map(toPlain)
+                .filter(rel => personsById.has(rel.person1_id) && personsById.has(rel.person2_id))
+            : [];
+
+        const parents = new Map();
+        const children = new Map();
+        const link = (map, from, personId, relationship) => {
+            if (!map.has(from)) map.set(from, []);
+            if (!map.get(from).some(entry => entry.personId === personId)) map.get(from).push({ personId, relationship });
+        };
+
+        relationships.forEach(rel => {
+            if (rel.relationship_type !== 'parent' && rel.relationship_type !== 'child') return;
+
+            const [parentId, childId] = rel.relationship_type === 'parent'
+                ? [rel.person1_id, rel.person2_id]
+                : [rel.person2_id, rel.person1_id];
+            link(parents, childId, parentId, rel);
+            link(children, parentId, childId, rel);
+        });
+
+        return {
+            persons: personsById,
+            relationships,
+            name: (personId) => {
+                const person = personsById.get(personId);
+                return (person && [person.first_name, person.last_name].filter(Boolean).join(' ')) || 'Unnamed person';
+            },
+            parents: (personId) => parents.get(personId) || [],
+            children: (personId) => children.get(personId) || [],
+            // Events the person was only a witness to or mentioned in are not theirs
+            events: (personId) => (personsById.get(personId).events || []).filter(event => {
+                const role = event.person_events && event.person_events.role;
+                return !role || role === 'primary';
+            })
+        };
+    }
+}
+
+module.exports = new AuditService();
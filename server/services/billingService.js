@@ -0,0 +1,289 @@
+const orderRepository = require('../repositories/orderRepository');
+const projectRepository = require('../repositories/projectRepository');
+const { ProjectUser } = require('../models');
+const { getPaymentProvider } = require('./payments');
+const TransactionManager = require('../utils/transactionManager');
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+/**
+ * Billing Service
+ * Handles business logic for service packages, orders and invoices.
+ *
+ * Checking out creates a pending order; the client's project is opened and an invoice issued once
+ * the payment provider reports the payment through its webhook.
+ */
+class BillingService {
+    /**
+     * Get the service packages clients can buy
+     *
+     * @returns {Promise<Array>} Array of active service packages
+     */
+    async getServicePackages() {
+        return await orderRepository.findActivePackages();
+    }
+
+    /**
+     * Get the orders of a user, newest first
+     *
+     * @param {String} userId - User ID
+     * @returns {Promise<Array>} Array of orders with their packages, projects and invoices
+     */
+    async getOrdersForUser(userId) {
+        return await orderRepository.findOrdersByUserId(userId);
+    }
+
+    /**
+     * Get one of a user's orders
+     *
+     * @param {String} orderId - Order ID
+     * @param {String} userId - ID of the user who placed the order
+     * @returns {Promise<Object>} Order with its package, project and invoice
+     */
+    async getOrderForUser(orderId, userId) {
+        const order = await orderRepository.findOrderById(orderId);
+
+        // Other users' orders are reported as missing rather than forbidden
+        if (!order || order.user_id !== userId) {
+            throw new Error(`Order with id ${orderId} not found`);
+        }
+
+        return order;
+    }
+
+    /**
+     * Start paying for a service package
+     *
+     * @param {Object} user - Paying user (user_id, email, first_name, last_name)
+     * @param {Object} checkoutData - Checkout data
+     * @param {String} checkoutData.package_id - Service package to buy
+     * @param {String} [checkoutData.project_title] - Title of the research project the order opens
+     * @param {String} [checkoutData.project_description] - What the client would like researched
+     * @returns {Promise<Object>} The pending order and the URL of the provider's checkout page
+     */
+    async startCheckout(user, checkoutData) {
+        const servicePackage = await orderRepository.findPackageById(checkoutData.package_id);
+        if (!servicePackage || !servicePackage.is_active) {
+            throw new Error(`Service package with id ${checkoutData.package_id} not found`);
+        }
+
+        const provider = getPaymentProvider();
+
+        // The project is only opened once the payment is confirmed
+        const order = await orderRepository.create({
+            user_id: user.user_id,
+            package_id: servicePackage.package_id,
+            project_title: checkoutData.project_title || `${servicePackage.name} for ${user.first_name} ${user.last_name}`,
+            project_description: checkoutData.project_description || null,
+            amount_cents: servicePackage.price_cents,
+            currency: servicePackage.currency,
+            provider: provider.name
+        });
+
+        let session;
+        try {
+            session = await provider.createCheckoutSession({
+                order,
+                servicePackage,
+                customerEmail: user.email,
+                successUrl: `${CLIENT_URL}/checkout?order_id=${order.order_id}&result=success`,
+                cancelUrl: `${CLIENT_URL}/checkout?order_id=${order.order_id}&result=canceled`
+            });
+        } catch (error) {
+            await orderRepository.update(order.order_id, { status: 'failed' });
+            throw error;
+        }
+
+        await orderRepository.update(order.order_id, { provider_session_id: session.sessionId });
+
+        return {
+            order: await orderRepository.findOrderById(order.order_id),
+            checkoutUrl: session.url
+        };
+    }
+
+    /**
+     * Handle a webhook delivery from a payment provider
+     *
+     * @param {String} providerName - Provider the delivery came from
+     * @param {String|Buffer} rawBody - Request body exactly as received, for signature verification
+     * @param {String} signature - Signature header sent by the provider
+     * @returns {Promise<Object>} The payment event, and the order it changed if any
+     */
+    async handleWebhook(providerName, rawBody, signature) {
+        const provider = getPaymentProvider(providerName);
+        const event = provider.constructEvent(rawBody, signature);
+
+        if (event.type === 'ignored') {
+            return { event, order: null, changed: false };
+        }
+
+        let order = await orderRepository.findOrderBySession(provider.name, event.sessionId);
+        if (!order && event.orderId) {
+            const candidate = await orderRepository.findOrderById(event.orderId);
+            order = candidate && candidate.provider === provider.name ? candidate : null;
+        }
+
+        if (!order) {
+            throw new Error(`Order for checkout session ${event.sessionId} not found`);
+        }
+
+        switch (event.type) {
+            case 'payment_succeeded':
+                return { event, ...(await this._markOrderPaid(order, event.paymentId)) };
+            case 'payment_failed':
+                return { event, ...(await this._closeOrder(order, 'failed')) };
+            case 'checkout_expired':
+                return { event, ...(await this._closeOrder(order, 'canceled')) };
+            default:
+                return { event, order, changed: false };
+        }
+    }
+
+    /**
+     * Complete checkout of an order placed with the fake provider, as its test payment page does.
+     * The outcome is delivered as a signed event through the regular webhook handling.
+     *
+     * @param {String} orderId - Order ID
+     * @param {String} userId - ID of the user who placed the order
+     * @param {String} outcome - 'succeeded', 'failed' or 'canceled'
+     * @returns {Promise<Object>} The payment event and the order it changed
+     */
+    async completeTestPayment(orderId, userId, outcome) {
+        const order = await this.getOrderForUser(orderId, userId);
+
+        if (order.provider !== 'fake') {
+            throw new Error('Only orders placed with the test payment provider can be completed without paying');
+        }
+
+        const eventTypes = {
+            succeeded: 'payment_succeeded',
+            failed: 'payment_failed',
+            canceled: 'checkout_expired'
+        };
+
+        const provider = getPaymentProvider('fake');
+        const { payload, signature } = provider.buildEvent(eventTypes[outcome], {
+            sessionId: order.provider_session_id,
+            orderId: order.order_id
+        });
+
+        return await this.handleWebhook('fake', payload, signature);
+    }
+
+    /**
+     * Record a payment: mark the order paid, open its project for the client and issue the invoice.
+     * Providers retry deliveries, so an order that is already paid is left as it is; the order is
+     * locked while it is checked, so deliveries handled at the same time cannot both pay it.
+     *
+     * @param {Object} order - Order being paid
+     * @param {String} paymentId - Provider payment ID
+     * @returns {Promise<Object>} The order and whether it changed
+     */
+    async _markOrderPaid(order, paymentId) {
+        const changed = await TransactionManager.executeTransaction(async (transaction) => {
+            const current = await this._lockOrder(order.order_id, transaction);
+            if (current.status === 'paid') {
+                return false;
+            }
+
+            const paidAt = new Date();
+
+            const project = await projectRepository.create({
+                title: current.project_title,
+                description: current.project_description,
+                status: 'active'
+            }, { transaction });
+
+            await ProjectUser.create({
+                project_id: project.id,
+                user_id: current.user_id,
+                access_level: 'view'
+            }, { transaction });
+
+            await orderRepository.update(current.order_id, {
+                status: 'paid',
+                project_id: project.id,
+                provider_payment_id: paymentId,
+                paid_at: paidAt
+            }, { transaction });
+
+            const sequence = await orderRepository.nextInvoiceSequence({ transaction });
+
+            await orderRepository.createInvoice({
+                order_id: current.order_id,
+                user_id: current.user_id,
+                invoice_number: this._formatInvoiceNumber(paidAt, sequence),
+                description: order.servicePackage ? order.servicePackage.name : 'Research services',
+                amount_cents: current.amount_cents,
+                currency: current.currency,
+                issued_at: paidAt
+            }, { transaction });
+
+            return true;
+        });
+
+        return {
+            order: changed ? await orderRepository.findOrderById(order.order_id) : order,
+            changed
+        };
+    }
+
+    /**
+     * Close an unpaid order after a failed or abandoned checkout
+     *
+     * @param {Object} order - Order to close
+     * @param {String} status - 'failed' or 'canceled'
+     * @returns {Promise<Object>} The order and whether it changed
+     */
+    async _closeOrder(order, status) {
+        const changed = await TransactionManager.executeTransaction(async (transaction) => {
+            // A late failure notice must not undo a payment that already went through
+            const current = await this._lockOrder(order.order_id, transaction);
+            if (current.status !== 'pending') {
+                return false;
+            }
+
+            await orderRepository.update(current.order_id, { status }, { transaction });
+            return true;
+        });
+
+        return {
+            order: changed ? await orderRepository.findOrderById(order.order_id) : order,
+            changed
+        };
+    }
+
+    /**
+     * Lock an order until the end of a transaction, reading its current state
+     *
+     * @param {String} orderId - Order ID
+     * @param {Transaction} transaction - Sequelize transaction
+     * @returns {Promise<Object>} Locked order
+     */
+    async _lockOrder(orderId, transaction) {
+        const order = await orderRepository.findById(orderId, {
+            transaction,
+            lock: transaction.LOCK.UPDATE
+        });
+
+        if (!order) {
+            throw new Error(`Order with id ${orderId} not found`);
+        }
+
+        return order;
+    }
+
+    /**
+     * Format an invoice number, e.g. INV-2026-00042
+     *
+     * @param {Date} issuedAt - Issue date
+     * @param {Number} sequence - Sequence number of the invoice
+     * @returns {String} Invoice number
+     */
+    _formatInvoiceNumber(issuedAt, sequence) {
+        return `INV-${issuedAt.getFullYear()}-${String(sequence).padStart(5, '0')}`;
+    }
+}
+
+module.exports = new BillingService();
@@ -0,0 +1,402 @@
+const crypto = require('crypto');
+const consultationRepository = require('../repositories/consultationRepository');
+const { ProjectUser, Project } = require('../models');
+const TransactionManager = require('../utils/transactionManager');
+const { buildCalendar } = require('../utils/icalendar');
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+const CALENDAR_FEED_SECRET = process.env.CALENDAR_FEED_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+
+// Longest availability slot a researcher can offer
+const MAX_SLOT_MINUTES = 8 * 60;
+
+// How far back calendar feeds reach, so recent sessions stay visible in calendar apps
+const FEED_HISTORY_DAYS = 90;
+
+/**
+ * Consultation Service
+ * Handles business logic for researcher availability and the consultation sessions clients book in it.
+ *
+ * A consultation copies the times of the slot it is booked in; a slot is free while no scheduled
+ * consultation uses it, so canceling a consultation makes its slot bookable again.
+ */
+class ConsultationService {
+    /**
+     * Get the future slots that can still be booked
+     *
+     * @param {Object} filters - Filters
+     * @param {String} [filters.researcherId] - Only slots of this researcher
+     * @param {Date} [filters.to] - Latest start time
+     * @returns {Promise<Array>} Array of free availability slots
+     */
+    async getAvailableSlots({ researcherId, to } = {}) {
+        const slots = await consultationRepository.findSlots({ researcherId, from: new Date(), to });
+
+        return slots
+            .filter(slot => slot.consultations.length === 0)
+            .map(slot => {
+                const data = slot.toJSON();
+                delete data.consultations;
+                return data;
+            });
+    }
+
+    /**
+     * Get availability slots with the consultation booked in each, for researchers planning their time
+     *
+     * @param {Object} filters - Filters
+     * @param {String} [filters.researcherId] - Only slots of this researcher
+     * @param {Date} [filters.from] - Earliest start time, now if omitted
+     * @param {Date} [filters.to] - Latest start time
+     * @returns {Promise<Array>} Array of availability slots with their booking
+     */
+    async getSlots({ researcherId, from = new Date(), to } = {}) {
+        const slots = await consultationRepository.findSlots({ researcherId, from, to });
+
+        return slots.map(slot => {
+            const { consultations, ...data } = slot.toJSON();
+            return { ...data, consultation: consultations[0] || null };
+        });
+    }
+
+    /**
+     * Offer a slot of time for consultations
+     *
+     * @param {String} researcherId - Researcher offering the slot
+     * @param {Object} slotData - Slot data
+     * @param {String} slotData.starts_at - Start time
+     * @param {String} slotData.ends_at - End time
+     * @returns {Promise<Object>} Created availability slot
+     */
+    async createSlot(researcherId, slotData) {
+        const startsAt = new Date(slotData.starts_at);
+        const endsAt = new Date(slotData.ends_at);
+
+        if (endsAt <= startsAt) {
+            throw new Error('Validation error: End time must be after the start time');
+        }
+
+        if (startsAt <= new Date()) {
+            throw new Error('Validation error: Availability slots must start in the future');
+        }
+
+        if (endsAt - startsAt > MAX_SLOT_MINUTES * 60 * 1000) {
+            throw new Error(`Validation error: Availability slots cannot be longer than ${MAX_SLOT_MINUTES / 60} hours`);
+        }
+
+        const overlapping = await consultationRepository.findOverlappingSlots(researcherId, startsAt, endsAt);
+        if (overlapping.length > 0) {
+            throw new Error('Availability slot overlaps another of your slots');
+        }
+
+        return await consultationRepository.createSlot({
+            researcher_id: researcherId,
+            starts_at: startsAt,
+            ends_at: endsAt
+        });
+    }
+
+    /**
+     * Withdraw an availability slot that has not been booked
+     *
+     * @param {String} slotId - Availability slot ID
+     * @returns {Promise<Boolean>} True once deleted
+     */
+    async deleteSlot(slotId) {
+        const slot = await consultationRepository.findSlotById(slotId);
+        if (!slot) {
+            throw new Error(`Availability slot with id ${slotId} not found`);
+        }
+
+        const booking = await consultationRepository.findScheduledBySlot(slotId);
+        if (booking) {
+            throw new Error('Availability slot is already booked; reschedule or cancel its consultation first');
+        }
+
+        await slot.destroy();
+        return true;
+    }
+
+    /**
+     * Get consultations visible to a user: managers see all of them, clients their own
+     *
+     * @param {Object} user - Authenticated user (user_id, roles)
+     * @param {Object} filters - Filters
+     * @param {String} [filters.status] - Consultation status
+     * @param {String} [filters.researcherId] - Researcher ID
+     * @param {String} [filters.projectId] - Project ID
+     * @param {Date} [filters.from] - Earliest start time
+     * @param {Date} [filters.to] - Latest start time
+     * @returns {Promise<Array>} Array of consultations
+     */
+    async getConsultations(user, { status, researcherId, projectId, from, to } = {}) {
+        return await consultationRepository.findConsultations({
+            clientId: this._isManager(user) ? undefined : user.user_id,
+            researcherId,
+            projectId,
+            status,
+            from,
+            to
+        });
+    }
+
+    /**
+     * Get a consultation the user takes part in or, for managers, any consultation
+     *
+     * @param {String} consultationId - Consultation ID
+     * @param {Object} user - Authenticated user (user_id, roles)
+     * @returns {Promise<Object>} Consultation with its project, client and researcher
+     */
+    async getConsultationForUser(consultationId, user) {
+        const consultation = await consultationRepository.findConsultationById(consultationId);
+
+        // Other clients' consultations are reported as missing rather than forbidden
+        if (!consultation || (!this._isManager(user) && consultation.client_id !== user.user_id)) {
+            throw new Error(`Consultation with id ${consultationId} not found`);
+        }
+
+        return consultation;
+    }
+
+    /**
+     * Book a consultation about one of the client's projects in a free slot
+     *
+     * @param {Object} user - Booking client (user_id, roles)
+     * @param {Object} bookingData - Booking data
+     * @param {String} bookingData.slot_id - Availability slot to book
+     * @param {String} bookingData.project_id - Project the consultation is about
+     * @param {String} bookingData.topic - What the client would like to discuss
+     * @param {String} [bookingData.notes] - Anything the researcher should prepare
+     * @returns {Promise<Object>} Created consultation with its project, client and researcher
+     */
+    async bookConsultation(user, bookingData) {
+        const project = await Project.findByPk(bookingData.project_id, { attributes: ['id'] });
+        if (!project) {
+            throw new Error(`Project with id ${bookingData.project_id} not found`);
+        }
+
+        const membership = await ProjectUser.findOne({
+            where: { project_id: bookingData.project_id, user_id: user.user_id }
+        });
+        if (!membership) {
+            throw new Error('You do not have access to this project');
+        }
+
+        const consultationId = await TransactionManager.executeTransaction(async (transaction) => {
+            const slot = await this._lockFreeSlot(bookingData.slot_id, transaction);
+
+            const consultation = await consultationRepository.create({
+                project_id: bookingData.project_id,
+                client_id: user.user_id,
+                researcher_id: slot.researcher_id,
+                slot_id: slot.slot_id,
+                starts_at: slot.starts_at,
+                ends_at: slot.ends_at,
+                topic: bookingData.topic,
+                notes: bookingData.notes || null
+            }, { transaction });
+
+            return consultation.consultation_id;
+        });
+
+        return await consultationRepository.findConsultationById(consultationId);
+    }
+
+    /**
+     * Move a scheduled consultation to another free slot
+     *
+     * @param {String} consultationId - Consultation ID
+     * @param {Object} user - Authenticated user (user_id, roles)
+     * @param {String} slotId - New availability slot
+     * @returns {Promise<Object>} The rescheduled consultation and its previous start time
+     */
+    async rescheduleConsultation(consultationId, user, slotId) {
+        const consultation = await this._getScheduledConsultation(consultationId, user);
+        const previousStartsAt = consultation.starts_at;
+
+        if (consultation.slot_id === slotId) {
+            throw new Error('Validation error: The consultation is already booked in this slot');
+        }
+
+        await TransactionManager.executeTransaction(async (transaction) => {
+            const slot = await this._lockFreeSlot(slotId, transaction);
+
+            await consultationRepository.update(consultationId, {
+                slot_id: slot.slot_id,
+                researcher_id: slot.researcher_id,
+                starts_at: slot.starts_at,
+                ends_at: slot.ends_at,
+                sequence: consultation.sequence + 1
+            }, { transaction });
+        });
+
+        return {
+            consultation: await consultationRepository.findConsultationById(consultationId),
+            previousStartsAt
+        };
+    }
+
+    /**
+     * Cancel a scheduled consultation, freeing its slot
+     *
+     * @param {String} consultationId - Consultation ID
+     * @param {Object} user - Authenticated user (user_id, roles)
+     * @param {String} [reason] - Why the consultation is canceled
+     * @returns {Promise<Object>} Canceled consultation
+     */
+    async cancelConsultation(consultationId, user, reason = null) {
+        const consultation = await this._getScheduledConsultation(consultationId, user);
+
+        await consultationRepository.update(consultationId, {
+            status: 'canceled',
+            canceled_by: user.user_id,
+            cancellation_reason: reason || null,
+            sequence: consultation.sequence + 1
+        });
+
+        return await consultationRepository.findConsultationById(consultationId);
+    }
+
+    /**
+     * Record that a consultation took place
+     *
+     * @param {String} consultationId - Consultation ID
+     * @param {Object} user - Authenticated manager (user_id, roles)
+     * @returns {Promise<Object>} Completed consultation
+     */
+    async completeConsultation(consultationId, user) {
+        const consultation = await this._getScheduledConsultation(consultationId, user);
+
+        if (new Date(consultation.starts_at) > new Date()) {
+            throw new Error('Validation error: A consultation cannot be completed before it starts');
+        }
+
+        await consultationRepository.update(consultationId, { status: 'completed' });
+
+        return await consultationRepository.findConsultationById(consultationId);
+    }
+
+    /**
+     * Build the .ics file of one consultation
+     *
+     * @param {String} consultationId - Consultation ID
+     * @param {Object} user - Authenticated user (user_id, roles)
+     * @returns {Promise<Object>} The consultation and its iCalendar text
+     */
+    async getConsultationCalendar(consultationId, user) {
+        const consultation = await this.getConsultationForUser(consultationId, user);
+
+        return {
+            consultation,
+            content: buildCalendar([consultation], { getUrl: () => `${CLIENT_URL}/dashboard` })
+        };
+    }
+
+    /**
+     * Secret token in a user's calendar feed URL.
+     * Calendar apps cannot send our access tokens, so the feed URL itself is the credential.
+     *
+     * @param {String} userId - User ID
+     * @returns {String} Feed token
+     */
+    getFeedToken(userId) {
+        return crypto.createHmac('sha256', CALENDAR_FEED_SECRET)
+            .update(`consultation-feed:${userId}`)
+            .digest('hex');
+    }
+
+    /**
+     * Build the calendar feed of every consultation a user takes part in, as client or researcher
+     *
+     * @param {String} userId - User ID from the feed URL
+     * @param {String} token - Token from the feed URL
+     * @returns {Promise<String>} iCalendar text
+     */
+    async getCalendarFeed(userId, token) {
+        const expected = Buffer.from(this.getFeedToken(userId));
+        const received = Buffer.from(String(token));
+
+        if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+            throw new Error('Invalid calendar feed token');
+        }
+
+        // Canceled consultations stay in the feed so subscribed calendars remove them
+        const consultations = await consultationRepository.findConsultations({
+            participantId: userId,
+            from: new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+        });
+
+        return buildCalendar(consultations, {
+            name: 'Ancestry Research consultations',
+            getUrl: () => `${CLIENT_URL}/dashboard`
+        });
+    }
+
+    /**
+     * Lock a slot for booking and check that it is still free and in the future
+     *
+     * @param {String} slotId - Availability slot ID
+     * @param {Transaction} transaction - Sequelize transaction
+     * @returns {Promise<Object>} Locked availability slot
+     */
+    async _lockFreeSlot(slotId, transaction) {
+        const slot = await consultationRepository.findSlotById(slotId, {
+            transaction,
+            lock: transaction.LOCK.UPDATE
+        });
+
+        if (!slot) {
+            throw new Error(`Availability slot with id ${slotId} not found`);
+        }
+
+        if (new Date(slot.starts_at) <= new Date()) {
+            throw new Error('Validation error: This slot has already started');
+        }
+
+        const booking = await consultationRepository.findScheduledBySlot(slotId, { transaction });
+        if (booking) {
+            throw new Error('This slot has already been booked');
+        }
+
+        return slot;
+    }
+
+    /**
+     * Get a consultation that can still be changed by the user
+     *
+     * @param {String} consultationId - Consultation ID
+     * @param {Object} user - Authenticated user (user_id, roles)
+     * @returns {Promise<Object>} Scheduled consultation
+     */
+    async _getScheduledConsultation(consultationId, user) {
+        const consultation = await this.getConsultationForUser(consultationId, user);
+
+        if (consultation.status !== 'scheduled') {
+            throw new Error(`Validation error: The consultation is already ${consultation.status}`);
+        }
+
+        return consultation;
+    }
+
+    /**
+     * Format a session time for notifications, e.g. "Thu, 15 Jan 2026 14:00 UTC"
+     *
+     * @param {Date|String} date - Session start
+     * @returns {String} Formatted time
+     */
+    formatSessionTime(date) {
+        return new Date(date).toUTCString().replace(/:\d{2} GMT$/, ' UTC');
+    }
+
+    /**
+     * Whether a user manages the service
+     *
+     * @param {Object} user - Authenticated user (user_id, roles)
+     * @returns {Boolean} True for managers
+     */
+    _isManager(user) {
+        return Array.isArray(user.roles) && user.roles.includes('manager');
+    }
+}
+
+module.exports = new ConsultationService();
@@ -1,9 +1,18 @@
 const documentRepository = require('../repositories/documentRepository');
 const personRepository = require('../repositories/personRepository');
+const historyService = require('./historyService');
+const personService = require('./personService');
+const ocrService = require('./ocrService');
 const TransactionManager = require('../utils/transactionManager');
 const { validateDocumentPerson } = require('../utils/validationUtils');
 const path = require('path');
 
+// Kept by the OCR pipeline; callers cannot set them
+const OCR_FIELDS = [
+    'ocr_status', 'ocr_pages', 'ocr_attempts', 'ocr_error', 'ocr_completed_at',
+    'transcription_updated_by', 'transcription_updated_at'
+];
+
 /**
  * Document Service
  * Handles business logic for Document entities
@@ -19,6 +28,25 @@ class DocumentService {
         return await documentRepository.findDocuments(params);
     }
 
+    /**
+     * Find the documents among the given ones that must be withheld from a user because they concern
+     * a person redacted for them, such as someone who may still be alive
+     *
+     * @param {Object} user - The authenticated user ({ user_id, roles })
+     * @param {Array<String>} documentIds - Document IDs
+     * @returns {Promise<Set<String>>} IDs of the documents to withhold
+     */
+    async getRedactedDocumentIds(user, documentIds) {
+        if (documentIds.length === 0) {
+            return new Set();
+        }
+
+        const links = await documentRepository.findDocumentPersonLinks(documentIds);
+        const privateIds = await personService.getRedactedPersonIds(user, links.map(link => link.person_id));
+
+        return new Set(links.filter(link => privateIds.has(link.person_id)).map(link => link.document_id));
+    }
+
     /**
      * Get a document by ID with optional related data
      * 
@@ -34,10 +62,12 @@ class DocumentService {
      * Create a new document
      * 
      * @param {Object} documentData - Document data
+     * @param {Object} transaction - Optional transaction object
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId })
      * @returns {Promise<Object>} Created document
      */
-    async createDocument(documentData) {
-        return await TransactionManager.executeTransaction(async (transaction) => {
+    async createDocument(documentData, transaction = null, historyContext = {}) {
+        const executeCreate = async (transaction) => {
             // Validate file extension matches document type
             if (documentData.file_path && documentData.document_type) {
                 const ext = path.extname(documentData.file_path).toLowerCase();
@@ -75,11 +105,23 @@ class DocumentService {
                 }
             }
             
-            // Create the document
-            const document = await documentRepository.create(documentData, { transaction });
+            // Create the document, queued for OCR when its file holds text to read
+            const document = await documentRepository.create({
+                ...this._withoutOcrFields(documentData),
+                ocr_status: ocrService.canRead(documentData.mime_type) ? 'pending' : null
+            }, { transaction });
+            await historyService.recordChange('document', null, document, { ...historyContext, transaction });
             
             return document;
-        });
+        };
+
+        if (transaction) {
+            return await executeCreate(transaction);
+        }
+
+        const document = await TransactionManager.executeTransaction(executeCreate);
+        ocrService.kick();
+        return document;
     }
 
     /**
@@ -87,10 +129,13 @@ class DocumentService {
      * 
      * @param {String} id - Document ID
      * @param {Object} documentData - Document data to update
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId, action, revertedToVersion })
      * @returns {Promise<Object>} Updated document
      */
-    async updateDocument(id, documentData) {
-        return await TransactionManager.executeTransaction(async (transaction) => {
+    async updateDocument(id, documentData, historyContext = {}) {
+        let fileChanged = false;
+
+        const document = await TransactionManager.executeTransaction(async (transaction) => {
             // Get the current document data
             const currentDocument = await documentRepository.findById(id, { transaction });
             if (!currentDocument) {
@@ -130,20 +175,66 @@ class DocumentService {
                 }
             }
             
+            const changes = this._withoutOcrFields(documentData);
+
+            // Remember who last corrected the transcription; OCR runs leave a corrected one alone
+            if ('transcription' in changes && changes.transcription !== currentDocument.transcription) {
+                changes.transcription_updated_by = historyContext.userId || null;
+                changes.transcription_updated_at = new Date();
+            }
+
+            // A new file is read again from scratch
+            fileChanged = Boolean(changes.file_path) && changes.file_path !== currentDocument.file_path;
+            if (fileChanged) {
+                Object.assign(changes, {
+                    ocr_status: ocrService.canRead(updatedData.mime_type) ? 'pending' : null,
+                    ocr_pages: null,
+                    ocr_attempts: 0,
+                    ocr_error: null,
+                    ocr_completed_at: null
+                });
+                if (!('transcription' in changes)) {
+                    Object.assign(changes, {
+                        transcription: null,
+                        transcription_updated_by: null,
+                        transcription_updated_at: null
+                    });
+                }
+            }
+            
             // Update the document
-            const document = await documentRepository.update(id, documentData, { transaction });
+            const updated = await documentRepository.update(id, changes, { transaction });
+            await historyService.recordChange('document', currentDocument, updated, { ...historyContext, transaction });
             
-            return document;
+            return updated;
         });
+
+        if (fileChanged) {
+            ocrService.kick();
+        }
+
+        return document;
+    }
+
+    /**
+     * Copy of document data without the fields kept by the OCR pipeline
+     *
+     * @private
+     */
+    _withoutOcrFields(documentData) {
+        const data = { ...documentData };
+        OCR_FIELDS.forEach(field => delete data[field]);
+        return data;
     }
 
     /**
      * Delete a document
      * 
      * @param {String} id - Document ID
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId })
      * @returns {Promise<Boolean>} True if successful
      */
-    async deleteDocument(id) {
+    async deleteDocument(id, historyContext = {}) {
         return await TransactionManager.executeTransaction(async (transaction) => {
             // Check if document exists
             const document = await documentRepository.findById(id, { transaction });
@@ -152,7 +243,10 @@ class DocumentService {
             }
             
             // Delete the document
-            return await documentRepository.delete(id, { transaction });
+            const deleted = await documentRepository.delete(id, { transaction });
+            await historyService.recordChange('document', document, null, { ...historyContext, transaction });
+
+            return deleted;
         });
     }
 
@@ -228,11 +322,12 @@ class DocumentService {
      * @param {String} documentId - Document ID
      * @param {String} personId - Person ID
      * @param {Object} data - Association data (relevance, notes)
+     * @param {Object} transaction - Optional transaction object
      * @returns {Promise<Object>} Created association
      */
-    async associateDocumentWithPerson(documentId, personId, data = {}) {
+    async associateDocumentWithPerson(documentId, personId, data = {}, transaction = null) {
         console.log('Attempting to associate document', documentId, 'with person', personId);
-        return await TransactionManager.executeTransaction(async (transaction) => {
+        const executeAssociate = async (transaction) => {
             // Check if document exists
             const document = await documentRepository.findById(documentId, { transaction });
             if (!document) {
@@ -272,7 +367,13 @@ class DocumentService {
             
             console.log('Document-person association created successfully:', association.document_id, association.person_id);
             return association;
-        });
+        };
+
+        if (transaction) {
+            return await executeAssociate(transaction);
+        }
+
+        return await TransactionManager.executeTransaction(executeAssociate);
     } catch (error) {
         console.error('Error during document-person association transaction:', error);
         throw error; // Re-throw the error
@@ -0,0 +1,222 @@
+const personRepository = require('../repositories/personRepository');
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const TransactionManager = require('../utils/transactionManager');
+const { surnameKeys, scorePersonMatch } = require('../utils/personMatching');
+
+// Person fields a merge can take from either record. Date details travel with their dates, place links with their locations.
+const MERGE_FIELDS = {
+    first_name: [],
+    middle_name: [],
+    last_name: [],
+    maiden_name: [],
+    gender: [],
+    birth_date: ['birth_date_detail'],
+    birth_location: ['birth_place_id'],
+    death_date: ['death_date_detail'],
+    death_location: ['death_place_id'],
+    notes: []
+};
+
+const DEFAULT_MIN_SCORE = 50;
+
+/**
+ * Duplicate Service
+ * Finds person records that likely describe the same individual and merges them
+ */
+class DuplicateService {
+    /**
+     * Find likely duplicates of a person across all records
+     *
+     * @param {String} personId - Person ID
+     * @param {Object} options - Options
+     * @param {Number} options.minScore - Lowest score to report (0-100)
+     * @returns {Promise<Array>} Matches ({ person, match, score, reasons }), best first
+     */
+    async findDuplicatesForPerson(personId, options = {}) {
+        const person = await personRepository.findById(personId);
+        if (!person) {
+            throw new Error(`Person with id ${personId} not found`);
+        }
+
+        const candidates = await personRepository.findDuplicateCandidates(person);
+        const relatives = await this._loadRelatives([person, ...candidates]);
+
+        return this._rank(
+            candidates.map(candidate => [person, candidate]),
+            relatives,
+            options.minScore
+        );
+    }
+
+    /**
+     * Find likely duplicate pairs among the persons of a project
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} options - Options
+     * @param {Number} options.minScore - Lowest score to report (0-100)
+     * @returns {Promise<Array>} Matches ({ person, match, score, reasons }), best first
+     */
+    async findDuplicatesInProject(projectId, options = {}) {
+        if (!await projectRepository.exists(projectId)) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        const persons = await projectRepository.getProjectPersons(projectId);
+
+        // Only persons sharing a surname sound are compared, which keeps large projects manageable
+        const groups = new Map();
+        persons.forEach(person => {
+            surnameKeys(person).forEach(key => {
+                if (!groups.has(key)) groups.set(key, []);
+                groups.get(key).push(person);
+            });
+        });
+
+        const pairs = new Map();
+        groups.forEach(group => {
+            for (let i = 0; i < group.length; i++) {
+                for (let j = i + 1; j < group.length; j++) {
+                    const key = [group[i].person_id, group[j].person_id].sort().join(':');
+                    if (!pairs.has(key)) pairs.set(key, [group[i], group[j]]);
+                }
+            }
+        });
+
+        const relatives = await this._loadRelatives(persons);
+
+        return this._rank([...pairs.values()], relatives, options.minScore);
+    }
+
+    /**
+     * Merge a duplicate person into a surviving person. The survivor takes the chosen field values
+     * and every relationship, event, document, project and citation of the duplicate, after which
+     * the duplicate is deleted. Both records are kept in a merge record.
+     *
+     * @param {String} survivorId - Person that is kept
+     * @param {String} duplicateId - Person merged into the survivor
+     * @param {Object} fieldChoices - Record to take each field from ({ [field]: 'survivor' | 'duplicate' })
+     * @param {String} userId - User performing the merge
+     * @returns {Promise<Object>} Merged person and merge record
+     */
+    async mergePersons(survivorId, duplicateId, fieldChoices = {}, userId = null) {
+        if (survivorId === duplicateId) {
+            throw new Error('Validation error: A person cannot be merged with itself');
+        }
+
+        const invalidFields = Object.keys(fieldChoices).filter(field => !MERGE_FIELDS[field]);
+        if (invalidFields.length > 0) {
+            throw new Error(`Validation error: Unknown merge fields: ${invalidFields.join(', ')}`);
+        }
+
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const survivor = await personRepository.findById(survivorId, { transaction });
+            if (!survivor) {
+                throw new Error(`Person with id ${survivorId} not found`);
+            }
+
+            const duplicate = await personRepository.findById(duplicateId, { transaction });
+            if (!duplicate) {
+                throw new Error(`Person with id ${duplicateId} not found`);
+            }
+
+            const survivorData = survivor.toJSON();
+            const duplicateData = duplicate.toJSON();
+
+            const updates = {};
+            Object.entries(fieldChoices).forEach(([field, choice]) => {
+                if (choice !== 'duplicate') return;
+                [field, ...MERGE_FIELDS[field]].forEach(name => {
+                    updates[name] = duplicateData[name];
+                });
+            });
+
+            if (Object.keys(updates).length > 0) {
+                await personRepository.update(survivorId, updates, { transaction });
+            }
+
+            const relinked = await personRepository.reassignPersonLinks(duplicateId, survivorId, { transaction });
+            await personRepository.delete(duplicateId, { transaction });
+
+            const merge = await personRepository.createMergeRecord({
+                survivor_person_id: survivorId,
+                merged_person_id: duplicateId,
+                merged_person_data: duplicateData,
+                survivor_previous_data: survivorData,
+                field_choices: fieldChoices,
+                relinked,
+                merged_by: userId
+            }, { transaction });
+
+            const person = await personRepository.findById(survivorId, { transaction });
+
+            return { person, merge };
+        });
+    }
+
+    /**
+     * Get the merges into a person
+     *
+     * @param {String} personId - Person ID
+     * @returns {Promise<Array>} Merge records, newest first
+     */
+    async getMergeHistory(personId) {
+        const person = await personRepository.findById(personId);
+        if (!person) {
+            throw new Error(`Person with id ${personId} not found`);
+        }
+
+        return await personRepository.findMergesForPerson(personId);
+    }
+
+    /**
+     * Load the parents, children, spouses and siblings of persons for comparing their families
+     *
+     * @param {Array} persons - Persons
+     * @returns {Promise<Object>} Relatives by person ID
+     * @private
+     */
+    async _loadRelatives(persons) {
+        const relatives = {};
+        if (persons.length === 0) return relatives;
+
+        const ids = persons.map(person => person.person_id);
+        const relationships = await relationshipRepository.findRelationshipsInvolvingPersons(ids);
+
+        const add = (personId, relative) => {
+            if (!relative) return;
+            if (!relatives[personId]) relatives[personId] = [];
+            if (!relatives[personId].some(existing => existing.person_id === relative.person_id)) {
+                relatives[personId].push(relative);
+            }
+        };
+
+        relationships.forEach(relationship => {
+            add(relationship.person1_id, relationship.person2);
+            add(relationship.person2_id, relationship.person1);
+        });
+
+        return relatives;
+    }
+
+    /**
+     * Score pairs of persons and keep the likely matches
+     *
+     * @param {Array} pairs - Pairs of persons
+     * @param {Object} relatives - Relatives by person ID
+     * @param {Number} minScore - Lowest score to keep
+     * @returns {Array} Matches, best first
+     * @private
+     */
+    _rank(pairs, relatives, minScore = DEFAULT_MIN_SCORE) {
+        return pairs
+            .map(([person, match]) => {
+                const result = scorePersonMatch(person, match, relatives);
+                return result && { person, match, ...result };
+            })
+            .filter(result => result && result.score >= minScore)
+            .sort((a, b) => b.score - a.score);
+    }
+}
+
+module.exports = new DuplicateService();
@@ -1,9 +1,16 @@
 const eventRepository = require('../repositories/eventRepository');
 const personRepository = require('../repositories/personRepository');
+const sourceRepository = require('../repositories/sourceRepository');
+const historyService = require('./historyService');
+const personService = require('./personService');
+const placeService = require('./placeService');
 const TransactionManager = require('../utils/transactionManager');
 const { validateEventChronology } = require('../validations/eventValidations');
 const { validateHistoricalConsistency } = require('../utils/genealogyRules');
 
+// Place links of an event and the location text kept in step with them
+const EVENT_PLACE_FIELDS = [['event_place_id', 'event_location']];
+
 /**
  * Event Service
  * Handles business logic for Event entities
@@ -19,6 +26,25 @@ class EventService {
         return await eventRepository.findEvents(params);
     }
 
+    /**
+     * Find the events among the given ones that must be withheld from a user because they concern
+     * a person redacted for them, such as someone who may still be alive
+     *
+     * @param {Object} user - The authenticated user ({ user_id, roles })
+     * @param {Array<String>} eventIds - Event IDs
+     * @returns {Promise<Set<String>>} IDs of the events to withhold
+     */
+    async getRedactedEventIds(user, eventIds) {
+        if (eventIds.length === 0) {
+            return new Set();
+        }
+
+        const links = await eventRepository.findPersonEventLinks(eventIds);
+        const privateIds = await personService.getRedactedPersonIds(user, links.map(link => link.person_id));
+
+        return new Set(links.filter(link => privateIds.has(link.person_id)).map(link => link.event_id));
+    }
+
     /**
      * Get an event by ID with optional related data
      * 
@@ -57,14 +83,15 @@ class EventService {
      * 
      * @param {Object} eventData - Event data
      * @param {Object} transaction - Optional transaction object
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId })
      * @returns {Promise<Object>} Created event
      */
-    async createEvent(eventData, transaction = null) {
+    async createEvent(eventData, transaction = null, historyContext = {}) {
         if (transaction) {
-            return await this._executeCreateEvent(eventData, transaction);
+            return await this._executeCreateEvent(eventData, transaction, historyContext);
         } else {
             return await TransactionManager.executeTransaction(async (t) => {
-                return await this._executeCreateEvent(eventData, t);
+                return await this._executeCreateEvent(eventData, t, historyContext);
             });
         }
     }
@@ -72,12 +99,15 @@ class EventService {
     /**
      * Helper method to execute event creation with a transaction
      * 
-     * @param {Object} eventData - Event data
+     * @param {Object} submittedEventData - Event data
      * @param {Object} transaction - Transaction object
+     * @param {Object} historyContext - Who made the change, for the edit history
      * @returns {Promise<Object>} Created event
      * @private
      */
-    async _executeCreateEvent(eventData, transaction) {
+    async _executeCreateEvent(submittedEventData, transaction, historyContext = {}) {
+        const eventData = await placeService.applyPlaceLocations(submittedEventData, EVENT_PLACE_FIELDS, transaction);
+
         // Extract person_id from eventData
         const { person_id, ...eventDataWithoutPersonId } = eventData;
         
@@ -100,7 +130,8 @@ class EventService {
             const historyValidation = validateHistoricalConsistency(
                 eventData.event_date,
                 eventData.event_type,
-                eventData.event_location
+                eventData.event_location,
+                eventData.event_date_detail
             );
             
             if (!historyValidation.isValid) {
@@ -110,6 +141,7 @@ class EventService {
         
         // Create the event (without person_id as it's not a field in the Event model)
         const event = await eventRepository.create(eventDataWithoutPersonId, { transaction });
+        await historyService.recordChange('event', null, event, { ...historyContext, transaction });
         
         // Create the association in the PersonEvent junction table
         if (person_id) {
@@ -133,9 +165,10 @@ class EventService {
      * @param {String} id - Event ID
      * @param {Object} eventData - Event data to update
      * @param {Object} transaction - Optional transaction object
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId, action, revertedToVersion })
      * @returns {Promise<Object>} Updated event
      */
-    async updateEvent(id, eventData, transaction = null) {
+    async updateEvent(id, eventData, transaction = null, historyContext = {}) {
         const executeUpdate = async (t) => {
             // Get the current event data
             const currentEvent = await eventRepository.findById(id, { transaction: t });
@@ -143,8 +176,8 @@ class EventService {
                 throw new Error(`Event with id ${id} not found`);
             }
             
-            // Extract person_id from eventData
-            const { person_id, ...eventDataWithoutPersonId } = eventData;
+            // Extract person_id from eventData; a linked place names the location
+            const { person_id, ...eventDataWithoutPersonId } = await placeService.applyPlaceLocations(eventData, EVENT_PLACE_FIELDS, t);
             
             // Merge current data with updates (excluding person_id)
             const updatedData = {
@@ -180,7 +213,8 @@ class EventService {
                 const historyValidation = validateHistoricalConsistency(
                     updatedData.event_date,
                     updatedData.event_type,
-                    updatedData.event_location
+                    updatedData.event_location,
+                    updatedData.event_date_detail
                 );
                 
                 if (!historyValidation.isValid) {
@@ -207,6 +241,7 @@ class EventService {
             
             // Update the event (without person_id as it's not a field in the Event model)
             const event = await eventRepository.update(id, eventDataWithoutPersonId, { transaction: t });
+            await historyService.recordChange('event', currentEvent, event, { ...historyContext, transaction: t });
             
             // Add the person_id to the event object for the response
             if (person_id) {
@@ -232,9 +267,10 @@ class EventService {
      * 
      * @param {String} id - Event ID
      * @param {Object} transaction - Optional transaction object
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId })
      * @returns {Promise<Boolean>} True if successful
      */
-    async deleteEvent(id, transaction = null) {
+    async deleteEvent(id, transaction = null, historyContext = {}) {
         const executeDelete = async (t) => {
             // Check if event exists
             const event = await eventRepository.findById(id, { transaction: t });
@@ -248,9 +284,15 @@ class EventService {
                 where: { event_id: id },
                 transaction: t
             });
+
+            // Remove citations of the event
+            await sourceRepository.deleteCitationsForEntity('event', id, { transaction: t });
             
             // Delete the event
-            return await eventRepository.delete(id, { transaction: t });
+            const deleted = await eventRepository.delete(id, { transaction: t });
+            await historyService.recordChange('event', event, null, { ...historyContext, transaction: t });
+
+            return deleted;
         };
         
         if (transaction) {
@@ -301,14 +343,17 @@ class EventService {
     }
 
     /**
-     * Get events by location
+     * Get events by location: events linked to the place of that name (or ID) or any place within it,
+     * and events without a linked place whose location text contains the name
      * 
-     * @param {String} location - Location to search for
+     * @param {String} location - Place name or ID
      * @param {Object} options - Query options
      * @returns {Promise<Array>} Array of events
      */
     async getEventsByLocation(location, options = {}) {
-        return await eventRepository.findEventsByLocation(location, options);
+        const placeIds = await placeService.findPlaceIdsForLocation(location);
+
+        return await eventRepository.findEventsByLocation(location, { ...options, placeIds });
     }
 
     /**
@@ -356,6 +401,7 @@ class EventService {
                 timeline.unshift({
                     event_type: 'birth',
                     event_date: person.birth_date,
+                    event_date_detail: person.birth_date_detail,
                     event_location: person.birth_location,
                     description: `Birth of ${person.first_name} ${person.last_name}`,
                     person_id: personId,
@@ -370,6 +416,7 @@ class EventService {
                 timeline.push({
                     event_type: 'death',
                     event_date: person.death_date,
+                    event_date_detail: person.death_date_detail,
                     event_location: person.death_location,
                     description: `Death of ${person.first_name} ${person.last_name}`,
                     person_id: personId,
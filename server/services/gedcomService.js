@@ -0,0 +1,691 @@
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const eventRepository = require('../repositories/eventRepository');
+const documentRepository = require('../repositories/documentRepository');
+const personService = require('./personService');
+const relationshipService = require('./relationshipService');
+const eventService = require('./eventService');
+const documentService = require('./documentService');
+const TransactionManager = require('../utils/transactionManager');
+const { parseGedcom, mapGedcomRecords } = require('../utils/gedcomParser');
+const {
+    node,
+    optionalNode,
+    eventNode,
+    nameNodes,
+    familyChildNode,
+    sexValue,
+    mediaNode,
+    formatGedcomDate,
+    serializeGedcom
+} = require('../utils/gedcomWriter');
+const { PersonEvent } = require('../models');
+const { getPrivatePersonIds, redactPersons, redactRelationship } = require('../utils/privacy');
+const { isSafeUploadPath } = require('../utils/uploads');
+
+/**
+ * Get a plain object from a model instance or plain object
+ *
+ * @param {Object} item - Sequelize instance or plain object
+ * @returns {Object} Plain object
+ */
+const toPlain = (item) => (item && typeof item.toJSON === 'function' ? item.toJSON() : item);
+
+/**
+ * Get the ISO day of a date value for comparisons
+ *
+ * @param {Date|String} date - Date value
+ * @returns {String|null} YYYY-MM-DD or null
+ */
+const toDay = (date) => {
+    if (!date) return null;
+    const parsed = new Date(date);
+    return isNaN(parsed.getTime()) ? null : parsed.toISOString().split('T')[0];
+};
+
+/**
+ * GEDCOM Service
+ * Handles importing GEDCOM files into a project and exporting a project as GEDCOM
+ */
+class GedcomService {
+    /**
+     * Parse GEDCOM text and work out everything an import would create
+     *
+     * @param {String} content - GEDCOM file contents
+     * @returns {Object} Import plan with persons, relationships, events, documents and report
+     */
+    buildImportPlan(content) {
+        const { records, errors } = parseGedcom(content);
+
+        if (!records.some(record => record.tag === 'HEAD')) {
+            throw new Error('File is not a valid GEDCOM file: missing HEAD record');
+        }
+
+        const mapped = mapGedcomRecords(records);
+        const { persons, families, sources, media, report } = mapped;
+        errors.forEach(error => report.warn(error));
+
+        const personsByXref = new Map(persons.map(person => [person.xref, person]));
+
+        // Source citations have no structured home yet, so they are summarised in the person's notes
+        persons.forEach(person => {
+            const citationLines = person.citations.map(citation => {
+                const source = citation.sourceXref ? sources.get(citation.sourceXref) : null;
+                if (citation.sourceXref && !source) {
+                    report.warn(`${person.label}: cites missing source ${citation.sourceXref}`);
+                    return null;
+                }
+                const title = source ? source.title : citation.text;
+                return title ? `- ${title}${citation.page ? `, ${citation.page}` : ''}` : null;
+            }).filter(Boolean);
+
+            if (citationLines.length > 0) {
+                person.data.notes = [person.data.notes, `Sources:\n${citationLines.join('\n')}`].filter(Boolean).join('\n\n');
+            }
+        });
+
+        const relationships = [];
+        const familyEvents = [];
+
+        families.forEach(family => {
+            const parents = [family.husband, family.wife].filter(Boolean);
+
+            parents.forEach(xref => {
+                if (!personsByXref.has(xref)) {
+                    report.warn(`${family.xref}: spouse ${xref} does not exist in the file`);
+                }
+            });
+            const knownParents = parents.filter(xref => personsByXref.has(xref));
+
+            if (knownParents.length === 2) {
+                const marriageDate = family.marriage ? family.marriage.event_date : null;
+
+                // Qualified dates (ABT 1875, BEF 1876) are kept with their detail
+                if (marriageDate) {
+                    relationships.push({
+                        person1Xref: knownParents[0],
+                        person2Xref: knownParents[1],
+                        relationship_type: 'spouse',
+                        start_date: marriageDate,
+                        start_date_detail: family.marriage.event_date_detail,
+                        end_date: family.divorce ? family.divorce.event_date : null,
+                        end_date_detail: family.divorce ? family.divorce.event_date_detail : null,
+                        source: family.xref
+                    });
+                } else {
+                    report.warn(`${family.xref}: spouse relationship skipped because it has no marriage date`);
+                }
+            }
+
+            family.events.forEach(event => {
+                if (knownParents.length > 0) {
+                    familyEvents.push({ ...event, personXrefs: knownParents, source: family.xref });
+                }
+            });
+
+            family.children.forEach(childXref => {
+                const child = personsByXref.get(childXref);
+                if (!child) {
+                    report.warn(`${family.xref}: child ${childXref} does not exist in the file`);
+                    return;
+                }
+
+                const link = child.childOf.find(c => c.familyXref === family.xref);
+                knownParents.forEach(parentXref => {
+                    relationships.push({
+                        person1Xref: parentXref,
+                        person2Xref: childXref,
+                        relationship_type: 'parent',
+                        relationship_qualifier: link ? link.qualifier : 'biological',
+                        source: family.xref
+                    });
+                });
+            });
+        });
+
+        // Gather linked media (OBJE records and inline OBJE structures) as documents
+        const documents = new Map();
+        const addDocument = (mediaItem, personXref, sourceTitle) => {
+            const key = mediaItem.xref || `${personXref}:${mediaItem.file_path}`;
+            if (!documents.has(key)) {
+                documents.set(key, { ...mediaItem, source: sourceTitle || null, personXrefs: [] });
+            }
+            if (personXref && !documents.get(key).personXrefs.includes(personXref)) {
+                documents.get(key).personXrefs.push(personXref);
+            }
+        };
+
+        persons.forEach(person => {
+            person.mediaXrefs.forEach(xref => {
+                const mediaItem = media.get(xref);
+                if (mediaItem) {
+                    addDocument(mediaItem, person.xref);
+                } else {
+                    report.warn(`${person.label}: links missing media object ${xref}`);
+                }
+            });
+            person.inlineMedia.forEach(mediaItem => addDocument(mediaItem, person.xref));
+        });
+
+        sources.forEach(source => {
+            source.mediaXrefs.forEach(xref => {
+                const mediaItem = media.get(xref);
+                if (mediaItem) addDocument(mediaItem, null, source.title);
+            });
+        });
+
+        media.forEach((mediaItem, xref) => {
+            if (!documents.has(xref)) addDocument(mediaItem, null);
+        });
+
+        const eventCount = persons.reduce((total, person) => {
+            const biographical = (person.data.birth_date ? 1 : 0) + (person.data.death_date ? 1 : 0);
+            return total + biographical + person.events.length;
+        }, 0) + familyEvents.length;
+
+        return {
+            header: mapped.header,
+            persons,
+            relationships,
+            familyEvents,
+            documents: Array.from(documents.values()),
+            sourceCount: sources.size,
+            eventCount,
+            report
+        };
+    }
+
+    /**
+     * Summarise what an import would create without touching the database
+     *
+     * @param {String} content - GEDCOM file contents
+     * @returns {Object} Preview of persons, relationships, events, documents and the tag report
+     */
+    previewImport(content) {
+        const plan = this.buildImportPlan(content);
+        const nameOf = (xref) => {
+            const person = plan.persons.find(p => p.xref === xref);
+            return person ? `${person.data.first_name} ${person.data.last_name}` : xref;
+        };
+
+        return {
+            header: plan.header,
+            summary: {
+                persons: plan.persons.length,
+                relationships: plan.relationships.length,
+                events: plan.eventCount,
+                documents: plan.documents.length,
+                sources: plan.sourceCount
+            },
+            persons: plan.persons.map(person => ({
+                xref: person.xref,
+                first_name: person.data.first_name,
+                middle_name: person.data.middle_name,
+                last_name: person.data.last_name,
+                gender: person.data.gender,
+                birth_date: person.data.birth_date,
+                death_date: person.data.death_date,
+                eventCount: person.events.length
+            })),
+            relationships: plan.relationships.map(rel => ({
+                relationship_type: rel.relationship_type,
+                relationship_qualifier: rel.relationship_qualifier || null,
+                person1: nameOf(rel.person1Xref),
+                person2: nameOf(rel.person2Xref)
+            })),
+            documents: plan.documents.map(doc => ({
+                title: doc.title,
+                file_path: doc.file_path,
+                document_type: doc.document_type
+            })),
+            ...plan.report.toJSON()
+        };
+    }
+
+    /**
+     * Import a GEDCOM file into a project
+     * Everything runs in one transaction; each record gets its own savepoint so a record
+     * that fails validation is reported and skipped instead of aborting the whole import
+     *
+     * @param {String} projectId - Project ID
+     * @param {String} content - GEDCOM file contents
+     * @param {String} userId - User importing the file, recorded in the edit history of the new records
+     * @returns {Promise<Object>} Counts of created rows, rejected records and the tag report
+     */
+    async importGedcom(projectId, content, userId = null) {
+        const plan = this.buildImportPlan(content);
+        const rejected = [];
+        const created = { persons: 0, relationships: 0, events: 0, documents: 0 };
+
+        const projectExists = await projectRepository.exists(projectId);
+        if (!projectExists) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        await TransactionManager.executeTransaction(async (transaction) => {
+            const personIds = new Map();
+
+            const attempt = async (label, callback) => {
+                try {
+                    return await TransactionManager.executeTransaction(callback, { transaction });
+                } catch (error) {
+                    rejected.push({ record: label, reason: error.message });
+                    return null;
+                }
+            };
+
+            for (const person of plan.persons) {
+                await attempt(person.label, async (savepoint) => {
+                    // Pass dated birth/death events along so their descriptions survive
+                    const vitalEvents = [person.birthEvent, person.deathEvent]
+                        .filter(event => event && event.event_date)
+                        .map(event => ({
+                            event_type: event.event_type,
+                            event_date: event.event_date,
+                            event_date_detail: event.event_date_detail,
+                            event_location: event.event_location,
+                            description: event.description
+                        }));
+                    const createdPerson = await personService.createPerson(person.data, vitalEvents, savepoint, { userId });
+                    await projectRepository.addPersonToProject(projectId, createdPerson.person_id, {}, { transaction: savepoint });
+                    personIds.set(person.xref, createdPerson.person_id);
+                    created.persons++;
+                    created.events += createdPerson.events.length;
+                });
+
+                const personId = personIds.get(person.xref);
+                if (!personId) continue;
+
+                for (const event of person.events) {
+                    await attempt(`${person.label} ${event.gedcomTag}`, async (savepoint) => {
+                        await eventService.createEvent({
+                            event_type: event.event_type,
+                            event_date: event.event_date,
+                            event_date_detail: event.event_date_detail,
+                            event_location: event.event_location,
+                            description: event.description,
+                            person_id: personId
+                        }, savepoint, { userId });
+                        created.events++;
+                    });
+                }
+            }
+
+            for (const rel of plan.relationships) {
+                const person1Id = personIds.get(rel.person1Xref);
+                const person2Id = personIds.get(rel.person2Xref);
+                const label = `${rel.source} ${rel.relationship_type} ${rel.person1Xref} → ${rel.person2Xref}`;
+
+                if (!person1Id || !person2Id) {
+                    rejected.push({ record: label, reason: 'A person in this relationship was not imported' });
+                    continue;
+                }
+
+                await attempt(label, async (savepoint) => {
+                    await relationshipService.createRelationship({
+                        person1_id: person1Id,
+                        person2_id: person2Id,
+                        relationship_type: rel.relationship_type,
+                        relationship_qualifier: rel.relationship_qualifier,
+                        start_date: rel.start_date,
+                        start_date_detail: rel.start_date_detail,
+                        end_date: rel.end_date,
+                        end_date_detail: rel.end_date_detail
+                    }, savepoint, { userId });
+                    created.relationships++;
+                });
+            }
+
+            for (const event of plan.familyEvents) {
+                const linkedIds = event.personXrefs.map(xref => personIds.get(xref)).filter(Boolean);
+                if (linkedIds.length === 0) continue;
+
+                await attempt(`${event.source} ${event.gedcomTag}`, async (savepoint) => {
+                    const createdEvent = await eventService.createEvent({
+                        event_type: event.event_type,
+                        event_date: event.event_date,
+                        event_date_detail: event.event_date_detail,
+                        event_location: event.event_location,
+                        description: event.description,
+                        person_id: linkedIds[0]
+                    }, savepoint, { userId });
+
+                    // Family events belong to both spouses
+                    for (const personId of linkedIds.slice(1)) {
+                        await PersonEvent.create({
+                            person_id: personId,
+                            event_id: createdEvent.event_id,
+                            role: 'primary'
+                        }, { transaction: savepoint });
+                    }
+                    created.events++;
+                });
+            }
+
+            for (const doc of plan.documents) {
+                if (!doc.file_path) {
+                    rejected.push({ record: doc.xref || doc.title, reason: 'Media object has no FILE reference' });
+                    continue;
+                }
+
+                // Files are served from the uploads directory, so the reference must stay inside it
+                if (!isSafeUploadPath(doc.file_path)) {
+                    rejected.push({ record: doc.xref || doc.title, reason: `Media FILE reference ${doc.file_path} is not a relative path inside the uploads directory` });
+                    continue;
+                }
+
+                await attempt(doc.xref || doc.title, async (savepoint) => {
+                    const document = await documentService.createDocument({
+                        title: doc.title,
+                        document_type: doc.document_type,
+                        file_path: doc.file_path,
+                        description: doc.description,
+                        source: doc.source,
+                        project_id: projectId
+                    }, savepoint, { userId });
+
+                    for (const xref of doc.personXrefs) {
+                        const personId = personIds.get(xref);
+                        if (personId) {
+                            await documentService.associateDocumentWithPerson(document.document_id, personId, {}, savepoint);
+                        }
+                    }
+                    created.documents++;
+                });
+            }
+        });
+
+        return {
+            created,
+            rejected,
+            ...plan.report.toJSON()
+        };
+    }
+
+    /**
+     * Build the GEDCOM records for a project's people, relationships, events and documents
+     *
+     * @param {Object} data - Project data
+     * @param {Object} data.project - Project
+     * @param {Array} data.persons - Persons in the project
+     * @param {Array} data.relationships - Relationships among those persons
+     * @param {Array} data.events - Events as { event, personIds }
+     * @param {Array} data.documents - Documents as { document, personIds }
+     * @returns {Array} Level 0 records, HEAD through TRLR
+     */
+    buildExportRecords({ project, persons, relationships, events, documents }) {
+        const sortedPersons = persons.map(toPlain).sort((a, b) =>
+            `${a.last_name} ${a.first_name}`.localeCompare(`${b.last_name} ${b.first_name}`));
+        const personsById = new Map(sortedPersons.map(person => [person.person_id, person]));
+        const personXrefs = new Map(sortedPersons.map((person, index) => [person.person_id, `@I${index + 1}@`]));
+
+        // Parent links keyed by child, and spouse relationships keyed by couple
+        const parentLinks = new Map();
+        const spouseRelationships = new Map();
+        const coupleKey = (ids) => [...ids].sort().join('+');
+
+        relationships.map(toPlain).forEach(rel => {
+            if (!personsById.has(rel.person1_id) || !personsById.has(rel.person2_id)) return;
+
+            if (rel.relationship_type === 'parent' || rel.relationship_type === 'child') {
+                const [parentId, childId] = rel.relationship_type === 'parent'
+                    ? [rel.person1_id, rel.person2_id]
+                    : [rel.person2_id, rel.person1_id];
+                const links = parentLinks.get(childId) || new Map();
+                if (!links.has(parentId) || !links.get(parentId)) {
+                    links.set(parentId, rel.relationship_qualifier || null);
+                }
+                parentLinks.set(childId, links);
+            } else if (rel.relationship_type === 'spouse') {
+                const key = coupleKey([rel.person1_id, rel.person2_id]);
+                if (!spouseRelationships.has(key)) spouseRelationships.set(key, rel);
+            }
+        });
+
+        // Families are keyed by their parents; a single parent gets a family of their own
+        const families = new Map();
+        const getFamily = (parentIds) => {
+            const key = coupleKey(parentIds);
+            if (!families.has(key)) {
+                const [first, second] = parentIds.map(id => personsById.get(id));
+                let husband = null;
+                let wife = null;
+
+                if (!second) {
+                    if (first.gender === 'female') wife = first;
+                    else husband = first;
+                } else if (first.gender === 'female' || second.gender === 'male') {
+                    husband = second;
+                    wife = first;
+                } else {
+                    husband = first;
+                    wife = second;
+                }
+
+                families.set(key, {
+                    xref: `@F${families.size + 1}@`,
+                    husband,
+                    wife,
+                    parentIds,
+                    children: [],
+                    spouseRelationship: null,
+                    marriages: [],
+                    divorces: []
+                });
+            }
+            return families.get(key);
+        };
+
+        spouseRelationships.forEach(rel => {
+            getFamily([rel.person1_id, rel.person2_id]).spouseRelationship = rel;
+        });
+
+        const childFamilies = new Map();
+        parentLinks.forEach((links, childId) => {
+            // Parents with the same qualifier share a family, spouses first
+            const byQualifier = new Map();
+            links.forEach((qualifier, parentId) => {
+                byQualifier.set(qualifier, [...(byQualifier.get(qualifier) || []), parentId]);
+            });
+
+            byQualifier.forEach((parentIds, qualifier) => {
+                const remaining = [...parentIds];
+                while (remaining.length > 0) {
+                    const parentId = remaining.shift();
+                    let partnerIndex = remaining.findIndex(id => spouseRelationships.has(coupleKey([parentId, id])));
+                    if (partnerIndex === -1 && remaining.length > 0) partnerIndex = 0;
+
+                    const familyParents = partnerIndex === -1 ? [parentId] : [parentId, remaining.splice(partnerIndex, 1)[0]];
+                    const family = getFamily(familyParents);
+                    family.children.push(childId);
+                    childFamilies.set(childId, [...(childFamilies.get(childId) || []), { family, qualifier }]);
+                }
+            });
+        });
+
+        // Marriage and divorce events belong on a family; everything else on the individual
+        const individualEvents = new Map();
+        const seenEvents = new Set();
+
+        events.forEach(({ event, personIds }) => {
+            const plainEvent = toPlain(event);
+            if (seenEvents.has(plainEvent.event_id)) return;
+            seenEvents.add(plainEvent.event_id);
+
+            const linkedIds = personIds.filter(id => personsById.has(id));
+            if (linkedIds.length === 0) return;
+
+            if (['marriage', 'divorce'].includes(plainEvent.event_type)) {
+                let family = linkedIds.length >= 2 ? families.get(coupleKey(linkedIds.slice(0, 2))) : null;
+
+                if (!family) {
+                    const candidates = Array.from(families.values())
+                        .filter(f => f.spouseRelationship && f.parentIds.includes(linkedIds[0]));
+                    const dateField = plainEvent.event_type === 'marriage' ? 'start_date' : 'end_date';
+                    family = candidates.find(f => toDay(f.spouseRelationship[dateField]) === toDay(plainEvent.event_date))
+                        || (candidates.length === 1 ? candidates[0] : getFamily([linkedIds[0]]));
+                }
+
+                family[plainEvent.event_type === 'marriage' ? 'marriages' : 'divorces'].push(plainEvent);
+                return;
+            }
+
+            linkedIds.forEach(personId => {
+                individualEvents.set(personId, [...(individualEvents.get(personId) || []), plainEvent]);
+            });
+        });
+
+        // Documents become OBJE records linked from each individual they are associated with
+        const mediaLinks = new Map();
+        const mediaRecords = [];
+        const seenDocuments = new Set();
+
+        documents.forEach(({ document, personIds }) => {
+            const plainDocument = toPlain(document);
+            if (seenDocuments.has(plainDocument.document_id) || !plainDocument.file_path) return;
+            seenDocuments.add(plainDocument.document_id);
+
+            const xref = `@M${mediaRecords.length + 1}@`;
+            mediaRecords.push(mediaNode(xref, plainDocument));
+            personIds.filter(id => personsById.has(id)).forEach(personId => {
+                mediaLinks.set(personId, [...(mediaLinks.get(personId) || []), xref]);
+            });
+        });
+
+        const byDate = (a, b) => (toDay(a.event_date) || '9999').localeCompare(toDay(b.event_date) || '9999');
+
+        const individualRecords = sortedPersons.map(person => {
+            const personEvents = (individualEvents.get(person.person_id) || []).sort(byDate);
+            const vitalEvents = ['birth', 'death'].map(type => {
+                if (personEvents.some(event => event.event_type === type)) return null;
+                // Fall back to the biographical fields when there is no matching event
+                const date = person[`${type}_date`];
+                const location = person[`${type}_location`];
+                return date || location
+                    ? eventNode({ event_type: type, event_date: date, event_date_detail: person[`${type}_date_detail`], event_location: location })
+                    : null;
+            });
+
+            const spouseFamilies = Array.from(families.values()).filter(f => f.parentIds.includes(person.person_id));
+
+            return node('INDI', '', [
+                ...nameNodes(person),
+                optionalNode('SEX', sexValue(person.gender)),
+                ...vitalEvents,
+                ...personEvents.map(eventNode),
+                ...(childFamilies.get(person.person_id) || []).map(({ family, qualifier }) => familyChildNode(family.xref, qualifier)),
+                ...spouseFamilies.map(family => node('FAMS', family.xref)),
+                optionalNode('NOTE', person.notes),
+                ...(mediaLinks.get(person.person_id) || []).map(xref => node('OBJE', xref))
+            ], personXrefs.get(person.person_id));
+        });
+
+        const familyRecords = Array.from(families.values()).map(family => {
+            const rel = family.spouseRelationship;
+            const marriages = [...family.marriages].sort(byDate);
+            const divorces = [...family.divorces].sort(byDate);
+
+            // The importer takes the spouse relationship's dates from the first MARR and DIV
+            if (rel) {
+                const startIndex = marriages.findIndex(event => toDay(event.event_date) === toDay(rel.start_date));
+                if (startIndex > 0) marriages.unshift(marriages.splice(startIndex, 1)[0]);
+                if (startIndex === -1 && rel.start_date) {
+                    marriages.unshift({ event_type: 'marriage', event_date: rel.start_date, event_date_detail: rel.start_date_detail });
+                }
+
+                const endIndex = divorces.findIndex(event => toDay(event.event_date) === toDay(rel.end_date));
+                if (endIndex > 0) divorces.unshift(divorces.splice(endIndex, 1)[0]);
+                if (endIndex === -1 && rel.end_date) {
+                    divorces.unshift({ event_type: 'divorce', event_date: rel.end_date, event_date_detail: rel.end_date_detail });
+                }
+            }
+
+            return node('FAM', '', [
+                family.husband ? node('HUSB', personXrefs.get(family.husband.person_id)) : null,
+                family.wife ? node('WIFE', personXrefs.get(family.wife.person_id)) : null,
+                ...family.children.map(childId => node('CHIL', personXrefs.get(childId))),
+                ...marriages.map(eventNode),
+                ...divorces.map(eventNode)
+            ], family.xref);
+        });
+
+        const header = node('HEAD', '', [
+            node('SOUR', 'ANCESTRY', [node('NAME', 'Ancestry')]),
+            node('DATE', formatGedcomDate(new Date())),
+            node('SUBM', '@U1@'),
+            node('GEDC', '', [node('VERS', '5.5.1'), node('FORM', 'LINEAGE-LINKED')]),
+            node('CHAR', 'UTF-8'),
+            optionalNode('NOTE', project.title)
+        ]);
+
+        return [
+            header,
+            node('SUBM', '', [node('NAME', project.title || 'Ancestry')], '@U1@'),
+            ...individualRecords,
+            ...familyRecords,
+            ...mediaRecords,
+            node('TRLR')
+        ];
+    }
+
+    /**
+     * Export a project's people, relationships, events and linked documents as GEDCOM 5.5.1.
+     * Private persons, such as those who may still be alive, are exported as "Living" placeholders
+     * without the events and documents they are part of.
+     *
+     * @param {String} projectId - Project ID
+     * @returns {Promise<Object>} Object with the project and the GEDCOM text
+     */
+    async exportProject(projectId) {
+        const project = await projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        const projectPersons = await projectRepository.getProjectPersons(projectId);
+        const personIds = projectPersons.map(person => person.person_id);
+        const privateIds = getPrivatePersonIds(projectPersons);
+        const persons = redactPersons(projectPersons, privateIds);
+
+        const relationships = personIds.length > 0
+            ? (await relationshipRepository.findRelationshipsInvolvingPersons(personIds)).map(rel => redactRelationship(rel, privateIds))
+            : [];
+
+        // Collect each event and document once, along with every project person it is linked to
+        const events = new Map();
+        const documents = new Map();
+
+        for (const personId of personIds) {
+            const personEvents = await eventRepository.findEventsByPersonId(personId);
+            personEvents.forEach(event => {
+                const entry = events.get(event.event_id) || { event, personIds: [] };
+                entry.personIds.push(personId);
+                events.set(event.event_id, entry);
+            });
+
+            const personDocuments = await documentRepository.findDocumentsByPersonId(personId);
+            personDocuments.forEach(document => {
+                const entry = documents.get(document.document_id) || { document, personIds: [] };
+                entry.personIds.push(personId);
+                documents.set(document.document_id, entry);
+            });
+        }
+
+        const isPublic = (entry) => !entry.personIds.some(personId => privateIds.has(personId));
+
+        const records = this.buildExportRecords({
+            project: toPlain(project),
+            persons,
+            relationships,
+            events: Array.from(events.values()).filter(isPublic),
+            documents: Array.from(documents.values()).filter(isPublic)
+        });
+
+        return {
+            project,
+            content: serializeGedcom(records)
+        };
+    }
+}
+
+module.exports = new GedcomService();
@@ -0,0 +1,245 @@
+const entityVersionRepository = require('../repositories/entityVersionRepository');
+const personRepository = require('../repositories/personRepository');
+const eventRepository = require('../repositories/eventRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const documentRepository = require('../repositories/documentRepository');
+
+// Repositories and primary keys of each kind of versioned record
+const versionedRepositories = {
+    person: personRepository,
+    event: eventRepository,
+    relationship: relationshipRepository,
+    document: documentRepository
+};
+
+const ID_FIELDS = {
+    person: 'person_id',
+    event: 'event_id',
+    relationship: 'relationship_id',
+    document: 'document_id'
+};
+
+// Bookkeeping and derived columns that are not part of a record's history
+const UNVERSIONED_FIELDS = [
+    'created_at', 'updated_at', 'createdAt', 'updatedAt', 'phonetic_codes',
+    'ocr_status', 'ocr_pages', 'ocr_attempts', 'ocr_error', 'ocr_completed_at',
+    'transcription_updated_by', 'transcription_updated_at'
+];
+
+// Fields a revert leaves alone: who a relationship links, and the uploaded file behind a document
+const FIXED_FIELDS = {
+    person: [],
+    event: [],
+    relationship: ['person1_id', 'person2_id', 'relationship_type'],
+    document: ['file_path', 'file_size', 'mime_type', 'upload_date', 'project_id']
+};
+
+/**
+ * History Service
+ * Keeps the edit history of persons, events, relationships and documents, and reverts them to earlier versions
+ */
+class HistoryService {
+    /**
+     * Record a change to a record as its next version
+     *
+     * Called inside the transaction of the write, after the record was written, so the row lock
+     * taken by the write keeps concurrent edits of the same record from claiming the same number.
+     *
+     * @param {String} entityType - Entity type
+     * @param {Object|null} before - The record before the change, null when it was created
+     * @param {Object|null} after - The record after the change, null when it was deleted
+     * @param {Object} options - Options
+     * @param {Object} options.transaction - Transaction of the write
+     * @param {String} options.userId - User who made the change
+     * @param {String} options.action - Overrides the action worked out from before and after ('revert')
+     * @param {Number} options.revertedToVersion - Version whose values a revert restored
+     * @returns {Promise<Object|null>} Created version, or null when an update changed nothing
+     */
+    async recordChange(entityType, before, after, options = {}) {
+        const previous = this._toSnapshot(before);
+        const current = this._toSnapshot(after);
+        const entityId = (current || previous)[ID_FIELDS[entityType]];
+
+        const changes = this._diff(previous || {}, current || {});
+        delete changes[ID_FIELDS[entityType]];
+        if (previous && current && Object.keys(changes).length === 0) {
+            return null;
+        }
+
+        let action = options.action;
+        if (!action) {
+            if (!previous) action = 'create';
+            else if (!current) action = 'delete';
+            else action = 'update';
+        }
+
+        const latestVersion = await entityVersionRepository.findLatestVersionNumber(entityType, entityId, {
+            transaction: options.transaction
+        });
+
+        return await entityVersionRepository.create({
+            entity_type: entityType,
+            entity_id: entityId,
+            version_number: latestVersion + 1,
+            action,
+            changes,
+            snapshot: current || previous,
+            reverted_to_version: options.revertedToVersion || null,
+            changed_by: options.userId || null
+        }, { transaction: options.transaction });
+    }
+
+    /**
+     * Get the versions of a record, newest first
+     *
+     * @param {String} entityType - Entity type
+     * @param {String} entityId - Entity ID
+     * @param {Object} params - Pagination parameters (page, pageSize)
+     * @returns {Promise<Object>} Paginated result with versions and metadata
+     */
+    async getHistory(entityType, entityId, params = {}) {
+        return await entityVersionRepository.findHistory(entityType, entityId, params);
+    }
+
+    /**
+     * Revert a record to the values it had in an earlier version
+     *
+     * The revert goes through the record's own service, so it is validated like any other edit
+     * and is itself recorded as a new version.
+     *
+     * @param {String} entityType - Entity type
+     * @param {String} entityId - Entity ID
+     * @param {Number} versionNumber - Version to go back to
+     * @param {String} userId - User reverting the record
+     * @returns {Promise<Object>} The reverted record
+     */
+    async revertToVersion(entityType, entityId, versionNumber, userId = null) {
+        const [version, record] = await Promise.all([
+            entityVersionRepository.findVersion(entityType, entityId, versionNumber),
+            versionedRepositories[entityType].findById(entityId)
+        ]);
+
+        if (!record) {
+            throw new Error(`${entityType.charAt(0).toUpperCase()}${entityType.slice(1)} with id ${entityId} not found`);
+        }
+
+        if (!version) {
+            throw new Error(`Version ${versionNumber} of ${entityType} ${entityId} not found`);
+        }
+
+        // Only the fields that differ from the record now are written back
+        const current = this._toSnapshot(record);
+        const fields = {};
+        Object.entries(version.snapshot).forEach(([field, value]) => {
+            if (field === ID_FIELDS[entityType] || FIXED_FIELDS[entityType].includes(field)) return;
+            if (!(field in current)) return;
+            if (JSON.stringify(current[field]) !== JSON.stringify(value)) {
+                fields[field] = value;
+            }
+        });
+
+        if (Object.keys(fields).length === 0) {
+            throw new Error(`The ${entityType} already matches version ${versionNumber}`);
+        }
+
+        const historyContext = { userId, action: 'revert', revertedToVersion: versionNumber };
+
+        switch (entityType) {
+            case 'person': {
+                const personService = require('./personService');
+                const events = await this._vitalEventsFor(entityId, { ...current, ...fields }, fields);
+                return await personService.updatePerson(entityId, fields, events, [], historyContext);
+            }
+            case 'event': {
+                const eventService = require('./eventService');
+                return await eventService.updateEvent(entityId, fields, null, historyContext);
+            }
+            case 'relationship': {
+                const relationshipService = require('./relationshipService');
+                return await relationshipService.updateRelationship(entityId, fields, historyContext);
+            }
+            case 'document': {
+                const documentService = require('./documentService');
+                return await documentService.updateDocument(entityId, fields, historyContext);
+            }
+            default:
+                throw new Error(`Unknown entity type ${entityType}`);
+        }
+    }
+
+    /**
+     * Birth and death events to save with a reverted person, since they must keep the person's dates and places
+     *
+     * @param {String} personId - Person ID
+     * @param {Object} person - The person's fields after the revert
+     * @param {Object} fields - Fields the revert changes
+     * @returns {Promise<Array>} Events to update
+     * @private
+     */
+    async _vitalEventsFor(personId, person, fields) {
+        const changedVitals = ['birth', 'death'].filter(type =>
+            [`${type}_date`, `${type}_date_detail`, `${type}_location`, `${type}_place_id`].some(field => field in fields));
+        if (changedVitals.length === 0) return [];
+
+        const { events = [] } = await personRepository.findPersonById(personId, { includeEvents: true });
+
+        return changedVitals
+            .map(type => {
+                const event = events.find(e => e.event_type === type);
+                if (!event) return null;
+                return {
+                    event_id: event.event_id,
+                    event_type: type,
+                    event_date: person[`${type}_date`],
+                    event_date_detail: person[`${type}_date_detail`],
+                    event_location: person[`${type}_location`],
+                    event_place_id: person[`${type}_place_id`] || null,
+                    description: event.description
+                };
+            })
+            .filter(Boolean);
+    }
+
+    /**
+     * Plain copy of a record's own fields, with dates as they are sent to clients
+     *
+     * @param {Object|null} record - Model instance or plain object
+     * @returns {Object|null} Snapshot
+     * @private
+     */
+    _toSnapshot(record) {
+        if (!record) return null;
+
+        const plain = JSON.parse(JSON.stringify(record.toJSON ? record.toJSON() : record));
+        UNVERSIONED_FIELDS.forEach(field => delete plain[field]);
+        // Included associations (a person's events, an event's persons) have their own history
+        Object.keys(plain).forEach(field => {
+            if (Array.isArray(plain[field]) || (plain[field] && typeof plain[field] === 'object' && !field.endsWith('_detail'))) {
+                delete plain[field];
+            }
+        });
+        return plain;
+    }
+
+    /**
+     * Fields whose values differ between two snapshots
+     *
+     * @param {Object} before - Snapshot before the change
+     * @param {Object} after - Snapshot after the change
+     * @returns {Object} { field: { from, to } }
+     * @private
+     */
+    _diff(before, after) {
+        const changes = {};
+        new Set([...Object.keys(before), ...Object.keys(after)]).forEach(field => {
+            const from = before[field] === undefined ? null : before[field];
+            const to = after[field] === undefined ? null : after[field];
+            if (JSON.stringify(from) !== JSON.stringify(to)) {
+                changes[field] = { from, to };
+            }
+        });
+        return changes;
+    }
+}
+
+module.exports = new HistoryService();
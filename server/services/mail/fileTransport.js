@@ -0,0 +1,44 @@
+const fs = require('fs');
+const path = require('path');
+const { buildMimeMessage } = require('./mimeMessage');
+
+/**
+ * File Mail Transport
+ * Writes each message to an .eml file instead of sending it, for local development.
+ * The files open in any mail client, so links such as password reset URLs can be followed.
+ */
+class FileTransport {
+    /**
+     * Constructor
+     *
+     * @param {Object} config - Transport configuration
+     * @param {String} config.directory - Directory the messages are written to
+     */
+    constructor({ directory }) {
+        this.name = 'file';
+        this.directory = directory;
+    }
+
+    /**
+     * Write a message to disk
+     *
+     * @param {Object} message - Message ({ from, to, subject, text, html, attachments })
+     * @returns {Promise<Object>} Message ID and the path of the written file
+     */
+    async send(message) {
+        const { messageId, source } = buildMimeMessage(message);
+
+        await fs.promises.mkdir(this.directory, { recursive: true });
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const recipient = message.to.address.replace(/[^a-z0-9@._-]/gi, '_');
+        const filePath = path.join(this.directory, `${timestamp}-${recipient}.eml`);
+
+        await fs.promises.writeFile(filePath, source, 'utf8');
+        console.log(`Email "${message.subject}" to ${message.to.address} written to ${filePath}`);
+
+        return { messageId, filePath };
+    }
+}
+
+module.exports = FileTransport;
@@ -0,0 +1,94 @@
+const path = require('path');
+const SmtpTransport = require('./smtpTransport');
+const SendgridTransport = require('./sendgridTransport');
+const MailgunTransport = require('./mailgunTransport');
+const FileTransport = require('./fileTransport');
+const MemoryTransport = require('./memoryTransport');
+
+const MAIL_TRANSPORTS = ['smtp', 'sendgrid', 'mailgun', 'file', 'memory'];
+
+const transports = {};
+
+/**
+ * Name of the configured transport.
+ * Without configuration, tests keep mail in memory and development writes it to files.
+ *
+ * @returns {String} Transport name
+ */
+function getDefaultTransportName() {
+    if (process.env.MAIL_TRANSPORT) {
+        return process.env.MAIL_TRANSPORT;
+    }
+
+    return process.env.NODE_ENV === 'test' ? 'memory' : 'file';
+}
+
+/**
+ * Get a mail transport by name.
+ * Every transport exposes send({ from, to, subject, text, html, attachments }) resolving to { messageId },
+ * where attachments is a list of { filename, contentType, content } with Buffer content.
+ *
+ * @param {String} [name] - Transport name, the configured default if omitted
+ * @returns {Object} Mail transport
+ */
+function getMailTransport(name = getDefaultTransportName()) {
+    if (!MAIL_TRANSPORTS.includes(name)) {
+        throw new Error(`Mail transport '${name}' not found`);
+    }
+
+    if (!transports[name]) {
+        switch (name) {
+            case 'smtp':
+                transports[name] = new SmtpTransport({
+                    host: process.env.SMTP_HOST,
+                    port: parseInt(process.env.SMTP_PORT, 10) || 587,
+                    secure: process.env.SMTP_SECURE === 'true',
+                    // Unset, TLS is required whenever credentials are configured
+                    requireTls: process.env.SMTP_REQUIRE_TLS ? process.env.SMTP_REQUIRE_TLS === 'true' : undefined,
+                    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+                    user: process.env.SMTP_USER,
+                    password: process.env.SMTP_PASSWORD
+                });
+                break;
+            case 'sendgrid':
+                transports[name] = new SendgridTransport({
+                    apiKey: process.env.SENDGRID_API_KEY
+                });
+                break;
+            case 'mailgun':
+                transports[name] = new MailgunTransport({
+                    apiKey: process.env.MAILGUN_API_KEY,
+                    domain: process.env.MAILGUN_DOMAIN,
+                    apiUrl: process.env.MAILGUN_API_URL
+                });
+                break;
+            case 'file':
+                transports[name] = new FileTransport({
+                    directory: process.env.MAIL_FILE_DIR || path.join(__dirname, '..', '..', 'tmp', 'mail')
+                });
+                break;
+            default:
+                transports[name] = new MemoryTransport();
+        }
+    }
+
+    return transports[name];
+}
+
+/**
+ * The sender of outgoing mail
+ *
+ * @returns {Object} Sender mailbox ({ address, name })
+ */
+function getSender() {
+    return {
+        address: process.env.MAIL_FROM_ADDRESS || 'no-reply@localhost',
+        name: process.env.MAIL_FROM_NAME || 'Ancestry Research'
+    };
+}
+
+module.exports = {
+    MAIL_TRANSPORTS,
+    getMailTransport,
+    getSender
+};
@@ -0,0 +1,73 @@
+const { formatAddress } = require('./mimeMessage');
+
+// EU domains use https://api.eu.mailgun.net/v3
+const MAILGUN_API_URL = 'https://api.mailgun.net/v3';
+
+/**
+ * Mailgun Mail Transport
+ * Delivers messages through the Mailgun Messages API
+ */
+class MailgunTransport {
+    /**
+     * Constructor
+     *
+     * @param {Object} config - Transport configuration
+     * @param {String} config.apiKey - Mailgun API key
+     * @param {String} config.domain - Sending domain
+     * @param {String} [config.apiUrl] - Mailgun API base URL
+     */
+    constructor({ apiKey, domain, apiUrl = MAILGUN_API_URL }) {
+        this.name = 'mailgun';
+        this.apiKey = apiKey;
+        this.domain = domain;
+        this.apiUrl = apiUrl;
+    }
+
+    /**
+     * Send a message
+     *
+     * @param {Object} message - Message ({ from, to, subject, text, html, attachments })
+     * @returns {Promise<Object>} Message ID assigned by Mailgun
+     */
+    async send({ from, to, subject, text, html, attachments = [] }) {
+        if (!this.apiKey || !this.domain) {
+            throw new Error('Mailgun is not configured: MAILGUN_API_KEY and MAILGUN_DOMAIN are required');
+        }
+
+        const fields = {
+            from: formatAddress(from),
+            to: formatAddress(to),
+            subject,
+            text,
+            html
+        };
+
+        // Files need a multipart body; fetch sets its Content-Type with the boundary
+        let form = new URLSearchParams(fields);
+        if (attachments.length > 0) {
+            form = new FormData();
+            Object.entries(fields).forEach(([name, value]) => form.append(name, value));
+            attachments.forEach(({ filename, contentType, content }) => {
+                form.append('attachment', new Blob([content], { type: contentType || 'application/octet-stream' }), filename);
+            });
+        }
+
+        const response = await fetch(`${this.apiUrl}/${this.domain}/messages`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Basic ${Buffer.from(`api:${this.apiKey}`).toString('base64')}`
+            },
+            body: form
+        });
+
+        if (!response.ok) {
+            const body = await response.text();
+            throw new Error(`Mailgun delivery failed (${response.status}): ${body}`);
+        }
+
+        const body = await response.json();
+        return { messageId: body.id };
+    }
+}
+
+module.exports = MailgunTransport;
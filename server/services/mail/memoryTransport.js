@@ -0,0 +1,33 @@
+const crypto = require('crypto');
+
+/**
+ * In-memory Mail Transport
+ * Keeps sent messages in a list instead of delivering them, for tests
+ */
+class MemoryTransport {
+    constructor() {
+        this.name = 'memory';
+        this.sent = [];
+    }
+
+    /**
+     * Record a message
+     *
+     * @param {Object} message - Message ({ from, to, subject, text, html, attachments })
+     * @returns {Promise<Object>} Message ID
+     */
+    async send(message) {
+        const messageId = `<${crypto.randomUUID()}@memory>`;
+        this.sent.push({ ...message, messageId });
+        return { messageId };
+    }
+
+    /**
+     * Forget the recorded messages
+     */
+    clear() {
+        this.sent = [];
+    }
+}
+
+module.exports = MemoryTransport;
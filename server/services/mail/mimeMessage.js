@@ -0,0 +1,137 @@
+const crypto = require('crypto');
+
+const CRLF = '\r\n';
+
+/**
+ * Encode a header value as an RFC 2047 encoded word when it contains non-ASCII characters
+ *
+ * @param {String} value - Header value
+ * @returns {String} Header-safe value
+ */
+function encodeHeader(value) {
+    if (/^[\x20-\x7e]*$/.test(value)) {
+        return value;
+    }
+
+    return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Format a mailbox for a header, e.g. "Jane Smith" <jane@example.com>
+ *
+ * @param {Object} mailbox - Mailbox
+ * @param {String} mailbox.address - Email address
+ * @param {String} [mailbox.name] - Display name
+ * @returns {String} Formatted mailbox
+ */
+function formatAddress({ address, name }) {
+    if (!name) {
+        return `<${address}>`;
+    }
+
+    const encodedName = encodeHeader(name);
+    const displayName = encodedName === name ? `"${name.replace(/(["\\])/g, '\\$1')}"` : encodedName;
+
+    return `${displayName} <${address}>`;
+}
+
+/**
+ * Base64-encode a body part, wrapped at 76 characters as MIME requires
+ *
+ * @param {String|Buffer} content - Part content
+ * @returns {String} Encoded content
+ */
+function encodeBody(content) {
+    return Buffer.from(content, 'utf8').toString('base64').replace(/.{1,76}/g, line => line + CRLF).trimEnd();
+}
+
+/**
+ * Quote a file name for a Content-Type or Content-Disposition parameter
+ *
+ * @param {String} filename - File name
+ * @returns {String} Parameter value
+ */
+function encodeFilename(filename) {
+    const encoded = encodeHeader(filename);
+    return `"${encoded === filename ? filename.replace(/(["\\])/g, '\\$1') : encoded}"`;
+}
+
+/**
+ * Build an RFC 5322 message with plain text and HTML alternatives.
+ * Messages with attachments wrap the alternatives in a multipart/mixed body followed by the files.
+ *
+ * @param {Object} message - Message to build
+ * @param {Object} message.from - Sender mailbox ({ address, name })
+ * @param {Object} message.to - Recipient mailbox ({ address, name })
+ * @param {String} message.subject - Subject line
+ * @param {String} message.text - Plain text body
+ * @param {String} message.html - HTML body
+ * @param {Array} [message.attachments] - Files to attach ({ filename, contentType, content })
+ * @param {String} [message.messageId] - Message-ID, generated if omitted
+ * @param {Date} [message.date] - Date header, now if omitted
+ * @returns {Object} Message-ID and the message source, with CRLF line endings
+ */
+function buildMimeMessage({ from, to, subject, text, html, attachments = [], messageId, date = new Date() }) {
+    const domain = from.address.split('@')[1] || 'localhost';
+    const id = messageId || `<${crypto.randomUUID()}@${domain}>`;
+    const boundary = `alt_${crypto.randomBytes(12).toString('hex')}`;
+
+    const alternatives = [
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        encodeBody(text),
+        `--${boundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        encodeBody(html),
+        `--${boundary}--`
+    ];
+
+    let body = alternatives;
+
+    if (attachments.length > 0) {
+        const mixedBoundary = `mixed_${crypto.randomBytes(12).toString('hex')}`;
+
+        body = [
+            `Content-Type: multipart/mixed; boundary="${mixedBoundary}"`,
+            '',
+            `--${mixedBoundary}`,
+            ...alternatives,
+            ...attachments.flatMap(({ filename, contentType, content }) => [
+                `--${mixedBoundary}`,
+                `Content-Type: ${contentType || 'application/octet-stream'}; name=${encodeFilename(filename)}`,
+                'Content-Transfer-Encoding: base64',
+                `Content-Disposition: attachment; filename=${encodeFilename(filename)}`,
+                '',
+                encodeBody(content)
+            ]),
+            `--${mixedBoundary}--`
+        ];
+    }
+
+    const lines = [
+        `From: ${formatAddress(from)}`,
+        `To: ${formatAddress(to)}`,
+        `Subject: ${encodeHeader(subject)}`,
+        `Date: ${date.toUTCString()}`,
+        `Message-ID: ${id}`,
+        'MIME-Version: 1.0',
+        ...body,
+        ''
+    ];
+
+    return {
+        messageId: id,
+        source: lines.join(CRLF)
+    };
+}
+
+module.exports = {
+    buildMimeMessage,
+    formatAddress
+};
@@ -0,0 +1,66 @@
+const SENDGRID_API_URL = 'https://api.sendgrid.com/v3';
+
+/**
+ * SendGrid Mail Transport
+ * Delivers messages through the SendGrid v3 Mail Send API
+ */
+class SendgridTransport {
+    /**
+     * Constructor
+     *
+     * @param {Object} config - Transport configuration
+     * @param {String} config.apiKey - SendGrid API key
+     * @param {String} [config.apiUrl] - SendGrid API base URL
+     */
+    constructor({ apiKey, apiUrl = SENDGRID_API_URL }) {
+        this.name = 'sendgrid';
+        this.apiKey = apiKey;
+        this.apiUrl = apiUrl;
+    }
+
+    /**
+     * Send a message
+     *
+     * @param {Object} message - Message ({ from, to, subject, text, html, attachments })
+     * @returns {Promise<Object>} Message ID assigned by SendGrid
+     */
+    async send({ from, to, subject, text, html, attachments = [] }) {
+        if (!this.apiKey) {
+            throw new Error('SendGrid is not configured: SENDGRID_API_KEY is missing');
+        }
+
+        const response = await fetch(`${this.apiUrl}/mail/send`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                personalizations: [{ to: [{ email: to.address, name: to.name || undefined }] }],
+                from: { email: from.address, name: from.name || undefined },
+                subject,
+                content: [
+                    { type: 'text/plain', value: text },
+                    { type: 'text/html', value: html }
+                ],
+                attachments: attachments.length > 0
+                    ? attachments.map(({ filename, contentType, content }) => ({
+                        filename,
+                        type: contentType,
+                        disposition: 'attachment',
+                        content: Buffer.from(content).toString('base64')
+                    }))
+                    : undefined
+            })
+        });
+
+        if (!response.ok) {
+            const body = await response.text();
+            throw new Error(`SendGrid delivery failed (${response.status}): ${body}`);
+        }
+
+        return { messageId: response.headers.get('x-message-id') };
+    }
+}
+
+module.exports = SendgridTransport;
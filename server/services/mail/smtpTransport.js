@@ -0,0 +1,270 @@
+const net = require('net');
+const tls = require('tls');
+const os = require('os');
+const { buildMimeMessage } = require('./mimeMessage');
+
+/**
+ * A single SMTP connection that sends commands and reads (possibly multi-line) replies
+ */
+class SmtpConnection {
+    /**
+     * Constructor
+     *
+     * @param {net.Socket|tls.TLSSocket} socket - Connected socket
+     * @param {Number} timeoutMs - Time to wait for each reply
+     */
+    constructor(socket, timeoutMs) {
+        this.timeoutMs = timeoutMs;
+        this.buffer = '';
+        this.replyLines = [];
+        this.pendingReplies = [];
+        this.waiting = null;
+        this.error = null;
+        this._attach(socket);
+    }
+
+    /**
+     * Listen for replies on a socket
+     *
+     * @param {net.Socket|tls.TLSSocket} socket - Socket to read from
+     */
+    _attach(socket) {
+        this.socket = socket;
+        socket.setEncoding('utf8');
+        socket.on('data', chunk => this._onData(chunk));
+        socket.on('error', error => this._fail(error));
+        socket.on('close', () => this._fail(new Error('SMTP connection closed unexpectedly')));
+    }
+
+    _onData(chunk) {
+        this.buffer += chunk;
+
+        let newline;
+        while ((newline = this.buffer.indexOf('\r\n')) !== -1) {
+            const line = this.buffer.slice(0, newline);
+            this.buffer = this.buffer.slice(newline + 2);
+            this.replyLines.push(line);
+
+            // "250-..." continues a reply, "250 ..." ends it
+            if (line.length < 4 || line[3] !== '-') {
+                const reply = {
+                    code: parseInt(line.slice(0, 3), 10),
+                    text: this.replyLines.map(replyLine => replyLine.slice(4)).join('\n')
+                };
+                this.replyLines = [];
+                this._resolve(reply);
+            }
+        }
+    }
+
+    _resolve(reply) {
+        if (this.waiting) {
+            const { resolve, timer } = this.waiting;
+            clearTimeout(timer);
+            this.waiting = null;
+            resolve(reply);
+        } else {
+            // Keep replies that arrive before anyone asks for them, such as the greeting
+            this.pendingReplies.push(reply);
+        }
+    }
+
+    _fail(error) {
+        if (this.waiting) {
+            const { reject, timer } = this.waiting;
+            clearTimeout(timer);
+            this.waiting = null;
+            reject(error);
+        } else {
+            this.error = this.error || error;
+        }
+    }
+
+    /**
+     * Wait for the next reply and check its code
+     *
+     * @param {Number|Array<Number>} expected - Acceptable reply code(s)
+     * @returns {Promise<Object>} Reply code and text
+     */
+    read(expected) {
+        return new Promise((resolve, reject) => {
+            const check = reply => {
+                const codes = Array.isArray(expected) ? expected : [expected];
+                if (codes.includes(reply.code)) {
+                    resolve(reply);
+                } else {
+                    reject(new Error(`SMTP error ${reply.code}: ${reply.text}`));
+                }
+            };
+
+            if (this.pendingReplies.length > 0) {
+                return check(this.pendingReplies.shift());
+            }
+
+            if (this.error) {
+                return reject(this.error);
+            }
+
+            const timer = setTimeout(() => {
+                this.waiting = null;
+                reject(new Error('SMTP server did not reply in time'));
+            }, this.timeoutMs);
+
+            this.waiting = { timer, reject, resolve: check };
+        });
+    }
+
+    /**
+     * Send a command and wait for its reply
+     *
+     * @param {String} line - Command line, without the trailing CRLF
+     * @param {Number|Array<Number>} expected - Acceptable reply code(s)
+     * @returns {Promise<Object>} Reply code and text
+     */
+    command(line, expected) {
+        const reply = this.read(expected);
+        this.socket.write(`${line}\r\n`);
+        return reply;
+    }
+
+    /**
+     * Upgrade the connection to TLS after STARTTLS
+     *
+     * @param {String} host - Server name, for certificate verification
+     * @returns {Promise<void>}
+     */
+    upgrade(host) {
+        return new Promise((resolve, reject) => {
+            this.socket.removeAllListeners('data');
+            this.socket.removeAllListeners('error');
+            this.socket.removeAllListeners('close');
+
+            const secureSocket = tls.connect({ socket: this.socket, servername: host }, () => resolve());
+            secureSocket.once('error', reject);
+            this._attach(secureSocket);
+        });
+    }
+
+    close() {
+        this.socket.removeAllListeners('close');
+        this.socket.end();
+        this.socket.destroy();
+    }
+}
+
+/**
+ * SMTP Mail Transport
+ * Delivers messages to an SMTP relay, upgrading to TLS with STARTTLS when offered and
+ * authenticating with AUTH PLAIN when credentials are configured.
+ */
+class SmtpTransport {
+    /**
+     * Constructor
+     *
+     * @param {Object} config - Transport configuration
+     * @param {String} config.host - SMTP server host
+     * @param {Number} [config.port] - SMTP server port (587, or 465 for implicit TLS)
+     * @param {Boolean} [config.secure] - Connect with TLS from the start (port 465)
+     * @param {Boolean} [config.requireTls] - Refuse to send over a connection that was not upgraded to TLS
+     *                                          (default: true when credentials are configured)
+     * @param {Boolean} [config.allowInsecureAuth] - Send credentials over an unencrypted connection, e.g. to a
+     *                                               relay on the same host
+     * @param {String} [config.user] - Username
+     * @param {String} [config.password] - Password
+     * @param {Number} [config.timeoutMs] - Time to wait for each server reply
+     */
+    constructor({ host, port = 587, secure = false, requireTls, allowInsecureAuth = false, user, password, timeoutMs = 30000 }) {
+        this.name = 'smtp';
+        this.host = host;
+        this.port = port;
+        this.secure = secure;
+        this.requireTls = requireTls === undefined ? Boolean(user) : requireTls;
+        this.allowInsecureAuth = allowInsecureAuth;
+        this.user = user;
+        this.password = password;
+        this.timeoutMs = timeoutMs;
+        this.clientName = os.hostname() || 'localhost';
+    }
+
+    /**
+     * Open a connection to the server
+     *
+     * @returns {Promise<SmtpConnection>} Connection
+     */
+    _connect() {
+        return new Promise((resolve, reject) => {
+            const options = { host: this.host, port: this.port };
+            const socket = this.secure
+                ? tls.connect({ ...options, servername: this.host })
+                : net.connect(options);
+
+            const onError = error => reject(error);
+            socket.once('error', onError);
+            socket.once(this.secure ? 'secureConnect' : 'connect', () => {
+                socket.removeListener('error', onError);
+                resolve(new SmtpConnection(socket, this.timeoutMs));
+            });
+        });
+    }
+
+    /**
+     * Send a message
+     *
+     * @param {Object} message - Message ({ from, to, subject, text, html, attachments })
+     * @returns {Promise<Object>} Message ID
+     */
+    async send(message) {
+        if (!this.host) {
+            throw new Error('SMTP is not configured: SMTP_HOST is missing');
+        }
+
+        const { messageId, source } = buildMimeMessage(message);
+        const connection = await this._connect();
+
+        try {
+            await connection.read(220);
+
+            const hello = await connection.command(`EHLO ${this.clientName}`, 250);
+            let encrypted = this.secure;
+
+            if (!encrypted && /^STARTTLS$/m.test(hello.text)) {
+                await connection.command('STARTTLS', 220);
+                await connection.upgrade(this.host);
+                encrypted = true;
+
+                // Capabilities must be requested again over the encrypted connection
+                await connection.command(`EHLO ${this.clientName}`, 250);
+            }
+
+            if (this.requireTls && !encrypted) {
+                throw new Error('SMTP server does not support STARTTLS');
+            }
+
+            if (this.user) {
+                // AUTH PLAIN sends the password as it is, readable by anyone on the way
+                if (!encrypted && !this.allowInsecureAuth) {
+                    throw new Error('SMTP credentials are only sent over an encrypted connection');
+                }
+
+                const credentials = Buffer.from(`\u0000${this.user}\u0000${this.password || ''}`).toString('base64');
+                await connection.command(`AUTH PLAIN ${credentials}`, 235);
+            }
+
+            await connection.command(`MAIL FROM:<${message.from.address}>`, 250);
+            await connection.command(`RCPT TO:<${message.to.address}>`, [250, 251]);
+            await connection.command('DATA', 354);
+
+            // Lines starting with a dot are escaped by doubling it, then the message ends with a lone dot
+            const body = source.replace(/\r\n\./g, '\r\n..');
+            await connection.command(`${body}\r\n.`, 250);
+
+            await connection.command('QUIT', 221).catch(() => {});
+
+            return { messageId };
+        } finally {
+            connection.close();
+        }
+    }
+}
+
+module.exports = SmtpTransport;
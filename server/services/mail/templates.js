@@ -0,0 +1,115 @@
+const path = require('path');
+const jade = require('jade');
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+const APP_NAME = 'Ancestry Research';
+
+const VIEWS_DIR = path.join(__dirname, '..', '..', 'views', 'emails');
+
+/**
+ * Email templates.
+ * Each template has a subject, a plain text body and an HTML view in views/emails.
+ * Templates sent because of a notification preference link to the settings page in their footer.
+ */
+const EMAIL_TEMPLATES = {
+    password_reset: {
+        view: 'passwordReset',
+        subject: () => `Reset your ${APP_NAME} password`,
+        text: ({ firstName, resetUrl, expiresInMinutes }) => [
+            `Hello ${firstName},`,
+            '',
+            `We received a request to reset the password for your ${APP_NAME} account.`,
+            `Follow this link within ${expiresInMinutes} minutes to choose a new password:`,
+            '',
+            resetUrl,
+            '',
+            'If you did not ask to reset your password, you can ignore this email; your password will not change.'
+        ]
+    },
+    project_assigned: {
+        view: 'projectAssigned',
+        preference: true,
+        subject: ({ projectTitle }) => `You have been added to "${projectTitle}"`,
+        text: ({ firstName, projectTitle, message, projectUrl }) => [
+            `Hello ${firstName},`,
+            '',
+            `You now have access to the research project "${projectTitle}".`,
+            ...(message ? ['', message] : []),
+            '',
+            `View the project: ${projectUrl}`
+        ]
+    },
+    research_update: {
+        view: 'researchUpdate',
+        preference: true,
+        subject: ({ projectTitle }) => projectTitle ? `Research update: ${projectTitle}` : 'Research update',
+        text: ({ firstName, projectTitle, message, actorName, projectUrl }) => [
+            `Hello ${firstName},`,
+            '',
+            projectTitle ? `There is news on your research project "${projectTitle}":` : 'There is news on your research:',
+            '',
+            message,
+            ...(actorName ? ['', `Posted by ${actorName}`] : []),
+            '',
+            `See the update: ${projectUrl}`
+        ]
+    },
+    family_history_report: {
+        view: 'familyHistoryReport',
+        subject: ({ projectTitle }) => `Family history report: ${projectTitle}`,
+        text: ({ firstName, projectTitle, senderName, message, fileName, projectUrl }) => [
+            `Hello ${firstName},`,
+            '',
+            `${senderName ? `${senderName} sent you` : 'Here is'} the family history report for "${projectTitle}".`,
+            `It is attached to this email as ${fileName}.`,
+            ...(message ? ['', message] : []),
+            '',
+            `View the project: ${projectUrl}`
+        ]
+    }
+};
+
+/**
+ * Render an email from a template
+ *
+ * @param {String} templateName - Template name (see EMAIL_TEMPLATES)
+ * @param {Object} data - Values used by the template
+ * @returns {Object} Subject, plain text and HTML bodies
+ */
+function renderEmail(templateName, data = {}) {
+    const template = EMAIL_TEMPLATES[templateName];
+    if (!template) {
+        throw new Error(`Email template '${templateName}' not found`);
+    }
+
+    const locals = {
+        appName: APP_NAME,
+        clientUrl: CLIENT_URL,
+        preferencesUrl: template.preference ? `${CLIENT_URL}/settings` : null,
+        ...data
+    };
+
+    const subject = template.subject(locals);
+    const textLines = template.text(locals);
+
+    if (locals.preferencesUrl) {
+        textLines.push('', '--', `Change which emails you receive: ${locals.preferencesUrl}`);
+    }
+
+    const html = jade.renderFile(path.join(VIEWS_DIR, `${template.view}.jade`), {
+        ...locals,
+        subject,
+        cache: process.env.NODE_ENV === 'production'
+    });
+
+    return {
+        subject,
+        text: textLines.join('\n'),
+        html
+    };
+}
+
+module.exports = {
+    EMAIL_TEMPLATES,
+    renderEmail
+};
@@ -0,0 +1,332 @@
+const emailOutboxRepository = require('../repositories/emailOutboxRepository');
+const { User, ClientProfile, Project } = require('../models');
+const { getMailTransport, getSender } = require('./mail');
+const { renderEmail } = require('./mail/templates');
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+// Minutes to wait before each retry of a failed delivery
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720];
+
+// User events announcing progress on a project, sent to clients who opted into research updates
+const RESEARCH_UPDATE_EVENTS = ['research_entry_created', 'person_added_to_project', 'document_created'];
+
+/**
+ * Mail Service
+ * Handles queueing and delivery of transactional emails.
+ *
+ * Emails are rendered and stored in the email_outbox table first, then delivered by the outbox
+ * worker through the configured transport, so a failing mail provider never fails the request
+ * that caused the email and deliveries are retried with a growing delay.
+ */
+class MailService {
+    constructor() {
+        this.worker = null;
+        this.processing = null;
+    }
+
+    /**
+     * Render an email and add it to the outbox
+     *
+     * @param {Object} params - Email parameters
+     * @param {String} params.to - Recipient address
+     * @param {String} [params.toName] - Recipient name
+     * @param {String} [params.userId] - ID of the recipient user
+     * @param {String} params.template - Template name
+     * @param {Object} params.data - Template values
+     * @param {Array} [params.attachments] - Files to attach ({ filename, contentType, content })
+     * @returns {Promise<Object>} The queued email
+     */
+    async queueEmail({ to, toName = null, userId = null, template, data, attachments = [] }) {
+        const { subject, html, text } = renderEmail(template, data);
+
+        const email = await emailOutboxRepository.create({
+            user_id: userId,
+            to_address: to,
+            to_name: toName,
+            template,
+            subject,
+            html_body: html,
+            text_body: text,
+            // The outbox row holds everything needed to retry the delivery, so files are stored with it
+            attachments: attachments.length > 0
+                ? attachments.map(({ filename, contentType, content }) => ({
+                    filename,
+                    content_type: contentType,
+                    content: Buffer.from(content).toString('base64')
+                }))
+                : null
+        });
+
+        // Deliver right away when the worker runs in this process instead of waiting for its next tick
+        if (this.worker) {
+            this.processOutbox().catch(error => console.error('Error processing email outbox:', error));
+        }
+
+        return email;
+    }
+
+    /**
+     * Send a password reset link
+     *
+     * @param {Object} user - User requesting the reset
+     * @param {String} resetUrl - Reset page URL including the token
+     * @param {Number} expiresInMinutes - Minutes until the token expires
+     * @returns {Promise<Object>} The queued email
+     */
+    async sendPasswordReset(user, resetUrl, expiresInMinutes) {
+        return await this.queueEmail({
+            to: user.email,
+            toName: `${user.first_name} ${user.last_name}`,
+            userId: user.user_id,
+            template: 'password_reset',
+            data: {
+                firstName: user.first_name,
+                resetUrl,
+                expiresInMinutes
+            }
+        });
+    }
+
+    /**
+     * Email the recipients of newly created user events, honoring their notification preferences.
+     * Project assignments need the email_notifications preference, research updates the research_updates one.
+     * Other event types and events users caused themselves are not emailed.
+     *
+     * @param {Array} events - Created user events
+     * @returns {Promise<Array>} The queued emails
+     */
+    async notifyUserEvents(events) {
+        const emailEvents = events.filter(event =>
+            event.user_id !== event.actor_id &&
+            (event.event_type === 'project_assigned' || RESEARCH_UPDATE_EVENTS.includes(event.event_type))
+        );
+
+        if (emailEvents.length === 0) {
+            return [];
+        }
+
+        const userIds = [...new Set(emailEvents.flatMap(event => [event.user_id, event.actor_id]))];
+        const users = await User.findAll({
+            where: { user_id: userIds, is_active: true },
+            attributes: ['user_id', 'email', 'first_name', 'last_name'],
+            include: [{ model: ClientProfile, required: false }]
+        });
+        const usersById = new Map(users.map(user => [user.user_id, user]));
+
+        const projectIds = [...new Set(emailEvents.map(event => this._getProjectId(event)).filter(Boolean))];
+        const projects = projectIds.length > 0
+            ? await Project.findAll({ where: { id: projectIds }, attributes: ['id', 'title'] })
+            : [];
+        const projectsById = new Map(projects.map(project => [project.id, project]));
+
+        const queued = [];
+
+        for (const event of emailEvents) {
+            const user = usersById.get(event.user_id);
+            if (!user) {
+                continue;
+            }
+
+            const profile = user.ClientProfile;
+            const projectId = this._getProjectId(event);
+            const project = projectsById.get(projectId);
+            const projectUrl = projectId ? `${CLIENT_URL}/projects/${projectId}` : `${CLIENT_URL}/dashboard`;
+
+            if (event.event_type === 'project_assigned') {
+                // Users without a client profile have not turned notifications off
+                if (profile && !profile.email_notifications) {
+                    continue;
+                }
+
+                queued.push(await this.queueEmail({
+                    to: user.email,
+                    toName: `${user.first_name} ${user.last_name}`,
+                    userId: user.user_id,
+                    template: 'project_assigned',
+                    data: {
+                        firstName: user.first_name,
+                        projectTitle: project ? project.title : 'a research project',
+                        message: event.message,
+                        projectUrl
+                    }
+                }));
+            } else {
+                // Research updates are for clients; staff follow the projects in the app
+                if (!profile || !profile.research_updates) {
+                    continue;
+                }
+
+                const actor = usersById.get(event.actor_id);
+
+                queued.push(await this.queueEmail({
+                    to: user.email,
+                    toName: `${user.first_name} ${user.last_name}`,
+                    userId: user.user_id,
+                    template: 'research_update',
+                    data: {
+                        firstName: user.first_name,
+                        projectTitle: project ? project.title : null,
+                        message: event.message,
+                        actorName: actor ? `${actor.first_name} ${actor.last_name}` : null,
+                        projectUrl
+                    }
+                }));
+            }
+        }
+
+        return queued;
+    }
+
+    /**
+     * Deliver the emails that are due.
+     * Failed deliveries are retried later until the email runs out of attempts.
+     *
+     * @param {Object} [options] - Processing options
+     * @param {Number} [options.limit] - Maximum number of emails to deliver
+     * @returns {Promise<Object>} Number of emails sent and failed
+     */
+    async processOutbox({ limit = 20 } = {}) {
+        // Ticks and enqueue kicks share one run so an email is never picked up twice by this process
+        if (this.processing) {
+            return await this.processing;
+        }
+
+        this.processing = this._deliverDueEmails(limit);
+
+        try {
+            return await this.processing;
+        } finally {
+            this.processing = null;
+        }
+    }
+
+    /**
+     * Start delivering the outbox periodically
+     *
+     * @param {Number} [intervalMs] - Time between runs in milliseconds
+     */
+    startOutboxWorker(intervalMs = 30 * 1000) {
+        if (this.worker) {
+            return;
+        }
+
+        const run = () => this.processOutbox().catch(error => console.error('Error processing email outbox:', error));
+
+        this.worker = setInterval(run, intervalMs);
+        this.worker.unref();
+        run();
+    }
+
+    /**
+     * Stop the outbox worker
+     */
+    stopOutboxWorker() {
+        if (this.worker) {
+            clearInterval(this.worker);
+            this.worker = null;
+        }
+    }
+
+    /**
+     * Delay before the next delivery attempt of a failed email
+     *
+     * @param {Number} attempts - Number of attempts made so far
+     * @returns {Number} Delay in milliseconds
+     */
+    getRetryDelay(attempts) {
+        const index = Math.min(Math.max(attempts, 1), RETRY_DELAYS_MINUTES.length) - 1;
+        return RETRY_DELAYS_MINUTES[index] * 60 * 1000;
+    }
+
+    /**
+     * Deliver the due emails one by one
+     *
+     * @param {Number} limit - Maximum number of emails to deliver
+     * @returns {Promise<Object>} Number of emails sent and failed
+     */
+    async _deliverDueEmails(limit) {
+        const emails = await emailOutboxRepository.findDueEmails(limit);
+        const result = { sent: 0, failed: 0 };
+
+        for (const email of emails) {
+            if (!(await emailOutboxRepository.claimEmail(email))) {
+                continue;
+            }
+
+            if (await this._deliver(email)) {
+                result.sent += 1;
+            } else {
+                result.failed += 1;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Deliver one claimed email and record the outcome
+     *
+     * @param {Object} email - Email to deliver
+     * @returns {Promise<Boolean>} Whether the email was sent
+     */
+    async _deliver(email) {
+        const transport = getMailTransport();
+        const attempts = email.attempts + 1;
+
+        try {
+            const { messageId } = await transport.send({
+                from: getSender(),
+                to: { address: email.to_address, name: email.to_name },
+                subject: email.subject,
+                text: email.text_body,
+                html: email.html_body,
+                attachments: (email.attachments || []).map(attachment => ({
+                    filename: attachment.filename,
+                    contentType: attachment.content_type,
+                    content: Buffer.from(attachment.content, 'base64')
+                }))
+            });
+
+            await emailOutboxRepository.update(email.email_id, {
+                status: 'sent',
+                attempts,
+                transport: transport.name,
+                provider_message_id: messageId || null,
+                last_error: null,
+                sent_at: new Date()
+            });
+
+            return true;
+        } catch (error) {
+            const exhausted = attempts >= email.max_attempts;
+            console.error(`Error sending email ${email.email_id} (attempt ${attempts}):`, error.message);
+
+            await emailOutboxRepository.update(email.email_id, {
+                status: exhausted ? 'failed' : 'pending',
+                attempts,
+                transport: transport.name,
+                last_error: error.message,
+                next_attempt_at: exhausted ? email.next_attempt_at : new Date(Date.now() + this.getRetryDelay(attempts))
+            });
+
+            return false;
+        }
+    }
+
+    /**
+     * Project a user event is about
+     *
+     * @param {Object} event - User event
+     * @returns {String|null} Project ID
+     */
+    _getProjectId(event) {
+        if (event.project_ids && event.project_ids.length > 0) {
+            return event.project_ids[0];
+        }
+
+        return event.entity_type === 'project' ? event.entity_id : null;
+    }
+}
+
+module.exports = new MailService();
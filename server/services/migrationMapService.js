@@ -0,0 +1,212 @@
+const personRepository = require('../repositories/personRepository');
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const { geocodeLocation } = require('../utils/gazetteer');
+
+// Events that mark where a family lived and moved to
+const MAP_EVENT_TYPES = ['birth', 'marriage', 'immigration', 'death'];
+
+// Person fields standing in for a birth or death event the person does not have
+const VITAL_FIELDS = {
+    birth: { date: 'birth_date', detail: 'birth_date_detail', location: 'birth_location', place: 'birthPlace' },
+    death: { date: 'death_date', detail: 'death_date_detail', location: 'death_location', place: 'deathPlace' }
+};
+
+/**
+ * Migration Map Service
+ * Places a project's births, marriages, immigrations and deaths on a map, by the coordinates of their
+ * linked places or by reading their location text against the gazetteer
+ */
+class MigrationMapService {
+    /**
+     * Get the mapped events of a project's persons, the lineages they belong to and the parent links
+     * between them
+     *
+     * @param {String} projectId - Project ID
+     * @returns {Promise<Object>} Map data:
+     *   persons ({ person_id, name, lineage }),
+     *   lineages ({ name, person_ids }), largest first,
+     *   points ({ person_id, event_id, event_type, date, date_detail, location, latitude, longitude, precision }), oldest first,
+     *   links ({ parent_id, child_id, lineage }) and
+     *   unlocated ({ person_id, event_id, event_type, location }) for locations that could not be placed
+     */
+    async getMigrationMap(projectId) {
+        const projectExists = await projectRepository.exists(projectId);
+        if (!projectExists) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        const projectPersons = await projectRepository.getProjectPersons(projectId);
+        const personIds = projectPersons.map(person => person.person_id);
+        const persons = await personRepository.findWithPlacedEvents(personIds, MAP_EVENT_TYPES);
+
+        const lineageOf = new Map(persons.map(person => [person.person_id, this._lineage(person)]));
+        const geocoded = new Map();
+        const points = [];
+        const unlocated = [];
+
+        for (const person of persons) {
+            for (const entry of this._mappedEvents(person)) {
+                if (!entry.location && !entry.place) continue;
+
+                const position = this._locate(entry.place, entry.location, geocoded);
+                if (position) {
+                    points.push({ ...this._describe(person, entry), ...position });
+                } else {
+                    unlocated.push({
+                        person_id: person.person_id,
+                        event_id: entry.event_id,
+                        event_type: entry.event_type,
+                        location: entry.location
+                    });
+                }
+            }
+        }
+
+        points.sort((a, b) => {
+            if (!a.date || !b.date) return a.date ? -1 : b.date ? 1 : 0;
+            return String(a.date).localeCompare(String(b.date));
+        });
+
+        const relationships = await relationshipRepository.findRelationshipsInvolvingPersons(personIds);
+        const links = this._parentLinks(relationships, lineageOf);
+
+        const lineages = new Map();
+        for (const [personId, lineage] of lineageOf) {
+            if (!lineages.has(lineage)) lineages.set(lineage, []);
+            lineages.get(lineage).push(personId);
+        }
+
+        return {
+            persons: persons.map(person => ({
+                person_id: person.person_id,
+                name: [person.first_name, person.last_name].filter(Boolean).join(' '),
+                lineage: lineageOf.get(person.person_id)
+            })),
+            lineages: [...lineages]
+                .map(([name, ids]) => ({ name, person_ids: ids }))
+                .sort((a, b) => b.person_ids.length - a.person_ids.length || a.name.localeCompare(b.name)),
+            points,
+            links,
+            unlocated
+        };
+    }
+
+    /**
+     * A person belongs to the lineage of their birth surname
+     *
+     * @private
+     */
+    _lineage(person) {
+        return (person.maiden_name || person.last_name || '').trim() || 'Unknown';
+    }
+
+    /**
+     * A person's own events of the mapped types, with their birth and death details standing in
+     * for birth and death events they do not have
+     *
+     * @private
+     */
+    _mappedEvents(person) {
+        const events = (person.events || [])
+            .filter(event => {
+                const role = event.person_events && event.person_events.role;
+                return !role || role === 'primary';
+            })
+            .map(event => ({
+                event_id: event.event_id,
+                event_type: event.event_type,
+                date: event.event_date,
+                date_detail: event.event_date_detail,
+                location: event.event_location,
+                place: event.place
+            }));
+
+        for (const [eventType, fields] of Object.entries(VITAL_FIELDS)) {
+            if (events.some(event => event.event_type === eventType)) continue;
+            events.push({
+                event_id: null,
+                event_type: eventType,
+                date: person[fields.date],
+                date_detail: person[fields.detail],
+                location: person[fields.location],
+                place: person[fields.place]
+            });
+        }
+
+        return events;
+    }
+
+    /**
+     * @private
+     */
+    _describe(person, entry) {
+        return {
+            person_id: person.person_id,
+            event_id: entry.event_id,
+            event_type: entry.event_type,
+            date: entry.date || null,
+            date_detail: entry.date_detail || null,
+            location: entry.place ? entry.place.full_name : entry.location
+        };
+    }
+
+    /**
+     * Coordinates of a location: those of its linked place, otherwise those of the smallest place
+     * the gazetteer recognises in the place's name or the location text
+     *
+     * @private
+     * @param {Object|null} place - Linked place
+     * @param {String} location - Location text
+     * @param {Map} geocoded - Gazetteer results by text, shared across one map
+     * @returns {Object|null} { latitude, longitude, precision }, precision being 'place' for a linked
+     *   place's own coordinates or the type of the gazetteer entry
+     */
+    _locate(place, location, geocoded) {
+        if (place && place.latitude !== null && place.longitude !== null) {
+            return {
+                latitude: parseFloat(place.latitude),
+                longitude: parseFloat(place.longitude),
+                precision: 'place'
+            };
+        }
+
+        const text = place ? place.full_name : location;
+        if (!geocoded.has(text)) {
+            geocoded.set(text, geocodeLocation(text));
+        }
+
+        const entry = geocoded.get(text);
+        return entry
+            ? { latitude: entry.lat, longitude: entry.lng, precision: entry.type }
+            : null;
+    }
+
+    /**
+     * Parent-to-child links between persons of the map, in the lineage of the parent
+     *
+     * @private
+     */
+    _parentLinks(relationships, lineageOf) {
+        const links = new Map();
+
+        for (const relationship of relationships) {
+            const { relationship_type: type, person1_id: person1Id, person2_id: person2Id } = relationship;
+            if (type !== 'parent' && type !== 'child') continue;
+
+            // Parent links are stored both ways ('parent' from the parent, 'child' from the child)
+            const [parentId, childId] = type === 'parent' ? [person1Id, person2Id] : [person2Id, person1Id];
+            if (!lineageOf.has(parentId) || !lineageOf.has(childId)) continue;
+
+            links.set(`${parentId}:${childId}`, {
+                parent_id: parentId,
+                child_id: childId,
+                lineage: lineageOf.get(parentId)
+            });
+        }
+
+        return [...links.values()];
+    }
+}
+
+module.exports = new MigrationMapService();
@@ -0,0 +1,195 @@
+const fs = require('fs');
+const documentRepository = require('../repositories/documentRepository');
+const tesseract = require('../utils/tesseract');
+const { resolveUploadPath } = require('../utils/uploads');
+
+// Files the OCR engine can read
+const OCR_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/tiff', 'application/pdf'];
+
+// Runs of the engine before a document is marked as failed
+const MAX_ATTEMPTS = 3;
+
+/**
+ * OCR Service
+ * Reads the text of uploaded scans and PDFs in the background.
+ *
+ * New documents are marked 'pending' and picked up by the OCR worker, which stores the text of each
+ * page with the engine's confidence and starts the document's transcription from it. Researchers then
+ * correct the transcription; a later run never overwrites a corrected transcription.
+ */
+class OcrService {
+    constructor() {
+        this.worker = null;
+        this.processing = null;
+    }
+
+    /**
+     * Whether the OCR engine can read files of a MIME type
+     *
+     * @param {String} mimeType - MIME type of the file
+     * @returns {Boolean}
+     */
+    canRead(mimeType) {
+        return OCR_MIME_TYPES.includes(mimeType);
+    }
+
+    /**
+     * Read the text of a document again, e.g. after a failed run or with better language data.
+     * Keeps a transcription researchers have corrected.
+     *
+     * @param {String} documentId - Document ID
+     * @returns {Promise<Object>} The document, queued for OCR
+     */
+    async requestRecognition(documentId) {
+        const document = await documentRepository.findById(documentId);
+        if (!document) {
+            throw new Error(`Document with id ${documentId} not found`);
+        }
+
+        if (!this.canRead(document.mime_type)) {
+            throw new Error('Text can only be read from images and PDF files');
+        }
+
+        const queued = await documentRepository.update(documentId, {
+            ocr_status: 'pending',
+            ocr_attempts: 0,
+            ocr_error: null
+        });
+
+        this.kick();
+        return queued;
+    }
+
+    /**
+     * Read the text of the documents waiting for OCR.
+     * Failed runs are retried until the document runs out of attempts.
+     *
+     * @param {Object} [options] - Processing options
+     * @param {Number} [options.limit] - Maximum number of documents to read
+     * @returns {Promise<Object>} Number of documents read and failed
+     */
+    async processPending({ limit = 5 } = {}) {
+        // Ticks and upload kicks share one run so a document is never read twice by this process
+        if (this.processing) {
+            return await this.processing;
+        }
+
+        this.processing = this._recognizePending(limit);
+
+        try {
+            return await this.processing;
+        } finally {
+            this.processing = null;
+        }
+    }
+
+    /**
+     * Start reading pending documents periodically
+     *
+     * @param {Number} [intervalMs] - Time between runs in milliseconds
+     */
+    startOcrWorker(intervalMs = 30 * 1000) {
+        if (this.worker) {
+            return;
+        }
+
+        const run = () => this.processPending().catch(error => console.error('Error processing OCR queue:', error));
+
+        this.worker = setInterval(run, intervalMs);
+        this.worker.unref();
+        run();
+    }
+
+    /**
+     * Stop the OCR worker
+     */
+    stopOcrWorker() {
+        if (this.worker) {
+            clearInterval(this.worker);
+            this.worker = null;
+        }
+    }
+
+    /**
+     * Read newly queued documents right away when the worker runs in this process
+     */
+    kick() {
+        if (this.worker) {
+            this.processPending().catch(error => console.error('Error processing OCR queue:', error));
+        }
+    }
+
+    /**
+     * Read the pending documents one by one
+     *
+     * @param {Number} limit - Maximum number of documents to read
+     * @returns {Promise<Object>} Number of documents read and failed
+     */
+    async _recognizePending(limit) {
+        const documents = await documentRepository.findDocumentsAwaitingOcr(limit);
+        const result = { completed: 0, failed: 0 };
+
+        for (const document of documents) {
+            if (!(await documentRepository.claimForOcr(document))) {
+                continue;
+            }
+
+            if (await this._recognize(document)) {
+                result.completed += 1;
+            } else {
+                result.failed += 1;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Read one claimed document and record the outcome
+     *
+     * @param {Object} document - Document to read
+     * @returns {Promise<Boolean>} Whether the text was read
+     */
+    async _recognize(document) {
+        const attempts = (document.ocr_attempts || 0) + 1;
+        // Results only apply to the file they were read from; a replaced file is queued again
+        const sameFile = { document_id: document.document_id, file_path: document.file_path };
+
+        try {
+            const filePath = resolveUploadPath(document.file_path);
+            if (!filePath || !fs.existsSync(filePath)) {
+                throw new Error('OCR failed: file not found on server');
+            }
+
+            const pages = await tesseract.recognizeFile(filePath, document.mime_type);
+
+            await documentRepository.bulkUpdate({
+                ocr_status: 'completed',
+                ocr_pages: pages,
+                ocr_attempts: attempts,
+                ocr_error: null,
+                ocr_completed_at: new Date()
+            }, { where: sameFile });
+
+            // Start the transcription from the text read, unless a researcher has already worked on it
+            await documentRepository.bulkUpdate({
+                transcription: pages.map(page => page.text).filter(Boolean).join('\n\n') || null
+            }, { where: { ...sameFile, transcription_updated_at: null } });
+
+            return true;
+        } catch (error) {
+            const exhausted = attempts >= MAX_ATTEMPTS;
+            console.error(`Error reading text of document ${document.document_id} (attempt ${attempts}):`, error.message);
+
+            await documentRepository.bulkUpdate({
+                ocr_status: exhausted ? 'failed' : 'pending',
+                ocr_attempts: attempts,
+                ocr_error: error.message
+            }, { where: sameFile });
+
+            return false;
+        }
+    }
+}
+
+module.exports = new OcrService();
@@ -0,0 +1,112 @@
+const crypto = require('crypto');
+
+const FAKE_EVENT_TYPES = ['payment_succeeded', 'payment_failed', 'checkout_expired'];
+
+/**
+ * Fake Payment Provider
+ * Local stand-in for Stripe used in development and tests. Checkout sends the client to a test
+ * payment page inside the app, and payment outcomes are delivered as HMAC-signed events that go
+ * through the same webhook handling as real provider events.
+ */
+class FakeProvider {
+    /**
+     * Constructor
+     *
+     * @param {Object} config - Provider configuration
+     * @param {String} config.webhookSecret - Secret used to sign events
+     * @param {String} config.checkoutUrl - URL of the client's test payment page
+     */
+    constructor({ webhookSecret, checkoutUrl }) {
+        this.name = 'fake';
+        this.signatureHeader = 'x-fake-signature';
+        this.webhookSecret = webhookSecret;
+        this.checkoutUrl = checkoutUrl;
+    }
+
+    /**
+     * Create a checkout session for an order
+     *
+     * @param {Object} params - Checkout parameters
+     * @param {Object} params.order - Order being paid
+     * @returns {Promise<Object>} Session ID and the URL of the test payment page
+     */
+    async createCheckoutSession({ order }) {
+        const sessionId = `fake_cs_${crypto.randomUUID()}`;
+        const query = new URLSearchParams({
+            order_id: order.order_id,
+            session_id: sessionId
+        });
+
+        return {
+            sessionId,
+            url: `${this.checkoutUrl}?${query}`
+        };
+    }
+
+    /**
+     * Build a signed event as the provider would deliver it to the webhook
+     *
+     * @param {String} type - Event type (payment_succeeded, payment_failed, checkout_expired)
+     * @param {Object} session - Checkout session the event is about
+     * @param {String} session.sessionId - Session ID
+     * @param {String} session.orderId - Order ID
+     * @returns {Object} Raw payload and its signature
+     */
+    buildEvent(type, { sessionId, orderId }) {
+        if (!FAKE_EVENT_TYPES.includes(type)) {
+            throw new Error(`Unknown payment event type: ${type}`);
+        }
+
+        const payload = JSON.stringify({
+            id: `fake_evt_${crypto.randomUUID()}`,
+            type,
+            session_id: sessionId,
+            order_id: orderId,
+            payment_id: type === 'payment_succeeded' ? `fake_pi_${crypto.randomUUID()}` : null
+        });
+
+        return {
+            payload,
+            signature: this._sign(payload)
+        };
+    }
+
+    /**
+     * Verify a webhook delivery and translate it into a payment event
+     *
+     * @param {String|Buffer} rawBody - Request body exactly as received
+     * @param {String} signature - Value of the X-Fake-Signature header
+     * @returns {Object} Normalized payment event
+     */
+    constructEvent(rawBody, signature) {
+        const payload = Buffer.isBuffer(rawBody) ? rawBody.toString('utf8') : String(rawBody);
+        const expected = this._sign(payload);
+
+        if (!signature || signature.length !== expected.length ||
+            !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+            throw new Error('Invalid webhook signature');
+        }
+
+        const event = JSON.parse(payload);
+
+        return {
+            type: FAKE_EVENT_TYPES.includes(event.type) ? event.type : 'ignored',
+            eventId: event.id,
+            sessionId: event.session_id,
+            paymentId: event.payment_id || null,
+            orderId: event.order_id || null
+        };
+    }
+
+    /**
+     * Sign a payload with the webhook secret
+     *
+     * @param {String} payload - Raw payload
+     * @returns {String} Hex HMAC-SHA256 signature
+     */
+    _sign(payload) {
+        return crypto.createHmac('sha256', this.webhookSecret).update(payload).digest('hex');
+    }
+}
+
+module.exports = FakeProvider;
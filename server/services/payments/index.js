@@ -0,0 +1,96 @@
+const crypto = require('crypto');
+const StripeProvider = require('./stripeProvider');
+const FakeProvider = require('./fakeProvider');
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+const PAYMENT_PROVIDERS = ['stripe', 'fake'];
+
+const providers = {};
+
+/**
+ * Whether the fake provider, which lets clients complete checkout without paying, may be used.
+ * It never is in production.
+ *
+ * @returns {Boolean} True outside production
+ */
+function isFakeProviderAllowed() {
+    return process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Name of the provider used for new checkouts: PAYMENT_PROVIDER when set, otherwise Stripe once
+ * it has been configured. The fake provider is only used when asked for (PAYMENT_PROVIDER=fake)
+ * and in tests.
+ *
+ * @returns {String} Provider name
+ */
+function getDefaultProviderName() {
+    if (process.env.PAYMENT_PROVIDER) {
+        return process.env.PAYMENT_PROVIDER;
+    }
+
+    if (process.env.STRIPE_SECRET_KEY) {
+        return 'stripe';
+    }
+
+    if (process.env.NODE_ENV === 'test') {
+        return 'fake';
+    }
+
+    throw new Error('No payment provider is configured: set STRIPE_SECRET_KEY, or PAYMENT_PROVIDER=fake for development');
+}
+
+/**
+ * Get a payment provider by name.
+ * Every provider exposes the same interface: createCheckoutSession() to start paying for an order
+ * and constructEvent() to verify a webhook delivery and normalize it into a payment event.
+ *
+ * @param {String} [name] - Provider name, the configured default if omitted
+ * @returns {StripeProvider|FakeProvider} Payment provider
+ */
+function getPaymentProvider(name = getDefaultProviderName()) {
+    if (!PAYMENT_PROVIDERS.includes(name)) {
+        throw new Error(`Payment provider '${name}' not found`);
+    }
+
+    if (name === 'fake' && !isFakeProviderAllowed()) {
+        throw new Error("Payment provider 'fake' not found: the test payment provider is disabled in production");
+    }
+
+    if (!providers[name]) {
+        providers[name] = name === 'stripe'
+            ? new StripeProvider({
+                secretKey: process.env.STRIPE_SECRET_KEY,
+                webhookSecret: process.env.STRIPE_WEBHOOK_SECRET
+            })
+            : new FakeProvider({
+                // Without a configured secret, only events built by this process verify
+                webhookSecret: process.env.FAKE_PAYMENT_WEBHOOK_SECRET || crypto.randomBytes(32).toString('hex'),
+                checkoutUrl: `${CLIENT_URL}/checkout/test-payment`
+            });
+    }
+
+    return providers[name];
+}
+
+/**
+ * Check at startup that payments can be taken, so that a missing setting stops the server
+ * instead of surfacing at a client's first checkout
+ *
+ * @throws {Error} When no usable provider is configured
+ */
+function assertPaymentProviderConfigured() {
+    const provider = getPaymentProvider();
+
+    if (provider.name === 'stripe' && (!process.env.STRIPE_SECRET_KEY || !process.env.STRIPE_WEBHOOK_SECRET)) {
+        throw new Error('Stripe is not configured: STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET are required');
+    }
+}
+
+module.exports = {
+    PAYMENT_PROVIDERS,
+    isFakeProviderAllowed,
+    getPaymentProvider,
+    assertPaymentProviderConfigured
+};
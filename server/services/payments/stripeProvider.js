@@ -0,0 +1,186 @@
+const crypto = require('crypto');
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+// Reject webhook deliveries signed more than five minutes ago, as Stripe's own libraries do
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Stripe Payment Provider
+ * Creates hosted Stripe Checkout sessions and verifies Stripe webhook deliveries.
+ * Talks to the Stripe REST API directly, so no Stripe SDK is required.
+ */
+class StripeProvider {
+    /**
+     * Constructor
+     *
+     * @param {Object} config - Provider configuration
+     * @param {String} config.secretKey - Stripe API secret key
+     * @param {String} config.webhookSecret - Signing secret of the webhook endpoint
+     * @param {String} [config.apiUrl] - Stripe API base URL
+     */
+    constructor({ secretKey, webhookSecret, apiUrl = STRIPE_API_URL }) {
+        this.name = 'stripe';
+        this.signatureHeader = 'stripe-signature';
+        this.secretKey = secretKey;
+        this.webhookSecret = webhookSecret;
+        this.apiUrl = apiUrl;
+    }
+
+    /**
+     * Create a hosted checkout session for an order
+     *
+     * @param {Object} params - Checkout parameters
+     * @param {Object} params.order - Order being paid
+     * @param {Object} params.servicePackage - Service package being bought
+     * @param {String} params.customerEmail - Email of the paying client
+     * @param {String} params.successUrl - URL the client returns to after paying
+     * @param {String} params.cancelUrl - URL the client returns to when abandoning checkout
+     * @returns {Promise<Object>} Session ID and the URL of the hosted checkout page
+     */
+    async createCheckoutSession({ order, servicePackage, customerEmail, successUrl, cancelUrl }) {
+        if (!this.secretKey) {
+            throw new Error('Stripe is not configured: STRIPE_SECRET_KEY is missing');
+        }
+
+        const form = new URLSearchParams({
+            mode: 'payment',
+            success_url: successUrl,
+            cancel_url: cancelUrl,
+            client_reference_id: order.order_id,
+            'metadata[order_id]': order.order_id,
+            'line_items[0][quantity]': '1',
+            'line_items[0][price_data][currency]': order.currency,
+            'line_items[0][price_data][unit_amount]': String(order.amount_cents),
+            'line_items[0][price_data][product_data][name]': servicePackage.name
+        });
+
+        if (servicePackage.description) {
+            form.append('line_items[0][price_data][product_data][description]', servicePackage.description);
+        }
+
+        if (customerEmail) {
+            form.append('customer_email', customerEmail);
+        }
+
+        const response = await fetch(`${this.apiUrl}/checkout/sessions`, {
+            method: 'POST',
+            headers: {
+                Authorization: `Bearer ${this.secretKey}`,
+                'Content-Type': 'application/x-www-form-urlencoded',
+                // Retrying checkout for the same order must not open a second session
+                'Idempotency-Key': `checkout-${order.order_id}`
+            },
+            body: form
+        });
+
+        const body = await response.json();
+
+        if (!response.ok) {
+            throw new Error(`Stripe checkout failed: ${body.error?.message || response.statusText}`);
+        }
+
+        return {
+            sessionId: body.id,
+            url: body.url
+        };
+    }
+
+    /**
+     * Verify a webhook delivery and translate it into a payment event
+     *
+     * @param {String|Buffer} rawBody - Request body exactly as received
+     * @param {String} signature - Value of the Stripe-Signature header
+     * @param {Number} [now] - Current time in milliseconds, for testing
+     * @returns {Object} Normalized payment event
+     */
+    constructEvent(rawBody, signature, now = Date.now()) {
+        if (!this.webhookSecret) {
+            throw new Error('Stripe is not configured: STRIPE_WEBHOOK_SECRET is missing');
+        }
+
+        const payload = Buffer.isBuffer(rawBody) ? rawBody.toString('utf8') : String(rawBody);
+        const { timestamp, signatures } = this._parseSignatureHeader(signature);
+
+        if (!timestamp || signatures.length === 0) {
+            throw new Error('Invalid webhook signature');
+        }
+
+        const expected = crypto
+            .createHmac('sha256', this.webhookSecret)
+            .update(`${timestamp}.${payload}`)
+            .digest('hex');
+
+        const matches = signatures.some(candidate =>
+            candidate.length === expected.length &&
+            crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(expected))
+        );
+
+        if (!matches) {
+            throw new Error('Invalid webhook signature');
+        }
+
+        if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+            throw new Error('Invalid webhook signature: timestamp outside the tolerance zone');
+        }
+
+        return this._normalizeEvent(JSON.parse(payload));
+    }
+
+    /**
+     * Parse a Stripe-Signature header of the form "t=1700000000,v1=abc,v1=def"
+     *
+     * @param {String} header - Header value
+     * @returns {Object} Timestamp and v1 signatures
+     */
+    _parseSignatureHeader(header) {
+        const result = { timestamp: null, signatures: [] };
+
+        for (const part of (header || '').split(',')) {
+            const [key, value] = part.split('=');
+            if (key === 't') result.timestamp = parseInt(value, 10);
+            if (key === 'v1' && value) result.signatures.push(value);
+        }
+
+        return result;
+    }
+
+    /**
+     * Map a Stripe event onto the payment events the billing service understands
+     *
+     * @param {Object} event - Stripe event
+     * @returns {Object} Normalized payment event
+     */
+    _normalizeEvent(event) {
+        const session = event.data?.object || {};
+        let type;
+
+        switch (event.type) {
+            case 'checkout.session.completed':
+                // Delayed payment methods complete checkout before the money arrives
+                type = session.payment_status === 'paid' ? 'payment_succeeded' : 'ignored';
+                break;
+            case 'checkout.session.async_payment_succeeded':
+                type = 'payment_succeeded';
+                break;
+            case 'checkout.session.async_payment_failed':
+                type = 'payment_failed';
+                break;
+            case 'checkout.session.expired':
+                type = 'checkout_expired';
+                break;
+            default:
+                type = 'ignored';
+        }
+
+        return {
+            type,
+            eventId: event.id,
+            sessionId: session.id,
+            paymentId: session.payment_intent || null,
+            orderId: session.metadata?.order_id || session.client_reference_id || null
+        };
+    }
+}
+
+module.exports = StripeProvider;
@@ -1,8 +1,28 @@
 const personRepository = require('../repositories/personRepository');
 const relationshipRepository = require('../repositories/relationshipRepository');
+const sourceRepository = require('../repositories/sourceRepository');
+const historyService = require('./historyService');
+const placeService = require('./placeService');
 const TransactionManager = require('../utils/transactionManager');
 const { validateAge, validateParentChildAgeDifference } = require('../utils/genealogyRules');
 const { validatePersonEvents, validateRelationship } = require('../utils/validationUtils');
+const { isSameGenealogicalDate } = require('../utils/genealogicalDate');
+const { nameWords, normalizeName } = require('../utils/phonetics');
+const { numberAncestors, numberDescendants } = require('../utils/pedigreeNumbering');
+const ProjectUtils = require('../utils/projectUtils');
+const { getPrivatePersonIds } = require('../utils/privacy');
+
+// Fields of another name of a person that requests can set
+const EDITABLE_NAME_FIELDS = [
+    'name_type', 'first_name', 'middle_name', 'last_name',
+    'start_date', 'start_date_detail', 'end_date', 'end_date_detail', 'source_id', 'notes'
+];
+
+// Fields that decide whether a person is private
+const PRIVACY_FIELDS = ['person_id', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail', 'privacy_override'];
+
+// Place links of a person and the location text kept in step with them
+const PERSON_PLACE_FIELDS = [['birth_place_id', 'birth_location'], ['death_place_id', 'death_location']];
 
 /**
  * Person Service
@@ -30,29 +50,62 @@ class PersonService {
         return await personRepository.findPersonById(id, options);
     }
 
+    /**
+     * Find the persons among the given ones that must be redacted for a user: the private persons,
+     * such as those who may still be alive, outside the projects the user can edit
+     *
+     * @param {Object} user - The authenticated user ({ user_id, roles })
+     * @param {Array<String>} personIds - Person IDs
+     * @returns {Promise<Set<String>>} IDs of the persons to redact
+     */
+    async getRedactedPersonIds(user, personIds) {
+        const ids = [...new Set(personIds.filter(Boolean))];
+        const unrestrictedIds = ids.length > 0 ? await ProjectUtils.getUnrestrictedPersonIds(user, ids) : null;
+        if (unrestrictedIds === null) {
+            return new Set();
+        }
+
+        const restrictedIds = ids.filter(id => !unrestrictedIds.has(id));
+        if (restrictedIds.length === 0) {
+            return new Set();
+        }
+
+        const persons = await personRepository.findAll({
+            where: { person_id: restrictedIds },
+            attributes: PRIVACY_FIELDS
+        });
+
+        return getPrivatePersonIds(persons);
+    }
+
     /**
      * Create a new person
      * 
      * @param {Object} personData - Person data
      * @param {Array} events - Events to associate with the person
+     * @param {Object} transaction - Optional transaction object
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId })
      * @returns {Promise<Object>} Created person
      */
-    async createPerson(personData, events = []) {
+    async createPerson(personData, events = [], transaction = null, historyContext = {}) {
         // Validate age
         const ageValidation = validateAge(personData);
         if (!ageValidation.isValid) {
             throw new Error(`Age validation failed: ${ageValidation.warnings.join(', ')}`);
         }
 
-        return await TransactionManager.executeTransaction(async (transaction) => {
+        const executeCreate = async (transaction) => {
+            const placedPersonData = await placeService.applyPlaceLocations(personData, PERSON_PLACE_FIELDS, transaction);
+
             // Process events and synchronize with biographical data
             const { syncedPersonData, syncedEvents } = this._synchronizeBiographicalDataAndEvents(
-                personData,
+                placedPersonData,
                 events
             );
 
             // Create the person
             const person = await personRepository.create(syncedPersonData, { transaction });
+            await historyService.recordChange('person', null, person, { ...historyContext, transaction });
 
             // Create events
             const eventService = require('./eventService');
@@ -60,7 +113,7 @@ class PersonService {
                 await eventService.createEvent({
                     ...eventData,
                     person_id: person.person_id
-                }, transaction);
+                }, transaction, { userId: historyContext.userId });
             }
 
             // Fetch the complete person with events
@@ -71,7 +124,13 @@ class PersonService {
             }));
 
             return personWithEvents;
-        });
+        };
+
+        if (transaction) {
+            return await executeCreate(transaction);
+        }
+
+        return await TransactionManager.executeTransaction(executeCreate);
     }
 
     /**
@@ -81,9 +140,10 @@ class PersonService {
      * @param {Object} personData - Person data to update
      * @param {Array} events - Events to associate with the person
      * @param {Array} deletedEventIds - IDs of events to delete
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId, action, revertedToVersion })
      * @returns {Promise<Object>} Updated person
      */
-    async updatePerson(id, personData, events = [], deletedEventIds = []) {
+    async updatePerson(id, personData, events = [], deletedEventIds = [], historyContext = {}) {
         return await TransactionManager.executeTransaction(async (transaction) => {
             // Get the current person data
             const currentPerson = await personRepository.findById(id, { transaction });
@@ -97,10 +157,11 @@ class PersonService {
                 transaction
             }).then(person => person.events || []);
 
-            // Merge current data with updates
+            // Merge current data with updates; linked places name the locations, and retyped ones are unlinked
+            const submittedData = placeService.unlinkRetypedLocations(personData, currentPerson, PERSON_PLACE_FIELDS);
             const updatedData = {
                 ...currentPerson.toJSON(),
-                ...personData
+                ...await placeService.applyPlaceLocations(submittedData, PERSON_PLACE_FIELDS, transaction)
             };
 
             // Validate age
@@ -109,21 +170,27 @@ class PersonService {
                 throw new Error(`Age validation failed: ${ageValidation.warnings.join(', ')}`);
             }
 
-            // Process events and synchronize with biographical data
+            // Process events and synchronize with biographical data; submitted events replace their stored copies
+            const submittedEventIds = events.filter(e => e.event_id).map(e => e.event_id);
             const { syncedPersonData, syncedEvents } = this._synchronizeBiographicalDataAndEvents(
                 updatedData,
-                [...currentEvents.filter(e => !deletedEventIds.includes(e.event_id)), ...events]
+                [
+                    ...currentEvents.filter(e => !deletedEventIds.includes(e.event_id) && !submittedEventIds.includes(e.event_id)),
+                    ...events
+                ]
             );
 
             // Update the person
             const person = await personRepository.update(id, syncedPersonData, { transaction });
+            await historyService.recordChange('person', currentPerson, person, { ...historyContext, transaction });
 
-            // Handle events
+            // Handle events, recorded in their own history as edits by the same user
             const eventService = require('./eventService');
+            const eventHistoryContext = { userId: historyContext.userId };
 
             // Delete events
             for (const eventId of deletedEventIds) {
-                await eventService.deleteEvent(eventId, transaction);
+                await eventService.deleteEvent(eventId, transaction, eventHistoryContext);
             }
 
             // Update or create events
@@ -133,13 +200,13 @@ class PersonService {
                     await eventService.updateEvent(eventData.event_id, {
                         ...eventData,
                         person_id: id
-                    }, transaction);
+                    }, transaction, eventHistoryContext);
                 } else {
                     // Create new event
                     await eventService.createEvent({
                         ...eventData,
                         person_id: id
-                    }, transaction);
+                    }, transaction, eventHistoryContext);
                 }
             }
 
@@ -173,7 +240,8 @@ class PersonService {
             if (birthEvents.length > 0) {
                 // If there's a birth event, ensure dates match
                 const birthEvent = birthEvents[0];
-                if (birthEvent.event_date !== syncedPersonData.birth_date) {
+                if (!isSameGenealogicalDate(birthEvent.event_date, birthEvent.event_date_detail,
+                    syncedPersonData.birth_date, syncedPersonData.birth_date_detail)) {
                     throw new Error('Birth date in biographical info does not match birth event date');
                 }
 
@@ -186,18 +254,22 @@ class PersonService {
                 // If person has location but event doesn't, update event
                 if (syncedPersonData.birth_location && !birthEvent.event_location) {
                     birthEvent.event_location = syncedPersonData.birth_location;
+                    birthEvent.event_place_id = syncedPersonData.birth_place_id || null;
                 }
 
                 // If event has location but person doesn't, update person
                 if (!syncedPersonData.birth_location && birthEvent.event_location) {
                     syncedPersonData.birth_location = birthEvent.event_location;
+                    syncedPersonData.birth_place_id = birthEvent.event_place_id || null;
                 }
             } else {
                 // If there's no birth event, create one
                 syncedEvents.push({
                     event_type: 'birth',
                     event_date: syncedPersonData.birth_date,
+                    event_date_detail: syncedPersonData.birth_date_detail || null,
                     event_location: syncedPersonData.birth_location,
+                    event_place_id: syncedPersonData.birth_place_id || null,
                     description: `Birth of ${syncedPersonData.first_name} ${syncedPersonData.last_name}`
                 });
             }
@@ -205,8 +277,10 @@ class PersonService {
             // If there's a birth event but no birth date in person data, update person data
             const birthEvent = birthEvents[0];
             syncedPersonData.birth_date = birthEvent.event_date;
+            syncedPersonData.birth_date_detail = birthEvent.event_date_detail || null;
             if (birthEvent.event_location) {
                 syncedPersonData.birth_location = birthEvent.event_location;
+                syncedPersonData.birth_place_id = birthEvent.event_place_id || null;
             }
         }
 
@@ -215,7 +289,8 @@ class PersonService {
             if (deathEvents.length > 0) {
                 // If there's a death event, ensure dates match
                 const deathEvent = deathEvents[0];
-                if (deathEvent.event_date !== syncedPersonData.death_date) {
+                if (!isSameGenealogicalDate(deathEvent.event_date, deathEvent.event_date_detail,
+                    syncedPersonData.death_date, syncedPersonData.death_date_detail)) {
                     throw new Error('Death date in biographical info does not match death event date');
                 }
 
@@ -228,18 +303,22 @@ class PersonService {
                 // If person has location but event doesn't, update event
                 if (syncedPersonData.death_location && !deathEvent.event_location) {
                     deathEvent.event_location = syncedPersonData.death_location;
+                    deathEvent.event_place_id = syncedPersonData.death_place_id || null;
                 }
 
                 // If event has location but person doesn't, update person
                 if (!syncedPersonData.death_location && deathEvent.event_location) {
                     syncedPersonData.death_location = deathEvent.event_location;
+                    syncedPersonData.death_place_id = deathEvent.event_place_id || null;
                 }
             } else {
                 // If there's no death event, create one
                 syncedEvents.push({
                     event_type: 'death',
                     event_date: syncedPersonData.death_date,
+                    event_date_detail: syncedPersonData.death_date_detail || null,
                     event_location: syncedPersonData.death_location,
+                    event_place_id: syncedPersonData.death_place_id || null,
                     description: `Death of ${syncedPersonData.first_name} ${syncedPersonData.last_name}`
                 });
             }
@@ -247,8 +326,10 @@ class PersonService {
             // If there's a death event but no death date in person data, update person data
             const deathEvent = deathEvents[0];
             syncedPersonData.death_date = deathEvent.event_date;
+            syncedPersonData.death_date_detail = deathEvent.event_date_detail || null;
             if (deathEvent.event_location) {
                 syncedPersonData.death_location = deathEvent.event_location;
+                syncedPersonData.death_place_id = deathEvent.event_place_id || null;
             }
         }
 
@@ -259,9 +340,10 @@ class PersonService {
      * Delete a person
      * 
      * @param {String} id - Person ID
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId })
      * @returns {Promise<Boolean>} True if successful
      */
-    async deletePerson(id) {
+    async deletePerson(id, historyContext = {}) {
         return await TransactionManager.executeTransaction(async (transaction) => {
             // Check if person exists
             const person = await personRepository.findById(id, { transaction });
@@ -269,8 +351,14 @@ class PersonService {
                 throw new Error(`Person with id ${id} not found`);
             }
 
+            // Citations point at the person without a foreign key, so remove them explicitly
+            await sourceRepository.deleteCitationsForEntity('person', id, { transaction });
+
             // Delete the person
-            return await personRepository.delete(id, { transaction });
+            const deleted = await personRepository.delete(id, { transaction });
+            await historyService.recordChange('person', person, null, { ...historyContext, transaction });
+
+            return deleted;
         });
     }
 
@@ -426,14 +514,120 @@ class PersonService {
     }
 
     /**
-     * Find persons by name
+     * Find persons by name, across their other names and by sound
+     *
+     * Persons whose own names contain every word searched for come first, then those found through
+     * their other names, then those that only sound alike.
      * 
      * @param {String} name - Name to search for
      * @param {Object} options - Query options
-     * @returns {Promise<Array>} Array of matching persons
+     * @param {Array} options.projectIds - Limit to these projects (all projects when omitted)
+     * @param {Number} options.limit - Maximum number of persons to return (default: 20)
+     * @returns {Promise<Array>} Array of matching persons, best matches first
      */
     async findByName(name, options = {}) {
-        return await personRepository.findByName(name, options);
+        const { limit = 20, ...searchOptions } = options;
+        const words = nameWords(name);
+        const persons = await personRepository.findByName(name, searchOptions);
+
+        const spelledIn = (names) => {
+            const text = normalizeName(names.filter(Boolean).join(' '));
+            return words.every(word => text.includes(word));
+        };
+
+        const rank = (person) => {
+            const ownNames = [person.first_name, person.middle_name, person.last_name, person.maiden_name];
+            if (spelledIn(ownNames)) return 0;
+
+            const otherNames = (person.names || []).flatMap(n => [n.first_name, n.middle_name, n.last_name]);
+            return spelledIn([...ownNames, ...otherNames]) ? 1 : 2;
+        };
+
+        return persons
+            .map((person, index) => ({ person, index, rank: rank(person) }))
+            .sort((a, b) => a.rank - b.rank || a.index - b.index)
+            .slice(0, limit)
+            .map(({ person }) => person);
+    }
+
+    /**
+     * Get the other names of a person
+     *
+     * @param {String} personId - Person ID
+     * @returns {Promise<Array>} Names in the order they were used
+     */
+    async getPersonNames(personId) {
+        const person = await personRepository.findById(personId);
+        if (!person) {
+            throw new Error(`Person with id ${personId} not found`);
+        }
+
+        return await personRepository.findNamesByPersonId(personId);
+    }
+
+    /**
+     * Add another name a person is recorded under
+     *
+     * @param {String} personId - Person ID
+     * @param {Object} nameData - Name data (name_type, first_name, middle_name, last_name, dates, source_id, notes)
+     * @returns {Promise<Object>} Created name with its source
+     */
+    async addPersonName(personId, nameData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const person = await personRepository.findById(personId, { transaction });
+            if (!person) {
+                throw new Error(`Person with id ${personId} not found`);
+            }
+
+            await this._checkNameSource(nameData.source_id, transaction);
+
+            const personName = await personRepository.createName({
+                ...this._pickNameFields(nameData),
+                person_id: personId
+            }, { transaction });
+
+            return await personRepository.findNameById(personName.name_id, { transaction });
+        });
+    }
+
+    /**
+     * Update another name of a person
+     *
+     * @param {String} personId - Person ID
+     * @param {String} nameId - Name ID
+     * @param {Object} nameData - Name data to update
+     * @returns {Promise<Object>} Updated name with its source
+     */
+    async updatePersonName(personId, nameId, nameData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const personName = await personRepository.findNameById(nameId, { transaction });
+            if (!personName || personName.person_id !== personId) {
+                throw new Error(`Name with id ${nameId} not found`);
+            }
+
+            await this._checkNameSource(nameData.source_id, transaction);
+            await personRepository.updateName(nameId, this._pickNameFields(nameData), { transaction });
+
+            return await personRepository.findNameById(nameId, { transaction });
+        });
+    }
+
+    /**
+     * Remove another name of a person
+     *
+     * @param {String} personId - Person ID
+     * @param {String} nameId - Name ID
+     * @returns {Promise<Boolean>} True if successful
+     */
+    async deletePersonName(personId, nameId) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const personName = await personRepository.findNameById(nameId, { transaction });
+            if (!personName || personName.person_id !== personId) {
+                throw new Error(`Name with id ${nameId} not found`);
+            }
+
+            return await personRepository.deleteName(nameId, { transaction });
+        });
     }
 
     /**
@@ -468,101 +662,165 @@ class PersonService {
      * @returns {Promise<Array>} Array of matching persons
      */
     async findByLocation(location, options = {}) {
-        return await personRepository.findByLocation(location, options);
+        const placeIds = await placeService.findPlaceIdsForLocation(location);
+
+        return await personRepository.findByLocation(location, { ...options, placeIds });
     }
 
     /**
      * Get ancestors of a person
-     * 
+     *
      * @param {String} personId - Person ID
-     * @param {Number} generations - Number of generations to retrieve (default: 3)
-     * @returns {Promise<Object>} Hierarchical object with ancestors
+     * @param {Object} [options] - Chart options
+     * @param {Number} [options.generations] - Number of generations to retrieve (default: 3)
+     * @param {String} [options.format] - nested (a tree of parents) or ahnentafel (a numbered list)
+     * @returns {Promise<Object>} Person with their parents, or { format, generations, persons } when numbered
      */
-    async getAncestors(personId, generations = 3) {
-        // Check if person exists
-        const person = await personRepository.findById(personId);
-        if (!person) {
-            throw new Error(`Person with id ${personId} not found`);
-        }
+    async getAncestors(personId, { generations = 3, format = 'nested' } = {}) {
+        const pedigree = await this._loadPedigree(personId, 'ancestors', generations);
 
-        // Base case: if generations is 0 or person has no data, return basic info
-        if (generations <= 0) {
-            return {
-                id: person.person_id,
-                name: `${person.first_name} ${person.last_name}`,
-                birth_date: person.birth_date,
-                death_date: person.death_date,
-                gender: person.gender
-            };
+        if (format === 'ahnentafel') {
+            const persons = numberAncestors(personId, id => this._fatherAndMother(pedigree, id), generations)
+                .map(({ personId: id, number, generation }) => ({ number, generation, ...pedigree.node(id) }));
+
+            return { format, generations, persons };
         }
 
-        // Get parents
-        const parents = await personRepository.findParents(personId);
-
-        // Recursively get ancestors for each parent
-        const parentAncestors = await Promise.all(
-            parents.map(async (parent) => {
-                const ancestors = await this.getAncestors(parent.person_id, generations - 1);
-                return ancestors;
-            })
-        );
-
-        // Return person with their ancestors
-        return {
-            id: person.person_id,
-            name: `${person.first_name} ${person.last_name}`,
-            birth_date: person.birth_date,
-            death_date: person.death_date,
-            gender: person.gender,
-            parents: parentAncestors
-        };
+        return pedigree.tree(personId, 'parents', generations);
     }
 
     /**
      * Get descendants of a person
-     * 
+     *
      * @param {String} personId - Person ID
-     * @param {Number} generations - Number of generations to retrieve (default: 3)
-     * @returns {Promise<Object>} Hierarchical object with descendants
+     * @param {Object} [options] - Chart options
+     * @param {Number} [options.generations] - Number of generations to retrieve (default: 3)
+     * @param {String} [options.format] - nested (a tree of children) or daboville (a numbered list)
+     * @returns {Promise<Object>} Person with their children, or { format, generations, persons } when numbered
      */
-    async getDescendants(personId, generations = 3) {
-        // Check if person exists
-        const person = await personRepository.findById(personId);
-        if (!person) {
+    async getDescendants(personId, { generations = 3, format = 'nested' } = {}) {
+        const pedigree = await this._loadPedigree(personId, 'descendants', generations);
+
+        if (format === 'daboville') {
+            const childIds = id => pedigree.links(id).map(link => link.personId);
+            const persons = numberDescendants(personId, childIds, generations)
+                .map(({ personId: id, number, generation }) => ({ number, generation, ...pedigree.node(id) }));
+
+            return { format, generations, persons };
+        }
+
+        return pedigree.tree(personId, 'children', generations);
+    }
+
+    /**
+     * Load a person's ancestors or descendants and index the links between them
+     *
+     * @param {String} personId - Person ID
+     * @param {String} direction - ancestors or descendants
+     * @param {Number} generations - Number of generations to load
+     * @returns {Promise<Object>} node(id), links(id) (the next generation from a person, as { personId, qualifier })
+     *                            and tree(id, key, generations) lookups
+     */
+    async _loadPedigree(personId, direction, generations) {
+        const rows = await personRepository.findPedigree(personId, direction, generations);
+        if (!rows.some(row => row.from_id === null)) {
             throw new Error(`Person with id ${personId} not found`);
         }
 
-        // Base case: if generations is 0 or person has no data, return basic info
-        if (generations <= 0) {
+        const persons = new Map();
+        const links = new Map();
+        rows.forEach(row => {
+            persons.set(row.person_id, row);
+            if (row.from_id === null) return;
+            if (!links.has(row.from_id)) links.set(row.from_id, []);
+            links.get(row.from_id).push({ personId: row.person_id, qualifier: row.qualifier });
+        });
+
+        const node = (id) => {
+            const person = persons.get(id);
             return {
-                id: person.person_id,
+                id,
                 name: `${person.first_name} ${person.last_name}`,
                 birth_date: person.birth_date,
                 death_date: person.death_date,
                 gender: person.gender
             };
-        }
-
-        // Get children
-        const children = await personRepository.findChildren(personId);
-
-        // Recursively get descendants for each child
-        const childDescendants = await Promise.all(
-            children.map(async (child) => {
-                const descendants = await this.getDescendants(child.person_id, generations - 1);
-                return descendants;
-            })
-        );
-
-        // Return person with their descendants
-        return {
-            id: person.person_id,
-            name: `${person.first_name} ${person.last_name}`,
-            birth_date: person.birth_date,
-            death_date: person.death_date,
-            gender: person.gender,
-            children: childDescendants
         };
+        const linksOf = (id) => links.get(id) || [];
+
+        // Links from all walks are merged, so the tree keeps its own path to stay clear of loops
+        const tree = (id, key, remaining, path = [], qualifier) => {
+            const result = { ...node(id), ...(qualifier !== undefined && { qualifier }) };
+            if (remaining <= 0) return result;
+
+            const walked = [...path, id];
+            result[key] = linksOf(id)
+                .filter(link => !walked.includes(link.personId))
+                .map(link => tree(link.personId, key, remaining - 1, walked, link.qualifier));
+            return result;
+        };
+
+        return { node, links: linksOf, tree };
+    }
+
+    /**
+     * The father and mother of a person for Ahnentafel numbering, blood parents taking precedence
+     * over adoptive, step and foster parents
+     *
+     * @param {Object} pedigree - Pedigree from _loadPedigree
+     * @param {String} personId - Person ID
+     * @returns {Array} [fatherId, motherId], either one null when not known
+     */
+    _fatherAndMother(pedigree, personId) {
+        const parents = pedigree.links(personId);
+        const biological = parents.filter(link => !link.qualifier || link.qualifier === 'biological');
+        const parentIds = (biological.length > 0 ? biological : parents).map(link => link.personId);
+        const result = [null, null];
+
+        parentIds.forEach(parentId => {
+            const gender = pedigree.node(parentId).gender;
+            if (gender === 'male' && !result[0]) result[0] = parentId;
+            else if (gender === 'female' && !result[1]) result[1] = parentId;
+        });
+        parentIds.filter(parentId => !result.includes(parentId)).forEach(parentId => {
+            const free = result.indexOf(null);
+            if (free !== -1) result[free] = parentId;
+        });
+
+        return result;
+    }
+
+    /**
+     * The fields of another name that can be set from a request
+     *
+     * @param {Object} nameData - Name data
+     * @returns {Object} Name fields
+     * @private
+     */
+    _pickNameFields(nameData) {
+        const fields = {};
+        EDITABLE_NAME_FIELDS.forEach(field => {
+            if (nameData[field] !== undefined) {
+                fields[field] = nameData[field];
+            }
+        });
+        return fields;
+    }
+
+    /**
+     * Verify the source a name was found in exists
+     *
+     * @param {String} sourceId - Source ID, if any
+     * @param {Object} transaction - Transaction object
+     * @private
+     */
+    async _checkNameSource(sourceId, transaction) {
+        if (!sourceId) return;
+
+        const source = await sourceRepository.findById(sourceId, { transaction });
+        if (!source) {
+            throw new Error(`Source with id ${sourceId} not found`);
+        }
     }
 }
 
@@ -0,0 +1,444 @@
+const placeRepository = require('../repositories/placeRepository');
+const TransactionManager = require('../utils/transactionManager');
+const { findGazetteerEntry } = require('../utils/gazetteer');
+const { PLACE_TYPES } = require('../models/place');
+
+// Place fields that may be set through the API; full_name and gazetteer_id are derived
+const EDITABLE_PLACE_FIELDS = ['name', 'place_type', 'parent_id', 'code', 'latitude', 'longitude', 'notes'];
+const EDITABLE_PLACE_NAME_FIELDS = ['name', 'parent_id', 'start_date', 'start_date_detail', 'end_date', 'end_date_detail', 'notes'];
+
+// Longest location text persons and events can hold
+const LOCATION_LENGTH = 255;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Place Service
+ * Handles business logic for the place hierarchy, the other names of places and the locations linked to them
+ */
+class PlaceService {
+    /**
+     * Search places by name
+     *
+     * @param {String} query - Text to search for
+     * @param {Object} options - Query options
+     * @param {String} options.placeType - Only places of this type
+     * @param {String} options.parentId - Only places directly within this place
+     * @param {Number} options.limit - Maximum number of places (default: 20)
+     * @returns {Promise<Array>} Array of places
+     */
+    async searchPlaces(query, options = {}) {
+        const { placeType, parentId, limit = 20 } = options;
+
+        return await placeRepository.searchPlaces(query, { placeType, parentId, limit });
+    }
+
+    /**
+     * Get a place by ID with optional related data
+     *
+     * @param {String} id - Place ID
+     * @param {Object} options - Query options
+     * @param {Boolean} options.includeNames - Include the other and historical names
+     * @param {Boolean} options.includeChildren - Include the places directly within it
+     * @param {String} options.date - Also give the name the place had on this date, as name_at_date
+     * @returns {Promise<Object>} Place with related data
+     */
+    async getPlaceById(id, options = {}) {
+        const place = await placeRepository.findPlaceById(id, {
+            includeNames: options.includeNames,
+            includeChildren: options.includeChildren
+        });
+
+        if (place && options.date) {
+            place.dataValues.name_at_date = await this.getPlaceNameAt(id, options.date);
+        }
+
+        return place;
+    }
+
+    /**
+     * Create a place; coordinates missing from the data are taken from the gazetteer where it knows the place
+     *
+     * @param {Object} placeData - Place data
+     * @returns {Promise<Object>} Created place
+     */
+    async createPlace(placeData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            return await this._createPlace(this._pick(placeData, EDITABLE_PLACE_FIELDS), transaction);
+        });
+    }
+
+    /**
+     * Update a place; renaming or moving it renames every place within it and the locations linked to them
+     *
+     * @param {String} id - Place ID
+     * @param {Object} placeData - Place data to update
+     * @returns {Promise<Object>} Updated place
+     */
+    async updatePlace(id, placeData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const place = await placeRepository.findById(id, { transaction });
+            if (!place) {
+                throw new Error(`Place with id ${id} not found`);
+            }
+
+            const updates = this._pick(placeData, EDITABLE_PLACE_FIELDS);
+            if (typeof updates.name === 'string') updates.name = updates.name.trim();
+            const parentId = updates.parent_id !== undefined ? updates.parent_id : place.parent_id;
+            const placeType = updates.place_type || place.place_type;
+
+            if (parentId && parentId !== place.parent_id) {
+                const subtreeIds = await placeRepository.findSubtreeIds([id], { transaction });
+                if (subtreeIds.includes(parentId)) {
+                    throw new Error('A place cannot lie within itself or one of the places within it');
+                }
+            }
+            const parent = await this._checkParent(parentId, placeType, transaction);
+
+            const name = updates.name !== undefined ? updates.name : place.name;
+            updates.full_name = this._fullName(name, parent);
+
+            const updatedPlace = await placeRepository.update(id, updates, { transaction });
+
+            if (updatedPlace.full_name !== place.full_name) {
+                await this._renameSubtree(updatedPlace, transaction);
+            }
+
+            return updatedPlace;
+        });
+    }
+
+    /**
+     * Delete a place that no other place, person or event refers to
+     *
+     * @param {String} id - Place ID
+     * @returns {Promise<Boolean>} True if successful
+     */
+    async deletePlace(id) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const place = await placeRepository.findById(id, { transaction });
+            if (!place) {
+                throw new Error(`Place with id ${id} not found`);
+            }
+
+            const children = await placeRepository.findChildren(id, { transaction });
+            if (children.length > 0) {
+                throw new Error(`${place.full_name} contains ${children.length} other place(s) and cannot be deleted`);
+            }
+
+            const usage = await placeRepository.countUsage(id, { transaction });
+            if (usage.persons > 0 || usage.events > 0) {
+                throw new Error(`${place.full_name} is linked to ${usage.persons} person(s) and ${usage.events} event(s) and cannot be deleted`);
+            }
+
+            return await placeRepository.delete(id, { transaction });
+        });
+    }
+
+    /**
+     * Find or create each level of a place, largest first, and return the smallest, e.g.
+     * [{ place_type: 'country', name: 'Ireland' }, { place_type: 'county', name: 'Co. Cork' }, { place_type: 'city', name: 'Cork' }]
+     *
+     * @param {Array<Object>} levels - Places from the country down, each with place_type, name and optionally code
+     * @returns {Promise<Object>} The place of the last level
+     */
+    async resolvePlace(levels) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            let place = null;
+
+            for (const level of levels) {
+                const placeData = {
+                    place_type: level.place_type,
+                    name: level.name,
+                    code: level.code || null,
+                    parent_id: place ? place.place_id : null
+                };
+
+                place = await placeRepository.findChildPlace(placeData.parent_id, placeData, { transaction })
+                    || await this._createPlace(placeData, transaction);
+            }
+
+            return place;
+        });
+    }
+
+    /**
+     * Get the full name a place had on a date, using its historical names and the jurisdictions it then belonged to
+     *
+     * @param {String} placeId - Place ID
+     * @param {String|Date} date - Date
+     * @returns {Promise<String>} Full name, e.g. "Cork, County Cork, Ireland, United Kingdom" for 1900
+     */
+    async getPlaceNameAt(placeId, date) {
+        const when = new Date(date);
+        const parts = [];
+        const visited = new Set();
+        let currentId = placeId;
+
+        while (currentId && !visited.has(currentId)) {
+            visited.add(currentId);
+
+            const place = await placeRepository.findPlaceById(currentId, { includeNames: true });
+            if (!place) break;
+
+            const historicalName = (place.names || []).find(placeName => isInUseOn(placeName, when));
+            parts.push(historicalName ? historicalName.name : place.name);
+            currentId = historicalName && historicalName.parent_id ? historicalName.parent_id : place.parent_id;
+        }
+
+        return parts.join(', ');
+    }
+
+    /**
+     * Get a place and all places within it for a location search: the place itself when given a place ID,
+     * otherwise the places of that name
+     *
+     * @param {String} location - Place ID or name
+     * @returns {Promise<Array<String>>} Place IDs
+     */
+    async findPlaceIdsForLocation(location) {
+        const placeIds = UUID_PATTERN.test(location)
+            ? [location]
+            : (await placeRepository.findPlacesByName(location)).map(place => place.place_id);
+
+        return await placeRepository.findSubtreeIds(placeIds);
+    }
+
+    /**
+     * Fill the location text of a person or event from its linked places, so the text always names the place
+     *
+     * @param {Object} data - Person or event data
+     * @param {Array<Array<String>>} fields - Pairs of place ID field and location field, e.g. [['event_place_id', 'event_location']]
+     * @param {Object} transaction - Optional transaction
+     * @returns {Promise<Object>} Copy of the data with the locations filled in
+     */
+    async applyPlaceLocations(data, fields, transaction = null) {
+        const result = { ...data };
+
+        for (const [placeField, locationField] of fields) {
+            if (!result[placeField]) continue;
+
+            const place = await placeRepository.findById(result[placeField], { transaction });
+            if (!place) {
+                throw new Error(`Place with id ${result[placeField]} not found`);
+            }
+
+            result[locationField] = place.full_name.slice(0, LOCATION_LENGTH);
+        }
+
+        return result;
+    }
+
+    /**
+     * Unlink the places of locations retyped as free text: a location submitted without its place ID
+     * that differs from the stored one no longer names the linked place
+     *
+     * @param {Object} data - Submitted person or event data
+     * @param {Object} current - Stored person or event
+     * @param {Array<Array<String>>} fields - Pairs of place ID field and location field
+     * @returns {Object} Copy of the data, with the place IDs of retyped locations cleared
+     */
+    unlinkRetypedLocations(data, current, fields) {
+        const result = { ...data };
+
+        for (const [placeField, locationField] of fields) {
+            if (result[placeField] !== undefined || result[locationField] === undefined) continue;
+
+            if ((result[locationField] || null) !== (current[locationField] || null)) {
+                result[placeField] = null;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Add another or historical name to a place
+     *
+     * @param {String} placeId - Place ID
+     * @param {Object} nameData - Place name data
+     * @returns {Promise<Object>} Created place name
+     */
+    async addPlaceName(placeId, nameData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const place = await placeRepository.findById(placeId, { transaction });
+            if (!place) {
+                throw new Error(`Place with id ${placeId} not found`);
+            }
+
+            const fields = this._pick(nameData, EDITABLE_PLACE_NAME_FIELDS);
+            await this._checkNameJurisdiction(placeId, fields.parent_id, transaction);
+
+            return await placeRepository.createPlaceName({ ...fields, place_id: placeId }, { transaction });
+        });
+    }
+
+    /**
+     * Update another name of a place
+     *
+     * @param {String} placeId - Place ID
+     * @param {String} placeNameId - Place name ID
+     * @param {Object} nameData - Place name data to update
+     * @returns {Promise<Object>} Updated place name
+     */
+    async updatePlaceName(placeId, placeNameId, nameData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            await this._findPlaceName(placeId, placeNameId, transaction);
+
+            const fields = this._pick(nameData, EDITABLE_PLACE_NAME_FIELDS);
+            await this._checkNameJurisdiction(placeId, fields.parent_id, transaction);
+
+            return await placeRepository.updatePlaceName(placeNameId, fields, { transaction });
+        });
+    }
+
+    /**
+     * Delete another name of a place
+     *
+     * @param {String} placeId - Place ID
+     * @param {String} placeNameId - Place name ID
+     * @returns {Promise<Boolean>} True if successful
+     */
+    async deletePlaceName(placeId, placeNameId) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            await this._findPlaceName(placeId, placeNameId, transaction);
+
+            return await placeRepository.deletePlaceName(placeNameId, { transaction });
+        });
+    }
+
+    /**
+     * Create a place within a transaction, with its full name and any gazetteer coordinates and other names
+     * @private
+     */
+    async _createPlace(placeData, transaction) {
+        const parent = await this._checkParent(placeData.parent_id, placeData.place_type, transaction);
+        const fields = { ...placeData };
+        if (typeof fields.name === 'string') fields.name = fields.name.trim();
+
+        // Only look a place up when its parent is known to the gazetteer (or it has none), so a "Cork"
+        // under an unknown county is not given the coordinates of the Irish city
+        let entry = null;
+        if (!parent || parent.gazetteer_id) {
+            entry = findGazetteerEntry(fields, parent ? parent.gazetteer_id : null);
+        }
+
+        // A place the gazetteer knows takes its standard name, so "Co. Cork" and "Cork County" become one place
+        if (entry) {
+            fields.name = entry.name;
+            fields.gazetteer_id = entry.id;
+            if (!fields.code && entry.code) fields.code = entry.code;
+            if (fields.latitude === undefined || fields.latitude === null) {
+                fields.latitude = entry.lat;
+                fields.longitude = entry.lng;
+            }
+        }
+        fields.full_name = this._fullName(fields.name, parent);
+
+        const place = await placeRepository.create(fields, { transaction });
+
+        // Keep the name as entered and the gazetteer's other spellings so searches still find the place
+        if (entry) {
+            const otherNames = [placeData.name, ...(entry.alternate_names || [])]
+                .map(name => (name || '').trim())
+                .filter((name, index, names) => name &&
+                    name.toLowerCase() !== place.name.toLowerCase() &&
+                    names.findIndex(other => other.toLowerCase() === name.toLowerCase()) === index);
+            for (const name of otherNames) {
+                await placeRepository.createPlaceName({ place_id: place.place_id, name }, { transaction });
+            }
+        }
+
+        return place;
+    }
+
+    /**
+     * Check the enclosing place exists and is a larger kind of place
+     * @private
+     */
+    async _checkParent(parentId, placeType, transaction) {
+        if (!parentId) return null;
+
+        const parent = await placeRepository.findById(parentId, { transaction });
+        if (!parent) {
+            throw new Error(`Place with id ${parentId} not found`);
+        }
+
+        if (PLACE_TYPES.indexOf(parent.place_type) >= PLACE_TYPES.indexOf(placeType)) {
+            throw new Error(`A ${placeType} cannot lie within a ${parent.place_type}`);
+        }
+
+        return parent;
+    }
+
+    /**
+     * Check the jurisdiction a historical name was used under exists and is not the place itself
+     * @private
+     */
+    async _checkNameJurisdiction(placeId, parentId, transaction) {
+        if (!parentId) return;
+
+        if (parentId === placeId) {
+            throw new Error('A place cannot lie within itself');
+        }
+
+        const parent = await placeRepository.findById(parentId, { transaction });
+        if (!parent) {
+            throw new Error(`Place with id ${parentId} not found`);
+        }
+    }
+
+    /**
+     * Find another name of a place, making sure it belongs to that place
+     * @private
+     */
+    async _findPlaceName(placeId, placeNameId, transaction) {
+        const placeName = await placeRepository.findPlaceNameById(placeNameId, { transaction });
+        if (!placeName || placeName.place_id !== placeId) {
+            throw new Error(`Place name with id ${placeNameId} not found`);
+        }
+
+        return placeName;
+    }
+
+    /**
+     * Rename the places within a renamed or moved place, and the locations linked to all of them
+     * @private
+     */
+    async _renameSubtree(place, transaction) {
+        await placeRepository.updateLinkedLocations(place, { transaction });
+
+        const children = await placeRepository.findChildren(place.place_id, { transaction });
+        for (const child of children) {
+            const renamedChild = await child.update({ full_name: this._fullName(child.name, place) }, { transaction });
+            await this._renameSubtree(renamedChild, transaction);
+        }
+    }
+
+    /**
+     * @private
+     */
+    _fullName(name, parent) {
+        return parent ? `${name}, ${parent.full_name}` : name;
+    }
+
+    /**
+     * Keep only the given fields that are present in the data
+     * @private
+     */
+    _pick(data, fields) {
+        return Object.fromEntries(fields.filter(field => data[field] !== undefined).map(field => [field, data[field]]));
+    }
+}
+
+/**
+ * Whether a historical name was in use on a date; names without dates are spellings, not history
+ */
+const isInUseOn = (placeName, when) => {
+    if (!placeName.start_date && !placeName.end_date) return false;
+
+    return (!placeName.start_date || new Date(placeName.start_date) <= when) &&
+        (!placeName.end_date || new Date(placeName.end_date) >= when);
+};
+
+module.exports = new PlaceService();
@@ -0,0 +1,195 @@
+// Time between keep-alive comments, short enough to stop proxies closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Milliseconds a client waits before reconnecting after the stream drops
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Realtime Service
+ * Pushes changes to signed-in browsers over Server-Sent Events.
+ *
+ * Each open stream is registered under its user. Messages are addressed to users rather than
+ * projects: project changes go to the users the change was announced to (the project's members)
+ * and to every manager, so access granted or removed while a stream is open applies immediately.
+ */
+class RealtimeService {
+    constructor() {
+        this.connections = new Map();
+        this.heartbeat = null;
+    }
+
+    /**
+     * Open an event stream on a response and keep it registered until the client disconnects
+     *
+     * @param {Object} user - Authenticated user ({ user_id, roles })
+     * @param {Object} res - Express response object
+     * @returns {Function} Closes the stream and unregisters it
+     */
+    subscribe(user, res) {
+        res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.flushHeaders();
+        res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+        const connection = {
+            userId: user.user_id,
+            isManager: Array.isArray(user.roles) && user.roles.includes('manager'),
+            res
+        };
+
+        if (!this.connections.has(connection.userId)) {
+            this.connections.set(connection.userId, new Set());
+        }
+        this.connections.get(connection.userId).add(connection);
+        this._startHeartbeat();
+
+        this._send(connection, 'ready', { user_id: connection.userId });
+
+        const unsubscribe = () => {
+            const userConnections = this.connections.get(connection.userId);
+            if (userConnections) {
+                userConnections.delete(connection);
+                if (userConnections.size === 0) {
+                    this.connections.delete(connection.userId);
+                }
+            }
+            if (this.connections.size === 0) {
+                this._stopHeartbeat();
+            }
+        };
+
+        res.on('close', unsubscribe);
+        return unsubscribe;
+    }
+
+    /**
+     * Send newly created user events to their recipients
+     *
+     * @param {Array} events - Created user events
+     */
+    publishUserEvents(events) {
+        events.forEach(event => {
+            this.publishToUsers([event.user_id], 'user_event', {
+                id: event.id,
+                event_type: event.event_type,
+                message: event.message,
+                entity_id: event.entity_id,
+                entity_type: event.entity_type,
+                project_ids: event.project_ids || []
+            });
+        });
+    }
+
+    /**
+     * Announce that a record in one or more projects changed
+     *
+     * @param {Array} userIds - Members of the projects
+     * @param {Object} change - The change
+     * @param {Array} change.projectIds - Projects the record belongs to
+     * @param {String} change.eventType - User event type describing the change, e.g. 'person_created'
+     * @param {String} [change.entityId] - ID of the changed record
+     * @param {String} [change.entityType] - Type of the changed record
+     * @param {String} [change.actorId] - User who made the change
+     */
+    publishEntityChange(userIds, { projectIds, eventType, entityId = null, entityType = null, actorId = null }) {
+        this.publishToUsers(userIds, 'entity_changed', {
+            project_ids: projectIds,
+            event_type: eventType,
+            entity_id: entityId,
+            entity_type: entityType,
+            actor_id: actorId
+        }, { includeManagers: true });
+    }
+
+    /**
+     * Send a message to every open stream of some users
+     *
+     * @param {Array} userIds - Recipient user IDs
+     * @param {String} type - Message type, sent as the SSE event name
+     * @param {Object} data - Message payload
+     * @param {Object} options - Options
+     * @param {Boolean} options.includeManagers - Also send to every connected manager
+     * @returns {Number} Number of streams the message was written to
+     */
+    publishToUsers(userIds, type, data, { includeManagers = false } = {}) {
+        const recipients = new Set();
+
+        userIds.forEach(userId => {
+            (this.connections.get(userId) || []).forEach(connection => recipients.add(connection));
+        });
+
+        if (includeManagers) {
+            this.connections.forEach(userConnections => {
+                userConnections.forEach(connection => {
+                    if (connection.isManager) recipients.add(connection);
+                });
+            });
+        }
+
+        recipients.forEach(connection => this._send(connection, type, data));
+        return recipients.size;
+    }
+
+    /**
+     * Number of open streams, for monitoring
+     *
+     * @returns {Number} Open streams
+     */
+    getConnectionCount() {
+        let count = 0;
+        this.connections.forEach(userConnections => {
+            count += userConnections.size;
+        });
+        return count;
+    }
+
+    /**
+     * Write one message to a stream
+     *
+     * @param {Object} connection - Registered connection
+     * @param {String} type - SSE event name
+     * @param {Object} data - Payload, sent as JSON
+     * @private
+     */
+    _send(connection, type, data) {
+        if (connection.res.writableEnded) return;
+        connection.res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+
+    /**
+     * Start writing keep-alive comments to every stream
+     *
+     * @private
+     */
+    _startHeartbeat() {
+        if (this.heartbeat) return;
+
+        this.heartbeat = setInterval(() => {
+            this.connections.forEach(userConnections => {
+                userConnections.forEach(connection => {
+                    if (!connection.res.writableEnded) connection.res.write(': keep-alive\n\n');
+                });
+            });
+        }, HEARTBEAT_INTERVAL_MS);
+
+        // Open streams alone should not keep the process running
+        this.heartbeat.unref();
+    }
+
+    /**
+     * Stop the keep-alive timer once no streams are open
+     *
+     * @private
+     */
+    _stopHeartbeat() {
+        if (!this.heartbeat) return;
+        clearInterval(this.heartbeat);
+        this.heartbeat = null;
+    }
+}
+
+module.exports = new RealtimeService();
@@ -1,9 +1,22 @@
 const relationshipRepository = require('../repositories/relationshipRepository');
 const personRepository = require('../repositories/personRepository');
+const sourceRepository = require('../repositories/sourceRepository');
+const historyService = require('./historyService');
+const personService = require('./personService');
 const TransactionManager = require('../utils/transactionManager');
 const { validateMarriage } = require('../utils/genealogyRules');
 const { validateRelationship, detectCircularRelationships } = require('../utils/validationUtils');
-const { Person } = require('../models');
+const { resolveKinship } = require('../utils/kinship');
+const ProjectUtils = require('../utils/projectUtils');
+const { Op } = require('sequelize');
+
+// Generations searched for a common ancestor unless the caller asks for more or fewer
+const DEFAULT_KINSHIP_GENERATIONS = 10;
+
+// Person fields returned with a kinship result
+const KINSHIP_PERSON_ATTRIBUTES = [
+    'person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail'
+];
 
 /**
  * Relationship Service
@@ -20,6 +33,30 @@ class RelationshipService {
         return await relationshipRepository.findRelationships(params);
     }
 
+    /**
+     * Find the relationships among the given ones that involve a person redacted for a user, such as
+     * someone who may still be alive
+     *
+     * @param {Object} user - The authenticated user ({ user_id, roles })
+     * @param {Array<String>} relationshipIds - Relationship IDs
+     * @returns {Promise<Set<String>>} IDs of the relationships involving a redacted person
+     */
+    async getRedactedRelationshipIds(user, relationshipIds) {
+        if (relationshipIds.length === 0) {
+            return new Set();
+        }
+
+        const relationships = await relationshipRepository.findAll({
+            where: { relationship_id: relationshipIds },
+            attributes: ['relationship_id', 'person1_id', 'person2_id']
+        });
+        const privateIds = await personService.getRedactedPersonIds(user, relationships.flatMap(rel => [rel.person1_id, rel.person2_id]));
+
+        return new Set(relationships
+            .filter(rel => privateIds.has(rel.person1_id) || privateIds.has(rel.person2_id))
+            .map(rel => rel.relationship_id));
+    }
+
     /**
      * Get a relationship by ID
      * 
@@ -34,10 +71,12 @@ class RelationshipService {
      * Create a new relationship
      * 
      * @param {Object} relationshipData - Relationship data
+     * @param {Object} transaction - Optional transaction object
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId })
      * @returns {Promise<Object>} Created relationship
      */
-    async createRelationship(relationshipData) {
-        return await TransactionManager.executeTransaction(async (transaction) => {
+    async createRelationship(relationshipData, transaction = null, historyContext = {}) {
+        const executeCreate = async (transaction) => {
             // Enforce that only 'parent' and 'spouse' relationships can be created directly
             if (!['parent', 'spouse'].includes(relationshipData.relationship_type)) {
                 throw new Error(`Only 'parent' and 'spouse' relationships can be created directly. Other relationship types are derived automatically.`);
@@ -95,7 +134,8 @@ class RelationshipService {
                 const allRelationships = await relationshipRepository.findAll({
                     where: {
                         relationship_type: ['parent', 'child']
-                    }
+                    },
+                    transaction
                 });
 
                 // Add the new relationship to the list
@@ -117,6 +157,7 @@ class RelationshipService {
 
             // Create the relationship
             const relationship = await relationshipRepository.create(relationshipData, { transaction });
+            await historyService.recordChange('relationship', null, relationship, { ...historyContext, transaction });
 
             // If this is a parent-child relationship, create the inverse relationship
             if (relationshipData.relationship_type === 'parent') {
@@ -136,13 +177,21 @@ class RelationshipService {
                     relationship_type: 'spouse', // Inverse is also 'spouse'
                     relationship_qualifier: relationshipData.relationship_qualifier,
                     start_date: relationshipData.start_date,
+                    start_date_detail: relationshipData.start_date_detail,
                     end_date: relationshipData.end_date,
+                    end_date_detail: relationshipData.end_date_detail,
                     notes: relationshipData.notes
                 }, { transaction });
             }
             
             return relationship;
-        });
+        };
+
+        if (transaction) {
+            return await executeCreate(transaction);
+        }
+
+        return await TransactionManager.executeTransaction(executeCreate);
     }
 
     /**
@@ -150,9 +199,10 @@ class RelationshipService {
      * 
      * @param {String} id - Relationship ID
      * @param {Object} relationshipData - Relationship data to update
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId, action, revertedToVersion })
      * @returns {Promise<Object>} Updated relationship
      */
-    async updateRelationship(id, relationshipData) {
+    async updateRelationship(id, relationshipData, historyContext = {}) {
         return await TransactionManager.executeTransaction(async (transaction) => {
             // Get the current relationship data
             const currentRelationship = await relationshipRepository.findById(id, { transaction });
@@ -198,6 +248,7 @@ class RelationshipService {
 
             // Update the relationship
             const relationship = await relationshipRepository.update(id, relationshipData, { transaction });
+            await historyService.recordChange('relationship', currentRelationship, relationship, { ...historyContext, transaction });
 
             // If this is a parent-child relationship and the qualifier changed, update the inverse relationship
             if (currentRelationship.relationship_type === 'parent' && relationshipData.relationship_qualifier) {
@@ -253,9 +304,10 @@ class RelationshipService {
      * Delete a relationship
      * 
      * @param {String} id - Relationship ID
+     * @param {Object} historyContext - Who made the change, for the edit history ({ userId })
      * @returns {Promise<Boolean>} True if successful
      */
-    async deleteRelationship(id) {
+    async deleteRelationship(id, historyContext = {}) {
         return await TransactionManager.executeTransaction(async (transaction) => {
             // Get the current relationship data
             const relationship = await relationshipRepository.findById(id, { transaction });
@@ -292,8 +344,14 @@ class RelationshipService {
                 }
             }
 
+            // Remove citations of the relationship
+            await sourceRepository.deleteCitationsForEntity('relationship', id, { transaction });
+
             // Delete the relationship
-            return await relationshipRepository.delete(id, { transaction });
+            const deleted = await relationshipRepository.delete(id, { transaction });
+            await historyService.recordChange('relationship', relationship, null, { ...historyContext, transaction });
+
+            return deleted;
         });
     }
 
@@ -437,86 +495,149 @@ class RelationshipService {
             throw new Error(`Person with id ${person2Id} not found`);
         }
 
-        // Get all relationships
-        const allRelationships = await relationshipRepository.findAll({
-            include: [
-                {
-                    model: Person,
-                    as: 'person1',
-                    attributes: ['person_id', 'first_name', 'last_name']
-                },
-                {
-                    model: Person,
-                    as: 'person2',
-                    attributes: ['person_id', 'first_name', 'last_name']
-                }
-            ]
-        });
+        // Search outwards one link at a time, reading only the relationships of the
+        // persons reached so far rather than the whole table
+        const reachedBy = new Map([[person1Id, null]]);
+        let frontier = [person1Id];
+
+        for (let depth = 0; depth < maxDepth && frontier.length > 0 && !reachedBy.has(person2Id); depth++) {
+            const frontierIds = new Set(frontier);
+            const relationships = await relationshipRepository.findRelationshipsInvolvingPersons(frontier);
+            const next = [];
+
+            relationships.forEach(rel => {
+                [[rel.person1_id, rel.person2_id], [rel.person2_id, rel.person1_id]].forEach(([fromId, toId]) => {
+                    if (frontierIds.has(fromId) && !reachedBy.has(toId)) {
+                        reachedBy.set(toId, { fromId, relationship: rel });
+                        next.push(toId);
+                    }
+                });
+            });
 
-        // Build a graph of relationships
-        const graph = {};
+            frontier = next;
+        }
 
-        allRelationships.forEach(rel => {
-            // Add edge from person1 to person2
-            if (!graph[rel.person1_id]) {
-                graph[rel.person1_id] = [];
-            }
+        // If no path is found, return an empty array
+        if (!reachedBy.has(person2Id)) {
+            return [];
+        }
 
-            graph[rel.person1_id].push({
-                personId: rel.person2_id,
-                relationship: rel
-            });
+        const path = [];
+        for (let step = reachedBy.get(person2Id); step; step = reachedBy.get(step.fromId)) {
+            path.unshift(step.relationship);
+        }
 
-            // Add edge from person2 to person1
-            if (!graph[rel.person2_id]) {
-                graph[rel.person2_id] = [];
-            }
+        return path;
+    }
 
-            graph[rel.person2_id].push({
-                personId: rel.person1_id,
-                relationship: rel
-            });
-        });
+    /**
+     * Work out how two persons are related: their nearest common ancestors and the name of the
+     * relationship, such as "second cousin once removed", "half-brother", "stepmother" or "sister-in-law"
+     *
+     * @param {String} person1Id - Person the relationship is described for
+     * @param {String} person2Id - Relative
+     * @param {Object} options - Options
+     * @param {Number} options.maxGenerations - Generations to search back for a common ancestor
+     * @param {Array} options.projectIds - Only show persons of these projects; the others on the
+     *                                     path are counted but hidden
+     * @returns {Promise<Object>} Kinship, naming what person2 is to person1 (relationship) and
+     *                            what person1 is to person2 (reciprocal)
+     */
+    async getKinship(person1Id, person2Id, options = {}) {
+        const maxGenerations = options.maxGenerations || DEFAULT_KINSHIP_GENERATIONS;
 
-        // Perform BFS to find the shortest path
-        const queue = [{
-            personId: person1Id,
-            path: [],
-            visited: new Set([person1Id])
-        }];
+        const [person1, person2] = await Promise.all([
+            personRepository.findById(person1Id),
+            personRepository.findById(person2Id)
+        ]);
 
-        while (queue.length > 0) {
-            const { personId, path, visited } = queue.shift();
+        if (!person1) {
+            throw new Error(`Person with id ${person1Id} not found`);
+        }
 
-            // If we've reached the target person, return the path
-            if (personId === person2Id) {
-                return path;
-            }
+        if (!person2) {
+            throw new Error(`Person with id ${person2Id} not found`);
+        }
 
-            // If we've reached the maximum depth, skip this path
-            if (path.length >= maxDepth) {
-                continue;
-            }
+        // In-laws are blood relatives of a spouse, so the spouses' lines are traced too
+        const spouses = await relationshipRepository.findSpouseIds([person1Id, person2Id]);
+        const spouseIds = [...new Set([...(spouses.get(person1Id) || []), ...(spouses.get(person2Id) || [])])];
+
+        const lineageRows = await relationshipRepository.findLineages(
+            [...new Set([person1Id, person2Id, ...spouseIds])],
+            maxGenerations
+        );
+        const lineages = new Map();
+        lineageRows.forEach(row => {
+            if (!lineages.has(row.origin_id)) lineages.set(row.origin_id, []);
+            lineages.get(row.origin_id).push(row);
+        });
 
-            // Explore neighbors
-            const neighbors = graph[personId] || [];
+        const persons = await this._loadPersons([person1Id, person2Id, ...spouseIds], options.projectIds);
+        const graph = { lineages, spouses, persons };
 
-            for (const neighbor of neighbors) {
-                if (!visited.has(neighbor.personId)) {
-                    const newVisited = new Set(visited);
-                    newVisited.add(neighbor.personId);
+        const kinship = resolveKinship(person1Id, person2Id, graph);
+        const reciprocal = resolveKinship(person2Id, person1Id, graph);
 
-                    queue.push({
-                        personId: neighbor.personId,
-                        path: [...path, neighbor.relationship],
-                        visited: newVisited
-                    });
-                }
-            }
+        const summary = (person) => persons.get(person.person_id) || null;
+
+        if (!kinship) {
+            return {
+                person1: summary(person1),
+                person2: summary(person2),
+                related: false,
+                relationship: null,
+                reciprocal: null,
+                kind: null,
+                max_generations: maxGenerations
+            };
         }
 
-        // If no path is found, return an empty array
-        return [];
+        const more = await this._loadPersons([...kinship.commonAncestorIds, ...kinship.path], options.projectIds);
+        more.forEach((person, id) => persons.set(id, person));
+
+        const isCousin = ['blood', 'step'].includes(kinship.kind) && kinship.up >= 2 && kinship.down >= 2;
+
+        return {
+            person1: summary(person1),
+            person2: summary(person2),
+            related: true,
+            relationship: kinship.label,
+            reciprocal: reciprocal ? reciprocal.label : null,
+            kind: kinship.kind,
+            half: kinship.half,
+            generations: { person1: kinship.up, person2: kinship.down },
+            cousin: isCousin
+                ? { degree: Math.min(kinship.up, kinship.down) - 1, removed: Math.abs(kinship.up - kinship.down) }
+                : null,
+            common_ancestors: kinship.commonAncestorIds.map(id => persons.get(id) || { hidden: true }),
+            through_spouse: kinship.spouseId ? persons.get(kinship.spouseId) || { hidden: true } : null,
+            path: kinship.path.map(id => persons.get(id) || { hidden: true }),
+            max_generations: maxGenerations
+        };
+    }
+
+    /**
+     * Load persons by ID with the fields a kinship result shows
+     *
+     * @param {Array} personIds - Person IDs
+     * @param {Array} [projectIds] - Only load persons of these projects
+     * @returns {Promise<Map>} Plain persons by ID
+     * @private
+     */
+    async _loadPersons(personIds, projectIds) {
+        const where = { person_id: { [Op.in]: [...new Set(personIds)] } };
+        if (projectIds) {
+            where[Op.and] = [{ person_id: { [Op.in]: ProjectUtils.projectPersonsSubquery(projectIds) } }];
+        }
+
+        const persons = await personRepository.findAll({
+            where,
+            attributes: KINSHIP_PERSON_ATTRIBUTES,
+            raw: true
+        });
+
+        return new Map(persons.map(person => [person.person_id, person]));
     }
 }
 
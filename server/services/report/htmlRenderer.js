@@ -0,0 +1,25 @@
+const path = require('path');
+const jade = require('jade');
+
+const VIEW_PATH = path.join(__dirname, '..', '..', 'views', 'reports', 'familyHistory.jade');
+
+/**
+ * Report HTML Renderer
+ * Renders a report model from the report service as a single self-contained HTML file, with the
+ * document thumbnails inlined so it can be saved, emailed or printed from a browser.
+ *
+ * @param {Object} report - Report model
+ * @returns {String} HTML document
+ */
+function renderReportHtml(report) {
+    return jade.renderFile(VIEW_PATH, {
+        report,
+        generatedOn: report.generatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+        imageSrc: (image) => `data:${image.mimeType};base64,${image.data.toString('base64')}`,
+        cache: process.env.NODE_ENV === 'production'
+    });
+}
+
+module.exports = {
+    renderReportHtml
+};
@@ -0,0 +1,288 @@
+const PdfDocument = require('../../utils/pdfDocument');
+
+const BODY_SIZE = 10.5;
+const SMALL_SIZE = 8.5;
+const MUTED = '#4b5563';
+const ACCENT = '#1e3a8a';
+
+// Column positions of a child line: number, "+" marker, Roman numeral, then the text
+const CHILD_NUMBER_WIDTH = 26;
+const CHILD_MARKER_WIDTH = 12;
+const CHILD_ROMAN_WIDTH = 30;
+
+const THUMBNAIL_SIZE = 96;
+
+const formatDate = (date) => date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * Turn report text segments into PDF text runs
+ *
+ * @param {Array} segments - Segments ({ text, style }, { sup } or { note })
+ * @param {Number} size - Font size of the text
+ * @returns {Array} Text runs
+ */
+const toRuns = (segments, size = BODY_SIZE) => segments.map(segment => {
+    if (segment.sup !== undefined || segment.note !== undefined) {
+        return {
+            text: String(segment.sup !== undefined ? segment.sup : segment.note),
+            size: size * 0.65,
+            rise: size * 0.35,
+            color: segment.note !== undefined ? ACCENT : undefined
+        };
+    }
+    return { text: segment.text, style: segment.style || 'regular' };
+}).map(run => Object.fromEntries(Object.entries(run).filter(([, value]) => value !== undefined)));
+
+/**
+ * Shorten text with an ellipsis so it fits a width
+ *
+ * @param {PdfDocument} doc - Document
+ * @param {String} text - Text
+ * @param {Number} maxWidth - Width in points
+ * @param {String} style - Font style
+ * @param {Number} size - Font size
+ * @returns {String} Text that fits
+ */
+const fitText = (doc, text, maxWidth, style, size) => {
+    if (doc.widthOf(text, style, size) <= maxWidth) return text;
+
+    let fitted = text;
+    while (fitted.length > 1 && doc.widthOf(`${fitted}…`, style, size) > maxWidth) {
+        fitted = fitted.slice(0, -1);
+    }
+    return `${fitted.trimEnd()}…`;
+};
+
+/**
+ * Report PDF Renderer
+ * Lays out a report model from the report service as a paginated PDF. Index page numbers come from
+ * the pages each person's entry and child listings were written on.
+ *
+ * @param {Object} report - Report model
+ * @returns {Buffer} PDF file contents
+ */
+function renderReportPdf(report) {
+    const doc = new PdfDocument({
+        info: { title: `${report.title} - Family History`, author: report.preparedBy || '', subject: 'Family history report' },
+        onPageAdded: (pdf) => {
+            if (pdf.pageNumber === 1) return;
+
+            const label = `${report.title}  ·  ${pdf.pageNumber}`;
+            const size = SMALL_SIZE;
+            pdf.drawText(label, (pdf.width - pdf.widthOf(label, 'regular', size)) / 2, pdf.height - pdf.margin / 2, { size, color: MUTED });
+        }
+    });
+
+    const pagesByPerson = new Map();
+    const recordPages = (personId, pages) => {
+        if (!pagesByPerson.has(personId)) pagesByPerson.set(personId, new Set());
+        pages.forEach(page => pagesByPerson.get(personId).add(page));
+    };
+
+    const images = new Map();
+    const imageFor = (document) => {
+        if (!document.image) return null;
+        if (!images.has(document.documentId)) {
+            images.set(document.documentId, PdfDocument.readImage(document.image.data));
+        }
+        return images.get(document.documentId);
+    };
+
+    const heading = (text, { size = 16, spaceBefore = 10 } = {}) => {
+        doc.ensureSpace(size * 3);
+        doc.moveDown(spaceBefore);
+        doc.writeParagraph([{ text, style: 'bold' }], { size, color: ACCENT, spaceAfter: 4 });
+        doc.drawLine(doc.margin, doc.y, doc.width - doc.margin, doc.y, { color: '#cbd5e1' });
+        doc.moveDown(10);
+    };
+
+    const writeDocuments = (documents, indent, personId) => {
+        documents.forEach(document => {
+            const caption = [
+                { text: `${document.title}`, style: 'bold' },
+                { text: ` (${[document.type, document.date].filter(Boolean).join(', ')})` },
+                ...(document.description ? [{ text: `. ${document.description}`, style: 'italic' }] : [])
+            ];
+            const image = imageFor(document);
+
+            if (!image) {
+                recordPages(personId, doc.writeParagraph(caption, { size: SMALL_SIZE, indent, color: MUTED }));
+                return;
+            }
+
+            doc.ensureSpace(THUMBNAIL_SIZE + 8);
+            const top = doc.y;
+            const size = doc.drawImage(image, doc.margin + indent, top, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+            doc.drawRect(doc.margin + indent, top, size.width, size.height, { stroke: '#d1d5db' });
+
+            doc.writeParagraph(caption, { size: SMALL_SIZE, indent: indent + size.width + 10, color: MUTED, spaceAfter: 0 });
+            doc.y = Math.max(doc.y, top + size.height) + 8;
+            recordPages(personId, [doc.pageNumber]);
+        });
+    };
+
+    const writeParagraphs = (paragraphs, indent, personId) => {
+        paragraphs.forEach(paragraph => {
+            recordPages(personId, doc.writeParagraph(toRuns(paragraph), { indent, size: BODY_SIZE }));
+        });
+    };
+
+    const writeEntry = (entry) => {
+        doc.ensureSpace(BODY_SIZE * 5);
+
+        const labelWidth = entry.label ? 28 : 0;
+        if (entry.label) {
+            doc.drawText(`${entry.label}.`, doc.margin, doc.y + BODY_SIZE, { style: 'bold', size: BODY_SIZE });
+        }
+
+        const headingRuns = toRuns(entry.heading);
+        if (entry.lifespan) headingRuns.push({ text: `  (${entry.lifespan})`, color: MUTED });
+        recordPages(entry.personId, doc.writeParagraph(headingRuns, { indent: labelWidth, size: BODY_SIZE + 1, spaceAfter: 3 }));
+
+        writeParagraphs(entry.paragraphs, labelWidth, entry.personId);
+        writeDocuments(entry.documents, labelWidth, entry.personId);
+
+        entry.spouses.forEach(spouse => {
+            writeParagraphs(spouse.paragraphs, labelWidth, spouse.personId);
+            writeDocuments(spouse.documents, labelWidth, spouse.personId);
+        });
+
+        if (entry.childrenIntro) {
+            doc.writeParagraph(entry.childrenIntro, { indent: labelWidth, style: 'italic', size: BODY_SIZE, spaceAfter: 4 });
+
+            const textIndent = labelWidth + CHILD_NUMBER_WIDTH + CHILD_MARKER_WIDTH + CHILD_ROMAN_WIDTH;
+            entry.children.forEach(child => {
+                doc.ensureSpace(BODY_SIZE * 2);
+                const baseline = doc.y + BODY_SIZE;
+                let x = doc.margin + labelWidth;
+
+                if (child.number) {
+                    const number = String(child.number);
+                    doc.drawText(number, x + CHILD_NUMBER_WIDTH - 6 - doc.widthOf(number, 'regular', BODY_SIZE), baseline, { size: BODY_SIZE });
+                }
+                x += CHILD_NUMBER_WIDTH;
+                if (child.marker) doc.drawText(child.marker, x, baseline, { size: BODY_SIZE });
+                x += CHILD_MARKER_WIDTH;
+                const roman = `${child.roman}.`;
+                doc.drawText(roman, x + CHILD_ROMAN_WIDTH - 6 - doc.widthOf(roman, 'regular', BODY_SIZE), baseline, { size: BODY_SIZE });
+
+                child.paragraphs.forEach((paragraph, index) => {
+                    recordPages(child.personId, doc.writeParagraph(toRuns(paragraph), {
+                        indent: textIndent,
+                        size: BODY_SIZE,
+                        spaceAfter: index === child.paragraphs.length - 1 ? 3 : 6
+                    }));
+                });
+                writeDocuments(child.documents, textIndent, child.personId);
+            });
+        }
+
+        doc.moveDown(10);
+    };
+
+    // Cover page
+    doc.addPage();
+    doc.y = doc.height * 0.3;
+    doc.writeParagraph([{ text: report.title, style: 'bold' }], { size: 28, align: 'center', color: ACCENT, lineHeight: 1.2, spaceAfter: 12 });
+    doc.writeParagraph('A Family History', { size: 16, align: 'center', style: 'italic', color: MUTED, spaceAfter: 36 });
+    if (report.description) {
+        doc.writeParagraph(report.description, { size: BODY_SIZE, align: 'center', color: MUTED, spaceAfter: 36 });
+    }
+    if (report.preparedFor.length > 0) {
+        doc.writeParagraph(`Prepared for ${report.preparedFor.join(' and ')}`, { size: 12, align: 'center' });
+    }
+    if (report.preparedBy) {
+        doc.writeParagraph(`Prepared by ${report.preparedBy}`, { size: 12, align: 'center' });
+    }
+    doc.writeParagraph(formatDate(report.generatedAt), { size: 12, align: 'center', color: MUTED });
+
+    // Pedigree chart: one column per generation, each slot centered on its share of the chart height
+    if (report.pedigree) {
+        doc.addPage();
+        heading(`Pedigree of ${report.pedigree.subject}`, { spaceBefore: 0 });
+
+        const top = doc.y;
+        const chartHeight = doc.height - doc.margin - top - 10;
+        const columnWidth = doc.contentWidth / report.pedigree.generations;
+        const boxWidth = columnWidth - 12;
+        const boxHeight = 46;
+
+        const slotPosition = (number) => {
+            const generation = Math.floor(Math.log2(number));
+            const rows = 2 ** generation;
+            const row = number - rows;
+            return {
+                x: doc.margin + generation * columnWidth,
+                y: top + (row + 0.5) * (chartHeight / rows) - boxHeight / 2
+            };
+        };
+
+        report.pedigree.slots.forEach((slot, index) => {
+            const number = index + 1;
+            const { x, y } = slotPosition(number);
+
+            if (number > 1) {
+                const child = slotPosition(Math.floor(number / 2));
+                const elbowX = x - 6;
+                doc.drawLine(child.x + boxWidth, child.y + boxHeight / 2, elbowX, child.y + boxHeight / 2);
+                doc.drawLine(elbowX, child.y + boxHeight / 2, elbowX, y + boxHeight / 2);
+                doc.drawLine(elbowX, y + boxHeight / 2, x, y + boxHeight / 2);
+            }
+
+            doc.drawRect(x, y, boxWidth, boxHeight, { stroke: slot ? '#94a3b8' : '#e5e7eb', fill: slot ? '#f8fafc' : null });
+            doc.drawText(String(number), x + boxWidth - 4 - doc.widthOf(String(number), 'regular', 6), y + 8, { size: 6, color: MUTED });
+
+            if (!slot) return;
+
+            doc.drawText(fitText(doc, slot.name, boxWidth - 14, 'bold', 8), x + 4, y + 13, { style: 'bold', size: 8 });
+            [slot.birth, slot.death].filter(Boolean).forEach((line, lineIndex) => {
+                doc.drawText(fitText(doc, line, boxWidth - 8, 'regular', 7), x + 4, y + 25 + lineIndex * 10, { size: 7, color: MUTED });
+            });
+            recordPages(slot.personId, [doc.pageNumber]);
+        });
+    }
+
+    // Descendant report
+    if (report.generations.length > 0) {
+        doc.addPage();
+        heading(`Descendants of ${report.progenitor}`, { size: 18, spaceBefore: 0 });
+
+        report.generations.forEach(section => {
+            heading(section.title, { size: 13 });
+            section.entries.forEach(writeEntry);
+        });
+    }
+
+    if (report.otherEntries.length > 0) {
+        doc.addPage();
+        heading(report.otherTitle, { size: 18, spaceBefore: 0 });
+        report.otherEntries.forEach(writeEntry);
+    }
+
+    if (report.notes.length > 0) {
+        doc.addPage();
+        heading('Sources', { size: 18, spaceBefore: 0 });
+        report.notes.forEach(note => {
+            doc.writeParagraph([{ text: `${note.number}. `, style: 'bold' }, { text: note.text }], { size: 9, hangingIndent: 14, spaceAfter: 4 });
+        });
+    }
+
+    if (report.index.length > 0) {
+        doc.addPage();
+        heading('Index of Names', { size: 18, spaceBefore: 0 });
+        report.index.forEach(item => {
+            const pages = Array.from(pagesByPerson.get(item.personId) || []).sort((a, b) => a - b);
+            doc.writeParagraph([
+                { text: item.name, style: 'bold' },
+                ...(item.lifespan ? [{ text: ` (${item.lifespan})`, color: MUTED }] : []),
+                ...(pages.length > 0 ? [{ text: `  ${pages.join(', ')}` }] : [])
+            ], { size: 9, hangingIndent: 14, spaceAfter: 1 });
+        });
+    }
+
+    return doc.toBuffer();
+}
+
+module.exports = {
+    renderReportPdf
+};
@@ -0,0 +1,962 @@
+const fs = require('fs');
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const eventRepository = require('../repositories/eventRepository');
+const documentRepository = require('../repositories/documentRepository');
+const sourceRepository = require('../repositories/sourceRepository');
+const mailService = require('./mailService');
+const { renderReportHtml } = require('./report/htmlRenderer');
+const { renderReportPdf } = require('./report/pdfRenderer');
+const { numberDescendants, NUMBERING_SYSTEMS } = require('../utils/descendantNumbering');
+const { describeGenealogicalDate, getDateBounds } = require('../utils/genealogicalDate');
+const { getPrivatePersonIds, redactPersons, redactRelationship } = require('../utils/privacy');
+const { resolveUploadPath } = require('../utils/uploads');
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+const REPORT_FORMATS = ['pdf', 'html'];
+
+const PEDIGREE_GENERATIONS = 4;
+const DEFAULT_GENERATIONS = 6;
+
+// Thumbnails are embedded in the report file, so large scans are left out and the total is capped
+const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+const MAX_TOTAL_THUMBNAIL_BYTES = 20 * 1024 * 1024;
+const THUMBNAIL_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif'];
+
+// Most mail providers reject messages over 20-25MB, and attachments grow by a third when encoded
+const MAX_EMAIL_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+const GENERATION_NAMES = ['One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+    'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen'];
+
+// How each kind of event reads in a biography: the verb phrase and the preposition before its place
+const EVENT_PHRASES = {
+    birth: ['was born', 'in'],
+    death: ['died', 'in'],
+    marriage: ['married', 'in'],
+    divorce: ['divorced', 'in'],
+    immigration: ['immigrated', 'to'],
+    emigration: ['emigrated', 'from'],
+    naturalization: ['was naturalized', 'in'],
+    graduation: ['graduated', 'in'],
+    military_service: ['served in the military', 'in'],
+    retirement: ['retired', 'in'],
+    religious: ['took part in a religious ceremony', 'in'],
+    medical: ['had a medical event recorded', 'in'],
+    residence: ['lived', 'in'],
+    census: ['was enumerated in the census', 'in'],
+    other: ['had a recorded event', 'in']
+};
+
+const DOCUMENT_TYPE_LABELS = {
+    photo: 'Photograph',
+    certificate: 'Certificate',
+    letter: 'Letter',
+    record: 'Record',
+    newspaper: 'Newspaper',
+    census: 'Census',
+    military: 'Military record',
+    legal: 'Legal document',
+    map: 'Map',
+    audio: 'Audio recording',
+    video: 'Video recording',
+    other: 'Document'
+};
+
+/**
+ * Get a plain object from a model instance or plain object
+ *
+ * @param {Object} item - Sequelize instance or plain object
+ * @returns {Object} Plain object
+ */
+const toPlain = (item) => (item && typeof item.toJSON === 'function' ? item.toJSON() : item);
+
+/**
+ * Sort key of a date, undated records last
+ *
+ * @param {Date|String} value - DATE value
+ * @returns {String} ISO date or a key sorting after every date
+ */
+const dateKey = (value) => (value ? new Date(value).toISOString() : '9999');
+
+const capitalize = (text) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Report Service
+ * Builds the family history report delivered to clients: a cover page, a pedigree chart, biographies
+ * of every person in the project (as a descendant report with Register or NGSQ numbering where the
+ * family allows), document thumbnails, source notes and an index of names, rendered as PDF or HTML.
+ */
+class ReportService {
+    /**
+     * Generate a family history report file
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} [options] - Report options
+     * @param {String} [options.format] - pdf or html
+     * @param {String} [options.numbering] - register or ngsq
+     * @param {String} [options.subjectPersonId] - Person whose pedigree is charted
+     * @param {String} [options.progenitorPersonId] - Person whose descendants are reported
+     * @param {Number} [options.generations] - Generations of descendants to report
+     * @returns {Promise<Object>} Project, file name, content type and file contents
+     */
+    async generateReport(projectId, options = {}) {
+        const format = options.format || 'pdf';
+        if (!REPORT_FORMATS.includes(format)) {
+            throw new Error(`Validation error: Report format must be one of: ${REPORT_FORMATS.join(', ')}`);
+        }
+
+        const report = await this.buildReport(projectId, options);
+        const baseName = `${(report.title || 'family_history').replace(/[^a-z0-9]+/gi, '_').replace(/^_|_$/g, '') || 'family_history'}_report`;
+
+        if (format === 'html') {
+            return {
+                project: report.project,
+                fileName: `${baseName}.html`,
+                contentType: 'text/html; charset=utf-8',
+                content: Buffer.from(renderReportHtml(report), 'utf8')
+            };
+        }
+
+        return {
+            project: report.project,
+            fileName: `${baseName}.pdf`,
+            contentType: 'application/pdf',
+            content: renderReportPdf(report)
+        };
+    }
+
+    /**
+     * Email a family history report as an attachment.
+     * Researchers send it to the project's clients; clients send it to themselves.
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} sender - Authenticated user ({ user_id, roles })
+     * @param {Object} [options] - Report options (see generateReport) and an optional message
+     * @returns {Promise<Array>} Addresses the report was queued for
+     */
+    async emailReport(projectId, sender, options = {}) {
+        const project = await projectRepository.findProjectWithMembers(projectId);
+        if (!project) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        const members = (project.Users || []).filter(user => user.is_active);
+        const recipients = sender.roles.includes('manager')
+            ? members.filter(user => (user.Roles || []).some(role => role.name === 'client'))
+            : members.filter(user => user.user_id === sender.user_id);
+
+        if (recipients.length === 0) {
+            throw new Error('Validation error: This project has no clients to send the report to');
+        }
+
+        const { fileName, contentType, content } = await this.generateReport(projectId, options);
+
+        if (content.length > MAX_EMAIL_ATTACHMENT_BYTES) {
+            const megabytes = Math.ceil(content.length / (1024 * 1024));
+            throw new Error(`Validation error: The report is too large to email (${megabytes}MB); download it instead`);
+        }
+
+        const senderUser = [project.researcher, ...members].find(user => user && user.user_id === sender.user_id);
+
+        for (const recipient of recipients) {
+            await mailService.queueEmail({
+                to: recipient.email,
+                toName: `${recipient.first_name} ${recipient.last_name}`,
+                userId: recipient.user_id,
+                template: 'family_history_report',
+                data: {
+                    firstName: recipient.first_name,
+                    projectTitle: project.title,
+                    senderName: senderUser && senderUser.user_id !== recipient.user_id
+                        ? `${senderUser.first_name} ${senderUser.last_name}`
+                        : null,
+                    message: options.message || null,
+                    fileName,
+                    projectUrl: `${CLIENT_URL}/projects/${project.id}`
+                },
+                attachments: [{ filename: fileName, contentType, content }]
+            });
+        }
+
+        return recipients.map(recipient => recipient.email);
+    }
+
+    /**
+     * Gather a project's records and lay them out as a report, independent of the output format
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} [options] - Report options (see generateReport)
+     * @returns {Promise<Object>} Report model
+     */
+    async buildReport(projectId, options = {}) {
+        const numbering = options.numbering || 'register';
+        if (!NUMBERING_SYSTEMS.includes(numbering)) {
+            throw new Error(`Validation error: Numbering must be one of: ${NUMBERING_SYSTEMS.join(', ')}`);
+        }
+
+        const project = await projectRepository.findProjectWithMembers(projectId);
+        if (!project) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        const records = await this._loadRecords(projectId);
+        const family = this._buildFamily(records);
+
+        for (const [label, personId] of [['Subject', options.subjectPersonId], ['Progenitor', options.progenitorPersonId]]) {
+            if (personId && !family.persons.has(personId)) {
+                throw new Error(`Validation error: ${label} must be a person in this project`);
+            }
+        }
+
+        const generations = Math.min(Math.max(parseInt(options.generations, 10) || DEFAULT_GENERATIONS, 1), GENERATION_NAMES.length);
+        const subjectId = options.subjectPersonId || this._pickPedigreeSubject(family);
+        const progenitorId = options.progenitorPersonId || this._pickProgenitor(family, generations);
+
+        const builder = this._createBuilder(family, records);
+        const members = (project.Users || []);
+
+        const report = {
+            project,
+            title: project.title,
+            description: project.description,
+            preparedFor: members
+                .filter(user => (user.Roles || []).some(role => role.name === 'client'))
+                .map(user => `${user.first_name} ${user.last_name}`),
+            preparedBy: project.researcher ? `${project.researcher.first_name} ${project.researcher.last_name}` : null,
+            generatedAt: new Date(),
+            numbering,
+            pedigree: subjectId ? this._buildPedigree(family, subjectId, builder) : null,
+            progenitor: null,
+            generations: [],
+            otherEntries: [],
+            otherTitle: 'Family Members',
+            notes: builder.notes,
+            index: []
+        };
+
+        const covered = new Set();
+
+        if (progenitorId && family.children(progenitorId).length > 0) {
+            report.progenitor = builder.fullName(progenitorId);
+            report.otherTitle = 'Other Family Members';
+
+            const families = numberDescendants(progenitorId, family.children, { system: numbering, generations });
+            const numbers = new Map();
+            const lineage = new Map([[progenitorId, []]]);
+
+            families.forEach(entry => {
+                numbers.set(entry.personId, entry.number);
+                entry.children.forEach(child => {
+                    if (child.number && !numbers.has(child.personId)) numbers.set(child.personId, child.number);
+                    if (!lineage.has(child.personId)) {
+                        lineage.set(child.personId, [{ personId: entry.personId, generation: entry.generation }, ...lineage.get(entry.personId)]);
+                    }
+                });
+            });
+
+            families.forEach(entry => {
+                let section = report.generations.find(item => item.generation === entry.generation);
+                if (!section) {
+                    section = { generation: entry.generation, title: `Generation ${GENERATION_NAMES[entry.generation - 1]}`, entries: [] };
+                    report.generations.push(section);
+                }
+
+                section.entries.push(builder.descendantEntry(entry, {
+                    numbering,
+                    lineage: lineage.get(entry.personId),
+                    numbers,
+                    covered
+                }));
+            });
+        }
+
+        report.otherEntries = Array.from(family.persons.keys())
+            .filter(personId => !covered.has(personId))
+            .sort((a, b) => builder.sortName(a).localeCompare(builder.sortName(b)))
+            .map(personId => {
+                covered.add(personId);
+                return builder.personEntry(personId);
+            });
+
+        report.index = Array.from(family.persons.keys())
+            .map(personId => ({
+                personId,
+                name: builder.sortName(personId),
+                lifespan: builder.lifespan(personId),
+                anchor: builder.anchors.get(personId) || null,
+                labels: builder.labels.get(personId) || []
+            }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+
+        return report;
+    }
+
+    /**
+     * Load the people of a project with their events, documents, relationships and citations.
+     * Private persons, such as those who may still be alive, appear as "Living" placeholders, and the
+     * events, documents and citations they are part of are left out.
+     *
+     * @param {String} projectId - Project ID
+     * @returns {Promise<Object>} Records of the project
+     */
+    async _loadRecords(projectId) {
+        const projectPersons = (await projectRepository.getProjectPersons(projectId)).map(toPlain);
+        const personIds = projectPersons.map(person => person.person_id);
+        const privateIds = getPrivatePersonIds(projectPersons);
+        const persons = redactPersons(projectPersons, privateIds);
+
+        const relationships = personIds.length > 0
+            ? (await relationshipRepository.findRelationshipsInvolvingPersons(personIds)).map(rel => redactRelationship(rel, privateIds))
+            : [];
+
+        const eventsByPerson = new Map();
+        const documentsByPerson = new Map();
+        const citations = new Map();
+
+        for (const personId of personIds) {
+            eventsByPerson.set(personId, (await eventRepository.findEventsByPersonId(personId)).map(toPlain));
+            documentsByPerson.set(personId, (await documentRepository.findDocumentsByPersonId(personId)).map(toPlain));
+
+            if (privateIds.has(personId)) continue;
+
+            (await sourceRepository.findCitationsForPerson(personId)).forEach(citation => {
+                citations.set(citation.citation_id, toPlain(citation));
+            });
+        }
+
+        if (privateIds.size > 0) {
+            const privateRecordIds = (recordsByPerson, idField) => new Set([...privateIds]
+                .flatMap(personId => recordsByPerson.get(personId).map(record => record[idField])));
+            const privateEventIds = privateRecordIds(eventsByPerson, 'event_id');
+            const privateDocumentIds = privateRecordIds(documentsByPerson, 'document_id');
+            const privateRelationshipIds = new Set(relationships
+                .filter(rel => privateIds.has(rel.person1_id) || privateIds.has(rel.person2_id))
+                .map(rel => rel.relationship_id));
+
+            eventsByPerson.forEach((events, personId) => {
+                eventsByPerson.set(personId, events.filter(event => !privateEventIds.has(event.event_id)));
+            });
+            documentsByPerson.forEach((documents, personId) => {
+                documentsByPerson.set(personId, documents.filter(document => !privateDocumentIds.has(document.document_id)));
+            });
+            citations.forEach((citation, citationId) => {
+                if ((citation.entity_type === 'event' && privateEventIds.has(citation.entity_id))
+                    || (citation.entity_type === 'relationship' && privateRelationshipIds.has(citation.entity_id))) {
+                    citations.delete(citationId);
+                }
+            });
+        }
+
+        return {
+            persons,
+            relationships,
+            eventsByPerson,
+            documentsByPerson,
+            citations: Array.from(citations.values()),
+            thumbnails: this._loadThumbnails(documentsByPerson)
+        };
+    }
+
+    /**
+     * Read the image files of the documents linked to people, within the report's size limits
+     *
+     * @param {Map} documentsByPerson - Documents keyed by person ID
+     * @returns {Map} Image data ({ mimeType, data }) keyed by document ID
+     */
+    _loadThumbnails(documentsByPerson) {
+        const thumbnails = new Map();
+        let totalBytes = 0;
+
+        documentsByPerson.forEach(documents => documents.forEach(document => {
+            if (thumbnails.has(document.document_id) || !THUMBNAIL_MIME_TYPES.includes(document.mime_type)) return;
+
+            const filePath = resolveUploadPath(document.file_path);
+            if (!filePath) return;
+
+            try {
+                const { size } = fs.statSync(filePath);
+                if (size > MAX_THUMBNAIL_BYTES || totalBytes + size > MAX_TOTAL_THUMBNAIL_BYTES) return;
+
+                thumbnails.set(document.document_id, { mimeType: document.mime_type, data: fs.readFileSync(filePath) });
+                totalBytes += size;
+            } catch (error) {
+                // A missing file only costs the report its thumbnail
+                console.error(`Report thumbnail for document ${document.document_id} unavailable:`, error.message);
+            }
+        }));
+
+        return thumbnails;
+    }
+
+    /**
+     * Index the family links between the people of a project
+     *
+     * @param {Object} records - Records from _loadRecords
+     * @returns {Object} persons, parents(id), children(id) and spouses(id) lookups
+     */
+    _buildFamily({ persons, relationships }) {
+        const personsById = new Map(persons.map(person => [person.person_id, person]));
+        const parents = new Map();
+        const children = new Map();
+        const spouses = new Map();
+
+        const link = (map, from, to, value) => {
+            if (!map.has(from)) map.set(from, new Map());
+            if (!map.get(from).has(to)) map.get(from).set(to, value);
+        };
+
+        relationships.forEach(rel => {
+            if (!personsById.has(rel.person1_id) || !personsById.has(rel.person2_id)) return;
+
+            if (rel.relationship_type === 'parent' || rel.relationship_type === 'child') {
+                const [parentId, childId] = rel.relationship_type === 'parent'
+                    ? [rel.person1_id, rel.person2_id]
+                    : [rel.person2_id, rel.person1_id];
+                link(parents, childId, parentId, rel);
+                link(children, parentId, childId, rel);
+            } else if (rel.relationship_type === 'spouse') {
+                link(spouses, rel.person1_id, rel.person2_id, rel);
+                link(spouses, rel.person2_id, rel.person1_id, rel);
+            }
+        });
+
+        const byBirth = (a, b) => dateKey(personsById.get(a).birth_date).localeCompare(dateKey(personsById.get(b).birth_date));
+
+        return {
+            persons: personsById,
+            parents: (personId) => Array.from((parents.get(personId) || new Map()).keys()),
+            children: (personId) => Array.from((children.get(personId) || new Map()).keys()).sort(byBirth),
+            spouses: (personId) => Array.from((spouses.get(personId) || new Map()).entries())
+                .map(([spouseId, relationship]) => ({ spouseId, relationship }))
+                .sort((a, b) => dateKey(a.relationship.start_date).localeCompare(dateKey(b.relationship.start_date)))
+        };
+    }
+
+    /**
+     * Split a person's parents into father and mother by gender, filling unknowns into the free place
+     *
+     * @param {Object} family - Family from _buildFamily
+     * @param {String} personId - Person ID
+     * @returns {Array} [fatherId, motherId], either possibly null
+     */
+    _fatherAndMother(family, personId) {
+        const result = [null, null];
+        const parentIds = family.parents(personId);
+
+        parentIds.forEach(parentId => {
+            const gender = family.persons.get(parentId).gender;
+            if (gender === 'male' && !result[0]) result[0] = parentId;
+            else if (gender === 'female' && !result[1]) result[1] = parentId;
+        });
+        parentIds.filter(parentId => !result.includes(parentId)).forEach(parentId => {
+            const free = result.indexOf(null);
+            if (free !== -1) result[free] = parentId;
+        });
+
+        return result;
+    }
+
+    /**
+     * Default pedigree subject: the person with the most known ancestors, the youngest on a tie
+     *
+     * @param {Object} family - Family from _buildFamily
+     * @returns {String|null} Person ID
+     */
+    _pickPedigreeSubject(family) {
+        const countAncestors = (personId, depth) => (depth >= PEDIGREE_GENERATIONS ? 0 : family.parents(personId)
+            .reduce((total, parentId) => total + 1 + countAncestors(parentId, depth + 1), 0));
+
+        let best = null;
+        family.persons.forEach((person, personId) => {
+            const score = countAncestors(personId, 1);
+            if (!best || score > best.score ||
+                (score === best.score && dateKey(person.birth_date) !== '9999' && dateKey(person.birth_date) > dateKey(family.persons.get(best.personId).birth_date))) {
+                best = { personId, score };
+            }
+        });
+
+        return best ? best.personId : null;
+    }
+
+    /**
+     * Default progenitor: the person without parents in the project who has the most descendants,
+     * the earliest born on a tie
+     *
+     * @param {Object} family - Family from _buildFamily
+     * @param {Number} generations - Generations the report covers
+     * @returns {String|null} Person ID
+     */
+    _pickProgenitor(family, generations) {
+        const countDescendants = (personId, depth, seen) => family.children(personId).reduce((total, childId) => {
+            if (seen.has(childId) || depth >= generations) return total;
+            seen.add(childId);
+            return total + 1 + countDescendants(childId, depth + 1, seen);
+        }, 0);
+
+        let best = null;
+        family.persons.forEach((person, personId) => {
+            if (family.parents(personId).length > 0) return;
+
+            const score = countDescendants(personId, 1, new Set());
+            if (!best || score > best.score ||
+                (score === best.score && dateKey(person.birth_date) < dateKey(family.persons.get(best.personId).birth_date))) {
+                best = { personId, score };
+            }
+        });
+
+        return best && best.score > 0 ? best.personId : null;
+    }
+
+    /**
+     * Lay out the subject's ancestors in Ahnentafel order: 1 is the subject, 2n the father and 2n+1 the mother of n
+     *
+     * @param {Object} family - Family from _buildFamily
+     * @param {String} subjectId - Subject's person ID
+     * @param {Object} builder - Entry builder from _createBuilder
+     * @returns {Object} Subject name and the slots 1 to 15 (index 0 is slot 1), empty slots null
+     */
+    _buildPedigree(family, subjectId, builder) {
+        const slots = new Array(2 ** PEDIGREE_GENERATIONS - 1).fill(null);
+        const place = (personId, number) => {
+            if (!personId || number > slots.length) return;
+
+            const person = family.persons.get(personId);
+            slots[number - 1] = {
+                number,
+                personId,
+                name: builder.fullName(personId),
+                birth: builder.briefVital(person, 'birth'),
+                death: builder.briefVital(person, 'death')
+            };
+
+            const [fatherId, motherId] = this._fatherAndMother(family, personId);
+            place(fatherId, number * 2);
+            place(motherId, number * 2 + 1);
+        };
+
+        place(subjectId, 1);
+
+        return { subject: builder.fullName(subjectId), generations: PEDIGREE_GENERATIONS, slots };
+    }
+
+    /**
+     * Create the helpers that turn records into report text.
+     * Text is a list of segments: { text, style } for words, { sup } for generation superscripts and
+     * { note } for source note references, numbered in the order they first appear.
+     *
+     * @param {Object} family - Family from _buildFamily
+     * @param {Object} records - Records from _loadRecords
+     * @returns {Object} Builder with its notes, anchors and index labels
+     */
+    _createBuilder(family, records) {
+        const service = this;
+        const notes = [];
+        const noteNumbers = new Map();
+        const anchors = new Map();
+        const labels = new Map();
+
+        const citationsByEntity = new Map();
+        records.citations.forEach(citation => {
+            const key = `${citation.entity_type}:${citation.entity_id}`;
+            citationsByEntity.set(key, [...(citationsByEntity.get(key) || []), citation]);
+        });
+
+        const addLabel = (personId, label) => {
+            const existing = labels.get(personId) || [];
+            if (!existing.includes(label)) labels.set(personId, [...existing, label]);
+        };
+
+        const builder = {
+            notes,
+            anchors,
+            labels,
+
+            person: (personId) => family.persons.get(personId),
+
+            fullName(personId) {
+                const person = family.persons.get(personId);
+                return [person.first_name, person.middle_name, person.last_name].filter(Boolean).join(' ');
+            },
+
+            sortName(personId) {
+                const person = family.persons.get(personId);
+                const given = [person.first_name, person.middle_name].filter(Boolean).join(' ');
+                const maiden = person.maiden_name && person.maiden_name !== person.last_name ? ` (${person.maiden_name})` : '';
+                // "Living" placeholders have no surname to sort by
+                return person.last_name ? `${person.last_name}, ${given}${maiden}` : given;
+            },
+
+            /**
+             * Year of a date for lifespans, marked when it is not exact
+             */
+            shortYear(value, detail) {
+                const bounds = getDateBounds(value, detail || null);
+                if (!bounds) return null;
+
+                if (detail && detail.start) {
+                    const startYear = detail.start.slice(0, 4).replace(/^0+/, '');
+                    const endYear = (detail.end || detail.start).slice(0, 4).replace(/^0+/, '');
+                    switch (detail.qualifier) {
+                        case 'about':
+                        case 'estimated':
+                        case 'calculated':
+                            return `abt. ${startYear}`;
+                        case 'before': return `bef. ${startYear}`;
+                        case 'after': return `aft. ${startYear}`;
+                        case 'between': return startYear === endYear ? startYear : `${startYear}/${endYear}`;
+                        default: return startYear;
+                    }
+                }
+
+                return String(new Date(value).getUTCFullYear());
+            },
+
+            lifespan(personId) {
+                const person = family.persons.get(personId);
+                const birth = this.shortYear(person.birth_date, person.birth_date_detail);
+                const death = this.shortYear(person.death_date, person.death_date_detail);
+
+                if (birth && death) return `${birth}–${death}`;
+                if (birth) return `b. ${birth}`;
+                if (death) return `d. ${death}`;
+                return '';
+            },
+
+            briefVital(person, type) {
+                const year = this.shortYear(person[`${type}_date`], person[`${type}_date_detail`]);
+                const location = person[`${type}_location`];
+                const text = [year, location].filter(Boolean).join(', ');
+                return text ? `${type === 'birth' ? 'b.' : 'd.'} ${text}` : null;
+            },
+
+            /**
+             * Note references for the citations of a record, optionally limited to some of its facts
+             */
+            noteRefs(entityType, entityId, fieldNames = null) {
+                return (citationsByEntity.get(`${entityType}:${entityId}`) || [])
+                    .filter(citation => !fieldNames || fieldNames.includes(citation.field_name || null))
+                    .map(citation => {
+                        if (!noteNumbers.has(citation.citation_id)) {
+                            notes.push({ number: notes.length + 1, text: service.formatCitation(citation) });
+                            noteNumbers.set(citation.citation_id, notes.length);
+                        }
+                        return { note: noteNumbers.get(citation.citation_id) };
+                    });
+            },
+
+            pronoun(personId) {
+                const person = family.persons.get(personId);
+                if (person.gender === 'male') return 'he';
+                if (person.gender === 'female') return 'she';
+                return null;
+            },
+
+            /**
+             * Subject for a follow-up sentence: a pronoun when the gender is known, the first name otherwise
+             */
+            subject(personId) {
+                return this.pronoun(personId) || family.persons.get(personId).first_name;
+            },
+
+            /**
+             * The person's vital facts as one sentence, e.g. "John Smith was born on 1 May 1850 in Boston and died in 1920."
+             */
+            vitalSentence(personId, nameSegments) {
+                const person = family.persons.get(personId);
+                const events = records.eventsByPerson.get(personId) || [];
+                const segments = [...nameSegments, ...this.noteRefs('person', personId, [null, 'first_name', 'middle_name', 'last_name', 'maiden_name', 'gender'])];
+                const clauses = [];
+
+                ['birth', 'death'].forEach(type => {
+                    const event = events.find(item => item.event_type === type);
+                    const value = person[`${type}_date`] || (event && event.event_date);
+                    const detail = person[`${type}_date`] ? person[`${type}_date_detail`] : event && event.event_date_detail;
+                    const location = person[`${type}_location`] || (event && event.event_location);
+                    const date = describeGenealogicalDate(value, detail);
+
+                    if (!date && !location) return;
+
+                    clauses.push([
+                        { text: [EVENT_PHRASES[type][0], date, location ? `in ${location}` : null].filter(Boolean).join(' ') },
+                        ...this.noteRefs('person', personId, [`${type}_date`, `${type}_location`]),
+                        ...(event ? this.noteRefs('event', event.event_id) : [])
+                    ]);
+                });
+
+                if (clauses.length === 0) {
+                    return null;
+                }
+
+                segments.push({ text: ' ' });
+                clauses.forEach((clause, index) => {
+                    if (index > 0) segments.push({ text: ' and ' });
+                    segments.push(...clause);
+                });
+                segments.push({ text: '.' });
+
+                return segments;
+            },
+
+            parentsSentence(personId) {
+                const parentIds = service._fatherAndMother(family, personId).filter(Boolean);
+                if (parentIds.length === 0) return null;
+
+                const person = family.persons.get(personId);
+                const relation = { male: 'son', female: 'daughter' }[person.gender] || 'child';
+                const subject = capitalize(this.subject(personId));
+
+                return [{ text: `${subject} was the ${relation} of ${parentIds.map(id => this.fullName(id)).join(' and ')}.` }];
+            },
+
+            marriageSentences(personId) {
+                const events = records.eventsByPerson.get(personId) || [];
+
+                return family.spouses(personId).map(({ spouseId, relationship }) => {
+                    const spouseEvents = records.eventsByPerson.get(spouseId) || [];
+                    const marriage = events.find(event => event.event_type === 'marriage' &&
+                        spouseEvents.some(other => other.event_id === event.event_id));
+                    const date = describeGenealogicalDate(relationship.start_date, relationship.start_date_detail) ||
+                        (marriage && describeGenealogicalDate(marriage.event_date, marriage.event_date_detail));
+                    const location = marriage && marriage.event_location;
+
+                    const segments = [
+                        { text: [capitalize(this.subject(personId)), 'married', this.fullName(spouseId), date, location ? `in ${location}` : null].filter(Boolean).join(' ') },
+                        ...this.noteRefs('relationship', relationship.relationship_id),
+                        ...(marriage ? this.noteRefs('event', marriage.event_id) : []),
+                        { text: '.' }
+                    ];
+
+                    const ended = describeGenealogicalDate(relationship.end_date, relationship.end_date_detail);
+                    if (ended) {
+                        segments.push({ text: ` The marriage ended ${ended}.` });
+                    }
+
+                    return { spouseId, segments, marriageEventId: marriage ? marriage.event_id : null };
+                });
+            },
+
+            eventSentences(personId, skipEventIds = []) {
+                const events = (records.eventsByPerson.get(personId) || [])
+                    .filter(event => !['birth', 'death'].includes(event.event_type) && !skipEventIds.includes(event.event_id))
+                    .sort((a, b) => dateKey(a.event_date).localeCompare(dateKey(b.event_date)));
+
+                return events.map(event => {
+                    const [verb, preposition] = EVENT_PHRASES[event.event_type] || EVENT_PHRASES.other;
+                    const date = describeGenealogicalDate(event.event_date, event.event_date_detail);
+                    const clause = [this.subject(personId), verb, event.event_location ? `${preposition} ${event.event_location}` : null]
+                        .filter(Boolean).join(' ');
+                    const description = event.description ? ` ${event.description.trim().replace(/([^.!?])$/, '$1.')}` : '';
+
+                    return [
+                        { text: date ? `${capitalize(date)}, ${clause}` : capitalize(clause) },
+                        ...this.noteRefs('event', event.event_id),
+                        { text: `.${description}` }
+                    ];
+                });
+            },
+
+            documents(personId) {
+                return (records.documentsByPerson.get(personId) || []).map(document => ({
+                    documentId: document.document_id,
+                    title: document.title,
+                    type: DOCUMENT_TYPE_LABELS[document.document_type] || 'Document',
+                    date: document.date_of_original ? describeGenealogicalDate(document.date_of_original) : null,
+                    description: document.description || null,
+                    image: records.thumbnails.get(document.document_id) || null
+                }));
+            },
+
+            /**
+             * Biography paragraphs of a person: vitals, parents, marriages, events and notes
+             */
+            biography(personId, nameSegments, { includeParents = true, includeMarriages = true } = {}) {
+                const person = family.persons.get(personId);
+                const paragraphs = [];
+                const opening = this.vitalSentence(personId, nameSegments) || [...nameSegments, { text: '.' }];
+
+                const main = [...opening];
+                if (includeParents) {
+                    const parents = this.parentsSentence(personId);
+                    if (parents) main.push({ text: ' ' }, ...parents);
+                }
+
+                const marriages = includeMarriages ? this.marriageSentences(personId) : [];
+                marriages.forEach(marriage => main.push({ text: ' ' }, ...marriage.segments));
+
+                this.eventSentences(personId, marriages.map(marriage => marriage.marriageEventId).filter(Boolean))
+                    .forEach(sentence => main.push({ text: ' ' }, ...sentence));
+
+                paragraphs.push(main);
+
+                if (person.notes && person.notes.trim()) {
+                    person.notes.trim().split(/\n\s*\n/).forEach(text => paragraphs.push([{ text: text.trim(), style: 'italic' }]));
+                }
+
+                return paragraphs;
+            },
+
+            /**
+             * An unnumbered entry for someone outside the descendant lines
+             */
+            personEntry(personId) {
+                const anchor = `person-${personId}`;
+                anchors.set(personId, anchor);
+                addLabel(personId, this.fullName(personId));
+
+                return {
+                    personId,
+                    anchor,
+                    label: null,
+                    heading: [{ text: this.fullName(personId), style: 'bold' }],
+                    lifespan: this.lifespan(personId),
+                    paragraphs: this.biography(personId, [{ text: this.fullName(personId), style: 'bold' }]),
+                    spouses: [],
+                    childrenIntro: null,
+                    children: [],
+                    documents: this.documents(personId)
+                };
+            },
+
+            /**
+             * A numbered entry of the descendant report, with spouses and children
+             */
+            descendantEntry(entry, { numbering, lineage, numbers, covered }) {
+                const { personId, number, generation } = entry;
+                const person = family.persons.get(personId);
+                const givenNames = [person.first_name, person.middle_name].filter(Boolean).join(' ');
+                const anchor = `person-${personId}`;
+
+                covered.add(personId);
+                anchors.set(personId, anchor);
+                addLabel(personId, String(number));
+
+                // Name with its generation, followed by the given names of the ancestors back to the progenitor
+                const nameSegments = [
+                    { text: givenNames, style: 'bold' },
+                    { sup: String(generation) },
+                    { text: ` ${person.last_name}`, style: 'bold' }
+                ];
+                const heading = [...nameSegments];
+                if (lineage.length > 0) {
+                    heading.push({ text: ' (' });
+                    lineage.forEach((ancestor, index) => {
+                        if (index > 0) heading.push({ text: ', ' });
+                        heading.push({ text: family.persons.get(ancestor.personId).first_name }, { sup: String(ancestor.generation) });
+                    });
+                    heading.push({ text: ')' });
+                }
+
+                const spouses = family.spouses(personId).map(({ spouseId }) => {
+                    if (covered.has(spouseId) || numbers.has(spouseId)) return null;
+                    covered.add(spouseId);
+                    anchors.set(spouseId, `person-${spouseId}`);
+                    addLabel(spouseId, `spouse of ${number}`);
+
+                    return {
+                        personId: spouseId,
+                        anchor: `person-${spouseId}`,
+                        paragraphs: this.biography(spouseId, [{ text: this.fullName(spouseId), style: 'bold' }], { includeMarriages: false }),
+                        documents: this.documents(spouseId)
+                    };
+                }).filter(Boolean);
+
+                const coParents = new Set();
+                entry.children.forEach(child => family.parents(child.personId)
+                    .filter(parentId => parentId !== personId)
+                    .forEach(parentId => coParents.add(parentId)));
+                const sharedCoParent = coParents.size === 1 && entry.children.every(child =>
+                    family.parents(child.personId).includes(Array.from(coParents)[0]));
+
+                const children = entry.children.map(child => {
+                    const childName = this.fullName(child.personId);
+                    const otherParents = family.parents(child.personId).filter(parentId => parentId !== personId);
+                    const withParent = !sharedCoParent && otherParents.length > 0
+                        ? ` (with ${otherParents.map(id => this.fullName(id)).join(' and ')})`
+                        : '';
+                    const marker = numbering === 'ngsq' && child.continued ? '+' : '';
+                    const childNumber = child.number || numbers.get(child.personId) || null;
+
+                    if (child.continued || covered.has(child.personId)) {
+                        if (!child.continued) addLabel(child.personId, `child of ${number}`);
+                        const lifespan = this.lifespan(child.personId);
+                        return {
+                            personId: child.personId,
+                            marker,
+                            number: childNumber,
+                            roman: child.roman,
+                            anchor: null,
+                            paragraphs: [[
+                                { text: childName, style: 'bold' },
+                                { text: `${lifespan ? `, ${lifespan}` : ''}${withParent}.` }
+                            ]],
+                            documents: []
+                        };
+                    }
+
+                    // Children not carried forward are described in full in their parent's entry
+                    covered.add(child.personId);
+                    anchors.set(child.personId, `person-${child.personId}`);
+                    addLabel(child.personId, child.number ? String(child.number) : `child of ${number}`);
+
+                    const paragraphs = this.biography(child.personId, [{ text: childName, style: 'bold' }], { includeParents: false });
+                    if (withParent) paragraphs[0].splice(1, 0, { text: withParent });
+
+                    return {
+                        personId: child.personId,
+                        marker,
+                        number: child.number,
+                        roman: child.roman,
+                        anchor: `person-${child.personId}`,
+                        paragraphs,
+                        documents: this.documents(child.personId)
+                    };
+                });
+
+                const coParentNames = sharedCoParent ? ` and ${this.fullName(Array.from(coParents)[0])}` : '';
+
+                return {
+                    personId,
+                    anchor,
+                    label: String(number),
+                    heading,
+                    lifespan: this.lifespan(personId),
+                    paragraphs: this.biography(personId, nameSegments, { includeParents: lineage.length === 0 }),
+                    spouses,
+                    childrenIntro: children.length > 0 ? `Children of ${this.fullName(personId)}${coParentNames}:` : null,
+                    children,
+                    documents: this.documents(personId)
+                };
+            }
+        };
+
+        return builder;
+    }
+
+    /**
+     * Format a citation as a source note: author, title (publication); repository, call number, page
+     *
+     * @param {Object} citation - Citation with its source
+     * @returns {String} Note text
+     */
+    formatCitation(citation) {
+        const source = citation.source;
+        if (!source) {
+            return citation.page || 'Unknown source';
+        }
+
+        let reference = source.author ? `${source.author}, ${source.title}` : source.title;
+        if (source.publication_info) reference += ` (${source.publication_info})`;
+
+        const holding = [source.repository, source.call_number].filter(Boolean).join(', ');
+        if (holding) reference += `; ${holding}`;
+        if (citation.page) reference += `, ${citation.page}`;
+        if (source.url) reference += `; ${source.url}`;
+        if (citation.excerpt) reference += `. Excerpt: "${citation.excerpt.trim()}"`;
+
+        return reference.endsWith('.') ? reference : `${reference}.`;
+    }
+}
+
+module.exports = new ReportService();
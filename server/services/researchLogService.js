@@ -0,0 +1,303 @@
+const researchLogRepository = require('../repositories/researchLogRepository');
+const projectRepository = require('../repositories/projectRepository');
+const { ProjectPerson, ProjectUser, Document, User, Role } = require('../models');
+const ProjectUtils = require('../utils/projectUtils');
+const TransactionManager = require('../utils/transactionManager');
+const { Op } = require('sequelize');
+
+// Entry and task fields that may change after creation; the project is fixed
+const EDITABLE_ENTRY_FIELDS = ['title', 'objective', 'repositories_searched', 'result', 'findings', 'searched_on'];
+const EDITABLE_TASK_FIELDS = ['entry_id', 'title', 'notes', 'assignee_id', 'due_date', 'priority', 'status'];
+
+/**
+ * Research Log Service
+ * Handles business logic for the research log of projects and the tasks still to be done on them.
+ *
+ * A log entry records one search: what it set out to find, where the researcher looked, whether it
+ * turned anything up, and the persons and documents it concerned. Negative results are kept, so the
+ * same repositories are not searched twice. Tasks are the follow-up work, optionally raised from an entry.
+ */
+class ResearchLogService {
+    /**
+     * Get the research log of a project: its entries and tasks
+     *
+     * @param {String} projectId - Project ID
+     * @returns {Promise<Object>} { entries, tasks }
+     */
+    async getProjectResearchLog(projectId) {
+        const projectExists = await projectRepository.exists(projectId);
+        if (!projectExists) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        const entries = await researchLogRepository.findEntriesByProjectId(projectId);
+        const tasks = await researchLogRepository.findTasksByProjectId(projectId);
+
+        return { entries, tasks };
+    }
+
+    /**
+     * Get a log entry by ID
+     *
+     * @param {String} entryId - Entry ID
+     * @returns {Promise<Object>} Entry with its persons and documents
+     */
+    async getEntryById(entryId) {
+        return await researchLogRepository.findEntryById(entryId);
+    }
+
+    /**
+     * Record a search in the research log of a project
+     *
+     * @param {Object} entryData - Entry data, with person_ids and document_ids to link
+     * @param {String} userId - ID of the user recording the search
+     * @returns {Promise<Object>} Created entry with its persons and documents
+     */
+    async createEntry(entryData, userId) {
+        const { person_ids: personIds = [], document_ids: documentIds = [], ...data } = entryData;
+
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const projectExists = await projectRepository.exists(data.project_id, { transaction });
+            if (!projectExists) {
+                throw new Error(`Project with id ${data.project_id} not found`);
+            }
+
+            await this._checkEntryLinks(data.project_id, { personIds, documentIds }, transaction);
+
+            const entry = await researchLogRepository.create({
+                ...this._pick(data, EDITABLE_ENTRY_FIELDS),
+                project_id: data.project_id,
+                created_by: userId
+            }, { transaction });
+
+            await researchLogRepository.setEntryLinks(entry.entry_id, { personIds, documentIds }, { transaction });
+
+            return await researchLogRepository.findEntryById(entry.entry_id, { transaction });
+        });
+    }
+
+    /**
+     * Update a log entry and, when given, the persons and documents it is linked to
+     *
+     * @param {String} entryId - Entry ID
+     * @param {Object} entryData - Entry data to update
+     * @returns {Promise<Object>} Updated entry with its persons and documents
+     */
+    async updateEntry(entryId, entryData) {
+        const { person_ids: personIds, document_ids: documentIds, ...data } = entryData;
+
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const entry = await researchLogRepository.findById(entryId, { transaction });
+            if (!entry) {
+                throw new Error(`Research log entry with id ${entryId} not found`);
+            }
+
+            await this._checkEntryLinks(entry.project_id, { personIds, documentIds }, transaction);
+
+            await researchLogRepository.update(entryId, this._pick(data, EDITABLE_ENTRY_FIELDS), { transaction });
+            await researchLogRepository.setEntryLinks(entryId, { personIds, documentIds }, { transaction });
+
+            return await researchLogRepository.findEntryById(entryId, { transaction });
+        });
+    }
+
+    /**
+     * Delete a log entry; tasks raised from it are kept
+     *
+     * @param {String} entryId - Entry ID
+     * @returns {Promise<Boolean>} True if successful
+     */
+    async deleteEntry(entryId) {
+        const entry = await researchLogRepository.findById(entryId);
+        if (!entry) {
+            throw new Error(`Research log entry with id ${entryId} not found`);
+        }
+
+        return await researchLogRepository.delete(entryId);
+    }
+
+    /**
+     * Add a task to a project
+     *
+     * @param {Object} taskData - Task data
+     * @param {String} userId - ID of the user adding the task
+     * @returns {Promise<Object>} Created task with its assignee
+     */
+    async createTask(taskData, userId) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const projectExists = await projectRepository.exists(taskData.project_id, { transaction });
+            if (!projectExists) {
+                throw new Error(`Project with id ${taskData.project_id} not found`);
+            }
+
+            const data = this._pick(taskData, EDITABLE_TASK_FIELDS);
+            await this._checkTaskReferences(taskData.project_id, data, transaction);
+
+            const task = await researchLogRepository.createTask({
+                ...data,
+                project_id: taskData.project_id,
+                completed_at: data.status === 'done' ? new Date() : null,
+                created_by: userId
+            }, { transaction });
+
+            return await researchLogRepository.findTaskById(task.task_id, { transaction });
+        });
+    }
+
+    /**
+     * Update a task. Finishing a task records when it was done; reopening it clears that again.
+     *
+     * @param {String} taskId - Task ID
+     * @param {Object} taskData - Task data to update
+     * @returns {Promise<Object>} Updated task with its assignee
+     */
+    async updateTask(taskId, taskData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const task = await researchLogRepository.findTaskById(taskId, { transaction });
+            if (!task) {
+                throw new Error(`Research task with id ${taskId} not found`);
+            }
+
+            const updates = this._pick(taskData, EDITABLE_TASK_FIELDS);
+            await this._checkTaskReferences(task.project_id, updates, transaction);
+
+            if (updates.status && updates.status !== task.status) {
+                updates.completed_at = updates.status === 'done' ? new Date() : null;
+            }
+
+            await researchLogRepository.updateTask(taskId, updates, { transaction });
+
+            return await researchLogRepository.findTaskById(taskId, { transaction });
+        });
+    }
+
+    /**
+     * Delete a task
+     *
+     * @param {String} taskId - Task ID
+     * @returns {Promise<Boolean>} True if successful
+     */
+    async deleteTask(taskId) {
+        const task = await researchLogRepository.findTaskById(taskId);
+        if (!task) {
+            throw new Error(`Research task with id ${taskId} not found`);
+        }
+
+        return await researchLogRepository.deleteTask(taskId);
+    }
+
+    /**
+     * Get the unfinished tasks of active projects for the manager dashboard
+     *
+     * @returns {Promise<Array>} Tasks ({ id, description, priority, dueDate, status, projectId, projectTitle, assignee })
+     */
+    async getPendingTasks() {
+        const tasks = await researchLogRepository.findOpenTasks();
+
+        return tasks.map(task => ({
+            id: task.task_id,
+            description: task.title,
+            priority: task.priority,
+            dueDate: task.due_date,
+            status: task.status,
+            projectId: task.project_id,
+            projectTitle: task.project ? task.project.title : null,
+            assignee: task.assignee ? `${task.assignee.first_name} ${task.assignee.last_name}` : null
+        }));
+    }
+
+    /**
+     * Verify the persons and documents an entry is linked to belong to its project
+     *
+     * @private
+     * @param {String} projectId - Project ID
+     * @param {Object} links - { personIds, documentIds }; a list that is not given is not checked
+     * @param {Object} transaction - Transaction object
+     */
+    async _checkEntryLinks(projectId, { personIds, documentIds }, transaction) {
+        if (personIds && personIds.length > 0) {
+            const uniqueIds = [...new Set(personIds)];
+            const count = await ProjectPerson.count({
+                where: { project_id: projectId, person_id: uniqueIds },
+                transaction
+            });
+            if (count !== uniqueIds.length) {
+                throw new Error('Linked persons must belong to the project');
+            }
+        }
+
+        if (documentIds && documentIds.length > 0) {
+            const uniqueIds = [...new Set(documentIds)];
+            const count = await Document.count({
+                where: {
+                    [Op.and]: [
+                        { document_id: uniqueIds },
+                        { document_id: { [Op.in]: ProjectUtils.projectDocumentsSubquery([projectId]) } }
+                    ]
+                },
+                transaction
+            });
+            if (count !== uniqueIds.length) {
+                throw new Error('Linked documents must belong to the project');
+            }
+        }
+    }
+
+    /**
+     * Verify the entry a task follows up and the user it is assigned to.
+     * Tasks can be assigned to managers and to users with access to the project.
+     *
+     * @private
+     * @param {String} projectId - Project ID
+     * @param {Object} data - Task data
+     * @param {Object} transaction - Transaction object
+     */
+    async _checkTaskReferences(projectId, data, transaction) {
+        if (data.entry_id) {
+            const entry = await researchLogRepository.findById(data.entry_id, { transaction });
+            if (!entry || entry.project_id !== projectId) {
+                throw new Error(`Research log entry with id ${data.entry_id} not found`);
+            }
+        }
+
+        if (data.assignee_id) {
+            const assignee = await User.findByPk(data.assignee_id, {
+                attributes: ['user_id'],
+                include: [{ model: Role, attributes: ['name'], through: { attributes: [] } }],
+                transaction
+            });
+            if (!assignee) {
+                throw new Error(`User with id ${data.assignee_id} not found`);
+            }
+
+            const isManager = (assignee.Roles || []).some(role => role.name === 'manager');
+            const membership = isManager || await ProjectUser.findOne({
+                where: { project_id: projectId, user_id: data.assignee_id },
+                transaction
+            });
+            if (!membership) {
+                throw new Error('Tasks can only be assigned to managers and users with access to the project');
+            }
+        }
+    }
+
+    /**
+     * Copy the given fields of some data
+     *
+     * @private
+     * @param {Object} data - Data
+     * @param {Array<String>} fields - Fields to copy
+     * @returns {Object} The fields present in the data
+     */
+    _pick(data, fields) {
+        const picked = {};
+        fields.forEach(field => {
+            if (data[field] !== undefined) {
+                picked[field] = data[field];
+            }
+        });
+        return picked;
+    }
+}
+
+module.exports = new ResearchLogService();
@@ -0,0 +1,126 @@
+const searchRepository = require('../repositories/searchRepository');
+const personService = require('./personService');
+const ProjectUtils = require('../utils/projectUtils');
+
+// Kinds of record the search covers; notes are the research log entries of projects
+const SEARCH_ENTITY_TYPES = ['person', 'event', 'document', 'note'];
+
+// Words of the search text beyond these are ignored
+const MAX_TERMS = 8;
+
+/**
+ * Search Service
+ * Searches the records a user can reach across all their projects
+ */
+class SearchService {
+    /**
+     * Search persons, events, documents and research log entries by their text. Every word of the search
+     * text must appear in a record, as a word or the start of one.
+     *
+     * @param {String} text - Search text
+     * @param {Object} user - The authenticated user ({ user_id, roles })
+     * @param {Object} params - Search options
+     * @param {Array<String>} params.types - Entity types to return; all when empty
+     * @param {String} params.projectId - Only return records of this project
+     * @param {Number} params.page - Page number
+     * @param {Number} params.pageSize - Results per page
+     * @returns {Promise<Object>} { results, facets, metadata }: results
+     *   ({ entity_type, entity_id, title, date, project_ids, snippet, rank }) best match first,
+     *   facets ({ entity_types: [{ entity_type, count }], projects: [{ project_id, title, count }] })
+     */
+    async search(text, user, params = {}) {
+        const { types = [], projectId } = params;
+        const page = parseInt(params.page, 10) || 1;
+        const pageSize = parseInt(params.pageSize, 10) || 20;
+
+        const terms = this._terms(text);
+        // Clients only reach the records of their own projects
+        const projectIds = terms.length > 0 ? await ProjectUtils.getAccessibleProjectIds(user) : [];
+
+        if (terms.length === 0 || (projectIds && projectIds.length === 0)) {
+            return this._result([], [], [], types, page, pageSize);
+        }
+
+        // Clients do not find persons redacted for them, such as those who may still be alive, nor
+        // the events and documents about them
+        const hiddenPersonIds = projectIds
+            ? [...await personService.getRedactedPersonIds(user, await searchRepository.findLinkedPersonIds(terms, { projectIds }))]
+            : [];
+
+        const { rows, typeCounts, projectCounts } = await searchRepository.search(terms, {
+            projectIds,
+            hiddenPersonIds,
+            entityTypes: types,
+            projectId,
+            limit: pageSize,
+            offset: (page - 1) * pageSize
+        });
+
+        return this._result(rows, typeCounts, projectCounts, types, page, pageSize);
+    }
+
+    /**
+     * Split search text into lower-case words
+     *
+     * @private
+     */
+    _terms(text) {
+        return (String(text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).slice(0, MAX_TERMS);
+    }
+
+    /**
+     * @private
+     */
+    _result(rows, typeCounts, projectCounts, types, page, pageSize) {
+        const countOf = new Map(typeCounts.map(({ entity_type: entityType, count }) => [entityType, count]));
+        const totalCount = SEARCH_ENTITY_TYPES
+            .filter(type => types.length === 0 || types.includes(type))
+            .reduce((total, type) => total + (countOf.get(type) || 0), 0);
+
+        return {
+            results: rows.map(row => ({
+                entity_type: row.entity_type,
+                entity_id: row.entity_id,
+                title: this._title(row),
+                date: row.date,
+                project_ids: row.project_ids,
+                snippet: row.snippet,
+                rank: row.rank
+            })),
+            facets: {
+                entity_types: SEARCH_ENTITY_TYPES.map(type => ({ entity_type: type, count: countOf.get(type) || 0 })),
+                projects: projectCounts
+            },
+            metadata: {
+                totalCount,
+                totalPages: Math.ceil(totalCount / pageSize),
+                currentPage: page,
+                pageSize
+            }
+        };
+    }
+
+    /**
+     * Heading of a result: a person's name, an event's type and whose it is, a document's title
+     *
+     * @private
+     */
+    _title(row) {
+        switch (row.entity_type) {
+            case 'person':
+                return row.title || 'Unnamed person';
+            case 'event': {
+                const eventType = (row.title || 'event').replace(/_/g, ' ');
+                const label = eventType.charAt(0).toUpperCase() + eventType.slice(1);
+                return row.person_name ? `${label} of ${row.person_name}` : label;
+            }
+            case 'document':
+                return row.title || 'Untitled document';
+            default:
+                return row.title || 'Research log entry';
+        }
+    }
+}
+
+module.exports = new SearchService();
+module.exports.SEARCH_ENTITY_TYPES = SEARCH_ENTITY_TYPES;
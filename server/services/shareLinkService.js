@@ -0,0 +1,339 @@
+const crypto = require('crypto');
+const bcrypt = require('bcrypt');
+const shareLinkRepository = require('../repositories/shareLinkRepository');
+const projectRepository = require('../repositories/projectRepository');
+const personRepository = require('../repositories/personRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const { Document, Person } = require('../models');
+const ProjectUtils = require('../utils/projectUtils');
+const TransactionManager = require('../utils/transactionManager');
+const { getPrivatePersonIds, redactPerson } = require('../utils/privacy');
+const { Op } = require('sequelize');
+
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+// Links can be made to last up to a year
+const MAX_SHARE_DAYS = 365;
+
+const PERSON_FIELDS = ['person_id', 'first_name', 'middle_name', 'last_name', 'gender', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail'];
+const RELATIONSHIP_FIELDS = ['relationship_id', 'person1_id', 'person2_id', 'relationship_type', 'relationship_qualifier'];
+const RELATIONSHIP_DATE_FIELDS = ['start_date', 'start_date_detail', 'end_date', 'end_date_detail'];
+
+const toPlain = (item) => (item && typeof item.toJSON === 'function' ? item.toJSON() : item);
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const pick = (data, fields) => Object.fromEntries(fields.filter(field => field in data).map(field => [field, data[field]]));
+
+/**
+ * Share Link Service
+ * Handles business logic for read-only share links, which let people without an account look at a
+ * project's tree, timeline and chosen documents.
+ *
+ * The token in a link is only shown when the link is made; the database keeps its SHA-256 hash.
+ * Everything shown through a link is stripped down to what the shared view needs, and private persons,
+ * such as those who may still be alive, are replaced with placeholders along with their events and documents.
+ */
+class ShareLinkService {
+    /**
+     * Get the share links of a project
+     *
+     * @param {String} projectId - Project ID
+     * @returns {Promise<Array>} Share links, newest first
+     */
+    async getProjectShareLinks(projectId) {
+        const projectExists = await projectRepository.exists(projectId);
+        if (!projectExists) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        const links = await shareLinkRepository.findLinksByProjectId(projectId);
+        return links.map(link => this._describe(link));
+    }
+
+    /**
+     * Create a share link for a project
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} linkData - { label, expires_at, password, document_ids }
+     * @param {String} userId - ID of the user sharing the project
+     * @returns {Promise<Object>} The link, with the token and URL that are only returned this once
+     */
+    async createShareLink(projectId, linkData, userId) {
+        const { label, expires_at: expiresAt, password, document_ids: documentIds = [] } = linkData;
+
+        const expiry = new Date(expiresAt);
+        const latestExpiry = new Date(Date.now() + MAX_SHARE_DAYS * 24 * 60 * 60 * 1000);
+        if (Number.isNaN(expiry.getTime()) || expiry <= new Date()) {
+            throw new Error('Validation error: The expiry date must be in the future');
+        }
+        if (expiry > latestExpiry) {
+            throw new Error(`Validation error: Share links can last at most ${MAX_SHARE_DAYS} days`);
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+
+        const link = await TransactionManager.executeTransaction(async (transaction) => {
+            const projectExists = await projectRepository.exists(projectId, { transaction });
+            if (!projectExists) {
+                throw new Error(`Project with id ${projectId} not found`);
+            }
+
+            await this._checkDocuments(projectId, documentIds, transaction);
+
+            const created = await shareLinkRepository.create({
+                project_id: projectId,
+                token_hash: hashToken(token),
+                label,
+                password_hash: password ? await bcrypt.hash(password, 10) : null,
+                expires_at: expiry,
+                created_by: userId
+            }, { transaction });
+
+            await shareLinkRepository.setLinkDocuments(created.share_link_id, documentIds, { transaction });
+
+            return await shareLinkRepository.findLinkById(created.share_link_id, { transaction });
+        });
+
+        return {
+            ...this._describe(link),
+            token,
+            url: `${CLIENT_URL}/shared/${token}`
+        };
+    }
+
+    /**
+     * Revoke a share link; it stops working at once but stays listed. Users who can only view
+     * the project may revoke the links they made themselves.
+     *
+     * @param {String} projectId - Project ID
+     * @param {String} shareLinkId - Share link ID
+     * @param {Object} user - User revoking the link ({ user_id, roles })
+     * @returns {Promise<Object>} The revoked link
+     */
+    async revokeShareLink(projectId, shareLinkId, user) {
+        const link = await shareLinkRepository.findById(shareLinkId);
+        if (!link || link.project_id !== projectId) {
+            throw new Error(`Share link with id ${shareLinkId} not found`);
+        }
+
+        if (link.created_by !== user.user_id) {
+            const editableProjectIds = await ProjectUtils.getAccessibleProjectIds(user, 'edit');
+            if (editableProjectIds !== null && !editableProjectIds.includes(projectId)) {
+                throw new Error('You do not have access to revoke this share link');
+            }
+        }
+
+        if (!link.revoked_at) {
+            await shareLinkRepository.update(shareLinkId, { revoked_at: new Date() });
+        }
+
+        return this._describe(await shareLinkRepository.findLinkById(shareLinkId));
+    }
+
+    /**
+     * Open a share link: check it is still valid and its password, and count the visit.
+     * Unknown, expired and revoked links are all reported as not found.
+     *
+     * @param {String} token - Token from the link
+     * @param {String} [password] - Password given by the visitor
+     * @param {Object} [options] - Options
+     * @param {Boolean} [options.countVisit=true] - Count the visit, e.g. not for document downloads
+     * @returns {Promise<Object>} The link with its project
+     */
+    async openShareLink(token, password, options = {}) {
+        const { countVisit = true } = options;
+
+        const link = token ? await shareLinkRepository.findByTokenHash(hashToken(token)) : null;
+        if (!link || link.revoked_at || new Date(link.expires_at) <= new Date()) {
+            throw new Error('Share link not found or no longer valid');
+        }
+
+        if (link.password_hash) {
+            if (!password) {
+                throw new Error('Share link password required');
+            }
+            if (!(await link.validPassword(password))) {
+                throw new Error('Share link password is incorrect');
+            }
+        }
+
+        if (countVisit) {
+            await shareLinkRepository.recordAccess(link.share_link_id);
+        }
+
+        const project = await projectRepository.findById(link.project_id, { attributes: ['id', 'title'] });
+
+        return { ...this._describe(link), project: toPlain(project) };
+    }
+
+    /**
+     * Build the read-only view of a shared project
+     *
+     * @param {Object} link - Link returned by openShareLink
+     * @returns {Promise<Object>} { link, project, persons, relationships, timeline, documents }
+     */
+    async getSharedProject(link) {
+        const project = await projectRepository.findById(link.project_id, { attributes: ['id', 'title', 'description'] });
+        const projectPersons = await projectRepository.getProjectPersons(link.project_id, { sortBy: 'birth_date', sortOrder: 'asc' });
+        const personIds = projectPersons.map(person => person.person_id);
+        const persons = (await personRepository.findWithEvents(personIds)).map(toPlain);
+        const personsById = new Map(persons.map(person => [person.person_id, person]));
+        const privateIds = getPrivatePersonIds(persons);
+
+        const relationships = personIds.length > 0
+            ? (await relationshipRepository.findRelationshipsInvolvingPersons(personIds)).map(toPlain)
+                .filter(rel => personsById.has(rel.person1_id) && personsById.has(rel.person2_id))
+            : [];
+
+        return {
+            link: pick(link, ['label', 'expires_at']),
+            project: pick(toPlain(project), ['id', 'title', 'description']),
+            // Kept in the project's order, by birth date
+            persons: personIds.map(id => (privateIds.has(id)
+                ? redactPerson(personsById.get(id))
+                : { ...pick(personsById.get(id), PERSON_FIELDS), living: false })),
+            relationships: relationships.map(rel => ({
+                ...pick(rel, RELATIONSHIP_FIELDS),
+                ...(privateIds.has(rel.person1_id) || privateIds.has(rel.person2_id) ? {} : pick(rel, RELATIONSHIP_DATE_FIELDS))
+            })),
+            timeline: this._buildTimeline(persons, privateIds),
+            documents: (await this._findSharedDocuments(link, privateIds)).map(document => ({
+                id: document.document_id,
+                title: document.title,
+                type: document.document_type,
+                mime_type: document.mime_type,
+                date_of_original: document.date_of_original,
+                persons: document.persons.map(person => pick(person, ['person_id', 'first_name', 'last_name']))
+            }))
+        };
+    }
+
+    /**
+     * Get a document shown through a share link, e.g. to send its file
+     *
+     * @param {Object} link - Link returned by openShareLink
+     * @param {String} documentId - Document ID
+     * @returns {Promise<Object>} The document
+     */
+    async getSharedDocument(link, documentId) {
+        const persons = await projectRepository.getProjectPersons(link.project_id);
+        const privateIds = getPrivatePersonIds(persons);
+
+        const document = (await this._findSharedDocuments(link, privateIds)).find(item => item.document_id === documentId);
+        if (!document) {
+            throw new Error(`Document with id ${documentId} not found`);
+        }
+
+        return document;
+    }
+
+    /**
+     * Dated events of the persons who are not private, one entry for each person taking part, by date.
+     * Events a private person also took part in are left out, as are events of the project that
+     * are not tied to anyone, since nothing says who they concern.
+     *
+     * @private
+     * @param {Array} persons - Persons with their events
+     * @param {Set} privateIds - IDs of the private persons
+     * @returns {Array} Timeline entries
+     */
+    _buildTimeline(persons, privateIds) {
+        const eventsWithPrivate = new Set(persons
+            .filter(person => privateIds.has(person.person_id))
+            .flatMap(person => (person.events || []).map(event => event.event_id)));
+
+        return persons
+            .filter(person => !privateIds.has(person.person_id))
+            .flatMap(person => (person.events || [])
+                .filter(event => !eventsWithPrivate.has(event.event_id))
+                .map(event => ({
+                    id: `${event.event_id}-${person.person_id}`,
+                    event_id: event.event_id,
+                    event: event.event_type,
+                    date: event.event_date,
+                    description: event.description,
+                    event_location: event.event_location,
+                    person_id: person.person_id,
+                    person_name: [person.first_name, person.last_name].filter(Boolean).join(' '),
+                    associated_with: 'person',
+                    role: (event.person_events && event.person_events.role) || 'primary'
+                })))
+            .filter(entry => entry.date)
+            .sort((a, b) => new Date(a.date) - new Date(b.date));
+    }
+
+    /**
+     * Find the documents chosen for a link that are not about any private person
+     *
+     * @private
+     * @param {Object} link - Link with its documents
+     * @param {Set} privateIds - IDs of the private persons
+     * @returns {Promise<Array>} Documents with their persons
+     */
+    async _findSharedDocuments(link, privateIds) {
+        const documentIds = (link.documents || []).map(document => document.document_id);
+        if (documentIds.length === 0) return [];
+
+        const documents = await Document.findAll({
+            where: { document_id: documentIds },
+            include: [{
+                model: Person,
+                as: 'persons',
+                attributes: ['person_id', 'first_name', 'last_name'],
+                through: { attributes: [] }
+            }],
+            order: [['title', 'ASC']]
+        });
+
+        return documents.map(toPlain).filter(document => !document.persons.some(person => privateIds.has(person.person_id)));
+    }
+
+    /**
+     * Verify the documents chosen for a link belong to its project
+     *
+     * @private
+     * @param {String} projectId - Project ID
+     * @param {Array<String>} documentIds - Document IDs
+     * @param {Object} transaction - Transaction object
+     */
+    async _checkDocuments(projectId, documentIds, transaction) {
+        if (documentIds.length === 0) return;
+
+        const uniqueIds = [...new Set(documentIds)];
+        const count = await Document.count({
+            where: {
+                [Op.and]: [
+                    { document_id: uniqueIds },
+                    { document_id: { [Op.in]: ProjectUtils.projectDocumentsSubquery([projectId]) } }
+                ]
+            },
+            transaction
+        });
+        if (count !== uniqueIds.length) {
+            throw new Error('Validation error: Shared documents must belong to the project');
+        }
+    }
+
+    /**
+     * Describe a link without its token or password hashes
+     *
+     * @private
+     * @param {Object} link - Share link
+     * @returns {Object} The link with has_password and status (active, expired or revoked)
+     */
+    _describe(link) {
+        const { token_hash: tokenHash, password_hash: passwordHash, ...data } = toPlain(link);
+
+        let status = 'active';
+        if (data.revoked_at) {
+            status = 'revoked';
+        } else if (new Date(data.expires_at) <= new Date()) {
+            status = 'expired';
+        }
+
+        return { ...data, has_password: Boolean(passwordHash), status };
+    }
+}
+
+module.exports = new ShareLinkService();
@@ -0,0 +1,254 @@
+const sourceRepository = require('../repositories/sourceRepository');
+const personRepository = require('../repositories/personRepository');
+const eventRepository = require('../repositories/eventRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const documentRepository = require('../repositories/documentRepository');
+const projectRepository = require('../repositories/projectRepository');
+const TransactionManager = require('../utils/transactionManager');
+
+// Repositories holding each kind of record a citation can point at
+const citedRepositories = {
+    person: personRepository,
+    event: eventRepository,
+    relationship: relationshipRepository
+};
+
+// Citation fields that may change after the citation is created; the source and cited record are fixed
+const EDITABLE_CITATION_FIELDS = ['field_name', 'page', 'information_quality', 'evidence_type', 'confidence', 'excerpt', 'notes'];
+
+/**
+ * Source Service
+ * Handles business logic for Source entities and the citations linking them to persons, events and relationships
+ */
+class SourceService {
+    /**
+     * Get a source by ID with optional related data
+     *
+     * @param {String} id - Source ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Object>} Source with related data
+     */
+    async getSourceById(id, options = {}) {
+        return await sourceRepository.findSourceById(id, options);
+    }
+
+    /**
+     * Get sources by project ID
+     *
+     * @param {String} projectId - Project ID
+     * @param {Object} options - Query options
+     * @returns {Promise<Array>} Array of sources
+     */
+    async getSourcesByProjectId(projectId, options = {}) {
+        const projectExists = await projectRepository.exists(projectId);
+        if (!projectExists) {
+            throw new Error(`Project with id ${projectId} not found`);
+        }
+
+        const { sortBy, sortOrder } = options;
+
+        return await sourceRepository.findSourcesByProjectId(projectId, { sortBy, sortOrder });
+    }
+
+    /**
+     * Create a new source
+     *
+     * @param {Object} sourceData - Source data
+     * @returns {Promise<Object>} Created source
+     */
+    async createSource(sourceData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            await this._checkSourceReferences(sourceData, transaction);
+
+            return await sourceRepository.create(sourceData, { transaction });
+        });
+    }
+
+    /**
+     * Update a source
+     *
+     * @param {String} id - Source ID
+     * @param {Object} sourceData - Source data to update
+     * @returns {Promise<Object>} Updated source
+     */
+    async updateSource(id, sourceData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const source = await sourceRepository.findById(id, { transaction });
+            if (!source) {
+                throw new Error(`Source with id ${id} not found`);
+            }
+
+            await this._checkSourceReferences(sourceData, transaction);
+
+            return await sourceRepository.update(id, sourceData, { transaction });
+        });
+    }
+
+    /**
+     * Delete a source together with its citations
+     *
+     * @param {String} id - Source ID
+     * @returns {Promise<Boolean>} True if successful
+     */
+    async deleteSource(id) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const source = await sourceRepository.findSourceById(id, { includeCitations: true, transaction });
+            if (!source) {
+                throw new Error(`Source with id ${id} not found`);
+            }
+
+            for (const citation of source.citations || []) {
+                await sourceRepository.deleteCitation(citation.citation_id, { transaction });
+            }
+
+            return await sourceRepository.delete(id, { transaction });
+        });
+    }
+
+    /**
+     * Get a citation by ID
+     *
+     * @param {String} citationId - Citation ID
+     * @returns {Promise<Object>} Citation with its source
+     */
+    async getCitationById(citationId) {
+        return await sourceRepository.findCitationById(citationId);
+    }
+
+    /**
+     * Get the citations of one person, event or relationship
+     *
+     * @param {String} entityType - Cited entity type
+     * @param {String} entityId - Cited entity ID
+     * @returns {Promise<Array>} Array of citations with their sources
+     */
+    async getCitationsForEntity(entityType, entityId) {
+        await this._checkCitedEntity(entityType, entityId);
+
+        return await sourceRepository.findCitationsByEntity(entityType, entityId);
+    }
+
+    /**
+     * Get every citation supporting a person, including those on the person's events and relationships
+     *
+     * @param {String} personId - Person ID
+     * @returns {Promise<Array>} Array of citations with their sources
+     */
+    async getPersonCitations(personId) {
+        const person = await personRepository.findById(personId);
+        if (!person) {
+            throw new Error(`Person with id ${personId} not found`);
+        }
+
+        return await sourceRepository.findCitationsForPerson(personId);
+    }
+
+    /**
+     * Cite a source as evidence for a person, event or relationship (or one of its facts)
+     *
+     * @param {String} sourceId - Source ID
+     * @param {Object} citationData - Citation data (entity_type, entity_id, field_name, page, quality...)
+     * @returns {Promise<Object>} Created citation with its source
+     */
+    async addCitation(sourceId, citationData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const source = await sourceRepository.findById(sourceId, { transaction });
+            if (!source) {
+                throw new Error(`Source with id ${sourceId} not found`);
+            }
+
+            await this._checkCitedEntity(citationData.entity_type, citationData.entity_id, transaction);
+
+            const citation = await sourceRepository.createCitation({
+                ...citationData,
+                source_id: sourceId
+            }, { transaction });
+
+            return await sourceRepository.findCitationById(citation.citation_id, { transaction });
+        });
+    }
+
+    /**
+     * Update the details of a citation
+     *
+     * @param {String} citationId - Citation ID
+     * @param {Object} citationData - Citation data to update
+     * @returns {Promise<Object>} Updated citation with its source
+     */
+    async updateCitation(citationId, citationData) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const updates = {};
+            EDITABLE_CITATION_FIELDS.forEach(field => {
+                if (citationData[field] !== undefined) {
+                    updates[field] = citationData[field];
+                }
+            });
+
+            await sourceRepository.updateCitation(citationId, updates, { transaction });
+
+            return await sourceRepository.findCitationById(citationId, { transaction });
+        });
+    }
+
+    /**
+     * Remove a citation
+     *
+     * @param {String} citationId - Citation ID
+     * @returns {Promise<Boolean>} True if successful
+     */
+    async removeCitation(citationId) {
+        return await TransactionManager.executeTransaction(async (transaction) => {
+            const citation = await sourceRepository.findCitationById(citationId, { transaction });
+            if (!citation) {
+                throw new Error(`Citation with id ${citationId} not found`);
+            }
+
+            return await sourceRepository.deleteCitation(citationId, { transaction });
+        });
+    }
+
+    /**
+     * Verify the project and document a source refers to exist
+     *
+     * @private
+     * @param {Object} sourceData - Source data
+     * @param {Object} transaction - Transaction object
+     */
+    async _checkSourceReferences(sourceData, transaction) {
+        if (sourceData.project_id) {
+            const projectExists = await projectRepository.exists(sourceData.project_id, { transaction });
+            if (!projectExists) {
+                throw new Error(`Project with id ${sourceData.project_id} not found`);
+            }
+        }
+
+        if (sourceData.document_id) {
+            const document = await documentRepository.findById(sourceData.document_id, { transaction });
+            if (!document) {
+                throw new Error(`Document with id ${sourceData.document_id} not found`);
+            }
+        }
+    }
+
+    /**
+     * Verify the record a citation points at exists
+     *
+     * @private
+     * @param {String} entityType - Cited entity type
+     * @param {String} entityId - Cited entity ID
+     * @param {Object} transaction - Optional transaction object
+     */
+    async _checkCitedEntity(entityType, entityId, transaction = null) {
+        const repository = citedRepositories[entityType];
+        if (!repository) {
+            throw new Error(`Cannot cite a source for entity type '${entityType}'`);
+        }
+
+        const entity = await repository.findById(entityId, { transaction });
+        if (!entity) {
+            throw new Error(`${entityType.charAt(0).toUpperCase()}${entityType.slice(1)} with id ${entityId} not found`);
+        }
+    }
+}
+
+module.exports = new SourceService();
@@ -1,9 +1,34 @@
+const { Op } = require('sequelize');
 const { UserEvent } = require('../models');
+const mailService = require('./mailService');
+const realtimeService = require('./realtimeService');
+const ProjectUtils = require('../utils/projectUtils');
+const { LIVING_PLACEHOLDER, getPrivatePersonIds } = require('../utils/privacy');
+
+// Fields deciding whether a person named in a message is private
+const PRIVACY_FIELDS = ['person_id', 'birth_date', 'birth_date_detail', 'death_date', 'death_date_detail', 'privacy_override'];
+
+const fullName = (person) => `${person.first_name} ${person.last_name}`;
 
 /**
- * Service for creating and managing user events
+ * Service for creating and managing user events.
+ * Events users asked to hear about by email are also queued in the email outbox,
+ * and every event is pushed to the recipient's open browser sessions.
  */
 class UserEventService {
+    /**
+     * Queue the emails for newly created events.
+     * Email problems are logged and never fail the action that created the events.
+     * @param {Array<UserEvent>} events - The created user events
+     */
+    static async notifyByEmail(events) {
+        try {
+            await mailService.notifyUserEvents(events);
+        } catch (error) {
+            console.error('Error queueing user event emails:', error);
+        }
+    }
+
     /**
      * Create a new user event
      * @param {string} userId - The ID of the user receiving the notification
@@ -15,7 +40,7 @@ class UserEventService {
      * @returns {Promise<UserEvent>} The created user event
      */
     static async createEvent(userId, actorId, eventType, message, entityId = null, entityType = null) {
-        return await UserEvent.create({
+        const event = await UserEvent.create({
             user_id: userId,
             actor_id: actorId,
             event_type: eventType,
@@ -23,6 +48,10 @@ class UserEventService {
             entity_id: entityId,
             entity_type: entityType
         });
+
+        realtimeService.publishUserEvents([event]);
+        await UserEventService.notifyByEmail([event]);
+        return event;
     }
 
     /**
@@ -45,7 +74,10 @@ class UserEventService {
             entity_type: entityType
         }));
         
-        return await UserEvent.bulkCreate(events);
+        const createdEvents = await UserEvent.bulkCreate(events);
+        realtimeService.publishUserEvents(createdEvents);
+        await UserEventService.notifyByEmail(createdEvents);
+        return createdEvents;
     }
 
     /**
@@ -53,7 +85,9 @@ class UserEventService {
      * @param {string} projectId - The ID of the project
      * @param {string} actorId - The ID of the user performing the action
      * @param {string} eventType - The type of event
-     * @param {string} message - Human-readable description of the event
+     * @param {string|Function} message - Human-readable description of the event, or a function
+     *   building it from a name function (name => `Added ${name(person)}`). Each recipient's copy
+     *   names the persons redacted for them, such as those who may still be alive, as "Living".
      * @param {string} [entityId] - Optional ID of the related entity
      * @param {string} [entityType] - Optional type of the related entity
      * @returns {Promise<Array<UserEvent>>} The created user events
@@ -72,16 +106,20 @@ class UserEventService {
             userIdsToNotify.push(actorId);
         }
 
+        const messageFor = await UserEventService._messagesByRecipient(message, [...new Set(userIdsToNotify)]);
+
         // Create events for all unique users associated with the projects
+        const now = new Date();
         for (const userId of new Set(userIdsToNotify)) { // Use Set to ensure unique user IDs
             eventsToCreate.push({
                 user_id: userId,
                 actor_id: actorId,
                 event_type: eventType,
-                message,
+                message: messageFor(userId),
                 entity_id: entityId, // Now refers to the actual entity (person, document, etc.)
                 entity_type: entityType, // Now refers to the actual entity type
-                project_ids: projectIds // Store the array of relevant project IDs
+                project_ids: projectIds, // Store the array of relevant project IDs
+                read_at: userId === actorId ? now : null // The actor's own copy is a record of what they did, not news
             });
         }
 
@@ -89,7 +127,137 @@ class UserEventService {
             return [];
         }
 
-        return await UserEvent.bulkCreate(eventsToCreate);
+        const createdEvents = await UserEvent.bulkCreate(eventsToCreate);
+        realtimeService.publishUserEvents(createdEvents);
+        // Open project pages refresh the changed record whether or not the viewer gets a notification
+        realtimeService.publishEntityChange([...new Set(userIdsToNotify)], {
+            projectIds,
+            eventType,
+            entityId,
+            entityType,
+            actorId
+        });
+        await UserEventService.notifyByEmail(createdEvents);
+        return createdEvents;
+    }
+
+    /**
+     * Work out the message each recipient gets. Persons named in the message are shown as "Living"
+     * to recipients they are redacted for: private persons the recipient cannot edit.
+     * The name function takes the person and, optionally, the text to show instead of their name
+     * and the placeholder to show when they are redacted.
+     * @private
+     * @param {string|Function} message - Message, or a function building it from a name function
+     * @param {Array<string>} userIds - IDs of the recipients
+     * @returns {Promise<Function>} Function giving the message for a recipient ID
+     */
+    static async _messagesByRecipient(message, userIds) {
+        if (typeof message !== 'function') {
+            return () => message;
+        }
+
+        const named = new Map();
+        message(person => {
+            named.set(person.person_id, typeof person.toJSON === 'function' ? person.toJSON() : person);
+            return '';
+        });
+
+        // Persons already deleted are judged by the data the message was given
+        const { Person, User, Role } = require('../models');
+        const stored = named.size > 0
+            ? await Person.findAll({ where: { person_id: [...named.keys()] }, attributes: PRIVACY_FIELDS })
+            : [];
+        const storedIds = new Set(stored.map(person => person.person_id));
+        const privateIds = getPrivatePersonIds([...stored, ...[...named.values()].filter(person => !storedIds.has(person.person_id))]);
+
+        const build = (hidden) => message((person, text = fullName(person), placeholder = LIVING_PLACEHOLDER) =>
+            (hidden.has(person.person_id) ? placeholder : text));
+
+        if (privateIds.size === 0) {
+            const text = build(new Set());
+            return () => text;
+        }
+
+        const users = await User.findAll({
+            where: { user_id: userIds },
+            attributes: ['user_id'],
+            include: [{ model: Role, attributes: ['name'], through: { attributes: [] } }]
+        });
+
+        const messages = new Map();
+        for (const user of users) {
+            const roles = (user.Roles || []).map(role => role.name);
+            const unrestrictedIds = await ProjectUtils.getUnrestrictedPersonIds({ user_id: user.user_id, roles }, [...privateIds]);
+            messages.set(user.user_id, build(unrestrictedIds === null
+                ? new Set()
+                : new Set([...privateIds].filter(id => !unrestrictedIds.has(id)))));
+        }
+
+        // Users who could not be looked up get the redacted message
+        const redacted = build(privateIds);
+        return userId => messages.get(userId) || redacted;
+    }
+
+    /**
+     * Count a user's unread events that are still in their inbox
+     * @param {string} userId - The ID of the recipient
+     * @returns {Promise<number>} The number of unread events
+     */
+    static async getUnreadCount(userId) {
+        return UserEvent.count({
+            where: { user_id: userId, read_at: null, archived_at: null }
+        });
+    }
+
+    /**
+     * Mark a user's event read or unread, or move it in or out of their archive.
+     * Archiving an event also marks it read.
+     * @param {string} userId - The ID of the recipient
+     * @param {string} eventId - The ID of the event
+     * @param {Object} state - The state to set
+     * @param {boolean} [state.read] - Whether the event has been read
+     * @param {boolean} [state.archived] - Whether the event has been archived
+     * @returns {Promise<UserEvent|null>} The updated event, or null if the user did not receive it
+     */
+    static async updateEventState(userId, eventId, { read, archived }) {
+        const event = await UserEvent.findOne({
+            where: { id: eventId, user_id: userId }
+        });
+
+        if (!event) {
+            return null;
+        }
+
+        const now = new Date();
+        if (archived !== undefined) {
+            event.archived_at = archived ? (event.archived_at || now) : null;
+        }
+        if (read !== undefined) {
+            event.read_at = read ? (event.read_at || now) : null;
+        } else if (archived && !event.read_at) {
+            event.read_at = now;
+        }
+
+        await event.save();
+        realtimeService.publishToUsers([userId], 'notifications_changed', { id: event.id });
+        return event;
+    }
+
+    /**
+     * Mark all of a user's unread events read
+     * @param {string} userId - The ID of the recipient
+     * @param {Array<string>} [eventTypes] - Only mark events of these types
+     * @returns {Promise<number>} The number of events marked read
+     */
+    static async markAllRead(userId, eventTypes = []) {
+        const where = { user_id: userId, read_at: null };
+        if (eventTypes.length > 0) {
+            where.event_type = { [Op.in]: eventTypes };
+        }
+
+        const [updated] = await UserEvent.update({ read_at: new Date() }, { where });
+        realtimeService.publishToUsers([userId], 'notifications_changed', { updated });
+        return updated;
     }
 }
 
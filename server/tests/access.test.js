@@ -0,0 +1,258 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const {
+    Person, ProjectUser, ProjectPerson, ProjectEvent, PersonEvent, Document, DocumentPerson, Relationship, Source, Citation
+} = require('../models');
+const personService = require('../services/personService');
+const documentService = require('../services/documentService');
+const relationshipService = require('../services/relationshipService');
+const sourceService = require('../services/sourceService');
+const eventService = require('../services/eventService');
+const ProjectUtils = require('../utils/projectUtils');
+
+// The client can view project A, edit project B and has no access to project C
+const PROJECT_A = '0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d';
+const PROJECT_B = '1b2c3d4e-5f6a-4b7c-9d8e-9f0a1b2c3d4e';
+const PROJECT_C = '2c3d4e5f-6a7b-4c8d-8e9f-0a1b2c3d4e5f';
+
+const CLIENT_ID = '3d4e5f6a-7b8c-4d9e-9f0a-1b2c3d4e5f6a';
+const MANAGER_ID = '4e5f6a7b-8c9d-4e0f-8a1b-2c3d4e5f6a7b';
+
+const PERSON_A = '5f6a7b8c-9d0e-4f1a-9b2c-3d4e5f6a7b8c';
+const PERSON_B = '6a7b8c9d-0e1f-4a2b-8c3d-4e5f6a7b8c9d';
+const PERSON_C = '7b8c9d0e-1f2a-4b3c-9d4e-5f6a7b8c9d0e';
+const PERSON_UNLINKED = '8c9d0e1f-2a3b-4c4d-8e5f-6a7b8c9d0e1f';
+
+const EVENT_B = '0e1f2a3b-4c5d-4e6f-8a7b-9c0d1e2f3a4b';
+const EVENT_C = '9d0e1f2a-3b4c-4d5e-9f6a-7b8c9d0e1f2a';
+const EVENT_SHARED = 'a0e1f2a3-b4c5-4e6f-8a7b-8c9d0e1f2a3b';
+const DOCUMENT_B = 'b1f2a3b4-c5d6-4f7a-9b8c-9d0e1f2a3b4c';
+const DOCUMENT_C = 'c2a3b4c5-d6e7-4a8b-8c9d-0e1f2a3b4c5d';
+const RELATIONSHIP_B = '1f2a3b4c-5d6e-4f7a-9b8c-0d1e2f3a4b5c';
+const RELATIONSHIP_C = 'd3b4c5d6-e7f8-4b9c-9d0e-1f2a3b4c5d6e';
+const SOURCE_C = 'e4c5d6e7-f8a9-4c0d-8e1f-2a3b4c5d6e7f';
+const CITATION_C = 'f5d6e7f8-a9b0-4d1e-9f2a-3b4c5d6e7f8a';
+
+const PROJECT_USERS = [
+    { user_id: CLIENT_ID, project_id: PROJECT_A, access_level: 'view' },
+    { user_id: CLIENT_ID, project_id: PROJECT_B, access_level: 'edit' }
+];
+const PROJECT_PERSONS = [
+    { person_id: PERSON_A, project_id: PROJECT_A },
+    { person_id: PERSON_B, project_id: PROJECT_B },
+    { person_id: PERSON_C, project_id: PROJECT_C }
+];
+const PERSON_EVENTS = [
+    { event_id: EVENT_B, person_id: PERSON_B },
+    { event_id: EVENT_C, person_id: PERSON_C },
+    { event_id: EVENT_SHARED, person_id: PERSON_C }
+];
+const PROJECT_EVENTS = [
+    { event_id: EVENT_SHARED, project_id: PROJECT_A }
+];
+const DOCUMENTS = {
+    [DOCUMENT_B]: { project_id: null },
+    [DOCUMENT_C]: { project_id: PROJECT_C }
+};
+const DOCUMENT_PERSONS = [
+    { document_id: DOCUMENT_B, person_id: PERSON_B }
+];
+const RELATIONSHIPS = {
+    [RELATIONSHIP_B]: { person1_id: PERSON_B, person2_id: PERSON_UNLINKED },
+    [RELATIONSHIP_C]: { person1_id: PERSON_C, person2_id: PERSON_C }
+};
+const SOURCES = {
+    [SOURCE_C]: { project_id: PROJECT_C }
+};
+const CITATIONS = {
+    [CITATION_C]: { source_id: SOURCE_C }
+};
+
+const token = (userId, roles) => `Bearer ${jwt.sign({ user_id: userId, roles }, process.env.JWT_SECRET)}`;
+const CLIENT = token(CLIENT_ID, ['client']);
+const MANAGER = token(MANAGER_ID, ['manager']);
+
+// Filter junction rows by the attributes in a where clause
+const matching = (rows) => async ({ where }) => rows.filter(row =>
+    Object.entries(where).every(([key, value]) => row[key] === value));
+const byId = (records) => async (id) => records[id] || null;
+
+beforeEach(() => {
+    jest.spyOn(ProjectUser, 'findAll').mockImplementation(matching(PROJECT_USERS));
+    jest.spyOn(Person, 'findAll').mockResolvedValue([]);
+    jest.spyOn(ProjectPerson, 'findAll').mockImplementation(matching(PROJECT_PERSONS));
+    jest.spyOn(PersonEvent, 'findAll').mockImplementation(matching(PERSON_EVENTS));
+    jest.spyOn(ProjectEvent, 'findAll').mockImplementation(matching(PROJECT_EVENTS));
+    jest.spyOn(Document, 'findByPk').mockImplementation(byId(DOCUMENTS));
+    jest.spyOn(DocumentPerson, 'findAll').mockImplementation(matching(DOCUMENT_PERSONS));
+    jest.spyOn(Relationship, 'findByPk').mockImplementation(byId(RELATIONSHIPS));
+    jest.spyOn(Source, 'findByPk').mockImplementation(byId(SOURCES));
+    jest.spyOn(Citation, 'findByPk').mockImplementation(byId(CITATIONS));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Project Access Policy', () => {
+    it('should resolve events through their persons and projects', async () => {
+        expect(await ProjectUtils.getProjectIdsForEntity('event', EVENT_C)).toEqual([PROJECT_C]);
+        expect((await ProjectUtils.getProjectIdsForEntity('event', EVENT_SHARED)).sort())
+            .toEqual([PROJECT_A, PROJECT_C].sort());
+    });
+
+    it('should resolve documents through linked persons and citations through their source', async () => {
+        expect(await ProjectUtils.getProjectIdsForEntity('document', DOCUMENT_B)).toEqual([PROJECT_B]);
+        expect(await ProjectUtils.getProjectIdsForEntity('citation', CITATION_C)).toEqual([PROJECT_C]);
+    });
+
+    it('should limit clients to their projects and leave managers unrestricted', async () => {
+        const client = { user_id: CLIENT_ID, roles: ['client'] };
+
+        expect(await ProjectUtils.getAccessibleProjectIds(client)).toEqual([PROJECT_A, PROJECT_B]);
+        expect(await ProjectUtils.getAccessibleProjectIds(client, 'edit')).toEqual([PROJECT_B]);
+        expect(await ProjectUtils.getAccessibleProjectIds({ user_id: MANAGER_ID, roles: ['manager'] })).toBeNull();
+    });
+
+    it('should only grant access to unlinked records when asked to', async () => {
+        const client = { user_id: CLIENT_ID, roles: ['client'] };
+
+        expect(await ProjectUtils.canAccessEntity(client, 'person', PERSON_UNLINKED)).toBe(false);
+        expect(await ProjectUtils.canAccessEntity(client, 'person', PERSON_UNLINKED, 'view', { allowUnlinked: true })).toBe(true);
+    });
+});
+
+describe('Project-Scoped Routes', () => {
+    it('should let a client view a person in a project they can view', async () => {
+        jest.spyOn(personService, 'getPersonById').mockResolvedValue({ person_id: PERSON_A });
+
+        const res = await request(app).get(`/api/persons/${PERSON_A}`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.person_id).toBe(PERSON_A);
+    });
+
+    it('should deny a client a person outside their projects', async () => {
+        const getPerson = jest.spyOn(personService, 'getPersonById');
+
+        const res = await request(app).get(`/api/persons/${PERSON_C}`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(403);
+        expect(res.body.message).toBe('You do not have access to this person');
+        expect(getPerson).not.toHaveBeenCalled();
+    });
+
+    it('should deny edits in a project the client can only view', async () => {
+        const updatePerson = jest.spyOn(personService, 'updatePerson');
+
+        const res = await request(app)
+            .put(`/api/persons/${PERSON_A}`)
+            .set('Authorization', CLIENT)
+            .send({ first_name: 'Changed' });
+
+        expect(res.statusCode).toBe(403);
+        expect(res.body.message).toBe('You do not have edit access to this person');
+        expect(updatePerson).not.toHaveBeenCalled();
+    });
+
+    it('should let managers reach any person', async () => {
+        jest.spyOn(personService, 'getPersonById').mockResolvedValue({ person_id: PERSON_C });
+
+        const res = await request(app).get(`/api/persons/${PERSON_C}`).set('Authorization', MANAGER);
+
+        expect(res.statusCode).toBe(200);
+        expect(ProjectPerson.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should deny documents, events, relationships and sources of other projects', async () => {
+        const responses = await Promise.all([
+            request(app).put(`/api/documents/${DOCUMENT_C}`).set('Authorization', CLIENT).send({ title: 'Changed' }),
+            request(app).get(`/api/events/${EVENT_C}`).set('Authorization', CLIENT),
+            request(app).delete(`/api/relationships/${RELATIONSHIP_C}`).set('Authorization', CLIENT),
+            request(app).get(`/api/sources/${SOURCE_C}`).set('Authorization', CLIENT),
+            request(app).delete(`/api/sources/citations/${CITATION_C}`).set('Authorization', CLIENT)
+        ]);
+
+        expect(responses.map(res => res.statusCode)).toEqual([403, 403, 403, 403, 403]);
+    });
+
+    it('should deny relationship paths that reach into another project', async () => {
+        const findPath = jest.spyOn(relationshipService, 'findRelationshipPath').mockResolvedValue([]);
+
+        const denied = await request(app).get(`/api/relationships/path/${PERSON_A}/${PERSON_C}`).set('Authorization', CLIENT);
+        const allowed = await request(app).get(`/api/relationships/path/${PERSON_A}/${PERSON_B}`).set('Authorization', CLIENT);
+
+        expect(denied.statusCode).toBe(403);
+        expect(allowed.statusCode).toBe(200);
+        expect(findPath).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require edit access to both persons of a new relationship', async () => {
+        const res = await request(app)
+            .post('/api/relationships')
+            .set('Authorization', CLIENT)
+            .send({ person1_id: PERSON_B, person2_id: PERSON_A, relationship_type: 'parent' });
+
+        expect(res.statusCode).toBe(403);
+        expect(res.body.message).toBe('You do not have edit access to this person');
+    });
+
+    it('should require edit access to the persons an event or relationship is moved to', async () => {
+        const updateEvent = jest.spyOn(eventService, 'updateEvent');
+        const updateRelationship = jest.spyOn(relationshipService, 'updateRelationship');
+
+        const responses = await Promise.all([
+            request(app).put(`/api/events/${EVENT_B}`).set('Authorization', CLIENT).send({ person_id: PERSON_A }),
+            request(app).put(`/api/events/${EVENT_B}`).set('Authorization', CLIENT).send({ person_id: PERSON_C }),
+            request(app).put(`/api/relationships/${RELATIONSHIP_B}`).set('Authorization', CLIENT).send({ person1_id: PERSON_A }),
+            request(app).put(`/api/relationships/${RELATIONSHIP_B}`).set('Authorization', CLIENT).send({ person2_id: PERSON_C })
+        ]);
+
+        expect(responses.map(res => res.statusCode)).toEqual([403, 403, 403, 403]);
+        expect(responses.every(res => res.body.message === 'You do not have edit access to this person')).toBe(true);
+        expect(updateEvent).not.toHaveBeenCalled();
+        expect(updateRelationship).not.toHaveBeenCalled();
+    });
+
+    it('should deny the citations of a record outside the client\'s projects', async () => {
+        const res = await request(app)
+            .get('/api/sources/citations')
+            .query({ entityType: 'event', entityId: EVENT_C })
+            .set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(403);
+        expect(res.body.message).toBe('You do not have access to this event');
+    });
+
+    it('should allow citations to be listed for records in the client\'s projects', async () => {
+        jest.spyOn(sourceService, 'getCitationsForEntity').mockResolvedValue([]);
+
+        const res = await request(app)
+            .get('/api/sources/citations')
+            .query({ entityType: 'event', entityId: EVENT_SHARED })
+            .set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+    });
+
+    it('should limit document lists to the client\'s projects', async () => {
+        const getDocuments = jest.spyOn(documentService, 'getDocuments').mockResolvedValue({ documents: [] });
+
+        await request(app).get('/api/documents').query({ search: 'census' }).set('Authorization', CLIENT);
+        await request(app).get('/api/documents').set('Authorization', MANAGER);
+
+        expect(getDocuments).toHaveBeenNthCalledWith(1, expect.objectContaining({
+            search: 'census',
+            projectIds: [PROJECT_A, PROJECT_B]
+        }));
+        expect(getDocuments.mock.calls[1][0].projectIds).toBeUndefined();
+    });
+
+    it('should keep cross-project lookups for managers', async () => {
+        const res = await request(app).get('/api/events/type/birth').set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(403);
+    });
+});
@@ -0,0 +1,176 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const personRepository = require('../repositories/personRepository');
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const auditService = require('../services/auditService');
+const { registerRule, unregisterRule, getRules } = require('../utils/auditRules');
+
+const PROJECT_ID = 'c3d4e5f6-a7b8-4c9d-8e1f-2a3b4c5d6e7f';
+
+const person = (id, gender, birthDate, deathDate = null, events = []) => ({
+    person_id: id,
+    first_name: id,
+    last_name: 'Walsh',
+    gender,
+    birth_date: birthDate,
+    death_date: deathDate,
+    events
+});
+
+const event = (id, type, date, role = 'primary') => ({ event_id: id, event_type: type, event_date: date, person_events: { role } });
+
+const parentLink = (id, parentId, childId, qualifier = null) => ({
+    relationship_id: id,
+    person1_id: parentId,
+    person2_id: childId,
+    relationship_type: 'parent',
+    relationship_qualifier: qualifier
+});
+
+/*
+ * mary died before kate was born; kate has three biological parents;
+ * tom and ann are recorded as each other's parent; ann married at 12;
+ * john was at a census after he died and has his baptism recorded twice
+ */
+const PERSONS = [
+    person('mary', 'female', '1850-01-01', '1880-03-01'),
+    person('pat', 'male', '1848-01-01'),
+    person('sean', 'male', '1849-01-01'),
+    person('kate', 'female', '1881-06-01'),
+    person('tom', 'male', '1900-01-01'),
+    person('ann', 'female', '1902-01-01'),
+    person('john', 'male', '1860-01-01', '1900-01-01', [
+        event('e1', 'census', '1901-03-31'),
+        event('e2', 'religious', '1860-02-01'),
+        event('e3', 'religious', '1860-02-01'),
+        event('e4', 'census', '1911-04-02', 'witness')
+    ])
+];
+
+const RELATIONSHIPS = [
+    parentLink('r1', 'mary', 'kate'),
+    parentLink('r2', 'pat', 'kate', 'biological'),
+    parentLink('r3', 'sean', 'kate'),
+    parentLink('r4', 'tom', 'ann'),
+    { relationship_id: 'r5', person1_id: 'tom', person2_id: 'ann', relationship_type: 'child' },
+    { relationship_id: 'r6', person1_id: 'john', person2_id: 'ann', relationship_type: 'spouse', start_date: '1914-01-01' },
+    // kate's stepfather is not a fourth biological parent
+    parentLink('r7', 'john', 'kate', 'step')
+];
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Audit Rules', () => {
+    afterEach(() => {
+        unregisterRule('missing_birth');
+    });
+
+    it('should run rules registered after the built-in ones', async () => {
+        registerRule({
+            id: 'missing_birth',
+            title: 'Missing birth dates',
+            description: 'Persons without a birth date',
+            severity: 'warning',
+            check: (project) => Array.from(project.persons.values())
+                .filter(item => !item.birth_date)
+                .map(item => ({ message: `${project.name(item.person_id)} has no birth date`, person_id: item.person_id }))
+        });
+        jest.spyOn(projectRepository, 'exists').mockResolvedValue(true);
+        jest.spyOn(projectRepository, 'getProjectPersons').mockResolvedValue([{ person_id: 'liam' }]);
+        jest.spyOn(personRepository, 'findWithEvents').mockResolvedValue([person('liam', 'male', null)]);
+        jest.spyOn(relationshipRepository, 'findRelationshipsInvolvingPersons').mockResolvedValue([]);
+
+        const audit = await auditService.auditProject(PROJECT_ID, { rules: ['missing_birth'] });
+
+        expect(audit.issues).toEqual([expect.objectContaining({
+            rule: 'missing_birth',
+            severity: 'warning',
+            message: 'liam Walsh has no birth date',
+            person_id: 'liam',
+            person_name: 'liam Walsh'
+        })]);
+        expect(audit.rules.find(rule => rule.id === 'missing_birth').issue_count).toBe(1);
+    });
+
+    it('should refuse rules without a check or with an unknown severity', () => {
+        expect(() => registerRule({ id: 'missing_birth', severity: 'warning' })).toThrow('needs an id and a check function');
+        expect(() => registerRule({ id: 'missing_birth', severity: 'fatal', check: () => [] })).toThrow('Severity of rule missing_birth');
+        expect(() => registerRule({ id: 'implausible_age', severity: 'warning', check: () => [] })).toThrow('already registered');
+    });
+});
+
+describe('Audit Service', () => {
+    beforeEach(() => {
+        jest.spyOn(projectRepository, 'exists').mockResolvedValue(true);
+        jest.spyOn(projectRepository, 'getProjectPersons').mockResolvedValue(PERSONS.map(({ person_id }) => ({ person_id })));
+        jest.spyOn(personRepository, 'findWithEvents').mockResolvedValue(PERSONS);
+        jest.spyOn(relationshipRepository, 'findRelationshipsInvolvingPersons').mockResolvedValue(RELATIONSHIPS);
+    });
+
+    it('should check the whole project against every rule', async () => {
+        const audit = await auditService.auditProject(PROJECT_ID);
+        const found = (rule) => audit.issues.filter(issue => issue.rule === rule);
+
+        expect(found('born_after_parent_death')).toEqual([expect.objectContaining({
+            severity: 'error',
+            person_id: 'kate',
+            related_person_ids: ['mary'],
+            entity_type: 'relationship',
+            entity_id: 'r1'
+        })]);
+        expect(found('too_many_parents')).toEqual([expect.objectContaining({
+            person_id: 'kate',
+            related_person_ids: ['mary', 'pat', 'sean']
+        })]);
+        expect(found('ancestry_cycle')).toHaveLength(1);
+        expect(found('ancestry_cycle')[0].message).toMatch(/is recorded as their own ancestor/);
+        expect(found('marriage_dates').map(issue => issue.message)).toContainEqual(expect.stringMatching(/ann's age at marriage \(12 years\) is unusually young/));
+        expect(found('event_after_death')).toEqual([expect.objectContaining({ person_id: 'john', entity_type: 'event', entity_id: 'e1' })]);
+        expect(found('duplicate_events')).toEqual([expect.objectContaining({ person_id: 'john', entity_id: 'e3' })]);
+        // Errors come first
+        expect(audit.issues.findIndex(issue => issue.severity === 'warning'))
+            .toBeGreaterThan(audit.issues.map(issue => issue.severity).lastIndexOf('error'));
+    });
+
+    it('should only run the chosen rules and severity', async () => {
+        const audit = await auditService.auditProject(PROJECT_ID, { rules: ['too_many_parents', 'duplicate_events'], severity: 'error' });
+
+        expect(audit.issues.map(issue => issue.rule)).toEqual(['too_many_parents']);
+    });
+
+    it('should reject unknown rules', async () => {
+        await expect(auditService.auditProject(PROJECT_ID, { rules: ['spelling'] }))
+            .rejects.toThrow('Validation error: Unknown data quality rules: spelling');
+    });
+});
+
+describe('Audit API', () => {
+    it('should list the issues and the rules for managers', async () => {
+        const token = jwt.sign({ user_id: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d', roles: ['manager'] }, process.env.JWT_SECRET);
+        const auditProject = jest.spyOn(auditService, 'auditProject').mockResolvedValue({ rules: getRules(), issues: [], checked_at: new Date() });
+
+        const res = await request(app)
+            .get(`/api/projects/${PROJECT_ID}/audit`)
+            .query({ rules: 'ancestry_cycle, too_many_parents', severity: 'error' })
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(200);
+        expect(auditProject).toHaveBeenCalledWith(PROJECT_ID, { rules: ['ancestry_cycle', 'too_many_parents'], severity: 'error' });
+    });
+
+    it('should be for managers only', async () => {
+        const token = jwt.sign({ user_id: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d', roles: ['client'] }, process.env.JWT_SECRET);
+        const auditProject = jest.spyOn(auditService, 'auditProject');
+
+        const res = await request(app)
+            .get(`/api/projects/${PROJECT_ID}/audit`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(403);
+        expect(auditProject).not.toHaveBeenCalled();
+    });
+});
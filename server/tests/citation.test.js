@@ -0,0 +1,91 @@
+const { Source, Citation } = require('../models');
+
+const SOURCE_ID = '6f1c2a4e-8b0d-4c5e-9f3a-1b2c3d4e5f60';
+const PERSON_ID = '0a9b8c7d-6e5f-4a3b-8c1d-2e3f4a5b6c7d';
+
+describe('Source Model Validation', () => {
+    test('should require a title', async () => {
+        const source = Source.build({ author: 'Parish clerk' });
+
+        await expect(source.validate()).rejects.toThrow('Source title is required');
+    });
+
+    test('should validate classification', async () => {
+        const source = Source.build({
+            title: 'Baptism register, St Mary, 1840-1860',
+            classification: 'hearsay'
+        });
+
+        await expect(source.validate()).rejects.toThrow('Classification must be one of');
+    });
+
+    test('should normalize classification and trim descriptive fields', async () => {
+        const source = Source.build({
+            title: '  1851 Census of England and Wales  ',
+            repository: '  The National Archives  ',
+            classification: 'ORIGINAL',
+            url: ''
+        });
+
+        await source.validate();
+
+        expect(source.title).toBe('1851 Census of England and Wales');
+        expect(source.repository).toBe('The National Archives');
+        expect(source.classification).toBe('original');
+        expect(source.url).toBeNull();
+    });
+});
+
+describe('Citation Model Validation', () => {
+    test('should accept a citation of a specific fact', async () => {
+        const citation = Citation.build({
+            source_id: SOURCE_ID,
+            entity_type: 'Person',
+            entity_id: PERSON_ID,
+            field_name: 'birth_date',
+            page: ' folio 12, entry 48 ',
+            information_quality: 'PRIMARY',
+            evidence_type: 'direct',
+            confidence: 3
+        });
+
+        await expect(citation.validate()).resolves.toBeDefined();
+        expect(citation.entity_type).toBe('person');
+        expect(citation.information_quality).toBe('primary');
+        expect(citation.page).toBe('folio 12, entry 48');
+    });
+
+    test('should reject a field that does not belong to the cited record', async () => {
+        const citation = Citation.build({
+            source_id: SOURCE_ID,
+            entity_type: 'relationship',
+            entity_id: PERSON_ID,
+            field_name: 'birth_date'
+        });
+
+        await expect(citation.validate()).rejects.toThrow("Field 'birth_date' cannot be cited on a relationship");
+    });
+
+    test('should keep confidence within the GEDCOM quality scale', async () => {
+        const citation = Citation.build({
+            source_id: SOURCE_ID,
+            entity_type: 'event',
+            entity_id: PERSON_ID,
+            confidence: 4
+        });
+
+        await expect(citation.validate()).rejects.toThrow('Confidence must be between 0 and 3');
+    });
+
+    test('should validate evidence type and information quality', async () => {
+        const citation = Citation.build({
+            source_id: SOURCE_ID,
+            entity_type: 'person',
+            entity_id: PERSON_ID,
+            evidence_type: 'circumstantial',
+            information_quality: 'tertiary'
+        });
+
+        await expect(citation.validate()).rejects.toThrow();
+    });
+});
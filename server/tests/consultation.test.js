@@ -0,0 +1,194 @@
+const { Consultation, AvailabilitySlot } = require('../models');
+const consultationRepository = require('../repositories/consultationRepository');
+const consultationService = require('../services/consultationService');
+const { buildCalendar, escapeText, foldLine, formatICalDate } = require('../utils/icalendar');
+
+const CLIENT_ID = '3c1e5a7b-9d2f-4b6a-8c0e-1f2a3b4c5d6e';
+const RESEARCHER_ID = '7e6d5c4b-3a2f-4e1d-9c8b-7a6f5e4d3c2b';
+const PROJECT_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const CONSULTATION_ID = '0b1c2d3e-4f5a-4b6c-8d7e-9f0a1b2c3d4e';
+
+const HOUR = 60 * 60 * 1000;
+
+const consultation = (overrides = {}) => ({
+    consultation_id: CONSULTATION_ID,
+    project_id: PROJECT_ID,
+    client_id: CLIENT_ID,
+    researcher_id: RESEARCHER_ID,
+    starts_at: new Date(Date.UTC(2026, 0, 15, 14, 0, 0)),
+    ends_at: new Date(Date.UTC(2026, 0, 15, 15, 0, 0)),
+    status: 'scheduled',
+    topic: 'Next steps, Irish records',
+    notes: 'Bring the 1901 census copy',
+    sequence: 2,
+    project: { id: PROJECT_ID, title: 'Smith Family' },
+    client: { user_id: CLIENT_ID, first_name: 'Jane', last_name: 'Smith', email: 'jane@example.com' },
+    researcher: { user_id: RESEARCHER_ID, first_name: 'Mary', last_name: 'Jones', email: 'mary@example.com' },
+    ...overrides
+});
+
+describe('iCalendar Writer', () => {
+    test('should format UTC date-times', () => {
+        expect(formatICalDate('2026-01-15T14:05:09.123Z')).toBe('20260115T140509Z');
+    });
+
+    test('should escape text values', () => {
+        expect(escapeText('Census; 1901, Dublin\\Cork\nPage 2')).toBe('Census\\; 1901\\, Dublin\\\\Cork\\nPage 2');
+    });
+
+    test('should fold long lines without splitting characters', () => {
+        const folded = foldLine(`DESCRIPTION:${'é'.repeat(60)}`);
+        const lines = folded.split('\r\n');
+
+        expect(lines.length).toBeGreaterThan(1);
+        lines.forEach(line => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+        expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+        expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+    });
+
+    test('should describe a consultation as an event', () => {
+        const now = new Date(Date.UTC(2026, 0, 10, 9, 0, 0));
+        const calendar = buildCalendar([consultation()], { getUrl: () => 'http://localhost:5173/dashboard', now });
+        const lines = calendar.replace(/\r\n /g, '').split('\r\n');
+
+        expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(lines).toEqual(expect.arrayContaining([
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'METHOD:PUBLISH',
+            'BEGIN:VEVENT',
+            `UID:${CONSULTATION_ID}@consultations.ancestry-research`,
+            'DTSTAMP:20260110T090000Z',
+            'DTSTART:20260115T140000Z',
+            'DTEND:20260115T150000Z',
+            'SEQUENCE:2',
+            'STATUS:CONFIRMED',
+            'SUMMARY:Consultation: Next steps\\, Irish records',
+            'DESCRIPTION:Project: Smith Family\\nResearcher: Mary Jones\\n\\nBring the 1901 census copy',
+            'URL:http://localhost:5173/dashboard',
+            'ORGANIZER;CN="Mary Jones":mailto:mary@example.com',
+            'ATTENDEE;CN="Jane Smith";ROLE=REQ-PARTICIPANT:mailto:jane@example.com',
+            'END:VEVENT'
+        ]));
+    });
+
+    test('should mark canceled consultations and name feeds', () => {
+        const calendar = buildCalendar([consultation({ status: 'canceled', notes: null })], { name: 'My consultations' });
+
+        expect(calendar).toContain('X-WR-CALNAME:My consultations\r\n');
+        expect(calendar).toContain('STATUS:CANCELLED\r\n');
+        expect(calendar).not.toContain('URL:');
+    });
+});
+
+describe('Consultation Model Validation', () => {
+    test('should require a topic', async () => {
+        const model = Consultation.build({ ...consultation(), topic: '   ' });
+
+        await expect(model.validate()).rejects.toThrow('Consultation topic is required');
+    });
+
+    test('should validate status', async () => {
+        const model = Consultation.build({ ...consultation(), status: 'postponed' });
+
+        await expect(model.validate()).rejects.toThrow('Consultation status must be one of');
+    });
+
+    test('should require slots to end after they start', async () => {
+        const slot = AvailabilitySlot.build({
+            researcher_id: RESEARCHER_ID,
+            starts_at: new Date(Date.UTC(2026, 0, 15, 14, 0, 0)),
+            ends_at: new Date(Date.UTC(2026, 0, 15, 13, 0, 0))
+        });
+
+        await expect(slot.validate()).rejects.toThrow('End time must be after the start time');
+    });
+});
+
+describe('Consultation Service', () => {
+    const manager = { user_id: RESEARCHER_ID, roles: ['manager'] };
+    const client = { user_id: CLIENT_ID, roles: ['client'] };
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe('createSlot', () => {
+        const inHours = hours => new Date(Date.now() + hours * HOUR).toISOString();
+
+        beforeEach(() => {
+            jest.spyOn(consultationRepository, 'findOverlappingSlots').mockResolvedValue([]);
+            jest.spyOn(consultationRepository, 'createSlot').mockImplementation(async data => data);
+        });
+
+        test('should create a future slot', async () => {
+            const slot = await consultationService.createSlot(RESEARCHER_ID, { starts_at: inHours(24), ends_at: inHours(25) });
+
+            expect(slot.researcher_id).toBe(RESEARCHER_ID);
+            expect(slot.ends_at - slot.starts_at).toBe(HOUR);
+        });
+
+        test('should reject slots in the past, backwards or too long', async () => {
+            await expect(consultationService.createSlot(RESEARCHER_ID, { starts_at: inHours(-2), ends_at: inHours(-1) }))
+                .rejects.toThrow('Availability slots must start in the future');
+            await expect(consultationService.createSlot(RESEARCHER_ID, { starts_at: inHours(25), ends_at: inHours(24) }))
+                .rejects.toThrow('End time must be after the start time');
+            await expect(consultationService.createSlot(RESEARCHER_ID, { starts_at: inHours(24), ends_at: inHours(33) }))
+                .rejects.toThrow('cannot be longer than 8 hours');
+            expect(consultationRepository.createSlot).not.toHaveBeenCalled();
+        });
+
+        test('should reject overlapping slots', async () => {
+            consultationRepository.findOverlappingSlots.mockResolvedValue([{ slot_id: 'other' }]);
+
+            await expect(consultationService.createSlot(RESEARCHER_ID, { starts_at: inHours(24), ends_at: inHours(25) }))
+                .rejects.toThrow('overlaps another of your slots');
+        });
+    });
+
+    describe('getConsultationForUser', () => {
+        beforeEach(() => {
+            jest.spyOn(consultationRepository, 'findConsultationById').mockResolvedValue(consultation());
+        });
+
+        test('should return consultations to their client and to managers', async () => {
+            await expect(consultationService.getConsultationForUser(CONSULTATION_ID, client)).resolves.toMatchObject({ topic: 'Next steps, Irish records' });
+            await expect(consultationService.getConsultationForUser(CONSULTATION_ID, manager)).resolves.toMatchObject({ topic: 'Next steps, Irish records' });
+        });
+
+        test('should hide consultations of other clients', async () => {
+            const otherClient = { user_id: '11111111-2222-4333-8444-555555555555', roles: ['client'] };
+
+            await expect(consultationService.getConsultationForUser(CONSULTATION_ID, otherClient))
+                .rejects.toThrow(`Consultation with id ${CONSULTATION_ID} not found`);
+        });
+
+        test('should not change consultations that are no longer scheduled', async () => {
+            consultationRepository.findConsultationById.mockResolvedValue(consultation({ status: 'canceled' }));
+
+            await expect(consultationService.cancelConsultation(CONSULTATION_ID, client))
+                .rejects.toThrow('The consultation is already canceled');
+        });
+    });
+
+    describe('getCalendarFeed', () => {
+        test('should serve the feed for a valid token', async () => {
+            jest.spyOn(consultationRepository, 'findConsultations').mockResolvedValue([consultation()]);
+
+            const feed = await consultationService.getCalendarFeed(CLIENT_ID, consultationService.getFeedToken(CLIENT_ID));
+
+            expect(feed).toContain(`UID:${CONSULTATION_ID}@consultations.ancestry-research`);
+            expect(consultationRepository.findConsultations).toHaveBeenCalledWith(expect.objectContaining({ participantId: CLIENT_ID }));
+        });
+
+        test('should reject tokens of other users', async () => {
+            jest.spyOn(consultationRepository, 'findConsultations').mockResolvedValue([]);
+
+            await expect(consultationService.getCalendarFeed(CLIENT_ID, consultationService.getFeedToken(RESEARCHER_ID)))
+                .rejects.toThrow('Invalid calendar feed token');
+            await expect(consultationService.getCalendarFeed(CLIENT_ID, 'abc'))
+                .rejects.toThrow('Invalid calendar feed token');
+            expect(consultationRepository.findConsultations).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,270 @@
+const { Relationship, PersonEvent, DocumentPerson, ProjectPerson, ResearchLogPerson, PersonName, Citation } = require('../models');
+const personRepository = require('../repositories/personRepository');
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const duplicateService = require('../services/duplicateService');
+const TransactionManager = require('../utils/transactionManager');
+const { soundex, surnameKeys, placeSimilarity, scorePersonMatch } = require('../utils/personMatching');
+
+const TRANSACTION = { id: 'transaction' };
+
+const person = (person_id, first_name, last_name, extra = {}) => ({
+    person_id, first_name, last_name, gender: 'male', ...extra
+});
+
+// A record that can be snapshotted like a Sequelize instance
+const record = (data) => ({ ...data, toJSON: () => ({ ...data }) });
+
+describe('Person Matching', () => {
+    it('should code names by sound', () => {
+        expect(soundex('Robert')).toBe('R163');
+        expect(soundex('Rupert')).toBe('R163');
+        expect(soundex('Ashcraft')).toBe('A261');
+        expect(soundex('Tymczak')).toBe('T522');
+        expect(soundex('Pfister')).toBe('P236');
+        expect(soundex('Müller')).toBe(soundex('Muller'));
+        expect(soundex('')).toBeNull();
+    });
+
+    it('should key a person by both surnames', () => {
+        expect(surnameKeys({ last_name: 'Smith', maiden_name: 'Jones' })).toEqual(['S530', 'J520']);
+        expect(surnameKeys({ last_name: 'Smith', maiden_name: 'smith' })).toEqual(['S530']);
+    });
+
+    it('should compare places by the words they share', () => {
+        expect(placeSimilarity('Boston, Suffolk, MA', 'Boston, Massachusetts')).toBe(0.5);
+        expect(placeSimilarity('Salem', 'Boston')).toBe(0);
+        expect(placeSimilarity(null, 'Boston')).toBe(0);
+    });
+
+    it('should score records with the same name, dates and places highly', () => {
+        const result = scorePersonMatch(
+            person('a', 'John', 'Smith', { birth_date: '1820-05-01', birth_location: 'Boston, Massachusetts', death_date: '1880-01-01' }),
+            person('b', 'Jon', 'Smyth', { birth_date: '1820-05-01', birth_location: 'Boston', death_date: '1880-01-01' })
+        );
+
+        expect(result.score).toBe(15 + 14 + 15 + 10 + 5);
+        expect(result.reasons).toEqual(expect.arrayContaining([
+            'Surnames sound alike',
+            'Given names sound alike',
+            'Birth dates agree',
+            'Same birth place'
+        ]));
+    });
+
+    it('should match a maiden name against a surname', () => {
+        const result = scorePersonMatch(
+            person('a', 'Mary', 'Brown', { gender: 'female', maiden_name: 'Jones' }),
+            person('b', 'Mary', 'Jones', { gender: 'female' })
+        );
+
+        expect(result.reasons).toContain('Same surname');
+    });
+
+    it('should treat an approximate date as agreeing with a date inside it', () => {
+        const result = scorePersonMatch(
+            person('a', 'John', 'Smith', {
+                birth_date: '1820-07-01',
+                birth_date_detail: { qualifier: 'about', precision: 'year', start: '1820-01-01', end: '1820-12-31' }
+            }),
+            person('b', 'John', 'Smith', { birth_date: '1820-03-15' })
+        );
+
+        expect(result.reasons).toContain('Birth dates agree');
+    });
+
+    it('should take points away for conflicting dates', () => {
+        const same = scorePersonMatch(person('a', 'John', 'Smith'), person('b', 'John', 'Smith'));
+        const conflicting = scorePersonMatch(
+            person('a', 'John', 'Smith', { birth_date: '1820-01-01' }),
+            person('b', 'John', 'Smith', { birth_date: '1850-01-01' })
+        );
+
+        expect(conflicting.score).toBe(same.score - 25);
+        expect(conflicting.reasons).toContain('Birth dates 30 years apart');
+    });
+
+    it('should not match persons of different genders or unrelated surnames', () => {
+        expect(scorePersonMatch(person('a', 'Sam', 'Smith'), person('b', 'Sam', 'Smith', { gender: 'female' }))).toBeNull();
+        expect(scorePersonMatch(person('a', 'John', 'Smith'), person('b', 'John', 'Brown'))).toBeNull();
+        expect(scorePersonMatch(person('a', 'Sam', 'Smith'), person('b', 'Sam', 'Smith', { gender: 'unknown' }))).not.toBeNull();
+    });
+
+    it('should add points for shared and similarly named relatives', () => {
+        const first = person('a', 'John', 'Smith');
+        const second = person('b', 'John', 'Smith');
+        const without = scorePersonMatch(first, second);
+        const withRelatives = scorePersonMatch(first, second, {
+            a: [person('mary', 'Mary', 'Smith'), person('anne1', 'Anne', 'Smith')],
+            b: [person('mary', 'Mary', 'Smith'), person('anne2', 'Ann', 'Smith')]
+        });
+
+        expect(withRelatives.score).toBe(without.score + 10 + 5);
+        expect(withRelatives.reasons).toContain('Shares a relative: Mary Smith');
+        expect(withRelatives.reasons).toContain('Relatives with matching names: Anne Smith');
+    });
+});
+
+describe('Duplicate Detection', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should find and rank duplicate pairs within a project', async () => {
+        jest.spyOn(projectRepository, 'exists').mockResolvedValue(true);
+        jest.spyOn(projectRepository, 'getProjectPersons').mockResolvedValue([
+            person('a', 'John', 'Smith', { birth_date: '1820-01-01' }),
+            person('b', 'John', 'Smyth', { birth_date: '1820-01-01' }),
+            person('c', 'Johnny', 'Smith'),
+            person('d', 'John', 'Brown', { birth_date: '1820-01-01' })
+        ]);
+        jest.spyOn(relationshipRepository, 'findRelationshipsInvolvingPersons').mockResolvedValue([]);
+
+        const matches = await duplicateService.findDuplicatesInProject('project', { minScore: 30 });
+
+        expect(matches.map(match => [match.person.person_id, match.match.person_id])).toEqual([
+            ['a', 'b'],
+            ['a', 'c']
+        ]);
+        expect(matches[0].score).toBe(15 + 20 + 15);
+    });
+
+    it('should use relationships to compare the families of candidates', async () => {
+        const subject = person('a', 'John', 'Smith');
+        jest.spyOn(personRepository, 'findById').mockResolvedValue(subject);
+        jest.spyOn(personRepository, 'findDuplicateCandidates').mockResolvedValue([
+            person('b', 'John', 'Smith'),
+            person('c', 'John', 'Smith')
+        ]);
+        jest.spyOn(relationshipRepository, 'findRelationshipsInvolvingPersons').mockResolvedValue([
+            { person1_id: 'father', person2_id: 'a', relationship_type: 'parent', person1: person('father', 'Adam', 'Smith'), person2: subject },
+            { person1_id: 'father', person2_id: 'c', relationship_type: 'parent', person1: person('father', 'Adam', 'Smith'), person2: person('c', 'John', 'Smith') }
+        ]);
+
+        const matches = await duplicateService.findDuplicatesForPerson('a', { minScore: 0 });
+
+        expect(matches[0].match.person_id).toBe('c');
+        expect(matches[0].reasons).toContain('Shares a relative: Adam Smith');
+        expect(matches[1].score).toBeLessThan(matches[0].score);
+    });
+});
+
+describe('Person Merge', () => {
+    beforeEach(() => {
+        jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async callback => callback(TRANSACTION));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should take the chosen fields, move links and record the merge', async () => {
+        const survivor = record(person('a', 'John', 'Smith', { birth_date: null, death_date: '1880-01-01' }));
+        const duplicate = record(person('b', 'Jon', 'Smith', {
+            birth_date: '1820-07-01',
+            birth_date_detail: { qualifier: 'about', precision: 'year', start: '1820-01-01', end: '1820-12-31' }
+        }));
+        const records = { a: survivor, b: duplicate };
+        const relinked = { relationships: 2, relationships_dropped: 1, events: 3, documents: 1, projects: 1, citations: 4 };
+
+        jest.spyOn(personRepository, 'findById').mockImplementation(async id => records[id]);
+        const update = jest.spyOn(personRepository, 'update').mockResolvedValue(survivor);
+        const reassign = jest.spyOn(personRepository, 'reassignPersonLinks').mockResolvedValue(relinked);
+        const remove = jest.spyOn(personRepository, 'delete').mockResolvedValue(true);
+        const createMerge = jest.spyOn(personRepository, 'createMergeRecord').mockImplementation(async data => data);
+
+        const result = await duplicateService.mergePersons('a', 'b', { first_name: 'survivor', birth_date: 'duplicate' }, 'user');
+
+        expect(update).toHaveBeenCalledWith('a', {
+            birth_date: '1820-07-01',
+            birth_date_detail: duplicate.birth_date_detail
+        }, { transaction: TRANSACTION });
+        expect(reassign).toHaveBeenCalledWith('b', 'a', { transaction: TRANSACTION });
+        expect(remove).toHaveBeenCalledWith('b', { transaction: TRANSACTION });
+        expect(createMerge).toHaveBeenCalledWith(expect.objectContaining({
+            survivor_person_id: 'a',
+            merged_person_id: 'b',
+            merged_person_data: expect.objectContaining({ first_name: 'Jon' }),
+            survivor_previous_data: expect.objectContaining({ first_name: 'John', birth_date: null }),
+            relinked,
+            merged_by: 'user'
+        }), { transaction: TRANSACTION });
+        expect(result.merge.field_choices).toEqual({ first_name: 'survivor', birth_date: 'duplicate' });
+    });
+
+    it('should refuse to merge a person with itself or with unknown fields', async () => {
+        await expect(duplicateService.mergePersons('a', 'a')).rejects.toThrow('cannot be merged with itself');
+        await expect(duplicateService.mergePersons('a', 'b', { person_id: 'duplicate' })).rejects.toThrow('Unknown merge fields: person_id');
+    });
+
+    it('should report a missing person', async () => {
+        jest.spyOn(personRepository, 'findById').mockImplementation(async id => (id === 'a' ? record(person('a', 'John', 'Smith')) : null));
+
+        await expect(duplicateService.mergePersons('a', 'b')).rejects.toThrow('Person with id b not found');
+    });
+});
+
+describe('Person Link Reassignment', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const relationship = (relationship_id, person1_id, person2_id, relationship_type) => ({
+        relationship_id,
+        person1_id,
+        person2_id,
+        relationship_type,
+        update: jest.fn().mockResolvedValue(),
+        destroy: jest.fn().mockResolvedValue()
+    });
+
+    it('should move relationships and drop those the survivor already has', async () => {
+        // The survivor already has the father as a parent; the duplicate has him as a "child of" link
+        const existing = [relationship('r1', 'father', 'a', 'parent')];
+        const moving = [
+            relationship('r2', 'b', 'father', 'child'),
+            relationship('r3', 'b', 'wife', 'spouse'),
+            relationship('r4', 'a', 'b', 'sibling')
+        ];
+        jest.spyOn(Relationship, 'findAll').mockImplementation(async ({ where }) => (
+            where[Object.getOwnPropertySymbols(where)[0]][0].person1_id === 'a' ? existing : moving
+        ));
+        const citationUpdate = jest.spyOn(Citation, 'update').mockResolvedValue([2]);
+        const citationDestroy = jest.spyOn(Citation, 'destroy').mockResolvedValue(1);
+        const nameUpdate = jest.spyOn(PersonName, 'update').mockResolvedValue([1]);
+
+        [PersonEvent, DocumentPerson, ProjectPerson, ResearchLogPerson].forEach(model => {
+            jest.spyOn(model, 'findAll').mockResolvedValue(model === PersonEvent ? [{ event_id: 'e1' }] : []);
+            jest.spyOn(model, 'destroy').mockResolvedValue(1);
+            jest.spyOn(model, 'update').mockResolvedValue([1]);
+        });
+
+        const result = await personRepository.reassignPersonLinks('b', 'a', { transaction: TRANSACTION });
+
+        expect(moving[0].destroy).toHaveBeenCalled();
+        expect(citationUpdate).toHaveBeenCalledWith(
+            { entity_id: 'r1' },
+            { where: { entity_type: 'relationship', entity_id: 'r2' }, transaction: TRANSACTION }
+        );
+        expect(moving[1].update).toHaveBeenCalledWith({ person1_id: 'a', person2_id: 'wife' }, { transaction: TRANSACTION });
+        expect(moving[2].destroy).toHaveBeenCalled();
+        expect(citationDestroy).toHaveBeenCalledWith({ where: { entity_type: 'relationship', entity_id: 'r4' }, transaction: TRANSACTION });
+
+        // Events the survivor is already linked to are removed from the duplicate instead of moved
+        expect(PersonEvent.destroy).toHaveBeenCalledWith({ where: { person_id: 'b', event_id: ['e1'] }, transaction: TRANSACTION });
+        expect(DocumentPerson.destroy).not.toHaveBeenCalled();
+        expect(ProjectPerson.update).toHaveBeenCalledWith({ person_id: 'a' }, { where: { person_id: 'b' }, transaction: TRANSACTION });
+        expect(nameUpdate).toHaveBeenCalledWith({ person_id: 'a' }, expect.objectContaining({ where: { person_id: 'b' } }));
+
+        expect(result).toEqual({
+            relationships: 1,
+            relationships_dropped: 2,
+            events: 1,
+            documents: 1,
+            projects: 1,
+            citations: 2,
+            names: 1,
+            research_log: 1
+        });
+    });
+});
@@ -0,0 +1,310 @@
+const { parseGedcom, parseGedcomDate, mapGedcomRecords } = require('../utils/gedcomParser');
+const { serializeGedcom, formatGedcomDate } = require('../utils/gedcomWriter');
+const { normalizeDateDetail } = require('../utils/genealogicalDate');
+const gedcomService = require('../services/gedcomService');
+const documentService = require('../services/documentService');
+const projectRepository = require('../repositories/projectRepository');
+const TransactionManager = require('../utils/transactionManager');
+const { isSafeUploadPath, resolveUploadPath } = require('../utils/uploads');
+
+const SAMPLE_GEDCOM = [
+    '0 HEAD',
+    '1 SOUR TEST',
+    '1 GEDC',
+    '2 VERS 5.5.1',
+    '0 @I1@ INDI',
+    '1 NAME John William /Smith/',
+    '1 SEX M',
+    '1 BIRT',
+    '2 DATE 12 MAR 1850',
+    '2 PLAC Boston, Massachusetts',
+    '1 FAMS @F1@',
+    '0 @I2@ INDI',
+    '1 NAME Mary /Jones/',
+    '1 SEX F',
+    '1 BIRT',
+    '2 DATE ABT 1855',
+    '1 FAMS @F1@',
+    '0 @I3@ INDI',
+    '1 NAME Thomas /Smith/',
+    '1 SEX M',
+    '1 FAMC @F1@',
+    '2 PEDI adopted',
+    '1 _CUSTOM something',
+    '0 @F1@ FAM',
+    '1 HUSB @I1@',
+    '1 WIFE @I2@',
+    '1 CHIL @I3@',
+    '1 MARR',
+    '2 DATE 1 JUN 1875',
+    '2 PLAC Salem, Massachusetts',
+    '0 TRLR'
+].join('\n');
+
+describe('GEDCOM Parser', () => {
+    test('should build a record tree from level numbers', () => {
+        const { records, errors } = parseGedcom(SAMPLE_GEDCOM);
+
+        expect(errors).toHaveLength(0);
+        expect(records.map(r => r.tag)).toEqual(['HEAD', 'INDI', 'INDI', 'INDI', 'FAM', 'TRLR']);
+        expect(records[1].xref).toBe('@I1@');
+        expect(records[1].children[2].children[0]).toMatchObject({ tag: 'DATE', value: '12 MAR 1850' });
+    });
+
+    test('should join CONT and CONC lines into the parent value', () => {
+        const { records } = parseGedcom([
+            '0 @N1@ NOTE First line',
+            '1 CONT Second',
+            '1 CONC  line'
+        ].join('\n'));
+
+        expect(records[0].value).toBe('First line\nSecond line');
+        expect(records[0].children).toHaveLength(0);
+    });
+
+    test('should read exact and qualified dates', () => {
+        expect(parseGedcomDate('12 MAR 1850')).toMatchObject({ date: '1850-03-12', detail: null, isExact: true });
+        expect(parseGedcomDate('ABT 1855')).toMatchObject({
+            date: '1855-01-01',
+            detail: { qualifier: 'about', precision: 'year', start: '1855-01-01', end: '1855-12-31' },
+            isExact: false,
+            original: 'ABT 1855'
+        });
+        expect(parseGedcomDate('BEF 1876').detail).toMatchObject({ qualifier: 'before', start: '1876-01-01' });
+        expect(parseGedcomDate('31 FEB 1900').date).toBeNull();
+        expect(parseGedcomDate('@#DJULIAN@ 12 MAR 1650').date).toBeNull();
+        expect(parseGedcomDate('(during the war)')).toMatchObject({ date: null, original: '(during the war)' });
+    });
+
+    test('should map individuals and report unsupported tags', () => {
+        const { records } = parseGedcom(SAMPLE_GEDCOM);
+        const { persons, families, report } = mapGedcomRecords(records);
+
+        expect(persons).toHaveLength(3);
+        expect(persons[0].data).toMatchObject({
+            first_name: 'John',
+            middle_name: 'William',
+            last_name: 'Smith',
+            gender: 'male',
+            birth_date: '1850-03-12',
+            birth_location: 'Boston, Massachusetts'
+        });
+        expect(persons[1].data).toMatchObject({ birth_date: '1855-01-01', notes: null });
+        expect(families[0]).toMatchObject({ husband: '@I1@', wife: '@I2@', children: ['@I3@'] });
+        expect(report.toJSON().skippedTags).toEqual([{ tag: 'INDI._CUSTOM', count: 1 }]);
+    });
+});
+
+describe('GEDCOM Import Plan', () => {
+    test('should derive spouse and parent relationships from families', () => {
+        const plan = gedcomService.buildImportPlan(SAMPLE_GEDCOM);
+
+        const spouse = plan.relationships.find(r => r.relationship_type === 'spouse');
+        expect(spouse).toMatchObject({ person1Xref: '@I1@', person2Xref: '@I2@', start_date: '1875-06-01' });
+
+        const parents = plan.relationships.filter(r => r.relationship_type === 'parent');
+        expect(parents).toHaveLength(2);
+        parents.forEach(rel => {
+            expect(rel.person2Xref).toBe('@I3@');
+            expect(rel.relationship_qualifier).toBe('adoptive');
+        });
+    });
+
+    test('should keep spouse relationships with a qualified marriage date', () => {
+        const plan = gedcomService.buildImportPlan(SAMPLE_GEDCOM.replace('2 DATE 1 JUN 1875', '2 DATE BEF 1876'));
+
+        const spouse = plan.relationships.find(r => r.relationship_type === 'spouse');
+        expect(spouse).toMatchObject({ start_date: '1875-12-31', start_date_detail: expect.objectContaining({ qualifier: 'before' }) });
+        expect(plan.report.toJSON().warnings).toEqual([]);
+    });
+
+    test('should skip spouse relationships without a marriage date', () => {
+        const plan = gedcomService.buildImportPlan(SAMPLE_GEDCOM.replace('2 DATE 1 JUN 1875\n', ''));
+
+        expect(plan.relationships.some(r => r.relationship_type === 'spouse')).toBe(false);
+        expect(plan.report.toJSON().warnings.some(w => w.includes('no marriage date'))).toBe(true);
+    });
+
+    test('should read approximate birth dates into the date detail', () => {
+        const plan = gedcomService.buildImportPlan(SAMPLE_GEDCOM);
+        const mary = plan.persons.find(p => p.xref === '@I2@');
+
+        expect(mary.data).toMatchObject({
+            birth_date: '1855-01-01',
+            birth_date_detail: expect.objectContaining({ qualifier: 'about', precision: 'year' }),
+            notes: null
+        });
+    });
+
+    test('should reject files without a header', () => {
+        expect(() => gedcomService.buildImportPlan('0 @I1@ INDI\n1 NAME John /Smith/')).toThrow('not a valid GEDCOM');
+    });
+});
+
+describe('GEDCOM Import', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should reject media files outside the uploads directory', async () => {
+        const content = [
+            '0 HEAD',
+            '1 GEDC',
+            '2 VERS 5.5.1',
+            '0 @M1@ OBJE',
+            '1 FILE ../../server/.env',
+            '0 @M2@ OBJE',
+            '1 FILE /etc/passwd',
+            '0 @M3@ OBJE',
+            '1 FILE C:\\Windows\\win.ini',
+            '0 @M4@ OBJE',
+            '1 FILE photos/census-1881.jpg',
+            '0 TRLR'
+        ].join('\n');
+        jest.spyOn(projectRepository, 'exists').mockResolvedValue(true);
+        jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async (callback) => callback({}));
+        const createDocument = jest.spyOn(documentService, 'createDocument').mockResolvedValue({ document_id: 'd1' });
+
+        const result = await gedcomService.importGedcom('project-1', content);
+
+        expect(createDocument).toHaveBeenCalledTimes(1);
+        expect(createDocument.mock.calls[0][0].file_path).toBe('photos/census-1881.jpg');
+        expect(result.rejected.map(rejection => rejection.record)).toEqual(['@M1@', '@M2@', '@M3@']);
+    });
+
+    test('should only resolve document files inside the uploads directory', () => {
+        expect(isSafeUploadPath('1700000000000-123.pdf')).toBe(true);
+        expect(isSafeUploadPath('../.env')).toBe(false);
+        expect(isSafeUploadPath('photos/../../.env')).toBe(false);
+        expect(isSafeUploadPath('/etc/passwd')).toBe(false);
+        expect(isSafeUploadPath('file:///etc/passwd')).toBe(false);
+        expect(resolveUploadPath('/etc/passwd')).toBeNull();
+        expect(resolveUploadPath('photos/../../.env')).toBeNull();
+    });
+});
+
+describe('GEDCOM Export', () => {
+    const person = (id, firstName, lastName, gender, extra = {}) => ({
+        person_id: id,
+        first_name: firstName,
+        middle_name: null,
+        last_name: lastName,
+        maiden_name: null,
+        gender,
+        birth_date: null,
+        birth_location: null,
+        death_date: null,
+        death_location: null,
+        notes: null,
+        ...extra
+    });
+
+    const exportData = {
+        project: { title: 'Smith Family' },
+        persons: [
+            person('p1', 'John', 'Smith', 'male', { middle_name: 'William', birth_date: new Date('1850-03-12'), birth_location: 'Boston' }),
+            person('p2', 'Mary', 'Smith', 'female', { maiden_name: 'Jones', notes: 'First line\nSecond line' }),
+            person('p3', 'Thomas', 'Smith', 'male'),
+            person('p4', 'Ann', 'Smith', 'female')
+        ],
+        relationships: [
+            { person1_id: 'p1', person2_id: 'p2', relationship_type: 'spouse', start_date: new Date('1875-06-01') },
+            { person1_id: 'p2', person2_id: 'p1', relationship_type: 'spouse', start_date: new Date('1875-06-01') },
+            { person1_id: 'p1', person2_id: 'p3', relationship_type: 'parent', relationship_qualifier: 'adoptive' },
+            { person1_id: 'p3', person2_id: 'p1', relationship_type: 'child', relationship_qualifier: 'adoptive' },
+            { person1_id: 'p2', person2_id: 'p3', relationship_type: 'parent', relationship_qualifier: 'adoptive' },
+            { person1_id: 'p1', person2_id: 'p4', relationship_type: 'parent', relationship_qualifier: 'step' },
+            { person1_id: 'p2', person2_id: 'p4', relationship_type: 'parent', relationship_qualifier: 'in-law' }
+        ],
+        events: [
+            { event: { event_id: 'e1', event_type: 'marriage', event_date: new Date('1875-06-01'), event_location: 'Salem', description: 'Wedding' }, personIds: ['p1', 'p2'] },
+            { event: { event_id: 'e2', event_type: 'religious', event_date: new Date('1850-04-01'), description: 'Baptism' }, personIds: ['p1'] }
+        ],
+        documents: [
+            { document: { document_id: 'd1', title: 'Birth certificate', file_path: 'cert.pdf', document_type: 'certificate' }, personIds: ['p1'] }
+        ]
+    };
+
+    test('should format exact GEDCOM dates', () => {
+        expect(formatGedcomDate('1850-03-12')).toBe('12 MAR 1850');
+        expect(formatGedcomDate(null)).toBeNull();
+    });
+
+    test('should round-trip through the importer', () => {
+        const content = serializeGedcom(gedcomService.buildExportRecords(exportData));
+        const plan = gedcomService.buildImportPlan(content);
+        const byName = (firstName) => plan.persons.find(p => p.data.first_name === firstName);
+
+        expect(plan.report.toJSON()).toEqual({ skippedTags: [], warnings: [] });
+        expect(byName('John').data).toMatchObject({ middle_name: 'William', birth_date: '1850-03-12', birth_location: 'Boston' });
+        expect(byName('John').events).toEqual([expect.objectContaining({ event_type: 'religious', event_date: '1850-04-01', description: 'Baptism' })]);
+        expect(byName('Mary').data).toMatchObject({ maiden_name: 'Jones', notes: 'First line\nSecond line' });
+
+        const xrefOf = (firstName) => byName(firstName).xref;
+        const qualifierOf = (parent, child) => plan.relationships.find(r =>
+            r.relationship_type === 'parent' && r.person1Xref === xrefOf(parent) && r.person2Xref === xrefOf(child)).relationship_qualifier;
+
+        expect(qualifierOf('John', 'Thomas')).toBe('adoptive');
+        expect(qualifierOf('Mary', 'Thomas')).toBe('adoptive');
+        expect(qualifierOf('John', 'Ann')).toBe('step');
+        expect(qualifierOf('Mary', 'Ann')).toBe('in-law');
+
+        const spouse = plan.relationships.find(r => r.relationship_type === 'spouse');
+        expect(spouse.start_date).toBe('1875-06-01');
+        expect(plan.familyEvents).toEqual([expect.objectContaining({ event_type: 'marriage', event_location: 'Salem', description: 'Wedding' })]);
+        expect(plan.documents).toEqual([expect.objectContaining({ file_path: 'cert.pdf', document_type: 'certificate' })]);
+    });
+
+    test('should round-trip every date qualifier', () => {
+        const dates = ['ABT 1850', 'EST MAR 1851', 'CAL 1852', 'BEF 12 JUN 1853', 'AFT 1854', 'BET 1855 AND 1857', 'MAY 1858'];
+        const persons = dates.map((text, index) => {
+            const detail = normalizeDateDetail(text);
+            return person(`q${index}`, `Person${index}`, 'Smith', 'female', {
+                birth_date: new Date(detail.sort_key),
+                birth_date_detail: detail,
+                death_date: new Date(detail.sort_key),
+                death_date_detail: detail
+            });
+        });
+        const marriage = normalizeDateDetail('BEF 1876');
+        const divorce = normalizeDateDetail('AFT 1880');
+        const event = normalizeDateDetail('BET 1860 AND 1865');
+
+        const content = serializeGedcom(gedcomService.buildExportRecords({
+            project: { title: 'Smith Family' },
+            persons,
+            relationships: [{
+                person1_id: 'q0',
+                person2_id: 'q1',
+                relationship_type: 'spouse',
+                start_date: new Date(marriage.sort_key),
+                start_date_detail: marriage,
+                end_date: new Date(divorce.sort_key),
+                end_date_detail: divorce
+            }],
+            events: [{ event: { event_id: 'e1', event_type: 'census', event_date: new Date(event.sort_key), event_date_detail: event }, personIds: ['q2'] }],
+            documents: []
+        }));
+        const plan = gedcomService.buildImportPlan(content);
+        const fields = ({ qualifier, precision, start, end, sort_key }) => ({ qualifier, precision, start, end, sort_key });
+
+        expect(plan.report.toJSON().warnings).toEqual([]);
+        dates.forEach((text, index) => {
+            const imported = plan.persons.find(p => p.data.first_name === `Person${index}`).data;
+            const expected = fields(normalizeDateDetail(text));
+
+            expect(fields(imported.birth_date_detail)).toEqual(expected);
+            expect(fields(imported.death_date_detail)).toEqual(expected);
+            expect(imported.birth_date).toBe(expected.sort_key);
+            expect(imported.notes).toBeNull();
+        });
+
+        const spouse = plan.relationships.find(r => r.relationship_type === 'spouse');
+        expect(fields(spouse.start_date_detail)).toEqual(fields(marriage));
+        expect(fields(spouse.end_date_detail)).toEqual(fields(divorce));
+
+        const census = plan.persons.find(p => p.data.first_name === 'Person2').events[0];
+        expect(census).toMatchObject({ event_type: 'census', event_date: event.sort_key, description: null });
+        expect(fields(census.event_date_detail)).toEqual(fields(event));
+    });
+});
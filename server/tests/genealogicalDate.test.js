@@ -0,0 +1,111 @@
+const { Person } = require('../models');
+const {
+    parseGenealogicalDate,
+    normalizeDateDetail,
+    getDateBounds,
+    formatGenealogicalDate
+} = require('../utils/genealogicalDate');
+const { validatePersonEvents, validateGenealogicalDate } = require('../utils/validationUtils');
+const { validateAge, validateParentChildAgeDifference } = require('../utils/genealogyRules');
+
+describe('Genealogical Date Parsing', () => {
+    test('should parse qualifiers, precision and ranges', () => {
+        expect(parseGenealogicalDate('ABT 1850')).toMatchObject({
+            qualifier: 'about',
+            precision: 'year',
+            start: '1850-01-01',
+            end: '1850-12-31',
+            sort_key: '1850-01-01'
+        });
+        expect(parseGenealogicalDate('bef. March 1901')).toMatchObject({
+            qualifier: 'before',
+            precision: 'month',
+            sort_key: '1901-02-28'
+        });
+        expect(parseGenealogicalDate('BET 1850 AND 1855')).toMatchObject({
+            qualifier: 'between',
+            start: '1850-01-01',
+            end: '1855-12-31'
+        });
+        expect(parseGenealogicalDate('March 12, 1850')).toMatchObject({ qualifier: 'exact', precision: 'day', start: '1850-03-12' });
+        expect(parseGenealogicalDate('CAL 1850').qualifier).toBe('calculated');
+        expect(parseGenealogicalDate('31 FEB 1900')).toBeNull();
+        expect(parseGenealogicalDate('sometime')).toBeNull();
+    });
+
+    test('should collapse exact days and reject unknown text', () => {
+        expect(normalizeDateDetail('1850-03-12')).toBeNull();
+        expect(() => normalizeDateDetail('sometime')).toThrow('Unrecognised date');
+        expect(validateGenealogicalDate({ qualifier: 'roughly', precision: 'year', start: '1850-01-01' }).isValid).toBe(false);
+    });
+
+    test('should widen approximate dates and leave before/after open-ended', () => {
+        const about = getDateBounds(null, parseGenealogicalDate('ABT 1850'));
+        expect(about.earliest.toISOString()).toBe('1845-01-01T00:00:00.000Z');
+        expect(about.latest.toISOString()).toBe('1855-12-31T00:00:00.000Z');
+
+        expect(getDateBounds(null, parseGenealogicalDate('BEF 1850')).earliest).toBeNull();
+        expect(getDateBounds(null, parseGenealogicalDate('AFT 1850')).latest).toBeNull();
+    });
+
+    test('should format details as GEDCOM dates', () => {
+        expect(formatGenealogicalDate(null, parseGenealogicalDate('about March 1850'))).toBe('ABT MAR 1850');
+        expect(formatGenealogicalDate(null, parseGenealogicalDate('between 1850 and 1855'))).toBe('BET 1850 AND 1855');
+        expect(formatGenealogicalDate('1850-03-12', null)).toBe('12 MAR 1850');
+    });
+});
+
+describe('Range-Aware Validation', () => {
+    const withDetail = (field, text) => {
+        const detail = parseGenealogicalDate(text);
+        return { [field]: detail.sort_key, [`${field}_detail`]: detail };
+    };
+
+    test('should write the sort key and allow overlapping approximate dates on the model', async () => {
+        const person = Person.build({
+            first_name: 'John',
+            last_name: 'Doe',
+            birth_date_detail: 'ABT 1850',
+            ...withDetail('death_date', '1850')
+        });
+
+        await expect(person.validate()).resolves.toBeDefined();
+        expect(person.birth_date.toISOString().split('T')[0]).toBe('1850-01-01');
+    });
+
+    test('should only flag ages that every reading of the dates exceeds', () => {
+        const borderline = {
+            ...withDetail('birth_date', 'ABT 1850'),
+            death_date: '1972-06-01'
+        };
+        expect(validateAge(borderline).isValid).toBe(true);
+
+        const impossible = {
+            ...withDetail('birth_date', 'BEF 1840'),
+            death_date: '1972-06-01'
+        };
+        expect(validateAge(impossible).warnings).toEqual([expect.stringContaining('at least')]);
+    });
+
+    test('should only flag parent-child gaps that every reading of the dates implies', () => {
+        const parent = withDetail('birth_date', 'ABT 1850');
+        expect(validateParentChildAgeDifference(parent, { birth_date: '1862-01-01' }).isValid).toBe(true);
+        expect(validateParentChildAgeDifference(parent, withDetail('birth_date', 'BEF 1855')).warnings)
+            .toEqual(expect.arrayContaining([expect.stringContaining('unusually small')]));
+    });
+
+    test('should accept events inside an approximate lifetime', () => {
+        const person = {
+            ...withDetail('birth_date', 'ABT 1850'),
+            ...withDetail('death_date', 'BET 1900 AND 1910')
+        };
+        const events = [
+            { event_type: 'birth', ...withDetail('event_date', 'ABT 1850') },
+            { event_type: 'residence', event_date: '1848-06-01' },
+            { event_type: 'census', event_date: '1920-06-01' }
+        ];
+
+        const result = validatePersonEvents(person, events);
+        expect(result.errors).toEqual([expect.stringContaining("after person's death date (BET 1900 AND 1910)")]);
+    });
+});
@@ -0,0 +1,192 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const entityVersionRepository = require('../repositories/entityVersionRepository');
+const eventRepository = require('../repositories/eventRepository');
+const personRepository = require('../repositories/personRepository');
+const historyService = require('../services/historyService');
+const eventService = require('../services/eventService');
+const personService = require('../services/personService');
+const ProjectUtils = require('../utils/projectUtils');
+const { PersonEvent } = require('../models');
+
+const TRANSACTION = { id: 'transaction' };
+const USER_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const PERSON_ID = '0b1c2d3e-4f5a-4b6c-8d7e-9f0a1b2c3d4e';
+
+// Model-like record whose toJSON returns its fields
+const record = (fields) => ({ ...fields, toJSON: () => ({ ...fields }) });
+
+const person = (fields = {}) => ({
+    person_id: PERSON_ID,
+    first_name: 'Mary',
+    last_name: 'Smith',
+    gender: 'female',
+    birth_date: '1850-03-02',
+    birth_date_detail: null,
+    birth_location: 'Leeds',
+    notes: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...fields
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Recording Changes', () => {
+    let create;
+
+    beforeEach(() => {
+        jest.spyOn(entityVersionRepository, 'findLatestVersionNumber').mockResolvedValue(3);
+        create = jest.spyOn(entityVersionRepository, 'create').mockImplementation(async data => data);
+    });
+
+    it('should record the changed fields of an update as the next version', async () => {
+        const version = await historyService.recordChange(
+            'person',
+            record(person()),
+            record(person({ birth_location: 'York', notes: 'Baptised at St Mary', updated_at: '2024-02-01T00:00:00.000Z' })),
+            { transaction: TRANSACTION, userId: USER_ID }
+        );
+
+        expect(version).toMatchObject({
+            entity_type: 'person',
+            entity_id: PERSON_ID,
+            version_number: 4,
+            action: 'update',
+            changed_by: USER_ID,
+            changes: {
+                birth_location: { from: 'Leeds', to: 'York' },
+                notes: { from: null, to: 'Baptised at St Mary' }
+            }
+        });
+        expect(version.snapshot.birth_location).toBe('York');
+        expect(version.snapshot).not.toHaveProperty('updated_at');
+        expect(create).toHaveBeenCalledWith(expect.any(Object), { transaction: TRANSACTION });
+    });
+
+    it('should skip updates that change nothing', async () => {
+        const version = await historyService.recordChange(
+            'person',
+            record(person()),
+            record(person({ updated_at: '2024-02-01T00:00:00.000Z' }))
+        );
+
+        expect(version).toBeNull();
+        expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the last state of a deleted record', async () => {
+        const version = await historyService.recordChange('person', record(person()), null, { userId: USER_ID });
+
+        expect(version.action).toBe('delete');
+        expect(version.snapshot.first_name).toBe('Mary');
+        expect(version.changes.first_name).toEqual({ from: 'Mary', to: null });
+    });
+
+    it('should record event edits in the transaction of the edit', async () => {
+        const before = { event_id: 'e1', event_type: 'census', event_date: '1881-04-03', event_location: 'Leeds' };
+        jest.spyOn(eventRepository, 'findById').mockResolvedValue(record(before));
+        jest.spyOn(eventRepository, 'update').mockResolvedValue(record({ ...before, event_location: 'York' }));
+        jest.spyOn(PersonEvent, 'findOne').mockResolvedValue(null);
+
+        await eventService.updateEvent('e1', { event_location: 'York' }, TRANSACTION, { userId: USER_ID });
+
+        expect(create).toHaveBeenCalledWith(expect.objectContaining({
+            entity_type: 'event',
+            entity_id: 'e1',
+            changes: { event_location: { from: 'Leeds', to: 'York' } },
+            changed_by: USER_ID
+        }), { transaction: TRANSACTION });
+    });
+});
+
+describe('Reverting', () => {
+    it('should write back the fields that differ from the version, with the birth event', async () => {
+        jest.spyOn(entityVersionRepository, 'findVersion').mockResolvedValue({
+            version_number: 2,
+            snapshot: person({ first_name: 'Marie', birth_location: 'Bradford' })
+        });
+        jest.spyOn(personRepository, 'findById').mockResolvedValue(record(person()));
+        jest.spyOn(personRepository, 'findPersonById').mockResolvedValue({
+            events: [{ event_id: 'e1', event_type: 'birth', description: 'Birth of Mary Smith' }]
+        });
+        const update = jest.spyOn(personService, 'updatePerson').mockResolvedValue(person({ first_name: 'Marie' }));
+
+        await historyService.revertToVersion('person', PERSON_ID, 2, USER_ID);
+
+        expect(update).toHaveBeenCalledWith(
+            PERSON_ID,
+            { first_name: 'Marie', birth_location: 'Bradford' },
+            [expect.objectContaining({ event_id: 'e1', event_date: '1850-03-02', event_location: 'Bradford' })],
+            [],
+            { userId: USER_ID, action: 'revert', revertedToVersion: 2 }
+        );
+    });
+
+    it('should refuse to revert to a version the record already matches', async () => {
+        jest.spyOn(entityVersionRepository, 'findVersion').mockResolvedValue({ version_number: 1, snapshot: person() });
+        jest.spyOn(personRepository, 'findById').mockResolvedValue(record(person()));
+
+        await expect(historyService.revertToVersion('person', PERSON_ID, 1, USER_ID)).rejects.toThrow('already matches version 1');
+    });
+
+    it('should report a missing version', async () => {
+        jest.spyOn(entityVersionRepository, 'findVersion').mockResolvedValue(null);
+        jest.spyOn(personRepository, 'findById').mockResolvedValue(record(person()));
+
+        await expect(historyService.revertToVersion('person', PERSON_ID, 9)).rejects.toThrow('not found');
+    });
+});
+
+describe('History API', () => {
+    const token = jwt.sign({ user_id: USER_ID, roles: ['manager'] }, process.env.JWT_SECRET);
+
+    it('should list the versions of a record', async () => {
+        const findHistory = jest.spyOn(entityVersionRepository, 'findHistory').mockResolvedValue({
+            versions: [{ version_number: 1, action: 'create' }],
+            metadata: { totalCount: 1, totalPages: 1, currentPage: 1, pageSize: 20 }
+        });
+
+        const res = await request(app)
+            .get(`/api/history/person/${PERSON_ID}`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.versions).toHaveLength(1);
+        expect(findHistory).toHaveBeenCalledWith('person', PERSON_ID, {});
+    });
+
+    it('should reject unversioned entity types', async () => {
+        const res = await request(app)
+            .get(`/api/history/source/${PERSON_ID}`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should revert a record as the requesting user', async () => {
+        const revert = jest.spyOn(historyService, 'revertToVersion').mockResolvedValue(person({ first_name: 'Marie' }));
+        jest.spyOn(ProjectUtils, 'getProjectIdsForEntity').mockResolvedValue([]);
+
+        const res = await request(app)
+            .post(`/api/history/person/${PERSON_ID}/versions/2/revert`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.person.first_name).toBe('Marie');
+        expect(revert).toHaveBeenCalledWith('person', PERSON_ID, 2, USER_ID);
+    });
+
+    it('should answer 400 when the record already matches the version', async () => {
+        jest.spyOn(historyService, 'revertToVersion').mockRejectedValue(new Error('The person already matches version 2'));
+
+        const res = await request(app)
+            .post(`/api/history/person/${PERSON_ID}/versions/2/revert`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,205 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const personRepository = require('../repositories/personRepository');
+const relationshipService = require('../services/relationshipService');
+const { describeBloodRelative, resolveKinship } = require('../utils/kinship');
+
+/*
+ * adam + eve ─┬─ bob + beth ── dan + lucy      mike ─┬─ lucy
+ *             │  bob + zoe ─── ian                   └─ ned
+ *             └─ carol + carl ── erin ── gina ── hank
+ * dan ── frank;  erin ── gina;  kate is dan's stepmother
+ */
+const PARENTS = {
+    bob: [['adam'], ['eve']],
+    carol: [['adam'], ['eve']],
+    dan: [['bob'], ['beth'], ['kate', 'step']],
+    ian: [['bob'], ['zoe']],
+    erin: [['carol'], ['carl']],
+    frank: [['dan']],
+    gina: [['erin']],
+    hank: [['gina']],
+    lucy: [['mike']],
+    ned: [['mike']]
+};
+const GENDERS = {
+    adam: 'male', eve: 'female', bob: 'male', beth: 'female', carol: 'female', carl: 'male', dan: 'male',
+    ian: 'male', zoe: 'female', kate: 'female', erin: 'female', frank: 'male', gina: 'female', hank: 'male',
+    lucy: 'female', mike: 'male', ned: 'male'
+};
+const SPOUSES = { dan: ['lucy'], lucy: ['dan'] };
+
+// Lineage rows as the recursive query returns them
+const traceLineage = (origin, maxGenerations = 10) => {
+    const rows = [];
+    const visit = (personId, path, viaStep, qualifier) => {
+        rows.push({
+            origin_id: origin,
+            ancestor_id: personId,
+            generation: path.length - 1,
+            path,
+            via_step: viaStep,
+            last_qualifier: qualifier
+        });
+        if (path.length > maxGenerations) return;
+        (PARENTS[personId] || []).forEach(([parentId, parentQualifier = null]) => {
+            visit(parentId, [...path, parentId], viaStep || parentQualifier === 'step', parentQualifier);
+        });
+    };
+    visit(origin, [origin], false, null);
+    return rows;
+};
+
+const graph = {
+    lineages: new Map(Object.keys(GENDERS).map(id => [id, traceLineage(id)])),
+    spouses: new Map(Object.entries(SPOUSES)),
+    persons: new Map(Object.entries(GENDERS).map(([id, gender]) => [id, { person_id: id, gender }]))
+};
+const label = (fromId, toId) => {
+    const kinship = resolveKinship(fromId, toId, graph);
+    return kinship && kinship.label;
+};
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Kinship Names', () => {
+    it('should name direct ancestors and descendants', () => {
+        expect(describeBloodRelative(1, 0, 'female')).toBe('mother');
+        expect(describeBloodRelative(3, 0, 'male')).toBe('great-grandfather');
+        expect(describeBloodRelative(4, 0, 'male')).toBe('2nd great-grandfather');
+        expect(describeBloodRelative(0, 2, 'other')).toBe('grandchild');
+        expect(describeBloodRelative(0, 1, 'female', { qualifier: 'adoptive' })).toBe('adoptive daughter');
+    });
+
+    it('should name aunts, uncles, nieces and nephews', () => {
+        expect(describeBloodRelative(2, 1, 'male')).toBe('uncle');
+        expect(describeBloodRelative(3, 1, 'female')).toBe('great-aunt');
+        expect(describeBloodRelative(1, 2, 'female')).toBe('niece');
+        expect(describeBloodRelative(1, 3, 'male')).toBe('grandnephew');
+    });
+
+    it('should name cousins by degree and removal', () => {
+        expect(describeBloodRelative(2, 2, 'male')).toBe('first cousin');
+        expect(describeBloodRelative(3, 4, 'female')).toBe('second cousin once removed');
+        expect(describeBloodRelative(5, 2, 'male')).toBe('first cousin 3 times removed');
+        expect(describeBloodRelative(12, 13, 'male')).toBe('11th cousin once removed');
+        expect(describeBloodRelative(3, 3, 'male', { half: true })).toBe('half second cousin');
+    });
+});
+
+describe('Kinship Resolution', () => {
+    it('should find cousins through their nearest common ancestors', () => {
+        expect(label('dan', 'erin')).toBe('first cousin');
+        expect(label('frank', 'gina')).toBe('second cousin');
+        expect(label('frank', 'hank')).toBe('second cousin once removed');
+        expect(label('dan', 'hank')).toBe('first cousin twice removed');
+
+        const kinship = resolveKinship('dan', 'erin', graph);
+        expect(kinship.commonAncestorIds.sort()).toEqual(['adam', 'eve']);
+        expect(kinship.path).toEqual(['dan', 'bob', 'adam', 'carol', 'erin']);
+    });
+
+    it('should name both directions of a relationship', () => {
+        expect(label('dan', 'carol')).toBe('aunt');
+        expect(label('carol', 'dan')).toBe('nephew');
+        expect(label('frank', 'adam')).toBe('great-grandfather');
+        expect(label('adam', 'frank')).toBe('great-grandson');
+    });
+
+    it('should tell half-siblings from full siblings', () => {
+        expect(label('bob', 'carol')).toBe('sister');
+        expect(label('dan', 'ian')).toBe('half-brother');
+        expect(resolveKinship('dan', 'ian', graph).half).toBe(true);
+    });
+
+    it('should name step and in-law relatives', () => {
+        expect(label('dan', 'kate')).toBe('stepmother');
+        expect(label('kate', 'dan')).toBe('stepson');
+        expect(label('dan', 'lucy')).toBe('wife');
+        expect(label('dan', 'mike')).toBe('father-in-law');
+        expect(label('mike', 'dan')).toBe('son-in-law');
+        expect(label('dan', 'ned')).toBe('brother-in-law');
+        expect(label('ned', 'dan')).toBe('brother-in-law');
+        expect(label('frank', 'lucy')).toBe('stepmother');
+    });
+
+    it('should report unrelated persons', () => {
+        expect(resolveKinship('ian', 'mike', graph)).toBeNull();
+    });
+});
+
+describe('Kinship Service', () => {
+    const personsById = (ids) => ids.map(id => ({ person_id: id, first_name: id, gender: GENDERS[id] }));
+
+    beforeEach(() => {
+        jest.spyOn(personRepository, 'findById').mockImplementation(async id => (GENDERS[id] ? { person_id: id } : null));
+        jest.spyOn(personRepository, 'findAll').mockImplementation(async ({ where }) => personsById(where.person_id[Object.getOwnPropertySymbols(where.person_id)[0]]));
+        jest.spyOn(relationshipRepository, 'findSpouseIds').mockResolvedValue(new Map(Object.entries(SPOUSES)));
+        jest.spyOn(relationshipRepository, 'findLineages').mockImplementation(async (ids) => ids.flatMap(id => traceLineage(id)));
+    });
+
+    it('should trace only the two persons and their spouses', async () => {
+        const kinship = await relationshipService.getKinship('frank', 'hank', { maxGenerations: 6 });
+
+        expect(relationshipRepository.findLineages).toHaveBeenCalledWith(['frank', 'hank'], 6);
+        expect(kinship).toMatchObject({
+            related: true,
+            relationship: 'second cousin once removed',
+            reciprocal: 'second cousin once removed',
+            kind: 'blood',
+            generations: { person1: 3, person2: 4 },
+            cousin: { degree: 2, removed: 1 }
+        });
+        expect(kinship.common_ancestors.map(person => person.person_id).sort()).toEqual(['adam', 'eve']);
+    });
+
+    it('should report in-laws through the spouse', async () => {
+        const kinship = await relationshipService.getKinship('dan', 'ned');
+
+        expect(relationshipRepository.findLineages).toHaveBeenCalledWith(['dan', 'ned', 'lucy'], 10);
+        expect(kinship.relationship).toBe('brother-in-law');
+        expect(kinship.through_spouse.person_id).toBe('lucy');
+        expect(kinship.path.map(person => person.person_id)).toEqual(['dan', 'lucy', 'mike', 'ned']);
+    });
+
+    it('should throw when a person does not exist', async () => {
+        await expect(relationshipService.getKinship('dan', 'nobody')).rejects.toThrow('not found');
+    });
+});
+
+describe('Relationship Path', () => {
+    it('should search outwards from the first person instead of loading every relationship', async () => {
+        const links = [
+            { relationship_id: 'r1', person1_id: 'dan', person2_id: 'bob' },
+            { relationship_id: 'r2', person1_id: 'bob', person2_id: 'carol' },
+            { relationship_id: 'r3', person1_id: 'carol', person2_id: 'erin' }
+        ];
+        jest.spyOn(personRepository, 'findById').mockResolvedValue({});
+        const findAll = jest.spyOn(relationshipRepository, 'findAll');
+        jest.spyOn(relationshipRepository, 'findRelationshipsInvolvingPersons').mockImplementation(async ids =>
+            links.filter(link => ids.includes(link.person1_id) || ids.includes(link.person2_id)));
+
+        const path = await relationshipService.findRelationshipPath('dan', 'erin');
+
+        expect(path.map(link => link.relationship_id)).toEqual(['r1', 'r2', 'r3']);
+        expect(findAll).not.toHaveBeenCalled();
+        expect(await relationshipService.findRelationshipPath('dan', 'erin', 2)).toEqual([]);
+    });
+});
+
+describe('Kinship Route', () => {
+    it('should validate the number of generations', async () => {
+        const token = jwt.sign({ user_id: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d', roles: ['manager'] }, process.env.JWT_SECRET);
+
+        const res = await request(app)
+            .get('/api/relationships/kinship/0b1c2d3e-4f5a-4b6c-8d7e-9f0a1b2c3d4e/1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f')
+            .query({ maxGenerations: 50 })
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(400);
+    });
+});
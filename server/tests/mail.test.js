@@ -0,0 +1,369 @@
+const net = require('net');
+const { User, Project } = require('../models');
+const emailOutboxRepository = require('../repositories/emailOutboxRepository');
+const mailService = require('../services/mailService');
+const SmtpTransport = require('../services/mail/smtpTransport');
+const { getMailTransport } = require('../services/mail');
+const { buildMimeMessage, formatAddress } = require('../services/mail/mimeMessage');
+const { renderEmail } = require('../services/mail/templates');
+
+const CLIENT_ID = '3c1e5a7b-9d2f-4b6a-8c0e-1f2a3b4c5d6e';
+const MANAGER_ID = '7e6d5c4b-3a2f-4e1d-9c8b-7a6f5e4d3c2b';
+const PROJECT_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+
+const message = {
+    from: { address: 'no-reply@example.com', name: 'Ancestry Research' },
+    to: { address: 'jane@example.com', name: 'Jane Smith' },
+    subject: 'Research update',
+    text: 'Hello Jane,\n.\nA line starting with a dot',
+    html: '<p>Hello Jane</p>'
+};
+
+const decodePart = (source, contentType) => {
+    const part = source.split(`Content-Type: ${contentType}; charset=utf-8\r\n`)[1];
+    const body = part.split('\r\n\r\n')[1].split('\r\n--')[0];
+    return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+};
+
+describe('Email Templates', () => {
+    test('should render the password reset link in both bodies', () => {
+        const email = renderEmail('password_reset', {
+            firstName: 'Jane',
+            resetUrl: 'http://localhost:5173/reset-password?token=abc&x=1',
+            expiresInMinutes: 60
+        });
+
+        expect(email.subject).toBe('Reset your Ancestry Research password');
+        expect(email.text).toContain('http://localhost:5173/reset-password?token=abc&x=1');
+        expect(email.text).toContain('within 60 minutes');
+        expect(email.html).toContain('href="http://localhost:5173/reset-password?token=abc&amp;x=1"');
+        expect(email.html).not.toContain('/settings');
+    });
+
+    test('should escape user content and link to the notification settings', () => {
+        const email = renderEmail('research_update', {
+            firstName: 'Jane',
+            projectTitle: 'Smith <script>alert(1)</script>',
+            message: 'Found the 1851 census entry',
+            actorName: 'Mary Jones',
+            projectUrl: `http://localhost:5173/projects/${PROJECT_ID}`
+        });
+
+        expect(email.subject).toBe('Research update: Smith <script>alert(1)</script>');
+        expect(email.html).not.toContain('<script>');
+        expect(email.html).toContain('Smith &lt;script&gt;');
+        expect(email.html).toContain('/settings');
+        expect(email.text).toContain('Posted by Mary Jones');
+        expect(email.text).toContain('Change which emails you receive');
+    });
+
+    test('should reject unknown templates', () => {
+        expect(() => renderEmail('newsletter', {})).toThrow("Email template 'newsletter' not found");
+    });
+});
+
+describe('MIME Messages', () => {
+    test('should format mailboxes and encode non-ASCII names', () => {
+        expect(formatAddress({ address: 'jane@example.com' })).toBe('<jane@example.com>');
+        expect(formatAddress({ address: 'jane@example.com', name: 'Jane "JJ" Smith' }))
+            .toBe('"Jane \\"JJ\\" Smith" <jane@example.com>');
+        expect(formatAddress({ address: 'zoe@example.com', name: 'Zoë' }))
+            .toBe(`=?UTF-8?B?${Buffer.from('Zoë').toString('base64')}?= <zoe@example.com>`);
+    });
+
+    test('should build a multipart message with text and HTML alternatives', () => {
+        const { messageId, source } = buildMimeMessage({
+            ...message,
+            subject: 'Généalogie',
+            date: new Date(Date.UTC(2026, 0, 15, 12, 0, 0))
+        });
+
+        expect(messageId).toMatch(/^<[0-9a-f-]+@example\.com>$/);
+        expect(source).toContain(`Message-ID: ${messageId}\r\n`);
+        expect(source).toContain('Date: Thu, 15 Jan 2026 12:00:00 GMT\r\n');
+        expect(source).toContain(`Subject: =?UTF-8?B?${Buffer.from('Généalogie').toString('base64')}?=\r\n`);
+        expect(source).toContain('Content-Type: multipart/alternative;');
+        expect(decodePart(source, 'text/plain')).toBe(message.text);
+        expect(decodePart(source, 'text/html')).toBe(message.html);
+        expect(source).not.toMatch(/[^\r]\n/);
+    });
+
+    test('should attach files after the alternatives', () => {
+        const content = Buffer.from('%PDF-1.4 report');
+        const { source } = buildMimeMessage({
+            ...message,
+            attachments: [{ filename: 'Smith_Family_report.pdf', contentType: 'application/pdf', content }]
+        });
+
+        const mixedBoundary = source.match(/Content-Type: multipart\/mixed; boundary="([^"]+)"/)[1];
+        expect(source.indexOf('Content-Type: multipart/alternative;')).toBeGreaterThan(source.indexOf(mixedBoundary));
+        expect(source).toContain('Content-Disposition: attachment; filename="Smith_Family_report.pdf"\r\n');
+        expect(source).toContain(`\r\n\r\n${content.toString('base64')}\r\n--${mixedBoundary}--\r\n`);
+        expect(decodePart(source, 'text/html')).toBe(message.html);
+    });
+});
+
+describe('SMTP Transport', () => {
+    let server;
+    let port;
+    let session;
+
+    // A minimal SMTP server that records the commands and the message it receives
+    beforeEach(done => {
+        session = { commands: [], data: '' };
+
+        server = net.createServer(socket => {
+            let buffer = '';
+            let inData = false;
+
+            socket.write('220 localhost ESMTP test\r\n');
+            socket.on('data', chunk => {
+                buffer += chunk.toString('utf8');
+
+                let newline;
+                while ((newline = buffer.indexOf('\r\n')) !== -1) {
+                    const line = buffer.slice(0, newline);
+                    buffer = buffer.slice(newline + 2);
+
+                    if (inData) {
+                        if (line === '.') {
+                            inData = false;
+                            socket.write('250 2.0.0 Ok: queued\r\n');
+                        } else {
+                            session.data += line + '\r\n';
+                        }
+                        continue;
+                    }
+
+                    session.commands.push(line);
+
+                    if (line.startsWith('EHLO')) {
+                        socket.write('250-localhost\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+                    } else if (line.startsWith('AUTH PLAIN')) {
+                        socket.write('235 2.7.0 Authentication successful\r\n');
+                    } else if (line.startsWith('RCPT TO') && line.includes('unknown@')) {
+                        socket.write('550 5.1.1 Mailbox unavailable\r\n');
+                    } else if (line === 'DATA') {
+                        inData = true;
+                        socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+                    } else if (line === 'QUIT') {
+                        socket.end('221 2.0.0 Bye\r\n');
+                    } else {
+                        socket.write('250 2.0.0 Ok\r\n');
+                    }
+                }
+            });
+        });
+
+        server.listen(0, '127.0.0.1', () => {
+            port = server.address().port;
+            done();
+        });
+    });
+
+    afterEach(done => {
+        server.close(done);
+    });
+
+    test('should authenticate and deliver a message', async () => {
+        const transport = new SmtpTransport({
+            host: '127.0.0.1', port, user: 'mailer', password: 'secret', requireTls: false, allowInsecureAuth: true, timeoutMs: 2000
+        });
+
+        const { messageId } = await transport.send(message);
+
+        expect(messageId).toMatch(/@example\.com>$/);
+        expect(session.commands[0]).toMatch(/^EHLO /);
+        expect(session.commands).toContain(`AUTH PLAIN ${Buffer.from('\u0000mailer\u0000secret').toString('base64')}`);
+        expect(session.commands).toContain('MAIL FROM:<no-reply@example.com>');
+        expect(session.commands).toContain('RCPT TO:<jane@example.com>');
+        expect(session.commands[session.commands.length - 1]).toBe('QUIT');
+        expect(session.data).toContain(`Message-ID: ${messageId}`);
+        expect(session.data).toContain('Subject: Research update');
+    });
+
+    test('should refuse to send without TLS when TLS is required', async () => {
+        const transport = new SmtpTransport({ host: '127.0.0.1', port, requireTls: true, timeoutMs: 2000 });
+
+        await expect(transport.send(message)).rejects.toThrow('SMTP server does not support STARTTLS');
+        expect(session.commands).not.toContain('MAIL FROM:<no-reply@example.com>');
+    });
+
+    test('should require TLS by default when credentials are configured', async () => {
+        const transport = new SmtpTransport({ host: '127.0.0.1', port, user: 'mailer', password: 'secret', timeoutMs: 2000 });
+
+        await expect(transport.send(message)).rejects.toThrow('SMTP server does not support STARTTLS');
+        expect(session.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+    });
+
+    test('should not send credentials over an unencrypted connection unless allowed', async () => {
+        const transport = new SmtpTransport({ host: '127.0.0.1', port, user: 'mailer', password: 'secret', requireTls: false, timeoutMs: 2000 });
+
+        await expect(transport.send(message)).rejects.toThrow('SMTP credentials are only sent over an encrypted connection');
+        expect(session.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+    });
+
+    test('should report rejected recipients', async () => {
+        const transport = new SmtpTransport({ host: '127.0.0.1', port, timeoutMs: 2000 });
+
+        await expect(transport.send({ ...message, to: { address: 'unknown@example.com' } }))
+            .rejects.toThrow('SMTP error 550: 5.1.1 Mailbox unavailable');
+    });
+});
+
+describe('Mail Service', () => {
+    const transport = getMailTransport();
+
+    const outboxEmail = (overrides = {}) => ({
+        email_id: 'e1',
+        to_address: 'jane@example.com',
+        to_name: 'Jane Smith',
+        subject: 'Research update',
+        text_body: 'Hello',
+        html_body: '<p>Hello</p>',
+        status: 'pending',
+        attempts: 0,
+        max_attempts: 5,
+        next_attempt_at: new Date(),
+        ...overrides
+    });
+
+    const user = (userId, firstName, profile) => ({
+        user_id: userId,
+        email: `${firstName.toLowerCase()}@example.com`,
+        first_name: firstName,
+        last_name: 'Smith',
+        ClientProfile: profile
+    });
+
+    beforeEach(() => {
+        transport.clear();
+        jest.spyOn(emailOutboxRepository, 'create').mockImplementation(async data => data);
+        jest.spyOn(emailOutboxRepository, 'update').mockResolvedValue({});
+        jest.spyOn(emailOutboxRepository, 'claimEmail').mockResolvedValue(true);
+        jest.spyOn(Project, 'findAll').mockResolvedValue([{ id: PROJECT_ID, title: 'Smith Family' }]);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should use memory delivery in tests', () => {
+        expect(transport.name).toBe('memory');
+    });
+
+    test('should back off between retries', () => {
+        expect(mailService.getRetryDelay(1)).toBe(60 * 1000);
+        expect(mailService.getRetryDelay(2)).toBe(5 * 60 * 1000);
+        expect(mailService.getRetryDelay(5)).toBe(12 * 60 * 60 * 1000);
+        expect(mailService.getRetryDelay(9)).toBe(12 * 60 * 60 * 1000);
+    });
+
+    test('should email project assignments and research updates that users opted into', async () => {
+        jest.spyOn(User, 'findAll').mockResolvedValue([
+            user(CLIENT_ID, 'Jane', { email_notifications: true, research_updates: true }),
+            user(MANAGER_ID, 'Mary', null)
+        ]);
+
+        const queued = await mailService.notifyUserEvents([
+            { user_id: CLIENT_ID, actor_id: MANAGER_ID, event_type: 'project_assigned', message: 'Assigned', entity_id: PROJECT_ID, entity_type: 'project' },
+            { user_id: CLIENT_ID, actor_id: MANAGER_ID, event_type: 'document_created', message: 'Added a will', project_ids: [PROJECT_ID] },
+            { user_id: MANAGER_ID, actor_id: MANAGER_ID, event_type: 'document_created', message: 'Added a will', project_ids: [PROJECT_ID] },
+            { user_id: CLIENT_ID, actor_id: MANAGER_ID, event_type: 'person_updated', message: 'Updated', project_ids: [PROJECT_ID] }
+        ]);
+
+        expect(queued.map(email => email.template)).toEqual(['project_assigned', 'research_update']);
+        expect(queued[0]).toMatchObject({ user_id: CLIENT_ID, to_address: 'jane@example.com', subject: 'You have been added to "Smith Family"' });
+        expect(queued[1].text_body).toContain('Posted by Mary Smith');
+        expect(queued[1].text_body).toContain(`/projects/${PROJECT_ID}`);
+    });
+
+    test('should honor turned off preferences and skip staff for research updates', async () => {
+        jest.spyOn(User, 'findAll').mockResolvedValue([
+            user(CLIENT_ID, 'Jane', { email_notifications: false, research_updates: false }),
+            user(MANAGER_ID, 'Mary', null)
+        ]);
+
+        const queued = await mailService.notifyUserEvents([
+            { user_id: CLIENT_ID, actor_id: MANAGER_ID, event_type: 'project_assigned', message: 'Assigned', entity_id: PROJECT_ID, entity_type: 'project' },
+            { user_id: CLIENT_ID, actor_id: MANAGER_ID, event_type: 'research_entry_created', message: 'Milestone', project_ids: [PROJECT_ID] },
+            { user_id: MANAGER_ID, actor_id: CLIENT_ID, event_type: 'research_entry_created', message: 'Milestone', project_ids: [PROJECT_ID] }
+        ]);
+
+        expect(queued).toEqual([]);
+        expect(emailOutboxRepository.create).not.toHaveBeenCalled();
+    });
+
+    test('should mark delivered emails as sent', async () => {
+        jest.spyOn(emailOutboxRepository, 'findDueEmails').mockResolvedValue([outboxEmail()]);
+
+        const result = await mailService.processOutbox();
+
+        expect(result).toEqual({ sent: 1, failed: 0 });
+        expect(transport.sent).toHaveLength(1);
+        expect(transport.sent[0].to).toEqual({ address: 'jane@example.com', name: 'Jane Smith' });
+        expect(emailOutboxRepository.update).toHaveBeenCalledWith('e1', expect.objectContaining({
+            status: 'sent',
+            attempts: 1,
+            transport: 'memory',
+            provider_message_id: transport.sent[0].messageId
+        }));
+    });
+
+    test('should store attachments with the email and deliver them as files', async () => {
+        const content = Buffer.from('%PDF-1.4 report');
+
+        const queued = await mailService.queueEmail({
+            to: 'jane@example.com',
+            template: 'family_history_report',
+            data: { firstName: 'Jane', projectTitle: 'Smith Family', fileName: 'report.pdf', projectUrl: 'http://localhost/projects/1' },
+            attachments: [{ filename: 'report.pdf', contentType: 'application/pdf', content }]
+        });
+
+        expect(queued.attachments).toEqual([{ filename: 'report.pdf', content_type: 'application/pdf', content: content.toString('base64') }]);
+        expect(queued.text_body).toContain('attached to this email as report.pdf');
+
+        jest.spyOn(emailOutboxRepository, 'findDueEmails').mockResolvedValue([outboxEmail({ attachments: queued.attachments })]);
+        await mailService.processOutbox();
+
+        expect(transport.sent[0].attachments).toEqual([{ filename: 'report.pdf', contentType: 'application/pdf', content }]);
+    });
+
+    test('should schedule a retry when delivery fails', async () => {
+        jest.spyOn(emailOutboxRepository, 'findDueEmails').mockResolvedValue([outboxEmail({ attempts: 1 })]);
+        jest.spyOn(transport, 'send').mockRejectedValue(new Error('Connection refused'));
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        const before = Date.now();
+
+        const result = await mailService.processOutbox();
+
+        expect(result).toEqual({ sent: 0, failed: 1 });
+        const [, changes] = emailOutboxRepository.update.mock.calls[0];
+        expect(changes).toMatchObject({ status: 'pending', attempts: 2, last_error: 'Connection refused' });
+        expect(changes.next_attempt_at.getTime()).toBeGreaterThanOrEqual(before + 5 * 60 * 1000);
+    });
+
+    test('should give up after the last attempt', async () => {
+        jest.spyOn(emailOutboxRepository, 'findDueEmails').mockResolvedValue([outboxEmail({ attempts: 4 })]);
+        jest.spyOn(transport, 'send').mockRejectedValue(new Error('Mailbox full'));
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        await mailService.processOutbox();
+
+        expect(emailOutboxRepository.update).toHaveBeenCalledWith('e1', expect.objectContaining({
+            status: 'failed',
+            attempts: 5,
+            last_error: 'Mailbox full'
+        }));
+    });
+
+    test('should skip emails claimed by another worker', async () => {
+        jest.spyOn(emailOutboxRepository, 'findDueEmails').mockResolvedValue([outboxEmail()]);
+        emailOutboxRepository.claimEmail.mockResolvedValue(false);
+
+        const result = await mailService.processOutbox();
+
+        expect(result).toEqual({ sent: 0, failed: 0 });
+        expect(transport.sent).toHaveLength(0);
+    });
+});
@@ -0,0 +1,155 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const personRepository = require('../repositories/personRepository');
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const migrationMapService = require('../services/migrationMapService');
+const { geocodeLocation } = require('../utils/gazetteer');
+
+const USER_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const PROJECT_ID = '5e6f7a8b-9c0d-4e1f-8a3b-4c5d6e7f8a9b';
+const FATHER_ID = '6f7a8b9c-0d1e-4f2a-9b4c-5d6e7f8a9b0c';
+const SON_ID = '7a8b9c0d-1e2f-4a3b-8c5d-6e7f8a9b0c1d';
+const MOTHER_ID = '8b9c0d1e-2f3a-4b4c-9d6e-7f8a9b0c1d2e';
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Gazetteer Geocoding', () => {
+    it('should read a location from the largest place down', () => {
+        expect(geocodeLocation('Queenstown, Co. Cork, Ireland').id).toBe('IE-CO-COBH');
+        expect(geocodeLocation('New York, NY, USA').id).toBe('US-NY-NEWYORK');
+    });
+
+    it('should pass over parts it does not know and settle on the smallest known place', () => {
+        expect(geocodeLocation('12 Tremont Street, Boston, Massachusetts').id).toBe('US-MA-BOSTON');
+        expect(geocodeLocation('Springfield, Illinois').id).toBe('US-IL');
+    });
+
+    it('should take the larger place when a name is used at two levels', () => {
+        expect(geocodeLocation('New York').id).toBe('US-NY');
+    });
+
+    it('should not place a location with no known part', () => {
+        expect(geocodeLocation('Ballynowhere')).toBeNull();
+        expect(geocodeLocation('')).toBeNull();
+    });
+});
+
+describe('Migration Map Service', () => {
+    const mockProject = (persons, relationships = []) => {
+        jest.spyOn(projectRepository, 'exists').mockResolvedValue(true);
+        jest.spyOn(projectRepository, 'getProjectPersons').mockResolvedValue(persons.map(({ person_id }) => ({ person_id })));
+        jest.spyOn(personRepository, 'findWithPlacedEvents').mockResolvedValue(persons);
+        jest.spyOn(relationshipRepository, 'findRelationshipsInvolvingPersons').mockResolvedValue(relationships);
+    };
+
+    const father = {
+        person_id: FATHER_ID,
+        first_name: 'Patrick',
+        last_name: 'Walsh',
+        birth_date: '1850-03-12',
+        birth_location: 'Cork, Ireland',
+        death_date: '1920-01-05',
+        death_location: 'Boston, Massachusetts',
+        events: [{
+            event_id: 'e1',
+            event_type: 'immigration',
+            event_date: '1880-05-01',
+            event_location: 'Ellis Island',
+            person_events: { role: 'primary' },
+            place: null
+        }]
+    };
+
+    it('should map events by their location text and stand in vital details for missing events', async () => {
+        mockProject([father]);
+
+        const map = await migrationMapService.getMigrationMap(PROJECT_ID);
+
+        expect(map.points.map(point => [point.event_type, point.precision])).toEqual([
+            ['birth', 'city'],
+            ['immigration', 'city'],
+            ['death', 'city']
+        ]);
+        expect(map.points[1]).toMatchObject({ event_id: 'e1', latitude: 40.6995, longitude: -74.0396 });
+        expect(map.points[0].event_id).toBeNull();
+    });
+
+    it('should prefer the coordinates of a linked place', async () => {
+        mockProject([{
+            ...father,
+            events: [],
+            birthPlace: { place_id: 'p1', full_name: 'Cork, County Cork, Ireland', latitude: '51.900000', longitude: '-8.500000' }
+        }]);
+
+        const map = await migrationMapService.getMigrationMap(PROJECT_ID);
+
+        expect(map.points[0]).toMatchObject({
+            event_type: 'birth',
+            location: 'Cork, County Cork, Ireland',
+            latitude: 51.9,
+            longitude: -8.5,
+            precision: 'place'
+        });
+    });
+
+    it('should list locations it cannot place', async () => {
+        mockProject([{ ...father, events: [], death_location: 'Ballynowhere' }]);
+
+        const map = await migrationMapService.getMigrationMap(PROJECT_ID);
+
+        expect(map.unlocated).toEqual([
+            { person_id: FATHER_ID, event_id: null, event_type: 'death', location: 'Ballynowhere' }
+        ]);
+    });
+
+    it('should group persons by birth surname and link parents to children in the parent\'s lineage', async () => {
+        const son = { person_id: SON_ID, first_name: 'John', last_name: 'Walsh', birth_location: 'Boston', events: [] };
+        const mother = { person_id: MOTHER_ID, first_name: 'Mary', last_name: 'Walsh', maiden_name: 'Byrne', events: [] };
+        mockProject([{ ...father, events: [] }, son, mother], [
+            { relationship_type: 'parent', person1_id: FATHER_ID, person2_id: SON_ID },
+            { relationship_type: 'child', person1_id: SON_ID, person2_id: FATHER_ID },
+            { relationship_type: 'child', person1_id: SON_ID, person2_id: MOTHER_ID },
+            { relationship_type: 'spouse', person1_id: FATHER_ID, person2_id: MOTHER_ID }
+        ]);
+
+        const map = await migrationMapService.getMigrationMap(PROJECT_ID);
+
+        expect(map.lineages).toEqual([
+            { name: 'Walsh', person_ids: [FATHER_ID, SON_ID] },
+            { name: 'Byrne', person_ids: [MOTHER_ID] }
+        ]);
+        expect(map.links).toEqual([
+            { parent_id: FATHER_ID, child_id: SON_ID, lineage: 'Walsh' },
+            { parent_id: MOTHER_ID, child_id: SON_ID, lineage: 'Byrne' }
+        ]);
+    });
+});
+
+describe('Migration Map API', () => {
+    const token = jwt.sign({ user_id: USER_ID, roles: ['manager'] }, process.env.JWT_SECRET);
+
+    it('should return the map of a project', async () => {
+        jest.spyOn(migrationMapService, 'getMigrationMap').mockResolvedValue({ persons: [], lineages: [], points: [], links: [], unlocated: [] });
+
+        const res = await request(app)
+            .get(`/api/projects/${PROJECT_ID}/map`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(200);
+        expect(migrationMapService.getMigrationMap).toHaveBeenCalledWith(PROJECT_ID);
+    });
+
+    it('should return 404 for a missing project', async () => {
+        jest.spyOn(projectRepository, 'exists').mockResolvedValue(false);
+
+        const res = await request(app)
+            .get(`/api/projects/${PROJECT_ID}/map`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(404);
+    });
+});
@@ -0,0 +1,189 @@
+const fs = require('fs');
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const tesseract = require('../utils/tesseract');
+const documentRepository = require('../repositories/documentRepository');
+const documentService = require('../services/documentService');
+const historyService = require('../services/historyService');
+const ocrService = require('../services/ocrService');
+const ProjectUtils = require('../utils/projectUtils');
+const TransactionManager = require('../utils/transactionManager');
+
+const USER_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const DOCUMENT_ID = '8b9c0d1e-2f3a-4b4c-9d6e-7f8a9b0c1d2e';
+
+const TSV_HEADER = 'level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext';
+const word = (page, block, par, line, conf, text) => `5\t${page}\t${block}\t${par}\t${line}\t1\t0\t0\t10\t10\t${conf}\t${text}`;
+
+const pendingDocument = (overrides = {}) => ({
+    document_id: DOCUMENT_ID,
+    file_path: 'scan.png',
+    mime_type: 'image/png',
+    ocr_status: 'pending',
+    ocr_attempts: 0,
+    ...overrides
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Tesseract output', () => {
+    it('should join words into lines and paragraphs with the mean confidence of each page', () => {
+        const tsv = [
+            TSV_HEADER,
+            '1\t1\t0\t0\t0\t0\t0\t0\t100\t100\t-1\t',
+            word(1, 1, 1, 1, 90, 'Patrick'),
+            word(1, 1, 1, 1, 80, 'Walsh'),
+            word(1, 1, 1, 2, 70, 'Cork'),
+            word(1, 1, 2, 1, 60, '1850'),
+            word(1, 1, 2, 1, -1, ' '),
+            word(2, 1, 1, 1, 95, 'Boston')
+        ].join('\n');
+
+        expect(tesseract.parseTsv(tsv)).toEqual([
+            { page: 1, text: 'Patrick Walsh\nCork\n\n1850', confidence: 75 },
+            { page: 2, text: 'Boston', confidence: 95 }
+        ]);
+    });
+
+    it('should read no pages from output without words', () => {
+        expect(tesseract.parseTsv(`${TSV_HEADER}\n`)).toEqual([]);
+    });
+});
+
+describe('OCR Service', () => {
+    const mockQueue = (document) => {
+        jest.spyOn(documentRepository, 'findDocumentsAwaitingOcr').mockResolvedValue([document]);
+        jest.spyOn(documentRepository, 'claimForOcr').mockResolvedValue(true);
+        return jest.spyOn(documentRepository, 'bulkUpdate').mockResolvedValue(1);
+    };
+
+    it('should store the text of each page and start the transcription unless it was corrected', async () => {
+        const bulkUpdate = mockQueue(pendingDocument());
+        jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+        jest.spyOn(tesseract, 'recognizeFile').mockResolvedValue([
+            { page: 1, text: 'Patrick Walsh', confidence: 91.5 },
+            { page: 2, text: '', confidence: null },
+            { page: 3, text: 'Cork', confidence: 62 }
+        ]);
+
+        const result = await ocrService.processPending();
+
+        expect(result).toEqual({ completed: 1, failed: 0 });
+        expect(bulkUpdate).toHaveBeenCalledWith(expect.objectContaining({
+            ocr_status: 'completed',
+            ocr_attempts: 1,
+            ocr_pages: expect.arrayContaining([{ page: 1, text: 'Patrick Walsh', confidence: 91.5 }])
+        }), { where: { document_id: DOCUMENT_ID, file_path: 'scan.png' } });
+        expect(bulkUpdate).toHaveBeenCalledWith(
+            { transcription: 'Patrick Walsh\n\nCork' },
+            { where: { document_id: DOCUMENT_ID, file_path: 'scan.png', transcription_updated_at: null } }
+        );
+    });
+
+    it('should retry a failed run and give up after the last attempt', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+        jest.spyOn(tesseract, 'recognizeFile').mockRejectedValue(new Error('OCR failed: tesseract is not installed'));
+
+        let bulkUpdate = mockQueue(pendingDocument());
+        expect(await ocrService.processPending()).toEqual({ completed: 0, failed: 1 });
+        expect(bulkUpdate).toHaveBeenCalledWith(
+            { ocr_status: 'pending', ocr_attempts: 1, ocr_error: 'OCR failed: tesseract is not installed' },
+            expect.anything()
+        );
+
+        jest.restoreAllMocks();
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(fs, 'existsSync').mockReturnValue(false);
+        bulkUpdate = mockQueue(pendingDocument({ ocr_attempts: 2 }));
+        await ocrService.processPending();
+        expect(bulkUpdate).toHaveBeenCalledWith(
+            { ocr_status: 'failed', ocr_attempts: 3, ocr_error: 'OCR failed: file not found on server' },
+            expect.anything()
+        );
+    });
+
+    it('should skip documents claimed by another worker', async () => {
+        jest.spyOn(documentRepository, 'findDocumentsAwaitingOcr').mockResolvedValue([pendingDocument()]);
+        jest.spyOn(documentRepository, 'claimForOcr').mockResolvedValue(false);
+        const recognizeFile = jest.spyOn(tesseract, 'recognizeFile');
+
+        expect(await ocrService.processPending()).toEqual({ completed: 0, failed: 0 });
+        expect(recognizeFile).not.toHaveBeenCalled();
+    });
+});
+
+describe('Document Service transcription', () => {
+    const currentDocument = {
+        ...pendingDocument({ ocr_status: 'completed', transcription: 'Patrik Walsh', title: 'Passenger list', document_type: 'certificate' }),
+        toJSON() {
+            return { ...this };
+        }
+    };
+
+    beforeEach(() => {
+        jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async (callback) => callback({}));
+        jest.spyOn(historyService, 'recordChange').mockResolvedValue(null);
+        jest.spyOn(documentRepository, 'findById').mockResolvedValue(currentDocument);
+    });
+
+    it('should record who corrected the transcription and ignore OCR fields from callers', async () => {
+        const update = jest.spyOn(documentRepository, 'update').mockResolvedValue({});
+
+        await documentService.updateDocument(DOCUMENT_ID, { transcription: 'Patrick Walsh', ocr_status: 'completed' }, { userId: USER_ID });
+
+        expect(update).toHaveBeenCalledWith(DOCUMENT_ID, {
+            transcription: 'Patrick Walsh',
+            transcription_updated_by: USER_ID,
+            transcription_updated_at: expect.any(Date)
+        }, expect.anything());
+    });
+
+    it('should read a replaced file again from scratch', async () => {
+        const update = jest.spyOn(documentRepository, 'update').mockResolvedValue({});
+
+        await documentService.updateDocument(DOCUMENT_ID, { file_path: 'rescan.pdf', mime_type: 'application/pdf' }, { userId: USER_ID });
+
+        expect(update).toHaveBeenCalledWith(DOCUMENT_ID, expect.objectContaining({
+            ocr_status: 'pending',
+            ocr_pages: null,
+            ocr_attempts: 0,
+            transcription: null,
+            transcription_updated_at: null
+        }), expect.anything());
+    });
+});
+
+describe('OCR API', () => {
+    const token = jwt.sign({ user_id: USER_ID, roles: ['manager'] }, process.env.JWT_SECRET);
+
+    beforeEach(() => {
+        jest.spyOn(ProjectUtils, 'canAccessEntity').mockResolvedValue(true);
+    });
+
+    it('should queue a document to be read again', async () => {
+        jest.spyOn(documentRepository, 'findById').mockResolvedValue(pendingDocument({ ocr_status: 'failed', ocr_attempts: 3 }));
+        const update = jest.spyOn(documentRepository, 'update').mockResolvedValue(pendingDocument());
+
+        const res = await request(app)
+            .post(`/api/documents/${DOCUMENT_ID}/ocr`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(202);
+        expect(update).toHaveBeenCalledWith(DOCUMENT_ID, { ocr_status: 'pending', ocr_attempts: 0, ocr_error: null });
+    });
+
+    it('should refuse files the OCR engine cannot read', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        jest.spyOn(documentRepository, 'findById').mockResolvedValue(pendingDocument({ file_path: 'letter.docx', mime_type: 'application/msword' }));
+
+        const res = await request(app)
+            .post(`/api/documents/${DOCUMENT_ID}/ocr`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,271 @@
+const crypto = require('crypto');
+const StripeProvider = require('../services/payments/stripeProvider');
+const FakeProvider = require('../services/payments/fakeProvider');
+const { getPaymentProvider, assertPaymentProviderConfigured } = require('../services/payments');
+const billingService = require('../services/billingService');
+const orderRepository = require('../repositories/orderRepository');
+const projectRepository = require('../repositories/projectRepository');
+const TransactionManager = require('../utils/transactionManager');
+const { ProjectUser } = require('../models');
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+const NOW = Date.UTC(2026, 0, 15, 12, 0, 0);
+
+const signStripePayload = (payload, timestamp, secret = WEBHOOK_SECRET) => {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+};
+
+const checkoutEvent = (type, session = {}) => JSON.stringify({
+    id: 'evt_123',
+    type,
+    data: {
+        object: {
+            id: 'cs_test_123',
+            payment_intent: 'pi_test_456',
+            payment_status: 'paid',
+            client_reference_id: 'order-1',
+            metadata: { order_id: 'order-1' },
+            ...session
+        }
+    }
+});
+
+describe('Stripe Payment Provider', () => {
+    const stripe = new StripeProvider({ secretKey: 'sk_test_key', webhookSecret: WEBHOOK_SECRET });
+    const timestamp = Math.floor(NOW / 1000);
+
+    test('should accept a correctly signed completed checkout as a payment', () => {
+        const payload = checkoutEvent('checkout.session.completed');
+
+        const event = stripe.constructEvent(Buffer.from(payload), signStripePayload(payload, timestamp), NOW);
+
+        expect(event).toEqual({
+            type: 'payment_succeeded',
+            eventId: 'evt_123',
+            sessionId: 'cs_test_123',
+            paymentId: 'pi_test_456',
+            orderId: 'order-1'
+        });
+    });
+
+    test('should reject a payload signed with another secret', () => {
+        const payload = checkoutEvent('checkout.session.completed');
+        const signature = signStripePayload(payload, timestamp, 'whsec_other');
+
+        expect(() => stripe.constructEvent(payload, signature, NOW)).toThrow('Invalid webhook signature');
+    });
+
+    test('should reject a payload altered after signing', () => {
+        const payload = checkoutEvent('checkout.session.completed');
+        const signature = signStripePayload(payload, timestamp);
+        const altered = payload.replace('order-1', 'order-2');
+
+        expect(() => stripe.constructEvent(altered, signature, NOW)).toThrow('Invalid webhook signature');
+    });
+
+    test('should reject a replayed delivery outside the tolerance window', () => {
+        const payload = checkoutEvent('checkout.session.completed');
+        const signature = signStripePayload(payload, timestamp - 600);
+
+        expect(() => stripe.constructEvent(payload, signature, NOW)).toThrow('timestamp outside the tolerance zone');
+    });
+
+    test('should wait for delayed payment methods before treating checkout as paid', () => {
+        const pending = checkoutEvent('checkout.session.completed', { payment_status: 'unpaid' });
+        const succeeded = checkoutEvent('checkout.session.async_payment_succeeded');
+
+        expect(stripe.constructEvent(pending, signStripePayload(pending, timestamp), NOW).type).toBe('ignored');
+        expect(stripe.constructEvent(succeeded, signStripePayload(succeeded, timestamp), NOW).type).toBe('payment_succeeded');
+    });
+
+    test('should map failed and expired checkouts', () => {
+        const failed = checkoutEvent('checkout.session.async_payment_failed');
+        const expired = checkoutEvent('checkout.session.expired');
+        const other = checkoutEvent('customer.created');
+
+        expect(stripe.constructEvent(failed, signStripePayload(failed, timestamp), NOW).type).toBe('payment_failed');
+        expect(stripe.constructEvent(expired, signStripePayload(expired, timestamp), NOW).type).toBe('checkout_expired');
+        expect(stripe.constructEvent(other, signStripePayload(other, timestamp), NOW).type).toBe('ignored');
+    });
+
+    test('should refuse to start checkout without an API key', async () => {
+        const unconfigured = new StripeProvider({ webhookSecret: WEBHOOK_SECRET });
+
+        await expect(unconfigured.createCheckoutSession({
+            order: { order_id: 'order-1', amount_cents: 49900, currency: 'usd' },
+            servicePackage: { name: 'Family Tree Starter' }
+        })).rejects.toThrow('Stripe is not configured');
+    });
+});
+
+describe('Fake Payment Provider', () => {
+    const fake = new FakeProvider({
+        webhookSecret: 'fake-secret',
+        checkoutUrl: 'http://localhost:5173/checkout/test-payment'
+    });
+
+    test('should send checkout to the test payment page', async () => {
+        const session = await fake.createCheckoutSession({ order: { order_id: 'order-1' } });
+
+        expect(session.sessionId).toMatch(/^fake_cs_/);
+        expect(session.url).toBe(`http://localhost:5173/checkout/test-payment?order_id=order-1&session_id=${session.sessionId}`);
+    });
+
+    test('should deliver signed events that verify', () => {
+        const { payload, signature } = fake.buildEvent('payment_succeeded', { sessionId: 'fake_cs_1', orderId: 'order-1' });
+
+        const event = fake.constructEvent(payload, signature);
+
+        expect(event.type).toBe('payment_succeeded');
+        expect(event.sessionId).toBe('fake_cs_1');
+        expect(event.orderId).toBe('order-1');
+        expect(event.paymentId).toMatch(/^fake_pi_/);
+    });
+
+    test('should reject events with a forged signature', () => {
+        const { payload } = fake.buildEvent('payment_succeeded', { sessionId: 'fake_cs_1', orderId: 'order-1' });
+        const forged = crypto.createHmac('sha256', 'guessed-secret').update(payload).digest('hex');
+
+        expect(() => fake.constructEvent(payload, forged)).toThrow('Invalid webhook signature');
+        expect(() => fake.constructEvent(payload, undefined)).toThrow('Invalid webhook signature');
+    });
+
+    test('should only build known event types', () => {
+        expect(() => fake.buildEvent('refund_issued', { sessionId: 'fake_cs_1' })).toThrow('Unknown payment event type');
+    });
+});
+
+describe('Payment provider selection', () => {
+    test('should look up providers by name', () => {
+        expect(getPaymentProvider('fake').name).toBe('fake');
+        expect(getPaymentProvider('stripe').name).toBe('stripe');
+        expect(() => getPaymentProvider('paypal')).toThrow("Payment provider 'paypal' not found");
+    });
+
+    describe('outside tests', () => {
+        const env = { ...process.env };
+
+        beforeEach(() => {
+            delete process.env.PAYMENT_PROVIDER;
+            delete process.env.STRIPE_SECRET_KEY;
+            delete process.env.STRIPE_WEBHOOK_SECRET;
+        });
+
+        afterEach(() => {
+            process.env = { ...env };
+        });
+
+        test('should only use the fake provider when asked for', () => {
+            process.env.NODE_ENV = 'development';
+            expect(() => assertPaymentProviderConfigured()).toThrow('No payment provider is configured');
+
+            process.env.PAYMENT_PROVIDER = 'fake';
+            expect(() => assertPaymentProviderConfigured()).not.toThrow();
+        });
+
+        test('should refuse Stripe without its keys', () => {
+            process.env.NODE_ENV = 'production';
+            process.env.PAYMENT_PROVIDER = 'stripe';
+            expect(() => assertPaymentProviderConfigured()).toThrow('Stripe is not configured');
+
+            process.env.STRIPE_SECRET_KEY = 'sk_live_1';
+            process.env.STRIPE_WEBHOOK_SECRET = 'whsec_1';
+            expect(() => assertPaymentProviderConfigured()).not.toThrow();
+        });
+
+        test('should refuse the fake provider and its test payment route in production', () => {
+            process.env.NODE_ENV = 'production';
+            process.env.PAYMENT_PROVIDER = 'fake';
+
+            expect(() => getPaymentProvider('fake')).toThrow('the test payment provider is disabled in production');
+            expect(() => assertPaymentProviderConfigured()).toThrow('the test payment provider is disabled in production');
+
+            jest.isolateModules(() => {
+                const router = require('../routes/billing');
+                const paths = router.stack.filter(layer => layer.route).map(layer => layer.route.path);
+
+                expect(paths).toContain('/checkout');
+                expect(paths).not.toContain('/orders/:orderId/test-payment');
+            });
+        });
+    });
+});
+
+describe('Billing Service', () => {
+    const USER = { user_id: 'user-1', email: 'mary@example.com', first_name: 'Mary', last_name: 'Walsh' };
+    const PACKAGE = { package_id: 'package-1', name: 'Family History Starter', price_cents: 49900, currency: 'usd', is_active: true };
+    const pendingOrder = {
+        order_id: 'order-1',
+        user_id: USER.user_id,
+        project_id: null,
+        project_title: 'The Walsh family',
+        project_description: 'Where in Cork did they come from?',
+        status: 'pending',
+        amount_cents: 49900,
+        currency: 'usd',
+        servicePackage: { name: PACKAGE.name }
+    };
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should not open a project before the order is paid', async () => {
+        jest.spyOn(orderRepository, 'findPackageById').mockResolvedValue(PACKAGE);
+        const createOrder = jest.spyOn(orderRepository, 'create').mockResolvedValue(pendingOrder);
+        jest.spyOn(orderRepository, 'update').mockResolvedValue();
+        jest.spyOn(orderRepository, 'findOrderById').mockResolvedValue(pendingOrder);
+        const createProject = jest.spyOn(projectRepository, 'create');
+        const grantAccess = jest.spyOn(ProjectUser, 'create');
+
+        await billingService.startCheckout(USER, { package_id: PACKAGE.package_id, project_title: 'The Walsh family' });
+
+        expect(createOrder).toHaveBeenCalledWith(expect.objectContaining({ project_title: 'The Walsh family', project_description: null }));
+        expect(createOrder.mock.calls[0][0]).not.toHaveProperty('project_id');
+        expect(createProject).not.toHaveBeenCalled();
+        expect(grantAccess).not.toHaveBeenCalled();
+    });
+
+    const transaction = { LOCK: { UPDATE: 'UPDATE' } };
+
+    test('should open the client\'s project when the order is paid', async () => {
+        jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async callback => callback(transaction));
+        jest.spyOn(orderRepository, 'findById').mockResolvedValue(pendingOrder);
+        const createProject = jest.spyOn(projectRepository, 'create').mockResolvedValue({ id: 'project-1' });
+        const grantAccess = jest.spyOn(ProjectUser, 'create').mockResolvedValue({});
+        const updateOrder = jest.spyOn(orderRepository, 'update').mockResolvedValue();
+        jest.spyOn(orderRepository, 'nextInvoiceSequence').mockResolvedValue(42);
+        const createInvoice = jest.spyOn(orderRepository, 'createInvoice').mockResolvedValue({});
+        jest.spyOn(orderRepository, 'findOrderById').mockResolvedValue({ ...pendingOrder, status: 'paid' });
+
+        const { changed } = await billingService._markOrderPaid(pendingOrder, 'pi_1');
+
+        expect(changed).toBe(true);
+        expect(createProject).toHaveBeenCalledWith({
+            title: 'The Walsh family',
+            description: 'Where in Cork did they come from?',
+            status: 'active'
+        }, expect.anything());
+        expect(grantAccess).toHaveBeenCalledWith({ project_id: 'project-1', user_id: USER.user_id, access_level: 'view' }, expect.anything());
+        expect(updateOrder).toHaveBeenCalledWith('order-1', expect.objectContaining({ status: 'paid', project_id: 'project-1' }), expect.anything());
+        expect(createInvoice.mock.calls[0][0].invoice_number).toMatch(/^INV-\d{4}-00042$/);
+    });
+
+    test('should check whether an order is paid while it is locked', async () => {
+        jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async callback => callback(transaction));
+        // Another delivery paid the order after this one read it
+        const lockOrder = jest.spyOn(orderRepository, 'findById').mockResolvedValue({ ...pendingOrder, status: 'paid' });
+        const createProject = jest.spyOn(projectRepository, 'create');
+        const createInvoice = jest.spyOn(orderRepository, 'createInvoice');
+
+        const paid = await billingService._markOrderPaid(pendingOrder, 'pi_2');
+        const closed = await billingService._closeOrder(pendingOrder, 'failed');
+
+        expect(lockOrder).toHaveBeenCalledWith('order-1', { transaction, lock: 'UPDATE' });
+        expect(paid.changed).toBe(false);
+        expect(closed.changed).toBe(false);
+        expect(createProject).not.toHaveBeenCalled();
+        expect(createInvoice).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,136 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const personRepository = require('../repositories/personRepository');
+const personService = require('../services/personService');
+const ProjectUtils = require('../utils/projectUtils');
+const { numberAncestors, numberDescendants } = require('../utils/pedigreeNumbering');
+
+const PERSON_ID = '0b1c2d3e-4f5a-4b6c-8d7e-9f0a1b2c3d4e';
+
+const person = (id, gender, birthDate = null) => ({ person_id: id, first_name: id, last_name: 'Walsh', gender, birth_date: birthDate, death_date: null });
+
+// Rows as the recursive query returns them: kate is dan's stepmother and ray adopted beth
+const ANCESTOR_ROWS = [
+    { from_id: null, qualifier: null, ...person('dan', 'male') },
+    { from_id: 'dan', qualifier: 'biological', ...person('bob', 'male') },
+    { from_id: 'dan', qualifier: null, ...person('beth', 'female') },
+    { from_id: 'dan', qualifier: 'step', ...person('kate', 'female') },
+    { from_id: 'bob', qualifier: 'biological', ...person('eve', 'female') },
+    { from_id: 'bob', qualifier: 'biological', ...person('adam', 'male') },
+    { from_id: 'beth', qualifier: 'adoptive', ...person('ray', 'male') }
+];
+
+// Descendants of adam, in birth order
+const DESCENDANT_ROWS = [
+    { from_id: null, qualifier: null, ...person('adam', 'male', '1870-01-01') },
+    { from_id: 'adam', qualifier: null, ...person('bob', 'male', '1900-01-01') },
+    { from_id: 'adam', qualifier: null, ...person('carol', 'female', '1902-01-01') },
+    { from_id: 'bob', qualifier: null, ...person('dan', 'male', '1925-01-01') },
+    { from_id: 'bob', qualifier: null, ...person('ian', 'male', '1927-01-01') },
+    { from_id: 'carol', qualifier: null, ...person('erin', 'female', '1930-01-01') }
+];
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Pedigree Numbering', () => {
+    it('should list an ancestor reached along two lines under both numbers', () => {
+        // Cousins who married: ann is the mother of both of dan's parents
+        const parents = { dan: ['bob', 'beth'], bob: [null, 'ann'], beth: [null, 'ann'] };
+        const numbered = numberAncestors('dan', id => parents[id] || [null, null], 3);
+
+        expect(numbered.map(({ personId, number }) => [number, personId])).toEqual([
+            [1, 'dan'], [2, 'bob'], [3, 'beth'], [5, 'ann'], [7, 'ann']
+        ]);
+    });
+
+    it('should keep birth order numbers when a child is listed under both parents', () => {
+        const children = { ann: ['bob', 'beth'], bob: ['dan'], beth: ['dan', 'eve'] };
+        const numbered = numberDescendants('ann', id => children[id] || [], 5);
+
+        expect(numbered.map(({ personId, number }) => [number, personId])).toEqual([
+            ['1', 'ann'], ['1.1', 'bob'], ['1.1.1', 'dan'], ['1.2', 'beth'], ['1.2.2', 'eve']
+        ]);
+    });
+});
+
+describe('Pedigree Service', () => {
+    it('should walk the ancestors in a single query', async () => {
+        const findPedigree = jest.spyOn(personRepository, 'findPedigree').mockResolvedValue(ANCESTOR_ROWS);
+
+        const tree = await personService.getAncestors('dan', { generations: 2 });
+
+        expect(findPedigree).toHaveBeenCalledTimes(1);
+        expect(findPedigree).toHaveBeenCalledWith('dan', 'ancestors', 2);
+        expect(tree.name).toBe('dan Walsh');
+        expect(tree.parents.map(parent => [parent.id, parent.qualifier])).toEqual([
+            ['bob', 'biological'], ['beth', null], ['kate', 'step']
+        ]);
+        expect(tree.parents[0].parents.map(parent => parent.id)).toEqual(['eve', 'adam']);
+        expect(tree.parents[0].parents[0].parents).toBeUndefined();
+    });
+
+    it('should number ancestors in Ahnentafel order, leaving out step-parents', async () => {
+        jest.spyOn(personRepository, 'findPedigree').mockResolvedValue(ANCESTOR_ROWS);
+
+        const chart = await personService.getAncestors('dan', { generations: 2, format: 'ahnentafel' });
+
+        expect(chart.format).toBe('ahnentafel');
+        expect(chart.persons.map(({ number, generation, id }) => [number, generation, id])).toEqual([
+            [1, 0, 'dan'], [2, 1, 'bob'], [3, 1, 'beth'], [4, 2, 'adam'], [5, 2, 'eve'], [6, 2, 'ray']
+        ]);
+    });
+
+    it('should give descendants d\'Aboville numbers in birth order', async () => {
+        jest.spyOn(personRepository, 'findPedigree').mockResolvedValue(DESCENDANT_ROWS);
+
+        const chart = await personService.getDescendants('adam', { generations: 2, format: 'daboville' });
+
+        expect(chart.persons.map(({ number, id }) => [number, id])).toEqual([
+            ['1', 'adam'], ['1.1', 'bob'], ['1.1.1', 'dan'], ['1.1.2', 'ian'], ['1.2', 'carol'], ['1.2.1', 'erin']
+        ]);
+    });
+
+    it('should report a missing person', async () => {
+        jest.spyOn(personRepository, 'findPedigree').mockResolvedValue([]);
+
+        await expect(personService.getDescendants('nobody')).rejects.toThrow('Person with id nobody not found');
+    });
+});
+
+describe('Pedigree Routes', () => {
+    const token = jwt.sign({ user_id: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d', roles: ['manager'] }, process.env.JWT_SECRET);
+
+    it('should pass the depth and format to the service', async () => {
+        jest.spyOn(ProjectUtils, 'canAccessEntity').mockResolvedValue(true);
+        const getAncestors = jest.spyOn(personService, 'getAncestors').mockResolvedValue({ format: 'ahnentafel', generations: 5, persons: [] });
+
+        const res = await request(app)
+            .get(`/api/persons/${PERSON_ID}/ancestors`)
+            .query({ generations: 5, format: 'ahnentafel' })
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(200);
+        expect(getAncestors).toHaveBeenCalledWith(PERSON_ID, { generations: 5, format: 'ahnentafel' });
+    });
+
+    it('should reject a format that does not fit the direction', async () => {
+        const res = await request(app)
+            .get(`/api/persons/${PERSON_ID}/ancestors`)
+            .query({ format: 'daboville' })
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should validate the number of generations', async () => {
+        const res = await request(app)
+            .get(`/api/persons/${PERSON_ID}/descendants`)
+            .query({ generations: 50 })
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(400);
+    });
+});
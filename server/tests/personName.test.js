@@ -0,0 +1,149 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const { Op } = require('sequelize');
+const app = require('../app');
+const personRepository = require('../repositories/personRepository');
+const personService = require('../services/personService');
+const ProjectUtils = require('../utils/projectUtils');
+const TransactionManager = require('../utils/transactionManager');
+const { Person, PersonName } = require('../models');
+const { daitchMokotoff, metaphone, phoneticCodes, soundex } = require('../utils/phonetics');
+
+const USER_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const PERSON_ID = '0b1c2d3e-4f5a-4b6c-8d7e-9f0a1b2c3d4e';
+const NAME_ID = '5e6f7a8b-9c0d-4e1f-8a2b-3c4d5e6f7a8b';
+
+const person = (person_id, first_name, last_name, names = []) => ({
+    person_id, first_name, middle_name: null, last_name, maiden_name: null, names
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Phonetic Codes', () => {
+    it('should give Schmidt, Smith and Smyth the same Daitch-Mokotoff code', () => {
+        expect(daitchMokotoff('Schmidt')).toEqual(['463000']);
+        expect(daitchMokotoff('Smith')).toEqual(['463000']);
+        expect(daitchMokotoff('Smyth')).toEqual(['463000']);
+        expect(daitchMokotoff('Moskowitz')).toEqual(['645740']);
+    });
+
+    it('should give every reading of an ambiguous name a Daitch-Mokotoff code', () => {
+        expect(daitchMokotoff('Peterson')).toEqual(['739460', '734600']);
+        expect(daitchMokotoff('Jones')).toEqual(['164000', '464000']);
+    });
+
+    it('should code names by their English pronunciation with Metaphone', () => {
+        expect(metaphone('Smith')).toBe('SM0');
+        expect(metaphone('Smyth')).toBe('SM0');
+        expect(metaphone('Knight')).toBe('NT');
+        expect(metaphone('Catherine')).toBe(metaphone('Kathryn'));
+    });
+
+    it('should code each word of a name with all three algorithms, leaving out initials', () => {
+        expect(phoneticCodes('J. Smyth')).toEqual(['D:463000', 'M:SM0', 'S:S530']);
+        expect(phoneticCodes('Johann')).toContain(`S:${soundex('John')}`);
+        expect(phoneticCodes('', null)).toEqual([]);
+    });
+
+    it('should keep the codes of a person in step with the names', async () => {
+        const mary = Person.build({ first_name: 'Mary', last_name: 'Smyth', maiden_name: 'Schmidt' });
+        await Person.runHooks('beforeSave', mary);
+
+        expect(mary.phonetic_codes).toEqual(expect.arrayContaining(['S:M600', 'D:463000', 'M:SKMTT']));
+    });
+});
+
+describe('Person Name Model Validation', () => {
+    it('should reject unknown name types', async () => {
+        const personName = PersonName.build({ person_id: PERSON_ID, name_type: 'nickname', first_name: 'Jack' });
+
+        await expect(personName.validate()).rejects.toThrow('Name type must be one of');
+    });
+
+    it('should require at least one name part', async () => {
+        const personName = PersonName.build({ person_id: PERSON_ID, name_type: 'alias', first_name: '  ' });
+
+        await expect(personName.validate()).rejects.toThrow('A first, middle or last name is required');
+    });
+});
+
+describe('Name Search', () => {
+    it('should list persons spelled like the search before those found by other names or by sound', async () => {
+        jest.spyOn(personRepository, 'findByName').mockResolvedValue([
+            person('p1', 'Johann', 'Schmidt'),
+            person('p2', 'Jack', 'Smithers', [{ first_name: 'John', last_name: 'Smith' }]),
+            person('p3', 'John', 'Smith')
+        ]);
+
+        const persons = await personService.findByName('John Smith');
+
+        expect(persons.map(p => p.person_id)).toEqual(['p3', 'p2', 'p1']);
+    });
+
+    it('should limit the search to the projects the user can access', async () => {
+        const findByName = jest.spyOn(personRepository, 'findByName').mockResolvedValue([]);
+        jest.spyOn(ProjectUtils, 'getAccessibleProjectIds').mockResolvedValue(['project-1']);
+        const token = jwt.sign({ user_id: USER_ID, roles: ['client'] }, process.env.JWT_SECRET);
+
+        const res = await request(app)
+            .get('/api/persons/search?q=J.%20Smyth')
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(200);
+        expect(findByName).toHaveBeenCalledWith('J. Smyth', { projectIds: ['project-1'] });
+    });
+
+    it('should match every word of the search against names and other names', async () => {
+        const findAll = jest.spyOn(personRepository, 'findAll').mockResolvedValue([]);
+
+        await personRepository.findByName('J. Smyth');
+
+        const [initial, surname] = findAll.mock.calls[0][0].where[Op.and];
+        expect(initial[Op.or]).toContainEqual({ first_name: { [Op.iLike]: 'J%' } });
+        expect(initial[Op.or]).not.toContainEqual({ phonetic_codes: expect.anything() });
+        expect(surname[Op.or]).toContainEqual({ last_name: { [Op.iLike]: '%Smyth%' } });
+        expect(surname[Op.or]).toContainEqual({ phonetic_codes: { [Op.overlap]: ['D:463000', 'M:SM0', 'S:S530'] } });
+    });
+});
+
+describe('Person Names API', () => {
+    const token = jwt.sign({ user_id: USER_ID, roles: ['manager'] }, process.env.JWT_SECRET);
+
+    it('should add another name to a person', async () => {
+        const addPersonName = jest.spyOn(personService, 'addPersonName').mockResolvedValue({
+            name_id: NAME_ID,
+            name_type: 'anglicized',
+            first_name: 'John',
+            last_name: 'Smith'
+        });
+        jest.spyOn(ProjectUtils, 'getProjectIdsForEntity').mockResolvedValue([]);
+
+        const res = await request(app)
+            .post(`/api/persons/${PERSON_ID}/names`)
+            .set('Authorization', `Bearer ${token}`)
+            .send({ name_type: 'anglicized', first_name: 'John', last_name: 'Smith', start_date: '1891-05-02' });
+
+        expect(res.statusCode).toBe(201);
+        expect(res.body.name.name_type).toBe('anglicized');
+        expect(addPersonName).toHaveBeenCalledWith(PERSON_ID, expect.objectContaining({ first_name: 'John' }));
+    });
+
+    it('should reject a name without a type or name parts', async () => {
+        const res = await request(app)
+            .post(`/api/persons/${PERSON_ID}/names`)
+            .set('Authorization', `Bearer ${token}`)
+            .send({ notes: 'No name given' });
+
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should not update a name through another person', async () => {
+        jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async (callback) => callback({}));
+        jest.spyOn(personRepository, 'findNameById').mockResolvedValue({ name_id: NAME_ID, person_id: 'someone-else' });
+
+        await expect(personService.updatePersonName(PERSON_ID, NAME_ID, { first_name: 'Jack' }))
+            .rejects.toThrow('not found');
+    });
+});
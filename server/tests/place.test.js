@@ -0,0 +1,197 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const { Op } = require('sequelize');
+const app = require('../app');
+const placeRepository = require('../repositories/placeRepository');
+const eventRepository = require('../repositories/eventRepository');
+const placeService = require('../services/placeService');
+const eventService = require('../services/eventService');
+const TransactionManager = require('../utils/transactionManager');
+const { findGazetteerEntry } = require('../utils/gazetteer');
+
+const USER_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const IRELAND_ID = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+const COUNTY_ID = '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+const CITY_ID = '3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f';
+const UK_ID = '4d5e6f7a-8b9c-4d0e-9f2a-3b4c5d6e7f8a';
+
+const ireland = { place_id: IRELAND_ID, name: 'Ireland', place_type: 'country', parent_id: null, full_name: 'Ireland', gazetteer_id: 'IE' };
+
+const mockTransaction = () => {
+    jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async (callback) => callback({}));
+};
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Gazetteer', () => {
+    it('should find a place by any of its spellings within its parent', () => {
+        expect(findGazetteerEntry({ name: 'Co. Cork', place_type: 'county' }, 'IE').id).toBe('IE-CO');
+        expect(findGazetteerEntry({ name: 'cork county', place_type: 'county' }, 'IE').id).toBe('IE-CO');
+        expect(findGazetteerEntry({ name: 'Ireland', place_type: 'country', code: 'IRL' }, null).lat).toBe(53.1424);
+    });
+
+    it('should not match a place under a different parent', () => {
+        expect(findGazetteerEntry({ name: 'Cork', place_type: 'city' }, 'US-NY')).toBeNull();
+    });
+});
+
+describe('Place Service', () => {
+    it('should give a new place its gazetteer name and coordinates and keep the name as entered', async () => {
+        mockTransaction();
+        jest.spyOn(placeRepository, 'findById').mockResolvedValue(ireland);
+        const create = jest.spyOn(placeRepository, 'create').mockImplementation(async (fields) => ({ place_id: COUNTY_ID, ...fields }));
+        const createPlaceName = jest.spyOn(placeRepository, 'createPlaceName').mockResolvedValue({});
+
+        await placeService.createPlace({ name: ' Co. Cork ', place_type: 'county', parent_id: IRELAND_ID });
+
+        expect(create).toHaveBeenCalledWith(expect.objectContaining({
+            name: 'County Cork',
+            full_name: 'County Cork, Ireland',
+            gazetteer_id: 'IE-CO',
+            latitude: 51.9,
+            longitude: -8.75
+        }), expect.anything());
+        expect(createPlaceName.mock.calls.map(([nameData]) => nameData.name)).toEqual(['Co. Cork', 'Cork County']);
+    });
+
+    it('should not put a place within a smaller kind of place', async () => {
+        mockTransaction();
+        jest.spyOn(placeRepository, 'findById').mockResolvedValue({ place_id: CITY_ID, place_type: 'city', full_name: 'Cork' });
+
+        await expect(placeService.createPlace({ name: 'County Cork', place_type: 'county', parent_id: CITY_ID }))
+            .rejects.toThrow('A county cannot lie within a city');
+    });
+
+    it('should rename the places within a renamed place and their linked locations', async () => {
+        mockTransaction();
+        const county = { place_id: COUNTY_ID, name: 'Cork', place_type: 'county', parent_id: IRELAND_ID, full_name: 'Cork, Ireland' };
+        jest.spyOn(placeRepository, 'findById').mockImplementation(async (id) => (id === IRELAND_ID ? ireland : county));
+        jest.spyOn(placeRepository, 'update').mockImplementation(async (id, updates) => ({ ...county, ...updates }));
+        const city = { place_id: CITY_ID, name: 'Cork', update: jest.fn(async (fields) => ({ place_id: CITY_ID, ...fields })) };
+        jest.spyOn(placeRepository, 'findChildren').mockImplementation(async (id) => (id === COUNTY_ID ? [city] : []));
+        const updateLinkedLocations = jest.spyOn(placeRepository, 'updateLinkedLocations').mockResolvedValue();
+
+        await placeService.updatePlace(COUNTY_ID, { name: 'County Cork' });
+
+        expect(city.update).toHaveBeenCalledWith({ full_name: 'Cork, County Cork, Ireland' }, expect.anything());
+        expect(updateLinkedLocations.mock.calls.map(([place]) => place.full_name))
+            .toEqual(['County Cork, Ireland', 'Cork, County Cork, Ireland']);
+    });
+
+    it('should name a place as it was on a date', async () => {
+        const places = {
+            [CITY_ID]: { name: 'Cork', parent_id: COUNTY_ID, names: [] },
+            [COUNTY_ID]: { name: 'County Cork', parent_id: IRELAND_ID, names: [{ name: 'Co. Cork' }] },
+            [IRELAND_ID]: {
+                name: 'Ireland',
+                parent_id: null,
+                names: [{ name: 'Ireland', parent_id: UK_ID, start_date: '1801-01-01', end_date: '1922-12-06' }]
+            },
+            [UK_ID]: { name: 'United Kingdom', parent_id: null, names: [] }
+        };
+        jest.spyOn(placeRepository, 'findPlaceById').mockImplementation(async (id) => places[id]);
+
+        expect(await placeService.getPlaceNameAt(CITY_ID, '1900-06-01')).toBe('Cork, County Cork, Ireland, United Kingdom');
+        expect(await placeService.getPlaceNameAt(CITY_ID, '1950-06-01')).toBe('Cork, County Cork, Ireland');
+    });
+
+    it('should fill the location text from a linked place', async () => {
+        jest.spyOn(placeRepository, 'findById').mockResolvedValue({ place_id: CITY_ID, full_name: 'Cork, County Cork, Ireland' });
+
+        const eventData = await placeService.applyPlaceLocations(
+            { event_type: 'birth', event_place_id: CITY_ID, event_location: 'Cork' },
+            [['event_place_id', 'event_location']]
+        );
+
+        expect(eventData.event_location).toBe('Cork, County Cork, Ireland');
+    });
+
+    it('should unlink the place of a location retyped as free text', () => {
+        const fields = [['birth_place_id', 'birth_location'], ['death_place_id', 'death_location']];
+        const stored = {
+            birth_place_id: CITY_ID, birth_location: 'Cork, County Cork, Ireland',
+            death_place_id: CITY_ID, death_location: 'Cork, County Cork, Ireland'
+        };
+
+        const personData = placeService.unlinkRetypedLocations(
+            { birth_location: 'Kinsale', death_location: 'Cork, County Cork, Ireland' },
+            stored,
+            fields
+        );
+
+        expect(personData).toEqual({ birth_place_id: null, birth_location: 'Kinsale', death_location: 'Cork, County Cork, Ireland' });
+        expect(placeService.unlinkRetypedLocations({ birth_place_id: IRELAND_ID, birth_location: 'Ireland' }, stored, fields))
+            .toEqual({ birth_place_id: IRELAND_ID, birth_location: 'Ireland' });
+    });
+});
+
+describe('Events by Location', () => {
+    it('should find events in a place and the places within it, by any of its names', async () => {
+        const findPlacesByName = jest.spyOn(placeRepository, 'findPlacesByName').mockResolvedValue([{ place_id: COUNTY_ID }]);
+        jest.spyOn(placeRepository, 'findSubtreeIds').mockResolvedValue([COUNTY_ID, CITY_ID]);
+        const findAll = jest.spyOn(eventRepository, 'findAll').mockResolvedValue([]);
+
+        await eventService.getEventsByLocation('Co. Cork');
+
+        expect(findPlacesByName).toHaveBeenCalledWith('Co. Cork');
+        const { where } = findAll.mock.calls[0][0];
+        expect(where[Op.or]).toContainEqual({ event_place_id: { [Op.in]: [COUNTY_ID, CITY_ID] } });
+        expect(where[Op.or]).toContainEqual({ event_place_id: null, event_location: { [Op.iLike]: '%Co. Cork%' } });
+    });
+});
+
+describe('Places API', () => {
+    const managerToken = jwt.sign({ user_id: USER_ID, roles: ['manager'] }, process.env.JWT_SECRET);
+    const clientToken = jwt.sign({ user_id: USER_ID, roles: ['client'] }, process.env.JWT_SECRET);
+
+    it('should only let managers create places', async () => {
+        const res = await request(app)
+            .post('/api/places')
+            .set('Authorization', `Bearer ${clientToken}`)
+            .send({ name: 'Cork', place_type: 'city' });
+
+        expect(res.statusCode).toBe(403);
+    });
+
+    it('should resolve place levels from the country down', async () => {
+        const resolvePlace = jest.spyOn(placeService, 'resolvePlace').mockResolvedValue({ place_id: CITY_ID, full_name: 'Cork, County Cork, Ireland' });
+        const levels = [
+            { place_type: 'country', name: 'Ireland', code: 'IRL' },
+            { place_type: 'county', name: 'Co. Cork' },
+            { place_type: 'city', name: 'Cork' }
+        ];
+
+        const res = await request(app)
+            .post('/api/places/resolve')
+            .set('Authorization', `Bearer ${managerToken}`)
+            .send({ levels });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.full_name).toBe('Cork, County Cork, Ireland');
+        expect(resolvePlace).toHaveBeenCalledWith(levels);
+    });
+
+    it('should reject levels that are not largest first', async () => {
+        const res = await request(app)
+            .post('/api/places/resolve')
+            .set('Authorization', `Bearer ${managerToken}`)
+            .send({ levels: [{ place_type: 'city', name: 'Cork' }, { place_type: 'country', name: 'Ireland' }] });
+
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should not delete a place that contains other places', async () => {
+        mockTransaction();
+        jest.spyOn(placeRepository, 'findById').mockResolvedValue(ireland);
+        jest.spyOn(placeRepository, 'findChildren').mockResolvedValue([{ place_id: COUNTY_ID }]);
+
+        const res = await request(app)
+            .delete(`/api/places/${IRELAND_ID}`)
+            .set('Authorization', `Bearer ${managerToken}`);
+
+        expect(res.statusCode).toBe(409);
+        expect(res.body.message).toContain('cannot be deleted');
+    });
+});
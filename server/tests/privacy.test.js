@@ -0,0 +1,415 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const personService = require('../services/personService');
+const eventService = require('../services/eventService');
+const relationshipService = require('../services/relationshipService');
+const historyService = require('../services/historyService');
+const sourceService = require('../services/sourceService');
+const researchLogService = require('../services/researchLogService');
+const gedcomService = require('../services/gedcomService');
+const personRepository = require('../repositories/personRepository');
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const eventRepository = require('../repositories/eventRepository');
+const documentRepository = require('../repositories/documentRepository');
+const ProjectUtils = require('../utils/projectUtils');
+const { User } = require('../models');
+const {
+    getLivingStatus, isPrivatePerson, redactPersonRecord, redactRelationship, redactPedigree
+} = require('../utils/privacy');
+
+const CLIENT_ID = '3d4e5f6a-7b8c-4d9e-9f0a-1b2c3d4e5f6a';
+const MANAGER_ID = '4e5f6a7b-8c9d-4e0f-8a1b-2c3d4e5f6a7b';
+const PROJECT_ID = '0a1b2c3d-4e5f-4a6b-8c7d-8e9f0a1b2c3d';
+const NORA_ID = '5f6a7b8c-9d0e-4f1a-9b2c-3d4e5f6a7b8c';
+const KATE_ID = '6a7b8c9d-0e1f-4a2b-8c3d-4e5f6a7b8c9d';
+const EVENT_ID = '7b8c9d0e-1f2a-4b3c-9d4e-5f6a7b8c9d0e';
+const SHARED_EVENT_ID = '8c9d0e1f-2a3b-4c4d-8e5f-6a7b8c9d0e1f';
+const RELATIONSHIP_ID = '9d0e1f2a-3b4c-4d5e-9f6a-7b8c9d0e1f2a';
+
+const token = (userId, roles) => `Bearer ${jwt.sign({ user_id: userId, roles }, process.env.JWT_SECRET)}`;
+
+const now = new Date('2026-06-01');
+
+const person = (id, birthDate, deathDate = null, extra = {}) => ({
+    person_id: id,
+    first_name: id === NORA_ID ? 'Nora' : 'Kate',
+    last_name: 'Walsh',
+    gender: 'female',
+    birth_date: birthDate,
+    death_date: deathDate,
+    birth_location: 'Cork',
+    notes: 'Research notes',
+    ...extra
+});
+
+const NORA = person(NORA_ID, '1890-01-01', '1960-01-01');
+const KATE = person(KATE_ID, '1980-01-01');
+
+const PARENT_RELATIONSHIP = {
+    relationship_id: RELATIONSHIP_ID,
+    person1_id: NORA_ID,
+    person2_id: KATE_ID,
+    relationship_type: 'parent',
+    start_date: '1980-01-01',
+    notes: 'Baptism register',
+    person1: NORA,
+    person2: KATE
+};
+
+// A client who can only view the Walsh project, so Kate, who may still be alive, is redacted
+const mockViewOnlyClient = () => {
+    jest.spyOn(ProjectUtils, 'canAccessEntity').mockResolvedValue(true);
+    jest.spyOn(ProjectUtils, 'getUnrestrictedPersonIds').mockResolvedValue(new Set());
+    jest.spyOn(personRepository, 'findAll').mockImplementation(async ({ where }) => [NORA, KATE]
+        .filter(p => where.person_id.includes(p.person_id)));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+};
+
+const CLIENT = token(CLIENT_ID, ['client']);
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Living Status', () => {
+    it('should classify persons by their birth and death dates', () => {
+        expect(getLivingStatus(KATE, now)).toBe('living');
+        expect(getLivingStatus(NORA, now)).toBe('deceased');
+        expect(getLivingStatus(person(KATE_ID, '1901-03-01'), now)).toBe('deceased');
+        expect(getLivingStatus(person(KATE_ID, null), now)).toBe('unknown');
+        expect(getLivingStatus(person(KATE_ID, null, '2001-01-01'), now)).toBe('deceased');
+    });
+
+    it('should let a privacy override settle whether a person is private', () => {
+        expect(isPrivatePerson(KATE, now)).toBe(true);
+        expect(isPrivatePerson(person(KATE_ID, null), now)).toBe(true);
+        expect(isPrivatePerson({ ...KATE, privacy_override: 'public' }, now)).toBe(false);
+        expect(isPrivatePerson(NORA, now)).toBe(false);
+        expect(isPrivatePerson({ ...NORA, privacy_override: 'private' }, now)).toBe(true);
+    });
+});
+
+describe('Redaction', () => {
+    it('should clear a private person record but keep its shape', () => {
+        const redacted = redactPersonRecord({ ...KATE, events: [{ event_id: 'e1' }], privacy_override: null });
+
+        expect(redacted).toEqual({
+            person_id: KATE_ID,
+            first_name: 'Living',
+            last_name: '',
+            gender: null,
+            birth_date: null,
+            death_date: null,
+            birth_location: null,
+            notes: null,
+            events: [],
+            privacy_override: null,
+            living: true
+        });
+    });
+
+    it('should drop the dates of relationships involving a private person', () => {
+        const privateIds = new Set([KATE_ID]);
+        const relationship = {
+            relationship_id: 'r1',
+            person1_id: NORA_ID,
+            person2_id: KATE_ID,
+            relationship_type: 'parent',
+            start_date: '1980-01-01',
+            notes: 'Baptism register',
+            person1: NORA,
+            person2: KATE
+        };
+
+        const redacted = redactRelationship(relationship, privateIds);
+
+        expect(redacted).toEqual(expect.objectContaining({ start_date: null, notes: null, relationship_type: 'parent' }));
+        expect(redacted.person1.first_name).toBe('Nora');
+        expect(redacted.person2.first_name).toBe('Living');
+
+        const unrelated = { ...relationship, person2_id: NORA_ID, person2: NORA };
+        expect(redactRelationship(unrelated, privateIds)).toBe(unrelated);
+    });
+
+    it('should hide private persons in ancestor charts', () => {
+        const chart = {
+            id: KATE_ID,
+            name: 'Kate Walsh',
+            birth_date: '1980-01-01',
+            parents: [{ id: NORA_ID, name: 'Nora Walsh', birth_date: '1890-01-01', parents: [] }]
+        };
+
+        const redacted = redactPedigree(chart, new Set([KATE_ID]));
+
+        expect(redacted).toEqual(expect.objectContaining({ id: KATE_ID, name: 'Living', birth_date: null, living: true }));
+        expect(redacted.parents[0].name).toBe('Nora Walsh');
+    });
+});
+
+describe('Person API', () => {
+    beforeEach(() => {
+        jest.spyOn(ProjectUtils, 'canAccessEntity').mockResolvedValue(true);
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should redact a living person for a client who can only view them', async () => {
+        jest.spyOn(personService, 'getPersonById').mockResolvedValue(KATE);
+        jest.spyOn(ProjectUtils, 'getUnrestrictedPersonIds').mockResolvedValue(new Set());
+        const findAll = jest.spyOn(personRepository, 'findAll').mockResolvedValue([KATE]);
+
+        const res = await request(app).get(`/api/persons/${KATE_ID}`).set('Authorization', token(CLIENT_ID, ['client']));
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual(expect.objectContaining({ person_id: KATE_ID, first_name: 'Living', birth_date: null, notes: null }));
+        expect(findAll).toHaveBeenCalledWith(expect.objectContaining({ where: { person_id: [KATE_ID] } }));
+    });
+
+    it('should show a living person to a client who can edit them', async () => {
+        jest.spyOn(personService, 'getPersonById').mockResolvedValue(KATE);
+        jest.spyOn(ProjectUtils, 'getUnrestrictedPersonIds').mockResolvedValue(new Set([KATE_ID]));
+        const findAll = jest.spyOn(personRepository, 'findAll');
+
+        const res = await request(app).get(`/api/persons/${KATE_ID}`).set('Authorization', token(CLIENT_ID, ['client']));
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.first_name).toBe('Kate');
+        expect(findAll).not.toHaveBeenCalled();
+    });
+
+    it('should show everything to managers', async () => {
+        jest.spyOn(personService, 'getPersonById').mockResolvedValue(KATE);
+
+        const res = await request(app).get(`/api/persons/${KATE_ID}`).set('Authorization', token(MANAGER_ID, ['manager']));
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.first_name).toBe('Kate');
+        expect(res.body.living).toBeUndefined();
+    });
+
+    it('should accept only known privacy overrides', async () => {
+        const updatePerson = jest.spyOn(personService, 'updatePerson');
+
+        const res = await request(app)
+            .put(`/api/persons/${KATE_ID}`)
+            .set('Authorization', token(MANAGER_ID, ['manager']))
+            .send({ privacy_override: 'secret' });
+
+        expect(res.statusCode).toBe(400);
+        expect(updatePerson).not.toHaveBeenCalled();
+    });
+});
+
+describe('Event API', () => {
+    beforeEach(mockViewOnlyClient);
+
+    it('should show no events or timeline of a living person', async () => {
+        jest.spyOn(eventService, 'getEventsByPersonId').mockResolvedValue([{ event_id: EVENT_ID, event_type: 'graduation' }]);
+        jest.spyOn(eventService, 'getPersonTimeline').mockResolvedValue([
+            { event_type: 'birth', event_date: '1980-01-01', description: 'Birth of Kate Walsh', isVirtual: true },
+            { event_id: EVENT_ID, event_type: 'graduation' }
+        ]);
+
+        const events = await request(app).get(`/api/events/person/${KATE_ID}`).set('Authorization', CLIENT);
+        const timeline = await request(app).get(`/api/events/timeline/${KATE_ID}`).set('Authorization', CLIENT);
+
+        expect(events.statusCode).toBe(200);
+        expect(events.body).toEqual([]);
+        expect(timeline.statusCode).toBe(200);
+        expect(timeline.body).toEqual([]);
+    });
+
+    it('should leave out the events a deceased person shares with a living one', async () => {
+        jest.spyOn(eventService, 'getPersonTimeline').mockResolvedValue([
+            { event_type: 'birth', event_date: '1890-01-01', description: 'Birth of Nora Walsh', isVirtual: true },
+            { event_id: SHARED_EVENT_ID, event_type: 'religious', description: 'Baptism of Kate' },
+            { event_id: EVENT_ID, event_type: 'immigration' }
+        ]);
+        jest.spyOn(eventRepository, 'findPersonEventLinks').mockResolvedValue([
+            { event_id: SHARED_EVENT_ID, person_id: NORA_ID },
+            { event_id: SHARED_EVENT_ID, person_id: KATE_ID },
+            { event_id: EVENT_ID, person_id: NORA_ID }
+        ]);
+
+        const res = await request(app).get(`/api/events/timeline/${NORA_ID}`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.map(event => event.event_type)).toEqual(['birth', 'immigration']);
+    });
+
+    it('should withhold an event of a living person', async () => {
+        jest.spyOn(eventService, 'getEventById').mockResolvedValue({ event_id: EVENT_ID, event_type: 'graduation' });
+        jest.spyOn(eventRepository, 'findPersonEventLinks').mockResolvedValue([{ event_id: EVENT_ID, person_id: KATE_ID }]);
+
+        const res = await request(app).get(`/api/events/${EVENT_ID}`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(403);
+        expect(res.body.message).toMatch(/may still be alive/);
+    });
+});
+
+describe('Relationship API', () => {
+    beforeEach(mockViewOnlyClient);
+
+    it('should drop the dates of a relationship with a living person and redact them', async () => {
+        jest.spyOn(relationshipService, 'getRelationshipsByPersonId').mockResolvedValue([PARENT_RELATIONSHIP]);
+
+        const res = await request(app).get(`/api/relationships/person/${NORA_ID}`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body[0]).toEqual(expect.objectContaining({ relationship_type: 'parent', start_date: null, notes: null }));
+        expect(res.body[0].person1.first_name).toBe('Nora');
+        expect(res.body[0].person2).toEqual(expect.objectContaining({ first_name: 'Living', birth_date: null, living: true }));
+    });
+
+    it('should redact living persons on a kinship path', async () => {
+        jest.spyOn(ProjectUtils, 'getAccessibleProjectIds').mockResolvedValue([PROJECT_ID]);
+        jest.spyOn(relationshipService, 'getKinship').mockResolvedValue({
+            person1: NORA,
+            person2: KATE,
+            related: true,
+            relationship: 'daughter',
+            common_ancestors: [NORA],
+            through_spouse: null,
+            path: [NORA, KATE, { hidden: true }]
+        });
+
+        const res = await request(app).get(`/api/relationships/kinship/${NORA_ID}/${KATE_ID}`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.relationship).toBe('daughter');
+        expect(res.body.person1.first_name).toBe('Nora');
+        expect(res.body.person2).toEqual(expect.objectContaining({ person_id: KATE_ID, first_name: 'Living', birth_date: null }));
+        expect(res.body.common_ancestors[0].first_name).toBe('Nora');
+        expect(res.body.path.map(p => p.first_name)).toEqual(['Nora', 'Living', undefined]);
+        expect(res.body.path[2]).toEqual({ hidden: true });
+    });
+});
+
+describe('History API', () => {
+    const history = {
+        versions: [{ version_number: 1, data: { first_name: 'Kate', birth_date: '1980-01-01' } }],
+        metadata: { totalCount: 1, totalPages: 1, currentPage: 1, pageSize: 20 }
+    };
+
+    beforeEach(mockViewOnlyClient);
+
+    it('should show no earlier versions of a living person', async () => {
+        jest.spyOn(historyService, 'getHistory').mockResolvedValue(history);
+
+        const res = await request(app).get(`/api/history/person/${KATE_ID}`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual({ versions: [], metadata: { totalCount: 0, totalPages: 0, currentPage: 1, pageSize: 20 } });
+    });
+
+    it('should show no earlier versions of a relationship with a living person', async () => {
+        jest.spyOn(historyService, 'getHistory').mockResolvedValue(history);
+        jest.spyOn(relationshipRepository, 'findAll').mockResolvedValue([PARENT_RELATIONSHIP]);
+
+        const res = await request(app).get(`/api/history/relationship/${RELATIONSHIP_ID}`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.versions).toEqual([]);
+    });
+
+    it('should show the history of a deceased person', async () => {
+        jest.spyOn(historyService, 'getHistory').mockResolvedValue(history);
+
+        const res = await request(app).get(`/api/history/person/${NORA_ID}`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.versions).toHaveLength(1);
+    });
+});
+
+describe('Citation API', () => {
+    const citation = (citationId, entityType, entityId) => ({
+        citation_id: citationId, entity_type: entityType, entity_id: entityId, page: 'p. 12', excerpt: 'Kate Walsh, born 1980'
+    });
+
+    beforeEach(mockViewOnlyClient);
+
+    it('should leave out the citations of a living person and their events and relationships', async () => {
+        jest.spyOn(sourceService, 'getPersonCitations').mockResolvedValue([
+            citation('c1', 'person', NORA_ID),
+            citation('c2', 'relationship', RELATIONSHIP_ID),
+            citation('c3', 'event', EVENT_ID),
+            citation('c4', 'event', SHARED_EVENT_ID)
+        ]);
+        jest.spyOn(relationshipRepository, 'findAll').mockResolvedValue([PARENT_RELATIONSHIP]);
+        jest.spyOn(eventRepository, 'findPersonEventLinks').mockResolvedValue([
+            { event_id: EVENT_ID, person_id: NORA_ID },
+            { event_id: SHARED_EVENT_ID, person_id: KATE_ID }
+        ]);
+
+        const res = await request(app).get(`/api/persons/${NORA_ID}/citations`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.map(c => c.citation_id)).toEqual(['c1', 'c3']);
+    });
+
+    it('should show no citations of a living person', async () => {
+        jest.spyOn(sourceService, 'getCitationsForEntity').mockResolvedValue([citation('c1', 'person', KATE_ID)]);
+
+        const res = await request(app)
+            .get('/api/sources/citations')
+            .query({ entityType: 'person', entityId: KATE_ID })
+            .set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual([]);
+    });
+});
+
+describe('Research Log API', () => {
+    beforeEach(mockViewOnlyClient);
+
+    it('should redact living persons linked to log entries and leave out the documents about them', async () => {
+        jest.spyOn(User, 'findByPk').mockResolvedValue({ Projects: [{ id: PROJECT_ID }] });
+        jest.spyOn(researchLogService, 'getProjectResearchLog').mockResolvedValue({
+            entries: [{
+                entry_id: 'r1',
+                title: 'Baptism registers',
+                persons: [{ person_id: NORA_ID, first_name: 'Nora', last_name: 'Walsh' }, { person_id: KATE_ID, first_name: 'Kate', last_name: 'Walsh' }],
+                documents: [{ document_id: 'd1', title: 'Baptism of Kate Walsh' }, { document_id: 'd2', title: 'Marriage of Nora Walsh' }]
+            }],
+            tasks: []
+        });
+        jest.spyOn(documentRepository, 'findDocumentPersonLinks').mockResolvedValue([
+            { document_id: 'd1', person_id: KATE_ID },
+            { document_id: 'd2', person_id: NORA_ID }
+        ]);
+
+        const res = await request(app).get(`/api/projects/${PROJECT_ID}/research-log`).set('Authorization', CLIENT);
+
+        expect(res.statusCode).toBe(200);
+        const [entry] = res.body.entries;
+        expect(entry.persons.map(p => p.first_name)).toEqual(['Nora', 'Living']);
+        expect(entry.persons[1].last_name).toBe('');
+        expect(entry.documents.map(d => d.title)).toEqual(['Marriage of Nora Walsh']);
+    });
+});
+
+describe('GEDCOM Export', () => {
+    it('should export living persons as placeholders without their events', async () => {
+        jest.spyOn(projectRepository, 'findById').mockResolvedValue({ id: PROJECT_ID, title: 'Walsh Family' });
+        jest.spyOn(projectRepository, 'getProjectPersons').mockResolvedValue([NORA, KATE]);
+        jest.spyOn(relationshipRepository, 'findRelationshipsInvolvingPersons').mockResolvedValue([
+            { relationship_id: 'r1', person1_id: NORA_ID, person2_id: KATE_ID, relationship_type: 'parent', start_date: '1980-01-01' }
+        ]);
+        jest.spyOn(eventRepository, 'findEventsByPersonId').mockImplementation(async (personId) => (personId === KATE_ID
+            ? [{ event_id: 'e1', event_type: 'graduation', event_date: '2002-06-01', description: 'Graduated in Dublin' }]
+            : []));
+        jest.spyOn(documentRepository, 'findDocumentsByPersonId').mockResolvedValue([]);
+
+        const { content } = await gedcomService.exportProject(PROJECT_ID);
+
+        expect(content).toContain('1 NAME Nora /Walsh/');
+        expect(content).toContain('1 NAME Living //');
+        expect(content).not.toContain('Kate');
+        expect(content).not.toContain('1980');
+        expect(content).not.toContain('Dublin');
+    });
+});
@@ -0,0 +1,181 @@
+const http = require('http');
+const { EventEmitter } = require('events');
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const { UserEvent, ProjectUser } = require('../models');
+const realtimeService = require('../services/realtimeService');
+const UserEventService = require('../services/userEventService');
+const mailService = require('../services/mailService');
+
+const MEMBER_ID = '1f2e3d4c-5b6a-4978-8695-a4b3c2d1e0f9';
+const ACTOR_ID = '2e3d4c5b-6a79-4886-95a4-b3c2d1e0f9a8';
+const OUTSIDER_ID = '3d4c5b6a-7988-4695-a4b3-c2d1e0f9a8b7';
+const MANAGER_ID = '4c5b6a79-8897-46a5-b3c2-d1e0f9a8b7c6';
+const PROJECT_ID = '5b6a7988-97a6-45b4-82d1-e0f9a8b7c6d5';
+const PERSON_ID = '6a798897-a6b5-44c3-91e0-f9a8b7c6d5e4';
+
+// A response object that records what is written to the stream
+const fakeResponse = () => {
+    const res = new EventEmitter();
+    res.writableEnded = false;
+    res.headers = {};
+    res.chunks = [];
+    res.status = jest.fn(() => res);
+    res.set = jest.fn(headers => {
+        Object.assign(res.headers, headers);
+        return res;
+    });
+    res.flushHeaders = jest.fn();
+    res.write = jest.fn(chunk => res.chunks.push(chunk));
+    res.messages = () => res.chunks
+        .filter(chunk => chunk.startsWith('event: '))
+        .map(chunk => {
+            const [eventLine, dataLine] = chunk.trim().split('\n');
+            return { type: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+        });
+    return res;
+};
+
+const open = (userId, roles = ['client']) => {
+    const res = fakeResponse();
+    realtimeService.subscribe({ user_id: userId, roles }, res);
+    return res;
+};
+
+beforeEach(() => {
+    jest.spyOn(mailService, 'notifyUserEvents').mockResolvedValue([]);
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Realtime Service', () => {
+    let streams;
+
+    beforeEach(() => {
+        streams = {
+            member: open(MEMBER_ID),
+            actor: open(ACTOR_ID),
+            outsider: open(OUTSIDER_ID),
+            manager: open(MANAGER_ID, ['manager'])
+        };
+    });
+
+    afterEach(() => {
+        Object.values(streams).forEach(res => res.emit('close'));
+    });
+
+    it('should open an event stream and greet the client', () => {
+        expect(streams.member.headers['Content-Type']).toBe('text/event-stream');
+        expect(streams.member.chunks[0]).toBe('retry: 5000\n\n');
+        expect(streams.member.messages()).toEqual([{ type: 'ready', data: { user_id: MEMBER_ID } }]);
+    });
+
+    it('should push project events to project members and managers only', async () => {
+        jest.spyOn(ProjectUser, 'findAll').mockResolvedValue([{ user_id: MEMBER_ID }]);
+        jest.spyOn(UserEvent, 'bulkCreate').mockImplementation(async rows => rows);
+
+        await UserEventService.createEventForProjectUsers(
+            [PROJECT_ID], ACTOR_ID, 'person_created', 'Person added', PERSON_ID, 'person'
+        );
+
+        const change = {
+            type: 'entity_changed',
+            data: {
+                project_ids: [PROJECT_ID],
+                event_type: 'person_created',
+                entity_id: PERSON_ID,
+                entity_type: 'person',
+                actor_id: ACTOR_ID
+            }
+        };
+
+        expect(streams.member.messages().map(message => message.type)).toEqual(['ready', 'user_event', 'entity_changed']);
+        expect(streams.member.messages()[2]).toEqual(change);
+        expect(streams.manager.messages()).toEqual([{ type: 'ready', data: { user_id: MANAGER_ID } }, change]);
+        expect(streams.outsider.messages()).toHaveLength(1);
+    });
+
+    it('should send each user event only to its recipient', () => {
+        realtimeService.publishUserEvents([
+            { id: 'e1', user_id: MEMBER_ID, event_type: 'order_paid', message: 'Paid' }
+        ]);
+
+        expect(streams.member.messages()[1]).toEqual({
+            type: 'user_event',
+            data: { id: 'e1', event_type: 'order_paid', message: 'Paid', entity_id: undefined, entity_type: undefined, project_ids: [] }
+        });
+        expect(streams.actor.messages()).toHaveLength(1);
+        expect(streams.manager.messages()).toHaveLength(1);
+    });
+
+    it('should tell the user\'s other sessions when notifications are read', async () => {
+        jest.spyOn(UserEvent, 'update').mockResolvedValue([3]);
+        const secondTab = open(MEMBER_ID);
+
+        await UserEventService.markAllRead(MEMBER_ID);
+
+        expect(secondTab.messages()[1]).toEqual({ type: 'notifications_changed', data: { updated: 3 } });
+        secondTab.emit('close');
+    });
+
+    it('should forget streams once they close', () => {
+        const before = realtimeService.getConnectionCount();
+
+        streams.outsider.emit('close');
+
+        expect(realtimeService.getConnectionCount()).toBe(before - 1);
+        expect(realtimeService.publishToUsers([OUTSIDER_ID], 'ping', {})).toBe(0);
+    });
+
+    it('should skip streams that have already ended', () => {
+        streams.member.writableEnded = true;
+
+        expect(() => realtimeService.publishToUsers([MEMBER_ID], 'ping', {})).not.toThrow();
+        expect(streams.member.messages()).toHaveLength(1);
+    });
+});
+
+describe('Realtime Route', () => {
+    it('should require authentication', async () => {
+        const res = await request(app).get('/api/realtime');
+
+        expect(res.statusCode).toBe(401);
+    });
+
+    it('should stream to an authenticated user', async () => {
+        const server = http.createServer(app).listen(0);
+        const token = jwt.sign({ user_id: MEMBER_ID, roles: ['client'] }, process.env.JWT_SECRET);
+
+        try {
+            const { statusCode, contentType, body } = await new Promise((resolve, reject) => {
+                const req = http.get({
+                    port: server.address().port,
+                    path: '/api/realtime',
+                    headers: { Authorization: `Bearer ${token}` }
+                }, res => {
+                    let body = '';
+                    res.setEncoding('utf8');
+                    res.on('data', chunk => {
+                        body += chunk;
+                        if (body.includes('event: ready')) {
+                            resolve({ statusCode: res.statusCode, contentType: res.headers['content-type'], body });
+                            req.destroy();
+                        }
+                    });
+                });
+                req.on('error', error => {
+                    if (error.code !== 'ECONNRESET') reject(error);
+                });
+            });
+
+            expect(statusCode).toBe(200);
+            expect(contentType).toMatch(/^text\/event-stream/);
+            expect(body).toContain(`data: {"user_id":"${MEMBER_ID}"}`);
+        } finally {
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,285 @@
+const zlib = require('zlib');
+const projectRepository = require('../repositories/projectRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const eventRepository = require('../repositories/eventRepository');
+const documentRepository = require('../repositories/documentRepository');
+const sourceRepository = require('../repositories/sourceRepository');
+const emailOutboxRepository = require('../repositories/emailOutboxRepository');
+const reportService = require('../services/reportService');
+const PdfDocument = require('../utils/pdfDocument');
+const { numberDescendants, toRoman } = require('../utils/descendantNumbering');
+const { describeGenealogicalDate } = require('../utils/genealogicalDate');
+
+const PROJECT_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const CLIENT_ID = '3c1e5a7b-9d2f-4b6a-8c0e-1f2a3b4c5d6e';
+const MANAGER_ID = '7e6d5c4b-3a2f-4e1d-9c8b-7a6f5e4d3c2b';
+
+// John and Mary have William and Sarah; William and Ann have George and Alice; George has Henry
+const CHILDREN = {
+    john: ['william', 'sarah'],
+    william: ['george', 'alice'],
+    george: ['henry']
+};
+const getChildren = (personId) => CHILDREN[personId] || [];
+
+const person = (person_id, first_name, last_name, gender, birth_date, extra = {}) => ({
+    person_id, first_name, last_name, gender, birth_date, ...extra
+});
+
+const PERSONS = [
+    person('john', 'John', 'Smith', 'male', '1800-01-01', { death_date: '1870-05-02', birth_location: 'Boston', notes: 'A farmer.' }),
+    person('mary', 'Mary', 'Jones', 'female', '1805-07-01', {
+        birth_date_detail: { qualifier: 'about', precision: 'year', start: '1805-01-01', end: '1805-12-31', original: 'ABT 1805', sort_key: '1805-07-01' }
+    }),
+    person('william', 'William', 'Smith', 'male', '1830-03-04'),
+    person('sarah', 'Sarah', 'Smith', 'female', '1832-03-04'),
+    person('ann', 'Ann', 'Brown', 'female', '1835-01-01'),
+    person('george', 'George', 'Smith', 'male', '1860-01-01'),
+    person('alice', 'Alice', 'Smith', 'female', '1862-01-01'),
+    person('thomas', 'Thomas', 'Green', 'male', null, { privacy_override: 'public' })
+];
+
+const RELATIONSHIPS = [
+    { relationship_id: 'r1', person1_id: 'john', person2_id: 'mary', relationship_type: 'spouse', start_date: '1828-06-01' },
+    { relationship_id: 'r2', person1_id: 'john', person2_id: 'william', relationship_type: 'parent' },
+    { relationship_id: 'r3', person1_id: 'mary', person2_id: 'william', relationship_type: 'parent' },
+    { relationship_id: 'r4', person1_id: 'john', person2_id: 'sarah', relationship_type: 'parent' },
+    { relationship_id: 'r5', person1_id: 'mary', person2_id: 'sarah', relationship_type: 'parent' },
+    { relationship_id: 'r6', person1_id: 'william', person2_id: 'ann', relationship_type: 'spouse' },
+    { relationship_id: 'r7', person1_id: 'george', person2_id: 'william', relationship_type: 'child' },
+    { relationship_id: 'r8', person1_id: 'william', person2_id: 'alice', relationship_type: 'parent' }
+];
+
+const PROJECT = {
+    id: PROJECT_ID,
+    title: 'Smith Family',
+    description: 'Descendants of John Smith',
+    researcher: { user_id: MANAGER_ID, first_name: 'Rita', last_name: 'Reed', email: 'rita@example.com', is_active: true },
+    Users: [
+        { user_id: CLIENT_ID, first_name: 'Jane', last_name: 'Client', email: 'jane@example.com', is_active: true, Roles: [{ name: 'client' }] },
+        { user_id: 'former', first_name: 'Old', last_name: 'Client', email: 'old@example.com', is_active: false, Roles: [{ name: 'client' }] }
+    ]
+};
+
+/**
+ * Text drawn on the pages of a generated PDF
+ */
+const pdfText = (buffer) => {
+    const source = buffer.toString('latin1');
+    const streams = [...source.matchAll(/stream\r?\n([\s\S]*?)\r?\nendstream/g)];
+
+    return streams.map(match => {
+        try {
+            return zlib.inflateSync(Buffer.from(match[1], 'latin1')).toString('latin1');
+        } catch (error) {
+            return '';
+        }
+    }).join('\n').match(/\((?:\\.|[^\\)])*\) Tj/g).map(op => op.slice(1, -4).replace(/\\(.)/g, '$1')).join(' ');
+};
+
+describe('Descendant Numbering', () => {
+    test('should write Roman numerals', () => {
+        expect([1, 4, 9, 14, 40].map(toRoman)).toEqual(['i', 'iv', 'ix', 'xiv', 'xl']);
+    });
+
+    test('should number only continued lines in Register style', () => {
+        const families = numberDescendants('john', getChildren, { system: 'register' });
+
+        expect(families.map(family => [family.personId, family.number, family.generation])).toEqual([
+            ['john', 1, 1], ['william', 2, 2], ['george', 3, 3]
+        ]);
+        expect(families[0].children).toEqual([
+            { personId: 'william', roman: 'i', number: 2, continued: true },
+            { personId: 'sarah', roman: 'ii', number: null, continued: false }
+        ]);
+    });
+
+    test('should number every child in NGSQ style', () => {
+        const families = numberDescendants('john', getChildren, { system: 'ngsq' });
+
+        expect(families.map(family => [family.personId, family.number])).toEqual([['john', 1], ['william', 2], ['george', 4]]);
+        expect(families[1].children.map(child => [child.personId, child.number, child.continued])).toEqual([
+            ['george', 4, true], ['alice', 5, false]
+        ]);
+        expect(families[2].children[0]).toMatchObject({ personId: 'henry', number: 6, continued: false });
+    });
+
+    test('should stop at the generation limit', () => {
+        const families = numberDescendants('john', getChildren, { generations: 2 });
+
+        expect(families.map(family => family.personId)).toEqual(['john']);
+        expect(families[0].children[0]).toMatchObject({ number: null, continued: false });
+    });
+
+    test('should reject unknown numbering systems', () => {
+        expect(() => numberDescendants('john', getChildren, { system: 'henry' })).toThrow('Numbering system must be one of');
+    });
+});
+
+describe('Genealogical Date Prose', () => {
+    test('should describe exact and approximate dates for sentences', () => {
+        expect(describeGenealogicalDate('1850-03-12')).toBe('on 12 March 1850');
+        expect(describeGenealogicalDate(null)).toBeNull();
+        expect(describeGenealogicalDate('1850-07-01', { qualifier: 'about', precision: 'year', start: '1850-01-01', end: '1850-12-31' }))
+            .toBe('about 1850');
+        expect(describeGenealogicalDate('1850-03-15', { qualifier: 'exact', precision: 'month', start: '1850-03-01', end: '1850-03-31' }))
+            .toBe('in March 1850');
+        expect(describeGenealogicalDate('1850-01-01', { qualifier: 'between', precision: 'year', start: '1850-01-01', end: '1855-12-31' }))
+            .toBe('between 1850 and 1855');
+    });
+});
+
+describe('PDF Document', () => {
+    test('should wrap text at spaces and split words wider than a line', () => {
+        const doc = new PdfDocument();
+
+        const lines = doc.layoutLines([{ text: 'The quick brown fox jumps over the lazy dog', style: 'regular', size: 12 }], 100);
+        expect(lines.length).toBeGreaterThan(1);
+        lines.forEach(line => expect(line.width).toBeLessThanOrEqual(100));
+        expect(lines.map(line => line.runs.map(run => run.text).join('')).join(' ')).toBe('The quick brown fox jumps over the lazy dog');
+
+        const split = doc.layoutLines([{ text: 'x'.repeat(80), style: 'bold', size: 12 }], 100);
+        expect(split.length).toBeGreaterThan(1);
+        expect(split.map(line => line.runs[0].text).join('')).toBe('x'.repeat(80));
+    });
+
+    test('should write a PDF whose cross-reference table points at its objects', () => {
+        const doc = new PdfDocument({ info: { title: 'Généalogie' } });
+        doc.writeParagraph('First page');
+        doc.addPage();
+        doc.writeParagraph([{ text: 'Second ', style: 'bold' }, { text: 'page' }]);
+
+        const buffer = doc.toBuffer();
+        const source = buffer.toString('latin1');
+        const xrefOffset = parseInt(source.match(/startxref\s+(\d+)/)[1], 10);
+        const offsets = [...source.slice(xrefOffset).matchAll(/(\d{10}) 00000 n/g)].map(match => parseInt(match[1], 10));
+
+        expect(source.startsWith('%PDF-1.4')).toBe(true);
+        expect(source).toContain('/Count 2');
+        offsets.forEach((offset, index) => expect(source.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`)));
+        expect(pdfText(buffer)).toMatch(/First page Second +page/);
+    });
+
+    test('should ignore images it cannot embed', () => {
+        expect(PdfDocument.readImage(Buffer.from('GIF89a...........'))).toBeNull();
+    });
+});
+
+describe('Family History Report', () => {
+    beforeEach(() => {
+        jest.spyOn(projectRepository, 'findProjectWithMembers').mockResolvedValue(PROJECT);
+        jest.spyOn(projectRepository, 'getProjectPersons').mockResolvedValue(PERSONS);
+        jest.spyOn(relationshipRepository, 'findRelationshipsInvolvingPersons').mockResolvedValue(RELATIONSHIPS);
+        jest.spyOn(eventRepository, 'findEventsByPersonId').mockImplementation(async (personId) => (personId === 'william'
+            ? [{ event_id: 'e1', event_type: 'immigration', event_date: '1850-01-01', event_location: 'New York', description: 'Arrived on the Mary Ann' }]
+            : []));
+        jest.spyOn(documentRepository, 'findDocumentsByPersonId').mockImplementation(async (personId) => (personId === 'john'
+            ? [{ document_id: 'd1', title: 'Will of John Smith', document_type: 'legal', file_path: '../../etc/passwd', mime_type: 'image/png' }]
+            : []));
+        jest.spyOn(sourceRepository, 'findCitationsForPerson').mockImplementation(async (personId) => (personId === 'john'
+            ? [{
+                citation_id: 'c1',
+                entity_type: 'person',
+                entity_id: 'john',
+                field_name: 'birth_date',
+                page: 'p. 4',
+                source: { title: 'Boston Births', author: 'City of Boston', repository: 'City Archives' }
+            }]
+            : []));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should build a Register descendant report from the earliest progenitor', async () => {
+        const report = await reportService.buildReport(PROJECT_ID);
+
+        expect(report.progenitor).toBe('John Smith');
+        expect(report.preparedFor).toEqual(['Jane Client', 'Old Client']);
+        expect(report.preparedBy).toBe('Rita Reed');
+        expect(report.generations.map(section => section.title)).toEqual(['Generation One', 'Generation Two']);
+
+        const [john] = report.generations[0].entries;
+        const text = john.paragraphs[0].map(segment => segment.text || '').join('');
+        expect(john.label).toBe('1');
+        expect(text).toBe('John Smith was born on 1 January 1800 in Boston and died on 2 May 1870. He married Mary Jones on 1 June 1828.');
+        expect(john.paragraphs[0]).toContainEqual({ note: 1 });
+        expect(john.childrenIntro).toBe('Children of John Smith and Mary Jones:');
+        expect(john.children.map(child => [child.number, child.roman, child.marker])).toEqual([[2, 'i', ''], [null, 'ii', '']]);
+        expect(john.spouses.map(spouse => spouse.personId)).toEqual(['mary']);
+
+        const [william] = report.generations[1].entries;
+        expect(william.heading.map(segment => segment.text || segment.sup).join('')).toBe('William2 Smith (John1)');
+        expect(william.paragraphs[0].map(segment => segment.text || '').join(''))
+            .toContain('On 1 January 1850, he immigrated to New York. Arrived on the Mary Ann.');
+
+        expect(report.notes).toEqual([{ number: 1, text: 'City of Boston, Boston Births; City Archives, p. 4.' }]);
+        expect(report.otherEntries.map(entry => entry.personId)).toEqual(['thomas']);
+        expect(report.index.map(item => item.name)).toEqual([
+            'Brown, Ann', 'Green, Thomas', 'Jones, Mary', 'Smith, Alice', 'Smith, George', 'Smith, John', 'Smith, Sarah', 'Smith, William'
+        ]);
+    });
+
+    test('should mark continued children with a plus in NGSQ numbering', async () => {
+        const report = await reportService.buildReport(PROJECT_ID, { numbering: 'ngsq' });
+
+        expect(report.generations[0].entries[0].children.map(child => [child.number, child.marker])).toEqual([[2, '+'], [3, '']]);
+        expect(report.generations[1].entries[0].children.map(child => child.number)).toEqual([4, 5]);
+    });
+
+    test('should chart the pedigree of the person with the most known ancestors', async () => {
+        const report = await reportService.buildReport(PROJECT_ID);
+
+        expect(report.pedigree.subject).toBe('Alice Smith');
+        expect(report.pedigree.slots.slice(0, 5).map(slot => slot && slot.name)).toEqual([
+            'Alice Smith', 'William Smith', null, 'John Smith', 'Mary Jones'
+        ]);
+        expect(report.pedigree.slots[4].birth).toBe('b. abt. 1805');
+    });
+
+    test('should reject people outside the project and unknown numbering', async () => {
+        await expect(reportService.buildReport(PROJECT_ID, { subjectPersonId: 'nobody' }))
+            .rejects.toThrow('Validation error: Subject must be a person in this project');
+        await expect(reportService.buildReport(PROJECT_ID, { numbering: 'henry' }))
+            .rejects.toThrow('Validation error: Numbering must be one of: register, ngsq');
+    });
+
+    test('should not read document files outside the uploads folder', async () => {
+        const report = await reportService.buildReport(PROJECT_ID);
+
+        expect(report.generations[0].entries[0].documents).toEqual([
+            expect.objectContaining({ title: 'Will of John Smith', type: 'Legal document', image: null })
+        ]);
+    });
+
+    test('should render the report as PDF and HTML', async () => {
+        const pdf = await reportService.generateReport(PROJECT_ID);
+        expect(pdf).toMatchObject({ fileName: 'Smith_Family_report.pdf', contentType: 'application/pdf' });
+
+        const text = pdfText(pdf.content);
+        expect(text).toContain('Pedigree of Alice Smith');
+        expect(text).toContain('Descendants of John Smith');
+        expect(text).toContain('Index of Names');
+
+        const html = await reportService.generateReport(PROJECT_ID, { format: 'html' });
+        const page = html.content.toString('utf8');
+        expect(html.fileName).toBe('Smith_Family_report.html');
+        expect(page).toContain('<h3>Generation Two</h3>');
+        expect(page).toContain('<li id="note-1">City of Boston, Boston Births; City Archives, p. 4.</li>');
+        expect(page).toContain('<a href="#person-john">Smith, John</a>');
+    });
+
+    test('should email the report to the active clients of the project', async () => {
+        jest.spyOn(emailOutboxRepository, 'create').mockImplementation(async data => data);
+
+        const recipients = await reportService.emailReport(PROJECT_ID, { user_id: MANAGER_ID, roles: ['manager'] }, { message: 'Enjoy!' });
+
+        expect(recipients).toEqual(['jane@example.com']);
+        const [email] = emailOutboxRepository.create.mock.calls[0];
+        expect(email).toMatchObject({ user_id: CLIENT_ID, template: 'family_history_report', subject: 'Family history report: Smith Family' });
+        expect(email.text_body).toContain('Rita Reed sent you the family history report');
+        expect(email.attachments[0]).toMatchObject({ filename: 'Smith_Family_report.pdf', content_type: 'application/pdf' });
+        expect(Buffer.from(email.attachments[0].content, 'base64').toString('latin1')).toMatch(/^%PDF-1\.4/);
+    });
+});
@@ -0,0 +1,178 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const { ProjectPerson, ProjectUser, Document, User } = require('../models');
+const researchLogRepository = require('../repositories/researchLogRepository');
+const projectRepository = require('../repositories/projectRepository');
+const researchLogService = require('../services/researchLogService');
+const UserEventService = require('../services/userEventService');
+const ProjectUtils = require('../utils/projectUtils');
+const TransactionManager = require('../utils/transactionManager');
+
+const USER_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const ASSIGNEE_ID = 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e';
+const PROJECT_ID = 'c3d4e5f6-a7b8-4c9d-8e1f-2a3b4c5d6e7f';
+const ENTRY_ID = 'd4e5f6a7-b8c9-4d0e-9f2a-3b4c5d6e7f8a';
+const TASK_ID = 'e5f6a7b8-c9d0-4e1f-8a3b-4c5d6e7f8a9b';
+const PERSON_ID = 'f6a7b8c9-d0e1-4f2a-9b4c-5d6e7f8a9b0c';
+const DOCUMENT_ID = 'a7b8c9d0-e1f2-4a3b-8c5d-6e7f8a9b0c1d';
+
+const entry = (overrides = {}) => ({
+    entry_id: ENTRY_ID,
+    project_id: PROJECT_ID,
+    title: 'Baptism of Patrick Walsh',
+    result: 'negative',
+    ...overrides
+});
+
+const task = (overrides = {}) => ({
+    task_id: TASK_ID,
+    project_id: PROJECT_ID,
+    title: 'Order the 1850 parish register',
+    priority: 'medium',
+    status: 'open',
+    ...overrides
+});
+
+beforeEach(() => {
+    jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async (callback) => callback({}));
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Research Log Service', () => {
+    beforeEach(() => {
+        jest.spyOn(projectRepository, 'exists').mockResolvedValue(true);
+    });
+
+    it('should record a search with its persons and documents', async () => {
+        jest.spyOn(ProjectPerson, 'count').mockResolvedValue(1);
+        jest.spyOn(Document, 'count').mockResolvedValue(1);
+        const create = jest.spyOn(researchLogRepository, 'create').mockResolvedValue(entry());
+        const setEntryLinks = jest.spyOn(researchLogRepository, 'setEntryLinks').mockResolvedValue();
+        jest.spyOn(researchLogRepository, 'findEntryById').mockResolvedValue(entry());
+
+        await researchLogService.createEntry({
+            project_id: PROJECT_ID,
+            title: 'Baptism of Patrick Walsh',
+            repositories_searched: ['Cork parish registers'],
+            result: 'negative',
+            person_ids: [PERSON_ID, PERSON_ID],
+            document_ids: [DOCUMENT_ID]
+        }, USER_ID);
+
+        expect(create).toHaveBeenCalledWith({
+            title: 'Baptism of Patrick Walsh',
+            repositories_searched: ['Cork parish registers'],
+            result: 'negative',
+            project_id: PROJECT_ID,
+            created_by: USER_ID
+        }, expect.anything());
+        expect(setEntryLinks).toHaveBeenCalledWith(ENTRY_ID, { personIds: [PERSON_ID, PERSON_ID], documentIds: [DOCUMENT_ID] }, expect.anything());
+    });
+
+    it('should refuse to link persons of another project', async () => {
+        jest.spyOn(ProjectPerson, 'count').mockResolvedValue(0);
+        const create = jest.spyOn(researchLogRepository, 'create');
+
+        await expect(researchLogService.createEntry({ project_id: PROJECT_ID, title: 'Census', person_ids: [PERSON_ID] }, USER_ID))
+            .rejects.toThrow('Linked persons must belong to the project');
+        expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should record when a task is done and clear it when reopened', async () => {
+        const updateTask = jest.spyOn(researchLogRepository, 'updateTask').mockResolvedValue({});
+
+        jest.spyOn(researchLogRepository, 'findTaskById').mockResolvedValue(task());
+        await researchLogService.updateTask(TASK_ID, { status: 'done', project_id: 'ignored' });
+        expect(updateTask).toHaveBeenCalledWith(TASK_ID, { status: 'done', completed_at: expect.any(Date) }, expect.anything());
+
+        jest.spyOn(researchLogRepository, 'findTaskById').mockResolvedValue(task({ status: 'done', completed_at: new Date() }));
+        await researchLogService.updateTask(TASK_ID, { status: 'in_progress' });
+        expect(updateTask).toHaveBeenLastCalledWith(TASK_ID, { status: 'in_progress', completed_at: null }, expect.anything());
+    });
+
+    it('should only assign tasks to managers and project users', async () => {
+        jest.spyOn(User, 'findByPk').mockResolvedValue({ user_id: ASSIGNEE_ID, Roles: [{ name: 'client' }] });
+        jest.spyOn(ProjectUser, 'findOne').mockResolvedValue(null);
+        const createTask = jest.spyOn(researchLogRepository, 'createTask');
+
+        await expect(researchLogService.createTask({ project_id: PROJECT_ID, title: 'Visit archive', assignee_id: ASSIGNEE_ID }, USER_ID))
+            .rejects.toThrow('Tasks can only be assigned to managers and users with access to the project');
+        expect(createTask).not.toHaveBeenCalled();
+
+        jest.spyOn(User, 'findByPk').mockResolvedValue({ user_id: ASSIGNEE_ID, Roles: [{ name: 'manager' }] });
+        createTask.mockResolvedValue(task());
+        jest.spyOn(researchLogRepository, 'findTaskById').mockResolvedValue(task({ assignee_id: ASSIGNEE_ID }));
+
+        await researchLogService.createTask({ project_id: PROJECT_ID, title: 'Visit archive', assignee_id: ASSIGNEE_ID }, USER_ID);
+        expect(createTask).toHaveBeenCalledWith(expect.objectContaining({ assignee_id: ASSIGNEE_ID, completed_at: null, created_by: USER_ID }), expect.anything());
+    });
+
+    it('should list open tasks for the manager dashboard', async () => {
+        jest.spyOn(researchLogRepository, 'findOpenTasks').mockResolvedValue([
+            task({
+                priority: 'high',
+                due_date: '2026-11-01',
+                project: { id: PROJECT_ID, title: 'Walsh Family' },
+                assignee: { first_name: 'Mary', last_name: 'Byrne' }
+            })
+        ]);
+
+        expect(await researchLogService.getPendingTasks()).toEqual([{
+            id: TASK_ID,
+            description: 'Order the 1850 parish register',
+            priority: 'high',
+            dueDate: '2026-11-01',
+            status: 'open',
+            projectId: PROJECT_ID,
+            projectTitle: 'Walsh Family',
+            assignee: 'Mary Byrne'
+        }]);
+    });
+});
+
+describe('Research Log API', () => {
+    const token = jwt.sign({ user_id: USER_ID, roles: ['manager'] }, process.env.JWT_SECRET);
+
+    it('should announce a new log entry to the project users', async () => {
+        jest.spyOn(researchLogService, 'createEntry').mockResolvedValue(entry());
+        const createEvent = jest.spyOn(UserEventService, 'createEventForProjectUsers').mockResolvedValue([]);
+
+        const res = await request(app)
+            .post('/api/research/entries')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ project_id: PROJECT_ID, title: 'Baptism of Patrick Walsh', result: 'negative' });
+
+        expect(res.statusCode).toBe(201);
+        expect(createEvent).toHaveBeenCalledWith(
+            [PROJECT_ID], USER_ID, 'research_entry_created', 'Research log: Baptism of Patrick Walsh', ENTRY_ID, 'research_entry'
+        );
+    });
+
+    it('should reject an unknown result', async () => {
+        const res = await request(app)
+            .post('/api/research/entries')
+            .set('Authorization', `Bearer ${token}`)
+            .send({ project_id: PROJECT_ID, title: 'Census', result: 'maybe' });
+
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should require edit access to the project of a task', async () => {
+        const clientToken = jwt.sign({ user_id: USER_ID, roles: ['client'] }, process.env.JWT_SECRET);
+        jest.spyOn(ProjectUtils, 'canAccessEntity').mockResolvedValue(false);
+        const updateTask = jest.spyOn(researchLogService, 'updateTask');
+
+        const res = await request(app)
+            .put(`/api/research/tasks/${TASK_ID}`)
+            .set('Authorization', `Bearer ${clientToken}`)
+            .send({ status: 'done' });
+
+        expect(res.statusCode).toBe(403);
+        expect(ProjectUtils.canAccessEntity).toHaveBeenCalledWith(expect.anything(), 'research_task', TASK_ID, 'edit', expect.anything());
+        expect(updateTask).not.toHaveBeenCalled();
+    });
+});
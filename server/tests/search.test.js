@@ -0,0 +1,247 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const { sequelize } = require('../config/database');
+const searchRepository = require('../repositories/searchRepository');
+const searchService = require('../services/searchService');
+const personService = require('../services/personService');
+const personRepository = require('../repositories/personRepository');
+const eventRepository = require('../repositories/eventRepository');
+const historyService = require('../services/historyService');
+const TransactionManager = require('../utils/transactionManager');
+const ProjectUtils = require('../utils/projectUtils');
+const { Person, PersonEvent, ProjectEvent } = require('../models');
+
+const USER_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const PROJECT_ID = '5e6f7a8b-9c0d-4e1f-8a3b-4c5d6e7f8a9b';
+const PERSON_ID = '6f7a8b9c-0d1e-4f2a-9b4c-5d6e7f8a9b0c';
+const EVENT_ID = '7a8b9c0d-1e2f-4a3b-8c5d-6e7f8a9b0c1d';
+
+const manager = { user_id: USER_ID, roles: ['manager'] };
+const client = { user_id: USER_ID, roles: ['client'] };
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Search Service', () => {
+    const mockSearch = () => jest.spyOn(searchRepository, 'search').mockResolvedValue({
+        rows: [
+            { entity_type: 'person', entity_id: PERSON_ID, project_ids: [PROJECT_ID], title: 'Patrick Walsh', date: '1850-03-12', rank: 0.6, snippet: [{ text: 'Patrick', match: false }], person_name: null },
+            { entity_type: 'event', entity_id: EVENT_ID, project_ids: [PROJECT_ID], title: 'immigration', date: '1880-05-01', rank: 0.3, snippet: [], person_name: 'Patrick Walsh' }
+        ],
+        typeCounts: [{ entity_type: 'person', count: 1 }, { entity_type: 'event', count: 1 }],
+        projectCounts: [{ project_id: PROJECT_ID, title: 'Walsh Family', count: 2 }]
+    });
+
+    const mockRedactions = ({ linked = [], redacted = [] } = {}) => {
+        jest.spyOn(searchRepository, 'findLinkedPersonIds').mockResolvedValue(linked);
+        jest.spyOn(personService, 'getRedactedPersonIds').mockResolvedValue(new Set(redacted));
+    };
+
+    it('should search every word of the text as a lower-case term', async () => {
+        jest.spyOn(ProjectUtils, 'getAccessibleProjectIds').mockResolvedValue(null);
+        mockSearch();
+
+        await searchService.search('  Walsh, CORK!  ', manager, { page: '2', pageSize: '10' });
+
+        expect(searchRepository.search).toHaveBeenCalledWith(['walsh', 'cork'], expect.objectContaining({
+            projectIds: null,
+            limit: 10,
+            offset: 10
+        }));
+    });
+
+    it('should name results and count matches by type and project', async () => {
+        jest.spyOn(ProjectUtils, 'getAccessibleProjectIds').mockResolvedValue(null);
+        mockSearch();
+
+        const result = await searchService.search('walsh', manager);
+
+        expect(result.results.map(r => r.title)).toEqual(['Patrick Walsh', 'Immigration of Patrick Walsh']);
+        expect(result.facets.entity_types).toEqual([
+            { entity_type: 'person', count: 1 },
+            { entity_type: 'event', count: 1 },
+            { entity_type: 'document', count: 0 },
+            { entity_type: 'note', count: 0 }
+        ]);
+        expect(result.facets.projects).toEqual([{ project_id: PROJECT_ID, title: 'Walsh Family', count: 2 }]);
+        expect(result.metadata).toEqual({ totalCount: 2, totalPages: 1, currentPage: 1, pageSize: 20 });
+    });
+
+    it('should only count the chosen types in the total', async () => {
+        jest.spyOn(ProjectUtils, 'getAccessibleProjectIds').mockResolvedValue(null);
+        mockSearch();
+
+        const result = await searchService.search('walsh', manager, { types: ['event'] });
+
+        expect(result.metadata.totalCount).toBe(1);
+    });
+
+    it('should limit clients to their projects and find nothing for clients without any', async () => {
+        const getAccessible = jest.spyOn(ProjectUtils, 'getAccessibleProjectIds').mockResolvedValueOnce([PROJECT_ID]);
+        mockRedactions();
+        mockSearch();
+
+        await searchService.search('walsh', client);
+        expect(searchRepository.search).toHaveBeenCalledWith(['walsh'], expect.objectContaining({ projectIds: [PROJECT_ID] }));
+
+        getAccessible.mockResolvedValueOnce([]);
+        const result = await searchService.search('walsh', client);
+        expect(searchRepository.search).toHaveBeenCalledTimes(1);
+        expect(result.results).toEqual([]);
+        expect(result.metadata.totalCount).toBe(0);
+    });
+
+    it('should leave out living persons and their events for clients who can only view them', async () => {
+        jest.spyOn(ProjectUtils, 'getAccessibleProjectIds').mockResolvedValue([PROJECT_ID]);
+        mockRedactions({ linked: [PERSON_ID], redacted: [PERSON_ID] });
+        mockSearch();
+
+        await searchService.search('walsh', client);
+
+        expect(searchRepository.findLinkedPersonIds).toHaveBeenCalledWith(['walsh'], { projectIds: [PROJECT_ID] });
+        expect(personService.getRedactedPersonIds).toHaveBeenCalledWith(client, [PERSON_ID]);
+        expect(searchRepository.search).toHaveBeenCalledWith(['walsh'], expect.objectContaining({ hiddenPersonIds: [PERSON_ID] }));
+    });
+
+    it('should not look for redacted records for managers', async () => {
+        jest.spyOn(ProjectUtils, 'getAccessibleProjectIds').mockResolvedValue(null);
+        const getRedacted = jest.spyOn(personService, 'getRedactedPersonIds');
+        const findLinked = jest.spyOn(searchRepository, 'findLinkedPersonIds');
+        mockSearch();
+
+        const result = await searchService.search('walsh', manager);
+
+        expect(findLinked).not.toHaveBeenCalled();
+        expect(getRedacted).not.toHaveBeenCalled();
+        expect(result.results).toHaveLength(2);
+    });
+
+    it('should not search text without words', async () => {
+        mockSearch();
+
+        const result = await searchService.search(' ,.- ', manager);
+
+        expect(searchRepository.search).not.toHaveBeenCalled();
+        expect(result.results).toEqual([]);
+    });
+});
+
+describe('Search Repository', () => {
+    it('should match each term as written or stemmed, scoped to the given projects', async () => {
+        const query = jest.spyOn(sequelize, 'query').mockResolvedValue([]);
+
+        await searchRepository.search(['walsh', 'cork'], { projectIds: [PROJECT_ID], projectId: PROJECT_ID });
+
+        expect(query).toHaveBeenCalledTimes(3);
+        const [sql, { replacements }] = query.mock.calls[2];
+        expect(sql).toContain("(to_tsquery('simple', :term0) || to_tsquery('english', :term0)) && (to_tsquery('simple', :term1)");
+        expect(sql).toContain('WHERE project_id IN (:projectIds)');
+        expect(sql).toContain('HAVING bool_or(project_id = :projectId)');
+        expect(sql).toContain('p.maiden_name, p.other_names');
+        expect(replacements).toMatchObject({ term0: 'walsh:*', term1: 'cork:*', projectIds: [PROJECT_ID] });
+    });
+
+    it('should leave hidden persons, their events and their documents out before counting and paging', async () => {
+        const query = jest.spyOn(sequelize, 'query').mockResolvedValue([]);
+
+        await searchRepository.search(['walsh'], { projectIds: [PROJECT_ID], hiddenPersonIds: [PERSON_ID] });
+
+        for (const [sql, { replacements }] of query.mock.calls) {
+            const [, scoped] = sql.replace(/\s+/g, ' ').match(/scoped AS \((.*?)\) SELECT/);
+            expect(scoped).toContain("(entity_type = 'person' AND entity_id IN (:hiddenPersonIds))");
+            expect(scoped).toContain('SELECT event_id FROM person_events WHERE person_id IN (:hiddenPersonIds)');
+            expect(scoped).toContain('SELECT document_id FROM document_persons WHERE person_id IN (:hiddenPersonIds)');
+            expect(replacements.hiddenPersonIds).toEqual([PERSON_ID]);
+        }
+    });
+
+    it('should find the persons linked to the matches of a search', async () => {
+        const query = jest.spyOn(sequelize, 'query').mockResolvedValue([{ person_id: PERSON_ID }]);
+
+        expect(await searchRepository.findLinkedPersonIds(['walsh'], { projectIds: [PROJECT_ID] })).toEqual([PERSON_ID]);
+
+        const sql = query.mock.calls[0][0].replace(/\s+/g, ' ');
+        expect(sql).toContain('JOIN person_events pe ON pe.event_id = s.entity_id');
+        expect(sql).toContain('JOIN document_persons dp ON dp.document_id = s.entity_id');
+        expect(sql).not.toContain(':hiddenPersonIds');
+    });
+
+    it('should find events created through the API in the projects of their persons', async () => {
+        jest.spyOn(ProjectUtils, 'canAccessEntity').mockResolvedValue(true);
+        jest.spyOn(ProjectUtils, 'getProjectIdsForEntity').mockResolvedValue([]);
+        jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async callback => callback({}));
+        jest.spyOn(personRepository, 'findById').mockResolvedValue({ person_id: PERSON_ID, birth_date: '1850-03-12', death_date: null });
+        jest.spyOn(eventRepository, 'create').mockImplementation(async data => ({ ...data, event_id: EVENT_ID, dataValues: {} }));
+        jest.spyOn(historyService, 'recordChange').mockResolvedValue();
+        jest.spyOn(Person, 'findByPk').mockResolvedValue({ first_name: 'Patrick', last_name: 'Walsh' });
+        const linkPerson = jest.spyOn(PersonEvent, 'create').mockResolvedValue({});
+        const linkProject = jest.spyOn(ProjectEvent, 'create');
+
+        const res = await request(app)
+            .post('/api/events')
+            .set('Authorization', `Bearer ${jwt.sign(client, process.env.JWT_SECRET)}`)
+            .send({ person_id: PERSON_ID, event_type: 'residence', event_date: '1880-06-01', event_location: 'Boston' });
+
+        expect(res.statusCode).toBe(201);
+        expect(linkPerson).toHaveBeenCalledWith(expect.objectContaining({ person_id: PERSON_ID, event_id: EVENT_ID }), expect.anything());
+        expect(linkProject).not.toHaveBeenCalled();
+
+        // The event is only linked to the person, so its projects come from the person's projects
+        const query = jest.spyOn(sequelize, 'query').mockResolvedValue([]);
+        await searchRepository.search(['boston'], { projectIds: [PROJECT_ID] });
+
+        const sql = query.mock.calls[0][0].replace(/\s+/g, ' ');
+        expect(sql).toContain('SELECT pe.event_id, pp.project_id FROM person_events pe JOIN project_persons pp ON pp.person_id = pe.person_id');
+        expect(sql).toContain('SELECT dp.document_id, pp.project_id FROM document_persons dp JOIN project_persons pp ON pp.person_id = dp.person_id');
+    });
+
+    it('should split snippets into matched and unmatched parts', async () => {
+        jest.spyOn(sequelize, 'query')
+            .mockResolvedValueOnce([])
+            .mockResolvedValueOnce([])
+            .mockResolvedValueOnce([{ entity_type: 'person', snippet: 'born in \u0002Cork\u0003 in 1850' }]);
+
+        const { rows } = await searchRepository.search(['cork'], {});
+
+        expect(rows[0].snippet).toEqual([
+            { text: 'born in ', match: false },
+            { text: 'Cork', match: true },
+            { text: ' in 1850', match: false }
+        ]);
+    });
+});
+
+describe('Search API', () => {
+    const token = jwt.sign({ user_id: USER_ID, roles: ['manager'] }, process.env.JWT_SECRET);
+
+    it('should pass the search options to the service', async () => {
+        jest.spyOn(searchService, 'search').mockResolvedValue({ results: [], facets: {}, metadata: {} });
+
+        const res = await request(app)
+            .get('/api/search')
+            .query({ q: 'walsh', types: 'person,note', projectId: PROJECT_ID })
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(200);
+        expect(searchService.search).toHaveBeenCalledWith('walsh', expect.objectContaining({ user_id: USER_ID }), expect.objectContaining({
+            types: ['person', 'note'],
+            projectId: PROJECT_ID
+        }));
+    });
+
+    it('should reject a search without text or with an unknown type', async () => {
+        const missing = await request(app)
+            .get('/api/search')
+            .set('Authorization', `Bearer ${token}`);
+        expect(missing.statusCode).toBe(400);
+
+        const unknownType = await request(app)
+            .get('/api/search')
+            .query({ q: 'walsh', types: 'person,relationship' })
+            .set('Authorization', `Bearer ${token}`);
+        expect(unknownType.statusCode).toBe(400);
+        expect(unknownType.body.errors.types).toBeDefined();
+    });
+});
@@ -0,0 +1,284 @@
+const crypto = require('crypto');
+const bcrypt = require('bcrypt');
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const app = require('../app');
+const { ShareLink, Document, User, ProjectUser } = require('../models');
+const shareLinkRepository = require('../repositories/shareLinkRepository');
+const projectRepository = require('../repositories/projectRepository');
+const personRepository = require('../repositories/personRepository');
+const relationshipRepository = require('../repositories/relationshipRepository');
+const shareLinkService = require('../services/shareLinkService');
+const UserEventService = require('../services/userEventService');
+const TransactionManager = require('../utils/transactionManager');
+const { isPresumedLiving } = require('../utils/privacy');
+
+const USER_ID = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+const CLIENT_ID = 'b2c3d4e5-f6a7-4b8c-9d0e-1f2a3b4c5d6e';
+const PROJECT_ID = 'c3d4e5f6-a7b8-4c9d-8e1f-2a3b4c5d6e7f';
+const LINK_ID = 'd4e5f6a7-b8c9-4d0e-9f2a-3b4c5d6e7f8a';
+const DOCUMENT_ID = 'a7b8c9d0-e1f2-4a3b-8c5d-6e7f8a9b0c1d';
+const TOKEN = 'ab'.repeat(32);
+
+const inDays = (days) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+const shareLink = (overrides = {}) => ShareLink.build({
+    share_link_id: LINK_ID,
+    project_id: PROJECT_ID,
+    token_hash: crypto.createHash('sha256').update(TOKEN).digest('hex'),
+    label: 'Aunt Mary',
+    expires_at: inDays(30),
+    created_by: USER_ID,
+    documents: [],
+    ...overrides
+}, { include: [{ model: Document, as: 'documents' }] });
+
+const person = (id, birthDate, deathDate = null, events = []) => ({
+    person_id: id,
+    first_name: id,
+    last_name: 'Walsh',
+    gender: 'female',
+    birth_date: birthDate,
+    death_date: deathDate,
+    notes: 'Research notes',
+    events
+});
+
+beforeEach(() => {
+    jest.spyOn(TransactionManager, 'executeTransaction').mockImplementation(async (callback) => callback({}));
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('Living Persons', () => {
+    const now = new Date('2026-06-01');
+
+    it('should presume persons without a death date born in the last 100 years are alive', () => {
+        expect(isPresumedLiving(person('kate', '1950-03-01'), now)).toBe(true);
+        expect(isPresumedLiving(person('kate', null), now)).toBe(true);
+        expect(isPresumedLiving(person('kate', '1901-03-01'), now)).toBe(false);
+        expect(isPresumedLiving(person('kate', '1950-03-01', '2020-01-01'), now)).toBe(false);
+    });
+
+    it('should read approximate birth dates at their latest', () => {
+        // "ABT 1924" could be as late as 1929
+        const detail = { qualifier: 'about', precision: 'year', start: '1924-01-01', end: '1924-12-31', sort_key: '1924-01-01' };
+
+        expect(isPresumedLiving({ ...person('kate', '1924-01-01'), birth_date_detail: detail }, now)).toBe(true);
+        expect(isPresumedLiving(person('kate', '1924-01-01'), now)).toBe(false);
+    });
+});
+
+describe('Share Link Service', () => {
+    it('should keep only the hashes of the token and password', async () => {
+        jest.spyOn(projectRepository, 'exists').mockResolvedValue(true);
+        jest.spyOn(Document, 'count').mockResolvedValue(1);
+        const create = jest.spyOn(shareLinkRepository, 'create').mockResolvedValue({ share_link_id: LINK_ID });
+        const setLinkDocuments = jest.spyOn(shareLinkRepository, 'setLinkDocuments').mockResolvedValue();
+        jest.spyOn(shareLinkRepository, 'findLinkById').mockResolvedValue(shareLink({ password_hash: 'hash' }));
+
+        const link = await shareLinkService.createShareLink(PROJECT_ID, {
+            label: 'Aunt Mary',
+            expires_at: inDays(30).toISOString(),
+            password: 'family-tree',
+            document_ids: [DOCUMENT_ID]
+        }, USER_ID);
+
+        const stored = create.mock.calls[0][0];
+        expect(link.token).toMatch(/^[0-9a-f]{64}$/);
+        expect(link.url).toMatch(new RegExp(`/shared/${link.token}$`));
+        expect(stored.token_hash).toBe(crypto.createHash('sha256').update(link.token).digest('hex'));
+        expect(await bcrypt.compare('family-tree', stored.password_hash)).toBe(true);
+        expect(setLinkDocuments).toHaveBeenCalledWith(LINK_ID, [DOCUMENT_ID], expect.anything());
+        expect(link).not.toHaveProperty('token_hash');
+        expect(link).not.toHaveProperty('password_hash');
+        expect(link).toEqual(expect.objectContaining({ has_password: true, status: 'active' }));
+    });
+
+    it('should only make links that expire within a year', async () => {
+        const create = jest.spyOn(shareLinkRepository, 'create');
+
+        await expect(shareLinkService.createShareLink(PROJECT_ID, { expires_at: inDays(-1).toISOString() }, USER_ID))
+            .rejects.toThrow('Validation error: The expiry date must be in the future');
+        await expect(shareLinkService.createShareLink(PROJECT_ID, { expires_at: inDays(400).toISOString() }, USER_ID))
+            .rejects.toThrow('Validation error: Share links can last at most 365 days');
+        expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should let only the link creator or project editors revoke a link', async () => {
+        jest.spyOn(shareLinkRepository, 'findById').mockResolvedValue({ share_link_id: LINK_ID, project_id: PROJECT_ID, created_by: USER_ID });
+        jest.spyOn(ProjectUser, 'findAll').mockResolvedValue([]);
+        const update = jest.spyOn(shareLinkRepository, 'update').mockResolvedValue();
+        jest.spyOn(shareLinkRepository, 'findLinkById').mockResolvedValue(shareLink({ revoked_at: new Date() }));
+
+        await expect(shareLinkService.revokeShareLink(PROJECT_ID, LINK_ID, { user_id: CLIENT_ID, roles: ['client'] }))
+            .rejects.toThrow('You do not have access to revoke this share link');
+        expect(update).not.toHaveBeenCalled();
+
+        const link = await shareLinkService.revokeShareLink(PROJECT_ID, LINK_ID, { user_id: USER_ID, roles: ['client'] });
+        expect(link.status).toBe('revoked');
+        expect(update).toHaveBeenCalledWith(LINK_ID, { revoked_at: expect.any(Date) });
+    });
+
+    it('should refuse expired and revoked links', async () => {
+        const recordAccess = jest.spyOn(shareLinkRepository, 'recordAccess').mockResolvedValue();
+
+        jest.spyOn(shareLinkRepository, 'findByTokenHash').mockResolvedValue(shareLink({ expires_at: inDays(-1) }));
+        await expect(shareLinkService.openShareLink(TOKEN)).rejects.toThrow('Share link not found or no longer valid');
+
+        jest.spyOn(shareLinkRepository, 'findByTokenHash').mockResolvedValue(shareLink({ revoked_at: new Date() }));
+        await expect(shareLinkService.openShareLink(TOKEN)).rejects.toThrow('Share link not found or no longer valid');
+
+        expect(recordAccess).not.toHaveBeenCalled();
+    });
+
+    it('should ask for the password of a protected link', async () => {
+        jest.spyOn(shareLinkRepository, 'findByTokenHash').mockResolvedValue(shareLink({ password_hash: await bcrypt.hash('family-tree', 4) }));
+        const recordAccess = jest.spyOn(shareLinkRepository, 'recordAccess').mockResolvedValue();
+        jest.spyOn(projectRepository, 'findById').mockResolvedValue({ id: PROJECT_ID, title: 'Walsh Family' });
+
+        await expect(shareLinkService.openShareLink(TOKEN)).rejects.toThrow('Share link password required');
+        await expect(shareLinkService.openShareLink(TOKEN, 'guess')).rejects.toThrow('Share link password is incorrect');
+
+        const link = await shareLinkService.openShareLink(TOKEN, 'family-tree');
+        expect(link.project.title).toBe('Walsh Family');
+        expect(recordAccess).toHaveBeenCalledTimes(1);
+    });
+
+    it('should show living persons as placeholders without their events or documents', async () => {
+        const persons = [
+            person('nora', '1890-01-01', '1960-01-01', [
+                { event_id: 'e1', event_type: 'birth', event_date: '1890-01-01', person_events: { role: 'primary' } },
+                { event_id: 'e2', event_type: 'marriage', event_date: '1985-06-01', person_events: { role: 'witness' } }
+            ]),
+            person('kate', '1980-01-01', null, [
+                { event_id: 'e2', event_type: 'marriage', event_date: '1985-06-01', person_events: { role: 'primary' } }
+            ])
+        ];
+        jest.spyOn(projectRepository, 'findById').mockResolvedValue({ id: PROJECT_ID, title: 'Walsh Family', description: null });
+        jest.spyOn(projectRepository, 'getProjectPersons').mockResolvedValue(persons.map(({ person_id }) => ({ person_id })));
+        jest.spyOn(personRepository, 'findWithEvents').mockResolvedValue(persons);
+        jest.spyOn(relationshipRepository, 'findRelationshipsInvolvingPersons').mockResolvedValue([{
+            relationship_id: 'r1',
+            person1_id: 'nora',
+            person2_id: 'kate',
+            relationship_type: 'parent',
+            start_date: '1980-01-01',
+            person1: { first_name: 'nora' },
+            person2: { first_name: 'kate' }
+        }]);
+        jest.spyOn(Document, 'findAll').mockResolvedValue([
+            { document_id: DOCUMENT_ID, title: 'Baptism of Nora', document_type: 'certificate', persons: [{ person_id: 'nora', first_name: 'nora', last_name: 'Walsh' }] },
+            { document_id: 'doc-2', title: 'Birth of Kate', document_type: 'certificate', persons: [{ person_id: 'kate', first_name: 'kate', last_name: 'Walsh' }] }
+        ]);
+
+        const shared = await shareLinkService.getSharedProject(
+            shareLink({ documents: [{ document_id: DOCUMENT_ID }, { document_id: 'doc-2' }] }).toJSON()
+        );
+
+        expect(shared.persons).toEqual([
+            expect.objectContaining({ person_id: 'nora', first_name: 'nora', living: false }),
+            { person_id: 'kate', first_name: 'Living', last_name: '', gender: null, birth_date: null, death_date: null, living: true }
+        ]);
+        expect(shared.persons[0]).not.toHaveProperty('notes');
+        expect(shared.relationships).toEqual([{ relationship_id: 'r1', person1_id: 'nora', person2_id: 'kate', relationship_type: 'parent' }]);
+        expect(shared.timeline.map(entry => entry.event_id)).toEqual(['e1']);
+        expect(shared.documents.map(document => document.title)).toEqual(['Baptism of Nora']);
+        expect(shared.link).toEqual({ label: 'Aunt Mary', expires_at: expect.any(Date) });
+    });
+});
+
+describe('Share Link API', () => {
+    it('should answer a missing password with 401', async () => {
+        jest.spyOn(shareLinkService, 'openShareLink').mockRejectedValue(new Error('Share link password required'));
+
+        const res = await request(app).get(`/api/shared/${TOKEN}`);
+
+        expect(res.statusCode).toBe(401);
+        expect(res.body.password_required).toBe(true);
+    });
+
+    it('should show the shared project without a login and tell the link creator', async () => {
+        const openShareLink = jest.spyOn(shareLinkService, 'openShareLink').mockResolvedValue({
+            share_link_id: LINK_ID,
+            label: 'Aunt Mary',
+            created_by: USER_ID,
+            project: { id: PROJECT_ID, title: 'Walsh Family' }
+        });
+        jest.spyOn(shareLinkService, 'getSharedProject').mockResolvedValue({ persons: [] });
+        const createEvent = jest.spyOn(UserEventService, 'createEventForMultipleUsers').mockResolvedValue([]);
+
+        const res = await request(app)
+            .get(`/api/shared/${TOKEN}`)
+            .set('X-Share-Password', 'family-tree');
+
+        expect(res.statusCode).toBe(200);
+        expect(openShareLink).toHaveBeenCalledWith(TOKEN, 'family-tree');
+        expect(createEvent).toHaveBeenCalledWith(
+            [USER_ID],
+            null,
+            'share_link_accessed',
+            'Your share link for Aunt Mary to "Walsh Family" was opened',
+            LINK_ID,
+            'share_link'
+        );
+    });
+
+    it('should reject malformed tokens', async () => {
+        const openShareLink = jest.spyOn(shareLinkService, 'openShareLink');
+
+        const res = await request(app).get('/api/shared/not-a-token');
+
+        expect(res.statusCode).toBe(400);
+        expect(openShareLink).not.toHaveBeenCalled();
+    });
+
+    it('should not let clients who can only view a project create links', async () => {
+        const token = jwt.sign({ user_id: CLIENT_ID, roles: ['client'] }, process.env.JWT_SECRET);
+        // The client is not among the project's users with edit access
+        const findUser = jest.spyOn(User, 'findByPk').mockResolvedValue({ Projects: [] });
+        const createShareLink = jest.spyOn(shareLinkService, 'createShareLink');
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        const res = await request(app)
+            .post(`/api/projects/${PROJECT_ID}/share-links`)
+            .set('Authorization', `Bearer ${token}`)
+            .send({ label: 'Aunt Mary', expires_at: inDays(30).toISOString() });
+
+        expect(res.statusCode).toBe(403);
+        expect(findUser.mock.calls[0][1].include[0].through.where).toEqual({ project_id: PROJECT_ID, access_level: 'edit' });
+        expect(createShareLink).not.toHaveBeenCalled();
+    });
+
+    it('should not let clients who can only view a project revoke links made by others', async () => {
+        const token = jwt.sign({ user_id: CLIENT_ID, roles: ['client'] }, process.env.JWT_SECRET);
+        jest.spyOn(User, 'findByPk').mockResolvedValue({ Projects: [{ id: PROJECT_ID }] });
+        jest.spyOn(ProjectUser, 'findAll').mockResolvedValue([]);
+        jest.spyOn(shareLinkRepository, 'findById').mockResolvedValue({ share_link_id: LINK_ID, project_id: PROJECT_ID, created_by: USER_ID });
+        const update = jest.spyOn(shareLinkRepository, 'update');
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+
+        const res = await request(app)
+            .delete(`/api/projects/${PROJECT_ID}/share-links/${LINK_ID}`)
+            .set('Authorization', `Bearer ${token}`);
+
+        expect(res.statusCode).toBe(403);
+        expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should let managers create links and notify the project users', async () => {
+        const token = jwt.sign({ user_id: USER_ID, roles: ['manager'] }, process.env.JWT_SECRET);
+        jest.spyOn(shareLinkService, 'createShareLink').mockResolvedValue({ share_link_id: LINK_ID, label: 'Aunt Mary' });
+        const createEvent = jest.spyOn(UserEventService, 'createEventForProjectUsers').mockResolvedValue([]);
+
+        const res = await request(app)
+            .post(`/api/projects/${PROJECT_ID}/share-links`)
+            .set('Authorization', `Bearer ${token}`)
+            .send({ label: 'Aunt Mary', expires_at: inDays(30).toISOString() });
+
+        expect(res.statusCode).toBe(201);
+        expect(createEvent).toHaveBeenCalledWith([PROJECT_ID], USER_ID, 'share_link_created', 'Project shared with Aunt Mary', LINK_ID, 'share_link');
+    });
+});
@@ -0,0 +1,206 @@
+const request = require('supertest');
+const jwt = require('jsonwebtoken');
+const { Op } = require('sequelize');
+const app = require('../app');
+const { UserEvent, ProjectUser, Person, User } = require('../models');
+const UserEventService = require('../services/userEventService');
+const mailService = require('../services/mailService');
+const ProjectUtils = require('../utils/projectUtils');
+
+const USER_ID = '1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d';
+const ACTOR_ID = '2b3c4d5e-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+const EVENT_ID = '3c4d5e6f-7a8b-4c9d-8e1f-2a3b4c5d6e7f';
+const PROJECT_ID = '4d5e6f7a-8b9c-4d0e-9f2a-3b4c5d6e7f8a';
+const PERSON_ID = '5e6f7a8b-9c0d-4e1f-8a3b-4c5d6e7f8a9b';
+
+const USER = `Bearer ${jwt.sign({ user_id: USER_ID, roles: ['client'] }, process.env.JWT_SECRET)}`;
+
+// A saveable user event
+const userEvent = (overrides = {}) => ({
+    id: EVENT_ID,
+    user_id: USER_ID,
+    read_at: null,
+    archived_at: null,
+    save: jest.fn().mockResolvedValue(),
+    ...overrides
+});
+
+beforeEach(() => {
+    jest.spyOn(mailService, 'notifyUserEvents').mockResolvedValue([]);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('User Event State', () => {
+    it('should create the actor\'s own copy of a project event as read', async () => {
+        jest.spyOn(ProjectUser, 'findAll').mockResolvedValue([{ user_id: USER_ID }]);
+        const bulkCreate = jest.spyOn(UserEvent, 'bulkCreate').mockImplementation(async rows => rows);
+
+        await UserEventService.createEventForProjectUsers([PROJECT_ID], ACTOR_ID, 'person_created', 'Person added');
+
+        const rows = bulkCreate.mock.calls[0][0];
+        expect(rows.find(row => row.user_id === USER_ID).read_at).toBeNull();
+        expect(rows.find(row => row.user_id === ACTOR_ID).read_at).toBeInstanceOf(Date);
+    });
+
+    it('should name a living person as "Living" to recipients they are redacted for', async () => {
+        const person = { person_id: PERSON_ID, first_name: 'Kate', last_name: 'Moss' };
+        jest.spyOn(ProjectUser, 'findAll').mockResolvedValue([{ user_id: USER_ID }]);
+        jest.spyOn(Person, 'findAll').mockResolvedValue([{ person_id: PERSON_ID, birth_date: '1990-05-01', death_date: null }]);
+        jest.spyOn(User, 'findAll').mockResolvedValue([
+            { user_id: USER_ID, Roles: [{ name: 'client' }] },
+            { user_id: ACTOR_ID, Roles: [{ name: 'researcher' }] }
+        ]);
+        jest.spyOn(ProjectUtils, 'getUnrestrictedPersonIds').mockImplementation(async user =>
+            new Set(user.user_id === ACTOR_ID ? [PERSON_ID] : []));
+        const bulkCreate = jest.spyOn(UserEvent, 'bulkCreate').mockImplementation(async rows => rows);
+
+        await UserEventService.createEventForProjectUsers([PROJECT_ID], ACTOR_ID, 'person_updated',
+            name => `Family member information updated: ${name(person)}`);
+
+        const rows = bulkCreate.mock.calls[0][0];
+        expect(rows.find(row => row.user_id === USER_ID).message).toBe('Family member information updated: Living');
+        expect(rows.find(row => row.user_id === ACTOR_ID).message).toBe('Family member information updated: Kate Moss');
+    });
+
+    it('should name deceased persons to every recipient', async () => {
+        const person = { person_id: PERSON_ID, first_name: 'Nora', last_name: 'Moss' };
+        jest.spyOn(ProjectUser, 'findAll').mockResolvedValue([{ user_id: USER_ID }]);
+        jest.spyOn(Person, 'findAll').mockResolvedValue([{ person_id: PERSON_ID, birth_date: '1850-05-01', death_date: '1920-01-01' }]);
+        const findUsers = jest.spyOn(User, 'findAll');
+        const bulkCreate = jest.spyOn(UserEvent, 'bulkCreate').mockImplementation(async rows => rows);
+
+        await UserEventService.createEventForProjectUsers([PROJECT_ID], ACTOR_ID, 'person_updated',
+            name => `Family member information updated: ${name(person)}`);
+
+        expect(bulkCreate.mock.calls[0][0].map(row => row.message)).toEqual([
+            'Family member information updated: Nora Moss',
+            'Family member information updated: Nora Moss'
+        ]);
+        expect(findUsers).not.toHaveBeenCalled();
+    });
+
+    it('should mark an event read when it is archived', async () => {
+        const event = userEvent();
+        jest.spyOn(UserEvent, 'findOne').mockResolvedValue(event);
+
+        await UserEventService.updateEventState(USER_ID, EVENT_ID, { archived: true });
+
+        expect(event.archived_at).toBeInstanceOf(Date);
+        expect(event.read_at).toBeInstanceOf(Date);
+        expect(event.save).toHaveBeenCalled();
+    });
+
+    it('should keep the time an event was first read', async () => {
+        const readAt = new Date('2026-01-01T10:00:00Z');
+        const event = userEvent({ read_at: readAt, archived_at: new Date() });
+        jest.spyOn(UserEvent, 'findOne').mockResolvedValue(event);
+
+        await UserEventService.updateEventState(USER_ID, EVENT_ID, { read: true, archived: false });
+
+        expect(event.read_at).toBe(readAt);
+        expect(event.archived_at).toBeNull();
+    });
+
+    it('should only find events the user received', async () => {
+        const findOne = jest.spyOn(UserEvent, 'findOne').mockResolvedValue(null);
+
+        expect(await UserEventService.updateEventState(USER_ID, EVENT_ID, { read: true })).toBeNull();
+        expect(findOne).toHaveBeenCalledWith({ where: { id: EVENT_ID, user_id: USER_ID } });
+    });
+});
+
+describe('User Event Routes', () => {
+    it('should filter the inbox by read status and several types', async () => {
+        const findAndCountAll = jest.spyOn(UserEvent, 'findAndCountAll').mockResolvedValue({ count: 12, rows: [] });
+        jest.spyOn(UserEvent, 'count').mockResolvedValue(3);
+
+        const res = await request(app)
+            .get('/api/user-events')
+            .query({ status: 'unread', eventType: 'person_created,document_added', page: 2, limit: 5 })
+            .set('Authorization', USER);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.metadata).toEqual({ total: 12, page: 2, limit: 5, totalPages: 3, unread: 3 });
+
+        const { where, offset } = findAndCountAll.mock.calls[0][0];
+        expect(offset).toBe(5);
+        expect(where).toEqual({
+            user_id: USER_ID,
+            event_type: { [Op.in]: ['person_created', 'document_added'] },
+            read_at: null,
+            archived_at: null
+        });
+    });
+
+    it('should list only archived events from the archive', async () => {
+        const findAndCountAll = jest.spyOn(UserEvent, 'findAndCountAll').mockResolvedValue({ count: 0, rows: [] });
+        jest.spyOn(UserEvent, 'count').mockResolvedValue(0);
+
+        await request(app).get('/api/user-events').query({ archived: 'true' }).set('Authorization', USER);
+
+        expect(findAndCountAll.mock.calls[0][0].where.archived_at).toEqual({ [Op.ne]: null });
+    });
+
+    it('should return the unread count', async () => {
+        const count = jest.spyOn(UserEvent, 'count').mockResolvedValue(4);
+
+        const res = await request(app).get('/api/user-events/unread-count').set('Authorization', USER);
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body).toEqual({ count: 4 });
+        expect(count).toHaveBeenCalledWith({ where: { user_id: USER_ID, read_at: null, archived_at: null } });
+    });
+
+    it('should mark all events of the given types read', async () => {
+        const update = jest.spyOn(UserEvent, 'update').mockResolvedValue([2]);
+
+        const res = await request(app)
+            .put('/api/user-events/read-all')
+            .set('Authorization', USER)
+            .send({ event_types: ['person_created'] });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.body.updated).toBe(2);
+        expect(update.mock.calls[0][1].where).toEqual({
+            user_id: USER_ID,
+            read_at: null,
+            event_type: { [Op.in]: ['person_created'] }
+        });
+    });
+
+    it('should return 404 for an event the user did not receive', async () => {
+        jest.spyOn(UserEvent, 'findOne').mockResolvedValue(null);
+
+        const res = await request(app)
+            .put(`/api/user-events/${EVENT_ID}/state`)
+            .set('Authorization', USER)
+            .send({ read: true });
+
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('should require a read or archived state', async () => {
+        const res = await request(app)
+            .put(`/api/user-events/${EVENT_ID}/state`)
+            .set('Authorization', USER)
+            .send({});
+
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should no longer accept research notes as user events', async () => {
+        const create = jest.spyOn(UserEvent, 'create');
+
+        const res = await request(app)
+            .post('/api/user-events')
+            .set('Authorization', USER)
+            .send({ event_type: 'research_milestone', message: 'Immigration records verified', entity_id: PROJECT_ID, entity_type: 'project' });
+
+        expect(res.statusCode).toBe(400);
+        expect(create).not.toHaveBeenCalled();
+    });
+});
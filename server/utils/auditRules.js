@@ -0,0 +1,363 @@
+/**
+ * Data quality rules for project audits
+ * Each rule looks at a whole project at once and reports the issues it finds. Rules live in a
+ * registry: a new check is added with registerRule and every later audit runs it.
+ *
+ * A rule is { id, title, description, severity, check(project) }, where check returns a list of
+ * issues { message, person_id, related_person_ids?, entity_type?, entity_id?, severity? }
+ * and project is the lookup built by the audit service (see auditService._buildProject).
+ */
+
+const {
+    validateAge,
+    validateParentChildAgeDifference,
+    validateMarriage,
+    validateSiblingRelationships
+} = require('./genealogyRules');
+const { getRecordDateBounds, isAlwaysBefore, isSameGenealogicalDate, describeDate } = require('./genealogicalDate');
+
+const SEVERITIES = ['error', 'warning'];
+
+// A child can be born up to this many months after their father died
+const POSTHUMOUS_BIRTH_MONTHS = 10;
+
+// Events that are commonly recorded after a person's death, e.g. a funeral service
+const POSTHUMOUS_EVENT_TYPES = ['death', 'religious'];
+
+// Events a person can only have one of
+const ONCE_ONLY_EVENT_TYPES = ['birth', 'death'];
+
+const rules = new Map();
+
+/**
+ * Add a rule to the checks every audit runs
+ *
+ * @param {Object} rule - { id, title, description, severity, check }
+ * @returns {Object} The rule
+ */
+const registerRule = (rule) => {
+    if (!rule || !rule.id || typeof rule.check !== 'function') {
+        throw new Error('A data quality rule needs an id and a check function');
+    }
+    if (!SEVERITIES.includes(rule.severity)) {
+        throw new Error(`Severity of rule ${rule.id} must be one of: ${SEVERITIES.join(', ')}`);
+    }
+    if (rules.has(rule.id)) {
+        throw new Error(`Data quality rule ${rule.id} is already registered`);
+    }
+
+    rules.set(rule.id, rule);
+    return rule;
+};
+
+/**
+ * Remove a rule, e.g. one registered by a test
+ *
+ * @param {String} id - Rule ID
+ * @returns {Boolean} True when the rule was registered
+ */
+const unregisterRule = (id) => rules.delete(id);
+
+/**
+ * Describe the registered rules
+ *
+ * @returns {Array} { id, title, description, severity } in the order they were registered
+ */
+const getRules = () => Array.from(rules.values()).map(({ id, title, description, severity }) => ({ id, title, description, severity }));
+
+/**
+ * Run the registered rules over a project
+ *
+ * @param {Object} project - Project lookup from the audit service
+ * @param {Array} [ruleIds] - Rules to run; all of them when not given
+ * @returns {Array} Issues, each with the rule and severity it came from
+ */
+const runRules = (project, ruleIds = null) => {
+    const issues = [];
+
+    rules.forEach(rule => {
+        if (ruleIds && !ruleIds.includes(rule.id)) return;
+
+        rule.check(project).forEach(issue => {
+            issues.push({
+                rule: rule.id,
+                severity: issue.severity || rule.severity,
+                message: issue.message,
+                person_id: issue.person_id,
+                related_person_ids: issue.related_person_ids || [],
+                entity_type: issue.entity_type || 'person',
+                entity_id: issue.entity_id || issue.person_id
+            });
+        });
+    });
+
+    return issues;
+};
+
+// Links by blood, leaving out adoptive, step, foster and in-law parents and children
+const isBloodLink = ({ relationship }) => !relationship.relationship_qualifier || relationship.relationship_qualifier === 'biological';
+const bloodParents = (project, personId) => project.parents(personId).filter(isBloodLink);
+
+registerRule({
+    id: 'implausible_age',
+    title: 'Implausible dates of birth and death',
+    description: 'Deaths before births, dates in the future and lifespans over 120 years',
+    severity: 'warning',
+    check: (project) => {
+        const issues = [];
+
+        project.persons.forEach(person => {
+            validateAge(person).warnings.forEach(message => issues.push({
+                message: `${project.name(person.person_id)}: ${message}`,
+                person_id: person.person_id,
+                severity: message.startsWith('Death date is before') ? 'error' : undefined
+            }));
+        });
+
+        return issues;
+    }
+});
+
+registerRule({
+    id: 'parent_child_age',
+    title: 'Unlikely parent ages',
+    description: 'Parents born after their children, or who would have been under 14 or over 60',
+    severity: 'warning',
+    check: (project) => {
+        const issues = [];
+
+        project.persons.forEach(child => {
+            bloodParents(project, child.person_id).forEach(({ personId: parentId, relationship }) => {
+                validateParentChildAgeDifference(project.persons.get(parentId), child).warnings.forEach(message => issues.push({
+                    message: `${project.name(parentId)} and ${project.name(child.person_id)}: ${message}`,
+                    person_id: child.person_id,
+                    related_person_ids: [parentId],
+                    entity_type: 'relationship',
+                    entity_id: relationship.relationship_id,
+                    severity: message.startsWith('Parent must be born') ? 'error' : undefined
+                }));
+            });
+        });
+
+        return issues;
+    }
+});
+
+registerRule({
+    id: 'born_after_parent_death',
+    title: 'Children born after a parent died',
+    description: `Children born after their mother died, or more than ${POSTHUMOUS_BIRTH_MONTHS} months after their father died`,
+    severity: 'error',
+    check: (project) => {
+        const issues = [];
+
+        project.persons.forEach(child => {
+            const birth = getRecordDateBounds(child, 'birth_date');
+
+            bloodParents(project, child.person_id).forEach(({ personId: parentId, relationship }) => {
+                const parent = project.persons.get(parentId);
+                const death = getRecordDateBounds(parent, 'death_date');
+                if (!death || !death.latest) return;
+
+                // A father can die before his child is born, a mother cannot
+                const lastPossibleDay = new Date(death.latest);
+                if (parent.gender !== 'female') {
+                    lastPossibleDay.setUTCMonth(lastPossibleDay.getUTCMonth() + POSTHUMOUS_BIRTH_MONTHS);
+                }
+
+                if (isAlwaysBefore({ earliest: death.earliest, latest: lastPossibleDay }, birth)) {
+                    issues.push({
+                        message: `${project.name(child.person_id)} was born (${describeDate(child.birth_date, child.birth_date_detail)}) after ${project.name(parentId)} died (${describeDate(parent.death_date, parent.death_date_detail)})`,
+                        person_id: child.person_id,
+                        related_person_ids: [parentId],
+                        entity_type: 'relationship',
+                        entity_id: relationship.relationship_id
+                    });
+                }
+            });
+        });
+
+        return issues;
+    }
+});
+
+registerRule({
+    id: 'marriage_dates',
+    title: 'Unlikely marriages',
+    description: 'Marriages before age 14, before a spouse was born or after they died, and divorces before marriages',
+    severity: 'warning',
+    check: (project) => project.relationships
+        .filter(relationship => relationship.relationship_type === 'spouse')
+        .flatMap(relationship => {
+            const person1 = project.persons.get(relationship.person1_id);
+            const person2 = project.persons.get(relationship.person2_id);
+
+            return validateMarriage(person1, person2, relationship).warnings.map(message => ({
+                message: `${project.name(person1.person_id)} and ${project.name(person2.person_id)}: ${message}`,
+                person_id: person1.person_id,
+                related_person_ids: [person2.person_id],
+                entity_type: 'relationship',
+                entity_id: relationship.relationship_id
+            }));
+        })
+});
+
+registerRule({
+    id: 'too_many_parents',
+    title: 'More than two biological parents',
+    description: 'Persons with more than two parents who are not marked as adoptive, step, foster or in-law parents',
+    severity: 'error',
+    check: (project) => {
+        const issues = [];
+
+        project.persons.forEach(person => {
+            const parents = bloodParents(project, person.person_id);
+            if (parents.length <= 2) return;
+
+            issues.push({
+                message: `${project.name(person.person_id)} has ${parents.length} biological parents: ${parents.map(({ personId }) => project.name(personId)).join(', ')}`,
+                person_id: person.person_id,
+                related_person_ids: parents.map(({ personId }) => personId)
+            });
+        });
+
+        return issues;
+    }
+});
+
+registerRule({
+    id: 'ancestry_cycle',
+    title: 'Persons who are their own ancestors',
+    description: 'Parent links that lead back to the person they start from',
+    severity: 'error',
+    check: (project) => {
+        const issues = [];
+        const reported = new Set();
+        // 1 while a person's ancestors are being walked, 2 once they are done
+        const state = new Map();
+
+        const visit = (personId, path) => {
+            state.set(personId, 1);
+
+            project.parents(personId).forEach(({ personId: parentId }) => {
+                if (state.get(parentId) === 1) {
+                    const cycle = path.slice(path.indexOf(parentId));
+                    const key = [...cycle].sort().join(',');
+                    if (reported.has(key)) return;
+                    reported.add(key);
+
+                    issues.push({
+                        message: `${project.name(parentId)} is recorded as their own ancestor: ${[...cycle, parentId].map(id => project.name(id)).join(' → ')}`,
+                        person_id: parentId,
+                        related_person_ids: cycle.filter(id => id !== parentId)
+                    });
+                } else if (!state.has(parentId)) {
+                    visit(parentId, [...path, parentId]);
+                }
+            });
+
+            state.set(personId, 2);
+        };
+
+        project.persons.forEach(person => {
+            if (!state.has(person.person_id)) visit(person.person_id, [person.person_id]);
+        });
+
+        return issues;
+    }
+});
+
+registerRule({
+    id: 'event_after_death',
+    title: 'Events after death',
+    description: 'Events a person took part in that are dated after they died',
+    severity: 'warning',
+    check: (project) => {
+        const issues = [];
+
+        project.persons.forEach(person => {
+            const death = getRecordDateBounds(person, 'death_date');
+            if (!death) return;
+
+            project.events(person.person_id)
+                .filter(event => !POSTHUMOUS_EVENT_TYPES.includes(event.event_type))
+                .filter(event => isAlwaysBefore(death, getRecordDateBounds(event, 'event_date')))
+                .forEach(event => issues.push({
+                    message: `${project.name(person.person_id)} has a ${event.event_type.replace(/_/g, ' ')} event (${describeDate(event.event_date, event.event_date_detail)}) after their death`,
+                    person_id: person.person_id,
+                    entity_type: 'event',
+                    entity_id: event.event_id
+                }));
+        });
+
+        return issues;
+    }
+});
+
+registerRule({
+    id: 'duplicate_events',
+    title: 'Duplicate events',
+    description: 'Events of the same type on the same date recorded twice for a person, and second birth or death events',
+    severity: 'warning',
+    check: (project) => {
+        const issues = [];
+
+        project.persons.forEach(person => {
+            const events = project.events(person.person_id);
+
+            events.forEach((event, index) => {
+                const earlier = events.slice(0, index).find(other => other.event_type === event.event_type && (
+                    ONCE_ONLY_EVENT_TYPES.includes(event.event_type) ||
+                    isSameGenealogicalDate(other.event_date, other.event_date_detail, event.event_date, event.event_date_detail)
+                ));
+                if (!earlier) return;
+
+                issues.push({
+                    message: ONCE_ONLY_EVENT_TYPES.includes(event.event_type)
+                        ? `${project.name(person.person_id)} has more than one ${event.event_type} event`
+                        : `${project.name(person.person_id)} has the same ${event.event_type.replace(/_/g, ' ')} event twice`,
+                    person_id: person.person_id,
+                    entity_type: 'event',
+                    entity_id: event.event_id
+                });
+            });
+        });
+
+        return issues;
+    }
+});
+
+registerRule({
+    id: 'sibling_spacing',
+    title: 'Unlikely sibling births',
+    description: 'Siblings born less than nine months or more than 25 years apart',
+    severity: 'warning',
+    check: (project) => {
+        const issues = [];
+        // Both parents share the same children; each set of siblings is checked once
+        const checked = new Set();
+
+        project.persons.forEach(parent => {
+            const childIds = project.children(parent.person_id).filter(isBloodLink).map(({ personId }) => personId);
+            const key = [...childIds].sort().join(',');
+            if (childIds.length < 2 || checked.has(key)) return;
+            checked.add(key);
+
+            validateSiblingRelationships(childIds.map(id => project.persons.get(id))).warnings.forEach(message => issues.push({
+                message,
+                person_id: childIds[0],
+                related_person_ids: childIds.slice(1)
+            }));
+        });
+
+        return issues;
+    }
+});
+
+module.exports = {
+    SEVERITIES,
+    registerRule,
+    unregisterRule,
+    getRules,
+    runRules
+};
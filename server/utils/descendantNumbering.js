@@ -0,0 +1,90 @@
+/**
+ * Descendant report numbering
+ * Assigns the numbers used by the two standard descendant report formats:
+ * - Register (NEHGS): only children whose own families are carried forward get an Arabic number
+ * - NGSQ (Record): every child gets an Arabic number; a "+" marks those carried forward
+ * In both systems children are also listed with lowercase Roman numerals in birth order,
+ * and numbers run generation by generation in the order the children are listed.
+ */
+
+const NUMBERING_SYSTEMS = ['register', 'ngsq'];
+
+const ROMAN_NUMERALS = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'],
+    [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'],
+    [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+];
+
+/**
+ * Write a positive integer as a lowercase Roman numeral
+ *
+ * @param {Number} value - Number to convert
+ * @returns {String} Roman numeral, e.g. "iv"
+ */
+const toRoman = (value) => {
+    let remaining = value;
+    let result = '';
+
+    ROMAN_NUMERALS.forEach(([amount, numeral]) => {
+        while (remaining >= amount) {
+            result += numeral;
+            remaining -= amount;
+        }
+    });
+
+    return result;
+};
+
+/**
+ * Number the descendants of a progenitor
+ *
+ * @param {String} rootId - Progenitor's person ID
+ * @param {Function} getChildren - Returns the child IDs of a person, in birth order
+ * @param {Object} [options] - Numbering options
+ * @param {String} [options.system] - register or ngsq
+ * @param {Number} [options.generations] - Number of generations to include, the progenitor's being the first
+ * @returns {Array} Families in report order, each { personId, number, generation, children },
+ *                  where every child is { personId, roman, number, continued }
+ */
+const numberDescendants = (rootId, getChildren, { system = 'register', generations = Infinity } = {}) => {
+    if (!NUMBERING_SYSTEMS.includes(system)) {
+        throw new Error(`Numbering system must be one of: ${NUMBERING_SYSTEMS.join(', ')}`);
+    }
+
+    const families = [];
+    const queue = [{ personId: rootId, number: 1, generation: 1 }];
+    // A descendant reached twice (cousin marriages) keeps the number of their first appearance
+    const numbered = new Set([rootId]);
+    let nextNumber = 2;
+
+    while (queue.length > 0) {
+        const family = queue.shift();
+
+        family.children = getChildren(family.personId).map((childId, index) => {
+            const hasOwnFamily = family.generation + 1 < generations && getChildren(childId).length > 0;
+            const continued = hasOwnFamily && !numbered.has(childId);
+            let number = null;
+
+            if (continued || (system === 'ngsq' && !numbered.has(childId))) {
+                number = nextNumber++;
+                numbered.add(childId);
+            }
+
+            if (continued) {
+                queue.push({ personId: childId, number, generation: family.generation + 1 });
+            }
+
+            return { personId: childId, roman: toRoman(index + 1), number, continued };
+        });
+
+        families.push(family);
+    }
+
+    return families;
+};
+
+module.exports = {
+    NUMBERING_SYSTEMS,
+    numberDescendants,
+    toRoman
+};
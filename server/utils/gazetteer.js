@@ -0,0 +1,134 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Look up coordinates of places in a local gazetteer file, so places can be mapped without calling
+ * an outside geocoding service. The file is a JSON array of entries:
+ *   { id, name, type, code?, parent?, lat, lng, alternate_names? }
+ * where parent is the id of the entry the place lies within.
+ */
+
+const DEFAULT_GAZETTEER_FILE = path.join(__dirname, '..', 'data', 'gazetteer.json');
+
+let entries = null;
+
+/**
+ * Read the gazetteer once; a missing or broken file leaves places without coordinates
+ */
+const loadGazetteer = () => {
+    if (entries) return entries;
+
+    const file = process.env.GAZETTEER_FILE || DEFAULT_GAZETTEER_FILE;
+    try {
+        entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        console.error(`Could not load gazetteer ${file}:`, error.message);
+        entries = [];
+    }
+
+    return entries;
+};
+
+/**
+ * Compare place names ignoring case, accents and punctuation ("Co. Cork" = "co cork")
+ */
+const normalizePlaceName = (name) => (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const hasName = (entry, name) => {
+    const wanted = normalizePlaceName(name);
+    return [entry.name, ...(entry.alternate_names || [])].some(entryName => normalizePlaceName(entryName) === wanted);
+};
+
+/**
+ * Find the gazetteer entry for a place
+ *
+ * @param {Object} place - Place to look up
+ * @param {String} place.name - Place name
+ * @param {String} place.place_type - Place type (country, state, county, city)
+ * @param {String} place.code - Country or state code, matched before the name
+ * @param {String|null} parentGazetteerId - Gazetteer id of the enclosing place; null for a top-level place
+ * @returns {Object|null} Matching entry, or null when there is none or the name is ambiguous
+ */
+const findGazetteerEntry = ({ name, place_type, code }, parentGazetteerId) => {
+    const candidates = loadGazetteer().filter(entry =>
+        entry.type === place_type &&
+        (entry.parent || null) === parentGazetteerId &&
+        ((code && entry.code && entry.code.toUpperCase() === code.toUpperCase()) || hasName(entry, name))
+    );
+
+    return candidates.length === 1 ? candidates[0] : null;
+};
+
+/**
+ * Does a gazetteer entry lie within another, directly or through the entries between them?
+ */
+const liesWithin = (entry, ancestorId) => {
+    let parentId = entry.parent;
+    while (parentId) {
+        if (parentId === ancestorId) return true;
+        const parent = getGazetteerEntry(parentId);
+        parentId = parent ? parent.parent : null;
+    }
+    return false;
+};
+
+const depthOf = (entry) => {
+    let depth = 0;
+    for (let parent = getGazetteerEntry(entry.parent); parent; parent = getGazetteerEntry(parent.parent)) {
+        depth++;
+    }
+    return depth;
+};
+
+/**
+ * Find where a free-text location lies, reading its comma-separated parts from the largest place
+ * ("Cork, Co. Cork, Ireland" reads Ireland, then County Cork within it, then Cork within that).
+ * A part that names no place within the ones already read, such as a street or parish missing from
+ * the gazetteer, is passed over, so the location is placed at the smallest place that was recognised.
+ * Where a part could name places at different levels ("New York"), the larger place is taken.
+ *
+ * @param {String} location - Location text
+ * @returns {Object|null} Smallest recognised entry, or null when no part names a known place
+ */
+const geocodeLocation = (location) => {
+    const parts = (location || '').split(',').map(part => part.trim()).filter(Boolean).reverse();
+    let match = null;
+
+    for (const part of parts) {
+        const code = normalizePlaceName(part).replace(/\s/g, '').toUpperCase();
+        const candidates = loadGazetteer().filter(entry =>
+            (!match || liesWithin(entry, match.id)) &&
+            ((entry.code && entry.code.toUpperCase() === code) || hasName(entry, part))
+        );
+        if (candidates.length === 0) continue;
+
+        const nearest = Math.min(...candidates.map(depthOf));
+        const closest = candidates.filter(entry => depthOf(entry) === nearest);
+        if (closest.length === 1) {
+            match = closest[0];
+        }
+    }
+
+    return match;
+};
+
+/**
+ * Get a gazetteer entry by its id
+ *
+ * @param {String} id - Gazetteer id
+ * @returns {Object|null} Entry
+ */
+const getGazetteerEntry = (id) => loadGazetteer().find(entry => entry.id === id) || null;
+
+module.exports = {
+    findGazetteerEntry,
+    geocodeLocation,
+    getGazetteerEntry,
+    normalizePlaceName
+};
@@ -0,0 +1,573 @@
+/**
+ * GEDCOM parsing utilities
+ * Supports the line grammar shared by GEDCOM 5.5.1 and 7.0 and maps
+ * INDI/FAM/SOUR/OBJE records onto our Person, Relationship, Event and Document shapes
+ */
+
+const { parseGenealogicalDate } = require('./genealogicalDate');
+
+const MONTHS = {
+    JAN: '01', FEB: '02', MAR: '03', APR: '04', MAY: '05', JUN: '06',
+    JUL: '07', AUG: '08', SEP: '09', OCT: '10', NOV: '11', DEC: '12'
+};
+
+// GEDCOM event tags and the event_type they map to
+const INDIVIDUAL_EVENT_TAGS = {
+    BIRT: 'birth',
+    DEAT: 'death',
+    IMMI: 'immigration',
+    EMIG: 'emigration',
+    NATU: 'naturalization',
+    GRAD: 'graduation',
+    RETI: 'retirement',
+    RESI: 'residence',
+    CENS: 'census',
+    BAPM: 'religious',
+    CHR: 'religious',
+    CONF: 'religious',
+    FCOM: 'religious',
+    BARM: 'religious',
+    BASM: 'religious',
+    BLES: 'religious',
+    ORDN: 'religious',
+    _MILT: 'military_service',
+    BURI: 'other',
+    CREM: 'other',
+    EVEN: 'other'
+};
+
+const FAMILY_EVENT_TAGS = {
+    MARR: 'marriage',
+    DIV: 'divorce'
+};
+
+// Our event types; an EVEN whose TYPE is one of these keeps that type (this is how we export them)
+const EVENT_TYPES = [
+    'birth', 'death', 'marriage', 'divorce', 'immigration', 'emigration', 'naturalization', 'graduation',
+    'military_service', 'retirement', 'religious', 'medical', 'residence', 'census', 'other'
+];
+
+// Human readable labels for tags that collapse into the 'religious' or 'other' event types
+const EVENT_LABELS = {
+    BAPM: 'Baptism',
+    CHR: 'Christening',
+    CONF: 'Confirmation',
+    FCOM: 'First communion',
+    BARM: 'Bar mitzvah',
+    BASM: 'Bat mitzvah',
+    BLES: 'Blessing',
+    ORDN: 'Ordination',
+    BURI: 'Burial',
+    CREM: 'Cremation'
+};
+
+// GEDCOM PEDI values and the relationship_qualifier they map to
+const PEDIGREE_QUALIFIERS = {
+    BIRTH: 'biological',
+    ADOPTED: 'adoptive',
+    FOSTER: 'foster',
+    STEP: 'step'
+};
+
+const GENDERS = {
+    M: 'male',
+    F: 'female',
+    X: 'other',
+    U: 'unknown'
+};
+
+const DOCUMENT_TYPES = [
+    'photo', 'certificate', 'letter', 'record', 'newspaper', 'census',
+    'military', 'legal', 'map', 'audio', 'video', 'other'
+];
+
+// Document types by file extension, used when the media type is missing or unknown
+const DOCUMENT_TYPES_BY_EXTENSION = {
+    '.jpg': 'photo',
+    '.jpeg': 'photo',
+    '.png': 'photo',
+    '.gif': 'photo',
+    '.tiff': 'photo',
+    '.mp3': 'audio',
+    '.wav': 'audio',
+    '.ogg': 'audio',
+    '.mp4': 'video',
+    '.avi': 'video',
+    '.mov': 'video',
+    '.wmv': 'video'
+};
+
+const LINE_PATTERN = /^\s*(\d+)\s+(?:(@[^@]+@)\s+)?([A-Za-z0-9_]+)(?:\s(.*))?$/;
+
+/**
+ * Parse GEDCOM text into a tree of nodes
+ * CONT/CONC continuation lines are folded into their parent's value
+ *
+ * @param {String} text - Raw GEDCOM file contents
+ * @returns {Object} Object with the top-level records and any line errors
+ */
+exports.parseGedcom = (text) => {
+    const records = [];
+    const errors = [];
+    const stack = [];
+
+    const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+    lines.forEach((line, index) => {
+        if (!line.trim()) return;
+
+        const match = LINE_PATTERN.exec(line);
+        if (!match) {
+            errors.push(`Line ${index + 1}: could not parse "${line.slice(0, 80)}"`);
+            return;
+        }
+
+        const level = parseInt(match[1], 10);
+        const node = {
+            level,
+            xref: match[2] || null,
+            tag: match[3].toUpperCase(),
+            value: match[4] !== undefined ? match[4] : '',
+            children: [],
+            line: index + 1
+        };
+
+        while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+            stack.pop();
+        }
+
+        const parent = stack[stack.length - 1];
+
+        if (level > 0 && !parent) {
+            errors.push(`Line ${index + 1}: level ${level} line has no parent record`);
+            return;
+        }
+
+        if (parent && (node.tag === 'CONT' || node.tag === 'CONC')) {
+            parent.value += (node.tag === 'CONT' ? '\n' : '') + node.value;
+            return;
+        }
+
+        if (parent) {
+            parent.children.push(node);
+        } else {
+            records.push(node);
+        }
+
+        stack.push(node);
+    });
+
+    return { records, errors };
+};
+
+/**
+ * Find the first child node with a tag
+ *
+ * @param {Object} node - Parent node
+ * @param {String} tag - Tag to look for
+ * @returns {Object|undefined} Child node
+ */
+const child = (node, tag) => node.children.find(c => c.tag === tag);
+
+/**
+ * Get the value of the first child node with a tag
+ *
+ * @param {Object} node - Parent node
+ * @param {String} tag - Tag to look for
+ * @returns {String|null} Trimmed value or null
+ */
+const childValue = (node, tag) => {
+    const found = child(node, tag);
+    return found && found.value.trim() ? found.value.trim() : null;
+};
+
+/**
+ * Convert a GEDCOM date value to an ISO date. Exact days need nothing more; partial and
+ * qualified dates (ABT, EST, CAL, BEF, AFT, BET ... AND) also get a date detail, with the
+ * date set to its sort key, as the DATE columns hold them.
+ *
+ * @param {String} value - GEDCOM date value, e.g. "12 MAR 1850" or "ABT 1850"
+ * @returns {Object} Object with the ISO date (or null), its detail (or null), whether it is an
+ *                   exact day, and the original text
+ */
+const parseGedcomDate = (value) => {
+    const original = (value || '').trim();
+    if (!original) {
+        return { date: null, detail: null, isExact: false, original: null };
+    }
+
+    // Drop the default Gregorian calendar escape (5.5.1) or keyword (7.0)
+    const text = original
+        .replace(/^@#DGREGORIAN@\s*/i, '')
+        .replace(/^GREGORIAN\s+/i, '');
+    const normalized = text.toUpperCase();
+
+    const exact = /^(\d{1,2})\s+([A-Z]{3})\s+(\d{3,4})$/.exec(normalized);
+    if (exact && MONTHS[exact[2]]) {
+        const day = exact[1].padStart(2, '0');
+        const year = exact[3].padStart(4, '0');
+        const iso = `${year}-${MONTHS[exact[2]]}-${day}`;
+        const check = new Date(`${iso}T00:00:00Z`);
+
+        if (!isNaN(check.getTime()) && check.toISOString().startsWith(iso)) {
+            return { date: iso, detail: null, isExact: true, original };
+        }
+    }
+
+    // Other calendars (@#DJULIAN@ and the like) and date phrases stay text
+    const detail = /^@#D|^\(|^INT\s/.test(normalized) ? null : parseGenealogicalDate(text);
+    if (detail) {
+        return { date: detail.sort_key, detail, isExact: false, original };
+    }
+
+    return { date: null, detail: null, isExact: false, original };
+};
+
+exports.parseGedcomDate = parseGedcomDate;
+
+/**
+ * Split a GEDCOM personal name into our name fields
+ *
+ * @param {Object} nameNode - NAME node
+ * @returns {Object} Object with first_name, middle_name and last_name
+ */
+const parseName = (nameNode) => {
+    const value = nameNode.value || '';
+    const surnameMatch = /\/([^/]*)\//.exec(value);
+    const surnameFromValue = surnameMatch ? surnameMatch[1].trim() : '';
+    const givenFromValue = value.replace(/\/[^/]*\/.*$/, '').trim();
+
+    const given = childValue(nameNode, 'GIVN') || givenFromValue;
+    const surname = childValue(nameNode, 'SURN') || surnameFromValue;
+    const [first, ...middle] = given.split(/\s+/).filter(Boolean);
+
+    return {
+        first_name: first || null,
+        middle_name: middle.length > 0 ? middle.join(' ') : null,
+        last_name: surname || null
+    };
+};
+
+/**
+ * Tracks tags the importer does not map so they can be reported back to the user
+ */
+class TagReport {
+    constructor() {
+        this.skipped = new Map();
+        this.warnings = [];
+    }
+
+    skip(context, tag) {
+        const key = `${context}.${tag}`;
+        this.skipped.set(key, (this.skipped.get(key) || 0) + 1);
+    }
+
+    warn(message) {
+        this.warnings.push(message);
+    }
+
+    toJSON() {
+        return {
+            skippedTags: Array.from(this.skipped.entries())
+                .map(([tag, count]) => ({ tag, count }))
+                .sort((a, b) => b.count - a.count),
+            warnings: this.warnings
+        };
+    }
+}
+
+/**
+ * Map an event node (BIRT, MARR, EVEN, ...) to event data
+ *
+ * @param {Object} node - Event node
+ * @param {String} eventType - Our event type
+ * @param {String} label - Record label for warnings
+ * @param {TagReport} report - Tag report
+ * @returns {Object} Event data plus source citations
+ */
+const mapEvent = (node, eventType, label, report) => {
+    const date = parseGedcomDate(childValue(node, 'DATE'));
+    const descriptionParts = [];
+
+    const typeValue = childValue(node, 'TYPE');
+    const exportedType = node.tag === 'EVEN' && typeValue && EVENT_TYPES.includes(typeValue.toLowerCase())
+        ? typeValue.toLowerCase()
+        : null;
+
+    const typeLabel = exportedType ? null : typeValue || EVENT_LABELS[node.tag];
+    if (typeLabel) descriptionParts.push(typeLabel);
+    if (node.value && node.value.trim() && node.value.trim().toUpperCase() !== 'Y') {
+        descriptionParts.push(node.value.trim());
+    }
+    if (date.original && !date.date) {
+        descriptionParts.push(`Date: ${date.original}`);
+        report.warn(`${label}: ${node.tag} date "${date.original}" is not a recognised date and was kept as text`);
+    }
+
+    const note = childValue(node, 'NOTE');
+    if (note) descriptionParts.push(note);
+
+    node.children.forEach(c => {
+        if (!['DATE', 'PLAC', 'TYPE', 'NOTE', 'SOUR'].includes(c.tag)) {
+            report.skip(node.tag, c.tag);
+        }
+    });
+
+    return {
+        event_type: exportedType || eventType,
+        event_date: date.date,
+        event_date_detail: date.detail,
+        event_location: childValue(node, 'PLAC'),
+        description: descriptionParts.length > 0 ? descriptionParts.join('. ') : null,
+        gedcomTag: node.tag,
+        dateText: date.original,
+        citations: node.children.filter(c => c.tag === 'SOUR').map(mapCitation)
+    };
+};
+
+/**
+ * Map a source citation (SOUR pointer with optional PAGE)
+ *
+ * @param {Object} node - SOUR node under an individual or event
+ * @returns {Object} Citation with source xref or inline text and page
+ */
+const mapCitation = (node) => {
+    const value = node.value.trim();
+    const isPointer = /^@[^@]+@$/.test(value);
+    return {
+        sourceXref: isPointer ? value : null,
+        text: isPointer ? null : value,
+        page: childValue(node, 'PAGE')
+    };
+};
+
+/**
+ * Map an OBJE record or inline OBJE structure to document data
+ *
+ * @param {Object} node - OBJE node
+ * @returns {Object} Document data
+ */
+const mapMedia = (node) => {
+    const fileNode = child(node, 'FILE');
+    const filePath = fileNode ? fileNode.value.trim() : '';
+    const title = childValue(node, 'TITL') || (fileNode && childValue(fileNode, 'TITL')) || filePath.split(/[\\/]/).pop();
+    const extension = (/\.[^.\\/]+$/.exec(filePath) || [''])[0].toLowerCase();
+    const formNode = fileNode && child(fileNode, 'FORM');
+    const mediaType = ((formNode && childValue(formNode, 'MEDI')) || '').toLowerCase();
+
+    return {
+        xref: node.xref,
+        title: title || 'Untitled media',
+        file_path: filePath,
+        document_type: DOCUMENT_TYPES.includes(mediaType) ? mediaType : DOCUMENT_TYPES_BY_EXTENSION[extension] || 'other',
+        description: childValue(node, 'NOTE')
+    };
+};
+
+/**
+ * Map parsed GEDCOM records onto importable entities
+ *
+ * @param {Array} records - Top-level records from parseGedcom
+ * @returns {Object} Persons, families, sources, media, header info and tag report
+ */
+exports.mapGedcomRecords = (records) => {
+    const report = new TagReport();
+    const persons = [];
+    const families = [];
+    const sources = new Map();
+    const media = new Map();
+    const header = { version: null, sourceSystem: null };
+
+    records.forEach(record => {
+        switch (record.tag) {
+            case 'HEAD': {
+                const gedc = child(record, 'GEDC');
+                header.version = gedc ? childValue(gedc, 'VERS') : null;
+                header.sourceSystem = childValue(record, 'SOUR');
+                break;
+            }
+
+            case 'SOUR':
+                sources.set(record.xref, {
+                    xref: record.xref,
+                    title: childValue(record, 'TITL') || childValue(record, 'ABBR') || record.xref,
+                    author: childValue(record, 'AUTH'),
+                    publication: childValue(record, 'PUBL'),
+                    text: childValue(record, 'TEXT'),
+                    mediaXrefs: record.children.filter(c => c.tag === 'OBJE' && /^@[^@]+@$/.test(c.value.trim())).map(c => c.value.trim())
+                });
+                record.children.forEach(c => {
+                    if (!['TITL', 'ABBR', 'AUTH', 'PUBL', 'TEXT', 'OBJE', 'REPO', 'NOTE'].includes(c.tag)) {
+                        report.skip('SOUR', c.tag);
+                    }
+                });
+                break;
+
+            case 'OBJE':
+                media.set(record.xref, mapMedia(record));
+                break;
+
+            case 'INDI': {
+                const nameNodes = record.children.filter(c => c.tag === 'NAME');
+                const primaryName = nameNodes[0] ? parseName(nameNodes[0]) : { first_name: null, middle_name: null, last_name: null };
+                const label = `${record.xref} (${[primaryName.first_name, primaryName.last_name].filter(Boolean).join(' ') || 'unnamed'})`;
+
+                const person = {
+                    xref: record.xref,
+                    data: {
+                        ...primaryName,
+                        maiden_name: null,
+                        gender: GENDERS[(childValue(record, 'SEX') || '').toUpperCase()] || null,
+                        birth_date: null,
+                        birth_date_detail: null,
+                        birth_location: null,
+                        death_date: null,
+                        death_date_detail: null,
+                        death_location: null,
+                        notes: null
+                    },
+                    events: [],
+                    citations: [],
+                    mediaXrefs: [],
+                    inlineMedia: [],
+                    childOf: [],
+                    label
+                };
+
+                // A second name typed as birth/maiden gives us the maiden name
+                nameNodes.slice(1).forEach(nameNode => {
+                    const type = (childValue(nameNode, 'TYPE') || '').toUpperCase();
+                    if (['BIRTH', 'MAIDEN'].includes(type)) {
+                        person.data.maiden_name = parseName(nameNode).last_name;
+                    } else {
+                        report.skip('INDI.NAME', `TYPE ${type || 'unspecified'}`);
+                    }
+                });
+
+                const notes = [];
+
+                record.children.forEach(c => {
+                    if (INDIVIDUAL_EVENT_TAGS[c.tag]) {
+                        const event = mapEvent(c, INDIVIDUAL_EVENT_TAGS[c.tag], label, report);
+
+                        // The first birth/death fills the biographical fields; the service creates the matching event
+                        if (event.event_type === 'birth' && !person.data.birth_date && !person.birthEvent) {
+                            person.data.birth_date = event.event_date;
+                            person.data.birth_date_detail = event.event_date_detail;
+                            person.data.birth_location = event.event_location;
+                            person.birthEvent = event;
+                            return;
+                        }
+                        if (event.event_type === 'death' && !person.data.death_date && !person.deathEvent) {
+                            person.data.death_date = event.event_date;
+                            person.data.death_date_detail = event.event_date_detail;
+                            person.data.death_location = event.event_location;
+                            person.deathEvent = event;
+                            return;
+                        }
+                        person.events.push(event);
+                        return;
+                    }
+
+                    switch (c.tag) {
+                        case 'NAME':
+                        case 'SEX':
+                        case 'FAMS':
+                            break;
+                        case 'NOTE':
+                            if (c.value.trim()) notes.push(c.value.trim());
+                            break;
+                        case 'SOUR':
+                            person.citations.push(mapCitation(c));
+                            break;
+                        case 'OBJE':
+                            if (/^@[^@]+@$/.test(c.value.trim())) {
+                                person.mediaXrefs.push(c.value.trim());
+                            } else {
+                                person.inlineMedia.push(mapMedia(c));
+                            }
+                            break;
+                        case 'FAMC': {
+                            const pedigree = (childValue(c, 'PEDI') || 'BIRTH').toUpperCase();
+                            // _QUAL carries qualifiers PEDI cannot express (written by our exporter)
+                            person.childOf.push({
+                                familyXref: c.value.trim(),
+                                qualifier: childValue(c, '_QUAL') || PEDIGREE_QUALIFIERS[pedigree] || 'biological'
+                            });
+                            break;
+                        }
+                        case 'OCCU':
+                            if (c.value.trim()) notes.push(`Occupation: ${c.value.trim()}`);
+                            break;
+                        default:
+                            report.skip('INDI', c.tag);
+                    }
+                });
+
+                // Birth/death with a date we cannot read cannot populate the DATE columns; keep the text in the notes
+                ['birthEvent', 'deathEvent'].forEach(key => {
+                    const event = person[key];
+                    if (event && !event.event_date) {
+                        const field = key === 'birthEvent' ? 'birth' : 'death';
+                        if (event.dateText) notes.push(`${field === 'birth' ? 'Born' : 'Died'}: ${event.dateText}${event.event_location ? `, ${event.event_location}` : ''}`);
+                        person.data[`${field}_location`] = event.event_location;
+                    }
+                    if (event) person.citations.push(...event.citations);
+                });
+
+                person.data.notes = notes.length > 0 ? notes.join('\n') : null;
+
+                if (!person.data.first_name || !person.data.last_name) {
+                    report.warn(`${label}: missing ${!person.data.first_name ? 'given name' : 'surname'}, imported as "Unknown"`);
+                    person.data.first_name = person.data.first_name || 'Unknown';
+                    person.data.last_name = person.data.last_name || 'Unknown';
+                }
+
+                persons.push(person);
+                break;
+            }
+
+            case 'FAM': {
+                const family = {
+                    xref: record.xref,
+                    husband: childValue(record, 'HUSB'),
+                    wife: childValue(record, 'WIFE'),
+                    children: record.children.filter(c => c.tag === 'CHIL').map(c => c.value.trim()),
+                    marriage: null,
+                    divorce: null,
+                    events: []
+                };
+
+                record.children.forEach(c => {
+                    if (FAMILY_EVENT_TAGS[c.tag]) {
+                        const event = mapEvent(c, FAMILY_EVENT_TAGS[c.tag], record.xref, report);
+                        if (c.tag === 'MARR' && !family.marriage) family.marriage = event;
+                        else if (c.tag === 'DIV' && !family.divorce) family.divorce = event;
+                        family.events.push(event);
+                    } else if (!['HUSB', 'WIFE', 'CHIL'].includes(c.tag)) {
+                        report.skip('FAM', c.tag);
+                    }
+                });
+
+                families.push(family);
+                break;
+            }
+
+            case 'SUBM':
+            case 'TRLR':
+                break;
+
+            default:
+                report.skip('ROOT', record.tag);
+        }
+    });
+
+    return {
+        header,
+        persons,
+        families,
+        sources,
+        media,
+        report
+    };
+};
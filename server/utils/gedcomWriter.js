@@ -0,0 +1,220 @@
+/**
+ * GEDCOM writing utilities
+ * Serializes node trees (the same { xref, tag, value, children } shape parseGedcom produces)
+ * into GEDCOM 5.5.1 text, and maps our Person, Event and Document fields onto GEDCOM tags
+ */
+
+const { formatGenealogicalDate } = require('./genealogicalDate');
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Event types with a dedicated GEDCOM tag; anything else is written as EVEN with a TYPE
+const EVENT_TYPE_TAGS = {
+    birth: 'BIRT',
+    death: 'DEAT',
+    immigration: 'IMMI',
+    emigration: 'EMIG',
+    naturalization: 'NATU',
+    graduation: 'GRAD',
+    retirement: 'RETI',
+    residence: 'RESI',
+    census: 'CENS',
+    military_service: '_MILT',
+    marriage: 'MARR',
+    divorce: 'DIV'
+};
+
+// relationship_qualifier values with a standard PEDI equivalent
+const PEDIGREE_VALUES = {
+    biological: 'birth',
+    adoptive: 'adopted',
+    foster: 'foster',
+    step: 'step'
+};
+
+const SEX_VALUES = {
+    male: 'M',
+    female: 'F',
+    other: 'X',
+    unknown: 'U'
+};
+
+// GEDCOM 5.5.1 limits a line to 255 characters; long values are split with CONC
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * Format a date as a GEDCOM date, e.g. "12 MAR 1850", or "ABT 1850" when a genealogical date detail is given
+ *
+ * @param {Date|String} date - Date value
+ * @param {Object} detail - Optional genealogical date detail
+ * @returns {String|null} GEDCOM date or null
+ */
+const formatGedcomDate = (date, detail = null) => {
+    if (detail && detail.start) return formatGenealogicalDate(date, detail);
+    if (!date) return null;
+
+    const parsed = new Date(date);
+    if (isNaN(parsed.getTime())) return null;
+
+    const [year, month, day] = parsed.toISOString().split('T')[0].split('-');
+    return `${parseInt(day, 10)} ${MONTHS[parseInt(month, 10) - 1]} ${year}`;
+};
+
+exports.formatGedcomDate = formatGedcomDate;
+
+/**
+ * Build a GEDCOM node
+ *
+ * @param {String} tag - Tag
+ * @param {String} value - Line value
+ * @param {Array} children - Child nodes (null entries are dropped)
+ * @param {String} xref - Cross-reference id for level 0 records
+ * @returns {Object} Node
+ */
+const node = (tag, value = '', children = [], xref = null) => ({
+    xref,
+    tag,
+    value: value === null || value === undefined ? '' : String(value),
+    children: children.filter(Boolean)
+});
+
+exports.node = node;
+
+/**
+ * Build a node only when there is a value to write
+ *
+ * @param {String} tag - Tag
+ * @param {String} value - Line value
+ * @param {Array} children - Child nodes
+ * @returns {Object|null} Node or null
+ */
+const optionalNode = (tag, value, children = []) => (value ? node(tag, value, children) : null);
+
+exports.optionalNode = optionalNode;
+
+/**
+ * Build an event structure (BIRT, MARR, EVEN, ...) for an event
+ *
+ * @param {Object} event - Event with event_type, event_date (and event_date_detail), event_location and description
+ * @returns {Object} Event node
+ */
+exports.eventNode = (event) => {
+    const tag = EVENT_TYPE_TAGS[event.event_type] || 'EVEN';
+
+    return node(tag, '', [
+        tag === 'EVEN' ? node('TYPE', event.event_type) : null,
+        optionalNode('DATE', formatGedcomDate(event.event_date, event.event_date_detail)),
+        optionalNode('PLAC', event.event_location),
+        optionalNode('NOTE', event.description)
+    ]);
+};
+
+/**
+ * Build the NAME structures for a person: the primary name plus a maiden name when known
+ *
+ * @param {Object} person - Person with first_name, middle_name, last_name and maiden_name
+ * @returns {Array} NAME nodes
+ */
+exports.nameNodes = (person) => {
+    const given = [person.first_name, person.middle_name].filter(Boolean).join(' ');
+    const names = [
+        node('NAME', `${given} /${person.last_name || ''}/`, [
+            optionalNode('GIVN', given),
+            optionalNode('SURN', person.last_name)
+        ])
+    ];
+
+    if (person.maiden_name) {
+        names.push(node('NAME', `${given} /${person.maiden_name}/`, [
+            optionalNode('GIVN', given),
+            node('SURN', person.maiden_name),
+            node('TYPE', 'maiden')
+        ]));
+    }
+
+    return names;
+};
+
+/**
+ * Build the FAMC link for a child, carrying the relationship qualifier
+ * Qualifiers without a PEDI equivalent (in-law) are kept in a _QUAL extension tag
+ *
+ * @param {String} familyXref - Family xref
+ * @param {String} qualifier - relationship_qualifier of the parent links
+ * @returns {Object} FAMC node
+ */
+exports.familyChildNode = (familyXref, qualifier) => node('FAMC', familyXref, [
+    qualifier && PEDIGREE_VALUES[qualifier] ? node('PEDI', PEDIGREE_VALUES[qualifier]) : null,
+    qualifier && !PEDIGREE_VALUES[qualifier] ? node('_QUAL', qualifier) : null
+]);
+
+/**
+ * Get the SEX value for a gender
+ *
+ * @param {String} gender - Person gender
+ * @returns {String|null} GEDCOM sex value
+ */
+exports.sexValue = (gender) => SEX_VALUES[gender] || null;
+
+/**
+ * Build an OBJE record for a document
+ *
+ * @param {String} xref - Media xref
+ * @param {Object} document - Document with title, file_path, document_type and description
+ * @returns {Object} OBJE node
+ */
+exports.mediaNode = (xref, document) => {
+    const extension = (/\.([^.\\/]+)$/.exec(document.file_path || '') || [])[1];
+
+    return node('OBJE', '', [
+        node('FILE', document.file_path, [
+            node('FORM', extension ? extension.toLowerCase() : 'unknown', [
+                optionalNode('MEDI', document.document_type)
+            ]),
+            optionalNode('TITL', document.title)
+        ]),
+        optionalNode('NOTE', document.description)
+    ], xref);
+};
+
+/**
+ * Serialize nodes to GEDCOM lines, splitting multi-line values with CONT and long values with CONC
+ *
+ * @param {Object} item - Node to serialize
+ * @param {Number} level - Level of the node
+ * @param {Array} lines - Output lines
+ */
+const writeNode = (item, level, lines) => {
+    const prefix = `${level}${item.xref ? ` ${item.xref}` : ''} ${item.tag}`;
+
+    item.value.split(/\r\n|\r|\n/).forEach((text, index) => {
+        const chunks = [];
+        for (let start = 0; start < text.length; start += MAX_VALUE_LENGTH) {
+            chunks.push(text.slice(start, start + MAX_VALUE_LENGTH));
+        }
+        if (chunks.length === 0) chunks.push('');
+
+        chunks.forEach((chunk, chunkIndex) => {
+            if (index === 0 && chunkIndex === 0) {
+                lines.push(chunk ? `${prefix} ${chunk}` : prefix);
+            } else {
+                const tag = chunkIndex === 0 ? 'CONT' : 'CONC';
+                lines.push(chunk ? `${level + 1} ${tag} ${chunk}` : `${level + 1} ${tag}`);
+            }
+        });
+    });
+
+    item.children.forEach(childNode => writeNode(childNode, level + 1, lines));
+};
+
+/**
+ * Serialize level 0 records to GEDCOM text
+ *
+ * @param {Array} records - Level 0 nodes, including HEAD and TRLR
+ * @returns {String} GEDCOM text
+ */
+exports.serializeGedcom = (records) => {
+    const lines = [];
+    records.forEach(record => writeNode(record, 0, lines));
+    return `${lines.join('\n')}\n`;
+};
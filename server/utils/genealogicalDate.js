@@ -0,0 +1,424 @@
+/**
+ * Genealogical date utilities
+ * A genealogical date keeps what the researcher actually knows ("ABT 1850", "BEF MAR 1901",
+ * "BET 1850 AND 1855") next to the plain DATE column, which holds a sortable key.
+ *
+ * Detail shape stored in the *_date_detail JSONB columns:
+ * { qualifier, precision, start, end, original, sort_key }
+ * - qualifier: exact, about, estimated, calculated, before, after or between
+ * - precision: day, month or year
+ * - start/end: first and last day (YYYY-MM-DD) covered by the written date(s)
+ * - sort_key: value written to the DATE column
+ * A null detail means the DATE column holds an exact day.
+ */
+
+const QUALIFIERS = ['exact', 'about', 'estimated', 'calculated', 'before', 'after', 'between'];
+const PRECISIONS = ['day', 'month', 'year'];
+
+// Approximate dates are widened by this many years on either side when reasoning over ranges
+const APPROXIMATE_MARGIN_YEARS = 5;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const QUALIFIER_PREFIXES = [
+    { pattern: /^(?:(?:abt|about|circa|ca|c)\.?\s+|(?:abt|ca|c)\.\s*|~\s*)/i, qualifier: 'about' },
+    { pattern: /^(?:est\.?|estimated)\s+/i, qualifier: 'estimated' },
+    { pattern: /^(?:cal\.?|calculated)\s+/i, qualifier: 'calculated' },
+    { pattern: /^(?:bef\.?|before)\s+/i, qualifier: 'before' },
+    { pattern: /^(?:aft\.?|after)\s+/i, qualifier: 'after' }
+];
+
+const pad = (value, length = 2) => String(value).padStart(length, '0');
+
+const toIsoDay = (year, month, day) => `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Shift an ISO day by a number of days
+ *
+ * @param {String} isoDay - YYYY-MM-DD
+ * @param {Number} days - Days to add (negative to subtract)
+ * @returns {String} Shifted YYYY-MM-DD
+ */
+const shiftDay = (isoDay, days) => {
+    const date = new Date(`${isoDay}T00:00:00.000Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+};
+
+/**
+ * Get the month number (1-12) for an English month name or GEDCOM abbreviation
+ *
+ * @param {String} name - Month name
+ * @returns {Number|null} Month number
+ */
+const monthNumber = (name) => {
+    const index = MONTHS.indexOf(name.slice(0, 3).toUpperCase());
+    return index === -1 ? null : index + 1;
+};
+
+/**
+ * Parse a single (unqualified) date into the span of days it covers
+ * Accepts YYYY, YYYY-MM, YYYY-MM-DD, "12 MAR 1850", "MAR 1850" and "March 12, 1850"
+ *
+ * @param {String} text - Date text
+ * @returns {Object|null} { precision, start, end } or null when not a date
+ */
+const parseSimpleDate = (text) => {
+    const value = text.trim().replace(/\s+/g, ' ');
+    let year = null;
+    let month = null;
+    let day = null;
+    let match;
+
+    if ((match = /^(\d{3,4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value))) {
+        [, year, month, day] = match;
+    } else if ((match = /^(?:(\d{1,2}) )?([A-Za-z]{3,9})\.? (\d{3,4})$/.exec(value))) {
+        [, day, month, year] = match;
+        month = monthNumber(month);
+        if (!month) return null;
+    } else if ((match = /^([A-Za-z]{3,9})\.? (\d{1,2}),? (\d{3,4})$/.exec(value))) {
+        [, month, day, year] = match;
+        month = monthNumber(month);
+        if (!month) return null;
+    } else {
+        return null;
+    }
+
+    year = parseInt(year, 10);
+    month = month ? parseInt(month, 10) : null;
+    day = day ? parseInt(day, 10) : null;
+
+    if (month !== null && (month < 1 || month > 12)) return null;
+    if (day !== null && (day < 1 || day > daysInMonth(year, month))) return null;
+
+    if (day !== null) {
+        const isoDay = toIsoDay(year, month, day);
+        return { precision: 'day', start: isoDay, end: isoDay };
+    }
+
+    if (month !== null) {
+        return {
+            precision: 'month',
+            start: toIsoDay(year, month, 1),
+            end: toIsoDay(year, month, daysInMonth(year, month))
+        };
+    }
+
+    return { precision: 'year', start: toIsoDay(year, 1, 1), end: toIsoDay(year, 12, 31) };
+};
+
+/**
+ * Get the sortable key of a date detail
+ *
+ * @param {Object} detail - Date detail with qualifier, start and end
+ * @returns {String} YYYY-MM-DD
+ */
+const sortKeyFor = ({ qualifier, start, end }) => {
+    if (qualifier === 'before') return shiftDay(start, -1);
+    if (qualifier === 'after') return shiftDay(end, 1);
+    return start;
+};
+
+/**
+ * Parse free text into a genealogical date detail
+ *
+ * @param {String} text - Date text, e.g. "ABT 1850", "bef. March 1901", "BET 1850 AND 1855"
+ * @returns {Object|null} Date detail, or null when the text is not a recognised date
+ */
+const parseGenealogicalDate = (text) => {
+    if (typeof text !== 'string' || !text.trim()) return null;
+
+    const original = text.trim().replace(/\s+/g, ' ');
+    let detail = null;
+
+    const range = /^(?:bet\.?|between|from)\s+(.+?)\s+(?:and|to|-)\s+(.+)$/i.exec(original);
+    if (range) {
+        const first = parseSimpleDate(range[1]);
+        const last = parseSimpleDate(range[2]);
+        if (!first || !last || first.start > last.end) return null;
+
+        // Keep the finer of the two precisions so neither end is rounded away
+        const precision = PRECISIONS.indexOf(first.precision) <= PRECISIONS.indexOf(last.precision)
+            ? first.precision
+            : last.precision;
+        detail = { qualifier: 'between', precision, start: first.start, end: last.end };
+    } else {
+        const prefix = QUALIFIER_PREFIXES.find(({ pattern }) => pattern.test(original));
+        const parsed = parseSimpleDate(prefix ? original.replace(prefix.pattern, '') : original);
+        if (!parsed) return null;
+
+        detail = { qualifier: prefix ? prefix.qualifier : 'exact', ...parsed };
+    }
+
+    return { ...detail, original, sort_key: sortKeyFor(detail) };
+};
+
+exports.parseGenealogicalDate = parseGenealogicalDate;
+
+/**
+ * Normalize a date detail received from a client or the database
+ * Strings are parsed; objects are checked and their sort key recomputed.
+ * Exact single days collapse to null because the DATE column already holds them.
+ *
+ * @param {String|Object|null} detail - Raw detail
+ * @returns {Object|null} Normalized detail
+ * @throws {Error} When the detail cannot be understood
+ */
+exports.normalizeDateDetail = (detail) => {
+    if (detail === null || detail === undefined || detail === '') return null;
+
+    let normalized;
+    if (typeof detail === 'string') {
+        normalized = parseGenealogicalDate(detail);
+        if (!normalized) {
+            throw new Error(`Unrecognised date: ${detail}`);
+        }
+    } else if (typeof detail === 'object') {
+        const { qualifier, precision, start, original } = detail;
+        const end = detail.end || start;
+        const isIsoDay = (value) => typeof value === 'string' && parseSimpleDate(value)?.precision === 'day';
+
+        if (!QUALIFIERS.includes(qualifier)) {
+            throw new Error(`Date qualifier must be one of: ${QUALIFIERS.join(', ')}`);
+        }
+        if (!PRECISIONS.includes(precision)) {
+            throw new Error(`Date precision must be one of: ${PRECISIONS.join(', ')}`);
+        }
+        if (!isIsoDay(start) || !isIsoDay(end) || start > end) {
+            throw new Error('Date range must have a valid start and end day');
+        }
+
+        normalized = {
+            qualifier,
+            precision,
+            start,
+            end,
+            original: typeof original === 'string' && original.trim() ? original.trim() : null
+        };
+        normalized.sort_key = sortKeyFor(normalized);
+    } else {
+        throw new Error('Date detail must be text or an object');
+    }
+
+    if (normalized.qualifier === 'exact' && normalized.precision === 'day') {
+        return null;
+    }
+
+    return normalized;
+};
+
+/**
+ * Get the earliest and latest day a date could refer to
+ * Open-ended qualifiers (before/after) leave one side null.
+ *
+ * @param {Date|String} value - DATE column value
+ * @param {Object|null} detail - Date detail
+ * @returns {Object|null} { earliest, latest } as Date objects (null = unbounded), or null without a date
+ */
+exports.getDateBounds = (value, detail = null) => {
+    if (detail && detail.start) {
+        const toDate = (isoDay) => new Date(`${isoDay}T00:00:00.000Z`);
+        const widen = (isoDay, years) => {
+            const date = toDate(isoDay);
+            date.setUTCFullYear(date.getUTCFullYear() + years);
+            return date;
+        };
+        const end = detail.end || detail.start;
+
+        switch (detail.qualifier) {
+            case 'before':
+                return { earliest: null, latest: toDate(shiftDay(detail.start, -1)) };
+            case 'after':
+                return { earliest: toDate(shiftDay(end, 1)), latest: null };
+            case 'about':
+            case 'estimated':
+            case 'calculated':
+                return {
+                    earliest: widen(detail.start, -APPROXIMATE_MARGIN_YEARS),
+                    latest: widen(end, APPROXIMATE_MARGIN_YEARS)
+                };
+            default:
+                return { earliest: toDate(detail.start), latest: toDate(end) };
+        }
+    }
+
+    if (!value) return null;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return null;
+
+    const day = new Date(`${date.toISOString().split('T')[0]}T00:00:00.000Z`);
+    return { earliest: day, latest: day };
+};
+
+/**
+ * Get the bounds of a record's date field, reading its detail from <field>_detail
+ *
+ * @param {Object} record - Person, event or relationship (model instance or plain object)
+ * @param {String} dateField - Date field, e.g. birth_date
+ * @returns {Object|null} Bounds (see getDateBounds)
+ */
+exports.getRecordDateBounds = (record, dateField) => {
+    if (!record) return null;
+    return exports.getDateBounds(record[dateField], record[`${dateField}_detail`] || null);
+};
+
+/**
+ * Check whether the first date is before the second however both are read
+ *
+ * @param {Object|null} first - Bounds of the first date
+ * @param {Object|null} second - Bounds of the second date
+ * @returns {Boolean} True only when the first date is certainly earlier
+ */
+exports.isAlwaysBefore = (first, second) =>
+    Boolean(first && second && first.latest && second.earliest && first.latest < second.earliest);
+
+/**
+ * Check whether two genealogical dates say the same thing
+ *
+ * @param {Date|String} firstValue - First DATE value
+ * @param {Object|null} firstDetail - First detail
+ * @param {Date|String} secondValue - Second DATE value
+ * @param {Object|null} secondDetail - Second detail
+ * @returns {Boolean} True when both have the same bounds
+ */
+exports.isSameGenealogicalDate = (firstValue, firstDetail, secondValue, secondDetail) => {
+    const first = exports.getDateBounds(firstValue, firstDetail || null);
+    const second = exports.getDateBounds(secondValue, secondDetail || null);
+    if (!first || !second) return !first && !second;
+
+    const sameDay = (a, b) => (a && b ? a.getTime() === b.getTime() : a === b);
+    return sameDay(first.earliest, second.earliest) && sameDay(first.latest, second.latest);
+};
+
+/**
+ * Describe a date in validation messages: YYYY-MM-DD for exact days, GEDCOM-style text otherwise
+ *
+ * @param {Date|String} value - DATE value
+ * @param {Object|null} detail - Date detail
+ * @returns {String} Date description
+ */
+exports.describeDate = (value, detail = null) => {
+    if (detail && detail.start) return exports.formatGenealogicalDate(value, detail);
+    return new Date(value).toISOString().split('T')[0];
+};
+
+/**
+ * Get the smallest and largest possible number of years between two dates
+ *
+ * @param {Object} fromBounds - Bounds of the earlier date (from getDateBounds)
+ * @param {Object} toBounds - Bounds of the later date (from getDateBounds)
+ * @returns {Object} { min, max } in years; null means unbounded
+ */
+exports.getYearSpan = (fromBounds, toBounds) => {
+    const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365.25;
+    const years = (from, to) => (from && to ? (to - from) / MS_PER_YEAR : null);
+
+    return {
+        min: years(fromBounds.latest, toBounds.earliest),
+        max: years(fromBounds.earliest, toBounds.latest)
+    };
+};
+
+/**
+ * Format a genealogical date for display or GEDCOM output
+ *
+ * @param {Date|String} value - DATE column value
+ * @param {Object|null} detail - Date detail
+ * @returns {String|null} e.g. "ABT 1850", "BET MAR 1850 AND 1855", "12 MAR 1850"
+ */
+exports.formatGenealogicalDate = (value, detail = null) => {
+    const formatDay = (isoDay, precision) => {
+        const [year, month, day] = isoDay.split('-');
+        const monthName = MONTHS[parseInt(month, 10) - 1];
+        const yearText = String(parseInt(year, 10));
+
+        if (precision === 'year') return yearText;
+        if (precision === 'month') return `${monthName} ${yearText}`;
+        return `${parseInt(day, 10)} ${monthName} ${yearText}`;
+    };
+
+    if (!detail || !detail.start) {
+        if (!value) return null;
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : formatDay(date.toISOString().split('T')[0], 'day');
+    }
+
+    const start = formatDay(detail.start, detail.precision);
+    const end = formatDay(detail.end || detail.start, detail.precision);
+
+    switch (detail.qualifier) {
+        case 'about': return `ABT ${start}`;
+        case 'estimated': return `EST ${start}`;
+        case 'calculated': return `CAL ${start}`;
+        case 'before': return `BEF ${start}`;
+        case 'after': return `AFT ${start}`;
+        case 'between': return `BET ${start} AND ${end}`;
+        default: return start;
+    }
+};
+
+/**
+ * Describe a genealogical date in prose, with the preposition a sentence needs
+ *
+ * @param {Date|String} value - DATE column value
+ * @param {Object|null} detail - Date detail
+ * @returns {String|null} e.g. "on 12 March 1850", "in 1850", "about 1850", "between 1850 and 1855"
+ */
+exports.describeGenealogicalDate = (value, detail = null) => {
+    const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+        'July', 'August', 'September', 'October', 'November', 'December'];
+
+    const formatDay = (isoDay, precision) => {
+        const [year, month, day] = isoDay.split('-').map(part => parseInt(part, 10));
+        if (precision === 'year') return String(year);
+        if (precision === 'month') return `${MONTH_NAMES[month - 1]} ${year}`;
+        return `${day} ${MONTH_NAMES[month - 1]} ${year}`;
+    };
+
+    if (!detail || !detail.start) {
+        if (!value) return null;
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : `on ${formatDay(date.toISOString().split('T')[0], 'day')}`;
+    }
+
+    const start = formatDay(detail.start, detail.precision);
+    const end = formatDay(detail.end || detail.start, detail.precision);
+
+    switch (detail.qualifier) {
+        case 'about': return `about ${start}`;
+        case 'estimated': return `about ${start} (estimated)`;
+        case 'calculated': return `in ${start} (calculated)`;
+        case 'before': return `before ${start}`;
+        case 'after': return `after ${start}`;
+        case 'between': return `between ${start} and ${end}`;
+        default: return `${detail.precision === 'day' ? 'on' : 'in'} ${start}`;
+    }
+};
+
+/**
+ * Keep a model's DATE column and its detail column in step
+ * Used from beforeValidate hooks: a changed detail is normalized and its sort key written to the
+ * DATE column; a DATE changed on its own means an exact day, so a stale detail is cleared.
+ *
+ * @param {Object} instance - Sequelize model instance
+ * @param {String} dateField - DATE attribute, e.g. birth_date
+ * @param {String} detailField - Detail attribute, e.g. birth_date_detail
+ */
+exports.applyDateDetail = (instance, dateField, detailField) => {
+    if (instance.changed(detailField)) {
+        const detail = exports.normalizeDateDetail(instance.get(detailField));
+        instance.set(detailField, detail);
+        if (detail) {
+            instance.set(dateField, detail.sort_key);
+        }
+    } else if (!instance.isNewRecord && instance.changed(dateField)) {
+        instance.set(detailField, null);
+    }
+};
+
+exports.QUALIFIERS = QUALIFIERS;
+exports.PRECISIONS = PRECISIONS;
+exports.APPROXIMATE_MARGIN_YEARS = APPROXIMATE_MARGIN_YEARS;
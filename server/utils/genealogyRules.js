@@ -2,9 +2,25 @@
  * Business rules for genealogical data
  */
 
+const { getRecordDateBounds, getYearSpan, isAlwaysBefore } = require('./genealogicalDate');
+
+/**
+ * Describe a span of years for warnings: the exact figure for exact dates,
+ * otherwise the bound that triggered the warning
+ * @param {Object} span - { min, max } from getYearSpan
+ * @param {string} bound - 'min' or 'max'
+ * @returns {string} - e.g. "130 years" or "at least 121 years"
+ */
+const describeYears = (span, bound) => {
+    const years = Math.round(span[bound]);
+    if (span.min === span.max) return `${years} years`;
+    return `${bound === 'min' ? 'at least' : 'at most'} ${years} years`;
+};
+
 /**
  * Validates a person's age
- * @param {Object} person - The person object with birth_date and death_date properties
+ * Approximate and ranged dates only produce a warning when every reading of them would
+ * @param {Object} person - The person object with birth_date and death_date properties (and optional *_detail)
  * @returns {Object} - Object with isValid property and any warnings
  */
 exports.validateAge = (person) => {
@@ -14,46 +30,47 @@ exports.validateAge = (person) => {
         return { isValid: false, warnings: ['Invalid person data'] };
     }
     
-    const birthDate = person.birth_date ? new Date(person.birth_date) : null;
-    const deathDate = person.death_date ? new Date(person.death_date) : null;
+    const birth = getRecordDateBounds(person, 'birth_date');
+    const death = getRecordDateBounds(person, 'death_date');
+    const now = new Date();
     
     // Check if birth date is in the future
-    if (birthDate && birthDate > new Date()) {
+    if (birth && birth.earliest && birth.earliest > now) {
         warnings.push('Birth date is in the future');
     }
     
     // Check if death date is in the future
-    if (deathDate && deathDate > new Date()) {
+    if (death && death.earliest && death.earliest > now) {
         warnings.push('Death date is in the future');
     }
     
     // Check if death date is before birth date
-    if (birthDate && deathDate && deathDate < birthDate) {
+    if (isAlwaysBefore(death, birth)) {
         warnings.push('Death date is before birth date');
     }
     
     // Calculate age at death
-    if (birthDate && deathDate) {
-        const ageInYears = (deathDate - birthDate) / (1000 * 60 * 60 * 24 * 365.25);
+    if (birth && death) {
+        const age = getYearSpan(birth, death);
         
         // Flag unusually high ages (over 120 years)
-        if (ageInYears > 120) {
-            warnings.push(`Age at death (${Math.round(ageInYears)} years) exceeds 120 years. Please verify dates.`);
+        if (age.min !== null && age.min > 120) {
+            warnings.push(`Age at death (${describeYears(age, 'min')}) exceeds 120 years. Please verify dates.`);
         }
         
         // Flag unusually low ages (under 1 year)
-        if (ageInYears < 1) {
-            warnings.push(`Age at death (${Math.round(ageInYears * 12)} months) is under 1 year. Consider adding more precise dates if available.`);
+        if (age.max !== null && age.max < 1) {
+            warnings.push(`Age at death (${Math.round(age.max * 12)} months) is under 1 year. Consider adding more precise dates if available.`);
         }
     }
     
     // Calculate current age for living persons
-    if (birthDate && !deathDate) {
-        const ageInYears = (new Date() - birthDate) / (1000 * 60 * 60 * 24 * 365.25);
+    if (birth && !death && birth.latest) {
+        const age = getYearSpan(birth, { earliest: now, latest: now });
         
         // Flag unusually high ages for living persons (over 110 years)
-        if (ageInYears > 110) {
-            warnings.push(`Current age (${Math.round(ageInYears)} years) exceeds 110 years. Please verify birth date or add death date if applicable.`);
+        if (age.min > 110) {
+            warnings.push(`Current age (${describeYears(age, 'min')}) exceeds 110 years. Please verify birth date or add death date if applicable.`);
         }
     }
     
@@ -65,6 +82,7 @@ exports.validateAge = (person) => {
 
 /**
  * Validates parent-child age differences
+ * Approximate and ranged birth dates only produce a warning when every reading of them would
  * @param {Object} parent - The parent person object
  * @param {Object} child - The child person object
  * @returns {Object} - Object with isValid property and any warnings
@@ -76,34 +94,34 @@ exports.validateParentChildAgeDifference = (parent, child) => {
         return { isValid: false, warnings: ['Invalid person data'] };
     }
     
-    const parentBirthDate = parent.birth_date ? new Date(parent.birth_date) : null;
-    const childBirthDate = child.birth_date ? new Date(child.birth_date) : null;
+    const parentBirth = getRecordDateBounds(parent, 'birth_date');
+    const childBirth = getRecordDateBounds(child, 'birth_date');
     
-    if (parentBirthDate && childBirthDate) {
+    if (parentBirth && childBirth) {
         // Parent should be born before child
-        if (parentBirthDate >= childBirthDate) {
+        if (parentBirth.earliest && childBirth.latest && parentBirth.earliest >= childBirth.latest) {
             warnings.push('Parent must be born before child');
         } else {
-            const ageDifference = (childBirthDate - parentBirthDate) / (1000 * 60 * 60 * 24 * 365.25);
+            const ageDifference = getYearSpan(parentBirth, childBirth);
             
             // Check if parent was too young (under 12 years old)
-            if (ageDifference < 12) {
-                warnings.push(`Parent-child age difference (${Math.round(ageDifference)} years) is unusually small. Parent would have been under 12 years old.`);
+            if (ageDifference.max !== null && ageDifference.max < 12) {
+                warnings.push(`Parent-child age difference (${describeYears(ageDifference, 'max')}) is unusually small. Parent would have been under 12 years old.`);
             }
             
             // Check if parent was too old (over 70 years old)
-            if (ageDifference > 70) {
-                warnings.push(`Parent-child age difference (${Math.round(ageDifference)} years) is unusually large. Parent would have been over 70 years old.`);
+            if (ageDifference.min !== null && ageDifference.min > 70) {
+                warnings.push(`Parent-child age difference (${describeYears(ageDifference, 'min')}) is unusually large. Parent would have been over 70 years old.`);
             }
             
             // Flag borderline cases (12-14 years old)
-            if (ageDifference >= 12 && ageDifference < 14) {
-                warnings.push(`Parent-child age difference (${Math.round(ageDifference)} years) is unusually small. Please verify dates.`);
+            if (ageDifference.max !== null && ageDifference.max >= 12 && ageDifference.max < 14) {
+                warnings.push(`Parent-child age difference (${describeYears(ageDifference, 'max')}) is unusually small. Please verify dates.`);
             }
             
             // Flag borderline cases (60-70 years old)
-            if (ageDifference > 60 && ageDifference <= 70) {
-                warnings.push(`Parent-child age difference (${Math.round(ageDifference)} years) is unusually large. Please verify dates.`);
+            if (ageDifference.min !== null && ageDifference.min > 60 && ageDifference.min <= 70) {
+                warnings.push(`Parent-child age difference (${describeYears(ageDifference, 'min')}) is unusually large. Please verify dates.`);
             }
         }
     }
@@ -193,72 +211,73 @@ exports.validateMarriage = (person1, person2, relationship) => {
         return { isValid: false, warnings: ['Invalid marriage data'] };
     }
     
-    const person1BirthDate = person1.birth_date ? new Date(person1.birth_date) : null;
-    const person2BirthDate = person2.birth_date ? new Date(person2.birth_date) : null;
-    const person1DeathDate = person1.death_date ? new Date(person1.death_date) : null;
-    const person2DeathDate = person2.death_date ? new Date(person2.death_date) : null;
-    const marriageDate = relationship.start_date ? new Date(relationship.start_date) : null;
-    const divorceDate = relationship.end_date ? new Date(relationship.end_date) : null;
+    const person1Birth = getRecordDateBounds(person1, 'birth_date');
+    const person2Birth = getRecordDateBounds(person2, 'birth_date');
+    const person1Death = getRecordDateBounds(person1, 'death_date');
+    const person2Death = getRecordDateBounds(person2, 'death_date');
+    const marriage = getRecordDateBounds(relationship, 'start_date');
+    const divorce = getRecordDateBounds(relationship, 'end_date');
+    const now = new Date();
     
-    if (marriageDate) {
+    if (marriage) {
         // Check if marriage date is in the future
-        if (marriageDate > new Date()) {
+        if (marriage.earliest && marriage.earliest > now) {
             warnings.push('Marriage date is in the future');
         }
         
         // Check if marriage date is before either spouse's birth date
-        if (person1BirthDate && marriageDate < person1BirthDate) {
+        if (isAlwaysBefore(marriage, person1Birth)) {
             warnings.push(`Marriage date is before ${person1.first_name}'s birth date`);
         }
         
-        if (person2BirthDate && marriageDate < person2BirthDate) {
+        if (isAlwaysBefore(marriage, person2Birth)) {
             warnings.push(`Marriage date is before ${person2.first_name}'s birth date`);
         }
         
         // Check if marriage date is after either spouse's death date
-        if (person1DeathDate && marriageDate > person1DeathDate) {
+        if (isAlwaysBefore(person1Death, marriage)) {
             warnings.push(`Marriage date is after ${person1.first_name}'s death date`);
         }
         
-        if (person2DeathDate && marriageDate > person2DeathDate) {
+        if (isAlwaysBefore(person2Death, marriage)) {
             warnings.push(`Marriage date is after ${person2.first_name}'s death date`);
         }
         
         // Check age at marriage
-        if (person1BirthDate) {
-            const ageAtMarriage = (marriageDate - person1BirthDate) / (1000 * 60 * 60 * 24 * 365.25);
+        if (person1Birth) {
+            const ageAtMarriage = getYearSpan(person1Birth, marriage);
             
-            if (ageAtMarriage < 14) {
-                warnings.push(`${person1.first_name}'s age at marriage (${Math.round(ageAtMarriage)} years) is unusually young`);
+            if (ageAtMarriage.max !== null && ageAtMarriage.max < 14) {
+                warnings.push(`${person1.first_name}'s age at marriage (${describeYears(ageAtMarriage, 'max')}) is unusually young`);
             }
         }
         
-        if (person2BirthDate) {
-            const ageAtMarriage = (marriageDate - person2BirthDate) / (1000 * 60 * 60 * 24 * 365.25);
+        if (person2Birth) {
+            const ageAtMarriage = getYearSpan(person2Birth, marriage);
             
-            if (ageAtMarriage < 14) {
-                warnings.push(`${person2.first_name}'s age at marriage (${Math.round(ageAtMarriage)} years) is unusually young`);
+            if (ageAtMarriage.max !== null && ageAtMarriage.max < 14) {
+                warnings.push(`${person2.first_name}'s age at marriage (${describeYears(ageAtMarriage, 'max')}) is unusually young`);
             }
         }
     }
     
-    if (divorceDate) {
+    if (divorce) {
         // Check if divorce date is in the future
-        if (divorceDate > new Date()) {
+        if (divorce.earliest && divorce.earliest > now) {
             warnings.push('Divorce date is in the future');
         }
         
         // Check if divorce date is before marriage date
-        if (marriageDate && divorceDate < marriageDate) {
+        if (isAlwaysBefore(divorce, marriage)) {
             warnings.push('Divorce date is before marriage date');
         }
         
         // Check if divorce date is after either spouse's death date
-        if (person1DeathDate && divorceDate > person1DeathDate) {
+        if (isAlwaysBefore(person1Death, divorce)) {
             warnings.push(`Divorce date is after ${person1.first_name}'s death date`);
         }
         
-        if (person2DeathDate && divorceDate > person2DeathDate) {
+        if (isAlwaysBefore(person2Death, divorce)) {
             warnings.push(`Divorce date is after ${person2.first_name}'s death date`);
         }
     }
@@ -274,9 +293,10 @@ exports.validateMarriage = (person1, person2, relationship) => {
  * @param {Date} date - The date to validate
  * @param {string} eventType - The type of event
  * @param {string} location - The location of the event
+ * @param {Object} detail - Optional genealogical date detail for approximate dates
  * @returns {Object} - Object with isValid property and any warnings
  */
-exports.validateHistoricalConsistency = (date, eventType, location) => {
+exports.validateHistoricalConsistency = (date, eventType, location, detail = null) => {
     const warnings = [];
     
     if (!date) {
@@ -298,7 +318,10 @@ exports.validateHistoricalConsistency = (date, eventType, location) => {
     }
     
     // Check specific event types against historical context
-    if (eventType === 'census' && location && location.toLowerCase().includes('united states')) {
+    // Only a date known to fall within a single year can be checked against census years
+    const isSingleYear = !detail || (['exact', 'calculated'].includes(detail.qualifier) &&
+        detail.start.slice(0, 4) === (detail.end || detail.start).slice(0, 4));
+    if (eventType === 'census' && isSingleYear && location && location.toLowerCase().includes('united states')) {
         // US Census years
         const usCensusYears = [
             1790, 1800, 1810, 1820, 1830, 1840, 1850, 1860, 1870, 1880, 1890, 
@@ -0,0 +1,151 @@
+/**
+ * iCalendar writing utilities
+ * Serializes consultations as RFC 5545 VEVENTs, for single-event downloads and subscribable calendar feeds
+ */
+
+const CRLF = '\r\n';
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const MAX_LINE_OCTETS = 75;
+
+const PRODUCT_ID = '-//Ancestry Research//Consultations//EN';
+const UID_DOMAIN = 'consultations.ancestry-research';
+
+const EVENT_STATUSES = {
+    scheduled: 'CONFIRMED',
+    completed: 'CONFIRMED',
+    canceled: 'CANCELLED'
+};
+
+/**
+ * Format a date as an iCalendar UTC date-time, e.g. 20260115T140000Z
+ *
+ * @param {Date|String} date - Date value
+ * @returns {String} iCalendar date-time
+ */
+const formatICalDate = (date) => new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Escape a TEXT property value
+ *
+ * @param {String} value - Text value
+ * @returns {String} Escaped value
+ */
+const escapeText = (value) => String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold a content line so no line exceeds 75 octets, without splitting multi-byte characters
+ *
+ * @param {String} line - Content line
+ * @returns {String} Folded line
+ */
+const foldLine = (line) => {
+    const parts = [];
+    let current = '';
+    let currentOctets = 0;
+
+    for (const char of line) {
+        const octets = Buffer.byteLength(char, 'utf8');
+        // Continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+
+        if (currentOctets + octets > limit) {
+            parts.push(current);
+            current = '';
+            currentOctets = 0;
+        }
+
+        current += char;
+        currentOctets += octets;
+    }
+
+    parts.push(current);
+    return parts.join(`${CRLF} `);
+};
+
+/**
+ * Format a calendar user (organizer or attendee) property
+ *
+ * @param {String} name - Property name
+ * @param {Object} user - User with first_name, last_name and email
+ * @param {String} [params] - Extra property parameters
+ * @returns {String|null} Property line or null without an email address
+ */
+const calendarUser = (name, user, params = '') => {
+    if (!user || !user.email) return null;
+
+    const displayName = `${user.first_name || ''} ${user.last_name || ''}`.trim().replace(/"/g, '\'');
+    return `${name};CN="${displayName}"${params}:mailto:${user.email}`;
+};
+
+/**
+ * Build the VEVENT lines of a consultation
+ *
+ * @param {Object} consultation - Consultation with its project, client and researcher
+ * @param {Object} options - Event options
+ * @param {String} [options.url] - Link to the consultation in the app
+ * @param {Date} [options.now] - DTSTAMP value
+ * @returns {Array<String>} Content lines
+ */
+const consultationEvent = (consultation, { url = null, now = new Date() } = {}) => {
+    const projectTitle = consultation.project ? consultation.project.title : null;
+    const researcher = consultation.researcher;
+
+    const description = [
+        projectTitle ? `Project: ${projectTitle}` : null,
+        researcher ? `Researcher: ${researcher.first_name} ${researcher.last_name}` : null,
+        consultation.notes ? `\n${consultation.notes}` : null
+    ].filter(Boolean).join('\n');
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:${consultation.consultation_id}@${UID_DOMAIN}`,
+        `DTSTAMP:${formatICalDate(now)}`,
+        `DTSTART:${formatICalDate(consultation.starts_at)}`,
+        `DTEND:${formatICalDate(consultation.ends_at)}`,
+        `SEQUENCE:${consultation.sequence || 0}`,
+        `STATUS:${EVENT_STATUSES[consultation.status] || 'CONFIRMED'}`,
+        `SUMMARY:${escapeText(`Consultation: ${consultation.topic}`)}`,
+        description ? `DESCRIPTION:${escapeText(description)}` : null,
+        url ? `URL:${url}` : null,
+        calendarUser('ORGANIZER', researcher),
+        calendarUser('ATTENDEE', consultation.client, ';ROLE=REQ-PARTICIPANT'),
+        'END:VEVENT'
+    ].filter(Boolean);
+};
+
+/**
+ * Build an iCalendar document of consultations
+ *
+ * @param {Array<Object>} consultations - Consultations with their project, client and researcher
+ * @param {Object} options - Calendar options
+ * @param {String} [options.name] - Calendar name shown by calendar apps subscribing to a feed
+ * @param {Function} [options.getUrl] - Returns the app link of a consultation
+ * @param {Date} [options.now] - DTSTAMP value
+ * @returns {String} iCalendar text with CRLF line endings
+ */
+const buildCalendar = (consultations, { name = null, getUrl = () => null, now = new Date() } = {}) => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        name ? `X-WR-CALNAME:${escapeText(name)}` : null,
+        ...consultations.flatMap(consultation => consultationEvent(consultation, { url: getUrl(consultation), now })),
+        'END:VCALENDAR'
+    ].filter(Boolean);
+
+    return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+module.exports = {
+    buildCalendar,
+    escapeText,
+    foldLine,
+    formatICalDate
+};
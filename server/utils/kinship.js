@@ -0,0 +1,307 @@
+/**
+ * Kinship utilities
+ * Names how one person is related to another from their lines of ancestry.
+ *
+ * A lineage row says that a person (the origin) descends from an ancestor a number of generations
+ * up, along a path of person IDs from the origin to the ancestor. Two persons are blood relatives
+ * when their lineages share an ancestor; the generations each of them is removed from the nearest
+ * shared ancestor decide the name, e.g. 3 and 4 generations make second cousins once removed.
+ */
+
+const ORDINAL_WORDS = [
+    'zeroth', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'
+];
+
+const TERMS = {
+    parent: { male: 'father', female: 'mother', other: 'parent' },
+    child: { male: 'son', female: 'daughter', other: 'child' },
+    sibling: { male: 'brother', female: 'sister', other: 'sibling' },
+    parentSibling: { male: 'uncle', female: 'aunt', other: 'aunt or uncle' },
+    siblingChild: { male: 'nephew', female: 'niece', other: 'niece or nephew' },
+    spouse: { male: 'husband', female: 'wife', other: 'spouse' }
+};
+
+// Step relatives written as one word, e.g. "stepfather" rather than "step-father"
+const CLOSED_STEP_TERMS = [
+    'father', 'mother', 'parent', 'son', 'daughter', 'child', 'brother', 'sister', 'sibling'
+];
+
+/**
+ * Number with its ordinal suffix, e.g. "2nd"
+ *
+ * @param {Number} n - Number
+ * @returns {String} Ordinal
+ */
+const ordinalNumber = (n) => {
+    const suffixes = ['th', 'st', 'nd', 'rd'];
+    const v = n % 100;
+    return `${n}${suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]}`;
+};
+
+/**
+ * Ordinal in words up to ten, e.g. "second", then with digits
+ *
+ * @param {Number} n - Number
+ * @returns {String} Ordinal
+ */
+const ordinalWord = (n) => ORDINAL_WORDS[n] || ordinalNumber(n);
+
+/**
+ * How many times cousins are removed, e.g. "once" or "3 times"
+ *
+ * @param {Number} n - Generations apart
+ * @returns {String} Removal
+ */
+const timesRemoved = (n) => {
+    if (n === 1) return 'once';
+    if (n === 2) return 'twice';
+    return `${n} times`;
+};
+
+/**
+ * Term for a relative of a given gender
+ *
+ * @param {String} kind - Key of TERMS
+ * @param {String} gender - Person gender
+ * @returns {String} Term
+ */
+const term = (kind, gender) => TERMS[kind][gender === 'male' || gender === 'female' ? gender : 'other'];
+
+/**
+ * "great-" prefixes for distant generations: one great, then "2nd great-", "3rd great-", ...
+ *
+ * @param {Number} count - Number of greats
+ * @returns {String} Prefix
+ */
+const greats = (count) => {
+    if (count <= 0) return '';
+    if (count === 1) return 'great-';
+    return `${ordinalNumber(count)} great-`;
+};
+
+/**
+ * Name a blood relative
+ *
+ * @param {Number} up - Generations from the person to the common ancestor
+ * @param {Number} down - Generations from the common ancestor to the relative
+ * @param {String} gender - Gender of the relative
+ * @param {Object} options - Options
+ * @param {Boolean} options.half - The two lines share only one of the ancestor couple
+ * @param {Boolean} options.step - A step-parent link is part of the line
+ * @param {String} options.qualifier - Qualifier of a direct parent link ('adoptive', 'foster')
+ * @returns {String} Name of the relative, e.g. "second cousin once removed"
+ */
+const describeBloodRelative = (up, down, gender, { half = false, step = false, qualifier = null } = {}) => {
+    let label;
+
+    if (up === 0 && down === 0) {
+        return 'self';
+    } else if (up === 0) {
+        label = down === 1 ? term('child', gender) : `${greats(down - 2)}grand${term('child', gender)}`;
+    } else if (down === 0) {
+        label = up === 1 ? term('parent', gender) : `${greats(up - 2)}grand${term('parent', gender)}`;
+    } else if (up === 1 && down === 1) {
+        label = term('sibling', gender);
+    } else if (up === 1) {
+        label = down === 2 ? term('siblingChild', gender) : `${greats(down - 3)}grand${term('siblingChild', gender)}`;
+    } else if (down === 1) {
+        label = `${greats(up - 2)}${term('parentSibling', gender)}`;
+    } else {
+        const removed = Math.abs(up - down);
+        label = `${ordinalWord(Math.min(up, down) - 1)} cousin${removed > 0 ? ` ${timesRemoved(removed)} removed` : ''}`;
+    }
+
+    if (step) {
+        return CLOSED_STEP_TERMS.includes(label) ? `step${label}` : `step-${label}`;
+    }
+    if (half && up > 0 && down > 0) {
+        return label.includes('cousin') ? `half ${label}` : `half-${label}`;
+    }
+    if (qualifier && ['adoptive', 'foster'].includes(qualifier) && up + down === 1) {
+        return `${qualifier} ${label}`;
+    }
+    return label;
+};
+
+/**
+ * Parents of a person found in a lineage
+ *
+ * @param {Array} rows - Lineage rows of one origin
+ * @param {String} personId - Person on the origin's line
+ * @returns {Array} Parent IDs
+ */
+const parentsInLineage = (rows, personId) => rows
+    .filter(row => row.generation > 0 && row.path[row.path.length - 2] === personId)
+    .map(row => row.ancestor_id);
+
+/**
+ * Find how one person is related by blood (or through step-parents) to another
+ *
+ * @param {String} fromId - Person the relationship is described for
+ * @param {String} toId - Relative
+ * @param {Map} lineages - Lineage rows by origin ID
+ * @returns {Object|null} { up, down, half, step, qualifier, commonAncestorIds, path }, or null when unrelated
+ */
+const findBloodRelationship = (fromId, toId, lineages) => {
+    const fromRows = lineages.get(fromId) || [];
+    const toRows = lineages.get(toId) || [];
+
+    const toRowsByAncestor = new Map();
+    toRows.forEach(row => {
+        if (!toRowsByAncestor.has(row.ancestor_id)) toRowsByAncestor.set(row.ancestor_id, []);
+        toRowsByAncestor.get(row.ancestor_id).push(row);
+    });
+
+    const candidates = [];
+    fromRows.forEach(from => {
+        (toRowsByAncestor.get(from.ancestor_id) || []).forEach(to => {
+            candidates.push({ from, to, step: Boolean(from.via_step || to.via_step) });
+        });
+    });
+
+    if (candidates.length === 0) return null;
+
+    // Blood before step relationships, then the nearest common ancestor
+    candidates.sort((a, b) =>
+        (a.step - b.step) ||
+        ((a.from.generation + a.to.generation) - (b.from.generation + b.to.generation)) ||
+        (Math.abs(a.from.generation - a.to.generation) - Math.abs(b.from.generation - b.to.generation)));
+
+    const best = candidates[0];
+    const up = best.from.generation;
+    const down = best.to.generation;
+
+    const commonAncestorIds = [...new Set(candidates
+        .filter(c => c.from.generation === up && c.to.generation === down && c.step === best.step)
+        .map(c => c.from.ancestor_id))];
+
+    // Half relatives descend from one ancestor through two different known partners
+    let half = false;
+    if (!best.step && up > 0 && down > 0 && commonAncestorIds.length === 1) {
+        const fromOtherParents = parentsInLineage(fromRows, best.from.path[up - 1])
+            .filter(id => !commonAncestorIds.includes(id));
+        const toOtherParents = parentsInLineage(toRows, best.to.path[down - 1])
+            .filter(id => !commonAncestorIds.includes(id));
+        half = fromOtherParents.length > 0 && toOtherParents.length > 0;
+    }
+
+    let qualifier = null;
+    if (up + down === 1) {
+        qualifier = up === 1 ? best.from.last_qualifier : best.to.last_qualifier;
+    }
+
+    return {
+        up,
+        down,
+        half,
+        step: best.step,
+        qualifier,
+        commonAncestorIds,
+        path: [...best.from.path, ...best.to.path.slice(0, -1).reverse()]
+    };
+};
+
+/**
+ * Name an in-law (or step relative through a marriage) from a blood relationship on the other side
+ *
+ * @param {Object} inLaw - { side, spouse, relationship } where side 'spouse' means the relative is
+ *                         a blood relative of the person's spouse and 'relative' means the relative
+ *                         is the spouse of one of the person's blood relatives
+ * @param {String} gender - Gender of the relative
+ * @returns {Object} { label, kind }
+ */
+const describeInLaw = ({ side, spouse, relationship }, gender) => {
+    const { up, down } = relationship;
+
+    if (side === 'spouse') {
+        if (up === 1 && down === 0) return { label: `${term('parent', gender)}-in-law`, kind: 'in-law' };
+        if (up === 1 && down === 1) return { label: `${term('sibling', gender)}-in-law`, kind: 'in-law' };
+        if (up === 0 && down === 1) return { label: describeBloodRelative(0, 1, gender, { step: true }), kind: 'step' };
+        return {
+            label: `${term('spouse', spouse.gender)}'s ${describeBloodRelative(up, down, gender, relationship)}`,
+            kind: 'in-law'
+        };
+    }
+
+    if (up === 1 && down === 1) return { label: `${term('sibling', gender)}-in-law`, kind: 'in-law' };
+    if (up === 0 && down === 1) return { label: `${term('child', gender)}-in-law`, kind: 'in-law' };
+    if (up === 1 && down === 0) return { label: describeBloodRelative(1, 0, gender, { step: true }), kind: 'step' };
+    return {
+        label: `${describeBloodRelative(up, down, spouse.gender, relationship)}'s ${term('spouse', gender)}`,
+        kind: 'in-law'
+    };
+};
+
+/**
+ * Work out how one person is related to another
+ *
+ * @param {String} fromId - Person the relationship is described for
+ * @param {String} toId - Relative
+ * @param {Object} graph - Family data
+ * @param {Map} graph.lineages - Lineage rows by origin ID, for both persons and their spouses
+ * @param {Map} graph.spouses - Spouse IDs by person ID
+ * @param {Map} graph.persons - Persons by ID (at least both persons and their spouses)
+ * @returns {Object|null} { label, kind, up, down, half, commonAncestorIds, path, spouseId }, or null when unrelated
+ */
+const resolveKinship = (fromId, toId, { lineages, spouses, persons }) => {
+    const gender = persons.get(toId) ? persons.get(toId).gender : null;
+
+    if (fromId === toId) {
+        return { label: 'self', kind: 'self', up: 0, down: 0, half: false, commonAncestorIds: [], path: [fromId], spouseId: null };
+    }
+
+    const blood = findBloodRelationship(fromId, toId, lineages);
+    if (blood) {
+        return {
+            label: describeBloodRelative(blood.up, blood.down, gender, blood),
+            kind: blood.step ? 'step' : 'blood',
+            up: blood.up,
+            down: blood.down,
+            half: blood.half,
+            commonAncestorIds: blood.commonAncestorIds,
+            path: blood.path,
+            spouseId: null
+        };
+    }
+
+    const fromSpouses = spouses.get(fromId) || [];
+    if (fromSpouses.includes(toId)) {
+        return { label: term('spouse', gender), kind: 'spouse', up: 0, down: 0, half: false, commonAncestorIds: [], path: [fromId, toId], spouseId: null };
+    }
+
+    const inLaws = [];
+    fromSpouses.forEach(spouseId => {
+        const relationship = findBloodRelationship(spouseId, toId, lineages);
+        if (relationship) inLaws.push({ side: 'spouse', spouseId, relationship, path: [fromId, ...relationship.path] });
+    });
+    (spouses.get(toId) || []).forEach(spouseId => {
+        const relationship = findBloodRelationship(fromId, spouseId, lineages);
+        if (relationship) inLaws.push({ side: 'relative', spouseId, relationship, path: [...relationship.path, toId] });
+    });
+
+    if (inLaws.length === 0) return null;
+
+    inLaws.sort((a, b) =>
+        (a.relationship.step - b.relationship.step) ||
+        ((a.relationship.up + a.relationship.down) - (b.relationship.up + b.relationship.down)));
+    const inLaw = inLaws[0];
+    const { label, kind } = describeInLaw({ ...inLaw, spouse: persons.get(inLaw.spouseId) || {} }, gender);
+
+    return {
+        label,
+        kind,
+        up: inLaw.relationship.up,
+        down: inLaw.relationship.down,
+        half: inLaw.relationship.half,
+        commonAncestorIds: inLaw.relationship.commonAncestorIds,
+        path: inLaw.path,
+        spouseId: inLaw.spouseId
+    };
+};
+
+module.exports = {
+    ordinalNumber,
+    describeBloodRelative,
+    findBloodRelationship,
+    resolveKinship
+};
@@ -0,0 +1,799 @@
+const zlib = require('zlib');
+
+/**
+ * PDF writing utilities
+ * A small PDF 1.4 writer for generated reports: pages of wrapped text in the standard Helvetica fonts,
+ * lines, boxes and JPEG or PNG images. Text is encoded as WinAnsi, so characters outside Latin-1 and
+ * common typographic punctuation are written as "?".
+ *
+ * Positions are given in points from the top left corner of the page.
+ */
+
+const FONTS = {
+    regular: { resource: 'F1', baseFont: 'Helvetica' },
+    bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+    italic: { resource: 'F3', baseFont: 'Helvetica-Oblique' }
+};
+
+// Advance widths (per 1000 units of font size) of the printable ASCII characters, from the standard AFM files
+const ASCII_WIDTHS = {
+    regular: [
+        278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+        1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+        333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+        556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+    ],
+    bold: [
+        278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+        556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+        975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+        667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+        333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+        611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+    ]
+};
+
+// Typographic characters WinAnsi places in 128-159, with their codes and regular/bold widths
+const WIN_ANSI_EXTRAS = {
+    '€': [128, 556, 556],
+    '…': [133, 1000, 1000],
+    '‘': [145, 222, 278],
+    '’': [146, 222, 278],
+    '“': [147, 333, 500],
+    '”': [148, 333, 500],
+    '•': [149, 350, 350],
+    '–': [150, 556, 556],
+    '—': [151, 1000, 1000]
+};
+
+// Latin-1 letters whose widths are not those of their unaccented letter
+const LATIN1_WIDTHS = {
+    'Æ': [1000, 1000],
+    'æ': [889, 889],
+    'Ø': [778, 778],
+    'ø': [611, 611],
+    'ß': [611, 611],
+    '\u00a0': [278, 278]
+};
+
+/**
+ * Width of one character in thousandths of the font size
+ *
+ * @param {String} char - Character
+ * @param {String} style - regular, bold or italic
+ * @returns {Number} Advance width
+ */
+const charWidth = (char, style) => {
+    const column = style === 'bold' ? 1 : 0;
+    const table = style === 'bold' ? ASCII_WIDTHS.bold : ASCII_WIDTHS.regular;
+    const code = char.charCodeAt(0);
+
+    if (code >= 32 && code <= 126) return table[code - 32];
+    if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char][column + 1];
+    if (LATIN1_WIDTHS[char]) return LATIN1_WIDTHS[char][column];
+
+    // Accented letters are as wide as the letter they are built on
+    const base = char.normalize('NFD')[0];
+    if (base !== char && base.charCodeAt(0) >= 32 && base.charCodeAt(0) <= 126) {
+        return table[base.charCodeAt(0) - 32];
+    }
+
+    return 556;
+};
+
+/**
+ * Encode text as a PDF literal string in WinAnsi
+ *
+ * @param {String} text - Text to encode
+ * @returns {String} Literal string including the parentheses
+ */
+const encodeText = (text) => {
+    let result = '';
+
+    for (const char of text) {
+        const code = char.charCodeAt(0);
+        let byte;
+
+        if (char.length === 1 && ((code >= 32 && code <= 126) || (code >= 160 && code <= 255))) {
+            byte = code;
+        } else if (WIN_ANSI_EXTRAS[char]) {
+            byte = WIN_ANSI_EXTRAS[char][0];
+        } else {
+            byte = 63; // ?
+        }
+
+        if (byte === 40 || byte === 41 || byte === 92) {
+            result += `\\${String.fromCharCode(byte)}`;
+        } else if (byte > 126) {
+            result += `\\${byte.toString(8).padStart(3, '0')}`;
+        } else {
+            result += String.fromCharCode(byte);
+        }
+    }
+
+    return `(${result})`;
+};
+
+/**
+ * Encode a document information value as a UTF-16BE hex string, so any character survives
+ *
+ * @param {String} text - Text to encode
+ * @returns {String} Hex string including the angle brackets
+ */
+const encodeInfoText = (text) => {
+    const utf16 = Buffer.from(`\ufeff${text}`, 'utf16le');
+    utf16.swap16();
+    return `<${utf16.toString('hex').toUpperCase()}>`;
+};
+
+/**
+ * Format a number for a content stream, without needless decimals
+ *
+ * @param {Number} value - Number
+ * @returns {String} Formatted number
+ */
+const num = (value) => String(Math.round(value * 100) / 100);
+
+/**
+ * Convert a #rrggbb color to PDF RGB components
+ *
+ * @param {String} hex - Color, e.g. #1f2937
+ * @returns {String} Components, e.g. "0.12 0.16 0.22"
+ */
+const rgb = (hex) => [1, 3, 5].map(offset => num(parseInt(hex.slice(offset, offset + 2), 16) / 255)).join(' ');
+
+/**
+ * Read the size and color model of a JPEG from its start-of-frame segment
+ *
+ * @param {Buffer} buffer - JPEG file
+ * @returns {Object|null} Image for the PDF, or null when the file cannot be read
+ */
+const readJpeg = (buffer) => {
+    let offset = 2;
+
+    while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) return null;
+        const marker = buffer[offset + 1];
+        const length = buffer.readUInt16BE(offset + 2);
+
+        // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+            const components = buffer[offset + 9];
+            const colorSpace = { 1: 'DeviceGray', 3: 'DeviceRGB', 4: 'DeviceCMYK' }[components];
+            if (!colorSpace) return null;
+
+            return {
+                width: buffer.readUInt16BE(offset + 7),
+                height: buffer.readUInt16BE(offset + 5),
+                colorSpace,
+                filter: 'DCTDecode',
+                // CMYK JPEGs from Adobe software store inverted values
+                decode: components === 4 ? '[1 0 1 0 1 0 1 0]' : null,
+                data: buffer
+            };
+        }
+
+        offset += 2 + length;
+    }
+
+    return null;
+};
+
+/**
+ * Undo the per-row filters of decompressed PNG data
+ *
+ * @param {Buffer} data - Inflated IDAT data
+ * @param {Number} width - Image width in pixels
+ * @param {Number} height - Image height in pixels
+ * @param {Number} bytesPerPixel - Bytes per pixel
+ * @returns {Buffer} Raw pixel rows
+ */
+const unfilterPng = (data, width, height, bytesPerPixel) => {
+    const stride = width * bytesPerPixel;
+    const pixels = Buffer.alloc(stride * height);
+
+    for (let row = 0; row < height; row++) {
+        const filter = data[row * (stride + 1)];
+        const source = row * (stride + 1) + 1;
+        const target = row * stride;
+
+        for (let i = 0; i < stride; i++) {
+            const left = i >= bytesPerPixel ? pixels[target + i - bytesPerPixel] : 0;
+            const up = row > 0 ? pixels[target - stride + i] : 0;
+            const upLeft = row > 0 && i >= bytesPerPixel ? pixels[target - stride + i - bytesPerPixel] : 0;
+            let predictor = 0;
+
+            if (filter === 1) predictor = left;
+            else if (filter === 2) predictor = up;
+            else if (filter === 3) predictor = Math.floor((left + up) / 2);
+            else if (filter === 4) {
+                const estimate = left + up - upLeft;
+                const distances = [Math.abs(estimate - left), Math.abs(estimate - up), Math.abs(estimate - upLeft)];
+                predictor = distances[0] <= distances[1] && distances[0] <= distances[2]
+                    ? left
+                    : distances[1] <= distances[2] ? up : upLeft;
+            }
+
+            pixels[target + i] = (data[source + i] + predictor) & 0xff;
+        }
+    }
+
+    return pixels;
+};
+
+/**
+ * Decode an 8-bit, non-interlaced PNG into gray or RGB pixels, flattening transparency onto white
+ *
+ * @param {Buffer} buffer - PNG file
+ * @param {Number} maxPixels - Largest image to decode
+ * @returns {Object|null} Image for the PDF, or null when the file cannot be read
+ */
+const readPng = (buffer, maxPixels) => {
+    let offset = 8;
+    let header = null;
+    let palette = null;
+    const chunks = [];
+
+    while (offset + 8 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.toString('ascii', offset + 4, offset + 8);
+        const body = buffer.subarray(offset + 8, offset + 8 + length);
+
+        if (type === 'IHDR') {
+            header = {
+                width: body.readUInt32BE(0),
+                height: body.readUInt32BE(4),
+                bitDepth: body[8],
+                colorType: body[9],
+                interlace: body[12]
+            };
+        } else if (type === 'PLTE') {
+            palette = body;
+        } else if (type === 'IDAT') {
+            chunks.push(body);
+        } else if (type === 'IEND') {
+            break;
+        }
+
+        offset += 12 + length;
+    }
+
+    const bytesPerPixel = header ? { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[header.colorType] : null;
+    if (!header || !bytesPerPixel || header.bitDepth !== 8 || header.interlace !== 0 ||
+        (header.colorType === 3 && !palette) || header.width * header.height > maxPixels) {
+        return null;
+    }
+
+    const { width, height, colorType } = header;
+    const pixels = unfilterPng(zlib.inflateSync(Buffer.concat(chunks)), width, height, bytesPerPixel);
+    const channels = colorType === 0 || colorType === 4 ? 1 : 3;
+    const output = Buffer.alloc(width * height * channels);
+
+    for (let i = 0; i < width * height; i++) {
+        const pixel = pixels.subarray(i * bytesPerPixel, (i + 1) * bytesPerPixel);
+        let color;
+        let alpha = 255;
+
+        if (colorType === 3) {
+            color = palette.subarray(pixel[0] * 3, pixel[0] * 3 + 3);
+        } else if (colorType === 4 || colorType === 6) {
+            color = pixel.subarray(0, channels);
+            alpha = pixel[channels];
+        } else {
+            color = pixel;
+        }
+
+        for (let c = 0; c < channels; c++) {
+            output[i * channels + c] = Math.round((color[c] * alpha + 255 * (255 - alpha)) / 255);
+        }
+    }
+
+    return {
+        width,
+        height,
+        colorSpace: channels === 1 ? 'DeviceGray' : 'DeviceRGB',
+        filter: 'FlateDecode',
+        decode: null,
+        data: zlib.deflateSync(output)
+    };
+};
+
+/**
+ * PDF Document
+ * Builds a PDF page by page. The flow helpers (writeParagraph, ensureSpace, moveDown) keep a cursor
+ * that starts each page at the top margin and moves to a new page when the content does not fit.
+ */
+class PdfDocument {
+    /**
+     * Constructor
+     *
+     * @param {Object} [options] - Document options
+     * @param {Number} [options.width] - Page width in points (US Letter by default)
+     * @param {Number} [options.height] - Page height in points
+     * @param {Number} [options.margin] - Page margin in points
+     * @param {Object} [options.info] - Document information ({ title, author, subject })
+     * @param {Function} [options.onPageAdded] - Called with the document after each new page, e.g. to draw a footer
+     */
+    constructor({ width = 612, height = 792, margin = 54, info = {}, onPageAdded = null } = {}) {
+        this.width = width;
+        this.height = height;
+        this.margin = margin;
+        this.info = info;
+        this.onPageAdded = onPageAdded;
+        this.pages = [];
+        this.images = [];
+        this.y = margin;
+    }
+
+    /**
+     * Read an image file for drawing
+     *
+     * @param {Buffer} buffer - JPEG or PNG file contents
+     * @param {Object} [options] - Options
+     * @param {Number} [options.maxPixels] - Largest PNG to decode
+     * @returns {Object|null} Image, or null for unsupported formats
+     */
+    static readImage(buffer, { maxPixels = 6000000 } = {}) {
+        if (!buffer || buffer.length < 12) return null;
+
+        if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+            return readJpeg(buffer);
+        }
+
+        if (buffer.toString('hex', 0, 8) === '89504e470d0a1a0a') {
+            return readPng(buffer, maxPixels);
+        }
+
+        return null;
+    }
+
+    /**
+     * Width of a line of text
+     *
+     * @param {String} text - Text
+     * @param {String} [style] - regular, bold or italic
+     * @param {Number} [size] - Font size in points
+     * @returns {Number} Width in points
+     */
+    widthOf(text, style = 'regular', size = 11) {
+        let total = 0;
+        for (const char of text) {
+            total += charWidth(char, style);
+        }
+        return (total * size) / 1000;
+    }
+
+    /**
+     * Width available between the margins
+     *
+     * @returns {Number} Width in points
+     */
+    get contentWidth() {
+        return this.width - this.margin * 2;
+    }
+
+    /**
+     * Number of the current page, starting at 1
+     *
+     * @returns {Number} Page number
+     */
+    get pageNumber() {
+        return this.pages.length;
+    }
+
+    /**
+     * Start a new page and move the cursor to its top margin
+     *
+     * @returns {Number} Number of the new page
+     */
+    addPage() {
+        this.pages.push({ content: [] });
+        this.y = this.margin;
+
+        if (this.onPageAdded) {
+            this.onPageAdded(this);
+        }
+
+        return this.pageNumber;
+    }
+
+    /**
+     * Append operators to the current page's content stream
+     *
+     * @param {String} operators - Content stream operators
+     */
+    _write(operators) {
+        if (this.pages.length === 0) {
+            this.addPage();
+        }
+        this.pages[this.pages.length - 1].content.push(operators);
+    }
+
+    /**
+     * Draw text on one line
+     *
+     * @param {String} text - Text
+     * @param {Number} x - Left edge
+     * @param {Number} y - Baseline, from the top of the page
+     * @param {Object} [options] - Options ({ style, size, color, rise })
+     */
+    drawText(text, x, y, { style = 'regular', size = 11, color = '#111827', rise = 0 } = {}) {
+        const font = FONTS[style] || FONTS.regular;
+        this._write(
+            `BT ${rgb(color)} rg /${font.resource} ${num(size)} Tf ${num(rise)} Ts ` +
+            `1 0 0 1 ${num(x)} ${num(this.height - y)} Tm ${encodeText(text)} Tj ET`
+        );
+    }
+
+    /**
+     * Draw a straight line
+     *
+     * @param {Number} x1 - Start x
+     * @param {Number} y1 - Start y
+     * @param {Number} x2 - End x
+     * @param {Number} y2 - End y
+     * @param {Object} [options] - Options ({ width, color })
+     */
+    drawLine(x1, y1, x2, y2, { width = 0.75, color = '#9ca3af' } = {}) {
+        this._write(
+            `${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(this.height - y1)} m ` +
+            `${num(x2)} ${num(this.height - y2)} l S`
+        );
+    }
+
+    /**
+     * Draw a rectangle
+     *
+     * @param {Number} x - Left edge
+     * @param {Number} y - Top edge
+     * @param {Number} width - Width
+     * @param {Number} height - Height
+     * @param {Object} [options] - Options ({ stroke, fill, lineWidth }); colors or null
+     */
+    drawRect(x, y, width, height, { stroke = '#9ca3af', fill = null, lineWidth = 0.75 } = {}) {
+        const path = `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`;
+        let operator = 'S';
+
+        if (fill && stroke) operator = 'B';
+        else if (fill) operator = 'f';
+
+        this._write(
+            `${fill ? `${rgb(fill)} rg ` : ''}${stroke ? `${rgb(stroke)} RG ${num(lineWidth)} w ` : ''}${path} ${operator}`
+        );
+    }
+
+    /**
+     * Draw an image scaled to fit a box, keeping its proportions
+     *
+     * @param {Object} image - Image from readImage
+     * @param {Number} x - Left edge of the box
+     * @param {Number} y - Top edge of the box
+     * @param {Number} maxWidth - Box width
+     * @param {Number} maxHeight - Box height
+     * @returns {Object} Drawn size ({ width, height })
+     */
+    drawImage(image, x, y, maxWidth, maxHeight) {
+        let index = this.images.indexOf(image);
+        if (index === -1) {
+            this.images.push(image);
+            index = this.images.length - 1;
+        }
+
+        const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+        const width = image.width * scale;
+        const height = image.height * scale;
+
+        this._write(
+            `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /Im${index + 1} Do Q`
+        );
+
+        return { width, height };
+    }
+
+    /**
+     * Move the cursor down
+     *
+     * @param {Number} amount - Distance in points
+     */
+    moveDown(amount) {
+        this.y += amount;
+    }
+
+    /**
+     * Start a new page unless the given height still fits above the bottom margin
+     *
+     * @param {Number} height - Height needed in points
+     * @returns {Boolean} Whether a new page was started
+     */
+    ensureSpace(height) {
+        if (this.pages.length === 0 || this.y + height > this.height - this.margin) {
+            this.addPage();
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Break runs of text into lines that fit a width.
+     * Lines break at spaces and at "\n"; a word too long for a line is split between characters.
+     *
+     * @param {Array} runs - Text runs ({ text, style, size, rise, color })
+     * @param {Number} maxWidth - Line width in points
+     * @returns {Array} Lines, each an array of positioned runs with a width
+     */
+    layoutLines(runs, maxWidth) {
+        const lines = [];
+        let line = [];
+        let lineWidth = 0;
+        let pendingSpace = null;
+
+        const sameFormat = (a, b) => a.style === b.style && a.size === b.size && a.rise === b.rise && a.color === b.color;
+
+        const finishLine = () => {
+            // Draw neighbouring runs with the same format as one string
+            const merged = line.reduce((result, run) => {
+                const previous = result[result.length - 1];
+                if (previous && sameFormat(previous, run)) {
+                    previous.text += run.text;
+                } else {
+                    result.push({ ...run });
+                }
+                return result;
+            }, []);
+
+            lines.push({ runs: merged, width: lineWidth });
+            line = [];
+            lineWidth = 0;
+            pendingSpace = null;
+        };
+
+        // Words are the pieces between break opportunities; adjacent runs without a space stay together
+        const words = [];
+        let word = null;
+
+        runs.forEach(run => {
+            run.text.split(/(\n|[ \t]+)/).forEach(part => {
+                if (part === '') return;
+
+                if (part === '\n') {
+                    words.push({ lineBreak: true });
+                    word = null;
+                } else if (/^[ \t]+$/.test(part)) {
+                    words.push({ space: { ...run, text: ' ' } });
+                    word = null;
+                } else {
+                    if (!word) {
+                        word = { pieces: [] };
+                        words.push(word);
+                    }
+                    word.pieces.push({ ...run, text: part });
+                }
+            });
+        });
+
+        const pieceWidth = (piece) => this.widthOf(piece.text, piece.style, piece.size);
+
+        words.forEach(entry => {
+            if (entry.lineBreak) {
+                finishLine();
+                return;
+            }
+
+            if (entry.space) {
+                if (line.length > 0) pendingSpace = entry.space;
+                return;
+            }
+
+            let pieces = entry.pieces;
+            let width = pieces.reduce((total, piece) => total + pieceWidth(piece), 0);
+            const spaceWidth = pendingSpace ? pieceWidth(pendingSpace) : 0;
+
+            if (line.length > 0 && lineWidth + spaceWidth + width > maxWidth) {
+                finishLine();
+            } else if (pendingSpace) {
+                line.push(pendingSpace);
+                lineWidth += spaceWidth;
+                pendingSpace = null;
+            }
+
+            // Split words wider than a whole line, such as long URLs
+            while (width > maxWidth && line.length === 0) {
+                const head = [];
+                let headWidth = 0;
+
+                for (const piece of pieces) {
+                    let text = '';
+                    for (const char of piece.text) {
+                        const next = this.widthOf(char, piece.style, piece.size);
+                        if (headWidth + next > maxWidth && (head.length > 0 || text)) break;
+                        text += char;
+                        headWidth += next;
+                    }
+                    if (text) head.push({ ...piece, text });
+                    if (text !== piece.text) break;
+                }
+
+                line.push(...head);
+                lineWidth = headWidth;
+                finishLine();
+
+                let consumed = head.reduce((total, piece) => total + piece.text.length, 0);
+                pieces = pieces.map(piece => {
+                    const take = Math.min(consumed, piece.text.length);
+                    consumed -= take;
+                    return { ...piece, text: piece.text.slice(take) };
+                }).filter(piece => piece.text);
+                width = pieces.reduce((total, piece) => total + pieceWidth(piece), 0);
+            }
+
+            line.push(...pieces);
+            lineWidth += width;
+        });
+
+        if (line.length > 0 || lines.length === 0) {
+            finishLine();
+        }
+
+        return lines;
+    }
+
+    /**
+     * Write wrapped text at the cursor, continuing on new pages as needed
+     *
+     * @param {Array|String} runs - Text runs ({ text, style, size, rise, color }) or plain text
+     * @param {Object} [options] - Options
+     * @param {Number} [options.size] - Default font size
+     * @param {String} [options.style] - Default style
+     * @param {String} [options.color] - Default color
+     * @param {Number} [options.indent] - Left indent of every line
+     * @param {Number} [options.hangingIndent] - Extra indent of every line after the first
+     * @param {Number} [options.lineHeight] - Line height as a multiple of the font size
+     * @param {String} [options.align] - left or center
+     * @param {Number} [options.spaceAfter] - Space below the paragraph
+     * @returns {Array} Page numbers the paragraph was written on
+     */
+    writeParagraph(runs, {
+        size = 11,
+        style = 'regular',
+        color = '#111827',
+        indent = 0,
+        hangingIndent = 0,
+        lineHeight = 1.4,
+        align = 'left',
+        spaceAfter = 6
+    } = {}) {
+        const normalized = (typeof runs === 'string' ? [{ text: runs }] : runs).map(run => ({
+            style,
+            size,
+            color,
+            rise: 0,
+            ...run
+        }));
+
+        const leading = size * lineHeight;
+        const firstWidth = this.contentWidth - indent;
+        const lines = this.layoutLines(normalized, firstWidth - hangingIndent);
+        const pages = new Set();
+
+        lines.forEach((line, index) => {
+            this.ensureSpace(leading);
+            pages.add(this.pageNumber);
+
+            const lineIndent = indent + (index > 0 ? hangingIndent : 0);
+            let x = this.margin + lineIndent;
+            if (align === 'center') {
+                x = this.margin + (this.contentWidth - line.width) / 2;
+            }
+
+            const baseline = this.y + size;
+            line.runs.forEach(run => {
+                this.drawText(run.text, x, baseline, run);
+                x += this.widthOf(run.text, run.style, run.size);
+            });
+
+            this.y += leading;
+        });
+
+        this.y += spaceAfter;
+        return Array.from(pages);
+    }
+
+    /**
+     * Serialize the document
+     *
+     * @returns {Buffer} PDF file contents
+     */
+    toBuffer() {
+        if (this.pages.length === 0) {
+            this.addPage();
+        }
+
+        const objects = [];
+        const addObject = (body) => {
+            objects.push(body);
+            return objects.length;
+        };
+
+        const catalogId = addObject(null);
+        const pagesId = addObject(null);
+
+        const fontIds = Object.values(FONTS).map(font => addObject(
+            `<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`
+        ));
+
+        const imageIds = this.images.map(image => addObject({
+            dictionary: `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+                `/ColorSpace /${image.colorSpace} /BitsPerComponent 8 /Filter /${image.filter}` +
+                `${image.decode ? ` /Decode ${image.decode}` : ''}`,
+            stream: image.data
+        }));
+
+        const fontResources = Object.values(FONTS).map((font, index) => `/${font.resource} ${fontIds[index]} 0 R`).join(' ');
+        const imageResources = imageIds.map((id, index) => `/Im${index + 1} ${id} 0 R`).join(' ');
+        const resourcesId = addObject(
+            `<< /Font << ${fontResources} >>${imageIds.length > 0 ? ` /XObject << ${imageResources} >>` : ''} >>`
+        );
+
+        const pageIds = this.pages.map(page => {
+            const contentId = addObject({
+                dictionary: '<< /Filter /FlateDecode',
+                stream: zlib.deflateSync(Buffer.from(page.content.join('\n'), 'latin1'))
+            });
+            return addObject(
+                `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+                `/Resources ${resourcesId} 0 R /Contents ${contentId} 0 R >>`
+            );
+        });
+
+        objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+        objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+        const created = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+        const infoEntries = [
+            ['Title', this.info.title],
+            ['Author', this.info.author],
+            ['Subject', this.info.subject]
+        ].filter(([, value]) => value).map(([key, value]) => `/${key} ${encodeInfoText(value)}`);
+        const infoId = addObject(`<< ${infoEntries.join(' ')} /Producer (Ancestry Research) /CreationDate (D:${created}Z) >>`);
+
+        // Offsets are byte positions, so the file is assembled from buffers
+        const chunks = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+        let length = chunks[0].length;
+        const offsets = [];
+
+        objects.forEach((body, index) => {
+            offsets.push(length);
+            const parts = typeof body === 'string'
+                ? [Buffer.from(`${index + 1} 0 obj\n${body}\nendobj\n`, 'latin1')]
+                : [
+                    Buffer.from(`${index + 1} 0 obj\n${body.dictionary} /Length ${body.stream.length} >>\nstream\n`, 'latin1'),
+                    body.stream,
+                    Buffer.from('\nendstream\nendobj\n', 'latin1')
+                ];
+            parts.forEach(part => {
+                chunks.push(part);
+                length += part.length;
+            });
+        });
+
+        const xref = [
+            'xref',
+            `0 ${objects.length + 1}`,
+            '0000000000 65535 f ',
+            ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+            'trailer',
+            `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+            'startxref',
+            String(length),
+            '%%EOF',
+            ''
+        ].join('\n');
+        chunks.push(Buffer.from(xref, 'latin1'));
+
+        return Buffer.concat(chunks);
+    }
+}
+
+module.exports = PdfDocument;
@@ -0,0 +1,68 @@
+/**
+ * Pedigree numbering
+ * Assigns the numbers used to list a person's ancestors or descendants without drawing a tree:
+ * - Ahnentafel: the subject is 1, the father of n is 2n and the mother of n is 2n+1
+ * - d'Aboville: the progenitor is 1 and the children of n are n.1, n.2, ... in birth order
+ */
+
+/**
+ * Number the ancestors of a subject in Ahnentafel order.
+ * An ancestor reached along several lines (pedigree collapse) is listed under each of their numbers.
+ *
+ * @param {String} rootId - Subject's person ID
+ * @param {Function} getFatherAndMother - Returns [fatherId, motherId] of a person, either one may be null
+ * @param {Number} generations - Number of generations above the subject to include
+ * @returns {Array} { personId, number, generation } by number, the subject being generation 0
+ */
+const numberAncestors = (rootId, getFatherAndMother, generations) => {
+    const numbered = [];
+
+    const place = (personId, number, generation, path) => {
+        if (!personId || path.includes(personId)) return;
+
+        numbered.push({ personId, number, generation });
+        if (generation >= generations) return;
+
+        const [fatherId, motherId] = getFatherAndMother(personId);
+        place(fatherId, number * 2, generation + 1, [...path, personId]);
+        place(motherId, number * 2 + 1, generation + 1, [...path, personId]);
+    };
+
+    place(rootId, 1, 0, []);
+
+    return numbered.sort((a, b) => a.number - b.number);
+};
+
+/**
+ * Number the descendants of a progenitor with d'Aboville numbers, each family after its parent
+ *
+ * @param {String} rootId - Progenitor's person ID
+ * @param {Function} getChildren - Returns the child IDs of a person, in birth order
+ * @param {Number} generations - Number of generations below the progenitor to include
+ * @returns {Array} { personId, number, generation } in outline order, the progenitor being generation 0
+ */
+const numberDescendants = (rootId, getChildren, generations) => {
+    const numbered = [];
+    // A descendant reached twice (cousin marriages) keeps the number of their first appearance
+    const seen = new Set();
+
+    const place = (personId, number, generation) => {
+        numbered.push({ personId, number, generation });
+        seen.add(personId);
+        if (generation >= generations) return;
+
+        // Children keep their place in the birth order even when one of them was listed already
+        getChildren(personId).forEach((childId, index) => {
+            if (!seen.has(childId)) place(childId, `${number}.${index + 1}`, generation + 1);
+        });
+    };
+
+    place(rootId, '1', 0);
+
+    return numbered;
+};
+
+module.exports = {
+    numberAncestors,
+    numberDescendants
+};
@@ -0,0 +1,190 @@
+const { getRecordDateBounds } = require('./genealogicalDate');
+const { normalizeName, soundex } = require('./phonetics');
+
+/**
+ * Person matching utilities
+ * Scores how likely two person records describe the same individual. The score (0-100) adds up
+ * evidence from names (compared by spelling and by sound), birth and death dates, places and
+ * relatives the two records share; conflicting dates take points away.
+ */
+
+const MS_PER_YEAR = 1000 * 60 * 60 * 24 * 365.25;
+
+// Points for each kind of evidence
+const WEIGHTS = {
+    surname: 20,
+    surnameSound: 15,
+    givenName: 20,
+    givenNameSound: 14,
+    givenInitial: 6,
+    birthDate: 15,
+    deathDate: 10,
+    nearDate: 6,
+    conflictingDate: -25,
+    place: 5,
+    sharedRelative: 10,
+    similarRelative: 5,
+    relatives: 20
+};
+
+/**
+ * Surnames a person is known by: the current one and the maiden name
+ *
+ * @param {Object} person - Person
+ * @returns {Array} Normalized surnames
+ */
+const surnamesOf = (person) => [person.last_name, person.maiden_name]
+    .map(normalizeName)
+    .filter((name, index, names) => name && names.indexOf(name) === index);
+
+/**
+ * Soundex codes a person can be found under, for grouping likely duplicates
+ *
+ * @param {Object} person - Person
+ * @returns {Array} Soundex codes of the person's surnames
+ */
+const surnameKeys = (person) => surnamesOf(person).map(soundex).filter(Boolean);
+
+/**
+ * Years between two date ranges, 0 when they overlap
+ *
+ * @param {Object} first - Bounds from getDateBounds
+ * @param {Object} second - Bounds from getDateBounds
+ * @returns {Number} Gap in years
+ */
+const yearsApart = (first, second) => {
+    const gaps = [0];
+    if (first.earliest && second.latest) gaps.push((first.earliest - second.latest) / MS_PER_YEAR);
+    if (second.earliest && first.latest) gaps.push((second.earliest - first.latest) / MS_PER_YEAR);
+    return Math.max(...gaps);
+};
+
+/**
+ * Share of the words two places have in common, e.g. "Boston, Suffolk, MA" and "Boston, Massachusetts"
+ *
+ * @param {String} first - Place
+ * @param {String} second - Place
+ * @returns {Number} Similarity between 0 and 1
+ */
+const placeSimilarity = (first, second) => {
+    const words = (place) => new Set(normalizeName((place || '').replace(/,/g, ' ')).split(' ').filter(word => word.length > 1));
+    const a = words(first);
+    const b = words(second);
+    if (a.size === 0 || b.size === 0) return 0;
+
+    const shared = [...a].filter(word => b.has(word)).length;
+    return shared / Math.min(a.size, b.size);
+};
+
+/**
+ * Name key of a relative for comparing relatives of different records
+ *
+ * @param {Object} person - Relative
+ * @returns {String} Soundex codes of the given name and surname
+ */
+const relativeKey = (person) => `${soundex(person.first_name)}:${soundex(person.last_name)}`;
+
+/**
+ * Score how likely two person records are the same individual
+ *
+ * @param {Object} first - Person
+ * @param {Object} second - Person
+ * @param {Object} [relatives] - Relatives of each record ({ [personId]: [{ person_id, first_name, last_name }] })
+ * @returns {Object|null} { score, reasons }, or null when the records cannot be the same person
+ */
+const scorePersonMatch = (first, second, relatives = {}) => {
+    if (first.gender && second.gender && first.gender !== second.gender &&
+        first.gender !== 'unknown' && second.gender !== 'unknown') {
+        return null;
+    }
+
+    let score = 0;
+    const reasons = [];
+
+    // Surnames, allowing a maiden name to match the other record's surname
+    const firstSurnames = surnamesOf(first);
+    const secondSurnames = surnamesOf(second);
+    if (firstSurnames.some(name => secondSurnames.includes(name))) {
+        score += WEIGHTS.surname;
+        reasons.push('Same surname');
+    } else if (firstSurnames.some(name => secondSurnames.map(soundex).includes(soundex(name)))) {
+        score += WEIGHTS.surnameSound;
+        reasons.push('Surnames sound alike');
+    } else {
+        return null;
+    }
+
+    const firstGiven = normalizeName(first.first_name);
+    const secondGiven = normalizeName(second.first_name);
+    if (firstGiven && firstGiven === secondGiven) {
+        score += WEIGHTS.givenName;
+        reasons.push('Same given name');
+    } else if (firstGiven && secondGiven && soundex(firstGiven) === soundex(secondGiven)) {
+        score += WEIGHTS.givenNameSound;
+        reasons.push('Given names sound alike');
+    } else if (firstGiven && secondGiven && (firstGiven.startsWith(secondGiven) || secondGiven.startsWith(firstGiven))) {
+        score += WEIGHTS.givenInitial;
+        reasons.push('Given name is an abbreviation of the other');
+    }
+
+    // Dates: matching ranges add points, ranges years apart take them away
+    [['birth', WEIGHTS.birthDate], ['death', WEIGHTS.deathDate]].forEach(([type, weight]) => {
+        const firstBounds = getRecordDateBounds(first, `${type}_date`);
+        const secondBounds = getRecordDateBounds(second, `${type}_date`);
+        if (!firstBounds || !secondBounds) return;
+
+        const gap = yearsApart(firstBounds, secondBounds);
+        if (gap === 0) {
+            score += weight;
+            reasons.push(`${type === 'birth' ? 'Birth' : 'Death'} dates agree`);
+        } else if (gap <= 2) {
+            score += WEIGHTS.nearDate;
+            reasons.push(`${type === 'birth' ? 'Birth' : 'Death'} dates within ${Math.ceil(gap)} year${Math.ceil(gap) === 1 ? '' : 's'}`);
+        } else if (gap > 5) {
+            score += WEIGHTS.conflictingDate;
+            reasons.push(`${type === 'birth' ? 'Birth' : 'Death'} dates ${Math.round(gap)} years apart`);
+        }
+    });
+
+    ['birth', 'death'].forEach(type => {
+        if (placeSimilarity(first[`${type}_location`], second[`${type}_location`]) >= 0.5) {
+            score += WEIGHTS.place;
+            reasons.push(`Same ${type} place`);
+        }
+    });
+
+    // Relatives: the same record linked to both, or relatives with the same names
+    const firstRelatives = relatives[first.person_id] || [];
+    const secondRelatives = relatives[second.person_id] || [];
+    const secondRelativeIds = new Set(secondRelatives.map(relative => relative.person_id));
+    const secondRelativeKeys = new Set(secondRelatives.map(relativeKey));
+
+    let relativePoints = 0;
+    const shared = firstRelatives.filter(relative => secondRelativeIds.has(relative.person_id) &&
+        relative.person_id !== first.person_id && relative.person_id !== second.person_id);
+    const similar = firstRelatives.filter(relative => !secondRelativeIds.has(relative.person_id) &&
+        secondRelativeKeys.has(relativeKey(relative)));
+
+    if (shared.length > 0) {
+        relativePoints += shared.length * WEIGHTS.sharedRelative;
+        reasons.push(`Shares ${shared.length === 1 ? 'a relative' : `${shared.length} relatives`}: ${shared.map(relative => `${relative.first_name} ${relative.last_name}`).join(', ')}`);
+    }
+    if (similar.length > 0) {
+        relativePoints += similar.length * WEIGHTS.similarRelative;
+        reasons.push(`Relatives with matching names: ${similar.map(relative => `${relative.first_name} ${relative.last_name}`).join(', ')}`);
+    }
+    score += Math.min(relativePoints, WEIGHTS.relatives);
+
+    return {
+        score: Math.max(0, Math.min(100, Math.round(score))),
+        reasons
+    };
+};
+
+module.exports = {
+    normalizeName,
+    soundex,
+    surnameKeys,
+    placeSimilarity,
+    scorePersonMatch
+};
@@ -0,0 +1,282 @@
+/**
+ * Phonetic name codes
+ * Names that sound alike get the same code, so "Johann Schmidt", "John Smith" and "J. Smyth" can be
+ * found with one search. Soundex suits English surnames, Daitch-Mokotoff Central and Eastern European
+ * (notably Germanic, Slavic and Yiddish) ones, and Metaphone English pronunciation more closely.
+ */
+
+const SOUNDEX_CODES = {
+    b: '1', f: '1', p: '1', v: '1',
+    c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+    d: '3', t: '3',
+    l: '4',
+    m: '5', n: '5',
+    r: '6'
+};
+
+// Daitch-Mokotoff rules: letters, then the code at the start of a name, before a vowel and
+// anywhere else ('' for not coded). Letters with two readings, like C as in "Kohn" or "Cech",
+// list both and the name gets a code for each.
+const DM_RULES = [
+    ['schtsch', '2', '4', '4'], ['schtsh', '2', '4', '4'], ['schtch', '2', '4', '4'],
+    ['shtch', '2', '4', '4'], ['shtsh', '2', '4', '4'], ['stsch', '2', '4', '4'],
+    ['ttsch', '4', '4', '4'], ['zhdzh', '2', '4', '4'],
+    ['shch', '2', '4', '4'], ['scht', '2', '43', '43'], ['schd', '2', '43', '43'],
+    ['stch', '2', '4', '4'], ['strz', '2', '4', '4'], ['strs', '2', '4', '4'], ['stsh', '2', '4', '4'],
+    ['szcz', '2', '4', '4'], ['szcs', '2', '4', '4'], ['ttch', '4', '4', '4'], ['tsch', '4', '4', '4'],
+    ['ttsz', '4', '4', '4'], ['zdzh', '2', '4', '4'], ['zsch', '4', '4', '4'],
+    ['chs', '5', '54', '54'], ['csz', '4', '4', '4'], ['czs', '4', '4', '4'], ['drz', '4', '4', '4'],
+    ['drs', '4', '4', '4'], ['dsh', '4', '4', '4'], ['dsz', '4', '4', '4'], ['dzh', '4', '4', '4'],
+    ['dzs', '4', '4', '4'], ['sch', '4', '4', '4'], ['sht', '2', '43', '43'], ['szt', '2', '43', '43'],
+    ['shd', '2', '43', '43'], ['szd', '2', '43', '43'], ['tch', '4', '4', '4'], ['trz', '4', '4', '4'],
+    ['trs', '4', '4', '4'], ['tsh', '4', '4', '4'], ['tts', '4', '4', '4'], ['ttz', '4', '4', '4'],
+    ['tzs', '4', '4', '4'], ['tsz', '4', '4', '4'], ['zdz', '2', '4', '4'], ['zhd', '2', '43', '43'],
+    ['zsh', '4', '4', '4'],
+    ['ai', '0', '1', ''], ['aj', '0', '1', ''], ['ay', '0', '1', ''], ['au', '0', '7', ''],
+    ['ch', ['5', '4'], ['5', '4'], ['5', '4']], ['ck', ['5', '45'], ['5', '45'], ['5', '45']],
+    ['cz', '4', '4', '4'], ['cs', '4', '4', '4'], ['ds', '4', '4', '4'], ['dz', '4', '4', '4'],
+    ['dt', '3', '3', '3'], ['ei', '0', '1', ''], ['ej', '0', '1', ''], ['ey', '0', '1', ''],
+    ['eu', '1', '1', ''], ['fb', '7', '7', '7'], ['ia', '1', '', ''], ['ie', '1', '', ''],
+    ['io', '1', '', ''], ['iu', '1', '', ''], ['ks', '5', '54', '54'], ['kh', '5', '5', '5'],
+    ['mn', '66', '66', '66'], ['nm', '66', '66', '66'], ['oi', '0', '1', ''], ['oj', '0', '1', ''],
+    ['oy', '0', '1', ''], ['pf', '7', '7', '7'], ['ph', '7', '7', '7'],
+    ['rz', ['94', '4'], ['94', '4'], ['94', '4']], ['rs', ['94', '4'], ['94', '4'], ['94', '4']],
+    ['sh', '4', '4', '4'], ['sc', '2', '4', '4'], ['st', '2', '43', '43'], ['sz', '4', '4', '4'],
+    ['sd', '2', '43', '43'], ['th', '3', '3', '3'], ['ts', '4', '4', '4'], ['tc', '4', '4', '4'],
+    ['tz', '4', '4', '4'], ['ui', '0', '1', ''], ['uj', '0', '1', ''], ['uy', '0', '1', ''],
+    ['ue', '0', '', ''], ['zd', '2', '43', '43'], ['zh', '4', '4', '4'], ['zs', '4', '4', '4'],
+    ['a', '0', '', ''], ['b', '7', '7', '7'], ['c', ['5', '4'], ['5', '4'], ['5', '4']],
+    ['d', '3', '3', '3'], ['e', '0', '', ''], ['f', '7', '7', '7'], ['g', '5', '5', '5'],
+    ['h', '5', '5', ''], ['i', '0', '', ''], ['j', ['1', '4'], ['1', '4'], ['1', '4']],
+    ['k', '5', '5', '5'], ['l', '8', '8', '8'], ['m', '6', '6', '6'], ['n', '6', '6', '6'],
+    ['o', '0', '', ''], ['p', '7', '7', '7'], ['q', '5', '5', '5'], ['r', '9', '9', '9'],
+    ['s', '4', '4', '4'], ['t', '3', '3', '3'], ['u', '0', '', ''], ['v', '7', '7', '7'],
+    ['w', '7', '7', '7'], ['x', '5', '54', '54'], ['y', '1', '', ''], ['z', '4', '4', '4']
+].sort((a, b) => b[0].length - a[0].length);
+
+const DM_CODE_LENGTH = 6;
+
+const VOWELS = 'aeiou';
+
+// Prefixes telling the codes of each algorithm apart when they are stored together
+const CODE_PREFIXES = {
+    soundex: 'S:',
+    daitchMokotoff: 'D:',
+    metaphone: 'M:'
+};
+
+// Whether a letter, possibly past the end of a word (undefined or ''), is one of some letters
+const isOneOf = (letter, letters) => Boolean(letter) && letters.includes(letter);
+
+/**
+ * Lowercase a name and strip accents and punctuation
+ *
+ * @param {String} name - Name
+ * @returns {String} Normalized name
+ */
+const normalizeName = (name) => (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * American Soundex code of a name, e.g. "R163" for Robert and Rupert
+ *
+ * @param {String} name - Name
+ * @returns {String|null} Four-character code, or null for names without letters
+ */
+const soundex = (name) => {
+    const letters = normalizeName(name).replace(/\s/g, '');
+    if (!letters) return null;
+
+    let code = letters[0].toUpperCase();
+    let previous = SOUNDEX_CODES[letters[0]] || '';
+
+    for (const letter of letters.slice(1)) {
+        const digit = SOUNDEX_CODES[letter] || '';
+
+        if (digit && digit !== previous) {
+            code += digit;
+            if (code.length === 4) break;
+        }
+
+        // H and W do not separate letters with the same code; vowels do
+        if (letter !== 'h' && letter !== 'w') {
+            previous = digit;
+        }
+    }
+
+    return code.padEnd(4, '0');
+};
+
+/**
+ * Daitch-Mokotoff Soundex codes of a name, e.g. ["463000"] for Schmidt, Smith and Smyth
+ *
+ * @param {String} name - Name
+ * @returns {Array} Six-digit codes, one per reading of the name; empty for names without letters
+ */
+const daitchMokotoff = (name) => {
+    const letters = normalizeName(name).replace(/\s/g, '');
+    if (!letters) return [];
+
+    // Each reading of the name so far, with the last code it added
+    let branches = [{ code: '', last: null }];
+    let position = 0;
+
+    while (position < letters.length) {
+        const rule = DM_RULES.find(([pattern]) => letters.startsWith(pattern, position));
+        const next = letters[position + rule[0].length];
+
+        let codes;
+        if (position === 0) codes = rule[1];
+        else if (isOneOf(next, VOWELS)) codes = rule[2];
+        else codes = rule[3];
+
+        const readings = Array.isArray(codes) ? codes : [codes];
+        branches = branches.flatMap(branch => readings.map(code => ({
+            // A code is not repeated for adjacent letters that sound the same
+            code: branch.last !== null && branch.last.endsWith(code) ? branch.code : branch.code + code,
+            last: code
+        })));
+
+        position += rule[0].length;
+    }
+
+    const codes = branches.map(branch => branch.code.padEnd(DM_CODE_LENGTH, '0').slice(0, DM_CODE_LENGTH));
+    return [...new Set(codes)];
+};
+
+/**
+ * Metaphone code of a name, e.g. "SM0" for Smith and Smyth ("0" stands for "th")
+ *
+ * @param {String} name - Name
+ * @returns {String|null} Code, or null for names without letters
+ */
+const metaphone = (name) => {
+    let word = normalizeName(name).replace(/\s/g, '');
+    if (!word) return null;
+
+    // Silent or softened first letters
+    if (/^(kn|gn|pn|wr|ae)/.test(word)) word = word.slice(1);
+    if (word[0] === 'x') word = `s${word.slice(1)}`;
+    if (word.startsWith('wh')) word = `w${word.slice(2)}`;
+
+    const at = (index) => word[index] || '';
+    const isVowel = (letter) => isOneOf(letter, VOWELS);
+    let code = '';
+
+    for (let i = 0; i < word.length; i++) {
+        const letter = word[i];
+        const previous = at(i - 1);
+        const next = at(i + 1);
+
+        // Doubled letters sound once, except C as in "Mccall"
+        if (letter === previous && letter !== 'c') continue;
+
+        switch (letter) {
+            case 'a': case 'e': case 'i': case 'o': case 'u':
+                if (i === 0) code += letter.toUpperCase();
+                break;
+            case 'b':
+                if (!(previous === 'm' && i === word.length - 1)) code += 'B';
+                break;
+            case 'c':
+                if (next === 'i' && at(i + 2) === 'a') code += 'X';
+                else if (next === 'h') code += previous === 's' ? 'K' : 'X';
+                else if (isOneOf(next, 'iey')) code += previous === 's' ? '' : 'S';
+                else code += 'K';
+                break;
+            case 'd':
+                code += next === 'g' && isOneOf(at(i + 2), 'iey') ? 'J' : 'T';
+                break;
+            case 'g':
+                if (next === 'h' && i + 2 < word.length && !isVowel(at(i + 2))) break;
+                if (next === 'n' && (i + 2 === word.length || word.slice(i + 1) === 'ned')) break;
+                code += isOneOf(next, 'iey') && previous !== 'g' ? 'J' : 'K';
+                break;
+            case 'h':
+                if (isOneOf(previous, 'csptg')) break;
+                if (isVowel(previous) && !isVowel(next)) break;
+                code += 'H';
+                break;
+            case 'k':
+                if (previous !== 'c') code += 'K';
+                break;
+            case 'p':
+                code += next === 'h' ? 'F' : 'P';
+                break;
+            case 'q':
+                code += 'K';
+                break;
+            case 's':
+                if (next === 'h' || (next === 'i' && isOneOf(at(i + 2), 'oa'))) code += 'X';
+                else code += 'S';
+                break;
+            case 't':
+                if (next === 'i' && isOneOf(at(i + 2), 'oa')) code += 'X';
+                else if (next === 'h') code += '0';
+                else if (!(next === 'c' && at(i + 2) === 'h')) code += 'T';
+                break;
+            case 'v':
+                code += 'F';
+                break;
+            case 'w':
+            case 'y':
+                if (isVowel(next)) code += letter.toUpperCase();
+                break;
+            case 'x':
+                code += 'KS';
+                break;
+            case 'z':
+                code += 'S';
+                break;
+            default:
+                code += letter.toUpperCase();
+        }
+    }
+
+    return code || null;
+};
+
+/**
+ * Words of a name worth coding: initials are left out, since a single letter sounds like too many names
+ *
+ * @param {String} name - Name, possibly several words ("Mary Ann", "Smith-Jones")
+ * @returns {Array} Normalized words
+ */
+const nameWords = (name) => normalizeName((name || '').replace(/[-_.,]/g, ' '))
+    .split(' ')
+    .filter(word => word.length > 1);
+
+/**
+ * Phonetic codes of every word of some names, from all three algorithms
+ *
+ * @param {...String} names - Names
+ * @returns {Array} Unique codes, prefixed with the algorithm (e.g. "S:S530", "D:463000", "M:SM0")
+ */
+const phoneticCodes = (...names) => {
+    const codes = new Set();
+
+    names.flatMap(nameWords).forEach(word => {
+        const soundexCode = soundex(word);
+        const metaphoneCode = metaphone(word);
+
+        if (soundexCode) codes.add(CODE_PREFIXES.soundex + soundexCode);
+        daitchMokotoff(word).forEach(code => codes.add(CODE_PREFIXES.daitchMokotoff + code));
+        if (metaphoneCode) codes.add(CODE_PREFIXES.metaphone + metaphoneCode);
+    });
+
+    return [...codes].sort();
+};
+
+module.exports = {
+    normalizeName,
+    soundex,
+    daitchMokotoff,
+    metaphone,
+    nameWords,
+    phoneticCodes
+};
@@ -0,0 +1,210 @@
+/**
+ * Privacy utilities
+ * Decide which persons may still be alive and hide what is recorded about them from people
+ * outside the research team: clients with view access, visitors of a share link, and anyone
+ * reading an export of a project.
+ */
+
+const { getRecordDateBounds } = require('./genealogicalDate');
+
+// Persons born less than this many years ago without a recorded death are presumed to be alive
+const LIVING_YEARS = parseInt(process.env.LIVING_YEARS, 10) || 100;
+
+const LIVING_PLACEHOLDER = 'Living';
+
+// Researchers can settle a person's privacy by hand, e.g. for a living relative who agreed to be
+// shown or a person whose death is known but not its date
+const PRIVACY_OVERRIDES = ['private', 'public'];
+
+// Fields a redacted person keeps; everything else is cleared
+const KEPT_PERSON_FIELDS = ['person_id', 'privacy_override', 'created_at', 'updated_at', 'createdAt', 'updatedAt'];
+
+const RELATIONSHIP_DATE_FIELDS = ['start_date', 'start_date_detail', 'end_date', 'end_date_detail'];
+
+const toPlain = (item) => (item && typeof item.toJSON === 'function' ? item.toJSON() : item);
+
+/**
+ * Classify a person by their recorded dates. A person with a death date is deceased, as is one
+ * certainly born more than LIVING_YEARS ago; one born since then is living, and one without a
+ * birth date is unknown.
+ *
+ * @param {Object} person - Person with birth_date, death_date and their details
+ * @param {Date} [now] - Date to check at
+ * @returns {String} living, deceased or unknown
+ */
+const getLivingStatus = (person, now = new Date()) => {
+    if (getRecordDateBounds(person, 'death_date')) {
+        return 'deceased';
+    }
+
+    const birth = getRecordDateBounds(person, 'birth_date');
+    if (!birth || !birth.latest) {
+        return 'unknown';
+    }
+
+    const cutoff = new Date(now);
+    cutoff.setUTCFullYear(cutoff.getUTCFullYear() - LIVING_YEARS);
+    return birth.latest > cutoff ? 'living' : 'deceased';
+};
+
+/**
+ * Check whether a person may still be alive. Without a death date, a person counts as living
+ * unless they were certainly born more than LIVING_YEARS ago; an unknown birth date is not enough.
+ *
+ * @param {Object} person - Person with birth_date, death_date and their details
+ * @param {Date} [now] - Date to check at
+ * @returns {Boolean} True when the person is presumed to be alive
+ */
+const isPresumedLiving = (person, now = new Date()) => getLivingStatus(person, now) !== 'deceased';
+
+/**
+ * Check whether a person's details are kept from people outside the research team: their
+ * privacy override when one is set, otherwise whether they may still be alive
+ *
+ * @param {Object} person - Person with their dates and privacy_override
+ * @param {Date} [now] - Date to check at
+ * @returns {Boolean} True when the person must be redacted
+ */
+const isPrivatePerson = (person, now = new Date()) => {
+    if (person.privacy_override === 'private') return true;
+    if (person.privacy_override === 'public') return false;
+    return isPresumedLiving(person, now);
+};
+
+/**
+ * IDs of the private persons among the given ones
+ *
+ * @param {Array} persons - Persons with their dates and privacy_override
+ * @returns {Set<String>} Person IDs
+ */
+const getPrivatePersonIds = (persons) => new Set(persons
+    .map(toPlain)
+    .filter(person => isPrivatePerson(person))
+    .map(person => person.person_id));
+
+/**
+ * Replace everything identifying about a living person with a placeholder. The person ID is kept
+ * so the person keeps their place in the tree.
+ *
+ * @param {Object} person - Person
+ * @returns {Object} { person_id, first_name, last_name, gender, birth_date, death_date, living }
+ */
+const redactPerson = (person) => ({
+    person_id: person.person_id,
+    first_name: LIVING_PLACEHOLDER,
+    last_name: '',
+    gender: null,
+    birth_date: null,
+    death_date: null,
+    living: true
+});
+
+/**
+ * Redact a full person record, keeping its shape: names become the placeholder, lists such as
+ * events, documents and other names are emptied and every other field is cleared
+ *
+ * @param {Object} person - Person record, optionally with related data
+ * @returns {Object} Redacted record, marked with living: true
+ */
+const redactPersonRecord = (person) => {
+    const data = toPlain(person);
+    const cleared = Object.fromEntries(Object.entries(data).map(([field, value]) => {
+        if (KEPT_PERSON_FIELDS.includes(field)) return [field, value];
+        return [field, Array.isArray(value) ? [] : null];
+    }));
+
+    return { ...cleared, first_name: LIVING_PLACEHOLDER, last_name: '', living: true };
+};
+
+/**
+ * Redact the private persons in a list, leaving the others as they are
+ *
+ * @param {Array} persons - Person records
+ * @param {Set<String>} privateIds - IDs of the persons to redact
+ * @returns {Array} Plain person records
+ */
+const redactPersons = (persons, privateIds) => persons.map(person => {
+    const data = toPlain(person);
+    return privateIds.has(data.person_id) ? redactPersonRecord(data) : data;
+});
+
+/**
+ * Redact a relationship involving a private person: its dates are dropped and the private person
+ * included with it is redacted
+ *
+ * @param {Object} relationship - Relationship, optionally with person1 and person2
+ * @param {Set<String>} privateIds - IDs of the persons to redact
+ * @returns {Object} Plain relationship
+ */
+const redactRelationship = (relationship, privateIds) => {
+    const data = toPlain(relationship);
+    if (!privateIds.has(data.person1_id) && !privateIds.has(data.person2_id)) {
+        return data;
+    }
+
+    const redacted = { ...data, notes: null };
+    RELATIONSHIP_DATE_FIELDS.forEach(field => {
+        if (field in redacted) redacted[field] = null;
+    });
+    ['person1', 'person2'].forEach(key => {
+        if (redacted[key] && privateIds.has(redacted[key].person_id || data[`${key}_id`])) {
+            redacted[key] = redactPersonRecord(redacted[key]);
+        }
+    });
+
+    return redacted;
+};
+
+/**
+ * Redact the private persons of an ancestor or descendant chart, whether nested or numbered
+ *
+ * @param {Object} chart - Chart node ({ id, name, birth_date, death_date, parents | children })
+ *                         or { format, generations, persons }
+ * @param {Set<String>} privateIds - IDs of the persons to redact
+ * @returns {Object} Redacted chart
+ */
+const redactPedigree = (chart, privateIds) => {
+    const redactNode = (node) => {
+        const result = privateIds.has(node.id)
+            ? { ...node, name: LIVING_PLACEHOLDER, birth_date: null, death_date: null, living: true }
+            : { ...node };
+        ['parents', 'children'].forEach(key => {
+            if (Array.isArray(node[key])) result[key] = node[key].map(redactNode);
+        });
+        return result;
+    };
+
+    return Array.isArray(chart.persons)
+        ? { ...chart, persons: chart.persons.map(redactNode) }
+        : redactNode(chart);
+};
+
+/**
+ * IDs of the persons in an ancestor or descendant chart
+ *
+ * @param {Object} chart - Chart, as for redactPedigree
+ * @returns {Array<String>} Person IDs
+ */
+const getPedigreePersonIds = (chart) => {
+    if (Array.isArray(chart.persons)) {
+        return chart.persons.map(node => node.id);
+    }
+
+    return [chart.id, ...['parents', 'children'].flatMap(key => (chart[key] || []).flatMap(getPedigreePersonIds))];
+};
+
+module.exports = {
+    LIVING_YEARS,
+    LIVING_PLACEHOLDER,
+    PRIVACY_OVERRIDES,
+    getLivingStatus,
+    isPresumedLiving,
+    isPrivatePerson,
+    getPrivatePersonIds,
+    redactPerson,
+    redactPersonRecord,
+    redactPersons,
+    redactRelationship,
+    redactPedigree,
+    getPedigreePersonIds
+};
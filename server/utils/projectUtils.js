@@ -1,5 +1,5 @@
-const { ProjectPerson, Document, DocumentPerson, Event, Person, Relationship } = require('../models');
-const { Op } = require('sequelize');
+const { ProjectPerson, ProjectEvent, ProjectUser, Document, DocumentPerson, PersonEvent, Relationship, Source, Citation, ResearchLogEntry, ResearchTask } = require('../models');
+const { sequelize } = require('../config/database');
 
 /**
  * Utility functions for project-related operations, especially for determining project associations.
@@ -10,7 +10,8 @@ class ProjectUtils {
      * This is crucial for ensuring user events are correctly linked to projects
      * for activity feeds and notifications.
      *
-     * @param {string} entityType - The type of the entity ('person', 'document', 'event', 'relationship').
+     * @param {string} entityType - The type of the entity ('project', 'person', 'document', 'event', 'relationship', 'source', 'citation',
+     *   'research_entry', 'research_task').
      * @param {string} entityId - The UUID of the entity.
      * @returns {Promise<string[]>} An array of unique project IDs.
      */
@@ -18,6 +19,10 @@ class ProjectUtils {
         let projectIds = new Set();
 
         switch (entityType) {
+            case 'project':
+                projectIds.add(entityId);
+                break;
+
             case 'person':
                 const personProjects = await ProjectPerson.findAll({
                     where: { person_id: entityId },
@@ -47,11 +52,20 @@ class ProjectUtils {
                 break;
 
             case 'event':
-                const event = await Event.findByPk(entityId, {
+                // 1. Projects the event was added to directly
+                const eventProjects = await ProjectEvent.findAll({
+                    where: { event_id: entityId },
+                    attributes: ['project_id']
+                });
+                eventProjects.forEach(pe => projectIds.add(pe.project_id));
+
+                // 2. Projects of the persons taking part in the event
+                const eventPersons = await PersonEvent.findAll({
+                    where: { event_id: entityId },
                     attributes: ['person_id']
                 });
-                if (event && event.person_id) {
-                    const projects = await ProjectUtils.getProjectIdsForEntity('person', event.person_id);
+                for (const ep of eventPersons) {
+                    const projects = await ProjectUtils.getProjectIdsForEntity('person', ep.person_id);
                     projects.forEach(pId => projectIds.add(pId));
                 }
                 break;
@@ -69,6 +83,44 @@ class ProjectUtils {
                 }
                 break;
 
+            case 'source':
+                const source = await Source.findByPk(entityId, {
+                    attributes: ['project_id']
+                });
+                if (source && source.project_id) {
+                    projectIds.add(source.project_id);
+                }
+                break;
+
+            case 'citation':
+                // A citation belongs to the project of the source it cites
+                const citation = await Citation.findByPk(entityId, {
+                    attributes: ['source_id']
+                });
+                if (citation) {
+                    const projects = await ProjectUtils.getProjectIdsForEntity('source', citation.source_id);
+                    projects.forEach(pId => projectIds.add(pId));
+                }
+                break;
+
+            case 'research_entry':
+                const entry = await ResearchLogEntry.findByPk(entityId, {
+                    attributes: ['project_id']
+                });
+                if (entry) {
+                    projectIds.add(entry.project_id);
+                }
+                break;
+
+            case 'research_task':
+                const task = await ResearchTask.findByPk(entityId, {
+                    attributes: ['project_id']
+                });
+                if (task) {
+                    projectIds.add(task.project_id);
+                }
+                break;
+
             default:
                 console.warn(`Unknown entity type for project association lookup: ${entityType}`);
                 break;
@@ -76,6 +128,138 @@ class ProjectUtils {
 
         return Array.from(projectIds);
     }
+
+    /**
+     * Retrieves the IDs of the projects a user has been given access to.
+     * Managers are not limited to particular projects, so null is returned for them.
+     *
+     * @param {Object} user - The authenticated user ({ user_id, roles }).
+     * @param {string} accessLevel - 'view' for any access, 'edit' for edit access only.
+     * @returns {Promise<string[]|null>} An array of project IDs, or null for unrestricted access.
+     */
+    static async getAccessibleProjectIds(user, accessLevel = 'view') {
+        if (user.roles && user.roles.includes('manager')) {
+            return null;
+        }
+
+        const projectUsers = await ProjectUser.findAll({
+            where: {
+                user_id: user.user_id,
+                ...(accessLevel === 'edit' ? { access_level: 'edit' } : {})
+            },
+            attributes: ['project_id']
+        });
+
+        return projectUsers.map(pu => pu.project_id);
+    }
+
+    /**
+     * Checks whether a user may view or edit an entity, based on the projects it belongs to.
+     * Entities that belong to no project are only accessible to managers, unless allowUnlinked is set
+     * (used when linking a newly created record into a project).
+     *
+     * @param {Object} user - The authenticated user ({ user_id, roles }).
+     * @param {string} entityType - The type of the entity, as for getProjectIdsForEntity.
+     * @param {string} entityId - The UUID of the entity.
+     * @param {string} accessLevel - 'view' or 'edit'.
+     * @param {Object} options - { allowUnlinked }
+     * @returns {Promise<boolean>} True if the user has access.
+     */
+    static async canAccessEntity(user, entityType, entityId, accessLevel = 'view', options = {}) {
+        const accessibleProjectIds = await ProjectUtils.getAccessibleProjectIds(user, accessLevel);
+        if (accessibleProjectIds === null) {
+            return true;
+        }
+
+        const projectIds = await ProjectUtils.getProjectIdsForEntity(entityType, entityId);
+        if (projectIds.length === 0) {
+            return Boolean(options.allowUnlinked);
+        }
+
+        return projectIds.some(projectId => accessibleProjectIds.includes(projectId));
+    }
+
+    /**
+     * Finds the persons among the given ones that a user sees in full even while they may still be alive,
+     * namely those in a project the user can edit. Managers see every person, so null is returned for them.
+     *
+     * @param {Object} user - The authenticated user ({ user_id, roles }).
+     * @param {string[]} personIds - The person IDs.
+     * @returns {Promise<Set<string>|null>} The IDs of the persons shown in full, or null for everyone.
+     */
+    static async getUnrestrictedPersonIds(user, personIds) {
+        const editableProjectIds = await ProjectUtils.getAccessibleProjectIds(user, 'edit');
+        if (editableProjectIds === null) {
+            return null;
+        }
+
+        if (editableProjectIds.length === 0 || personIds.length === 0) {
+            return new Set();
+        }
+
+        const projectPersons = await ProjectPerson.findAll({
+            where: { person_id: personIds, project_id: editableProjectIds },
+            attributes: ['person_id']
+        });
+
+        return new Set(projectPersons.map(pp => pp.person_id));
+    }
+
+    /**
+     * Builds a subquery selecting the persons that belong to any of the given projects,
+     * for limiting list queries to the projects a user can access.
+     *
+     * @param {string[]} projectIds - The project IDs.
+     * @returns {Object} A Sequelize literal usable with Op.in.
+     */
+    static projectPersonsSubquery(projectIds) {
+        return sequelize.literal(
+            `(SELECT person_id FROM project_persons WHERE project_id IN (${ProjectUtils._escapeIds(projectIds)}))`
+        );
+    }
+
+    /**
+     * Builds a subquery selecting the events that belong to any of the given projects, either directly
+     * or through the persons taking part in them.
+     *
+     * @param {string[]} projectIds - The project IDs.
+     * @returns {Object} A Sequelize literal usable with Op.in.
+     */
+    static projectEventsSubquery(projectIds) {
+        const ids = ProjectUtils._escapeIds(projectIds);
+        return sequelize.literal(
+            `(SELECT event_id FROM project_events WHERE project_id IN (${ids})` +
+            ` UNION SELECT pe.event_id FROM person_events pe` +
+            ` JOIN project_persons pp ON pp.person_id = pe.person_id WHERE pp.project_id IN (${ids}))`
+        );
+    }
+
+    /**
+     * Builds a subquery selecting the documents that belong to any of the given projects, either directly
+     * or through the persons they are linked to.
+     *
+     * @param {string[]} projectIds - The project IDs.
+     * @returns {Object} A Sequelize literal usable with Op.in.
+     */
+    static projectDocumentsSubquery(projectIds) {
+        const ids = ProjectUtils._escapeIds(projectIds);
+        return sequelize.literal(
+            `(SELECT document_id FROM documents WHERE project_id IN (${ids})` +
+            ` UNION SELECT dp.document_id FROM document_persons dp` +
+            ` JOIN project_persons pp ON pp.person_id = dp.person_id WHERE pp.project_id IN (${ids}))`
+        );
+    }
+
+    /**
+     * Escapes project IDs for an IN list; an empty list matches nothing.
+     *
+     * @param {string[]} projectIds - The project IDs.
+     * @returns {string} The escaped, comma-separated IDs.
+     * @private
+     */
+    static _escapeIds(projectIds) {
+        return projectIds.length > 0 ? projectIds.map(id => sequelize.escape(id)).join(', ') : 'NULL';
+    }
 }
 
 module.exports = ProjectUtils;
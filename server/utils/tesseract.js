@@ -0,0 +1,148 @@
+const { execFile } = require('child_process');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+
+// Command-line tools of the OCR engine, installed in the server image (see the Dockerfile)
+const TESSERACT_PATH = process.env.TESSERACT_PATH || 'tesseract';
+const PDFTOPPM_PATH = process.env.PDFTOPPM_PATH || 'pdftoppm';
+// Tesseract language codes joined by "+", e.g. "eng+deu"
+const OCR_LANGUAGES = process.env.OCR_LANGUAGES || 'eng';
+// Longest a single run of either tool may take
+const OCR_TIMEOUT_MS = parseInt(process.env.OCR_TIMEOUT_MS, 10) || 5 * 60 * 1000;
+
+// Resolution PDF pages are rendered at; Tesseract reads best at about 300 dpi
+const PDF_RENDER_DPI = 300;
+
+/**
+ * Run a command and return its standard output
+ *
+ * @param {String} command - Program to run
+ * @param {Array<String>} args - Arguments
+ * @returns {Promise<String>} Standard output
+ */
+const run = (command, args) => new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: OCR_TIMEOUT_MS, maxBuffer: 50 * 1024 * 1024 }, (error, stdout, stderr) => {
+        if (error) {
+            const reason = error.code === 'ENOENT'
+                ? `${command} is not installed`
+                : (stderr || error.message).trim();
+            reject(new Error(`OCR failed: ${reason}`));
+            return;
+        }
+        resolve(stdout);
+    });
+});
+
+/**
+ * Turn Tesseract's TSV output into the text and confidence of each page.
+ * Rows are words (level 5) with the block, paragraph and line they belong to; lines are joined
+ * with line breaks and paragraphs with blank lines.
+ *
+ * @param {String} tsv - Output of `tesseract <image> stdout tsv`
+ * @returns {Array<Object>} Pages ({ page, text, confidence }), confidence being the mean word
+ *   confidence from 0 to 100, or null for a page without words
+ */
+const parseTsv = (tsv) => {
+    const pages = new Map();
+
+    for (const row of tsv.split('\n').slice(1)) {
+        const columns = row.split('\t');
+        if (columns.length < 12 || columns[0] !== '5') continue;
+
+        const [, pageNum, blockNum, parNum, lineNum, , , , , , conf, ...words] = columns;
+        const word = words.join('\t').trim();
+        if (!word) continue;
+
+        const page = parseInt(pageNum, 10);
+        if (!pages.has(page)) pages.set(page, { paragraphs: [], confidences: [] });
+        const entry = pages.get(page);
+
+        const paragraphKey = `${blockNum}.${parNum}`;
+        let paragraph = entry.paragraphs[entry.paragraphs.length - 1];
+        if (!paragraph || paragraph.key !== paragraphKey) {
+            paragraph = { key: paragraphKey, lines: [] };
+            entry.paragraphs.push(paragraph);
+        }
+
+        let line = paragraph.lines[paragraph.lines.length - 1];
+        if (!line || line.key !== lineNum) {
+            line = { key: lineNum, words: [] };
+            paragraph.lines.push(line);
+        }
+        line.words.push(word);
+
+        const confidence = parseFloat(conf);
+        if (confidence >= 0) entry.confidences.push(confidence);
+    }
+
+    return [...pages.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([page, { paragraphs, confidences }]) => ({
+            page,
+            text: paragraphs
+                .map(paragraph => paragraph.lines.map(line => line.words.join(' ')).join('\n'))
+                .join('\n\n'),
+            confidence: confidences.length > 0
+                ? Math.round((confidences.reduce((sum, value) => sum + value, 0) / confidences.length) * 10) / 10
+                : null
+        }));
+};
+
+/**
+ * Read the text of an image; multi-page TIFFs give a page each
+ *
+ * @param {String} imagePath - Image file
+ * @returns {Promise<Array<Object>>} Pages ({ page, text, confidence })
+ */
+const recognizeImage = async (imagePath) => {
+    const tsv = await run(TESSERACT_PATH, [imagePath, 'stdout', '-l', OCR_LANGUAGES, 'tsv']);
+    return parseTsv(tsv);
+};
+
+/**
+ * Read the text of a PDF by rendering each page to an image first
+ *
+ * @param {String} pdfPath - PDF file
+ * @returns {Promise<Array<Object>>} Pages ({ page, text, confidence })
+ */
+const recognizePdf = async (pdfPath) => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ocr-'));
+
+    try {
+        await run(PDFTOPPM_PATH, ['-r', String(PDF_RENDER_DPI), '-gray', '-png', pdfPath, path.join(workDir, 'page')]);
+
+        // pdftoppm numbers the images page-1.png, or page-01.png and so on for longer documents
+        const images = (await fs.readdir(workDir))
+            .filter(file => file.endsWith('.png'))
+            .map(file => ({ file, page: parseInt(file.match(/-(\d+)\.png$/)[1], 10) }))
+            .sort((a, b) => a.page - b.page);
+
+        const pages = [];
+        for (const { file, page } of images) {
+            const [recognized] = await recognizeImage(path.join(workDir, file));
+            pages.push({ page, text: recognized ? recognized.text : '', confidence: recognized ? recognized.confidence : null });
+        }
+        return pages;
+    } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+    }
+};
+
+/**
+ * Read the text of an image or PDF file
+ *
+ * @param {String} filePath - File to read
+ * @param {String} mimeType - MIME type of the file
+ * @returns {Promise<Array<Object>>} Pages ({ page, text, confidence })
+ */
+const recognizeFile = async (filePath, mimeType) => {
+    return mimeType === 'application/pdf'
+        ? await recognizePdf(filePath)
+        : await recognizeImage(filePath);
+};
+
+module.exports = {
+    recognizeFile,
+    parseTsv
+};
@@ -0,0 +1,43 @@
+/**
+ * Upload utilities
+ * Documents keep the path of their file relative to the uploads directory. Paths can come from
+ * users (the API, imported GEDCOM files), so they are checked before a file is read.
+ */
+
+const path = require('path');
+
+const UPLOADS_DIR = path.join(__dirname, '..', 'uploads');
+
+/**
+ * Check that a document file path is relative and cannot climb out of the uploads directory:
+ * no drive letter or leading slash, and no ".." segments
+ *
+ * @param {String} filePath - File path as stored on a document
+ * @returns {Boolean} True when the path is safe to store
+ */
+const isSafeUploadPath = (filePath) => {
+    if (typeof filePath !== 'string' || !filePath.trim()) return false;
+    if (/^([a-zA-Z]:)?[\\/]/.test(filePath) || /^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(filePath)) return false;
+    if (filePath.split(/[\\/]/).includes('..')) return false;
+
+    return resolveUploadPath(filePath) !== null;
+};
+
+/**
+ * Resolve a document file path inside the uploads directory
+ *
+ * @param {String} filePath - File path as stored on a document
+ * @returns {String|null} Absolute path, or null when the path leads outside the uploads directory
+ */
+const resolveUploadPath = (filePath) => {
+    if (!filePath) return null;
+
+    const resolved = path.resolve(UPLOADS_DIR, filePath);
+    return resolved.startsWith(UPLOADS_DIR + path.sep) ? resolved : null;
+};
+
+module.exports = {
+    UPLOADS_DIR,
+    isSafeUploadPath,
+    resolveUploadPath
+};
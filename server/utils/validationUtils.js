@@ -2,8 +2,55 @@
  * Utility functions for cross-entity validation
  */
 
+const {
+    describeDate,
+    getDateBounds,
+    getRecordDateBounds,
+    getYearSpan,
+    isAlwaysBefore,
+    isSameGenealogicalDate,
+    normalizeDateDetail
+} = require('./genealogicalDate');
+
+/**
+ * Validates a genealogical date detail (qualifier, precision, range) sent alongside a date column
+ * @param {String|Object|null} detail - Date detail, or free text such as "ABT 1850"
+ * @returns {Object} - Object with isValid property, any errors and the normalized detail
+ */
+exports.validateGenealogicalDate = (detail) => {
+    try {
+        const normalized = normalizeDateDetail(detail);
+        const errors = [];
+        
+        if (normalized && new Date(`${normalized.sort_key}T00:00:00.000Z`) > new Date()) {
+            errors.push('Date cannot be in the future');
+        }
+        
+        return { isValid: errors.length === 0, errors, detail: normalized };
+    } catch (error) {
+        return { isValid: false, errors: [error.message], detail: null };
+    }
+};
+
+/**
+ * Checks whether one genealogical date can fall before another
+ * Exact dates must be strictly ordered; approximate and ranged dates only fail when every reading overlaps the wrong way
+ * @param {Date|String} earlierValue - Date that should come first
+ * @param {Object} earlierDetail - Its genealogical date detail, if any
+ * @param {Date|String} laterValue - Date that should come second
+ * @param {Object} laterDetail - Its genealogical date detail, if any
+ * @returns {Boolean} - False only when the later date is certainly on or before the earlier one
+ */
+exports.canBeBefore = (earlierValue, earlierDetail, laterValue, laterDetail) => {
+    const earlier = getDateBounds(earlierValue, earlierDetail || null);
+    const later = getDateBounds(laterValue, laterDetail || null);
+    
+    return !(earlier && later && earlier.earliest && later.latest && earlier.earliest >= later.latest);
+};
+
 /**
  * Validates chronological consistency between a person's birth/death dates and their events
+ * Approximate and ranged dates are only reported when every reading of them is inconsistent
  * @param {Object} person - The person object with birth_date and death_date properties
  * @param {Array} events - Array of event objects associated with the person
  * @returns {Object} - Object with isValid property and any errors
@@ -15,37 +62,38 @@ exports.validatePersonEvents = (person, events) => {
         return { isValid: false, errors: ['Invalid input data'] };
     }
     
-    const birthDate = person.birth_date ? new Date(person.birth_date) : null;
-    const deathDate = person.death_date ? new Date(person.death_date) : null;
+    const birth = getRecordDateBounds(person, 'birth_date');
+    const death = getRecordDateBounds(person, 'death_date');
+    const birthText = birth && describeDate(person.birth_date, person.birth_date_detail);
+    const deathText = death && describeDate(person.death_date, person.death_date_detail);
     
     // Check each event's date against person's birth and death dates
     events.forEach(event => {
         if (!event.event_date) return;
         
-        const eventDate = new Date(event.event_date);
+        const eventDate = getRecordDateBounds(event, 'event_date');
+        const eventText = describeDate(event.event_date, event.event_date_detail);
         
         // Birth event should match person's birth date
-        if (event.event_type === 'birth' && birthDate) {
-            if (eventDate.toISOString().split('T')[0] !== birthDate.toISOString().split('T')[0]) {
-                errors.push(`Birth event date (${eventDate.toISOString().split('T')[0]}) does not match person's birth date (${birthDate.toISOString().split('T')[0]})`);
-            }
+        if (event.event_type === 'birth' && birth &&
+            !isSameGenealogicalDate(event.event_date, event.event_date_detail, person.birth_date, person.birth_date_detail)) {
+            errors.push(`Birth event date (${eventText}) does not match person's birth date (${birthText})`);
         }
         
         // Death event should match person's death date
-        if (event.event_type === 'death' && deathDate) {
-            if (eventDate.toISOString().split('T')[0] !== deathDate.toISOString().split('T')[0]) {
-                errors.push(`Death event date (${eventDate.toISOString().split('T')[0]}) does not match person's death date (${deathDate.toISOString().split('T')[0]})`);
-            }
+        if (event.event_type === 'death' && death &&
+            !isSameGenealogicalDate(event.event_date, event.event_date_detail, person.death_date, person.death_date_detail)) {
+            errors.push(`Death event date (${eventText}) does not match person's death date (${deathText})`);
         }
         
         // Events other than birth should be after birth date
-        if (event.event_type !== 'birth' && birthDate && eventDate < birthDate) {
-            errors.push(`Event '${event.event_type}' date (${eventDate.toISOString().split('T')[0]}) is before person's birth date (${birthDate.toISOString().split('T')[0]})`);
+        if (event.event_type !== 'birth' && isAlwaysBefore(eventDate, birth)) {
+            errors.push(`Event '${event.event_type}' date (${eventText}) is before person's birth date (${birthText})`);
         }
         
         // Events other than death should be before death date
-        if (event.event_type !== 'death' && deathDate && eventDate > deathDate) {
-            errors.push(`Event '${event.event_type}' date (${eventDate.toISOString().split('T')[0]}) is after person's death date (${deathDate.toISOString().split('T')[0]})`);
+        if (event.event_type !== 'death' && isAlwaysBefore(death, eventDate)) {
+            errors.push(`Event '${event.event_type}' date (${eventText}) is after person's death date (${deathText})`);
         }
     });
     
@@ -57,6 +105,7 @@ exports.validatePersonEvents = (person, events) => {
 
 /**
  * Validates relationship consistency between two persons
+ * Approximate and ranged dates are only reported when every reading of them is inconsistent
  * @param {Object} relationship - The relationship object
  * @param {Object} person1 - The first person in the relationship
  * @param {Object} person2 - The second person in the relationship
@@ -69,24 +118,27 @@ exports.validateRelationship = (relationship, person1, person2) => {
         return { isValid: false, errors: ['Invalid input data'] };
     }
     
-    const person1BirthDate = person1.birth_date ? new Date(person1.birth_date) : null;
-    const person2BirthDate = person2.birth_date ? new Date(person2.birth_date) : null;
+    const person1Birth = getRecordDateBounds(person1, 'birth_date');
+    const person2Birth = getRecordDateBounds(person2, 'birth_date');
+    const bornOnOrAfter = (first, second) =>
+        Boolean(first && second && first.earliest && second.latest && first.earliest >= second.latest);
+    const years = (value) => Math.round(value);
     
     // Parent-child relationship validation
     if (relationship.relationship_type === 'parent') {
         // Parent should be born before child
-        if (person1BirthDate && person2BirthDate && person1BirthDate >= person2BirthDate) {
+        if (bornOnOrAfter(person1Birth, person2Birth)) {
             errors.push('Parent must be born before child');
         }
         
         // Check reasonable age difference for parent-child (at least 10 years)
-        if (person1BirthDate && person2BirthDate) {
-            const ageDifference = (person2BirthDate - person1BirthDate) / (1000 * 60 * 60 * 24 * 365.25);
-            if (ageDifference < 10) {
-                errors.push(`Parent-child age difference (${Math.round(ageDifference)} years) is unusually small`);
+        if (person1Birth && person2Birth) {
+            const ageDifference = getYearSpan(person1Birth, person2Birth);
+            if (ageDifference.max !== null && ageDifference.max < 10) {
+                errors.push(`Parent-child age difference (${years(ageDifference.max)} years) is unusually small`);
             }
-            if (ageDifference > 70) {
-                errors.push(`Parent-child age difference (${Math.round(ageDifference)} years) is unusually large`);
+            if (ageDifference.min !== null && ageDifference.min > 70) {
+                errors.push(`Parent-child age difference (${years(ageDifference.min)} years) is unusually large`);
             }
         }
     }
@@ -94,18 +146,18 @@ exports.validateRelationship = (relationship, person1, person2) => {
     // Child-parent relationship validation (inverse of parent-child)
     if (relationship.relationship_type === 'child') {
         // Child should be born after parent
-        if (person1BirthDate && person2BirthDate && person1BirthDate <= person2BirthDate) {
+        if (bornOnOrAfter(person2Birth, person1Birth)) {
             errors.push('Child must be born after parent');
         }
         
         // Check reasonable age difference for child-parent (at least 10 years)
-        if (person1BirthDate && person2BirthDate) {
-            const ageDifference = (person1BirthDate - person2BirthDate) / (1000 * 60 * 60 * 24 * 365.25);
-            if (ageDifference < 10) {
-                errors.push(`Child-parent age difference (${Math.round(ageDifference)} years) is unusually small`);
+        if (person1Birth && person2Birth) {
+            const ageDifference = getYearSpan(person2Birth, person1Birth);
+            if (ageDifference.max !== null && ageDifference.max < 10) {
+                errors.push(`Child-parent age difference (${years(ageDifference.max)} years) is unusually small`);
             }
-            if (ageDifference > 70) {
-                errors.push(`Child-parent age difference (${Math.round(ageDifference)} years) is unusually large`);
+            if (ageDifference.min !== null && ageDifference.min > 70) {
+                errors.push(`Child-parent age difference (${years(ageDifference.min)} years) is unusually large`);
             }
         }
     }
@@ -113,29 +165,28 @@ exports.validateRelationship = (relationship, person1, person2) => {
     // Spouse relationship validation
     if (relationship.relationship_type === 'spouse') {
         // Marriage date should be after both spouses' birth dates
-        if (relationship.start_date) {
-            const marriageDate = new Date(relationship.start_date);
-            
-            if (person1BirthDate && marriageDate < person1BirthDate) {
+        const marriage = getRecordDateBounds(relationship, 'start_date');
+        if (marriage) {
+            if (isAlwaysBefore(marriage, person1Birth)) {
                 errors.push('Marriage date cannot be before first person\'s birth date');
             }
             
-            if (person2BirthDate && marriageDate < person2BirthDate) {
+            if (isAlwaysBefore(marriage, person2Birth)) {
                 errors.push('Marriage date cannot be before second person\'s birth date');
             }
             
             // Check reasonable age for marriage (at least 14 years old)
-            if (person1BirthDate) {
-                const ageAtMarriage = (marriageDate - person1BirthDate) / (1000 * 60 * 60 * 24 * 365.25);
-                if (ageAtMarriage < 14) {
-                    errors.push(`First person's age at marriage (${Math.round(ageAtMarriage)} years) is unusually young`);
+            if (person1Birth) {
+                const ageAtMarriage = getYearSpan(person1Birth, marriage);
+                if (ageAtMarriage.max !== null && ageAtMarriage.max < 14) {
+                    errors.push(`First person's age at marriage (${years(ageAtMarriage.max)} years) is unusually young`);
                 }
             }
             
-            if (person2BirthDate) {
-                const ageAtMarriage = (marriageDate - person2BirthDate) / (1000 * 60 * 60 * 24 * 365.25);
-                if (ageAtMarriage < 14) {
-                    errors.push(`Second person's age at marriage (${Math.round(ageAtMarriage)} years) is unusually young`);
+            if (person2Birth) {
+                const ageAtMarriage = getYearSpan(person2Birth, marriage);
+                if (ageAtMarriage.max !== null && ageAtMarriage.max < 14) {
+                    errors.push(`Second person's age at marriage (${years(ageAtMarriage.max)} years) is unusually young`);
                 }
             }
         }
@@ -144,10 +195,11 @@ exports.validateRelationship = (relationship, person1, person2) => {
     // Sibling relationship validation
     if (relationship.relationship_type === 'sibling') {
         // Siblings should have reasonable age difference (less than 30 years)
-        if (person1BirthDate && person2BirthDate) {
-            const ageDifference = Math.abs(person1BirthDate - person2BirthDate) / (1000 * 60 * 60 * 24 * 365.25);
+        if (person1Birth && person2Birth) {
+            const span = getYearSpan(person1Birth, person2Birth);
+            const ageDifference = span.min !== null && span.min > 0 ? span.min : (span.max !== null && span.max < 0 ? -span.max : 0);
             if (ageDifference > 30) {
-                errors.push(`Sibling age difference (${Math.round(ageDifference)} years) is unusually large`);
+                errors.push(`Sibling age difference (${years(ageDifference)} years) is unusually large`);
             }
         }
     }
@@ -0,0 +1,51 @@
+const { body, param } = require('express-validator');
+const { errorMessages } = require('../middleware/validation');
+const { PAYMENT_PROVIDERS } = require('../services/payments');
+
+const TEST_PAYMENT_OUTCOMES = ['succeeded', 'failed', 'canceled'];
+
+/**
+ * Validation rules for starting checkout
+ */
+exports.checkoutValidation = [
+    body('package_id')
+        .notEmpty().withMessage(errorMessages.required('Package ID'))
+        .isUUID().withMessage('Package ID must be a valid UUID'),
+
+    body('project_title')
+        .optional({ nullable: true, checkFalsy: true })
+        .isString().withMessage('Project title must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Project title', 255)),
+
+    body('project_description')
+        .optional({ nullable: true })
+        .isString().withMessage('Project description must be a string')
+];
+
+/**
+ * Validation for order ID parameter
+ */
+exports.orderIdValidation = [
+    param('orderId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation for completing a test payment
+ */
+exports.testPaymentValidation = [
+    param('orderId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('outcome')
+        .notEmpty().withMessage(errorMessages.required('Outcome'))
+        .isIn(TEST_PAYMENT_OUTCOMES).withMessage(errorMessages.enum('Outcome', TEST_PAYMENT_OUTCOMES))
+];
+
+/**
+ * Validation for provider webhook deliveries
+ */
+exports.webhookValidation = [
+    param('provider')
+        .isIn(PAYMENT_PROVIDERS).withMessage(errorMessages.enum('Payment provider', PAYMENT_PROVIDERS))
+];
@@ -0,0 +1,121 @@
+const { body, param, query } = require('express-validator');
+const { errorMessages } = require('../middleware/validation');
+
+const CONSULTATION_STATUSES = ['scheduled', 'completed', 'canceled'];
+
+/**
+ * Validation for consultation ID parameter
+ */
+exports.consultationIdValidation = [
+    param('consultationId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation for availability slot ID parameter
+ */
+exports.slotIdValidation = [
+    param('slotId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation rules for listing availability slots
+ */
+exports.slotQueryValidation = [
+    query('researcher_id')
+        .optional()
+        .isUUID().withMessage('Researcher ID must be a valid UUID'),
+
+    query('from')
+        .optional()
+        .isISO8601().withMessage(errorMessages.date('From')),
+
+    query('to')
+        .optional()
+        .isISO8601().withMessage(errorMessages.date('To'))
+];
+
+/**
+ * Validation rules for offering an availability slot
+ */
+exports.createSlotValidation = [
+    body('starts_at')
+        .notEmpty().withMessage(errorMessages.required('Start time'))
+        .isISO8601().withMessage(errorMessages.date('Start time')),
+
+    body('ends_at')
+        .notEmpty().withMessage(errorMessages.required('End time'))
+        .isISO8601().withMessage(errorMessages.date('End time'))
+];
+
+/**
+ * Validation rules for listing consultations
+ */
+exports.consultationQueryValidation = [
+    ...exports.slotQueryValidation,
+
+    query('status')
+        .optional()
+        .isIn(CONSULTATION_STATUSES).withMessage(errorMessages.enum('Status', CONSULTATION_STATUSES)),
+
+    query('project_id')
+        .optional()
+        .isUUID().withMessage('Project ID must be a valid UUID')
+];
+
+/**
+ * Validation rules for booking a consultation
+ */
+exports.bookConsultationValidation = [
+    body('slot_id')
+        .notEmpty().withMessage(errorMessages.required('Slot ID'))
+        .isUUID().withMessage('Slot ID must be a valid UUID'),
+
+    body('project_id')
+        .notEmpty().withMessage(errorMessages.required('Project ID'))
+        .isUUID().withMessage('Project ID must be a valid UUID'),
+
+    body('topic')
+        .trim()
+        .notEmpty().withMessage(errorMessages.required('Topic'))
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Topic', 255)),
+
+    body('notes')
+        .optional({ nullable: true })
+        .isString().withMessage('Notes must be a string')
+];
+
+/**
+ * Validation rules for rescheduling a consultation
+ */
+exports.rescheduleConsultationValidation = [
+    ...exports.consultationIdValidation,
+
+    body('slot_id')
+        .notEmpty().withMessage(errorMessages.required('Slot ID'))
+        .isUUID().withMessage('Slot ID must be a valid UUID')
+];
+
+/**
+ * Validation rules for canceling a consultation
+ */
+exports.cancelConsultationValidation = [
+    ...exports.consultationIdValidation,
+
+    body('reason')
+        .optional({ nullable: true })
+        .isString().withMessage('Reason must be a string')
+        .isLength({ max: 1000 }).withMessage(errorMessages.maxLength('Reason', 1000))
+];
+
+/**
+ * Validation for calendar feed parameters
+ */
+exports.calendarFeedValidation = [
+    param('userId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    param('token')
+        .isHexadecimal().withMessage('Invalid calendar feed token')
+];
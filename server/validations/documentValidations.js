@@ -1,6 +1,7 @@
 const { body, param } = require('express-validator');
 const { errorMessages } = require('../middleware/validation');
 const path = require('path');
+const { isSafeUploadPath } = require('../utils/uploads');
 
 /**
  * Validation rules for creating a new document
@@ -20,6 +21,7 @@ exports.createDocumentValidation = [
     body('file_path')
         .notEmpty().withMessage(errorMessages.required('File path'))
         .isString().withMessage('File path must be a string')
+        .custom(isSafeUploadPath).withMessage('File path must be a relative path inside the uploads directory')
         .custom((value, { req }) => {
             if (!value) return true;
             
@@ -126,7 +128,11 @@ exports.updateDocumentValidation = [
     
     body('date_of_original')
         .optional()
-        .isISO8601().withMessage('Date of original must be a valid date in ISO 8601 format')
+        .isISO8601().withMessage('Date of original must be a valid date in ISO 8601 format'),
+    
+    body('transcription')
+        .optional({ nullable: true })
+        .isString().withMessage('Transcription must be a string')
 ];
 
 /**
@@ -159,6 +165,17 @@ exports.associateDocumentPersonValidation = [
         .isString().withMessage('Notes must be a string')
 ];
 
+/**
+ * Validation for document-person association parameters
+ */
+exports.documentPersonParamsValidation = [
+    param('documentId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    param('personId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
 /**
  * Validation for getting documents by person ID
  */
@@ -1,5 +1,7 @@
 const { body, param } = require('express-validator');
 const { errorMessages } = require('../middleware/validation');
+const { validateGenealogicalDate } = require('../utils/validationUtils');
+const { getRecordDateBounds, isAlwaysBefore, isSameGenealogicalDate } = require('../utils/genealogicalDate');
 
 /**
  * Validation rules for creating a new event
@@ -25,10 +27,24 @@ exports.createEventValidation = [
             return true;
         }),
     
+    body('event_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`Event date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
     body('event_location')
         .optional()
         .isString().withMessage('Event location must be a string')
         .isLength({ max: 255 }).withMessage('Event location cannot exceed 255 characters'),
+
+    body('event_place_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage(errorMessages.uuid),
     
     body('description')
         .optional()
@@ -43,7 +59,7 @@ exports.createEventValidation = [
             }
             
             // Marriage and divorce events should have locations
-            if (['marriage', 'divorce'].includes(value.event_type) && !value.event_location) {
+            if (['marriage', 'divorce'].includes(value.event_type) && !value.event_location && !value.event_place_id) {
                 throw new Error(`Location is recommended for ${value.event_type} events`);
             }
             
@@ -58,6 +74,10 @@ exports.updateEventValidation = [
     param('eventId')
         .isUUID().withMessage(errorMessages.uuid),
     
+    body('person_id')
+        .optional()
+        .isUUID().withMessage('Person ID must be a valid UUID'),
+    
     body('event_type')
         .optional()
         .isString().withMessage('Event type must be a string')
@@ -74,10 +94,24 @@ exports.updateEventValidation = [
             return true;
         }),
     
+    body('event_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`Event date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
     body('event_location')
         .optional()
         .isString().withMessage('Event location must be a string')
         .isLength({ max: 255 }).withMessage('Event location cannot exceed 255 characters'),
+
+    body('event_place_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage(errorMessages.uuid),
     
     body('description')
         .optional()
@@ -103,41 +137,42 @@ exports.getEventsByPersonValidation = [
 /**
  * Validation for chronological consistency of events
  * This is a more complex validation that would be used in a controller
- * after fetching the person's data from the database
+ * after fetching the person's data from the database.
+ * Approximate and ranged dates only fail when every reading of them is out of order.
  */
 exports.validateEventChronology = (event, person) => {
     if (!event.event_date || !person) return true;
     
-    const eventDate = new Date(event.event_date);
+    const eventDate = getRecordDateBounds(event, 'event_date');
     
     // Validate against person's birth date
     if (person.birth_date) {
-        const birthDate = new Date(person.birth_date);
+        const birthDate = getRecordDateBounds(person, 'birth_date');
         
         // Events other than birth should be after birth date
-        if (event.event_type !== 'birth' && eventDate < birthDate) {
+        if (event.event_type !== 'birth' && isAlwaysBefore(eventDate, birthDate)) {
             throw new Error(`Event date cannot be before person's birth date`);
         }
         
         // Birth event should match the person's birth date
-        if (event.event_type === 'birth' && 
-            eventDate.toISOString().split('T')[0] !== birthDate.toISOString().split('T')[0]) {
+        if (event.event_type === 'birth' &&
+            !isSameGenealogicalDate(event.event_date, event.event_date_detail, person.birth_date, person.birth_date_detail)) {
             throw new Error(`Birth event date should match person's birth date`);
         }
     }
     
     // Validate against person's death date
     if (person.death_date) {
-        const deathDate = new Date(person.death_date);
+        const deathDate = getRecordDateBounds(person, 'death_date');
         
         // Events other than death should be before death date
-        if (event.event_type !== 'death' && eventDate > deathDate) {
+        if (event.event_type !== 'death' && isAlwaysBefore(deathDate, eventDate)) {
             throw new Error(`Event date cannot be after person's death date`);
         }
         
         // Death event should match the person's death date
-        if (event.event_type === 'death' && 
-            eventDate.toISOString().split('T')[0] !== deathDate.toISOString().split('T')[0]) {
+        if (event.event_type === 'death' &&
+            !isSameGenealogicalDate(event.event_date, event.event_date_detail, person.death_date, person.death_date_detail)) {
             throw new Error(`Death event date should match person's death date`);
         }
     }
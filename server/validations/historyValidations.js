@@ -0,0 +1,39 @@
+const { param, query } = require('express-validator');
+const { errorMessages } = require('../middleware/validation');
+const { VERSIONED_ENTITY_TYPES } = require('../models/entityVersion');
+
+/**
+ * Validation for the record whose history is read or reverted
+ */
+const versionedEntityValidation = [
+    param('entityType')
+        .isIn(VERSIONED_ENTITY_TYPES).withMessage(errorMessages.enum('Entity type', VERSIONED_ENTITY_TYPES)),
+
+    param('entityId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation for listing the versions of a record
+ */
+exports.getHistoryValidation = [
+    ...versionedEntityValidation,
+
+    query('page')
+        .optional()
+        .isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+
+    query('pageSize')
+        .optional()
+        .isInt({ min: 1, max: 100 }).withMessage('Page size must be between 1 and 100')
+];
+
+/**
+ * Validation for reverting a record to an earlier version
+ */
+exports.revertVersionValidation = [
+    ...versionedEntityValidation,
+
+    param('versionNumber')
+        .isInt({ min: 1 }).withMessage('Version number must be a positive integer')
+];
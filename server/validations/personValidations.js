@@ -1,5 +1,7 @@
-const { body, param } = require('express-validator');
+const { body, param, query } = require('express-validator');
 const { errorMessages } = require('../middleware/validation');
+const { canBeBefore, validateGenealogicalDate } = require('../utils/validationUtils');
+const { NAME_TYPES } = require('../models/personName');
 
 /**
  * Validation rules for creating a new person
@@ -40,10 +42,24 @@ exports.createPersonValidation = [
             return true;
         }),
     
+    body('birth_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`Birth date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
     body('birth_location')
         .optional()
         .isString().withMessage('Birth location must be a string')
         .isLength({ max: 255 }).withMessage('Birth location cannot exceed 255 characters'),
+
+    body('birth_place_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage(errorMessages.uuid),
     
     body('death_date')
         .optional()
@@ -53,21 +69,40 @@ exports.createPersonValidation = [
                 throw new Error('Death date cannot be in the future');
             }
             
-            if (value && req.body.birth_date && new Date(value) <= new Date(req.body.birth_date)) {
+            if (value && req.body.birth_date &&
+                !canBeBefore(req.body.birth_date, req.body.birth_date_detail, value, req.body.death_date_detail)) {
                 throw new Error('Death date must be after birth date');
             }
             
             return true;
         }),
     
+    body('death_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`Death date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
     body('death_location')
         .optional()
         .isString().withMessage('Death location must be a string')
         .isLength({ max: 255 }).withMessage('Death location cannot exceed 255 characters'),
+
+    body('death_place_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage(errorMessages.uuid),
     
     body('notes')
         .optional()
         .isString().withMessage('Notes must be a string'),
+
+    body('privacy_override')
+        .optional({ nullable: true })
+        .isIn(['private', 'public']).withMessage('Privacy override must be one of: private, public'),
         
     body('events')
         .optional()
@@ -133,17 +168,32 @@ exports.updatePersonValidation = [
                 throw new Error('Birth date cannot be in the future');
             }
             
-            if (value && req.body.death_date && new Date(value) >= new Date(req.body.death_date)) {
+            if (value && req.body.death_date &&
+                !canBeBefore(value, req.body.birth_date_detail, req.body.death_date, req.body.death_date_detail)) {
                 throw new Error('Birth date must be before death date');
             }
             
             return true;
         }),
     
+    body('birth_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`Birth date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
     body('birth_location')
         .optional()
         .isString().withMessage('Birth location must be a string')
         .isLength({ max: 255 }).withMessage('Birth location cannot exceed 255 characters'),
+
+    body('birth_place_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage(errorMessages.uuid),
     
     body('death_date')
         .optional()
@@ -153,21 +203,40 @@ exports.updatePersonValidation = [
                 throw new Error('Death date cannot be in the future');
             }
             
-            if (value && req.body.birth_date && new Date(value) <= new Date(req.body.birth_date)) {
+            if (value && req.body.birth_date &&
+                !canBeBefore(req.body.birth_date, req.body.birth_date_detail, value, req.body.death_date_detail)) {
                 throw new Error('Death date must be after birth date');
             }
             
             return true;
         }),
     
+    body('death_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`Death date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
     body('death_location')
         .optional()
         .isString().withMessage('Death location must be a string')
         .isLength({ max: 255 }).withMessage('Death location cannot exceed 255 characters'),
+
+    body('death_place_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage(errorMessages.uuid),
     
     body('notes')
         .optional()
         .isString().withMessage('Notes must be a string'),
+
+    body('privacy_override')
+        .optional({ nullable: true })
+        .isIn(['private', 'public']).withMessage('Privacy override must be one of: private, public'),
         
     body('events')
         .optional()
@@ -215,6 +284,29 @@ exports.personIdValidation = [
         .isUUID().withMessage(errorMessages.uuid)
 ];
 
+// Rules shared by the ancestor and descendant charts of a person
+const pedigreeValidation = (formats) => [
+    ...exports.personIdValidation,
+
+    query('generations')
+        .optional()
+        .isInt({ min: 1, max: 10 }).withMessage('Generations must be between 1 and 10'),
+
+    query('format')
+        .optional()
+        .isIn(formats).withMessage(`Format must be one of: ${formats.join(', ')}`)
+];
+
+/**
+ * Validation for getting the ancestors of a person
+ */
+exports.personAncestorsValidation = pedigreeValidation(['nested', 'ahnentafel']);
+
+/**
+ * Validation for getting the descendants of a person
+ */
+exports.personDescendantsValidation = pedigreeValidation(['nested', 'daboville']);
+
 /**
  * Validation for adding a person to a project
  */
@@ -225,3 +317,161 @@ exports.addPersonToProjectValidation = [
     body('person_id')
         .isUUID().withMessage(errorMessages.uuid)
 ];
+
+/**
+ * Validation for finding duplicate persons in a project
+ */
+exports.projectDuplicatesValidation = [
+    query('project_id')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    query('min_score')
+        .optional()
+        .isInt({ min: 0, max: 100 }).withMessage('Minimum score must be a whole number between 0 and 100')
+];
+
+/**
+ * Validation for finding duplicates of a person
+ */
+exports.personDuplicatesValidation = [
+    param('personId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    query('min_score')
+        .optional()
+        .isInt({ min: 0, max: 100 }).withMessage('Minimum score must be a whole number between 0 and 100')
+];
+
+/**
+ * Validation for merging a duplicate into a person
+ */
+exports.mergePersonValidation = [
+    param('personId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('duplicate_person_id')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('field_choices')
+        .optional()
+        .isObject().withMessage('Field choices must be an object')
+        .custom((choices) => {
+            if (Object.values(choices).some(choice => !['survivor', 'duplicate'].includes(choice))) {
+                throw new Error('Each field choice must be either survivor or duplicate');
+            }
+            return true;
+        })
+];
+
+/**
+ * Validation for searching persons by name
+ */
+exports.searchPersonsValidation = [
+    query('q')
+        .trim()
+        .notEmpty().withMessage(errorMessages.required('Search term'))
+        .isLength({ max: 200 }).withMessage(errorMessages.maxLength('Search term', 200)),
+
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 }).withMessage('Limit must be a whole number between 1 and 100')
+];
+
+// Rules shared by adding and updating another name of a person
+const personNameFieldRules = (isUpdate) => [
+    (isUpdate
+        ? body('name_type').optional()
+        : body('name_type').notEmpty().withMessage(errorMessages.required('Name type')).bail())
+        .isIn(NAME_TYPES).withMessage(errorMessages.enum('Name type', NAME_TYPES)),
+
+    ...Object.entries({ first_name: 'First name', middle_name: 'Middle name', last_name: 'Last name' })
+        .map(([field, label]) => body(field)
+            .optional({ nullable: true })
+            .isString().withMessage(`${label} must be a string`)
+            .isLength({ max: 100 }).withMessage(errorMessages.maxLength(label, 100))),
+
+    body()
+        .custom((value) => {
+            if (!isUpdate && !value.first_name && !value.middle_name && !value.last_name) {
+                throw new Error('A first, middle or last name is required');
+            }
+            return true;
+        }),
+
+    body('start_date')
+        .optional({ nullable: true })
+        .isISO8601().withMessage('Start date must be a valid date in ISO 8601 format')
+        .custom((value, { req }) => {
+            if (value && req.body.end_date &&
+                !canBeBefore(value, req.body.start_date_detail, req.body.end_date, req.body.end_date_detail)) {
+                throw new Error('Start date must be before end date');
+            }
+            return true;
+        }),
+
+    body('end_date')
+        .optional({ nullable: true })
+        .isISO8601().withMessage('End date must be a valid date in ISO 8601 format'),
+
+    body('start_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`Start date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+
+    body('end_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`End date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+
+    body('source_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('notes')
+        .optional({ nullable: true })
+        .isString().withMessage('Notes must be a string')
+];
+
+/**
+ * Validation for adding another name to a person
+ */
+exports.addPersonNameValidation = [
+    param('personId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    ...personNameFieldRules(false)
+];
+
+/**
+ * Validation for updating another name of a person
+ */
+exports.updatePersonNameValidation = [
+    param('personId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    param('nameId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    ...personNameFieldRules(true)
+];
+
+/**
+ * Validation for removing another name of a person
+ */
+exports.personNameIdValidation = [
+    param('personId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    param('nameId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
@@ -0,0 +1,202 @@
+const { body, param, query } = require('express-validator');
+const { errorMessages } = require('../middleware/validation');
+const { canBeBefore, validateGenealogicalDate } = require('../utils/validationUtils');
+const { PLACE_TYPES } = require('../models/place');
+
+/**
+ * Validation rules shared by place creation and update
+ */
+const placeFieldRules = (isUpdate) => [
+    (isUpdate
+        ? body('name').optional()
+        : body('name').notEmpty().withMessage(errorMessages.required('Name')).bail())
+        .isString().withMessage('Name must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Name', 255)),
+
+    (isUpdate
+        ? body('place_type').optional()
+        : body('place_type').notEmpty().withMessage(errorMessages.required('Place type')).bail())
+        .isIn(PLACE_TYPES).withMessage(errorMessages.enum('Place type', PLACE_TYPES)),
+
+    body('parent_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('code')
+        .optional({ nullable: true })
+        .isString().withMessage('Code must be a string')
+        .isLength({ max: 20 }).withMessage(errorMessages.maxLength('Code', 20)),
+
+    body('latitude')
+        .optional({ nullable: true })
+        .isFloat({ min: -90, max: 90 }).withMessage('Latitude must be between -90 and 90'),
+
+    body('longitude')
+        .optional({ nullable: true })
+        .isFloat({ min: -180, max: 180 }).withMessage('Longitude must be between -180 and 180'),
+
+    body('notes')
+        .optional({ nullable: true })
+        .isString().withMessage('Notes must be a string')
+];
+
+/**
+ * Validation for searching places
+ */
+exports.searchPlacesValidation = [
+    query('q')
+        .optional()
+        .isString().withMessage('Search text must be a string'),
+
+    query('type')
+        .optional()
+        .isIn(PLACE_TYPES).withMessage(errorMessages.enum('Place type', PLACE_TYPES)),
+
+    query('parentId')
+        .optional()
+        .isUUID().withMessage(errorMessages.uuid),
+
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+];
+
+/**
+ * Validation for getting a place
+ */
+exports.getPlaceValidation = [
+    param('placeId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    query('date')
+        .optional()
+        .isISO8601().withMessage('Date must be a valid date in ISO 8601 format')
+];
+
+/**
+ * Validation for creating a place
+ */
+exports.createPlaceValidation = placeFieldRules(false);
+
+/**
+ * Validation for updating a place
+ */
+exports.updatePlaceValidation = [
+    param('placeId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    ...placeFieldRules(true)
+];
+
+/**
+ * Validation for deleting a place
+ */
+exports.placeIdValidation = [
+    param('placeId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation for finding or creating a place from its levels, largest first
+ */
+exports.resolvePlaceValidation = [
+    body('levels')
+        .isArray({ min: 1, max: PLACE_TYPES.length }).withMessage(`Levels must be a list of 1 to ${PLACE_TYPES.length} places`)
+        .bail()
+        .custom((levels) => {
+            const ranks = levels.map(level => PLACE_TYPES.indexOf(level && level.place_type));
+            if (ranks.some((rank, index) => rank <= (index > 0 ? ranks[index - 1] : -1))) {
+                throw new Error(`Levels must go from larger to smaller places: ${PLACE_TYPES.join(', ')}`);
+            }
+            return true;
+        }),
+
+    body('levels.*.name')
+        .isString().withMessage('Name must be a string')
+        .trim()
+        .notEmpty().withMessage(errorMessages.required('Name'))
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Name', 255)),
+
+    body('levels.*.code')
+        .optional({ nullable: true })
+        .isString().withMessage('Code must be a string')
+        .isLength({ max: 20 }).withMessage(errorMessages.maxLength('Code', 20))
+];
+
+/**
+ * Validation rules shared by adding and updating another name of a place
+ */
+const placeNameFieldRules = (isUpdate) => [
+    (isUpdate
+        ? body('name').optional()
+        : body('name').notEmpty().withMessage(errorMessages.required('Name')).bail())
+        .isString().withMessage('Name must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Name', 255)),
+
+    body('parent_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('start_date')
+        .optional({ nullable: true })
+        .isISO8601().withMessage('Start date must be a valid date in ISO 8601 format')
+        .custom((value, { req }) => {
+            if (value && req.body.end_date &&
+                !canBeBefore(value, req.body.start_date_detail, req.body.end_date, req.body.end_date_detail)) {
+                throw new Error('Start date must be before end date');
+            }
+            return true;
+        }),
+
+    body('end_date')
+        .optional({ nullable: true })
+        .isISO8601().withMessage('End date must be a valid date in ISO 8601 format'),
+
+    ...['start_date_detail', 'end_date_detail'].map(field => body(field)
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`${field === 'start_date_detail' ? 'Start' : 'End'} date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        })),
+
+    body('notes')
+        .optional({ nullable: true })
+        .isString().withMessage('Notes must be a string')
+];
+
+/**
+ * Validation for adding another name to a place
+ */
+exports.addPlaceNameValidation = [
+    param('placeId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    ...placeNameFieldRules(false)
+];
+
+/**
+ * Validation for updating another name of a place
+ */
+exports.updatePlaceNameValidation = [
+    param('placeId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    param('placeNameId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    ...placeNameFieldRules(true)
+];
+
+/**
+ * Validation for removing another name of a place
+ */
+exports.placeNameIdValidation = [
+    param('placeId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    param('placeNameId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
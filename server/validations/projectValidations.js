@@ -1,5 +1,6 @@
-const { body, param } = require('express-validator');
+const { body, param, query } = require('express-validator');
 const { errorMessages } = require('../middleware/validation');
+const { isSafeUploadPath } = require('../utils/uploads');
 
 /**
  * Validation rules for creating a new project
@@ -66,6 +67,7 @@ exports.addProjectDocumentValidation = [
     body('file_path')
         .notEmpty().withMessage(errorMessages.required('File path'))
         .isString().withMessage('File path must be a string')
+        .custom(isSafeUploadPath).withMessage('File path must be a relative path inside the uploads directory')
 ];
 
 /**
@@ -130,3 +132,80 @@ exports.projectPersonIdValidation = [
     param('personId')
         .isUUID().withMessage('Person ID must be a valid UUID')
 ];
+
+/**
+ * Validation rules for generating a family history report
+ */
+exports.projectReportValidation = [
+    param('id')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    query('format')
+        .optional()
+        .isIn(['pdf', 'html']).withMessage('Format must be one of: pdf, html'),
+
+    query('numbering')
+        .optional()
+        .isIn(['register', 'ngsq']).withMessage('Numbering must be one of: register, ngsq'),
+
+    query('subject_person_id')
+        .optional()
+        .isUUID().withMessage('Subject person ID must be a valid UUID'),
+
+    query('progenitor_person_id')
+        .optional()
+        .isUUID().withMessage('Progenitor person ID must be a valid UUID'),
+
+    query('generations')
+        .optional()
+        .isInt({ min: 1, max: 15 }).withMessage('Generations must be between 1 and 15')
+];
+
+/**
+ * Validation rules for auditing the data quality of a project
+ */
+exports.projectAuditValidation = [
+    param('id')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    query('rules')
+        .optional()
+        .isString().withMessage('Rules must be a comma-separated list of rule IDs'),
+
+    query('severity')
+        .optional()
+        .isIn(['error', 'warning']).withMessage('Severity must be one of: error, warning')
+];
+
+/**
+ * Validation rules for emailing a family history report
+ */
+exports.emailProjectReportValidation = [
+    param('id')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('format')
+        .optional()
+        .isIn(['pdf', 'html']).withMessage('Format must be one of: pdf, html'),
+
+    body('numbering')
+        .optional()
+        .isIn(['register', 'ngsq']).withMessage('Numbering must be one of: register, ngsq'),
+
+    body('subject_person_id')
+        .optional()
+        .isUUID().withMessage('Subject person ID must be a valid UUID'),
+
+    body('progenitor_person_id')
+        .optional()
+        .isUUID().withMessage('Progenitor person ID must be a valid UUID'),
+
+    body('generations')
+        .optional()
+        .isInt({ min: 1, max: 15 }).withMessage('Generations must be between 1 and 15'),
+
+    body('message')
+        .optional()
+        .isString().withMessage('Message must be a string')
+        .isLength({ max: 2000 }).withMessage('Message must be at most 2000 characters')
+];
@@ -1,5 +1,6 @@
-const { body, param } = require('express-validator');
+const { body, param, query } = require('express-validator');
 const { errorMessages } = require('../middleware/validation');
+const { canBeBefore, validateGenealogicalDate } = require('../utils/validationUtils');
 
 /**
  * Validation rules for creating a new relationship
@@ -50,7 +51,8 @@ exports.createRelationshipValidation = [
         .optional()
         .isISO8601().withMessage('Start date must be a valid date in ISO 8601 format')
         .custom((value, { req }) => {
-            if (value && req.body.end_date && new Date(value) >= new Date(req.body.end_date)) {
+            if (value && req.body.end_date &&
+                !canBeBefore(value, req.body.start_date_detail, req.body.end_date, req.body.end_date_detail)) {
                 throw new Error('Start date must be before end date');
             }
             return true;
@@ -60,12 +62,33 @@ exports.createRelationshipValidation = [
         .optional()
         .isISO8601().withMessage('End date must be a valid date in ISO 8601 format')
         .custom((value, { req }) => {
-            if (value && req.body.start_date && new Date(value) <= new Date(req.body.start_date)) {
+            if (value && req.body.start_date &&
+                !canBeBefore(req.body.start_date, req.body.start_date_detail, value, req.body.end_date_detail)) {
                 throw new Error('End date must be after start date');
             }
             return true;
         }),
     
+    body('start_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`Start date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
+    body('end_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`End date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
     body('notes')
         .optional()
         .isString().withMessage('Notes must be a string'),
@@ -88,6 +111,14 @@ exports.updateRelationshipValidation = [
     param('relationshipId')
         .isUUID().withMessage(errorMessages.uuid),
     
+    body('person1_id')
+        .optional()
+        .isUUID().withMessage('Person 1 ID must be a valid UUID'),
+    
+    body('person2_id')
+        .optional()
+        .isUUID().withMessage('Person 2 ID must be a valid UUID'),
+    
     body('relationship_type')
         .optional()
         .isString().withMessage('Relationship type must be a string')
@@ -104,7 +135,8 @@ exports.updateRelationshipValidation = [
         .optional()
         .isISO8601().withMessage('Start date must be a valid date in ISO 8601 format')
         .custom((value, { req }) => {
-            if (value && req.body.end_date && new Date(value) >= new Date(req.body.end_date)) {
+            if (value && req.body.end_date &&
+                !canBeBefore(value, req.body.start_date_detail, req.body.end_date, req.body.end_date_detail)) {
                 throw new Error('Start date must be before end date');
             }
             return true;
@@ -114,12 +146,33 @@ exports.updateRelationshipValidation = [
         .optional()
         .isISO8601().withMessage('End date must be a valid date in ISO 8601 format')
         .custom((value, { req }) => {
-            if (value && req.body.start_date && new Date(value) <= new Date(req.body.start_date)) {
+            if (value && req.body.start_date &&
+                !canBeBefore(req.body.start_date, req.body.start_date_detail, value, req.body.end_date_detail)) {
                 throw new Error('End date must be after start date');
             }
             return true;
         }),
     
+    body('start_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`Start date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
+    body('end_date_detail')
+        .optional({ nullable: true })
+        .custom((value) => {
+            const result = validateGenealogicalDate(value);
+            if (!result.isValid) {
+                throw new Error(`End date: ${result.errors.join(', ')}`);
+            }
+            return true;
+        }),
+    
     body('notes')
         .optional()
         .isString().withMessage('Notes must be a string')
@@ -140,3 +193,25 @@ exports.getRelationshipsByPersonValidation = [
     param('personId')
         .isUUID().withMessage(errorMessages.uuid)
 ];
+
+/**
+ * Validation for routes comparing two persons
+ */
+exports.personPairValidation = [
+    param('person1Id')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    param('person2Id')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation rules for naming the relationship between two persons
+ */
+exports.kinshipValidation = [
+    ...exports.personPairValidation,
+
+    query('maxGenerations')
+        .optional()
+        .isInt({ min: 1, max: 20 }).withMessage('Max generations must be between 1 and 20')
+];
@@ -0,0 +1,163 @@
+const { body, param } = require('express-validator');
+const { errorMessages } = require('../middleware/validation');
+const { RESEARCH_RESULTS } = require('../models/researchLogEntry');
+const { TASK_PRIORITIES, TASK_STATUSES } = require('../models/researchTask');
+
+/**
+ * Validation rules shared by log entry creation and update
+ */
+const entryDetailsValidation = [
+    body('objective')
+        .optional({ nullable: true })
+        .isString().withMessage('Objective must be a string'),
+
+    body('repositories_searched')
+        .optional()
+        .isArray().withMessage('Repositories searched must be an array'),
+
+    body('repositories_searched.*')
+        .isString().withMessage('Each repository searched must be a string')
+        .trim()
+        .notEmpty().withMessage('Repository names cannot be empty'),
+
+    body('result')
+        .optional({ nullable: true })
+        .isIn(RESEARCH_RESULTS).withMessage(errorMessages.enum('Result', RESEARCH_RESULTS)),
+
+    body('findings')
+        .optional({ nullable: true })
+        .isString().withMessage('Findings must be a string'),
+
+    body('searched_on')
+        .optional({ nullable: true, checkFalsy: true })
+        .isISO8601().withMessage(errorMessages.date('Search date')),
+
+    body('person_ids')
+        .optional()
+        .isArray().withMessage('Person IDs must be an array'),
+
+    body('person_ids.*')
+        .isUUID().withMessage('Person IDs must be valid UUIDs'),
+
+    body('document_ids')
+        .optional()
+        .isArray().withMessage('Document IDs must be an array'),
+
+    body('document_ids.*')
+        .isUUID().withMessage('Document IDs must be valid UUIDs')
+];
+
+/**
+ * Validation rules shared by task creation and update
+ */
+const taskDetailsValidation = [
+    body('notes')
+        .optional({ nullable: true })
+        .isString().withMessage('Notes must be a string'),
+
+    body('entry_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage('Entry ID must be a valid UUID'),
+
+    body('assignee_id')
+        .optional({ nullable: true })
+        .isUUID().withMessage('Assignee ID must be a valid UUID'),
+
+    body('due_date')
+        .optional({ nullable: true, checkFalsy: true })
+        .isISO8601().withMessage(errorMessages.date('Due date')),
+
+    body('priority')
+        .optional()
+        .isIn(TASK_PRIORITIES).withMessage(errorMessages.enum('Priority', TASK_PRIORITIES)),
+
+    body('status')
+        .optional()
+        .isIn(TASK_STATUSES).withMessage(errorMessages.enum('Status', TASK_STATUSES))
+];
+
+/**
+ * Validation rules for recording a search in the research log
+ */
+exports.createEntryValidation = [
+    body('project_id')
+        .notEmpty().withMessage(errorMessages.required('Project ID'))
+        .isUUID().withMessage('Project ID must be a valid UUID'),
+
+    body('title')
+        .notEmpty().withMessage(errorMessages.required('Title'))
+        .isString().withMessage('Title must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Title', 255)),
+
+    ...entryDetailsValidation
+];
+
+/**
+ * Validation rules for updating a research log entry
+ */
+exports.updateEntryValidation = [
+    param('entryId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('title')
+        .optional()
+        .notEmpty().withMessage('Title cannot be empty if provided')
+        .isString().withMessage('Title must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Title', 255)),
+
+    body('project_id')
+        .not().exists().withMessage('A research log entry cannot be moved to another project'),
+
+    ...entryDetailsValidation
+];
+
+/**
+ * Validation for research log entry ID parameter
+ */
+exports.entryIdValidation = [
+    param('entryId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation rules for adding a task to a project
+ */
+exports.createTaskValidation = [
+    body('project_id')
+        .notEmpty().withMessage(errorMessages.required('Project ID'))
+        .isUUID().withMessage('Project ID must be a valid UUID'),
+
+    body('title')
+        .notEmpty().withMessage(errorMessages.required('Title'))
+        .isString().withMessage('Title must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Title', 255)),
+
+    ...taskDetailsValidation
+];
+
+/**
+ * Validation rules for updating a task
+ */
+exports.updateTaskValidation = [
+    param('taskId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('title')
+        .optional()
+        .notEmpty().withMessage('Title cannot be empty if provided')
+        .isString().withMessage('Title must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Title', 255)),
+
+    body('project_id')
+        .not().exists().withMessage('A task cannot be moved to another project'),
+
+    ...taskDetailsValidation
+];
+
+/**
+ * Validation for task ID parameter
+ */
+exports.taskIdValidation = [
+    param('taskId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
@@ -0,0 +1,31 @@
+const { query } = require('express-validator');
+const { errorMessages } = require('../middleware/validation');
+const { SEARCH_ENTITY_TYPES } = require('../services/searchService');
+
+/**
+ * Validation for searching records
+ */
+exports.searchValidation = [
+    query('q')
+        .notEmpty().withMessage(errorMessages.required('Search text')).bail()
+        .isString().withMessage('Search text must be a string')
+        .isLength({ max: 200 }).withMessage(errorMessages.maxLength('Search text', 200)),
+
+    query('types')
+        .optional()
+        .isString().withMessage('Types must be a comma-separated list')
+        .custom(value => value.split(',').every(type => SEARCH_ENTITY_TYPES.includes(type.trim())))
+        .withMessage(errorMessages.enum('Types', SEARCH_ENTITY_TYPES)),
+
+    query('projectId')
+        .optional()
+        .isUUID().withMessage(errorMessages.uuid),
+
+    query('page')
+        .optional()
+        .isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+
+    query('pageSize')
+        .optional()
+        .isInt({ min: 1, max: 100 }).withMessage('Page size must be between 1 and 100')
+];
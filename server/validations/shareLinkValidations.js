@@ -0,0 +1,61 @@
+const { body, param } = require('express-validator');
+const { errorMessages } = require('../middleware/validation');
+
+/**
+ * Validation rules for creating a share link for a project
+ */
+exports.createShareLinkValidation = [
+    param('id')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('label')
+        .optional({ nullable: true })
+        .isString().withMessage('Label must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Label', 255)),
+
+    body('expires_at')
+        .notEmpty().withMessage(errorMessages.required('Expiry date'))
+        .isISO8601().withMessage(errorMessages.date('Expiry date')),
+
+    body('password')
+        .optional({ nullable: true, checkFalsy: true })
+        .isString().withMessage('Password must be a string')
+        .isLength({ min: 6 }).withMessage(errorMessages.minLength('Password', 6)),
+
+    body('document_ids')
+        .optional()
+        .isArray().withMessage('Document IDs must be an array'),
+
+    body('document_ids.*')
+        .isUUID().withMessage('Document IDs must be valid UUIDs')
+];
+
+/**
+ * Validation rules for routes with a project ID and share link ID
+ */
+exports.shareLinkIdValidation = [
+    param('id')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    param('linkId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation rules for the public routes of a share link
+ */
+exports.sharedProjectValidation = [
+    param('token')
+        .isHexadecimal().withMessage('Invalid share link')
+        .isLength({ min: 64, max: 64 }).withMessage('Invalid share link')
+];
+
+/**
+ * Validation rules for a document file shown through a share link
+ */
+exports.sharedDocumentValidation = [
+    ...exports.sharedProjectValidation,
+
+    param('documentId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
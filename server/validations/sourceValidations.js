@@ -0,0 +1,185 @@
+const { body, param, query } = require('express-validator');
+const { errorMessages } = require('../middleware/validation');
+const { CITABLE_FIELDS } = require('../models/citation');
+
+const CLASSIFICATIONS = ['original', 'derivative', 'authored'];
+const INFORMATION_QUALITIES = ['primary', 'secondary', 'undetermined'];
+const EVIDENCE_TYPES = ['direct', 'indirect', 'negative'];
+
+/**
+ * Validation rules shared by source creation and update
+ */
+const sourceDetailsValidation = [
+    body('author')
+        .optional({ nullable: true })
+        .isString().withMessage('Author must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Author', 255)),
+
+    body('publication_info')
+        .optional({ nullable: true })
+        .isString().withMessage('Publication information must be a string'),
+
+    body('repository')
+        .optional({ nullable: true })
+        .isString().withMessage('Repository must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Repository', 255)),
+
+    body('call_number')
+        .optional({ nullable: true })
+        .isString().withMessage('Call number must be a string')
+        .isLength({ max: 100 }).withMessage(errorMessages.maxLength('Call number', 100)),
+
+    body('url')
+        .optional({ nullable: true, checkFalsy: true })
+        .isURL().withMessage('URL must be a valid URL')
+        .isLength({ max: 500 }).withMessage(errorMessages.maxLength('URL', 500)),
+
+    body('classification')
+        .optional({ nullable: true, checkFalsy: true })
+        .isIn(CLASSIFICATIONS).withMessage(errorMessages.enum('Classification', CLASSIFICATIONS)),
+
+    body('document_id')
+        .optional({ nullable: true, checkFalsy: true })
+        .isUUID().withMessage('Document ID must be a valid UUID'),
+
+    body('notes')
+        .optional({ nullable: true })
+        .isString().withMessage('Notes must be a string')
+];
+
+/**
+ * Validation rules shared by citation creation and update
+ */
+const citationDetailsValidation = [
+    body('page')
+        .optional({ nullable: true })
+        .isString().withMessage('Page must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Page', 255)),
+
+    body('information_quality')
+        .optional({ nullable: true, checkFalsy: true })
+        .isIn(INFORMATION_QUALITIES).withMessage(errorMessages.enum('Information quality', INFORMATION_QUALITIES)),
+
+    body('evidence_type')
+        .optional({ nullable: true, checkFalsy: true })
+        .isIn(EVIDENCE_TYPES).withMessage(errorMessages.enum('Evidence type', EVIDENCE_TYPES)),
+
+    body('confidence')
+        .optional({ nullable: true })
+        .isInt({ min: 0, max: 3 }).withMessage('Confidence must be an integer between 0 and 3'),
+
+    body('excerpt')
+        .optional({ nullable: true })
+        .isString().withMessage('Excerpt must be a string'),
+
+    body('notes')
+        .optional({ nullable: true })
+        .isString().withMessage('Notes must be a string')
+];
+
+/**
+ * Validation rules for creating a new source
+ */
+exports.createSourceValidation = [
+    body('title')
+        .notEmpty().withMessage(errorMessages.required('Title'))
+        .isString().withMessage('Title must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Title', 255)),
+
+    body('project_id')
+        .notEmpty().withMessage(errorMessages.required('Project ID'))
+        .isUUID().withMessage('Project ID must be a valid UUID'),
+
+    ...sourceDetailsValidation
+];
+
+/**
+ * Validation rules for updating a source
+ */
+exports.updateSourceValidation = [
+    param('sourceId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('title')
+        .optional()
+        .notEmpty().withMessage('Title cannot be empty if provided')
+        .isString().withMessage('Title must be a string')
+        .isLength({ max: 255 }).withMessage(errorMessages.maxLength('Title', 255)),
+
+    body('project_id')
+        .not().exists().withMessage('A source cannot be moved to another project'),
+
+    ...sourceDetailsValidation
+];
+
+/**
+ * Validation for source ID parameter
+ */
+exports.sourceIdValidation = [
+    param('sourceId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation for citing a source
+ */
+exports.createCitationValidation = [
+    param('sourceId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('entity_type')
+        .notEmpty().withMessage(errorMessages.required('Entity type'))
+        .isIn(Object.keys(CITABLE_FIELDS)).withMessage(errorMessages.enum('Entity type', Object.keys(CITABLE_FIELDS))),
+
+    body('entity_id')
+        .notEmpty().withMessage(errorMessages.required('Entity ID'))
+        .isUUID().withMessage('Entity ID must be a valid UUID'),
+
+    body('field_name')
+        .optional({ nullable: true, checkFalsy: true })
+        .custom((value, { req }) => {
+            const fields = CITABLE_FIELDS[req.body.entity_type] || [];
+            if (!fields.includes(value)) {
+                throw new Error(`Field '${value}' cannot be cited on a ${req.body.entity_type}`);
+            }
+            return true;
+        }),
+
+    ...citationDetailsValidation
+];
+
+/**
+ * Validation for updating a citation
+ * The cited field is checked against the stored citation by the model
+ */
+exports.updateCitationValidation = [
+    param('citationId')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('field_name')
+        .optional({ nullable: true, checkFalsy: true })
+        .isString().withMessage('Field name must be a string'),
+
+    ...citationDetailsValidation
+];
+
+/**
+ * Validation for citation ID parameter
+ */
+exports.citationIdValidation = [
+    param('citationId')
+        .isUUID().withMessage(errorMessages.uuid)
+];
+
+/**
+ * Validation for listing the citations of a record
+ */
+exports.getCitationsValidation = [
+    query('entityType')
+        .notEmpty().withMessage(errorMessages.required('Entity type'))
+        .isIn(Object.keys(CITABLE_FIELDS)).withMessage(errorMessages.enum('Entity type', Object.keys(CITABLE_FIELDS))),
+
+    query('entityId')
+        .notEmpty().withMessage(errorMessages.required('Entity ID'))
+        .isUUID().withMessage('Entity ID must be a valid UUID')
+];
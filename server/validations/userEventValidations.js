@@ -19,7 +19,6 @@ exports.createUserEventValidation = [
             'event_created', 
             'relationship_established', 
             'relationship_created', 
-            'research_milestone', 
             'project_update'
         ])
         .withMessage('Invalid event type'),
@@ -103,5 +102,52 @@ exports.getUserEventsValidation = [
         .optional()
         .isString().withMessage('Entity type must be a string')
         .isIn(['project', 'person', 'document', 'event', 'relationship'])
-        .withMessage('Invalid entity type')
+        .withMessage('Invalid entity type'),
+
+    query('search')
+        .optional()
+        .isString().withMessage('Search must be a string')
+        .trim(),
+
+    query('status')
+        .optional()
+        .isIn(['all', 'read', 'unread'])
+        .withMessage('Status must be all, read or unread'),
+
+    query('archived')
+        .optional()
+        .isIn(['true', 'false', 'all'])
+        .withMessage('Archived must be true, false or all')
+];
+
+/**
+ * Validation rules for changing the read and archived state of a user event
+ */
+exports.userEventStateValidation = [
+    param('id')
+        .isUUID().withMessage(errorMessages.uuid),
+
+    body('read')
+        .optional()
+        .isBoolean({ strict: true }).withMessage('Read must be a boolean'),
+
+    body('archived')
+        .optional()
+        .isBoolean({ strict: true }).withMessage('Archived must be a boolean'),
+
+    body()
+        .custom(value => value.read !== undefined || value.archived !== undefined)
+        .withMessage('Read or archived is required')
+];
+
+/**
+ * Validation rules for marking all user events read
+ */
+exports.markAllReadValidation = [
+    body('event_types')
+        .optional()
+        .isArray().withMessage('Event types must be an array'),
+
+    body('event_types.*')
+        .isString().withMessage('Event types must be strings')
 ];